@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "ai_spend_records" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "tier" "SubscriptionTier" NOT NULL,
+    "section" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL,
+    "completionTokens" INTEGER NOT NULL,
+    "cost" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_spend_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_spend_records_userId_createdAt_idx" ON "ai_spend_records"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_spend_records_projectId_idx" ON "ai_spend_records"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "ai_spend_records" ADD CONSTRAINT "ai_spend_records_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_spend_records" ADD CONSTRAINT "ai_spend_records_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
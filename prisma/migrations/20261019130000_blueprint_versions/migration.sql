@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "blueprint_versions" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "userId" TEXT,
+    "version" INTEGER NOT NULL,
+    "blueprint" JSONB NOT NULL,
+    "source" TEXT NOT NULL,
+    "section" TEXT,
+    "summary" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "blueprint_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "blueprint_versions_projectId_version_key" ON "blueprint_versions"("projectId", "version");
+
+-- AddForeignKey
+ALTER TABLE "blueprint_versions" ADD CONSTRAINT "blueprint_versions_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "blueprint_versions" ADD CONSTRAINT "blueprint_versions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
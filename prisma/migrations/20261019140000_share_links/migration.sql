@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "share_links" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "passwordHash" TEXT,
+    "permissions" TEXT[],
+    "allowedSections" TEXT[],
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "lastAccessedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "share_links_token_key" ON "share_links"("token");
+
+-- CreateIndex
+CREATE INDEX "share_links_projectId_idx" ON "share_links"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move links without a password out of the analytics table. Plaintext
+-- passwords cannot be hashed here, so password-protected links are not
+-- carried over and have to be created again.
+INSERT INTO "share_links" ("id", "projectId", "createdById", "token", "permissions", "allowedSections", "expiresAt", "revokedAt", "createdAt", "updatedAt")
+SELECT
+    a."id",
+    a."projectId",
+    a."userId",
+    a."eventData"->>'shareToken',
+    ARRAY['view'],
+    CASE WHEN jsonb_typeof(a."eventData"->'allowedSections') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(a."eventData"->'allowedSections'))
+        ELSE ARRAY['all'] END,
+    (a."eventData"->>'expiresAt')::TIMESTAMP(3),
+    (SELECT MIN(r."createdAt") FROM "analytics" r
+        WHERE r."eventType" = 'share_revoked' AND r."eventData"->>'shareToken' = a."eventData"->>'shareToken'),
+    a."createdAt",
+    CURRENT_TIMESTAMP
+FROM "analytics" a
+JOIN "projects" p ON p."id" = a."projectId"
+JOIN "users" u ON u."id" = a."userId"
+WHERE a."eventType" = 'project_shared'
+  AND a."eventData"->>'shareToken' IS NOT NULL
+  AND COALESCE(a."eventData"->>'password', '') = ''
+ON CONFLICT ("token") DO NOTHING;
+
+-- Drop the plaintext passwords
+UPDATE "analytics"
+SET "eventData" = "eventData" - 'password'
+WHERE "eventType" = 'project_shared' AND "eventData" ? 'password';
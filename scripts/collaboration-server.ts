@@ -0,0 +1,35 @@
+/**
+ * Real-time collaboration server
+ * Relays blueprint edits between everyone editing a project and saves them.
+ *
+ *   npm run collab:server
+ *
+ * Needs DATABASE_URL and the app's NEXTAUTH_SECRET, which signs the tickets
+ * clients connect with. Listens on COLLABORATION_PORT (default 3001).
+ */
+
+import { createCollaborationServer } from '../src/lib/collaboration/server'
+import { projectCollaborationStore } from '../src/lib/collaboration/store'
+
+const secret = process.env.NEXTAUTH_SECRET
+const port = Number(process.env.COLLABORATION_PORT || 3001)
+
+if (!secret) {
+  console.error('NEXTAUTH_SECRET must be set to verify collaboration tickets')
+  process.exit(1)
+}
+
+const server = createCollaborationServer({ secret, store: projectCollaborationStore })
+
+server.listen(port, () => {
+  console.log(`Collaboration server listening on ws://localhost:${port}`)
+})
+
+const shutdown = async () => {
+  await server.flush()
+  server.close()
+  process.exit(0)
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
@@ -1,6 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
 import { AIOrchestrationService } from '@/lib/ai-services/ai-orchestrator'
 import { ProcessedIdea, BlueprintGenerationRequest } from '@/types/ai-services'
+import { SubscriptionTier } from '@/types'
+
+/**
+ * An orchestrator charging its calls to the signed-in user's AI budget,
+ * or null when nobody is signed in
+ */
+async function createBudgetedOrchestrator(): Promise<AIOrchestrationService | null> {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return null
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { subscription: true }
+  })
+
+  return new AIOrchestrationService({
+    budget: { userId: session.user.id, tier: user?.subscription ?? SubscriptionTier.FREE }
+  })
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -38,7 +62,11 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const orchestrator = new AIOrchestrationService()
+    const orchestrator = await createBudgetedOrchestrator()
+    if (!orchestrator) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const response = await orchestrator.generateBlueprint(generationRequest)
 
     return NextResponse.json({
@@ -72,7 +100,11 @@ export async function PUT(request: NextRequest) {
       }, { status: 400 })
     }
 
-    const orchestrator = new AIOrchestrationService()
+    const orchestrator = await createBudgetedOrchestrator()
+    if (!orchestrator) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const response = await orchestrator.regenerateSection(blueprint, section, feedback)
 
     return NextResponse.json({
@@ -108,7 +140,11 @@ export async function PATCH(request: NextRequest) {
       }, { status: 400 })
     }
 
-    const orchestrator = new AIOrchestrationService()
+    const orchestrator = await createBudgetedOrchestrator()
+    if (!orchestrator) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const response = await orchestrator.optimizeBlueprint(blueprint, criteria)
 
     return NextResponse.json({
@@ -134,6 +170,11 @@ export async function PATCH(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { searchParams } = new URL(request.url)
     const action = searchParams.get('action')
 
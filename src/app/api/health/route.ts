@@ -106,6 +106,11 @@ async function checkAIServices(): Promise<HealthCheck> {
       checks.push({ service: 'anthropic', status: 'configured' });
     }
     
+    // Check local model endpoint presence
+    if (process.env.LOCAL_AI_ENDPOINT) {
+      checks.push({ service: 'local', status: 'configured' });
+    }
+    
     // Check Replicate API key presence
     if (process.env.REPLICATE_API_TOKEN) {
       checks.push({ service: 'replicate', status: 'configured' });
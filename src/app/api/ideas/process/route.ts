@@ -5,39 +5,11 @@ import { IdeaInputSchema } from "@/types/validation-clean"
 import { processIdea } from "@/lib/idea-processor"
 import { AIOrchestrationService } from "@/lib/ai-services/ai-orchestrator"
 import { prisma } from "@/lib/prisma"
+import { saveBlueprint } from "@/lib/versioning/versions"
 import { z } from "zod"
-import { ProjectStatus } from "@/types"
-import { SubscriptionTier } from "@prisma/client"
-
-/**
- * Get or create a development user for testing purposes
- */
-async function getOrCreateDevUser(): Promise<string> {
-  const devEmail = process.env.NEXT_PUBLIC_DEV_USER_EMAIL || "dev@example.com"
-  const devName = process.env.NEXT_PUBLIC_DEV_USER_NAME || "Development User"
-  
-  let user = await prisma.user.findUnique({
-    where: { email: devEmail }
-  })
-  
-  if (!user) {
-    user = await prisma.user.create({
-      data: {
-        email: devEmail,
-        name: devName,
-        subscription: SubscriptionTier.FREE,
-        preferences: {
-          theme: "dark",
-          notifications: true,
-          autoSave: true,
-          defaultExportFormat: "pdf",
-        },
-      }
-    })
-  }
-  
-  return user.id
-}
+import { ProjectStatus, SubscriptionTier } from "@/types"
+import { getOrCreateDevUser } from "@/lib/dev-user"
+import { BlueprintStreamBroker } from "@/lib/blueprint-stream"
 
 export async function POST(request: NextRequest) {
   try {
@@ -73,6 +45,9 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    // Open the event stream now, so clients that connect before the first section starts can follow along
+    BlueprintStreamBroker.open(project.id)
+
     // Start blueprint generation in the background
     generateBlueprintAsync(processedIdea, project.id, userId)
       .catch(error => {
@@ -141,7 +116,14 @@ async function generateBlueprintAsync(
       progress: 5
     })
 
-    const orchestrator = new AIOrchestrationService()
+    // Charge the generation to the user's and the project's AI budget
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { subscription: true }
+    })
+    const orchestrator = new AIOrchestrationService({
+      budget: { userId, projectId, tier: user?.subscription ?? SubscriptionTier.FREE }
+    })
     
     // Build generation context
     const context = {
@@ -166,10 +148,15 @@ async function generateBlueprintAsync(
           progress: 30
         })
 
-        const response = await orchestrator.generateBlueprint({
-          idea: processedIdea,
-          context
-        })
+        const response = await orchestrator.generateBlueprint(
+          {
+            idea: processedIdea,
+            context
+          },
+          event => BlueprintStreamBroker.publish(projectId, event),
+          // Sections nobody is watching take the regular, cached path with real usage
+          { streamTokens: () => BlueprintStreamBroker.hasSubscribers(projectId) }
+        )
 
         GenerationProgressTracker.updateProgress(projectId, {
           currentStep: 'Finalizing blueprint...',
@@ -185,15 +172,14 @@ async function generateBlueprintAsync(
       }
     )
 
-    // Update the project with the generated blueprint
-    await prisma.project.update({
-      where: { id: projectId },
-      data: {
-        status: ProjectStatus.COMPLETED,
-        blueprint: blueprintResponse.blueprint as any,
-        generatedAt: new Date(),
-        lastModified: new Date()
-      }
+    // Update the project with the generated blueprint, recorded as its first version
+    await saveBlueprint(projectId, blueprintResponse.blueprint, {
+      source: 'generation',
+      userId,
+      summary: 'Generated blueprint'
+    }, {
+      status: ProjectStatus.COMPLETED,
+      generatedAt: new Date()
     })
 
     // Complete progress tracking
@@ -208,6 +194,7 @@ async function generateBlueprintAsync(
     // Clear progress after a delay
     setTimeout(() => {
       GenerationProgressTracker.clearProgress(projectId)
+      BlueprintStreamBroker.clear(projectId)
     }, 5000)
 
   } catch (error) {
@@ -230,6 +217,11 @@ async function generateBlueprintAsync(
       progress: 0,
       error: blueprintError
     })
+    BlueprintStreamBroker.publish(projectId, {
+      type: 'generation-failed',
+      message: blueprintError.userMessage
+    })
+    setTimeout(() => BlueprintStreamBroker.clear(projectId), 5000)
     
     // Update project status to failed
     await prisma.project.update({
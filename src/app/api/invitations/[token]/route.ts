@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { acceptInvitation } from "@/lib/organizations/organizations"
+
+type RouteParams = { params: Promise<{ token: string }> }
+
+/** What the invitation is for, so the invitee can decide to accept it */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { token } = await params
+    const invitation = await prisma.organizationInvitation.findUnique({
+      where: { token },
+      select: {
+        email: true,
+        role: true,
+        expiresAt: true,
+        acceptedAt: true,
+        revokedAt: true,
+        organization: { select: { id: true, name: true } },
+        invitedBy: { select: { name: true, email: true } }
+      }
+    })
+
+    if (!invitation || invitation.revokedAt) {
+      return NextResponse.json(
+        { error: "Invitation not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        organization: invitation.organization,
+        email: invitation.email,
+        role: invitation.role,
+        invitedBy: invitation.invitedBy.name || invitation.invitedBy.email,
+        expiresAt: invitation.expiresAt,
+        accepted: !!invitation.acceptedAt
+      }
+    })
+  } catch (error) {
+    console.error("Error fetching invitation:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch invitation" },
+      { status: 500 }
+    )
+  }
+}
+
+/** Accepts the invitation for the signed-in user */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { token } = await params
+    const result = await acceptInvitation(token, session.user)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: "Invitation accepted"
+    })
+  } catch (error) {
+    console.error("Error accepting invitation:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to accept invitation" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { authorizeOrganization, createInvitation, InvitationInputSchema } from "@/lib/organizations/organizations"
+import { z } from "zod"
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+function baseUrl() {
+  return process.env.NEXTAUTH_URL || 'http://localhost:3000'
+}
+
+/** Invites someone to the organization by email */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: organizationId } = await params
+    const body = await request.json()
+    const { email, role } = InvitationInputSchema.parse(body)
+
+    const access = await authorizeOrganization(organizationId, session.user.id, 'owner')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const result = await createInvitation(access.organization, email, role, {
+      id: session.user.id,
+      name: session.user.name
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      )
+    }
+
+    const invitation = result.data
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        inviteUrl: `${baseUrl()}/invitations/${invitation.token}`
+      },
+      message: "Invitation created successfully"
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error creating invitation:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to create invitation" },
+      { status: 500 }
+    )
+  }
+}
+
+/** Revokes the pending invitation given as `?invitationId=` */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: organizationId } = await params
+    const { searchParams } = new URL(request.url)
+    const invitationId = searchParams.get('invitationId')
+
+    if (!invitationId) {
+      return NextResponse.json(
+        { error: "Invitation id is required" },
+        { status: 400 }
+      )
+    }
+
+    const access = await authorizeOrganization(organizationId, session.user.id, 'owner')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { count } = await prisma.organizationInvitation.updateMany({
+      where: { id: invitationId, organizationId, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() }
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Invitation not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Invitation revoked"
+    })
+  } catch (error) {
+    console.error("Error revoking invitation:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to revoke invitation" },
+      { status: 500 }
+    )
+  }
+}
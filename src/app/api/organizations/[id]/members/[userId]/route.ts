@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeOrganization, changeMembership, MemberRoleSchema } from "@/lib/organizations/organizations"
+import { z } from "zod"
+
+type RouteParams = { params: Promise<{ id: string; userId: string }> }
+
+/** Changes a member's role */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: organizationId, userId } = await params
+    const body = await request.json()
+    const { role } = MemberRoleSchema.parse(body)
+
+    const access = await authorizeOrganization(organizationId, session.user.id, 'owner')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const result = await changeMembership(organizationId, userId, role)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: "Member role updated"
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error updating member:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to update member" },
+      { status: 500 }
+    )
+  }
+}
+
+/** Removes a member. Owners can remove anyone; every member can leave. */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: organizationId, userId } = await params
+    const leaving = userId === session.user.id
+    const access = await authorizeOrganization(organizationId, session.user.id, leaving ? 'viewer' : 'owner')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const result = await changeMembership(organizationId, userId, null)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: leaving ? "You left the organization" : "Member removed"
+    })
+  } catch (error) {
+    console.error("Error removing member:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to remove member" },
+      { status: 500 }
+    )
+  }
+}
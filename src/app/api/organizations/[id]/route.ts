@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { authorizeOrganization, CreateOrganizationSchema } from "@/lib/organizations/organizations"
+import { z } from "zod"
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+/** The organization's members, and its pending invitations for owners */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: organizationId } = await params
+    const access = await authorizeOrganization(organizationId, session.user.id)
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const [members, invitations] = await Promise.all([
+      prisma.membership.findMany({
+        where: { organizationId },
+        select: {
+          role: true,
+          createdAt: true,
+          user: { select: { id: true, name: true, email: true, image: true } }
+        },
+        orderBy: { createdAt: 'asc' }
+      }),
+      access.role === 'owner'
+        ? prisma.organizationInvitation.findMany({
+          where: { organizationId, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+          select: { id: true, email: true, role: true, token: true, expiresAt: true, createdAt: true },
+          orderBy: { createdAt: 'desc' }
+        })
+        : []
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...access.organization,
+        role: access.role,
+        members,
+        invitations
+      }
+    })
+  } catch (error) {
+    console.error("Error fetching organization:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch organization" },
+      { status: 500 }
+    )
+  }
+}
+
+/** Renames the organization */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: organizationId } = await params
+    const body = await request.json()
+    const { name } = CreateOrganizationSchema.parse(body)
+
+    const access = await authorizeOrganization(organizationId, session.user.id, 'owner')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const organization = await prisma.organization.update({
+      where: { id: organizationId },
+      data: { name }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: organization,
+      message: "Organization updated successfully"
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error updating organization:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to update organization" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Deletes the organization. Its projects are not deleted: they go back to
+ * the people who created them.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: organizationId } = await params
+    const access = await authorizeOrganization(organizationId, session.user.id, 'owner')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    await prisma.organization.delete({ where: { id: organizationId } })
+
+    return NextResponse.json({
+      success: true,
+      message: "Organization deleted successfully"
+    })
+  } catch (error) {
+    console.error("Error deleting organization:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to delete organization" },
+      { status: 500 }
+    )
+  }
+}
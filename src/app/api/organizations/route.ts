@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { createOrganization, CreateOrganizationSchema, listOrganizations } from "@/lib/organizations/organizations"
+import { z } from "zod"
+
+/** The team workspaces the user belongs to */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await listOrganizations(session.user.id)
+    })
+  } catch (error) {
+    console.error("Error fetching organizations:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch organizations" },
+      { status: 500 }
+    )
+  }
+}
+
+/** Creates a team workspace. Team collaboration is an Enterprise feature. */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (session.user.subscription !== 'ENTERPRISE') {
+      return NextResponse.json(
+        { success: false, error: "Team workspaces need an Enterprise subscription" },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { name } = CreateOrganizationSchema.parse(body)
+    const organization = await createOrganization(name, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: organization,
+      message: "Organization created successfully"
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error creating organization:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to create organization" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeProject } from "@/lib/access/project-access"
+import { saveBlueprint } from "@/lib/versioning/versions"
+import { businessModelOf } from "@/lib/business-model/canvas"
+import { Blueprint, ComprehensiveProductPlan } from "@/types"
+import { BusinessModelCanvasSchema, ValuePropositionSchema } from "@/types/validation"
+import { z } from "zod"
+
+const BusinessModelRequestSchema = z.object({
+  canvas: BusinessModelCanvasSchema,
+  valueProposition: ValuePropositionSchema
+})
+
+/**
+ * Saves the edited canvas and value proposition on the project's product
+ * plan, where they replace the ones derived from the blueprint.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const { canvas, valueProposition } = BusinessModelRequestSchema.parse(body)
+
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { project } = access
+
+    const blueprint = (project.blueprint ?? {}) as Partial<Blueprint>
+
+    if (!blueprint.productPlan) {
+      return NextResponse.json(
+        { error: "Project has no product plan" },
+        { status: 400 }
+      )
+    }
+
+    const productPlan: ComprehensiveProductPlan = {
+      ...blueprint.productPlan,
+      businessModelCanvas: canvas,
+      valueProposition
+    }
+
+    await saveBlueprint(projectId, { ...blueprint, productPlan }, {
+      source: 'edit',
+      userId: session.user.id,
+      section: 'productPlan',
+      summary: 'Edited business model canvas'
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: businessModelOf(productPlan, blueprint.financialModel),
+      message: "Business model updated successfully"
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error updating business model:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update business model"
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Drops the saved edits so the canvas is derived from the blueprint again.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { project } = access
+
+    const blueprint = (project.blueprint ?? {}) as Partial<Blueprint>
+    const productPlan = { ...blueprint.productPlan } as ComprehensiveProductPlan
+    delete productPlan.businessModelCanvas
+    delete productPlan.valueProposition
+
+    await saveBlueprint(projectId, { ...blueprint, productPlan }, {
+      source: 'edit',
+      userId: session.user.id,
+      section: 'productPlan',
+      summary: 'Reset business model canvas'
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: businessModelOf(productPlan, blueprint.financialModel),
+      message: "Business model reset successfully"
+    })
+  } catch (error) {
+    console.error("Error resetting business model:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to reset business model"
+      },
+      { status: 500 }
+    )
+  }
+}
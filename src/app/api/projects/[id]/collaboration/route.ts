@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeProject } from "@/lib/access/project-access"
+import { signCollaborationTicket } from "@/lib/collaboration/tickets"
+
+/**
+ * Issues a short-lived ticket for joining the project's real-time editing
+ * session on the collaboration server. Viewers join to follow along;
+ * editors can also edit.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const secret = process.env.NEXTAUTH_SECRET
+    if (!secret) {
+      return NextResponse.json(
+        { success: false, error: "Real-time collaboration is not configured" },
+        { status: 503 }
+      )
+    }
+
+    const { id: projectId } = await params
+
+    // Verify project access
+    const access = await authorizeProject(projectId, session.user.id)
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const ticket = signCollaborationTicket({
+      projectId,
+      userId: session.user.id,
+      name: session.user.name || session.user.email || "Someone",
+      role: access.role
+    }, secret)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ticket,
+        url: process.env.NEXT_PUBLIC_COLLABORATION_URL || "ws://localhost:3001",
+        role: access.role
+      }
+    })
+  } catch (error) {
+    console.error("Error creating collaboration ticket:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to join collaboration session" },
+      { status: 500 }
+    )
+  }
+}
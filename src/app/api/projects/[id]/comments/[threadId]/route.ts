@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeProject } from "@/lib/access/project-access"
+import { CommentReplySchema, CommentThreadStatusSchema, replyToThread, setThreadStatus } from "@/lib/comments/threads"
+import { z } from "zod"
+
+type RouteParams = { params: Promise<{ id: string; threadId: string }> }
+
+/** Replies to a comment thread */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId, threadId } = await params
+    const body = await request.json()
+    const { body: text } = CommentReplySchema.parse(body)
+
+    const access = await authorizeProject(projectId, session.user.id)
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const thread = await replyToThread(projectId, threadId, text, {
+      userId: session.user.id,
+      name: session.user.name || session.user.email || 'Project owner'
+    })
+
+    if (!thread) {
+      return NextResponse.json(
+        { error: "Comment thread not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: thread,
+      message: "Reply added successfully"
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error replying to comment:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to add reply"
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/** Resolves or reopens a comment thread */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId, threadId } = await params
+    const body = await request.json()
+    const { status } = CommentThreadStatusSchema.parse(body)
+
+    const access = await authorizeProject(projectId, session.user.id)
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const thread = await setThreadStatus(projectId, threadId, status, session.user.id)
+
+    if (!thread) {
+      return NextResponse.json(
+        { error: "Comment thread not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: thread,
+      message: status === 'resolved' ? "Thread resolved" : "Thread reopened"
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error updating comment thread:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update comment thread"
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeProject } from "@/lib/access/project-access"
+import { CommentThreadInputSchema, createCommentThread, listCommentThreads } from "@/lib/comments/threads"
+import { z } from "zod"
+
+/** Lists the comment threads on the project's blueprint */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const access = await authorizeProject(projectId, session.user.id)
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await listCommentThreads(projectId)
+    })
+
+  } catch (error) {
+    console.error("Error fetching comments:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch comments"
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/** Starts a comment thread on one field of the blueprint */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const { body: text, ...anchor } = CommentThreadInputSchema.parse(body)
+
+    const access = await authorizeProject(projectId, session.user.id)
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const thread = await createCommentThread(projectId, anchor, text, {
+      userId: session.user.id,
+      name: session.user.name || session.user.email || 'Project owner'
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: thread,
+      message: "Comment added successfully"
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error adding comment:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to add comment"
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeProject } from "@/lib/access/project-access"
+import { saveBlueprint } from "@/lib/versioning/versions"
+import { analyzeCompetition, ProductPlanWithCompetitors } from "@/lib/competitive-analysis/matrix"
+import { Blueprint } from "@/types"
+import { CompetitorDataSchema } from "@/types/validation"
+import { z } from "zod"
+
+const CompetitorsRequestSchema = z.object({
+  competitors: z.array(CompetitorDataSchema).max(50)
+})
+
+/**
+ * Saves the competitors the user entered or uploaded on the project's
+ * product plan, where they are merged with the AI's competitors.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const { competitors } = CompetitorsRequestSchema.parse(body)
+
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { project } = access
+
+    const blueprint = (project.blueprint ?? {}) as Partial<Blueprint>
+
+    if (!blueprint.productPlan) {
+      return NextResponse.json(
+        { error: "Project has no product plan" },
+        { status: 400 }
+      )
+    }
+
+    const productPlan: ProductPlanWithCompetitors = { ...blueprint.productPlan, competitorData: competitors }
+
+    await saveBlueprint(projectId, { ...blueprint, productPlan }, {
+      source: 'edit',
+      userId: session.user.id,
+      section: 'productPlan',
+      summary: 'Updated competitor data'
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        competitors,
+        analysis: analyzeCompetition(productPlan)
+      },
+      message: "Competitors saved successfully"
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error saving competitors:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to save competitors"
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { authorizeProject } from "@/lib/access/project-access"
 import { ProjectStatus } from "@/types"
 
 export async function POST(
@@ -20,20 +21,17 @@ export async function POST(
     const { name } = body
 
     // Fetch the original project
-    const originalProject = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        userId: session.user.id
-      }
-    })
+    const access = await authorizeProject(projectId, session.user.id)
 
-    if (!originalProject) {
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: "Project not found" }, 
-        { status: 404 }
+        { error: access.error }, 
+        { status: access.status }
       )
     }
 
+    const { project: originalProject } = access
+
     // Create duplicate project
     const duplicatedProject = await prisma.project.create({
       data: {
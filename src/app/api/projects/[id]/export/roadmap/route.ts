@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { authorizeProject } from "@/lib/access/project-access"
+import { exportRoadmap, ROADMAP_EXPORT_FORMATS, RoadmapExportFormat } from "@/lib/roadmap/exporters"
+import { Roadmap } from "@/types"
+
+/**
+ * Downloads the project's roadmap as a milestone calendar, a task list or
+ * an issue-tracker import file, chosen with `?format=`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const format = request.nextUrl.searchParams.get("format") as RoadmapExportFormat | null
+
+    if (!format || !Object.hasOwn(ROADMAP_EXPORT_FORMATS, format)) {
+      return NextResponse.json(
+        { error: "Invalid roadmap export format" },
+        { status: 400 }
+      )
+    }
+
+    const access = await authorizeProject(projectId, session.user.id)
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { project } = access
+
+    const roadmap = (project.blueprint as { roadmap?: Roadmap } | null)?.roadmap
+
+    if (!roadmap?.phases?.length) {
+      return NextResponse.json(
+        { error: "Project has no roadmap to export" },
+        { status: 400 }
+      )
+    }
+
+    const { mimeType, extension } = ROADMAP_EXPORT_FORMATS[format]
+    const content = exportRoadmap(roadmap, format, { projectName: project.name })
+    const filename = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_roadmap_${format}.${extension}`
+
+    await prisma.analytics.create({
+      data: {
+        userId: session.user.id,
+        projectId: projectId,
+        eventType: 'roadmap_exported',
+        eventData: { format },
+        success: true
+      }
+    })
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': `${mimeType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'X-Export-Success': 'true'
+      }
+    })
+  } catch (error) {
+    console.error("Error exporting roadmap:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to export roadmap"
+      },
+      { status: 500 }
+    )
+  }
+}
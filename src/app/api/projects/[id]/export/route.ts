@@ -2,7 +2,11 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { authorizeProject } from "@/lib/access/project-access"
 import { ExportFormat } from "@/types"
+import { buildInvestorReport, ReportBlueprint } from "@/lib/investor-report/builder"
+import { blocksToHTML, blocksToMarkdown, reportToBlocks } from "@/lib/investor-report/document"
+import { blocksToPDF } from "@/lib/investor-report/pdf"
 
 export async function POST(
   request: NextRequest,
@@ -17,7 +21,7 @@ export async function POST(
 
     const projectId = params.id
     const body = await request.json()
-    const { format, sections } = body
+    const { format, sections, document = 'blueprint' } = body
 
     if (!format || !Object.values(ExportFormat).includes(format)) {
       return NextResponse.json(
@@ -27,20 +31,17 @@ export async function POST(
     }
 
     // Fetch the project
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        userId: session.user.id
-      }
-    })
+    const access = await authorizeProject(projectId, session.user.id)
 
-    if (!project) {
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: "Project not found" }, 
-        { status: 404 }
+        { error: access.error }, 
+        { status: access.status }
       )
     }
 
+    const { project } = access
+
     if (!project.blueprint) {
       return NextResponse.json(
         { error: "Project must have a completed blueprint to export" },
@@ -48,6 +49,10 @@ export async function POST(
       )
     }
 
+    if (document === 'investor-report') {
+      return exportInvestorReport(project, format, session.user.id)
+    }
+
     // Generate export content based on format
     let exportContent: string
     let mimeType: string
@@ -122,6 +127,52 @@ export async function POST(
   }
 }
 
+/**
+ * Downloads the investor report built from the blueprint and the user's
+ * narrative edits. Unlike the blueprint export, PDF is rendered here
+ * rather than handed off to another endpoint.
+ */
+async function exportInvestorReport(
+  project: { id: string; name: string; blueprint: unknown },
+  format: ExportFormat,
+  userId: string
+): Promise<NextResponse> {
+  const blueprint = project.blueprint as ReportBlueprint
+  const title = `${project.name}: Investor Report`
+  const report = buildInvestorReport(blueprint, {
+    projectName: project.name,
+    narrative: blueprint.reportNarrative
+  })
+  const blocks = reportToBlocks(report, title)
+  const basename = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_investor_report`
+
+  const files: Record<ExportFormat, { content: string | Uint8Array; mimeType: string; extension: string }> = {
+    [ExportFormat.PDF]: { content: blocksToPDF(blocks, title), mimeType: 'application/pdf', extension: 'pdf' },
+    [ExportFormat.HTML]: { content: blocksToHTML(blocks, title), mimeType: 'text/html', extension: 'html' },
+    [ExportFormat.MARKDOWN]: { content: blocksToMarkdown(blocks), mimeType: 'text/markdown', extension: 'md' },
+    [ExportFormat.JSON]: { content: JSON.stringify(report, null, 2), mimeType: 'application/json', extension: 'json' }
+  }
+  const { content, mimeType, extension } = files[format]
+
+  await prisma.analytics.create({
+    data: {
+      userId,
+      projectId: project.id,
+      eventType: 'investor_report_exported',
+      eventData: { format },
+      success: true
+    }
+  })
+
+  return new NextResponse(typeof content === 'string' ? content : Buffer.from(content), {
+    headers: {
+      'Content-Type': mimeType,
+      'Content-Disposition': `attachment; filename="${basename}.${extension}"`,
+      'X-Export-Success': 'true'
+    }
+  })
+}
+
 function generateMarkdownExport(project: any, sections?: string[]): string {
   const blueprint = project.blueprint
   const includeSection = (section: string) => !sections || sections.includes(section)
@@ -2,9 +2,10 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { authorizeProject } from "@/lib/access/project-access"
 
-// For now, we'll track history through the analytics table
-// In a more robust implementation, we'd have a dedicated project_versions table
+// Activity history comes from the analytics table. Snapshots of the
+// blueprint itself are kept as versions, see ../versions
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -18,26 +19,21 @@ export async function GET(
 
     const projectId = params.id
 
-    // Verify project ownership
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        userId: session.user.id
-      }
-    })
+    // Verify project access
+    const access = await authorizeProject(projectId, session.user.id)
 
-    if (!project) {
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: "Project not found" }, 
-        { status: 404 }
+        { error: access.error }, 
+        { status: access.status }
       )
     }
 
     // Get project history from analytics
     const history = await prisma.analytics.findMany({
       where: {
+        // Everyone's activity, for projects shared with a team
         projectId: projectId,
-        userId: session.user.id,
         eventType: {
           in: [
             'project_created',
@@ -86,18 +82,13 @@ export async function POST(
     const body = await request.json()
     const { eventType, eventData } = body
 
-    // Verify project ownership
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        userId: session.user.id
-      }
-    })
+    // Verify project access
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
 
-    if (!project) {
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: "Project not found" }, 
-        { status: 404 }
+        { error: access.error }, 
+        { status: access.status }
       )
     }
 
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeProject } from "@/lib/access/project-access"
+import { saveBlueprint } from "@/lib/versioning/versions"
+import { investorReportData, ReportBlueprint, ReportNarrative, ReportNarrativeSchema } from "@/lib/investor-report/builder"
+import { z } from "zod"
+
+const NarrativeRequestSchema = z.object({
+  narrative: ReportNarrativeSchema
+})
+
+/**
+ * Returns the investor report assembled from the project's blueprint,
+ * with its narrative text as edited and as generated, so the editor can
+ * tell which fields the user has changed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const access = await authorizeProject(projectId, session.user.id)
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { project } = access
+
+    const blueprint = project.blueprint as ReportBlueprint | null
+
+    if (!blueprint) {
+      return NextResponse.json(
+        { error: "Project must have a completed blueprint for an investor report" },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: investorReportData(blueprint, project.name)
+    })
+  } catch (error) {
+    console.error("Error building investor report:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to build investor report"
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Replaces the saved narrative text. Fields left out or empty go back to
+ * the text generated from the blueprint.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const { narrative } = NarrativeRequestSchema.parse(body)
+
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { project } = access
+
+    const blueprint = project.blueprint as ReportBlueprint | null
+
+    if (!blueprint) {
+      return NextResponse.json(
+        { error: "Project must have a completed blueprint for an investor report" },
+        { status: 400 }
+      )
+    }
+
+    // Keep only the fields the user actually wrote something in
+    const reportNarrative: ReportNarrative = Object.fromEntries(
+      Object.entries(narrative).filter(([, text]) => typeof text === 'string' && text.trim() !== '')
+    )
+
+    const updated: ReportBlueprint = { ...blueprint, reportNarrative }
+    await saveBlueprint(projectId, updated, {
+      source: 'edit',
+      userId: session.user.id,
+      summary: 'Edited investor report narrative'
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: investorReportData(updated, project.name),
+      message: "Investor report updated successfully"
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error updating investor report:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update investor report"
+      },
+      { status: 500 }
+    )
+  }
+}
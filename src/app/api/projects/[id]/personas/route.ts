@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeProject } from "@/lib/access/project-access"
+import { saveBlueprint } from "@/lib/versioning/versions"
+import { AIOrchestrationService } from "@/lib/ai-services/ai-orchestrator"
+import { Blueprint, ComprehensiveProductPlan } from "@/types"
+import { UserPersonaSchema } from "@/types/validation"
+import { z } from "zod"
+
+const GeneratePersonasRequestSchema = z.object({
+  count: z.number().int().min(1).max(6).optional()
+})
+
+const SavePersonasRequestSchema = z.object({
+  personas: z.array(UserPersonaSchema).max(10)
+})
+
+/**
+ * Generates personas from the project's idea and target audience. They are
+ * returned for the user to refine and are not saved until they are PUT.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const { count } = GeneratePersonasRequestSchema.parse(body)
+
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { project } = access
+
+    const blueprint = project.blueprint as Partial<Blueprint> | null
+    const orchestrator = new AIOrchestrationService({
+      budget: { userId: session.user.id, projectId, tier: session.user.subscription }
+    })
+
+    const response = await orchestrator.generatePersonas(
+      project.originalIdea,
+      blueprint?.productPlan?.targetAudience,
+      count
+    )
+
+    if (!response.success || !response.data) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: response.error?.message || "Failed to generate personas"
+        },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        personas: response.data,
+        usage: response.usage
+      },
+      message: "Personas generated successfully"
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error generating personas:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to generate personas"
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Saves the project's personas on its product plan, replacing the
+ * previous ones.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const { personas } = SavePersonasRequestSchema.parse(body)
+
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { project } = access
+
+    const blueprint = (project.blueprint ?? {}) as Partial<Blueprint>
+
+    if (!blueprint.productPlan) {
+      return NextResponse.json(
+        { error: "Project has no product plan" },
+        { status: 400 }
+      )
+    }
+
+    const productPlan: ComprehensiveProductPlan = { ...blueprint.productPlan, userPersonas: personas }
+
+    await saveBlueprint(projectId, { ...blueprint, productPlan }, {
+      source: 'edit',
+      userId: session.user.id,
+      section: 'productPlan',
+      summary: 'Updated personas'
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { personas },
+      message: "Personas saved successfully"
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error saving personas:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to save personas"
+      },
+      { status: 500 }
+    )
+  }
+}
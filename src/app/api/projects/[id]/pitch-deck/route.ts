@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { authorizeProject } from "@/lib/access/project-access"
+import { buildPitchDeck } from "@/lib/pitch-deck/generator"
+import { pitchDeckToHTML } from "@/lib/pitch-deck/html-export"
+import { pitchDeckToPPTX } from "@/lib/pitch-deck/pptx-export"
+import { DECK_THEMES } from "@/lib/pitch-deck/themes"
+import { Blueprint } from "@/types"
+
+const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+
+/**
+ * Builds an investor deck from the project's blueprint. Returns the slides
+ * as JSON for the viewer, or downloads them with `?format=html|pptx`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const format = request.nextUrl.searchParams.get("format")
+    const theme = request.nextUrl.searchParams.get("theme") ?? undefined
+
+    if (format && format !== 'html' && format !== 'pptx') {
+      return NextResponse.json(
+        { error: "Invalid pitch deck format" },
+        { status: 400 }
+      )
+    }
+
+    if (theme && !Object.hasOwn(DECK_THEMES, theme)) {
+      return NextResponse.json(
+        { error: "Unknown pitch deck theme" },
+        { status: 400 }
+      )
+    }
+
+    const access = await authorizeProject(projectId, session.user.id)
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { project } = access
+
+    const blueprint = project.blueprint as Partial<Blueprint> | null
+
+    if (!blueprint?.productPlan && !blueprint?.financialModel) {
+      return NextResponse.json(
+        { error: "Project blueprint is not ready for a pitch deck" },
+        { status: 400 }
+      )
+    }
+
+    const deck = buildPitchDeck(blueprint, { title: project.name, theme })
+
+    if (!format) {
+      return NextResponse.json({ success: true, data: deck })
+    }
+
+    await prisma.analytics.create({
+      data: {
+        userId: session.user.id,
+        projectId: projectId,
+        eventType: 'pitch_deck_exported',
+        eventData: { format, theme: deck.theme, slides: deck.slides.length },
+        success: true
+      }
+    })
+
+    const filename = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_pitch_deck.${format}`
+    const headers = {
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'X-Export-Success': 'true'
+    }
+
+    if (format === 'pptx') {
+      return new NextResponse(Buffer.from(pitchDeckToPPTX(deck)), {
+        headers: { ...headers, 'Content-Type': PPTX_MIME_TYPE }
+      })
+    }
+
+    return new NextResponse(pitchDeckToHTML(deck), {
+      headers: { ...headers, 'Content-Type': 'text/html; charset=utf-8' }
+    })
+  } catch (error) {
+    console.error("Error generating pitch deck:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to generate pitch deck"
+      },
+      { status: 500 }
+    )
+  }
+}
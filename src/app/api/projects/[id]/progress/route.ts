@@ -1,39 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
-import { prisma } from "@/lib/prisma"
+import { authorizeProject } from "@/lib/access/project-access"
 import { GenerationProgressTracker } from "@/lib/blueprint-error-handler"
-import { SubscriptionTier } from "@prisma/client"
-
-/**
- * Get or create a development user for testing purposes
- */
-async function getOrCreateDevUser(): Promise<string> {
-  const devEmail = process.env.NEXT_PUBLIC_DEV_USER_EMAIL || "dev@example.com"
-  const devName = process.env.NEXT_PUBLIC_DEV_USER_NAME || "Development User"
-  
-  let user = await prisma.user.findUnique({
-    where: { email: devEmail }
-  })
-  
-  if (!user) {
-    user = await prisma.user.create({
-      data: {
-        email: devEmail,
-        name: devName,
-        subscription: SubscriptionTier.FREE,
-        preferences: {
-          theme: "dark",
-          notifications: true,
-          autoSave: true,
-          defaultExportFormat: "pdf",
-        },
-      }
-    })
-  }
-  
-  return user.id
-}
+import { getOrCreateDevUser } from "@/lib/dev-user"
 
 export async function GET(
   request: NextRequest,
@@ -55,26 +25,18 @@ export async function GET(
 
     const { id: projectId } = await params
 
-    // Verify the project belongs to the user
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        userId: userId
-      },
-      select: {
-        id: true,
-        status: true,
-        name: true
-      }
-    })
+    // Verify the user can see the project
+    const access = await authorizeProject(projectId, userId)
 
-    if (!project) {
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: "Project not found" }, 
-        { status: 404 }
+        { error: access.error }, 
+        { status: access.status }
       )
     }
 
+    const { project } = access
+
     // Get progress from tracker
     const progress = GenerationProgressTracker.getProgress(projectId)
 
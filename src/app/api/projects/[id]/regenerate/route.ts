@@ -1,14 +1,18 @@
 import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
-import { prisma } from "@/lib/prisma"
+import { authorizeProject } from "@/lib/access/project-access"
+import { saveBlueprint } from "@/lib/versioning/versions"
 import { AIOrchestrationService } from "@/lib/ai-services/ai-orchestrator"
 import { z } from "zod"
 import { BlueprintSection } from "@/types/ai-services"
+import { ComprehensiveProductPlan } from "@/types"
 
 const RegenerateRequestSchema = z.object({
   section: z.enum(['productPlan', 'techStack', 'aiWorkflow', 'roadmap', 'financialModel']),
-  feedback: z.string().optional()
+  feedback: z.string().optional(),
+  // Names of saved personas the product plan's features and GTM should be designed for
+  personas: z.array(z.string()).max(10).optional()
 })
 
 export async function POST(
@@ -24,23 +28,20 @@ export async function POST(
 
     const projectId = params.id
     const body = await request.json()
-    const { section, feedback } = RegenerateRequestSchema.parse(body)
+    const { section, feedback, personas: personaNames } = RegenerateRequestSchema.parse(body)
 
     // Fetch the project with blueprint
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        userId: session.user.id
-      }
-    })
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
 
-    if (!project) {
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: "Project not found" }, 
-        { status: 404 }
+        { error: access.error }, 
+        { status: access.status }
       )
     }
 
+    const { project } = access
+
     if (!project.blueprint) {
       return NextResponse.json(
         { error: "Project has no blueprint to regenerate" }, 
@@ -48,13 +49,26 @@ export async function POST(
       )
     }
 
-    const orchestrator = new AIOrchestrationService()
+    const savedPersonas = (project.blueprint as { productPlan?: ComprehensiveProductPlan }).productPlan?.userPersonas
+    const personas = (savedPersonas ?? []).filter(persona => personaNames?.includes(persona.name))
+
+    if (personaNames?.length && personas.length === 0) {
+      return NextResponse.json(
+        { error: "None of the selected personas are saved on this project" },
+        { status: 400 }
+      )
+    }
+
+    const orchestrator = new AIOrchestrationService({
+      budget: { userId: session.user.id, projectId, tier: session.user.subscription }
+    })
     
     // Regenerate the specific section
     const regeneratedResponse = await orchestrator.regenerateSection(
       project.blueprint as any,
       section as BlueprintSection,
-      feedback
+      feedback,
+      { idea: project.originalIdea, personas }
     )
 
     if (!regeneratedResponse.success) {
@@ -67,27 +81,27 @@ export async function POST(
       )
     }
 
-    // Update the blueprint with the regenerated section
+    // Update the blueprint with the regenerated section, which keeps what the user entered
+    const regenerated = regeneratedResponse.data
     const updatedBlueprint = {
       ...project.blueprint as any,
-      [section]: regeneratedResponse.data,
+      [section]: regenerated,
       generatedAt: new Date()
     }
 
-    // Save the updated blueprint
-    await prisma.project.update({
-      where: { id: projectId },
-      data: {
-        blueprint: updatedBlueprint,
-        lastModified: new Date()
-      }
+    // Save the updated blueprint as a new version, so a bad regeneration can be undone
+    await saveBlueprint(projectId, updatedBlueprint, {
+      source: 'regeneration',
+      userId: session.user.id,
+      section: section as BlueprintSection,
+      summary: feedback ? `Regenerated ${section}: ${feedback}` : `Regenerated ${section}`
     })
 
     return NextResponse.json({
       success: true,
       data: {
         section,
-        regeneratedData: regeneratedResponse.data,
+        regeneratedData: regenerated,
         usage: regeneratedResponse.usage
       },
       message: `${section} regenerated successfully`
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeProject } from "@/lib/access/project-access"
+import { saveBlueprint } from "@/lib/versioning/versions"
+import { reschedule } from "@/lib/roadmap/scheduler"
+import { Blueprint } from "@/types"
+import { z } from "zod"
+
+const ScheduleRequestSchema = z.object({
+  startDate: z.coerce.date().optional(),
+  teamSize: z.number().int().min(1).max(100).optional(),
+  hoursPerDay: z.number().min(1).max(24).optional()
+})
+
+/**
+ * Schedules the project's roadmap again from a new start date, team size
+ * or working day, and saves it. Options left out keep their current values.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const options = ScheduleRequestSchema.parse(body)
+
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { project } = access
+
+    const blueprint = project.blueprint as Partial<Blueprint> | null
+
+    if (!blueprint?.roadmap?.phases?.length) {
+      return NextResponse.json(
+        { error: "Project has no roadmap to schedule" },
+        { status: 400 }
+      )
+    }
+
+    const roadmap = reschedule(blueprint.roadmap, options)
+
+    await saveBlueprint(projectId, { ...blueprint, roadmap }, {
+      source: 'edit',
+      userId: session.user.id,
+      section: 'roadmap',
+      summary: 'Rescheduled roadmap'
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { roadmap },
+      message: "Roadmap rescheduled successfully"
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error rescheduling roadmap:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to reschedule roadmap"
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -2,38 +2,10 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { authorizeProject } from "@/lib/access/project-access"
+import { authorizeOrganization } from "@/lib/organizations/organizations"
 import { ProjectStatus } from "@/types"
-import { SubscriptionTier } from "@prisma/client"
-
-/**
- * Get or create a development user for testing purposes
- */
-async function getOrCreateDevUser(): Promise<string> {
-  const devEmail = process.env.NEXT_PUBLIC_DEV_USER_EMAIL || "dev@example.com"
-  const devName = process.env.NEXT_PUBLIC_DEV_USER_NAME || "Development User"
-  
-  let user = await prisma.user.findUnique({
-    where: { email: devEmail }
-  })
-  
-  if (!user) {
-    user = await prisma.user.create({
-      data: {
-        email: devEmail,
-        name: devName,
-        subscription: SubscriptionTier.FREE,
-        preferences: {
-          theme: "dark",
-          notifications: true,
-          autoSave: true,
-          defaultExportFormat: "pdf",
-        },
-      }
-    })
-  }
-  
-  return user.id
-}
+import { getOrCreateDevUser } from "@/lib/dev-user"
 
 export async function GET(
   request: NextRequest,
@@ -56,20 +28,17 @@ export async function GET(
     const { id: projectId } = await params
 
     // Fetch the project with blueprint
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        userId: userId
-      }
-    })
+    const access = await authorizeProject(projectId, userId)
 
-    if (!project) {
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: "Project not found" }, 
-        { status: 404 }
+        { error: access.error }, 
+        { status: access.status }
       )
     }
 
+    const { project } = access
+
     return NextResponse.json({
       success: true,
       data: {
@@ -83,7 +52,10 @@ export async function GET(
         blueprint: project.blueprint,
         generatedAt: project.generatedAt,
         createdAt: project.createdAt,
-        lastModified: project.lastModified
+        lastModified: project.lastModified,
+        organizationId: project.organizationId,
+        // What the signed-in user may do with it
+        role: access.role
       }
     })
   } catch (error) {
@@ -119,18 +91,13 @@ export async function PATCH(
     const { id: projectId } = await params
     const body = await request.json()
 
-    // Validate that the project belongs to the user
-    const existingProject = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        userId: userId
-      }
-    })
+    // Validate that the user may edit the project
+    const access = await authorizeProject(projectId, userId, 'editor')
 
-    if (!existingProject) {
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: "Project not found" }, 
-        { status: 404 }
+        { error: access.error }, 
+        { status: access.status }
       )
     }
 
@@ -142,6 +109,27 @@ export async function PATCH(
     if (body.name) updateData.name = body.name
     if (body.description) updateData.description = body.description
 
+    // Moving a project into a workspace needs ownership of the project and edit access there
+    if (typeof body.organizationId === 'string' && body.organizationId !== access.project.organizationId) {
+      if (access.role !== 'owner') {
+        return NextResponse.json(
+          { error: "Only the project's owner can move it" },
+          { status: 403 }
+        )
+      }
+
+      const target = await authorizeOrganization(body.organizationId, userId, 'editor')
+
+      if (!target.allowed) {
+        return NextResponse.json(
+          { error: target.error },
+          { status: target.status }
+        )
+      }
+
+      updateData.organizationId = body.organizationId
+    }
+
     const updatedProject = await prisma.project.update({
       where: { id: projectId },
       data: updateData
@@ -154,6 +142,7 @@ export async function PATCH(
         name: updatedProject.name,
         description: updatedProject.description,
         status: updatedProject.status,
+        organizationId: updatedProject.organizationId,
         lastModified: updatedProject.lastModified
       },
       message: "Project updated successfully"
@@ -2,175 +2,185 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { randomBytes } from 'crypto'
+import { authorizeProject } from "@/lib/access/project-access"
+import {
+  generateShareToken,
+  hashSharePassword,
+  SHARE_PERMISSIONS,
+  SHARE_SECTIONS,
+  ShareLinkRecord,
+  toShareLinkView
+} from "@/lib/sharing/share-links"
+import { z } from "zod"
+
+const CreateShareLinkSchema = z.object({
+  permissions: z.array(z.enum(SHARE_PERMISSIONS)).default(['view']),
+  expiresAt: z.coerce.date().optional(),
+  password: z.string().min(4).max(128).optional(),
+  allowedSections: z.array(z.enum(SHARE_SECTIONS)).min(1).default(['all'])
+})
+
+function baseUrl() {
+  return process.env.NEXTAUTH_URL || 'http://localhost:3000'
+}
 
 export async function POST(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const session = await getServerSession(authOptions)
-    
+
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const projectId = params.id
+    const { id: projectId } = await params
     const body = await request.json()
-    const { 
-      permissions = 'view', 
-      expiresAt, 
-      password,
-      allowedSections = ['all']
-    } = body
-
-    // Verify project ownership
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        userId: session.user.id
-      }
-    })
+    const { permissions, expiresAt, password, allowedSections } = CreateShareLinkSchema.parse(body)
 
-    if (!project) {
+    if (expiresAt && expiresAt <= new Date()) {
       return NextResponse.json(
-        { error: "Project not found" }, 
-        { status: 404 }
+        { error: "Expiration date must be in the future" },
+        { status: 400 }
       )
     }
 
-    // Generate a unique share token
-    const shareToken = randomBytes(32).toString('hex')
-    
-    // Create share record in analytics table (we'll use eventData to store share info)
-    const shareData = {
-      shareToken,
-      permissions,
-      expiresAt: expiresAt ? new Date(expiresAt) : null,
-      password: password || null,
-      allowedSections,
-      createdBy: session.user.id,
-      createdAt: new Date()
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
     }
 
+    const link: ShareLinkRecord = await prisma.shareLink.create({
+      data: {
+        projectId,
+        createdById: session.user.id,
+        token: generateShareToken(),
+        passwordHash: password ? await hashSharePassword(password) : null,
+        // Every link can view; the other permissions are on top of that
+        permissions: [...new Set(['view', ...permissions])],
+        allowedSections,
+        expiresAt
+      }
+    })
+
     await prisma.analytics.create({
       data: {
         userId: session.user.id,
-        projectId: projectId,
+        projectId,
         eventType: 'project_shared',
-        eventData: shareData,
+        eventData: { shareLinkId: link.id, permissions: link.permissions, allowedSections },
         success: true
       }
     })
 
-    // Generate shareable URL
-    const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
-    const shareUrl = `${baseUrl}/share/${shareToken}`
-
     return NextResponse.json({
       success: true,
-      data: {
-        shareUrl,
-        shareToken,
-        permissions,
-        expiresAt,
-        allowedSections
-      },
+      data: toShareLinkView(link, baseUrl()),
       message: "Shareable link created successfully"
     })
 
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
     console.error("Error creating share link:", error)
     return NextResponse.json(
-      { 
+      {
         success: false,
-        error: "Failed to create share link" 
+        error: "Failed to create share link"
       },
       { status: 500 }
     )
   }
 }
 
+/**
+ * Lists the project's share links that can still be used, newest first.
+ * `?all=true` includes revoked and expired links.
+ */
 export async function GET(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const session = await getServerSession(authOptions)
-    
+
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const projectId = params.id
+    const { id: projectId } = await params
+    const { searchParams } = new URL(request.url)
+    const includeInactive = searchParams.get('all') === 'true'
 
-    // Verify project ownership
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        userId: session.user.id
-      }
-    })
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
 
-    if (!project) {
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: "Project not found" }, 
-        { status: 404 }
+        { error: access.error },
+        { status: access.status }
       )
     }
 
-    // Get existing share links
-    const shareLinks = await prisma.analytics.findMany({
+    const links: ShareLinkRecord[] = await prisma.shareLink.findMany({
       where: {
-        projectId: projectId,
-        userId: session.user.id,
-        eventType: 'project_shared'
+        projectId,
+        ...(includeInactive ? {} : {
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+        })
       },
       orderBy: {
         createdAt: 'desc'
-      },
-      take: 10 // Limit to last 10 share links
+      }
     })
 
-    const activeLinks = shareLinks
-      .map(link => link.eventData as any)
-      .filter(data => {
-        // Filter out expired links
-        if (data.expiresAt && new Date(data.expiresAt) < new Date()) {
-          return false
-        }
-        return true
-      })
-
     return NextResponse.json({
       success: true,
-      data: activeLinks
+      data: links.map(link => toShareLinkView(link, baseUrl()))
     })
 
   } catch (error) {
     console.error("Error fetching share links:", error)
     return NextResponse.json(
-      { 
+      {
         success: false,
-        error: "Failed to fetch share links" 
+        error: "Failed to fetch share links"
       },
       { status: 500 }
     )
   }
 }
 
+/**
+ * Revokes the share link given as `?token=`. The link is kept, with its
+ * view count, but no longer opens.
+ */
 export async function DELETE(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const session = await getServerSession(authOptions)
-    
+
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const projectId = params.id
+    const { id: projectId } = await params
     const { searchParams } = new URL(request.url)
     const shareToken = searchParams.get('token')
 
@@ -181,32 +191,27 @@ export async function DELETE(
       )
     }
 
-    // Verify project ownership
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        userId: session.user.id
-      }
-    })
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
 
-    if (!project) {
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: "Project not found" }, 
-        { status: 404 }
+        { error: access.error },
+        { status: access.status }
       )
     }
 
-    // Mark share link as revoked by creating a revocation event
-    await prisma.analytics.create({
-      data: {
-        userId: session.user.id,
-        projectId: projectId,
-        eventType: 'share_revoked',
-        eventData: { shareToken, revokedAt: new Date() },
-        success: true
-      }
+    const { count } = await prisma.shareLink.updateMany({
+      where: { projectId, token: shareToken, revokedAt: null },
+      data: { revokedAt: new Date() }
     })
 
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Share link not found" },
+        { status: 404 }
+      )
+    }
+
     return NextResponse.json({
       success: true,
       message: "Share link revoked successfully"
@@ -215,11 +220,11 @@ export async function DELETE(
   } catch (error) {
     console.error("Error revoking share link:", error)
     return NextResponse.json(
-      { 
+      {
         success: false,
-        error: "Failed to revoke share link" 
+        error: "Failed to revoke share link"
       },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
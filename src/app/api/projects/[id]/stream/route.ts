@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeProject } from "@/lib/access/project-access"
+import {
+  BlueprintStreamBroker,
+  formatServerSentEvent,
+  isTerminalStreamEvent
+} from "@/lib/blueprint-stream"
+import { getOrCreateDevUser } from "@/lib/dev-user"
+
+export const dynamic = "force-dynamic"
+
+const HEARTBEAT_INTERVAL = 15000
+
+/**
+ * Streams blueprint generation events for a project as Server-Sent Events.
+ * Responds with 204 when nothing is being generated, which tells EventSource
+ * clients not to reconnect.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    // Development authentication bypass
+    let userId: string
+    if (process.env.NEXT_PUBLIC_ENABLE_DEV_AUTH === "true" && process.env.NODE_ENV === "development") {
+      // Use development user ID or create one
+      userId = await getOrCreateDevUser()
+    } else if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    } else {
+      userId = session.user.id
+    }
+
+    const { id: projectId } = await params
+
+    // Verify the user can see the project
+    const access = await authorizeProject(projectId, userId)
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    if (!BlueprintStreamBroker.isActive(projectId)) {
+      return new Response(null, { status: 204 })
+    }
+
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false
+        let unsubscribe = () => {}
+
+        const heartbeat = setInterval(() => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(": heartbeat\n\n"))
+          }
+        }, HEARTBEAT_INTERVAL)
+
+        cleanup = () => {
+          unsubscribe()
+          clearInterval(heartbeat)
+        }
+
+        const close = () => {
+          if (closed) return
+          closed = true
+          cleanup()
+          controller.close()
+        }
+
+        const subscription = BlueprintStreamBroker.subscribe(projectId, event => {
+          if (closed) return
+          controller.enqueue(encoder.encode(formatServerSentEvent(event)))
+          if (isTerminalStreamEvent(event)) {
+            close()
+          }
+        })
+        if (!subscription) {
+          close()
+          return
+        }
+        unsubscribe = subscription
+
+        // The replayed backlog may already have ended the stream
+        if (closed) {
+          unsubscribe()
+          return
+        }
+
+        request.signal.addEventListener("abort", close)
+      },
+      cancel() {
+        cleanup()
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no"
+      }
+    })
+  } catch (error) {
+    console.error("Error opening blueprint stream:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to open blueprint stream"
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { authorizeProject } from "@/lib/access/project-access"
 
 export async function POST(
   request: NextRequest,
@@ -26,20 +27,17 @@ export async function POST(
     }
 
     // Fetch the project
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        userId: session.user.id
-      }
-    })
+    const access = await authorizeProject(projectId, session.user.id)
 
-    if (!project) {
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: "Project not found" }, 
-        { status: 404 }
+        { error: access.error }, 
+        { status: access.status }
       )
     }
 
+    const { project } = access
+
     if (!project.blueprint) {
       return NextResponse.json(
         { error: "Project must have a completed blueprint to create template" },
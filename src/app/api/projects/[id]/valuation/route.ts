@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeProject } from "@/lib/access/project-access"
+import { saveBlueprint } from "@/lib/versioning/versions"
+import { withValuation } from "@/lib/financial/valuation"
+import { Blueprint, ComprehensiveFinancialModel } from "@/types"
+import { z } from "zod"
+
+const ValuationRequestSchema = z.object({
+  comparables: z.array(z.object({
+    name: z.string().min(1),
+    metrics: z.record(z.string(), z.number()),
+    adjustments: z.record(z.string(), z.number()).default({}),
+    weight: z.number().min(0)
+  })).max(50)
+})
+
+/**
+ * Saves the comps table and stores the valuation and funding plan
+ * recomputed from it on the project's financial model.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const { comparables } = ValuationRequestSchema.parse(body)
+
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { project } = access
+
+    const blueprint = project.blueprint as Partial<Blueprint> | null
+    const financialModel = blueprint?.financialModel as ComprehensiveFinancialModel | undefined
+
+    if (!financialModel?.revenue?.projections?.length) {
+      return NextResponse.json(
+        { error: "Project has no financial projections to value" },
+        { status: 400 }
+      )
+    }
+
+    const valued = withValuation(financialModel, { comparables })
+
+    await saveBlueprint(projectId, { ...blueprint, financialModel: valued }, {
+      source: 'edit',
+      userId: session.user.id,
+      section: 'financialModel',
+      summary: 'Updated valuation comparables'
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        valuation: valued.valuation,
+        funding: valued.funding
+      },
+      message: "Valuation updated successfully"
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error updating valuation:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update valuation"
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { authorizeProject } from "@/lib/access/project-access"
+import { saveBlueprint } from "@/lib/versioning/versions"
+
+/**
+ * Makes a prior version the project's blueprint again. The restore is
+ * recorded as a new version, so the versions after it are kept.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId, version } = await params
+
+    const access = await authorizeProject(projectId, session.user.id, 'editor')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const snapshot = Number.isInteger(Number(version)) && await prisma.blueprintVersion.findUnique({
+      where: { projectId_version: { projectId, version: Number(version) } }
+    })
+
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: "Version not found" },
+        { status: 404 }
+      )
+    }
+
+    const restored = await saveBlueprint(projectId, snapshot.blueprint, {
+      source: 'restore',
+      userId: session.user.id,
+      summary: `Restored version ${snapshot.version}`
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: restored,
+      message: `Version ${snapshot.version} restored successfully`
+    })
+  } catch (error) {
+    console.error("Error restoring blueprint version:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to restore blueprint version"
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { authorizeProject } from "@/lib/access/project-access"
+
+/**
+ * Returns one blueprint version with its snapshot.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId, version } = await params
+
+    const access = await authorizeProject(projectId, session.user.id)
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const snapshot = Number.isInteger(Number(version)) && await prisma.blueprintVersion.findUnique({
+      where: { projectId_version: { projectId, version: Number(version) } }
+    })
+
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: "Version not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: snapshot
+    })
+  } catch (error) {
+    console.error("Error fetching blueprint version:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch blueprint version"
+      },
+      { status: 500 }
+    )
+  }
+}
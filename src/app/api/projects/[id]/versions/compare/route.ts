@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { authorizeProject } from "@/lib/access/project-access"
+import { diffBlueprints } from "@/lib/versioning/diff"
+import { z } from "zod"
+
+const CompareQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive()
+})
+
+/**
+ * Compares two blueprint versions, given as `?from=2&to=5`, section by
+ * section. Both snapshots are returned for a side-by-side view.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const { searchParams } = new URL(request.url)
+    const { from, to } = CompareQuerySchema.parse({
+      from: searchParams.get('from'),
+      to: searchParams.get('to')
+    })
+
+    const access = await authorizeProject(projectId, session.user.id)
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const [before, after] = await Promise.all([from, to].map(version =>
+      prisma.blueprintVersion.findUnique({ where: { projectId_version: { projectId, version } } })
+    ))
+
+    if (!before || !after) {
+      return NextResponse.json(
+        { error: "Version not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        from: before,
+        to: after,
+        diff: diffBlueprints(before.blueprint, after.blueprint)
+      }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error comparing blueprint versions:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to compare blueprint versions"
+      },
+      { status: 500 }
+    )
+  }
+}
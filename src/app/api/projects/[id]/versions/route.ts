@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { authorizeProject } from "@/lib/access/project-access"
+import { VERSION_SUMMARY_FIELDS } from "@/lib/versioning/versions"
+
+/**
+ * Lists the project's blueprint versions, newest first, without their
+ * snapshots.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+
+    const access = await authorizeProject(projectId, session.user.id)
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const versions = await prisma.blueprintVersion.findMany({
+      where: { projectId },
+      orderBy: { version: 'desc' },
+      select: VERSION_SUMMARY_FIELDS
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: versions
+    })
+  } catch (error) {
+    console.error("Error fetching blueprint versions:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch blueprint versions"
+      },
+      { status: 500 }
+    )
+  }
+}
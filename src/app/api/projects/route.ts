@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { accessibleProjectsWhere } from "@/lib/access/project-access"
+import { authorizeOrganization } from "@/lib/organizations/organizations"
 import { ProjectStatus } from "@/types"
 
 export async function GET(request: NextRequest) {
@@ -20,12 +22,17 @@ export async function GET(request: NextRequest) {
     const category = searchParams.get('category') || ''
     const sortBy = searchParams.get('sortBy') || 'updatedAt'
     const sortOrder = searchParams.get('sortOrder') || 'desc'
+    const organizationId = searchParams.get('organizationId')
 
     const skip = (page - 1) * limit
 
-    // Build where clause
+    // Build where clause: the user's own projects and their workspaces'
     const where: any = {
-      userId: session.user.id
+      AND: [accessibleProjectsWhere(session.user.id)]
+    }
+
+    if (organizationId) {
+      where.organizationId = organizationId
     }
 
     if (search) {
@@ -67,6 +74,10 @@ export async function GET(request: NextRequest) {
         createdAt: true,
         updatedAt: true,
         lastModified: true,
+        organizationId: true,
+        organization: {
+          select: { id: true, name: true }
+        },
         blueprint: false // Don't include full blueprint in listing
       }
     })
@@ -104,7 +115,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { name, description, originalIdea, category } = body
+    const { name, description, originalIdea, category, organizationId } = body
 
     if (!name || !originalIdea) {
       return NextResponse.json(
@@ -113,9 +124,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Creating a project in a workspace needs edit access there
+    if (organizationId) {
+      const access = await authorizeOrganization(organizationId, session.user.id, 'editor')
+
+      if (!access.allowed) {
+        return NextResponse.json(
+          { error: access.error },
+          { status: access.status }
+        )
+      }
+    }
+
     const project = await prisma.project.create({
       data: {
         userId: session.user.id,
+        organizationId: organizationId || null,
         name,
         description,
         originalIdea,
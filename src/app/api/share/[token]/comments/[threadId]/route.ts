@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeShareLink } from "@/lib/sharing/share-links"
+import {
+  CommentReplySchema,
+  CommentThreadStatusSchema,
+  replyToThread,
+  setThreadStatus,
+  shareLinkAuthor,
+  ShareCommentSchema
+} from "@/lib/comments/threads"
+import { z } from "zod"
+
+type RouteParams = { params: Promise<{ token: string; threadId: string }> }
+
+/** Replies to a comment thread through a share link with the comment permission */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token: shareToken, threadId } = await params
+    const body = await request.json()
+    const { password, authorName, body: text } = CommentReplySchema.merge(ShareCommentSchema).parse(body)
+
+    const access = await authorizeShareLink(shareToken, password, 'comment')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { link } = access
+    const session = await getServerSession(authOptions)
+    const author = shareLinkAuthor(link.id, session?.user, authorName)
+
+    if (!author) {
+      return NextResponse.json(
+        { success: false, error: "Your name is required to comment" },
+        { status: 400 }
+      )
+    }
+
+    const thread = await replyToThread(link.projectId, threadId, text, author, link.allowedSections)
+
+    if (!thread) {
+      return NextResponse.json(
+        { error: "Comment thread not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: thread,
+      message: "Reply added successfully"
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error replying to shared comment:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to add reply"
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/** Resolves or reopens a comment thread through a share link with the comment permission */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token: shareToken, threadId } = await params
+    const body = await request.json()
+    const { password, status } = CommentThreadStatusSchema.merge(ShareCommentSchema).parse(body)
+
+    const access = await authorizeShareLink(shareToken, password, 'comment')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { link } = access
+    const session = await getServerSession(authOptions)
+    const thread = await setThreadStatus(link.projectId, threadId, status, session?.user?.id, link.allowedSections)
+
+    if (!thread) {
+      return NextResponse.json(
+        { error: "Comment thread not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: thread,
+      message: status === 'resolved' ? "Thread resolved" : "Thread reopened"
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error updating shared comment thread:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update comment thread"
+      },
+      { status: 500 }
+    )
+  }
+}
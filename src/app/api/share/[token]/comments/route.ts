@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeShareLink } from "@/lib/sharing/share-links"
+import { CommentThreadInputSchema, createCommentThread, shareLinkAuthor, ShareCommentSchema } from "@/lib/comments/threads"
+import { z } from "zod"
+
+/**
+ * Starts a comment thread through a share link with the comment
+ * permission, on a section the link shares.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token: shareToken } = await params
+    const body = await request.json()
+    const { password, authorName, body: text, ...anchor } = CommentThreadInputSchema.merge(ShareCommentSchema).parse(body)
+
+    const access = await authorizeShareLink(shareToken, password, 'comment')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { link } = access
+
+    if (!link.allowedSections.includes('all') && !link.allowedSections.includes(anchor.section)) {
+      return NextResponse.json(
+        { success: false, error: "This section is not shared" },
+        { status: 403 }
+      )
+    }
+
+    const session = await getServerSession(authOptions)
+    const author = shareLinkAuthor(link.id, session?.user, authorName)
+
+    if (!author) {
+      return NextResponse.json(
+        { success: false, error: "Your name is required to comment" },
+        { status: 400 }
+      )
+    }
+
+    const thread = await createCommentThread(link.projectId, anchor, text, author)
+
+    return NextResponse.json({
+      success: true,
+      data: thread,
+      message: "Comment added successfully"
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error adding shared comment:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to add comment"
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { authorizeShareLink, toSharedProject } from "@/lib/sharing/share-links"
+import { ProjectStatus } from "@/types"
+import { z } from "zod"
+
+const DuplicateRequestSchema = z.object({
+  password: z.string().optional(),
+  name: z.string().min(1).max(200).optional()
+})
+
+/**
+ * Copies a shared project into the signed-in user's projects, for links
+ * with the duplicate permission. Only what the shared view shows is copied:
+ * the sections the link shares, but not the idea the project came from.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { token: shareToken } = await params
+    const body = await request.json()
+    const { password, name } = DuplicateRequestSchema.parse(body)
+
+    const access = await authorizeShareLink(shareToken, password, 'duplicate')
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const { link } = access
+    const originalProject = await prisma.project.findUnique({
+      where: {
+        id: link.projectId
+      }
+    })
+
+    if (!originalProject) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      )
+    }
+
+    const shared = toSharedProject(originalProject, link.allowedSections)
+    const duplicatedProject = await prisma.project.create({
+      data: {
+        userId: session.user.id,
+        name: name || `${shared.name} (Copy)`,
+        description: shared.description,
+        originalIdea: shared.description ?? '',
+        category: shared.category,
+        complexity: shared.complexity,
+        blueprint: shared.blueprint,
+        status: ProjectStatus.COMPLETED,
+        generatedAt: new Date()
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { id: duplicatedProject.id, name: duplicatedProject.name },
+      message: "Project duplicated successfully"
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error duplicating shared project:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to duplicate shared project"
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,83 +1,35 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
+import { authorizeShareLink, recordShareView, toSharedProject } from "@/lib/sharing/share-links"
+import { listCommentThreads } from "@/lib/comments/threads"
+import { z } from "zod"
+
+const AccessRequestSchema = z.object({
+  password: z.string().optional()
+})
 
 export async function POST(
   request: NextRequest,
-  { params }: { params: { token: string } }
+  { params }: { params: Promise<{ token: string }> }
 ) {
   try {
-    const shareToken = params.token
+    const { token: shareToken } = await params
     const body = await request.json()
-    const { password } = body
+    const { password } = AccessRequestSchema.parse(body)
 
-    if (!shareToken) {
-      return NextResponse.json(
-        { error: "Share token is required" },
-        { status: 400 }
-      )
-    }
-
-    // Find the share record
-    const shareRecord = await prisma.analytics.findFirst({
-      where: {
-        eventType: 'project_shared',
-        eventData: {
-          path: ['shareToken'],
-          equals: shareToken
-        }
-      },
-      orderBy: {
-        createdAt: 'desc'
-      }
-    })
+    const access = await authorizeShareLink(shareToken, password)
 
-    if (!shareRecord) {
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: "Invalid or expired share link" },
-        { status: 404 }
+        { success: false, error: access.error },
+        { status: access.status }
       )
     }
 
-    const shareData = shareRecord.eventData as any
-
-    // Check if link has been revoked
-    const revokedRecord = await prisma.analytics.findFirst({
-      where: {
-        eventType: 'share_revoked',
-        eventData: {
-          path: ['shareToken'],
-          equals: shareToken
-        }
-      }
-    })
-
-    if (revokedRecord) {
-      return NextResponse.json(
-        { error: "This share link has been revoked" },
-        { status: 403 }
-      )
-    }
-
-    // Check expiration
-    if (shareData.expiresAt && new Date(shareData.expiresAt) < new Date()) {
-      return NextResponse.json(
-        { error: "This share link has expired" },
-        { status: 403 }
-      )
-    }
-
-    // Check password if required
-    if (shareData.password && shareData.password !== password) {
-      return NextResponse.json(
-        { error: "Password required" },
-        { status: 401 }
-      )
-    }
-
-    // Fetch the project
+    const { link } = access
     const project = await prisma.project.findUnique({
       where: {
-        id: shareRecord.projectId!
+        id: link.projectId
       }
     })
 
@@ -88,75 +40,43 @@ export async function POST(
       )
     }
 
-    // Filter blueprint sections based on allowed sections
-    let filteredBlueprint = project.blueprint
-    if (shareData.allowedSections && !shareData.allowedSections.includes('all')) {
-      filteredBlueprint = filterBlueprintSections(project.blueprint, shareData.allowedSections)
-    }
+    await recordShareView(link.id)
 
-    // Log access
-    await prisma.analytics.create({
-      data: {
-        projectId: project.id,
-        eventType: 'shared_project_accessed',
-        eventData: { 
-          shareToken,
-          accessedAt: new Date(),
-          userAgent: request.headers.get('user-agent')
-        },
-        success: true
-      }
-    })
+    // Only links that can comment see the discussion
+    const threads = link.permissions.includes('comment')
+      ? await listCommentThreads(project.id, link.allowedSections)
+      : []
 
     return NextResponse.json({
       success: true,
       data: {
-        project: {
-          ...project,
-          blueprint: filteredBlueprint
-        },
-        permissions: shareData.permissions,
-        allowedSections: shareData.allowedSections,
-        requiresPassword: !!shareData.password
+        project: toSharedProject(project, link.allowedSections),
+        permissions: link.permissions,
+        allowedSections: link.allowedSections,
+        requiresPassword: !!link.passwordHash,
+        threads
       }
     })
 
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
     console.error("Error accessing shared project:", error)
     return NextResponse.json(
-      { 
+      {
         success: false,
-        error: "Failed to access shared project" 
+        error: "Failed to access shared project"
       },
       { status: 500 }
     )
   }
 }
-
-function filterBlueprintSections(blueprint: any, allowedSections: string[]): any {
-  if (!blueprint) return blueprint
-
-  const filtered: any = {}
-
-  if (allowedSections.includes('productPlan') && blueprint.productPlan) {
-    filtered.productPlan = blueprint.productPlan
-  }
-
-  if (allowedSections.includes('techStack') && blueprint.techStack) {
-    filtered.techStack = blueprint.techStack
-  }
-
-  if (allowedSections.includes('aiWorkflow') && blueprint.aiWorkflow) {
-    filtered.aiWorkflow = blueprint.aiWorkflow
-  }
-
-  if (allowedSections.includes('roadmap') && blueprint.roadmap) {
-    filtered.roadmap = blueprint.roadmap
-  }
-
-  if (allowedSections.includes('financialModel') && blueprint.financialModel) {
-    filtered.financialModel = blueprint.financialModel
-  }
-
-  return filtered
-}
\ No newline at end of file
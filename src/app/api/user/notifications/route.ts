@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { listNotifications, markNotificationsRead } from "@/lib/notifications/notifications"
+import { z } from "zod"
+
+const MarkReadSchema = z.object({
+  // Marks every notification read when left out
+  ids: z.array(z.string()).max(100).optional()
+})
+
+/** The user's latest notifications and how many are unread */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await listNotifications(session.user.id)
+    })
+  } catch (error) {
+    console.error("Error fetching notifications:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch notifications" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { ids } = MarkReadSchema.parse(body)
+    const count = await markNotificationsRead(session.user.id, ids)
+
+    return NextResponse.json({
+      success: true,
+      data: { count }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request data",
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error updating notifications:", error)
+    return NextResponse.json(
+      { success: false, error: "Failed to update notifications" },
+      { status: 500 }
+    )
+  }
+}
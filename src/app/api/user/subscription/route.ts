@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { SubscriptionTier } from "@prisma/client"
+import { AIBudgetManager } from "@/lib/ai-services/cost-budget"
 import { z } from "zod"
 
 const updateSubscriptionSchema = z.object({
@@ -54,6 +55,7 @@ export async function GET() {
     }
 
     const currentLimits = subscriptionLimits[user.subscription]
+    const aiSpend = await new AIBudgetManager().getSummary(session.user.id, user.subscription)
 
     return NextResponse.json({
       success: true,
@@ -64,6 +66,7 @@ export async function GET() {
           projectCount: user._count.projects,
           // TODO: Add generation count for current month
           generationsThisMonth: 0,
+          aiSpend,
         },
         memberSince: user.createdAt,
       },
@@ -0,0 +1,121 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { useAuth } from "@/hooks/use-auth"
+import { ProtectedRoute } from "@/components/auth/protected-route"
+import { ROLE_DESCRIPTIONS, isProjectRole } from "@/lib/access/roles"
+import { Loader2, Users } from "lucide-react"
+
+interface InvitationDetails {
+  organization: { id: string; name: string }
+  email: string
+  role: string
+  invitedBy: string
+  expiresAt: string
+  accepted: boolean
+}
+
+export default function InvitationPage() {
+  const params = useParams()
+  const router = useRouter()
+  const token = params.token as string
+  const { user, isAuthenticated } = useAuth()
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isAccepting, setIsAccepting] = useState(false)
+
+  useEffect(() => {
+    if (!isAuthenticated) return
+
+    const fetchInvitation = async () => {
+      try {
+        const response = await fetch(`/api/invitations/${token}`)
+        const result = await response.json()
+        if (!result.success) {
+          setError(result.error || "Invitation not found")
+          return
+        }
+
+        setInvitation(result.data)
+      } catch (error) {
+        console.error("Error fetching invitation:", error)
+        setError("Failed to load invitation")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchInvitation()
+  }, [isAuthenticated, token])
+
+  const acceptInvitation = async () => {
+    setIsAccepting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/invitations/${token}`, { method: "POST" })
+      const result = await response.json()
+      if (!result.success) {
+        setError(result.error || "Failed to accept invitation")
+        return
+      }
+
+      router.push("/projects")
+    } catch (error) {
+      console.error("Error accepting invitation:", error)
+      setError("Failed to accept invitation")
+    } finally {
+      setIsAccepting(false)
+    }
+  }
+
+  const expired = invitation ? new Date(invitation.expiresAt) <= new Date() : false
+  const otherAccount = invitation && user?.email && user.email.toLowerCase() !== invitation.email
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-black text-white flex items-center justify-center px-4">
+        <div className="max-w-md w-full bg-white/5 rounded-2xl p-8 text-center space-y-4">
+          {isLoading ? (
+            <Loader2 className="w-8 h-8 animate-spin mx-auto" />
+          ) : invitation ? (
+            <>
+              <Users className="w-10 h-10 mx-auto text-white/80" />
+              <h1 className="text-2xl font-bold">Join {invitation.organization.name}</h1>
+              <p className="text-gray-400">
+                {invitation.invitedBy} invited {invitation.email} as {invitation.role}.
+              </p>
+              {isProjectRole(invitation.role) && (
+                <p className="text-sm text-gray-500">{ROLE_DESCRIPTIONS[invitation.role]}</p>
+              )}
+
+              {error && <p className="text-sm text-red-400">{error}</p>}
+
+              {invitation.accepted ? (
+                <p className="text-sm text-gray-400">This invitation has already been used.</p>
+              ) : expired ? (
+                <p className="text-sm text-gray-400">This invitation has expired. Ask for a new one.</p>
+              ) : otherAccount ? (
+                <p className="text-sm text-gray-400">
+                  You are signed in as {user?.email}. Sign in as {invitation.email} to accept.
+                </p>
+              ) : (
+                <button
+                  onClick={acceptInvitation}
+                  disabled={isAccepting}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-white text-black rounded-lg disabled:opacity-50"
+                >
+                  {isAccepting && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Accept invitation
+                </button>
+              )}
+            </>
+          ) : (
+            <p className="text-gray-400">{error}</p>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
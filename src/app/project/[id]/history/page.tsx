@@ -0,0 +1,37 @@
+"use client"
+
+import { useParams, useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { VersionHistory } from '@/components/versions/version-history'
+
+export default function BlueprintHistoryPage() {
+  const params = useParams()
+  const router = useRouter()
+  const projectId = params.id as string
+
+  return (
+    <div className="min-h-screen bg-gradient-primary">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="mb-6">
+            <Button
+              variant="ghost"
+              onClick={() => router.push(`/project/${projectId}`)}
+              className="mb-2"
+            >
+              ← Back to Blueprint
+            </Button>
+            <h1 className="text-3xl font-bold text-foreground">
+              Blueprint History
+            </h1>
+          </div>
+
+          <VersionHistory
+            projectId={projectId}
+            onRestored={() => router.push(`/project/${projectId}`)}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -6,9 +6,12 @@ import { Card } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
-import { ProjectStatus } from '@/types'
+import { Blueprint, ProjectStatus } from '@/types'
 import { GenerationProgress } from '@/lib/blueprint-error-handler'
 import { BlueprintDisplay } from '@/components/blueprint/blueprint-display'
+import { useBlueprintStream } from '@/hooks/use-blueprint-stream'
+import { useCollaboration } from '@/hooks/use-collaboration'
+import type { ProjectRole } from '@/lib/access/roles'
 
 interface Project {
   id: string
@@ -22,6 +25,8 @@ interface Project {
   generatedAt?: string
   createdAt: string
   lastModified: string
+  // The signed-in user's role on the project
+  role?: ProjectRole
 }
 
 interface ProjectData {
@@ -39,6 +44,11 @@ export default function ProjectPage() {
   const [error, setError] = useState<string | null>(null)
   const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null)
 
+  const isGenerating = projectData?.project.status === ProjectStatus.GENERATING
+  const stream = useBlueprintStream(projectId, isGenerating)
+  const isCompleted = projectData?.project.status === ProjectStatus.COMPLETED
+  const collaboration = useCollaboration(projectId, projectData?.project.blueprint, isCompleted)
+
   const fetchProjectData = useCallback(async () => {
     try {
       // Fetch project details
@@ -221,9 +231,36 @@ export default function ProjectPage() {
               >
                 ← Back to Home
               </Button>
-              <Badge className={getStatusColor(project.status)}>
-                {getStatusText(project.status)}
-              </Badge>
+              <div className="flex items-center gap-3">
+                {project.status === ProjectStatus.COMPLETED && project.blueprint && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => router.push(`/project/${projectId}/pitch`)}
+                    >
+                      Pitch Deck
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => router.push(`/project/${projectId}/report`)}
+                    >
+                      Investor Report
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => router.push(`/project/${projectId}/history`)}
+                    >
+                      History
+                    </Button>
+                  </>
+                )}
+                <Badge className={getStatusColor(project.status)}>
+                  {getStatusText(project.status)}
+                </Badge>
+              </div>
             </div>
             
             <h1 className="text-3xl font-bold text-foreground mb-2">
@@ -275,6 +312,19 @@ export default function ProjectPage() {
             </Card>
           )}
 
+          {/* Sections streamed so far */}
+          {project.status === ProjectStatus.GENERATING && stream.status !== 'idle' && (
+            <BlueprintDisplay
+              blueprint={stream.sections as Blueprint}
+              project={project}
+              readOnly
+              generation={{
+                activeSections: stream.activeSections,
+                partialText: stream.partialText
+              }}
+            />
+          )}
+
           {/* Generation Failed */}
           {project.status === ProjectStatus.FAILED && (
             <Card className="p-6 mb-6 border-red-200 bg-red-50">
@@ -313,9 +363,15 @@ export default function ProjectPage() {
           {/* Blueprint Results */}
           {project.status === ProjectStatus.COMPLETED && project.blueprint && (
             <BlueprintDisplay 
-              blueprint={project.blueprint}
-              projectId={project.id}
-              projectName={project.name}
+              blueprint={(collaboration.status === 'disabled' ? project.blueprint : collaboration.blueprint) as Blueprint}
+              project={project}
+              onBlueprintChange={() => {
+                fetchProjectData()
+                collaboration.sync()
+              }}
+              readOnly={project.role === 'viewer'}
+              comments={{ endpoint: `/api/projects/${project.id}/comments` }}
+              collaboration={collaboration}
             />
           )}
         </div>
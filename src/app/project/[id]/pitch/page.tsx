@@ -0,0 +1,84 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { PitchDeck } from '@/types'
+import { PitchDeckViewer } from '@/components/pitch-deck/pitch-deck-viewer'
+
+export default function PitchDeckPage() {
+  const params = useParams()
+  const router = useRouter()
+  const projectId = params.id as string
+
+  const [deck, setDeck] = useState<PitchDeck | null>(null)
+  const [theme, setTheme] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchDeck = useCallback(async () => {
+    try {
+      const query = theme ? `?theme=${theme}` : ''
+      const response = await fetch(`/api/projects/${projectId}/pitch-deck${query}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load pitch deck')
+      }
+
+      setDeck(result.data)
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching pitch deck:', err)
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId, theme])
+
+  useEffect(() => {
+    fetchDeck()
+  }, [fetchDeck])
+
+  return (
+    <div className="min-h-screen bg-gradient-primary">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          <div className="mb-6">
+            <Button
+              variant="ghost"
+              onClick={() => router.push(`/project/${projectId}`)}
+              className="mb-2"
+            >
+              ← Back to Blueprint
+            </Button>
+            <h1 className="text-3xl font-bold text-foreground">
+              {deck?.title ?? 'Pitch Deck'}
+            </h1>
+          </div>
+
+          {loading && !deck && (
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-foreground mx-auto mb-4"></div>
+              <p className="text-muted-foreground">Building pitch deck...</p>
+            </div>
+          )}
+
+          {error && (
+            <Card className="p-6 mb-6 text-center">
+              <p className="text-red-600 mb-4">{error}</p>
+              <Button onClick={fetchDeck}>Try Again</Button>
+            </Card>
+          )}
+
+          {deck && (
+            <Card className="p-6">
+              <PitchDeckViewer deck={deck} projectId={projectId} onThemeChange={setTheme} />
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { InvestorReportEditor } from '@/components/investor-report/investor-report-editor'
+import { useCollaboration } from '@/hooks/use-collaboration'
+import { InvestorReportData, investorReportData } from '@/lib/investor-report/builder'
+import { Blueprint } from '@/types'
+
+export default function InvestorReportPage() {
+  const params = useParams()
+  const router = useRouter()
+  const projectId = params.id as string
+
+  const [projectName, setProjectName] = useState('')
+  const [blueprint, setBlueprint] = useState<Partial<Blueprint>>()
+  const [data, setData] = useState<InvestorReportData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const [projectResponse, reportResponse] = await Promise.all([
+        fetch(`/api/projects/${projectId}`),
+        fetch(`/api/projects/${projectId}/investor-report`)
+      ])
+      const projectResult = await projectResponse.json()
+      const reportResult = await reportResponse.json()
+
+      if (!projectResult.success) {
+        throw new Error(projectResult.error || 'Failed to fetch project')
+      }
+      if (!reportResult.success) {
+        throw new Error(reportResult.error || 'Failed to build investor report')
+      }
+
+      setProjectName(projectResult.data.name)
+      setBlueprint(projectResult.data.blueprint ?? undefined)
+      setData(reportResult.data)
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching investor report:', err)
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  // In a live session the report follows everyone's edits to the blueprint
+  const collaboration = useCollaboration(projectId, blueprint, !!blueprint)
+  const isLive = collaboration.status !== 'disabled'
+  const canEditLive = isLive && !!collaboration.role && collaboration.role !== 'viewer'
+  const liveData = useMemo(
+    () => isLive && projectName ? investorReportData(collaboration.blueprint, projectName) : null,
+    [isLive, collaboration.blueprint, projectName]
+  )
+  const shown = liveData ?? data
+
+  return (
+    <div className="min-h-screen bg-gradient-primary">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-6">
+            <Button
+              variant="ghost"
+              onClick={() => router.push(`/project/${projectId}`)}
+              className="mb-2"
+            >
+              ← Back to Blueprint
+            </Button>
+            <h1 className="text-3xl font-bold text-foreground">
+              Investor Report
+            </h1>
+          </div>
+
+          {loading && !data && (
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-foreground mx-auto mb-4"></div>
+              <p className="text-muted-foreground">Building investor report...</p>
+            </div>
+          )}
+
+          {error && (
+            <Card className="p-6 mb-6 text-center">
+              <p className="text-red-600 mb-4">{error}</p>
+              <Button onClick={fetchReport}>Try Again</Button>
+            </Card>
+          )}
+
+          {shown && (
+            <InvestorReportEditor
+              projectId={projectId}
+              projectName={projectName}
+              data={shown}
+              onSaved={setData}
+              liveUpdate={canEditLive ? collaboration.update : undefined}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
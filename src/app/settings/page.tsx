@@ -14,8 +14,10 @@ import {
   Crown,
   Check,
   Loader2,
-  Save
+  Save,
+  Users
 } from "lucide-react"
+import { TeamSettings } from "@/components/team/team-settings"
 
 interface UserProfile {
   id: string
@@ -160,6 +162,7 @@ export default function SettingsPage() {
                     { id: "profile", label: "Profile", icon: User },
                     { id: "preferences", label: "Preferences", icon: Settings },
                     { id: "subscription", label: "Subscription", icon: Crown },
+                    { id: "team", label: "Team", icon: Users },
                   ].map((tab) => (
                     <button
                       key={tab.id}
@@ -412,6 +415,13 @@ export default function SettingsPage() {
                   </div>
                 )}
 
+                {activeTab === "team" && profile && (
+                  <TeamSettings
+                    userId={profile.id}
+                    canCreate={profile.subscription === "ENTERPRISE"}
+                  />
+                )}
+
                 {isSaving && (
                   <div className="fixed bottom-4 right-4 bg-white text-black px-4 py-2 rounded-lg flex items-center gap-2">
                     <Loader2 className="w-4 h-4 animate-spin" />
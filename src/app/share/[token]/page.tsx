@@ -1,8 +1,10 @@
 "use client"
 
 import { useState, useEffect } from 'react'
-import { useParams } from 'next/navigation'
+import { useParams, useRouter } from 'next/navigation'
+import { useSession } from 'next-auth/react'
 import { Project } from '@/types'
+import type { CommentThreadView } from '@/lib/comments/threads'
 import { BlueprintDisplay } from '@/components/blueprint/blueprint-display'
 import { Container } from '@/components/ui/container'
 import { LoadingSpinner } from '@/components/ui/loading'
@@ -11,13 +13,16 @@ import { Input } from '@/components/ui/input'
 
 interface ShareData {
   project: Project
-  permissions: string
+  permissions: string[]
   allowedSections: string[]
   requiresPassword: boolean
+  threads: CommentThreadView[]
 }
 
 export default function SharedProjectPage() {
   const params = useParams()
+  const router = useRouter()
+  const { status: sessionStatus } = useSession()
   const token = params.token as string
   
   const [shareData, setShareData] = useState<ShareData | null>(null)
@@ -25,6 +30,8 @@ export default function SharedProjectPage() {
   const [error, setError] = useState<string | null>(null)
   const [password, setPassword] = useState('')
   const [showPasswordForm, setShowPasswordForm] = useState(false)
+  const [passwordError, setPasswordError] = useState<string | null>(null)
+  const [isDuplicating, setIsDuplicating] = useState(false)
 
   useEffect(() => {
     if (token) {
@@ -48,8 +55,9 @@ export default function SharedProjectPage() {
       const result = await response.json()
 
       if (!result.success) {
-        if (result.error === 'Password required') {
+        if (result.error === 'Password required' || result.error === 'Incorrect password') {
           setShowPasswordForm(true)
+          setPasswordError(result.error === 'Incorrect password' ? result.error : null)
           return
         }
         throw new Error(result.error || 'Failed to load shared project')
@@ -65,6 +73,37 @@ export default function SharedProjectPage() {
     }
   }
 
+  const handleDuplicate = async () => {
+    setIsDuplicating(true)
+    try {
+      const response = await fetch(`/api/share/${token}/duplicate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ password: password.trim() || undefined }),
+      })
+
+      const result = await response.json()
+
+      if (result.error === 'Unauthorized') {
+        router.push('/auth/signin')
+        return
+      }
+
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      router.push(`/project/${result.data.id}`)
+    } catch (error) {
+      console.error('Error duplicating shared project:', error)
+      alert('Failed to copy the project. Please sign in and try again.')
+    } finally {
+      setIsDuplicating(false)
+    }
+  }
+
   const handlePasswordSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (password.trim()) {
@@ -119,6 +158,9 @@ export default function SharedProjectPage() {
             <p className="text-gray-600 mb-6">
               This shared project is password protected.
             </p>
+            {passwordError && (
+              <p className="text-red-600 text-sm mb-4">{passwordError}</p>
+            )}
             
             <form onSubmit={handlePasswordSubmit} className="space-y-4">
               <Input
@@ -174,9 +216,14 @@ export default function SharedProjectPage() {
                 Shared project blueprint
               </p>
             </div>
-            <div className="text-sm text-gray-500">
+            <div className="flex items-center gap-3 text-sm text-gray-500">
+              {shareData.permissions.includes('duplicate') && (
+                <Button size="sm" variant="outline" onClick={handleDuplicate} disabled={isDuplicating}>
+                  {isDuplicating ? 'Copying...' : 'Copy to my projects'}
+                </Button>
+              )}
               <div className="bg-blue-50 text-blue-700 px-3 py-1 rounded-full">
-                Read-only view
+                {shareData.permissions.includes('comment') ? 'Review mode' : 'Read-only view'}
               </div>
             </div>
           </div>
@@ -189,6 +236,12 @@ export default function SharedProjectPage() {
             project={shareData.project}
             allowedSections={shareData.allowedSections}
             readOnly={true}
+            comments={shareData.permissions.includes('comment') ? {
+              endpoint: `/api/share/${token}/comments`,
+              initialThreads: shareData.threads,
+              requestBody: { password: password.trim() || undefined },
+              askForName: sessionStatus !== 'authenticated'
+            } : undefined}
           />
         ) : (
           <div className="bg-white rounded-lg p-8 text-center">
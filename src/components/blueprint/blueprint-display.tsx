@@ -1,27 +1,39 @@
 "use client"
 
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { Blueprint } from '@/types'
+import { BlueprintSection } from '@/types/ai-services'
 import { ProductPlanSection } from './sections/product-plan-section'
 import { TechStackSection } from './sections/tech-stack-section'
 import { AIWorkflowSection } from './sections/ai-workflow-section'
 import { RoadmapSection } from './sections/roadmap-section'
 import { FinancialModelSection } from './sections/financial-model-section'
+import { ValuationSection } from './sections/valuation-section'
+import { BusinessModelSection } from './sections/business-model-section'
 import { ExportSharePanel } from './export-share-panel'
+import { CommentThreads } from '@/components/comments/comment-threads'
+import type { CommentThreadView } from '@/lib/comments/threads'
+import { CollaborationPresence } from '@/components/collaboration/collaboration-presence'
+import { WorkflowEditor } from '@/components/workflow/workflow-editor'
+import type { CollaborationState } from '@/hooks/use-collaboration'
 import { 
   FileText, 
   Code, 
   Workflow, 
   Calendar, 
   DollarSign, 
+  TrendingUp,
+  LayoutGrid,
   Download,
   Share2,
   Eye,
-  EyeOff
+  EyeOff,
+  Loader2,
+  MessageSquare
 } from 'lucide-react'
 
 interface BlueprintDisplayProps {
@@ -29,9 +41,25 @@ interface BlueprintDisplayProps {
   project: any
   allowedSections?: string[]
   readOnly?: boolean
+  // Called after a section is regenerated in place, so the caller can reload the blueprint
+  onBlueprintChange?: () => void
+  // Live generation state; sections that have not arrived yet show their streamed output
+  generation?: {
+    activeSections: BlueprintSection[]
+    partialText: Partial<Record<BlueprintSection, string>>
+  }
+  // Where comments are read and written; defaults to the project's own comments when editable
+  comments?: {
+    endpoint: string
+    initialThreads?: CommentThreadView[]
+    requestBody?: Record<string, unknown>
+    askForName?: boolean
+  }
+  // Live editing session: others' edits arrive in `blueprint`, and editors can change the workflow canvas
+  collaboration?: CollaborationState
 }
 
-type TabId = 'product-plan' | 'tech-stack' | 'ai-workflow' | 'roadmap' | 'financial'
+type TabId = 'product-plan' | 'business-model' | 'tech-stack' | 'ai-workflow' | 'roadmap' | 'financial' | 'valuation'
 
 interface Tab {
   id: TabId
@@ -47,6 +75,12 @@ const tabs: Tab[] = [
     icon: FileText,
     description: 'Target audience, features, and business strategy'
   },
+  {
+    id: 'business-model',
+    label: 'Business Model',
+    icon: LayoutGrid,
+    description: 'Business model canvas and value proposition'
+  },
   {
     id: 'tech-stack',
     label: 'Tech Stack',
@@ -70,26 +104,60 @@ const tabs: Tab[] = [
     label: 'Financial',
     icon: DollarSign,
     description: 'Cost analysis and revenue projections'
+  },
+  {
+    id: 'valuation',
+    label: 'Valuation',
+    icon: TrendingUp,
+    description: 'Valuation, comparables and funding plan'
   }
 ]
 
-export function BlueprintDisplay({ blueprint, project, allowedSections, readOnly = false }: BlueprintDisplayProps) {
+const sectionMap: Record<TabId, BlueprintSection> = {
+  'product-plan': 'productPlan',
+  // Stored on the product plan; costs and revenue streams are filled in from the financial model
+  'business-model': 'productPlan',
+  'tech-stack': 'techStack',
+  'ai-workflow': 'aiWorkflow',
+  'roadmap': 'roadmap',
+  'financial': 'financialModel',
+  // Valued from the financial model, so it is shared and generated with it
+  'valuation': 'financialModel'
+}
+
+export function BlueprintDisplay({
+  blueprint,
+  project,
+  allowedSections,
+  readOnly = false,
+  onBlueprintChange,
+  generation,
+  comments,
+  collaboration
+}: BlueprintDisplayProps) {
   const [activeTab, setActiveTab] = useState<TabId>('product-plan')
   const [showExportPanel, setShowExportPanel] = useState(false)
   const [compactView, setCompactView] = useState(false)
+  const [showComments, setShowComments] = useState(false)
+  const [editingWorkflow, setEditingWorkflow] = useState(false)
+
+  // The role is known once the session has been joined, and kept while offline
+  const canEditLive = !readOnly && !!collaboration?.role && collaboration.role !== 'viewer'
+  const focus = collaboration?.focus
+  const liveUpdate = collaboration && canEditLive ? collaboration.update : undefined
+
+  useEffect(() => {
+    focus?.(activeTab)
+  }, [activeTab, focus])
+
+  const commentSource = comments ?? (!readOnly && !generation && project?.id
+    ? { endpoint: `/api/projects/${project.id}/comments` }
+    : undefined)
 
   // Filter tabs based on allowed sections
   const availableTabs = tabs.filter(tab => {
     if (!allowedSections || allowedSections.includes('all')) return true
     
-    const sectionMap: Record<TabId, string> = {
-      'product-plan': 'productPlan',
-      'tech-stack': 'techStack',
-      'ai-workflow': 'aiWorkflow',
-      'roadmap': 'roadmap',
-      'financial': 'financialModel'
-    }
-    
     return allowedSections.includes(sectionMap[tab.id])
   })
 
@@ -100,18 +168,103 @@ export function BlueprintDisplay({ blueprint, project, allowedSections, readOnly
     }
   }, [availableTabs, activeTab])
 
+  const renderPendingSection = (section: BlueprintSection) => {
+    const isGenerating = generation?.activeSections.includes(section)
+    const partialText = generation?.partialText[section]
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          {isGenerating && <Loader2 className="h-4 w-4 animate-spin" />}
+          {isGenerating ? 'Generating this section...' : 'Waiting for earlier sections...'}
+        </div>
+        {partialText && (
+          <pre className="max-h-64 overflow-auto rounded-lg bg-muted p-4 text-xs text-muted-foreground whitespace-pre-wrap">
+            {partialText}
+          </pre>
+        )}
+      </div>
+    )
+  }
+
   const renderTabContent = () => {
+    if (generation && !blueprint[sectionMap[activeTab]]) {
+      return renderPendingSection(sectionMap[activeTab])
+    }
+
     switch (activeTab) {
       case 'product-plan':
-        return blueprint.productPlan ? <ProductPlanSection productPlan={blueprint.productPlan} compact={compactView} /> : null
+        return blueprint.productPlan ? (
+          <ProductPlanSection
+            productPlan={blueprint.productPlan}
+            projectId={project?.id}
+            readOnly={readOnly}
+            compact={compactView}
+            onRegenerated={onBlueprintChange}
+            liveUpdate={liveUpdate}
+          />
+        ) : null
+      case 'business-model':
+        return blueprint.productPlan ? (
+          <BusinessModelSection
+            // Derived again once a streaming financial model arrives
+            key={blueprint.financialModel ? 'with-financials' : 'plan-only'}
+            productPlan={blueprint.productPlan}
+            financialModel={blueprint.financialModel}
+            projectId={project?.id}
+            readOnly={readOnly}
+            compact={compactView}
+            liveUpdate={liveUpdate}
+          />
+        ) : null
       case 'tech-stack':
         return blueprint.techStack ? <TechStackSection techStack={blueprint.techStack} compact={compactView} /> : null
       case 'ai-workflow':
-        return blueprint.aiWorkflow ? <AIWorkflowSection aiWorkflow={blueprint.aiWorkflow} compact={compactView} /> : null
+        if (!blueprint.aiWorkflow) return null
+        return (
+          <div className="space-y-4">
+            {canEditLive && (
+              <div className="flex justify-end">
+                <Button variant="outline" size="sm" onClick={() => setEditingWorkflow(!editingWorkflow)}>
+                  {editingWorkflow ? 'Done' : 'Edit workflow'}
+                </Button>
+              </div>
+            )}
+            {liveUpdate && editingWorkflow ? (
+              <div className="h-[600px] overflow-hidden rounded-lg border">
+                <WorkflowEditor
+                  workflow={blueprint.aiWorkflow}
+                  onChange={(workflow, base) => liveUpdate(['aiWorkflow'], workflow, base)}
+                />
+              </div>
+            ) : (
+              <AIWorkflowSection aiWorkflow={blueprint.aiWorkflow} compact={compactView} />
+            )}
+          </div>
+        )
       case 'roadmap':
-        return blueprint.roadmap ? <RoadmapSection roadmap={blueprint.roadmap} compact={compactView} /> : null
+        return blueprint.roadmap ? (
+          <RoadmapSection
+            roadmap={blueprint.roadmap}
+            projectId={project?.id}
+            readOnly={readOnly}
+            compact={compactView}
+            onRescheduled={onBlueprintChange}
+            liveUpdate={liveUpdate}
+          />
+        ) : null
       case 'financial':
         return blueprint.financialModel ? <FinancialModelSection financialModel={blueprint.financialModel} compact={compactView} /> : null
+      case 'valuation':
+        return blueprint.financialModel ? (
+          <ValuationSection
+            financialModel={blueprint.financialModel}
+            projectId={project?.id}
+            readOnly={readOnly}
+            compact={compactView}
+            liveUpdate={liveUpdate}
+          />
+        ) : null
       default:
         return null
     }
@@ -126,11 +279,21 @@ export function BlueprintDisplay({ blueprint, project, allowedSections, readOnly
         <div>
           <h2 className="text-2xl font-bold text-foreground">Blueprint Overview</h2>
           <p className="text-muted-foreground">
-            Generated on {new Date(blueprint.generatedAt).toLocaleDateString()}
+            {blueprint.generatedAt
+              ? `Generated on ${new Date(blueprint.generatedAt).toLocaleDateString()}`
+              : 'Generating blueprint...'}
           </p>
         </div>
         
         <div className="flex items-center gap-2">
+          {collaboration && (
+            <CollaborationPresence
+              status={collaboration.status}
+              peers={collaboration.peers}
+              sectionLabels={Object.fromEntries(tabs.map(tab => [tab.id, tab.label]))}
+            />
+          )}
+
           <Button
             variant="outline"
             size="sm"
@@ -140,6 +303,18 @@ export function BlueprintDisplay({ blueprint, project, allowedSections, readOnly
             {compactView ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
             {compactView ? 'Detailed View' : 'Compact View'}
           </Button>
+
+          {commentSource && (
+            <Button
+              variant={showComments ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setShowComments(!showComments)}
+              className="flex items-center gap-2"
+            >
+              <MessageSquare className="h-4 w-4" />
+              Comments
+            </Button>
+          )}
           
           {!readOnly && (
             <>
@@ -187,8 +362,18 @@ export function BlueprintDisplay({ blueprint, project, allowedSections, readOnly
                     }
                   `}
                 >
-                  <Icon className="h-4 w-4" />
+                  {generation?.activeSections.includes(sectionMap[tab.id])
+                    ? <Loader2 className="h-4 w-4 animate-spin" />
+                    : <Icon className="h-4 w-4" />}
                   {tab.label}
+                  {collaboration?.peers.filter(peer => peer.section === tab.id).map(peer => (
+                    <span
+                      key={peer.clientId}
+                      title={peer.name}
+                      className="h-2 w-2 rounded-full"
+                      style={{ backgroundColor: peer.color }}
+                    />
+                  ))}
                 </button>
               )
             })}
@@ -214,6 +399,14 @@ export function BlueprintDisplay({ blueprint, project, allowedSections, readOnly
         )}
       </Card>
 
+      {showComments && commentSource && activeTabData && (
+        <CommentThreads
+          blueprint={blueprint}
+          section={sectionMap[activeTab]}
+          {...commentSource}
+        />
+      )}
+
       {/* Export/Share Panel */}
       {showExportPanel && !readOnly && (
         <ExportSharePanel
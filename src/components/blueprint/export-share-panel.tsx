@@ -1,11 +1,13 @@
 "use client"
 
-import { useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { Project, ExportFormat } from '@/types'
 import { Button } from '@/components/ui/button'
 import { Modal } from '@/components/ui/modal'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
+import { ROADMAP_EXPORT_FORMATS, RoadmapExportFormat } from '@/lib/roadmap/exporters'
+import type { SharePermission } from '@/lib/sharing/share-links'
 
 interface ExportSharePanelProps {
   project: Project
@@ -13,14 +15,23 @@ interface ExportSharePanelProps {
 }
 
 interface ShareLink {
+  id: string
   shareUrl: string
   shareToken: string
-  permissions: string
-  expiresAt?: string
+  permissions: SharePermission[]
+  expiresAt: string | null
   allowedSections: string[]
+  hasPassword: boolean
+  viewCount: number
+  lastAccessedAt: string | null
   createdAt: string
 }
 
+const EXTRA_PERMISSIONS: { id: SharePermission; label: string }[] = [
+  { id: 'comment', label: 'Can comment' },
+  { id: 'duplicate', label: 'Can copy to their own projects' }
+]
+
 export function ExportSharePanel({ project, onClose }: ExportSharePanelProps) {
   const [activeTab, setActiveTab] = useState<'export' | 'share'>('export')
   const [isExporting, setIsExporting] = useState(false)
@@ -31,10 +42,11 @@ export function ExportSharePanel({ project, onClose }: ExportSharePanelProps) {
   // Export state
   const [exportFormat, setExportFormat] = useState<ExportFormat>(ExportFormat.MARKDOWN)
   const [selectedSections, setSelectedSections] = useState<string[]>(['all'])
+  const [roadmapFormat, setRoadmapFormat] = useState<RoadmapExportFormat>('ics')
 
   // Share state
   const [shareForm, setShareForm] = useState({
-    permissions: 'view',
+    permissions: ['view'] as SharePermission[],
     expiresAt: '',
     password: '',
     allowedSections: ['all'] as string[]
@@ -89,6 +101,36 @@ export function ExportSharePanel({ project, onClose }: ExportSharePanelProps) {
     }
   }
 
+  const handleRoadmapExport = () => {
+    // A plain link lets the browser use the filename from Content-Disposition
+    const a = document.createElement('a')
+    a.href = `/api/projects/${project.id}/export/roadmap?format=${roadmapFormat}`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+  }
+
+  const fetchShareLinks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${project.id}/share`)
+      const result = await response.json()
+
+      if (result.success) {
+        setShareLinks(result.data)
+      } else {
+        throw new Error(result.error)
+      }
+    } catch (error) {
+      console.error('Failed to load share links:', error)
+    }
+  }, [project.id])
+
+  useEffect(() => {
+    if (activeTab === 'share') {
+      fetchShareLinks()
+    }
+  }, [activeTab, fetchShareLinks])
+
   const handleCreateShareLink = async () => {
     setIsSharing(true)
     try {
@@ -111,7 +153,7 @@ export function ExportSharePanel({ project, onClose }: ExportSharePanelProps) {
         setShareLinks(prev => [result.data, ...prev])
         setShowShareForm(false)
         setShareForm({
-          permissions: 'view',
+          permissions: ['view'],
           expiresAt: '',
           password: '',
           allowedSections: ['all']
@@ -239,6 +281,31 @@ export function ExportSharePanel({ project, onClose }: ExportSharePanelProps) {
             >
               {isExporting ? 'Exporting...' : `Export as ${exportFormat}`}
             </Button>
+
+            {project.blueprint?.roadmap && (
+              <div className="border-t pt-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Roadmap Export
+                </label>
+                <p className="text-xs text-gray-500 mb-2">
+                  Milestones for your calendar, or the tasks as a file to import into an issue tracker.
+                </p>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={roadmapFormat}
+                    onChange={(e) => setRoadmapFormat(e.target.value as RoadmapExportFormat)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {(Object.keys(ROADMAP_EXPORT_FORMATS) as RoadmapExportFormat[]).map((format) => (
+                      <option key={format} value={format}>{ROADMAP_EXPORT_FORMATS[format].label}</option>
+                    ))}
+                  </select>
+                  <Button variant="outline" onClick={handleRoadmapExport}>
+                    Download
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -268,7 +335,8 @@ export function ExportSharePanel({ project, onClose }: ExportSharePanelProps) {
                       <div key={link.shareToken} className="border rounded-lg p-4">
                         <div className="flex items-center justify-between mb-2">
                           <div className="text-sm font-medium">
-                            {link.permissions} access
+                            {link.permissions.join(', ')} access
+                            {link.hasPassword && <span className="ml-2 text-xs text-gray-500">(password protected)</span>}
                           </div>
                           <div className="flex items-center space-x-2">
                             <Button
@@ -292,6 +360,10 @@ export function ExportSharePanel({ project, onClose }: ExportSharePanelProps) {
                           {link.expiresAt && (
                             <span> • Expires: {new Date(link.expiresAt).toLocaleDateString()}</span>
                           )}
+                          <span> • {link.viewCount} {link.viewCount === 1 ? 'view' : 'views'}</span>
+                          {link.lastAccessedAt && (
+                            <span> • Last opened: {new Date(link.lastAccessedAt).toLocaleString()}</span>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -315,13 +387,28 @@ export function ExportSharePanel({ project, onClose }: ExportSharePanelProps) {
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Permissions
                   </label>
-                  <select
-                    value={shareForm.permissions}
-                    onChange={(e) => setShareForm(prev => ({ ...prev, permissions: e.target.value }))}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  >
-                    <option value="view">View Only</option>
-                  </select>
+                  <div className="space-y-2">
+                    <label className="flex items-center text-gray-500">
+                      <input type="checkbox" checked disabled className="mr-2" />
+                      Can view
+                    </label>
+                    {EXTRA_PERMISSIONS.map((permission) => (
+                      <label key={permission.id} className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={shareForm.permissions.includes(permission.id)}
+                          onChange={(e) => setShareForm(prev => ({
+                            ...prev,
+                            permissions: e.target.checked
+                              ? [...prev.permissions, permission.id]
+                              : prev.permissions.filter(p => p !== permission.id)
+                          }))}
+                          className="mr-2"
+                        />
+                        {permission.label}
+                      </label>
+                    ))}
+                  </div>
                 </div>
 
                 <div>
@@ -344,7 +431,7 @@ export function ExportSharePanel({ project, onClose }: ExportSharePanelProps) {
                     type="password"
                     value={shareForm.password}
                     onChange={(e) => setShareForm(prev => ({ ...prev, password: e.target.value }))}
-                    placeholder="Leave empty for no password"
+                    placeholder="Leave empty for no password (at least 4 characters)"
                   />
                 </div>
 
@@ -385,7 +472,7 @@ export function ExportSharePanel({ project, onClose }: ExportSharePanelProps) {
 
                 <Button
                   onClick={handleCreateShareLink}
-                  disabled={isSharing || shareForm.allowedSections.length === 0}
+                  disabled={isSharing || shareForm.allowedSections.length === 0 || (shareForm.password.length > 0 && shareForm.password.length < 4)}
                   className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
                 >
                   {isSharing ? 'Creating...' : 'Create Share Link'}
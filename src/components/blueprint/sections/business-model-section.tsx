@@ -0,0 +1,484 @@
+"use client"
+
+import React, { useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  BusinessModelCanvas,
+  ComprehensiveProductPlan,
+  CostStructureItem,
+  FinancialModel,
+  ProductPlan,
+  RevenueStreamItem,
+  ValueProposition
+} from '@/types'
+import { BusinessModel, businessModelOf, CANVAS_LIST_BLOCKS, CanvasListBlock } from '@/lib/business-model/canvas'
+import type { CollaborationState } from '@/hooks/use-collaboration'
+import {
+  LayoutGrid,
+  Plus,
+  RotateCcw,
+  Save,
+  Target,
+  Trash2
+} from 'lucide-react'
+
+interface BusinessModelSectionProps {
+  productPlan: ProductPlan
+  financialModel?: FinancialModel
+  projectId?: string
+  readOnly?: boolean
+  compact?: boolean
+  /** Saves through the live editing session instead of the API */
+  liveUpdate?: CollaborationState['update']
+}
+
+/** Grid placement of the list blocks in the usual canvas layout */
+const BLOCK_LAYOUT: Record<CanvasListBlock, string> = {
+  keyPartners: 'md:col-span-2 md:row-span-2',
+  keyActivities: 'md:col-span-2',
+  keyResources: 'md:col-span-2',
+  valuePropositions: 'md:col-span-2 md:row-span-2',
+  customerRelationships: 'md:col-span-2',
+  channels: 'md:col-span-2',
+  customerSegments: 'md:col-span-2 md:row-span-2'
+}
+
+// Rendered column by column so the two-row blocks line up
+const BLOCK_ORDER: CanvasListBlock[] = [
+  'keyPartners', 'keyActivities', 'valuePropositions', 'customerRelationships', 'customerSegments', 'keyResources', 'channels'
+]
+
+const VALUE_PROPOSITION_LISTS = {
+  benefits: 'Benefits',
+  features: 'Features',
+  proof: 'Proof points'
+} as const
+
+type ValuePropositionList = keyof typeof VALUE_PROPOSITION_LISTS
+
+const inputClass = 'w-full rounded border bg-background px-2 py-1'
+
+export function BusinessModelSection({
+  productPlan,
+  financialModel,
+  projectId,
+  readOnly = false,
+  compact = false,
+  liveUpdate
+}: BusinessModelSectionProps) {
+  const initial = useMemo(() => businessModelOf(productPlan, financialModel), [productPlan, financialModel])
+  const [base, setBase] = useState<ComprehensiveProductPlan>(productPlan)
+  const [canvas, setCanvas] = useState<BusinessModelCanvas>(initial.canvas)
+  const [valueProposition, setValueProposition] = useState<ValueProposition>(initial.valueProposition)
+  const [edited, setEdited] = useState(initial.edited)
+  const [isDirty, setIsDirty] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const editable = !readOnly && !!projectId
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1
+    }).format(amount)
+  }
+
+  const updateCanvas = (changes: Partial<BusinessModelCanvas>) => {
+    setCanvas({ ...canvas, ...changes })
+    setIsDirty(true)
+  }
+
+  const updateValueProposition = (changes: Partial<ValueProposition>) => {
+    setValueProposition({ ...valueProposition, ...changes })
+    setIsDirty(true)
+  }
+
+  const updateCost = (index: number, changes: Partial<CostStructureItem>) => {
+    updateCanvas({ costStructure: canvas.costStructure.map((item, i) => i === index ? { ...item, ...changes } : item) })
+  }
+
+  const updateStream = (index: number, changes: Partial<RevenueStreamItem>) => {
+    updateCanvas({ revenueStreams: canvas.revenueStreams.map((item, i) => i === index ? { ...item, ...changes } : item) })
+  }
+
+  const applyResult = (data: BusinessModel) => {
+    setCanvas(data.canvas)
+    setValueProposition(data.valueProposition)
+    setEdited(data.edited)
+    setIsDirty(false)
+  }
+
+  // A plan saved elsewhere, e.g. by someone else in the session, replaces an unchanged draft
+  if (productPlan !== base && !isDirty) {
+    setBase(productPlan)
+    applyResult(initial)
+  }
+
+  const handleSave = async () => {
+    // Blank lines left in the lists are dropped rather than saved
+    const lists = [...Object.keys(CANVAS_LIST_BLOCKS), ...Object.keys(VALUE_PROPOSITION_LISTS)]
+    const withoutBlanks = <T extends object>(value: T): T => Object.fromEntries(
+      Object.entries(value).map(([key, items]) => [key, lists.includes(key) ? (items as string[]).filter(item => item.trim()) : items])
+    ) as T
+
+    if (liveUpdate) {
+      liveUpdate(['productPlan', 'businessModelCanvas'], withoutBlanks(canvas), base.businessModelCanvas)
+      liveUpdate(['productPlan', 'valueProposition'], withoutBlanks(valueProposition), base.valueProposition)
+      setIsDirty(false)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/business-model`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ canvas: withoutBlanks(canvas), valueProposition: withoutBlanks(valueProposition) }),
+      })
+
+      const result = await response.json()
+      if (result.success) {
+        applyResult(result.data)
+      } else {
+        throw new Error(result.error)
+      }
+    } catch (error) {
+      console.error('Saving business model failed:', error)
+      alert('Failed to save the business model. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleReset = async () => {
+    if (!confirm('Discard your edits and rebuild the canvas from the blueprint?')) return
+
+    if (liveUpdate) {
+      liveUpdate(['productPlan', 'businessModelCanvas'], undefined)
+      liveUpdate(['productPlan', 'valueProposition'], undefined)
+      setIsDirty(false)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/business-model`, { method: 'DELETE' })
+
+      const result = await response.json()
+      if (result.success) {
+        applyResult(result.data)
+      } else {
+        throw new Error(result.error)
+      }
+    } catch (error) {
+      console.error('Resetting business model failed:', error)
+      alert('Failed to reset the business model. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const monthlyCosts = canvas.costStructure.reduce((sum, item) => sum + item.amount, 0)
+
+  return (
+    <div className="space-y-6">
+      {/* Value Proposition */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5 text-primary" />
+              Value Proposition
+            </CardTitle>
+            {editable && (
+              <div className="flex items-center gap-2">
+                {edited && (
+                  <Button variant="outline" size="sm" onClick={handleReset} disabled={isSaving}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Rebuild
+                  </Button>
+                )}
+                <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving}>
+                  <Save className="h-4 w-4 mr-1" />
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {editable ? (
+            <div className="space-y-2">
+              <input
+                className={`${inputClass} text-lg font-semibold`}
+                value={valueProposition.headline}
+                placeholder="Headline"
+                onChange={event => updateValueProposition({ headline: event.target.value })}
+              />
+              <input
+                className={inputClass}
+                value={valueProposition.subheadline}
+                placeholder="Subheadline"
+                onChange={event => updateValueProposition({ subheadline: event.target.value })}
+              />
+              <input
+                className={`${inputClass} text-sm`}
+                value={valueProposition.targetSegment}
+                placeholder="Target segment"
+                onChange={event => updateValueProposition({ targetSegment: event.target.value })}
+              />
+            </div>
+          ) : (
+            <div>
+              <div className="text-lg font-semibold">{valueProposition.headline}</div>
+              <p className="text-muted-foreground">{valueProposition.subheadline}</p>
+              {valueProposition.targetSegment && (
+                <Badge variant="outline" className="mt-2">{valueProposition.targetSegment}</Badge>
+              )}
+            </div>
+          )}
+          {!compact && (
+            <div className="grid md:grid-cols-3 gap-4">
+              {(Object.keys(VALUE_PROPOSITION_LISTS) as ValuePropositionList[]).map(list => (
+                <EditableList
+                  key={list}
+                  title={VALUE_PROPOSITION_LISTS[list]}
+                  items={valueProposition[list]}
+                  editable={editable}
+                  onChange={items => updateValueProposition({ [list]: items })}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Business Model Canvas */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <LayoutGrid className="h-5 w-5 text-primary" />
+              Business Model Canvas
+            </CardTitle>
+            <Badge variant="outline">{edited ? 'Edited' : 'Derived from blueprint'}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid md:grid-cols-10 gap-3">
+            {BLOCK_ORDER.map(block => (
+              <div key={block} className={`border rounded-lg p-3 ${BLOCK_LAYOUT[block]}`}>
+                <EditableList
+                  title={CANVAS_LIST_BLOCKS[block]}
+                  items={canvas[block]}
+                  editable={editable}
+                  onChange={items => updateCanvas({ [block]: items })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-3">
+            {/* Cost Structure */}
+            <div className="border rounded-lg p-3">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-semibold text-sm">Cost Structure</h4>
+                <span className="text-xs text-muted-foreground">{formatCurrency(monthlyCosts)} a month</span>
+              </div>
+              <table className="w-full text-sm">
+                <tbody>
+                  {canvas.costStructure.map((item, index) => (
+                    <tr key={index} className="border-t">
+                      <td className="py-1 pr-2 text-muted-foreground">{item.category}</td>
+                      <td className="py-1 pr-2">
+                        {editable ? (
+                          <input
+                            className={inputClass}
+                            value={item.description}
+                            onChange={event => updateCost(index, { description: event.target.value })}
+                          />
+                        ) : item.description}
+                      </td>
+                      <td className="py-1 pr-2">
+                        {editable ? (
+                          <input
+                            type="number"
+                            min={0}
+                            className="w-24 rounded border bg-background px-2 py-1"
+                            value={item.amount}
+                            onChange={event => updateCost(index, { amount: Math.max(0, Number(event.target.value)) })}
+                          />
+                        ) : formatCurrency(item.amount)}
+                      </td>
+                      <td className="py-1 pr-2">
+                        {editable ? (
+                          <select
+                            className="rounded border bg-background px-2 py-1"
+                            value={item.type}
+                            onChange={event => updateCost(index, { type: event.target.value as CostStructureItem['type'] })}
+                          >
+                            <option value="fixed">Fixed</option>
+                            <option value="variable">Variable</option>
+                          </select>
+                        ) : (
+                          <Badge variant="outline" className="text-xs">{item.type}</Badge>
+                        )}
+                      </td>
+                      {editable && (
+                        <td className="py-1 text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => updateCanvas({ costStructure: canvas.costStructure.filter((_, i) => i !== index) })}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {editable && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-2"
+                  onClick={() => updateCanvas({
+                    costStructure: [...canvas.costStructure, { category: 'Other', description: 'New cost', amount: 0, type: 'fixed' }]
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add cost
+                </Button>
+              )}
+            </div>
+
+            {/* Revenue Streams */}
+            <div className="border rounded-lg p-3">
+              <h4 className="font-semibold text-sm mb-2">Revenue Streams</h4>
+              <table className="w-full text-sm">
+                <tbody>
+                  {canvas.revenueStreams.map((stream, index) => (
+                    <tr key={index} className="border-t">
+                      <td className="py-1 pr-2">
+                        {editable ? (
+                          <input
+                            className={inputClass}
+                            value={stream.name}
+                            onChange={event => updateStream(index, { name: event.target.value })}
+                          />
+                        ) : stream.name}
+                      </td>
+                      <td className="py-1 pr-2 whitespace-nowrap">
+                        {editable ? (
+                          <input
+                            type="number"
+                            min={0}
+                            className="w-20 rounded border bg-background px-2 py-1"
+                            value={stream.pricing}
+                            onChange={event => updateStream(index, { pricing: Math.max(0, Number(event.target.value)) })}
+                          />
+                        ) : formatCurrency(stream.pricing)}
+                        <span className="ml-1 text-muted-foreground">{stream.frequency}</span>
+                      </td>
+                      <td className="py-1 pr-2 whitespace-nowrap">
+                        {editable ? (
+                          <input
+                            type="number"
+                            min={0}
+                            className="w-20 rounded border bg-background px-2 py-1"
+                            value={stream.volume}
+                            onChange={event => updateStream(index, { volume: Math.max(0, Number(event.target.value)) })}
+                          />
+                        ) : stream.volume.toLocaleString()}
+                        <span className="ml-1 text-muted-foreground">customers</span>
+                      </td>
+                      {editable && (
+                        <td className="py-1 text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => updateCanvas({ revenueStreams: canvas.revenueStreams.filter((_, i) => i !== index) })}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {editable && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-2"
+                  onClick={() => updateCanvas({
+                    revenueStreams: [
+                      ...canvas.revenueStreams,
+                      { name: 'New stream', description: '', model: productPlan.monetization?.primary?.model ?? '', pricing: 0, volume: 0, frequency: 'monthly' }
+                    ]
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add stream
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+interface EditableListProps {
+  title: string
+  items: string[]
+  editable: boolean
+  onChange: (items: string[]) => void
+}
+
+function EditableList({ title, items, editable, onChange }: EditableListProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold text-sm">{title}</h4>
+        {editable && (
+          <Button variant="ghost" size="sm" onClick={() => onChange([...items, ''])}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {editable ? (
+        <div className="space-y-1">
+          {items.map((item, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <input
+                className={`${inputClass} text-sm`}
+                value={item}
+                onChange={event => onChange(items.map((existing, i) => i === index ? event.target.value : existing))}
+              />
+              <Button variant="ghost" size="sm" onClick={() => onChange(items.filter((_, i) => i !== index))}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {items.map((item, index) => (
+            <li key={index}>{item}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,484 @@
+"use client"
+
+import React, { useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { ProductPlan } from '@/types'
+import { CompetitorData } from '@/types/services'
+import {
+  analyzeCompetition,
+  parsePricing,
+  PositioningGap,
+  ProductPlanWithCompetitors,
+  suggestedCompetitors
+} from '@/lib/competitive-analysis/matrix'
+import { parseCompetitorCSV } from '@/lib/competitive-analysis/csv'
+import type { CollaborationState } from '@/hooks/use-collaboration'
+import {
+  Check,
+  DollarSign,
+  Grid3x3,
+  Lightbulb,
+  Minus,
+  Pencil,
+  Plus,
+  Save,
+  Trash2,
+  Upload,
+  X
+} from 'lucide-react'
+
+interface CompetitorAnalysisProps {
+  productPlan: ProductPlan
+  projectId?: string
+  readOnly?: boolean
+  compact?: boolean
+  /** Saves through the live editing session instead of the API */
+  liveUpdate?: CollaborationState['update']
+}
+
+type ListField = 'features' | 'strengths' | 'weaknesses'
+
+const LIST_FIELDS: Record<ListField, string> = {
+  features: 'Features',
+  strengths: 'Strengths',
+  weaknesses: 'Weaknesses'
+}
+
+const GAP_STYLES: Record<PositioningGap['type'], { label: string; className: string }> = {
+  'unique-feature': { label: 'Advantage', className: 'bg-green-100 text-green-800 border-green-200' },
+  'missing-feature': { label: 'Table stakes', className: 'bg-red-100 text-red-800 border-red-200' },
+  price: { label: 'Pricing', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  weakness: { label: 'Opening', className: 'bg-purple-100 text-purple-800 border-purple-200' }
+}
+
+const inputClass = 'w-full rounded border bg-background px-2 py-1 text-sm'
+
+const NO_COMPETITORS: CompetitorData[] = []
+
+export function CompetitorAnalysis({
+  productPlan,
+  projectId,
+  readOnly = false,
+  compact = false,
+  liveUpdate
+}: CompetitorAnalysisProps) {
+  const saved = (productPlan as ProductPlanWithCompetitors).competitorData ?? NO_COMPETITORS
+  const [base, setBase] = useState<CompetitorData[]>(saved)
+  const [draft, setDraft] = useState<CompetitorData[]>(saved)
+  const [editing, setEditing] = useState<number | null>(null)
+  const [isDirty, setIsDirty] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [uploadErrors, setUploadErrors] = useState<string[]>([])
+
+  // Competitors saved elsewhere, e.g. by someone else in the session, replace an unchanged draft
+  if (saved !== base && !isDirty) {
+    setBase(saved)
+    setDraft(saved)
+  }
+
+  const editable = !readOnly && !!projectId
+  const analysis = useMemo(() => analyzeCompetition({ ...productPlan, competitorData: draft }), [productPlan, draft])
+
+  const updateCompetitor = (index: number, changes: Partial<CompetitorData>) => {
+    setDraft(draft.map((competitor, i) => i === index ? { ...competitor, ...changes } : competitor))
+    setIsDirty(true)
+  }
+
+  const addCompetitor = (competitor: CompetitorData = blankCompetitor()) => {
+    setDraft([...draft, competitor])
+    setEditing(draft.length)
+    setIsDirty(true)
+  }
+
+  const removeCompetitor = (index: number) => {
+    setDraft(draft.filter((_, i) => i !== index))
+    setEditing(null)
+    setIsDirty(true)
+  }
+
+  const handleUpload = () => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = '.csv,text/csv'
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0]
+      if (file) {
+        const reader = new FileReader()
+        reader.onload = (event) => {
+          const { competitors, errors } = parseCompetitorCSV(event.target?.result as string)
+          const uploaded = new Set(competitors.map(competitor => competitor.name.toLowerCase()))
+          setDraft([...draft.filter(competitor => !uploaded.has(competitor.name.toLowerCase())), ...competitors])
+          setUploadErrors(errors)
+          if (competitors.length > 0) setIsDirty(true)
+        }
+        reader.readAsText(file)
+      }
+    }
+    input.click()
+  }
+
+  const handleSave = async () => {
+    const competitors = draft.filter(competitor => competitor.name.trim()).map(withoutBlankLines)
+
+    if (liveUpdate) {
+      liveUpdate(['productPlan', 'competitorData'], competitors, base)
+      setEditing(null)
+      setIsDirty(false)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/competitors`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ competitors }),
+      })
+
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      setDraft(result.data.competitors)
+      setEditing(null)
+      setIsDirty(false)
+    } catch (error) {
+      console.error('Saving competitors failed:', error)
+      alert('Failed to save the competitors. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const entered = new Set(draft.map(competitor => competitor.name.toLowerCase()))
+  const suggestions = suggestedCompetitors(productPlan).filter(competitor => !entered.has(competitor.name.toLowerCase()))
+  const { competitors, features, pricing, gaps } = analysis
+
+  return (
+    <div className="space-y-6">
+      {/* Positioning Gaps */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lightbulb className="h-5 w-5 text-primary" />
+            Positioning Gaps
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {gaps.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Add competitors&apos; features and prices to find where the product can stand apart.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {gaps.map((gap, index) => (
+                <div key={index} className="flex items-start gap-3 p-3 border rounded-lg">
+                  <Badge className={GAP_STYLES[gap.type].className}>{GAP_STYLES[gap.type].label}</Badge>
+                  <div className="flex-1">
+                    <h5 className="font-medium text-sm">{gap.title}</h5>
+                    <p className="text-sm text-muted-foreground">{gap.detail}</p>
+                    {!compact && gap.competitors.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1">{gap.competitors.join(', ')}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Feature Matrix */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Grid3x3 className="h-5 w-5 text-primary" />
+            Feature Comparison
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {competitors.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No competitors yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="py-2 pr-2 font-medium">Feature</th>
+                    <th className="py-2 px-2 font-medium text-center">Us</th>
+                    {competitors.map(competitor => (
+                      <th key={competitor.name} className="py-2 px-2 font-medium text-center whitespace-nowrap">
+                        {competitor.name}
+                        {competitor.source === 'user' && (
+                          <Badge variant="outline" className="ml-1 text-xs">edited</Badge>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {features.map(row => (
+                    <tr key={row.feature} className="border-b last:border-0">
+                      <td className="py-2 pr-2">{row.feature}</td>
+                      <td className="py-2 px-2 text-center"><FeatureMark value={row.ours} /></td>
+                      {competitors.map(competitor => (
+                        <td key={competitor.name} className="py-2 px-2 text-center">
+                          <FeatureMark value={row.competitors[competitor.name]} />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-muted-foreground mt-2">
+                A dash means the competitor&apos;s features haven&apos;t been entered.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pricing Comparison */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5 text-primary" />
+            Pricing Comparison
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {pricing.range ? (
+            <div className="grid grid-cols-3 gap-4">
+              {(['min', 'median', 'max'] as const).map(key => (
+                <div key={key} className="text-center">
+                  <div className="text-2xl font-bold text-primary">{formatMonthly(pricing.range![key])}</div>
+                  <div className="text-xs text-muted-foreground capitalize">Market {key} / month</div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No competitor prices yet.</p>
+          )}
+
+          {pricing.ours.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-2 font-medium">Our tier</th>
+                  <th className="py-2 font-medium">Per month</th>
+                  <th className="py-2 font-medium">Cheaper than</th>
+                  <th className="py-2 font-medium">Closest competitor</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pricing.ours.map(tier => (
+                  <tr key={tier.tier} className="border-b last:border-0">
+                    <td className="py-2 pr-2">{tier.tier}</td>
+                    <td className="py-2 pr-2">{formatMonthly(tier.monthly)}</td>
+                    <td className="py-2 pr-2">
+                      {pricing.pricePoints.length ? `${Math.round((1 - tier.percentile) * 100)}% of tiers` : '—'}
+                    </td>
+                    <td className="py-2 text-muted-foreground">
+                      {tier.nearest ? `${tier.nearest.competitor} ${tier.nearest.tier} (${formatMonthly(tier.nearest.monthly)})` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {!compact && (
+            <div className="grid md:grid-cols-2 gap-3">
+              {competitors.map(competitor => (
+                <div key={competitor.name} className="p-3 border rounded-lg">
+                  <div className="flex items-center justify-between mb-1">
+                    <h5 className="font-medium text-sm">{competitor.name}</h5>
+                    <div className="flex gap-1">
+                      {competitor.pricing.freeTrial && <Badge variant="outline" className="text-xs">Free trial</Badge>}
+                      {competitor.pricing.customPricing && <Badge variant="outline" className="text-xs">Custom</Badge>}
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{competitor.pricing.model || 'Pricing unknown'}</p>
+                  {competitor.pricing.tiers.length > 0 && (
+                    <ul className="text-sm mt-1 space-y-0.5">
+                      {competitor.pricing.tiers.map((tier, index) => (
+                        <li key={index}>{tier.name}: ${tier.price}/{tier.interval}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Competitor Data */}
+      {editable && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="flex items-center gap-2">
+                <Pencil className="h-5 w-5 text-primary" />
+                Your Competitor Data
+              </CardTitle>
+              <div className="flex flex-wrap items-center gap-2">
+                <Button variant="outline" size="sm" onClick={handleUpload} disabled={isSaving}>
+                  <Upload className="h-4 w-4 mr-1" />
+                  Upload CSV
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => addCompetitor()} disabled={isSaving}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving}>
+                  <Save className="h-4 w-4 mr-1" />
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              What you enter replaces the AI&apos;s research for a competitor of the same name. A CSV needs a
+              name column and may have category, features, strengths, weaknesses (separated by semicolons),
+              pricing, tier, price and interval columns, with one row per pricing tier.
+            </p>
+
+            {uploadErrors.length > 0 && (
+              <ul className="text-sm text-red-600 space-y-0.5">
+                {uploadErrors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            )}
+
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-muted-foreground">Add details for:</span>
+                {suggestions.map(competitor => (
+                  <Button key={competitor.name} variant="ghost" size="sm" onClick={() => addCompetitor(competitor)}>
+                    <Plus className="h-3 w-3 mr-1" />
+                    {competitor.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {draft.map((competitor, index) => (
+              <div key={index} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  {editing === index ? (
+                    <input
+                      className={`${inputClass} font-semibold`}
+                      placeholder="Competitor name"
+                      value={competitor.name}
+                      onChange={event => updateCompetitor(index, { name: event.target.value })}
+                    />
+                  ) : (
+                    <div>
+                      <h4 className="font-semibold">{competitor.name || 'Unnamed competitor'}</h4>
+                      <p className="text-xs text-muted-foreground">
+                        {competitor.category} · {competitor.features.length} features · {competitor.pricing.tiers.length} price tiers
+                      </p>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(editing === index ? null : index)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => removeCompetitor(index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {editing === index && (
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="text-xs text-muted-foreground">
+                        Category
+                        <select
+                          className={inputClass}
+                          value={competitor.category}
+                          onChange={event => updateCompetitor(index, { category: event.target.value as CompetitorData['category'] })}
+                        >
+                          <option value="direct">Direct</option>
+                          <option value="indirect">Indirect</option>
+                          <option value="substitute">Substitute</option>
+                        </select>
+                      </label>
+                      <label className="text-xs text-muted-foreground">
+                        Pricing (e.g. Free, $12/month, $99/year)
+                        <input
+                          className={inputClass}
+                          value={competitor.pricing.model}
+                          onChange={event => updateCompetitor(index, { pricing: parsePricing(event.target.value) })}
+                        />
+                      </label>
+                    </div>
+                    {(Object.keys(LIST_FIELDS) as ListField[]).map(field => (
+                      <label key={field} className="block text-xs text-muted-foreground">
+                        {LIST_FIELDS[field]} (one per line)
+                        <Textarea
+                          size="sm"
+                          value={competitor[field].join('\n')}
+                          onChange={event => updateCompetitor(index, { [field]: event.target.value.split('\n') })}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+function FeatureMark({ value }: { value: boolean | null }) {
+  if (value === null) return <Minus className="h-4 w-4 text-muted-foreground mx-auto" />
+  return value
+    ? <Check className="h-4 w-4 text-green-600 mx-auto" />
+    : <X className="h-4 w-4 text-red-400 mx-auto" />
+}
+
+function formatMonthly(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: amount < 100 ? 2 : 0
+  }).format(amount)
+}
+
+function blankCompetitor(): CompetitorData {
+  return {
+    name: '',
+    category: 'direct',
+    strengths: [],
+    weaknesses: [],
+    pricing: parsePricing(''),
+    features: [],
+    marketShare: 0,
+    userReviews: { averageRating: 0, totalReviews: 0, positiveAspects: [], negativeAspects: [], commonComplaints: [] }
+  }
+}
+
+function withoutBlankLines(competitor: CompetitorData): CompetitorData {
+  const clean = (items: string[]) => items.map(item => item.trim()).filter(Boolean)
+  return {
+    ...competitor,
+    name: competitor.name.trim(),
+    features: clean(competitor.features),
+    strengths: clean(competitor.strengths),
+    weaknesses: clean(competitor.weaknesses)
+  }
+}
@@ -5,7 +5,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
-import { FinancialModel } from '@/types'
+import { ComprehensiveFinancialModel } from '@/types'
+import { FinancialSensitivityPanel } from './financial-sensitivity-panel'
 import { 
   DollarSign, 
   TrendingUp, 
@@ -21,12 +22,11 @@ import {
 } from 'lucide-react'
 
 interface FinancialModelSectionProps {
-  financialModel: FinancialModel
+  financialModel: ComprehensiveFinancialModel
   compact?: boolean
 }
 
 export function FinancialModelSection({ financialModel, compact = false }: FinancialModelSectionProps) {
-  const [selectedScenario, setSelectedScenario] = useState<string>('base')
   const [timeframe, setTimeframe] = useState<'monthly' | 'yearly'>('monthly')
 
   const formatCurrency = (amount: number) => {
@@ -60,6 +60,11 @@ export function FinancialModelSection({ financialModel, compact = false }: Finan
     }
   }, [financialModel])
 
+  // The engine reports -1 when breakeven is not reached or cash never runs out
+  const formatMonths = (months: number, never: string) => {
+    return months < 0 ? never : `${months}mo`
+  }
+
   const getMetricColor = (value: number, isPositive: boolean = true) => {
     if (value === 0) return 'text-muted-foreground'
     return (value > 0) === isPositive ? 'text-green-600' : 'text-red-600'
@@ -116,7 +121,7 @@ export function FinancialModelSection({ financialModel, compact = false }: Finan
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-primary">
-                {keyMetrics.breakEvenMonth}mo
+                {formatMonths(keyMetrics.breakEvenMonth, 'Not reached')}
               </div>
               <div className="text-sm text-muted-foreground">Break Even</div>
             </div>
@@ -190,9 +195,9 @@ export function FinancialModelSection({ financialModel, compact = false }: Finan
                 </div>
                 <div className="text-right">
                   <div className={`text-lg font-bold ${
-                    financialModel.metrics.runway >= 12 ? 'text-green-600' : 'text-red-600'
+                    financialModel.metrics.runway < 0 || financialModel.metrics.runway >= 12 ? 'text-green-600' : 'text-red-600'
                   }`}>
-                    {financialModel.metrics.runway}mo
+                    {formatMonths(financialModel.metrics.runway, 'Cash positive')}
                   </div>
                 </div>
               </div>
@@ -213,6 +218,38 @@ export function FinancialModelSection({ financialModel, compact = false }: Finan
         </CardContent>
       </Card>
 
+      {/* Model Assumptions */}
+      {financialModel.assumptions && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calculator className="h-5 w-5 text-primary" />
+              Model Assumptions
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+              {[
+                { label: 'Price per customer', value: `${formatCurrency(financialModel.assumptions.pricing.price)}/mo` },
+                { label: 'New sign-ups', value: `${financialModel.assumptions.customers.signups.toLocaleString()}/mo` },
+                { label: 'Sign-up growth', value: `${formatPercent(financialModel.assumptions.customers.growth * 100)}/mo` },
+                { label: 'Conversion', value: formatPercent(financialModel.assumptions.customers.conversion * 100) },
+                { label: 'Monthly churn', value: formatPercent(financialModel.assumptions.customers.churn * 100) },
+                { label: 'Starting cash', value: formatCurrency(financialModel.assumptions.funding.cash) }
+              ].map(({ label, value }) => (
+                <div key={label} className="p-3 border rounded-lg">
+                  <div className="text-muted-foreground">{label}</div>
+                  <div className="font-bold">{value}</div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-3">
+              Projections and metrics are calculated from these assumptions.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Cost Breakdown */}
       <Card>
         <CardHeader>
@@ -361,18 +398,30 @@ export function FinancialModelSection({ financialModel, compact = false }: Finan
                         <Users className="h-4 w-4" />
                         {projection.users.toLocaleString()} users
                       </div>
-                      {projection.growth && (
+                      {!!projection.growth && (
                         <div className="flex items-center gap-1 text-sm">
-                          <TrendingUp className="h-4 w-4 text-green-500" />
-                          <span className="text-green-600">+{formatPercent(projection.growth)}</span>
+                          {projection.growth > 0 ? (
+                            <TrendingUp className="h-4 w-4 text-green-500" />
+                          ) : (
+                            <TrendingDown className="h-4 w-4 text-red-500" />
+                          )}
+                          <span className={getMetricColor(projection.growth)}>
+                            {projection.growth > 0 ? '+' : ''}{formatPercent(projection.growth * 100)}
+                          </span>
                         </div>
                       )}
                     </div>
                     <div className="text-right">
                       <div className="font-bold">{formatCurrency(projection.revenue)}</div>
-                      {projection.churn && (
+                      {projection.costs !== undefined && (
+                        <div className="text-xs text-muted-foreground">
+                          Costs: {formatCurrency(projection.costs)}
+                          {projection.cash !== undefined && <> · Cash: {formatCurrency(projection.cash)}</>}
+                        </div>
+                      )}
+                      {!!projection.churn && (
                         <div className="text-xs text-red-600">
-                          Churn: {formatPercent(projection.churn)}
+                          Churn: {formatPercent(projection.churn * 100)}
                         </div>
                       )}
                     </div>
@@ -384,6 +433,11 @@ export function FinancialModelSection({ financialModel, compact = false }: Finan
         </CardContent>
       </Card>
 
+      {/* Interactive what-if analysis */}
+      {!compact && financialModel.assumptions && (
+        <FinancialSensitivityPanel financialModel={{ ...financialModel, assumptions: financialModel.assumptions }} />
+      )}
+
       {/* Scenario Analysis */}
       {!compact && financialModel.scenarios.length > 0 && (
         <Card>
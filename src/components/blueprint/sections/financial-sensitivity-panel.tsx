@@ -0,0 +1,183 @@
+"use client"
+
+import React, { useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ComprehensiveFinancialModel, FinancialAssumptions } from '@/types'
+import { projectFinancials } from '@/lib/financial/financial-engine'
+import {
+  analyzeSensitivity,
+  applyDrivers,
+  DriverValues,
+  scenarioMetrics,
+  SENSITIVITY_DRIVERS,
+  SensitivityDriver
+} from '@/lib/financial/sensitivity'
+import { RotateCcw, SlidersHorizontal } from 'lucide-react'
+
+interface FinancialSensitivityPanelProps {
+  financialModel: ComprehensiveFinancialModel & { assumptions: FinancialAssumptions }
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 1
+  }).format(amount)
+}
+
+const formatDriver = (driver: SensitivityDriver, value: number) => {
+  return driver === 'churn' || driver === 'conversion'
+    ? `${(value * 100).toFixed(1)}%`
+    : formatCurrency(value)
+}
+
+const formatMonths = (months: number, never: string) => {
+  return months < 0 ? never : `${months}mo`
+}
+
+export function FinancialSensitivityPanel({ financialModel }: FinancialSensitivityPanelProps) {
+  const { assumptions, costs } = financialModel
+  const months = financialModel.revenue.projections.length || undefined
+  const [values, setValues] = useState<DriverValues>({})
+
+  const sensitivity = useMemo(
+    () => financialModel.sensitivity ?? analyzeSensitivity(assumptions, costs, { months }),
+    [financialModel.sensitivity, assumptions, costs, months]
+  )
+  const base = useMemo(
+    () => scenarioMetrics(projectFinancials(assumptions, costs, { months })),
+    [assumptions, costs, months]
+  )
+  // Recomputed on every slider move; a projection is a few dozen months of arithmetic
+  const adjusted = useMemo(
+    () => scenarioMetrics(projectFinancials(applyDrivers(assumptions, values), costs, { months })),
+    [assumptions, costs, months, values]
+  )
+
+  const widest = Math.max(
+    ...sensitivity.tornado.flatMap(bar => [bar.low.profit - base.profit, bar.high.profit - base.profit].map(Math.abs)),
+    1
+  )
+  const position = (profit: number) => 50 + (profit - base.profit) / widest * 50
+
+  const results = [
+    { label: 'Runway', value: formatMonths(adjusted.runway, 'Cash positive'), changed: adjusted.runway !== base.runway },
+    { label: 'Breakeven', value: formatMonths(adjusted.breakeven, 'Not reached'), changed: adjusted.breakeven !== base.breakeven },
+    { label: `Profit over ${months ?? 36} months`, value: formatCurrency(adjusted.profit), changed: adjusted.profit !== base.profit },
+    { label: 'LTV:CAC', value: `${adjusted.ltvCacRatio.toFixed(1)}:1`, changed: adjusted.ltvCacRatio !== base.ltvCacRatio }
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5 text-primary" />
+            Scenarios & Sensitivity
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => setValues({})} disabled={Object.keys(values).length === 0}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reset
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* What-if sliders */}
+        <div className="grid md:grid-cols-2 gap-4">
+          {sensitivity.variables.map(variable => {
+            const driver = variable.name as SensitivityDriver
+            const value = values[driver] ?? variable.baseValue
+            return (
+              <label key={driver} className="block space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{SENSITIVITY_DRIVERS[driver].label}</span>
+                  <span className={value === variable.baseValue ? 'text-muted-foreground' : 'font-semibold text-primary'}>
+                    {formatDriver(driver, value)}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  className="w-full accent-primary"
+                  min={variable.range.min}
+                  max={variable.range.max}
+                  step={variable.range.step}
+                  value={value}
+                  onChange={event => setValues({ ...values, [driver]: Number(event.target.value) })}
+                />
+              </label>
+            )
+          })}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {results.map(result => (
+            <div key={result.label} className="p-3 border rounded-lg text-center">
+              <div className={`text-lg font-bold ${result.changed ? 'text-primary' : ''}`}>{result.value}</div>
+              <div className="text-xs text-muted-foreground">{result.label}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Tornado chart */}
+        <div className="space-y-2">
+          <h4 className="font-semibold">What moves profit most</h4>
+          {sensitivity.tornado.map(bar => {
+            const driver = bar.variable as SensitivityDriver
+            const low = position(Math.min(bar.low.profit, bar.high.profit))
+            const high = position(Math.max(bar.low.profit, bar.high.profit))
+            return (
+              <div key={driver} className="grid grid-cols-[8rem_1fr] items-center gap-3 text-sm">
+                <span>{SENSITIVITY_DRIVERS[driver].label}</span>
+                <div className="relative h-5 bg-muted/30 rounded">
+                  <div className="absolute inset-y-0 left-1/2 w-px bg-border" />
+                  <div
+                    className="absolute inset-y-1 bg-red-400 rounded-l"
+                    style={{ left: `${low}%`, width: `${Math.max(50 - low, 0)}%` }}
+                  />
+                  <div
+                    className="absolute inset-y-1 bg-green-500 rounded-r"
+                    style={{ left: '50%', width: `${Math.max(high - 50, 0)}%` }}
+                  />
+                </div>
+              </div>
+            )
+          })}
+          <p className="text-xs text-muted-foreground">
+            Each bar sweeps one assumption across its slider range with the others unchanged.
+          </p>
+        </div>
+
+        {/* Best / base / worst */}
+        <div className="grid md:grid-cols-3 gap-4">
+          {sensitivity.results.map(result => {
+            const scenario = sensitivity.scenarios.find(item => item.name === result.scenario)
+            return (
+              <div key={result.scenario} className="border rounded-lg p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold">{result.scenario}</h4>
+                  {scenario && (
+                    <Badge variant="outline">{Math.round(scenario.probability * 100)}% likely</Badge>
+                  )}
+                </div>
+                <div className="text-sm space-y-1">
+                  <div>Profit: <span className="font-medium">{formatCurrency(result.metrics.profit)}</span></div>
+                  <div>Runway: <span className="font-medium">{formatMonths(result.metrics.runway, 'Cash positive')}</span></div>
+                  <div>Breakeven: <span className="font-medium">{formatMonths(result.metrics.breakeven, 'Not reached')}</span></div>
+                </div>
+                {scenario && (
+                  <Button variant="outline" size="sm" onClick={() => setValues(scenario.variables)}>
+                    Try these values
+                  </Button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,378 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { UserPersona } from '@/types'
+import type { CollaborationState } from '@/hooks/use-collaboration'
+import {
+  Pencil,
+  RefreshCw,
+  Save,
+  Sparkles,
+  Trash2,
+  UserCircle
+} from 'lucide-react'
+
+interface PersonaEditorProps {
+  personas: UserPersona[]
+  projectId?: string
+  readOnly?: boolean
+  compact?: boolean
+  /** Called once the product plan has been regenerated for the selected personas */
+  onRegenerated?: () => void
+  /** Saves through the live editing session instead of the API */
+  liveUpdate?: CollaborationState['update']
+}
+
+type TextField = 'age' | 'gender' | 'location' | 'income' | 'education'
+
+const DEMOGRAPHIC_FIELDS: Record<TextField, string> = {
+  age: 'Age',
+  gender: 'Gender',
+  location: 'Location',
+  income: 'Income',
+  education: 'Education'
+}
+
+interface ListField {
+  label: string
+  get: (persona: UserPersona) => string[]
+  set: (persona: UserPersona, items: string[]) => Partial<UserPersona>
+}
+
+/** The list fields of a persona, edited one item per line */
+const LIST_FIELDS: ListField[] = [
+  { label: 'Goals', get: persona => persona.goals, set: (_, goals) => ({ goals }) },
+  { label: 'Pain points', get: persona => persona.painPoints, set: (_, painPoints) => ({ painPoints }) },
+  {
+    label: 'Interests',
+    get: persona => persona.psychographics.interests,
+    set: (persona, interests) => ({ psychographics: { ...persona.psychographics, interests } })
+  },
+  {
+    label: 'Values',
+    get: persona => persona.psychographics.values,
+    set: (persona, values) => ({ psychographics: { ...persona.psychographics, values } })
+  },
+  {
+    label: 'Online behavior',
+    get: persona => persona.behaviors.online,
+    set: (persona, online) => ({ behaviors: { ...persona.behaviors, online } })
+  },
+  {
+    label: 'Buying behavior',
+    get: persona => persona.behaviors.purchasing,
+    set: (persona, purchasing) => ({ behaviors: { ...persona.behaviors, purchasing } })
+  },
+  {
+    label: 'Communication',
+    get: persona => persona.behaviors.communication,
+    set: (persona, communication) => ({ behaviors: { ...persona.behaviors, communication } })
+  },
+  { label: 'Preferred channels', get: persona => persona.preferredChannels, set: (_, preferredChannels) => ({ preferredChannels }) }
+]
+
+const inputClass = 'w-full rounded border bg-background px-2 py-1 text-sm'
+
+export function PersonaEditor({
+  personas,
+  projectId,
+  readOnly = false,
+  compact = false,
+  onRegenerated,
+  liveUpdate
+}: PersonaEditorProps) {
+  const [base, setBase] = useState<UserPersona[]>(personas)
+  const [draft, setDraft] = useState<UserPersona[]>(personas)
+  const [selected, setSelected] = useState<string[]>([])
+  const [editing, setEditing] = useState<number | null>(null)
+  const [isDirty, setIsDirty] = useState(false)
+  const [busy, setBusy] = useState<'generating' | 'saving' | 'regenerating' | null>(null)
+
+  // Personas saved elsewhere, e.g. by someone else in the session, replace an unchanged draft
+  if (personas !== base && !isDirty) {
+    setBase(personas)
+    setDraft(personas)
+  }
+
+  const editable = !readOnly && !!projectId
+
+  const updatePersona = (index: number, changes: Partial<UserPersona>) => {
+    setDraft(draft.map((persona, i) => i === index ? { ...persona, ...changes } : persona))
+    setIsDirty(true)
+  }
+
+  const removePersona = (index: number) => {
+    setSelected(selected.filter(name => name !== draft[index].name))
+    setDraft(draft.filter((_, i) => i !== index))
+    setEditing(null)
+    setIsDirty(true)
+  }
+
+  const toggleSelected = (name: string) => {
+    setSelected(selected.includes(name) ? selected.filter(other => other !== name) : [...selected, name])
+  }
+
+  const handleGenerate = async () => {
+    setBusy('generating')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/personas`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ count: 3 }),
+      })
+
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      setDraft([...draft, ...result.data.personas])
+      setIsDirty(true)
+    } catch (error) {
+      console.error('Generating personas failed:', error)
+      alert('Failed to generate personas. Please try again.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleSave = async () => {
+    if (liveUpdate) {
+      liveUpdate(['productPlan', 'userPersonas'], draft.map(withoutBlankLines), base)
+      setIsDirty(false)
+      return
+    }
+
+    setBusy('saving')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/personas`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ personas: draft.map(withoutBlankLines) }),
+      })
+
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      setDraft(result.data.personas)
+      setIsDirty(false)
+    } catch (error) {
+      console.error('Saving personas failed:', error)
+      alert('Failed to save the personas. Please try again.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleRegenerate = async () => {
+    if (!confirm('Regenerate the product plan\'s features and go-to-market strategy for the selected personas?')) return
+
+    setBusy('regenerating')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/regenerate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ section: 'productPlan', personas: selected }),
+      })
+
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      onRegenerated?.()
+    } catch (error) {
+      console.error('Regenerating for personas failed:', error)
+      alert('Failed to regenerate the product plan. Please try again.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  if (!editable && draft.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <UserCircle className="h-5 w-5 text-primary" />
+            Personas
+          </CardTitle>
+          {editable && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="sm" onClick={handleGenerate} disabled={busy !== null}>
+                <Sparkles className="h-4 w-4 mr-1" />
+                {busy === 'generating' ? 'Generating...' : 'Generate'}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRegenerate}
+                disabled={busy !== null || isDirty || selected.length === 0}
+                title={isDirty ? 'Save your personas first' : undefined}
+              >
+                <RefreshCw className="h-4 w-4 mr-1" />
+                {busy === 'regenerating' ? 'Regenerating...' : 'Regenerate features & GTM'}
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={!isDirty || busy !== null}>
+                <Save className="h-4 w-4 mr-1" />
+                {busy === 'saving' ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {draft.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Generate personas from your idea and target audience, then refine them and select the ones the
+            product should be built for.
+          </p>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-4">
+            {draft.map((persona, index) => (
+              <div key={index} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex items-start gap-2 flex-1">
+                    {editable && (
+                      <input
+                        type="checkbox"
+                        className="mt-1.5"
+                        checked={selected.includes(persona.name)}
+                        onChange={() => toggleSelected(persona.name)}
+                        aria-label={`Design for ${persona.name}`}
+                      />
+                    )}
+                    {editing === index ? (
+                      <input
+                        className={`${inputClass} font-semibold`}
+                        value={persona.name}
+                        onChange={event => updatePersona(index, { name: event.target.value })}
+                      />
+                    ) : (
+                      <div>
+                        <h4 className="font-semibold">{persona.name}</h4>
+                        <p className="text-xs text-muted-foreground">
+                          {Object.values(persona.demographics).filter(Boolean).join(' · ')}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {persona.willingnessToPay !== undefined && editing !== index && (
+                      <Badge variant="outline" className="text-xs">Pays up to ${persona.willingnessToPay}/mo</Badge>
+                    )}
+                    {editable && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => setEditing(editing === index ? null : index)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => removePersona(index)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {editing === index ? (
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-2">
+                      {(Object.keys(DEMOGRAPHIC_FIELDS) as TextField[]).map(field => (
+                        <label key={field} className="text-xs text-muted-foreground">
+                          {DEMOGRAPHIC_FIELDS[field]}
+                          <input
+                            className={inputClass}
+                            value={persona.demographics[field]}
+                            onChange={event => updatePersona(index, {
+                              demographics: { ...persona.demographics, [field]: event.target.value }
+                            })}
+                          />
+                        </label>
+                      ))}
+                      <label className="text-xs text-muted-foreground">
+                        Pays up to ($/month)
+                        <input
+                          type="number"
+                          min={0}
+                          className={inputClass}
+                          value={persona.willingnessToPay ?? ''}
+                          onChange={event => updatePersona(index, {
+                            willingnessToPay: event.target.value === '' ? undefined : Math.max(0, Number(event.target.value))
+                          })}
+                        />
+                      </label>
+                    </div>
+                    <label className="block text-xs text-muted-foreground">
+                      Lifestyle
+                      <input
+                        className={inputClass}
+                        value={persona.psychographics.lifestyle}
+                        onChange={event => updatePersona(index, {
+                          psychographics: { ...persona.psychographics, lifestyle: event.target.value }
+                        })}
+                      />
+                    </label>
+                    {LIST_FIELDS.map(field => (
+                      <label key={field.label} className="block text-xs text-muted-foreground">
+                        {field.label} (one per line)
+                        <Textarea
+                          size="sm"
+                          value={field.get(persona).join('\n')}
+                          onChange={event => updatePersona(index, field.set(persona, event.target.value.split('\n')))}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                ) : (
+                  <>
+                    <p className="text-sm text-muted-foreground">{persona.psychographics.lifestyle}</p>
+                    {!compact && (
+                      <div className="grid grid-cols-2 gap-3">
+                        {LIST_FIELDS.map(field => {
+                          const items = field.get(persona).filter(item => item.trim())
+                          return items.length > 0 && (
+                            <div key={field.label}>
+                              <h5 className="text-xs font-medium text-muted-foreground mb-1">{field.label}</h5>
+                              <ul className="text-sm space-y-0.5">
+                                {items.map((item, itemIndex) => (
+                                  <li key={itemIndex}>{item}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          )
+                        })}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function withoutBlankLines(persona: UserPersona): UserPersona {
+  return LIST_FIELDS.reduce(
+    (cleaned, field) => ({ ...cleaned, ...field.set(cleaned, field.get(cleaned).filter(item => item.trim())) }),
+    persona
+  )
+}
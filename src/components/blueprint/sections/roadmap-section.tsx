@@ -1,11 +1,13 @@
 "use client"
 
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Button } from '@/components/ui/button'
-import { Roadmap, Priority, Phase, Task } from '@/types'
+import { Roadmap, RoadmapSchedule, Priority, Phase, Task } from '@/types'
+import { reschedule, scheduleRoadmap } from '@/lib/roadmap/scheduler'
+import type { CollaborationState } from '@/hooks/use-collaboration'
 import { 
   Calendar, 
   Clock, 
@@ -18,18 +20,98 @@ import {
   Flag,
   ArrowRight,
   ChevronDown,
-  ChevronRight
+  ChevronRight,
+  GanttChart,
+  Save
 } from 'lucide-react'
 
 interface RoadmapSectionProps {
   roadmap: Roadmap
+  projectId?: string
+  readOnly?: boolean
   compact?: boolean
+  /** Called once a new start date or team size has been saved */
+  onRescheduled?: () => void
+  /** Saves through the live editing session instead of the API */
+  liveUpdate?: CollaborationState['update']
 }
 
-export function RoadmapSection({ roadmap, compact = false }: RoadmapSectionProps) {
+/** A date as the value of a date input, in local time */
+const toDateInput = (date: Date | string) => {
+  const value = new Date(date)
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`
+}
+
+export function RoadmapSection({
+  roadmap,
+  projectId,
+  readOnly = false,
+  compact = false,
+  onRescheduled,
+  liveUpdate
+}: RoadmapSectionProps) {
   const [expandedPhases, setExpandedPhases] = useState<Set<string>>(new Set())
   const [selectedTask, setSelectedTask] = useState<string | null>(null)
 
+  // Roadmaps saved before scheduling was added are scheduled on the fly
+  const schedule = useMemo(() => roadmap.schedule ?? scheduleRoadmap(roadmap), [roadmap])
+  const scheduledTasks = useMemo(() => new Map(schedule.tasks.map(task => [task.taskId, task])), [schedule])
+  const criticalTasks = useMemo(() => new Set(schedule.criticalPath), [schedule])
+
+  const [base, setBase] = useState(schedule)
+  const [startDate, setStartDate] = useState(toDateInput(schedule.startDate))
+  const [teamSize, setTeamSize] = useState(schedule.teamSize)
+  const [isSaving, setIsSaving] = useState(false)
+  const isDirty = startDate !== toDateInput(base.startDate) || teamSize !== base.teamSize
+  const editable = !readOnly && !!projectId
+
+  const applySchedule = (saved: RoadmapSchedule) => {
+    setBase(saved)
+    setStartDate(toDateInput(saved.startDate))
+    setTeamSize(saved.teamSize)
+  }
+
+  // A schedule saved elsewhere, e.g. by someone else in the session, replaces unchanged settings
+  if (schedule !== base && !isDirty) {
+    applySchedule(schedule)
+  }
+
+  const handleReschedule = async () => {
+    // Date inputs give a calendar day, which is midnight local time rather than UTC
+    const options = { startDate: new Date(`${startDate}T00:00`), teamSize }
+    if (liveUpdate) {
+      const rescheduled = reschedule(roadmap, options)
+      liveUpdate(['roadmap'], rescheduled, roadmap)
+      applySchedule(rescheduled.schedule!)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/roadmap`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(options),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      applySchedule(result.data.roadmap.schedule)
+      onRescheduled?.()
+    } catch (error) {
+      console.error('Rescheduling roadmap failed:', error)
+      alert('Failed to reschedule the roadmap. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
   const togglePhaseExpansion = (phaseId: string) => {
     const newExpanded = new Set(expandedPhases)
     if (newExpanded.has(phaseId)) {
@@ -77,6 +159,16 @@ export function RoadmapSection({ roadmap, compact = false }: RoadmapSectionProps
     return `${weeks}w`
   }
 
+  // Matches the scheduler, which falls back to names for generated tasks without ids
+  const taskKey = (task: Task) => task.id || task.name
+
+  const formatDays = (days: number) => {
+    const rounded = Math.round(days * 10) / 10
+    return `${rounded} day${rounded === 1 ? '' : 's'}`
+  }
+
+  const formatDate = (date: Date | string) => new Date(date).toLocaleDateString()
+
   const calculatePhaseProgress = (phase: Phase) => {
     const completedTasks = phase.tasks.filter(task => task.status === 'completed').length
     return phase.tasks.length > 0 ? (completedTasks / phase.tasks.length) * 100 : 0
@@ -135,6 +227,42 @@ export function RoadmapSection({ roadmap, compact = false }: RoadmapSectionProps
               {formatDuration(totalCompletedHours)} of {formatDuration(roadmap.totalEstimate)} completed
             </div>
           </div>
+
+          {schedule.tasks.length > 0 && (
+            <div className="mt-4 text-sm text-muted-foreground">
+              Scheduled {formatDate(schedule.startDate)} – {formatDate(schedule.endDate)}: {formatDays(schedule.durationDays)} of
+              work for a team of {schedule.teamSize}, {schedule.criticalPath.length} tasks on the critical path
+            </div>
+          )}
+
+          {editable && (
+            <div className="mt-4 flex flex-wrap items-end gap-3 text-sm">
+              <label className="flex flex-col gap-1">
+                <span className="text-muted-foreground">Start date</span>
+                <input
+                  type="date"
+                  className="rounded border bg-background px-2 py-1"
+                  value={startDate}
+                  onChange={event => setStartDate(event.target.value)}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-muted-foreground">Team size</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  className="w-20 rounded border bg-background px-2 py-1"
+                  value={teamSize}
+                  onChange={event => setTeamSize(Math.max(1, Math.floor(Number(event.target.value) || 1)))}
+                />
+              </label>
+              <Button size="sm" onClick={handleReschedule} disabled={!isDirty || !startDate || isSaving}>
+                <Save className="h-4 w-4 mr-1" />
+                {isSaving ? 'Saving...' : 'Reschedule'}
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -211,6 +339,7 @@ export function RoadmapSection({ roadmap, compact = false }: RoadmapSectionProps
                             key={task.id} 
                             className={`
                               border rounded-lg p-3 bg-background transition-all cursor-pointer
+                              ${criticalTasks.has(taskKey(task)) ? 'border-red-300' : ''}
                               ${selectedTask === task.id ? 'ring-2 ring-primary ring-offset-2' : ''}
                             `}
                             onClick={() => setSelectedTask(selectedTask === task.id ? null : task.id)}
@@ -229,6 +358,9 @@ export function RoadmapSection({ roadmap, compact = false }: RoadmapSectionProps
                                     <Badge className={getPriorityColor(task.priority)}>
                                       {task.priority}
                                     </Badge>
+                                    {criticalTasks.has(taskKey(task)) && (
+                                      <Badge className="bg-red-100 text-red-800 border-red-200">Critical path</Badge>
+                                    )}
                                   </div>
                                   <p className="text-sm text-muted-foreground mb-2">{task.description}</p>
                                   
@@ -247,6 +379,13 @@ export function RoadmapSection({ roadmap, compact = false }: RoadmapSectionProps
                                     {task.dependencies.length > 0 && (
                                       <span>Dependencies: {task.dependencies.length}</span>
                                     )}
+                                    {scheduledTasks.has(taskKey(task)) && (
+                                      <span className="flex items-center gap-1">
+                                        <Calendar className="h-3 w-3" />
+                                        {formatDate(scheduledTasks.get(taskKey(task))!.startDate)} – {formatDate(scheduledTasks.get(taskKey(task))!.endDate)}
+                                        {!criticalTasks.has(taskKey(task)) && ` (${formatDays(scheduledTasks.get(taskKey(task))!.slack)} slack)`}
+                                      </span>
+                                    )}
                                   </div>
                                 </div>
                               </div>
@@ -290,6 +429,88 @@ export function RoadmapSection({ roadmap, compact = false }: RoadmapSectionProps
         </CardContent>
       </Card>
 
+      {/* Gantt Chart */}
+      {!compact && schedule.tasks.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GanttChart className="h-5 w-5 text-primary" />
+              Schedule
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {schedule.issues.length > 0 && (
+              <div className="space-y-1 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+                {schedule.issues.map((issue, index) => (
+                  <div key={index} className="flex items-start gap-2">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                    <span>{issue.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              {roadmap.phases.map(phase => {
+                const phaseTasks = phase.tasks.filter(task => scheduledTasks.has(taskKey(task)))
+                if (phaseTasks.length === 0) {
+                  return null
+                }
+
+                return (
+                  <div key={phase.id} className="space-y-1">
+                    <div className="text-sm font-medium">{phase.name}</div>
+                    {phaseTasks.map(task => {
+                      const scheduled = scheduledTasks.get(taskKey(task))!
+                      const span = Math.max(schedule.durationDays, 1)
+                      const left = (scheduled.earliestStart / span) * 100
+                      const width = ((scheduled.earliestFinish - scheduled.earliestStart) / span) * 100
+                      const slack = (scheduled.slack / span) * 100
+
+                      return (
+                        <div key={task.id} className="flex items-center gap-3 text-xs">
+                          <div className="w-40 truncate text-muted-foreground" title={task.name}>{task.name}</div>
+                          <div className="relative h-4 flex-1 rounded bg-muted/30">
+                            <div
+                              className={`absolute top-0 h-4 rounded ${scheduled.critical ? 'bg-red-500' : 'bg-primary'}`}
+                              style={{ left: `${left}%`, width: `${Math.max(width, 0.5)}%` }}
+                              title={`${formatDate(scheduled.startDate)} – ${formatDate(scheduled.endDate)}`}
+                            />
+                            {slack > 0 && (
+                              <div
+                                className="absolute top-0 h-4 rounded-r border border-dashed border-primary/40"
+                                style={{ left: `${left + width}%`, width: `${slack}%` }}
+                                title={`${formatDays(scheduled.slack)} slack`}
+                              />
+                            )}
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{formatDate(schedule.startDate)}</span>
+              <div className="flex items-center gap-4">
+                <span className="flex items-center gap-1">
+                  <span className="inline-block h-2 w-3 rounded bg-red-500" /> Critical path
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="inline-block h-2 w-3 rounded bg-primary" /> Scheduled
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="inline-block h-2 w-3 rounded border border-dashed border-primary/40" /> Slack
+                </span>
+              </div>
+              <span>{formatDate(schedule.endDate)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Dependencies Overview */}
       {!compact && roadmap.dependencies.length > 0 && (
         <Card>
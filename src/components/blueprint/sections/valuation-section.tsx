@@ -0,0 +1,356 @@
+"use client"
+
+import React, { useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ComparableCompany, ComprehensiveFinancialModel } from '@/types'
+import {
+  blendedValuation,
+  DEFAULT_COMPARABLES,
+  planFunding,
+  REVENUE_MULTIPLE,
+  valueBusiness,
+  withValuation
+} from '@/lib/financial/valuation'
+import type { CollaborationState } from '@/hooks/use-collaboration'
+import {
+  Banknote,
+  Building2,
+  Calculator,
+  Plus,
+  Save,
+  Trash2,
+  TrendingUp
+} from 'lucide-react'
+
+interface ValuationSectionProps {
+  financialModel: ComprehensiveFinancialModel
+  projectId?: string
+  readOnly?: boolean
+  compact?: boolean
+  /** Saves through the live editing session instead of the API */
+  liveUpdate?: CollaborationState['update']
+}
+
+export function ValuationSection({
+  financialModel,
+  projectId,
+  readOnly = false,
+  compact = false,
+  liveUpdate
+}: ValuationSectionProps) {
+  const [base, setBase] = useState(financialModel)
+  const [comparables, setComparables] = useState<ComparableCompany[]>(
+    financialModel.valuation?.comparables.companies ?? DEFAULT_COMPARABLES
+  )
+  const [isDirty, setIsDirty] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Comps saved elsewhere, e.g. by someone else in the session, replace an unchanged table
+  if (financialModel !== base && !isDirty) {
+    setBase(financialModel)
+    setComparables(financialModel.valuation?.comparables.companies ?? DEFAULT_COMPARABLES)
+  }
+
+  // Recomputed from the comps table so edits show up immediately
+  const valuation = useMemo(() => valueBusiness(financialModel, { comparables }), [financialModel, comparables])
+  const blended = blendedValuation(valuation)
+  const funding = useMemo(() => planFunding(financialModel, blended), [financialModel, blended])
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1
+    }).format(amount)
+  }
+
+  const updateComparable = (index: number, changes: Partial<ComparableCompany>) => {
+    setComparables(comparables.map((company, i) => i === index ? { ...company, ...changes } : company))
+    setIsDirty(true)
+  }
+
+  const addComparable = () => {
+    setComparables([...comparables, { name: 'New comparable', metrics: { [REVENUE_MULTIPLE]: 8 }, adjustments: {}, weight: 1 }])
+    setIsDirty(true)
+  }
+
+  const removeComparable = (index: number) => {
+    setComparables(comparables.filter((_, i) => i !== index))
+    setIsDirty(true)
+  }
+
+  const handleSave = async () => {
+    if (liveUpdate) {
+      const valued = withValuation(financialModel, { comparables })
+      liveUpdate(['financialModel', 'valuation'], valued.valuation, base.valuation)
+      liveUpdate(['financialModel', 'funding'], valued.funding, base.funding)
+      setIsDirty(false)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/valuation`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ comparables }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        setIsDirty(false)
+      } else {
+        throw new Error(result.error)
+      }
+    } catch (error) {
+      console.error('Saving comparables failed:', error)
+      alert('Failed to save the comparables. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!financialModel.revenue.projections.some(month => month.costs !== undefined)) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-sm text-muted-foreground">
+          Regenerate the financial model to value this business; it was created before projections included costs.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const editable = !readOnly && !!projectId
+
+  return (
+    <div className="space-y-6">
+      {/* Valuation Summary */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5 text-primary" />
+            Valuation
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="text-center p-4 border rounded-lg">
+              <div className="text-2xl font-bold text-primary">{formatCurrency(blended)}</div>
+              <div className="text-sm text-muted-foreground">Blended valuation</div>
+            </div>
+            {valuation.methods.map(method => (
+              <div key={method.name} className="text-center p-4 border rounded-lg">
+                <div className="text-2xl font-bold">{formatCurrency(method.value)}</div>
+                <div className="text-sm text-muted-foreground">{method.name}</div>
+                <Badge variant="outline" className="mt-2 text-xs">
+                  {Math.round(method.confidence * 100)}% confidence
+                </Badge>
+                <div className="text-xs text-muted-foreground mt-2">{method.assumptions.join(' · ')}</div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Discounted Cash Flow */}
+      {!compact && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calculator className="h-5 w-5 text-primary" />
+              Discounted Cash Flow
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {valuation.dcf.cashFlows.map((flow, year) => (
+                <div key={year} className="p-3 bg-muted/30 rounded">
+                  <div className="text-xs text-muted-foreground">Year {year + 1} cash flow</div>
+                  <div className={`font-bold ${flow >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(flow)}</div>
+                </div>
+              ))}
+              <div className="p-3 bg-muted/30 rounded">
+                <div className="text-xs text-muted-foreground">Terminal value</div>
+                <div className="font-bold">{formatCurrency(valuation.dcf.terminalValue)}</div>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Discounted at {(valuation.dcf.discountRate * 100).toFixed(0)}% a year. No terminal value is counted while the
+              business is still losing money in the last projected year.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Comparables */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5 text-primary" />
+              Comparables
+            </CardTitle>
+            {editable && (
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={addComparable}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving}>
+                  <Save className="h-4 w-4 mr-1" />
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-2 font-medium">Company</th>
+                <th className="py-2 font-medium">ARR multiple</th>
+                <th className="py-2 font-medium">Adjustment</th>
+                <th className="py-2 font-medium">Weight</th>
+                {editable && <th />}
+              </tr>
+            </thead>
+            <tbody>
+              {comparables.map((company, index) => {
+                const adjustment = Object.values(company.adjustments).reduce((sum, value) => sum + value, 0)
+                return (
+                  <tr key={index} className="border-t">
+                    <td className="py-2 pr-2">
+                      {editable ? (
+                        <input
+                          className="w-full rounded border bg-background px-2 py-1"
+                          value={company.name}
+                          onChange={event => updateComparable(index, { name: event.target.value })}
+                        />
+                      ) : company.name}
+                    </td>
+                    <td className="py-2 pr-2">
+                      {editable ? (
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          className="w-20 rounded border bg-background px-2 py-1"
+                          value={company.metrics[REVENUE_MULTIPLE] ?? 0}
+                          onChange={event => updateComparable(index, {
+                            metrics: { ...company.metrics, [REVENUE_MULTIPLE]: Number(event.target.value) }
+                          })}
+                        />
+                      ) : `${company.metrics[REVENUE_MULTIPLE] ?? 0}x`}
+                    </td>
+                    <td className="py-2 pr-2">
+                      {editable ? (
+                        <input
+                          type="number"
+                          step={5}
+                          className="w-20 rounded border bg-background px-2 py-1"
+                          value={Math.round(adjustment * 100)}
+                          onChange={event => updateComparable(index, {
+                            adjustments: { adjustment: Number(event.target.value) / 100 }
+                          })}
+                        />
+                      ) : `${Math.round(adjustment * 100)}%`}
+                      {editable && <span className="ml-1 text-muted-foreground">%</span>}
+                    </td>
+                    <td className="py-2 pr-2">
+                      {editable ? (
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          className="w-16 rounded border bg-background px-2 py-1"
+                          value={company.weight}
+                          onChange={event => updateComparable(index, { weight: Number(event.target.value) })}
+                        />
+                      ) : company.weight}
+                    </td>
+                    {editable && (
+                      <td className="py-2 text-right">
+                        <Button variant="ghost" size="sm" onClick={() => removeComparable(index)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      {/* Funding Plan */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Banknote className="h-5 w-5 text-primary" />
+            Funding Plan
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {funding.stages.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              The projection never runs out of cash, so no outside funding is needed.
+            </p>
+          ) : (
+            <>
+              {funding.stages.map((stage, index) => (
+                <div key={index} className="border rounded-lg p-4">
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <h4 className="font-semibold">{stage.name}</h4>
+                      <div className="text-sm text-muted-foreground">
+                        {stage.timeline} · {funding.sources[index]?.type}
+                      </div>
+                    </div>
+                    <div className="text-xl font-bold">{formatCurrency(stage.amount)}</div>
+                  </div>
+                  <ul className="text-sm text-muted-foreground space-y-1">
+                    {stage.purpose.map((purpose, i) => <li key={i}>• {purpose}</li>)}
+                  </ul>
+                  {stage.milestones.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {stage.milestones.map((milestone, i) => (
+                        <Badge key={i} variant="outline" className="text-xs">{milestone}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Pre-money</div>
+                  <div className="font-bold">{formatCurrency(funding.terms.valuation.pre)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Post-money</div>
+                  <div className="font-bold">{formatCurrency(funding.terms.valuation.post)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Equity sold</div>
+                  <div className="font-bold">{(funding.terms.equity * 100).toFixed(1)}%</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Closing</div>
+                  <div className="font-bold">{funding.timeline.closing}</div>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
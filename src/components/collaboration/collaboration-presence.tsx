@@ -0,0 +1,63 @@
+"use client"
+
+import React from 'react'
+import { Badge } from '@/components/ui/badge'
+import type { Presence } from '@/lib/collaboration/protocol'
+import type { CollaborationStatus } from '@/hooks/use-collaboration'
+import { Radio, WifiOff } from 'lucide-react'
+
+interface CollaborationPresenceProps {
+  status: CollaborationStatus
+  peers: Presence[]
+  /** Names sections in peers' tooltips */
+  sectionLabels?: Record<string, string>
+}
+
+/** How many avatars are shown before the rest are counted */
+const MAX_AVATARS = 4
+
+function initials(name: string): string {
+  return name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?'
+}
+
+/** The people editing alongside you, and whether your edits are reaching them */
+export function CollaborationPresence({ status, peers, sectionLabels = {} }: CollaborationPresenceProps) {
+  if (status === 'disabled') return null
+
+  // One avatar per person, however many tabs they have open
+  const people = [...new Map(peers.map(peer => [peer.userId, peer])).values()]
+
+  return (
+    <div className="flex items-center gap-2">
+      {status === 'connected' ? (
+        <Badge variant="outline" className="flex items-center gap-1">
+          <Radio className="h-3 w-3 text-green-500" />
+          Live
+        </Badge>
+      ) : (
+        <Badge variant="outline" className="flex items-center gap-1 text-muted-foreground">
+          <WifiOff className="h-3 w-3" />
+          {status === 'connecting' ? 'Connecting...' : 'Offline: edits are sent on reconnecting'}
+        </Badge>
+      )}
+
+      <div className="flex -space-x-2">
+        {people.slice(0, MAX_AVATARS).map(peer => (
+          <div
+            key={peer.userId}
+            title={`${peer.name}${peer.section ? ` · ${sectionLabels[peer.section] || peer.section}` : ''}${peer.role === 'viewer' ? ' (viewing)' : ''}`}
+            className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background text-xs font-semibold text-white"
+            style={{ backgroundColor: peer.color }}
+          >
+            {initials(peer.name)}
+          </div>
+        ))}
+        {people.length > MAX_AVATARS && (
+          <div className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background bg-muted text-xs">
+            +{people.length - MAX_AVATARS}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
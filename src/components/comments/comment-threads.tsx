@@ -0,0 +1,271 @@
+"use client"
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Blueprint } from '@/types'
+import { BlueprintSection } from '@/types/ai-services'
+import { listCommentAnchors } from '@/lib/comments/anchors'
+import type { CommentThreadView } from '@/lib/comments/threads'
+import { CheckCircle2, MessageSquare, RotateCcw } from 'lucide-react'
+
+interface CommentThreadsProps {
+  blueprint: Partial<Blueprint>
+  section: BlueprintSection
+  /** Where threads are written: the project's comments, or a share link's */
+  endpoint: string
+  /** Threads already loaded, as the share page is; otherwise they are fetched from `endpoint` */
+  initialThreads?: CommentThreadView[]
+  /** Sent with every request, e.g. a share link's password */
+  requestBody?: Record<string, unknown>
+  /** Ask for a name, for viewers who are not signed in */
+  askForName?: boolean
+}
+
+type StatusFilter = 'open' | 'resolved'
+
+export function CommentThreads({
+  blueprint,
+  section,
+  endpoint,
+  initialThreads,
+  requestBody,
+  askForName = false
+}: CommentThreadsProps) {
+  const [threads, setThreads] = useState<CommentThreadView[]>(initialThreads ?? [])
+  const [filter, setFilter] = useState<StatusFilter>('open')
+  const [anchorPath, setAnchorPath] = useState('')
+  const [newComment, setNewComment] = useState('')
+  const [replies, setReplies] = useState<Record<string, string>>({})
+  const [authorName, setAuthorName] = useState('')
+  const [busy, setBusy] = useState<string | null>(null)
+
+  const anchors = useMemo(
+    () => listCommentAnchors(blueprint).filter(anchor => anchor.section === section),
+    [blueprint, section]
+  )
+  const anchorGroups = useMemo(() => [...new Set(anchors.map(anchor => anchor.group))], [anchors])
+  const anchorPaths = useMemo(() => new Set(anchors.map(anchor => anchor.path)), [anchors])
+
+  const fetchThreads = useCallback(async () => {
+    try {
+      const response = await fetch(endpoint)
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      setThreads(result.data)
+    } catch (error) {
+      console.error('Error fetching comments:', error)
+    }
+  }, [endpoint])
+
+  useEffect(() => {
+    if (!initialThreads) fetchThreads()
+  }, [initialThreads, fetchThreads])
+
+  const sectionThreads = threads.filter(thread => thread.section === section)
+  const visibleThreads = sectionThreads.filter(thread => thread.status === filter)
+  const openCount = sectionThreads.filter(thread => thread.status === 'open').length
+  const needsName = askForName && !authorName.trim()
+
+  const send = async (url: string, method: 'POST' | 'PATCH', body: Record<string, unknown>, busyKey: string) => {
+    setBusy(busyKey)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...requestBody,
+          ...(askForName ? { authorName: authorName.trim() } : {}),
+          ...body
+        })
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      const updated: CommentThreadView = result.data
+      setThreads(prev => prev.some(thread => thread.id === updated.id)
+        ? prev.map(thread => thread.id === updated.id ? updated : thread)
+        : [...prev, updated])
+      return true
+    } catch (error) {
+      console.error('Error saving comment:', error)
+      alert(error instanceof Error ? error.message : 'Failed to save comment')
+      return false
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleCreate = async () => {
+    const anchor = anchors.find(item => item.path === anchorPath)
+    if (!anchor || !newComment.trim()) return
+
+    const saved = await send(endpoint, 'POST', {
+      section: anchor.section,
+      path: anchor.path,
+      label: anchor.label,
+      body: newComment.trim()
+    }, 'new')
+    if (saved) {
+      setNewComment('')
+      setFilter('open')
+    }
+  }
+
+  const handleReply = async (threadId: string) => {
+    const text = replies[threadId]?.trim()
+    if (!text) return
+
+    const saved = await send(`${endpoint}/${threadId}`, 'POST', { body: text }, threadId)
+    if (saved) {
+      setReplies(prev => ({ ...prev, [threadId]: '' }))
+    }
+  }
+
+  const handleStatus = (threadId: string, status: StatusFilter) =>
+    send(`${endpoint}/${threadId}`, 'PATCH', { status }, threadId)
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <MessageSquare className="h-4 w-4" />
+            Comments
+            {openCount > 0 && <Badge variant="secondary">{openCount} open</Badge>}
+          </CardTitle>
+          <div className="flex gap-1">
+            {(['open', 'resolved'] as const).map(status => (
+              <Button
+                key={status}
+                size="sm"
+                variant={filter === status ? 'default' : 'ghost'}
+                onClick={() => setFilter(status)}
+              >
+                {status === 'open' ? 'Open' : 'Resolved'}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {askForName && (
+          <Input
+            value={authorName}
+            onChange={(e) => setAuthorName(e.target.value)}
+            placeholder="Your name, shown with your comments"
+            maxLength={80}
+          />
+        )}
+
+        {visibleThreads.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {filter === 'open' ? 'No open comments on this section.' : 'No resolved comments on this section.'}
+          </p>
+        )}
+
+        {visibleThreads.map(thread => (
+          <div key={thread.id} className="border rounded-lg p-3 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-sm font-medium">
+                {thread.label}
+                {!anchorPaths.has(thread.path) && (
+                  <span className="ml-2 text-xs text-muted-foreground">(no longer in the blueprint)</span>
+                )}
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={busy === thread.id || needsName}
+                onClick={() => handleStatus(thread.id, thread.status === 'open' ? 'resolved' : 'open')}
+                className="flex items-center gap-1"
+              >
+                {thread.status === 'open'
+                  ? <><CheckCircle2 className="h-4 w-4" /> Resolve</>
+                  : <><RotateCcw className="h-4 w-4" /> Reopen</>}
+              </Button>
+            </div>
+
+            {thread.comments.map(comment => (
+              <div key={comment.id} className="text-sm">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">{comment.authorName}</span>
+                  {comment.viaShareLink && <Badge variant="outline" className="text-xs">via share link</Badge>}
+                  <span>{new Date(comment.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="mt-1 whitespace-pre-wrap">{highlightMentions(comment.body)}</p>
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              <Textarea
+                value={replies[thread.id] ?? ''}
+                onChange={(e) => setReplies(prev => ({ ...prev, [thread.id]: e.target.value }))}
+                placeholder={thread.status === 'resolved' ? 'Reply to reopen...' : 'Reply...'}
+                rows={1}
+                className="min-h-[40px]"
+              />
+              <Button
+                size="sm"
+                onClick={() => handleReply(thread.id)}
+                disabled={busy === thread.id || needsName || !replies[thread.id]?.trim()}
+              >
+                Reply
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {anchors.length > 0 && (
+          <div className="border-t pt-4 space-y-2">
+            <select
+              value={anchorPath}
+              onChange={(e) => setAnchorPath(e.target.value)}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="">Comment on...</option>
+              {anchorGroups.map(group => (
+                <optgroup key={group} label={group}>
+                  {anchors.filter(anchor => anchor.group === group).map(anchor => (
+                    <option key={anchor.path} value={anchor.path}>{anchor.label}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+            <Textarea
+              value={newComment}
+              onChange={(e) => setNewComment(e.target.value)}
+              placeholder="Add a comment. Use @name to mention someone."
+              rows={3}
+            />
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={handleCreate}
+                disabled={busy === 'new' || needsName || !anchorPath || !newComment.trim()}
+              >
+                {busy === 'new' ? 'Posting...' : 'Comment'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function highlightMentions(body: string): React.ReactNode[] {
+  return body.split(/(@[\w][\w.-]*)/g).map((part, index) =>
+    part.startsWith('@')
+      ? <span key={index} className="font-medium text-primary">{part}</span>
+      : part
+  )
+}
@@ -0,0 +1,226 @@
+"use client"
+
+import { useMemo, useState } from 'react'
+import { Download, RotateCcw, Save } from 'lucide-react'
+import { ExportFormat } from '@/types'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import { InvestorReportData, NARRATIVE_FIELDS, NarrativeField, ReportNarrative } from '@/lib/investor-report/builder'
+import { ReportBlock, reportToBlocks } from '@/lib/investor-report/document'
+import { chartToSVG } from '@/lib/pitch-deck/charts'
+import { deckTheme } from '@/lib/pitch-deck/themes'
+import type { CollaborationState } from '@/hooks/use-collaboration'
+
+interface InvestorReportEditorProps {
+  projectId: string
+  projectName: string
+  data: InvestorReportData
+  onSaved: (data: InvestorReportData) => void
+  /** Saves through the live editing session instead of the API */
+  liveUpdate?: CollaborationState['update']
+}
+
+const FIELDS = Object.keys(NARRATIVE_FIELDS) as NarrativeField[]
+
+/** Only fields that differ from the generated text are stored as edits */
+function editsOf(narrative: Record<NarrativeField, string>, generated: Record<NarrativeField, string>): ReportNarrative {
+  return Object.fromEntries(
+    FIELDS.filter(field => narrative[field].trim() !== '' && narrative[field].trim() !== generated[field].trim())
+      .map(field => [field, narrative[field]])
+  )
+}
+
+export function InvestorReportEditor({ projectId, projectName, data, onSaved, liveUpdate }: InvestorReportEditorProps) {
+  const [base, setBase] = useState(data)
+  const [draft, setDraft] = useState(data.narrative)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isExporting, setIsExporting] = useState<ExportFormat | null>(null)
+
+  const isDirty = FIELDS.some(field => draft[field] !== base.narrative[field])
+  const blocks = useMemo(() => reportToBlocks(data.report, `${projectName}: Investor Report`), [data.report, projectName])
+
+  // Text saved elsewhere, e.g. by someone else in the session, replaces an unchanged draft
+  if (data !== base && !isDirty) {
+    setBase(data)
+    setDraft(data.narrative)
+  }
+
+  const handleSave = async () => {
+    const narrative = editsOf(draft, data.generated)
+    if (liveUpdate) {
+      liveUpdate(['reportNarrative'], narrative, editsOf(base.narrative, base.generated))
+      setBase({ ...base, narrative: draft })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/investor-report`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ narrative }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      setBase(result.data)
+      setDraft(result.data.narrative)
+      onSaved(result.data)
+    } catch (error) {
+      console.error('Saving report failed:', error)
+      alert('Saving the report failed. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(format)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/export`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ format, document: 'investor-report' }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Export failed')
+      }
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${projectName.replace(/[^a-zA-Z0-9]/g, '_')}_investor_report.${format === ExportFormat.MARKDOWN ? 'md' : format.toLowerCase()}`
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+    } catch (error) {
+      console.error('Export failed:', error)
+      alert('Export failed. Please try again.')
+    } finally {
+      setIsExporting(null)
+    }
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card className="p-6 space-y-5">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Narrative</h2>
+          <Button onClick={handleSave} disabled={!isDirty || isSaving} size="sm">
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          These paragraphs start from your blueprint. Rewrite any of them; the numbers, risks and funding
+          tables always follow the blueprint.
+        </p>
+        {FIELDS.map((field) => (
+          <div key={field}>
+            <div className="flex items-center justify-between mb-1">
+              <label htmlFor={`narrative-${field}`} className="text-sm font-medium">
+                {NARRATIVE_FIELDS[field]}
+              </label>
+              {draft[field] !== data.generated[field] && (
+                <button
+                  onClick={() => setDraft(prev => ({ ...prev, [field]: data.generated[field] }))}
+                  className="flex items-center text-xs text-muted-foreground hover:text-foreground"
+                >
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Use generated text
+                </button>
+              )}
+            </div>
+            <Textarea
+              id={`narrative-${field}`}
+              value={draft[field]}
+              onChange={(e) => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+              size={field === 'executiveSummary' ? 'lg' : 'default'}
+            />
+          </div>
+        ))}
+      </Card>
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {[ExportFormat.PDF, ExportFormat.HTML, ExportFormat.MARKDOWN].map((format) => (
+            <Button
+              key={format}
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport(format)}
+              disabled={isExporting !== null || isDirty}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {isExporting === format ? 'Exporting...' : format}
+            </Button>
+          ))}
+          {isDirty && <span className="text-xs text-muted-foreground">Save your changes to export them</span>}
+        </div>
+        <Card className="p-6 space-y-3 max-h-[80vh] overflow-y-auto">
+          {blocks.map((block, index) => (
+            <ReportBlockView key={index} block={block} />
+          ))}
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+function ReportBlockView({ block }: { block: ReportBlock }) {
+  switch (block.type) {
+    case 'heading':
+      if (block.level === 1) return <h2 className="text-2xl font-bold border-b pb-2">{block.text}</h2>
+      if (block.level === 2) return <h3 className="text-xl font-semibold pt-4">{block.text}</h3>
+      return <h4 className="font-semibold">{block.text}</h4>
+    case 'paragraph':
+      return <p className="text-sm leading-relaxed">{block.text}</p>
+    case 'list':
+      return (
+        <ul className="list-disc pl-5 text-sm space-y-1">
+          {block.items.map((item, index) => (
+            <li key={index}>{item}</li>
+          ))}
+        </ul>
+      )
+    case 'table':
+      return (
+        <table className="w-full text-xs border-collapse">
+          <thead>
+            <tr>
+              {block.headers.map((header, index) => (
+                <th key={index} className="text-left bg-muted px-2 py-1">{header}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {block.rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className="border-b">
+                {row.map((cell, cellIndex) => (
+                  <td key={cellIndex} className="px-2 py-1 align-top">{cell}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )
+    case 'chart':
+      return (
+        <figure>
+          <div className="[&_svg]:w-full [&_svg]:h-auto" dangerouslySetInnerHTML={{ __html: chartToSVG(block.chart, deckTheme()) }} />
+          <figcaption className="text-xs text-center text-muted-foreground">{block.chart.title}</figcaption>
+        </figure>
+      )
+  }
+}
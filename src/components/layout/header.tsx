@@ -4,6 +4,7 @@ import { useSession, signOut } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
+import { NotificationMenu } from './notification-menu'
 
 export function Header() {
   const { data: session, status } = useSession()
@@ -49,6 +50,7 @@ export function Header() {
               <div className="w-8 h-8 bg-gray-200 rounded-full animate-pulse"></div>
             ) : session ? (
               <div className="flex items-center space-x-3">
+                <NotificationMenu />
                 <span className="text-sm text-gray-600">
                   {session.user?.name || session.user?.email}
                 </span>
@@ -0,0 +1,117 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Bell } from 'lucide-react'
+
+interface NotificationItem {
+  id: string
+  title: string
+  body: string | null
+  link: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+/** How often unread notifications are checked for, in milliseconds */
+const POLL_INTERVAL = 60000
+
+export function NotificationMenu() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [notifications, setNotifications] = useState<NotificationItem[]>([])
+  const [unread, setUnread] = useState(0)
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/notifications')
+      const result = await response.json()
+      if (!result.success) return
+
+      setNotifications(result.data.notifications)
+      setUnread(result.data.unread)
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [fetchNotifications])
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await fetch('/api/user/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids })
+      })
+      await fetchNotifications()
+    } catch (error) {
+      console.error('Error updating notifications:', error)
+    }
+  }
+
+  const handleOpen = async (notification: NotificationItem) => {
+    setOpen(false)
+    if (!notification.readAt) await markRead([notification.id])
+    if (notification.link) router.push(notification.link)
+  }
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(!open)}
+        className="relative"
+        aria-label="Notifications"
+      >
+        <Bell className="h-4 w-4" />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] rounded-full bg-red-500 px-1 text-xs text-white">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 z-50 mt-2 w-80 rounded-lg border bg-white shadow-lg">
+          <div className="flex items-center justify-between border-b px-4 py-2">
+            <span className="text-sm font-medium">Notifications</span>
+            {unread > 0 && (
+              <button
+                onClick={() => markRead()}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500">No notifications yet</p>
+            ) : notifications.map(notification => (
+              <button
+                key={notification.id}
+                onClick={() => handleOpen(notification)}
+                className={`block w-full border-b px-4 py-3 text-left last:border-b-0 hover:bg-gray-50 ${notification.readAt ? '' : 'bg-blue-50'}`}
+              >
+                <div className="text-sm font-medium text-gray-900">{notification.title}</div>
+                {notification.body && (
+                  <div className="mt-1 line-clamp-2 text-xs text-gray-600">{notification.body}</div>
+                )}
+                <div className="mt-1 text-xs text-gray-400">
+                  {new Date(notification.createdAt).toLocaleString()}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+"use client"
+
+import { useEffect, useMemo, useState } from 'react'
+import { ChevronLeft, ChevronRight, Download } from 'lucide-react'
+import { PitchDeck, PitchSlide } from '@/types'
+import { Button } from '@/components/ui/button'
+import { chartToSVG } from '@/lib/pitch-deck/charts'
+import { DECK_THEMES, deckTheme, DeckTheme } from '@/lib/pitch-deck/themes'
+
+interface PitchDeckViewerProps {
+  deck: PitchDeck
+  projectId: string
+  onThemeChange: (theme: string) => void
+}
+
+export function PitchDeckViewer({ deck, projectId, onThemeChange }: PitchDeckViewerProps) {
+  const [current, setCurrent] = useState(0)
+  const theme = deckTheme(deck.theme)
+  const slides = useMemo(() => [...deck.slides].sort((a, b) => a.order - b.order), [deck.slides])
+
+  const show = (index: number) => setCurrent(Math.min(Math.max(index, 0), slides.length - 1))
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLSelectElement) return
+      if (event.key === 'ArrowRight' || event.key === 'PageDown') {
+        setCurrent(index => Math.min(index + 1, slides.length - 1))
+      }
+      if (event.key === 'ArrowLeft' || event.key === 'PageUp') {
+        setCurrent(index => Math.max(index - 1, 0))
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [slides.length])
+
+  const downloadUrl = (format: 'html' | 'pptx') =>
+    `/api/projects/${projectId}/pitch-deck?format=${format}&theme=${deck.theme}`
+
+  if (slides.length === 0) {
+    return <p className="text-muted-foreground">This blueprint does not have enough content for a pitch deck yet.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <label htmlFor="deck-theme" className="text-sm font-medium">Theme</label>
+          <select
+            id="deck-theme"
+            value={deck.theme}
+            onChange={(e) => onThemeChange(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.values(DECK_THEMES).map((option) => (
+              <option key={option.name} value={option.name}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <a href={downloadUrl('html')}>
+            <Button variant="outline" size="sm">
+              <Download className="h-4 w-4 mr-2" />
+              HTML
+            </Button>
+          </a>
+          <a href={downloadUrl('pptx')}>
+            <Button variant="outline" size="sm">
+              <Download className="h-4 w-4 mr-2" />
+              PowerPoint
+            </Button>
+          </a>
+        </div>
+      </div>
+
+      <div className="relative aspect-video w-full overflow-hidden rounded-lg shadow-lg">
+        <SlideView slide={slides[current]} theme={theme} />
+        <span className="absolute bottom-3 right-4 text-xs" style={{ color: theme.muted }}>
+          {current + 1} / {slides.length}
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" onClick={() => show(current - 1)} disabled={current === 0}>
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Previous
+        </Button>
+        <span className="text-sm text-muted-foreground">Use the arrow keys to move between slides</span>
+        <Button variant="outline" size="sm" onClick={() => show(current + 1)} disabled={current === slides.length - 1}>
+          Next
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+        {slides.map((slide, index) => (
+          <button
+            key={slide.id}
+            onClick={() => show(index)}
+            className={`aspect-video rounded-md border-2 p-2 text-left text-xs font-medium overflow-hidden transition-colors ${
+              index === current ? 'border-blue-500' : 'border-transparent hover:border-gray-300'
+            }`}
+            style={{ background: theme.background, color: theme.text }}
+          >
+            <span style={{ color: theme.muted }}>{index + 1}.</span> {slide.title}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function SlideView({ slide, theme }: { slide: PitchSlide; theme: DeckTheme }) {
+  const { text, bullets, chart, table } = slide.content
+
+  if (slide.type === 'title') {
+    return (
+      <div className="absolute inset-0 flex flex-col justify-center px-[8%]" style={{ background: theme.background }}>
+        <h2 className="text-4xl md:text-5xl font-bold mb-4" style={{ color: theme.accent }}>{slide.title}</h2>
+        {text && <p className="text-lg md:text-xl max-w-[80%]" style={{ color: theme.muted }}>{text}</p>}
+      </div>
+    )
+  }
+
+  const hasCopy = !!text || !!bullets?.length
+  const hasVisual = !!chart || !!table
+
+  return (
+    <div className="absolute inset-0 flex flex-col px-[6%] py-[4%]" style={{ background: theme.background, color: theme.text }}>
+      <h2 className="text-2xl md:text-3xl font-bold pb-2 mb-4 border-b-[3px]" style={{ borderColor: theme.accent }}>
+        {slide.title}
+      </h2>
+      <div className={`flex-1 min-h-0 flex gap-6 ${hasCopy && hasVisual ? 'flex-row' : 'flex-col'}`}>
+        {hasCopy && (
+          <div className="flex-1 min-w-0 text-sm md:text-base">
+            {text && <p className="mb-3" style={{ color: theme.muted }}>{text}</p>}
+            {bullets && bullets.length > 0 && (
+              <ul className="list-disc pl-5 space-y-2">
+                {bullets.map((bullet, index) => (
+                  <li key={index}>{bullet}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        {hasVisual && (
+          <div className="flex-1 min-w-0 space-y-3 overflow-hidden">
+            {chart && (
+              <figure>
+                <div className="[&_svg]:w-full [&_svg]:h-auto" dangerouslySetInnerHTML={{ __html: chartToSVG(chart, theme) }} />
+                <figcaption className="text-xs text-center mt-1" style={{ color: theme.muted }}>{chart.title}</figcaption>
+              </figure>
+            )}
+            {table && (
+              <table className="w-full text-xs md:text-sm border-collapse">
+                <thead>
+                  <tr>
+                    {table.headers.map((header) => (
+                      <th key={header} className="text-left px-2 py-1" style={{ background: theme.accent, color: theme.background }}>
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rows.map((row, rowIndex) => (
+                    <tr key={rowIndex} style={{ background: rowIndex % 2 === 1 ? theme.surface : undefined }}>
+                      {row.map((cell, cellIndex) => (
+                        <td key={cellIndex} className="px-2 py-1">{cell}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -131,6 +131,11 @@ export function ProjectCard({ project, onDuplicate, onCreateTemplate }: ProjectC
         {/* Metadata */}
         <div className="flex items-center justify-between text-xs text-muted-foreground">
           <div className="flex items-center space-x-4">
+            {project.organization && (
+              <span className="bg-blue-50 text-blue-700 px-2 py-1 rounded">
+                {project.organization.name}
+              </span>
+            )}
             {project.category && (
               <span className="bg-gray-100 px-2 py-1 rounded">
                 {project.category}
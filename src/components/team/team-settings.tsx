@@ -0,0 +1,317 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { PROJECT_ROLES, ROLE_DESCRIPTIONS, ProjectRole } from '@/lib/access/roles'
+import type { OrganizationSummary } from '@/lib/organizations/organizations'
+import { Check, Copy, Loader2, Mail, Plus, Trash2, Users } from 'lucide-react'
+
+interface OrganizationMember {
+  role: ProjectRole
+  user: { id: string; name: string | null; email: string }
+}
+
+interface PendingInvitation {
+  id: string
+  email: string
+  role: ProjectRole
+  expiresAt: string
+}
+
+interface OrganizationDetails {
+  id: string
+  name: string
+  role: ProjectRole
+  members: OrganizationMember[]
+  invitations: PendingInvitation[]
+}
+
+interface TeamSettingsProps {
+  userId: string
+  /** Only Enterprise subscribers can create workspaces; anyone can be invited to one */
+  canCreate: boolean
+}
+
+export function TeamSettings({ userId, canCreate }: TeamSettingsProps) {
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [details, setDetails] = useState<OrganizationDetails | null>(null)
+  const [newName, setNewName] = useState('')
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<ProjectRole>('viewer')
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const fetchOrganizations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/organizations')
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error)
+
+      setOrganizations(result.data)
+      setSelectedId(current => current ?? result.data[0]?.id ?? null)
+    } catch (error) {
+      console.error('Error fetching organizations:', error)
+    }
+  }, [])
+
+  const fetchDetails = useCallback(async (organizationId: string) => {
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}`)
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error)
+
+      setDetails(result.data)
+    } catch (error) {
+      console.error('Error fetching organization:', error)
+      setDetails(null)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchOrganizations()
+  }, [fetchOrganizations])
+
+  useEffect(() => {
+    setInviteUrl(null)
+    if (selectedId) fetchDetails(selectedId)
+    else setDetails(null)
+  }, [selectedId, fetchDetails])
+
+  /** Sends a request and refreshes everything on success, or shows its error */
+  const send = async (url: string, method: string, body?: Record<string, unknown>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      })
+      const result = await response.json()
+      if (!result.success) {
+        setError(result.error || 'Something went wrong')
+        return null
+      }
+
+      await fetchOrganizations()
+      if (selectedId) await fetchDetails(selectedId)
+      return result
+    } catch (error) {
+      console.error('Error updating team:', error)
+      setError('Something went wrong')
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    const result = await send('/api/organizations', 'POST', { name: newName })
+    if (result) {
+      setNewName('')
+      setSelectedId(result.data.id)
+    }
+  }
+
+  const handleInvite = async () => {
+    if (!details) return
+    const result = await send(`/api/organizations/${details.id}/invitations`, 'POST', {
+      email: inviteEmail,
+      role: inviteRole
+    })
+    if (result) {
+      setInviteEmail('')
+      setInviteUrl(result.data.inviteUrl)
+      setCopied(false)
+    }
+  }
+
+  const handleLeave = async (memberId: string) => {
+    if (!details) return
+    const result = await send(`/api/organizations/${details.id}/members/${memberId}`, 'DELETE')
+    if (result && memberId === userId) {
+      setSelectedId(null)
+      await fetchOrganizations()
+    }
+  }
+
+  const copyInviteUrl = async () => {
+    if (!inviteUrl) return
+    await navigator.clipboard.writeText(inviteUrl)
+    setCopied(true)
+  }
+
+  const isOwner = details?.role === 'owner'
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold mb-6">Team Workspaces</h2>
+      <p className="text-gray-400">
+        Projects in a workspace are shared with all of its members, with the access their role gives.
+      </p>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-500/10 text-red-400 text-sm">{error}</div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {organizations.map(organization => (
+          <button
+            key={organization.id}
+            onClick={() => setSelectedId(organization.id)}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+              selectedId === organization.id
+                ? 'bg-white text-black'
+                : 'bg-white/10 text-gray-300 hover:bg-white/20'
+            }`}
+          >
+            <Users className="w-4 h-4" />
+            {organization.name}
+            <span className="text-xs opacity-70">{organization.role}</span>
+          </button>
+        ))}
+        {organizations.length === 0 && (
+          <p className="text-sm text-gray-500">You are not in any workspace yet.</p>
+        )}
+      </div>
+
+      {canCreate ? (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New workspace name"
+            className="flex-1 px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:border-white/40"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={busy || !newName.trim()}
+            className="flex items-center gap-2 px-4 py-3 bg-white text-black rounded-lg disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Create
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Creating workspaces needs an Enterprise subscription.</p>
+      )}
+
+      {details && (
+        <div className="space-y-6">
+          <div className="p-6 bg-white/5 rounded-lg">
+            <h3 className="text-lg font-bold mb-4">Members</h3>
+            <div className="space-y-3">
+              {details.members.map(member => (
+                <div key={member.user.id} className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{member.user.name || member.user.email}</div>
+                    <div className="text-sm text-gray-400 truncate">{member.user.email}</div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {isOwner ? (
+                      <select
+                        value={member.role}
+                        disabled={busy}
+                        onChange={(e) => send(
+                          `/api/organizations/${details.id}/members/${member.user.id}`,
+                          'PATCH',
+                          { role: e.target.value }
+                        )}
+                        className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white"
+                      >
+                        {PROJECT_ROLES.map(role => (
+                          <option key={role} value={role}>{role}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-sm text-gray-400 capitalize">{member.role}</span>
+                    )}
+                    {(isOwner || member.user.id === userId) && (
+                      <button
+                        onClick={() => handleLeave(member.user.id)}
+                        disabled={busy}
+                        title={member.user.id === userId ? 'Leave workspace' : 'Remove member'}
+                        className="p-2 text-gray-400 hover:text-red-400 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {isOwner && (
+            <div className="p-6 bg-white/5 rounded-lg space-y-4">
+              <h3 className="text-lg font-bold">Invite</h3>
+              <div className="flex flex-col md:flex-row gap-2">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="name@company.com"
+                  className="flex-1 px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:border-white/40"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as ProjectRole)}
+                  className="px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white"
+                >
+                  {PROJECT_ROLES.map(role => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleInvite}
+                  disabled={busy || !inviteEmail.trim()}
+                  className="flex items-center justify-center gap-2 px-4 py-3 bg-white text-black rounded-lg disabled:opacity-50"
+                >
+                  {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+                  Invite
+                </button>
+              </div>
+              <p className="text-sm text-gray-400">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+
+              {inviteUrl && (
+                <div className="flex items-center gap-2 p-3 bg-white/5 rounded-lg">
+                  <code className="flex-1 text-xs text-gray-300 truncate">{inviteUrl}</code>
+                  <button onClick={copyInviteUrl} className="p-2 text-gray-300 hover:text-white" title="Copy link">
+                    {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                </div>
+              )}
+
+              {details.invitations.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">Pending invitations</h4>
+                  {details.invitations.map(invitation => (
+                    <div key={invitation.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        {invitation.email}
+                        <span className="text-gray-400"> · {invitation.role} · expires {new Date(invitation.expiresAt).toLocaleDateString()}</span>
+                      </span>
+                      <button
+                        onClick={() => send(
+                          `/api/organizations/${details.id}/invitations?invitationId=${invitation.id}`,
+                          'DELETE'
+                        )}
+                        disabled={busy}
+                        className="text-gray-400 hover:text-red-400 disabled:opacity-50"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
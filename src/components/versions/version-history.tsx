@@ -0,0 +1,238 @@
+"use client"
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import type { BlueprintDiff, FieldChange } from '@/lib/versioning/diff'
+import type { BlueprintVersionSummary, VersionSource } from '@/lib/versioning/versions'
+import { GitCompare, History, RotateCcw } from 'lucide-react'
+
+interface VersionHistoryProps {
+  projectId: string
+  /** Called after a version has been restored so the page can reload the blueprint */
+  onRestored?: () => void
+}
+
+interface Comparison {
+  from: number
+  to: number
+  diff: BlueprintDiff
+}
+
+const SOURCE_STYLES: Record<VersionSource, string> = {
+  generation: 'bg-blue-100 text-blue-800 border-blue-200',
+  regeneration: 'bg-purple-100 text-purple-800 border-purple-200',
+  edit: 'bg-green-100 text-green-800 border-green-200',
+  restore: 'bg-orange-100 text-orange-800 border-orange-200',
+  baseline: 'bg-gray-100 text-gray-800 border-gray-200'
+}
+
+const SECTION_LABELS: Record<string, string> = {
+  productPlan: 'Product Plan',
+  techStack: 'Tech Stack',
+  aiWorkflow: 'AI Workflow',
+  roadmap: 'Roadmap',
+  financialModel: 'Financial Model',
+  reportNarrative: 'Investor Report'
+}
+
+const CHANGE_STYLES: Record<FieldChange['type'], string> = {
+  added: 'bg-green-50',
+  removed: 'bg-red-50',
+  changed: ''
+}
+
+export function VersionHistory({ projectId, onRestored }: VersionHistoryProps) {
+  const [versions, setVersions] = useState<BlueprintVersionSummary[]>([])
+  const [selected, setSelected] = useState<number[]>([])
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [busy, setBusy] = useState<'loading' | 'comparing' | 'restoring' | null>('loading')
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/versions`)
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      setVersions(result.data)
+    } catch (error) {
+      console.error('Loading versions failed:', error)
+    } finally {
+      setBusy(null)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions])
+
+  // Keep the two most recent picks, the older one on the left
+  const toggleSelected = (version: number) => {
+    setSelected(selected.includes(version)
+      ? selected.filter(other => other !== version)
+      : [...selected, version].slice(-2))
+  }
+
+  const handleCompare = async () => {
+    const [from, to] = [...selected].sort((a, b) => a - b)
+    setBusy('comparing')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/versions/compare?from=${from}&to=${to}`)
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      setComparison({ from, to, diff: result.data.diff })
+    } catch (error) {
+      console.error('Comparing versions failed:', error)
+      alert('Failed to compare the versions. Please try again.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Restore version ${version}? The current blueprint stays in the history.`)) return
+
+    setBusy('restoring')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/versions/${version}/restore`, {
+        method: 'POST'
+      })
+
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      await fetchVersions()
+      onRestored?.()
+    } catch (error) {
+      console.error('Restoring version failed:', error)
+      alert('Failed to restore the version. Please try again.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const latest = versions[0]?.version
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5 text-primary" />
+              Versions
+            </CardTitle>
+            <Button size="sm" onClick={handleCompare} disabled={selected.length !== 2 || busy !== null}>
+              <GitCompare className="h-4 w-4 mr-1" />
+              {busy === 'comparing' ? 'Comparing...' : 'Compare selected'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {busy === 'loading' ? (
+            <p className="text-sm text-muted-foreground">Loading versions...</p>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No versions yet. One is saved every time the blueprint is generated, regenerated or edited.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {versions.map(version => (
+                <div key={version.id} className="flex items-center gap-3 p-3 border rounded-lg">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(version.version)}
+                    onChange={() => toggleSelected(version.version)}
+                    aria-label={`Compare version ${version.version}`}
+                  />
+                  <div className="flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">Version {version.version}</span>
+                      <Badge className={SOURCE_STYLES[version.source]}>{version.source}</Badge>
+                      {version.section && (
+                        <Badge variant="outline">{SECTION_LABELS[version.section] ?? version.section}</Badge>
+                      )}
+                      {version.version === latest && <Badge variant="outline">Current</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {[version.summary, new Date(version.createdAt).toLocaleString()].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  {version.version !== latest && (
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(version.version)} disabled={busy !== null}>
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {comparison && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5 text-primary" />
+              Version {comparison.from} → Version {comparison.to}
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {comparison.diff.totals.changed} changed · {comparison.diff.totals.added} added · {comparison.diff.totals.removed} removed
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {comparison.diff.sections.length === 0 && (
+              <p className="text-sm text-muted-foreground">The two versions are the same.</p>
+            )}
+            {comparison.diff.sections.map(section => (
+              <div key={section.section}>
+                <h4 className="font-semibold mb-2 flex items-center gap-2">
+                  {SECTION_LABELS[section.section] ?? section.section}
+                  {section.type !== 'changed' && <Badge variant="outline">{section.type}</Badge>}
+                </h4>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm table-fixed">
+                    <thead>
+                      <tr className="border-b text-left">
+                        <th className="py-2 pr-2 font-medium w-1/4">Field</th>
+                        <th className="py-2 pr-2 font-medium">Version {comparison.from}</th>
+                        <th className="py-2 font-medium">Version {comparison.to}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {section.changes.map((change, index) => (
+                        <tr key={index} className={`border-b last:border-0 align-top ${CHANGE_STYLES[change.type]}`}>
+                          <td className="py-2 pr-2 font-mono text-xs break-all">{change.path || '(whole section)'}</td>
+                          <td className="py-2 pr-2"><ChangeValue value={change.before} /></td>
+                          <td className="py-2"><ChangeValue value={change.after} /></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+function ChangeValue({ value }: { value: unknown }) {
+  if (value === undefined) return <span className="text-muted-foreground">—</span>
+  if (typeof value === 'object' && value !== null) {
+    return <pre className="text-xs whitespace-pre-wrap break-words max-h-48 overflow-auto">{JSON.stringify(value, null, 2)}</pre>
+  }
+  return <span className="break-words">{String(value)}</span>
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useCallback, useMemo } from 'react'
+import React, { useCallback, useEffect, useMemo } from 'react'
 import {
   ReactFlow,
   Node,
@@ -102,6 +102,22 @@ function WorkflowDiagramInner({
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes)
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges)
 
+  // Follow the workflow when it changes from outside, e.g. someone else's edit,
+  // keeping what React Flow tracks itself such as selection and dragging
+  useEffect(() => {
+    setNodes(current => initialNodes.map(node => {
+      const existing = current.find(item => item.id === node.id)
+      return existing ? { ...existing, ...node, selected: existing.selected, dragging: existing.dragging } : node
+    }))
+  }, [initialNodes, setNodes])
+
+  useEffect(() => {
+    setEdges(current => initialEdges.map(edge => {
+      const existing = current.find(item => item.id === edge.id)
+      return existing ? { ...existing, ...edge, selected: existing.selected } : edge
+    }))
+  }, [initialEdges, setEdges])
+
   // Handle new connections
   const onConnect = useCallback(
     (params: Connection) => {
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useCallback } from 'react'
+import React, { useState, useCallback, useEffect } from 'react'
 import { 
   Plus, 
   Save, 
@@ -20,11 +20,22 @@ import { WorkflowGenerator } from '@/lib/workflow-generator'
 import { WorkflowModuleSelector } from './workflow-module-selector'
 import { WorkflowModuleConfig } from './workflow-module-config'
 import { WorkflowExportImport } from '@/lib/workflow-export-import'
+import { applyChanges, diffFields } from '@/lib/collaboration/document'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 
+// One edit, kept as the workflow before and after it so undo reverts only what it changed
+interface HistoryStep {
+  before: AIWorkflow
+  after: AIWorkflow
+}
+
 interface WorkflowEditorProps {
   initialWorkflow?: AIWorkflow
+  // The live workflow when others edit it too; replaces what is shown whenever it changes
+  workflow?: AIWorkflow
+  // Called with every edit, including undo and redo, and the workflow it was made to
+  onChange?: (workflow: AIWorkflow, base: AIWorkflow) => void
   onSave?: (workflow: AIWorkflow) => void
   onExport?: (workflow: AIWorkflow, format: 'json' | 'png') => void
   className?: string
@@ -32,12 +43,14 @@ interface WorkflowEditorProps {
 
 export function WorkflowEditor({
   initialWorkflow,
+  workflow: liveWorkflow,
+  onChange,
   onSave,
   onExport,
   className = '',
 }: WorkflowEditorProps) {
   const [workflow, setWorkflow] = useState<AIWorkflow>(
-    initialWorkflow || WorkflowGenerator.createSampleWorkflow()
+    liveWorkflow || initialWorkflow || WorkflowGenerator.createSampleWorkflow()
   )
   const [selectedNodes, setSelectedNodes] = useState<string[]>([])
   const [selectedModules, setSelectedModules] = useState<string[]>(
@@ -47,36 +60,44 @@ export function WorkflowEditor({
   const [isEditing, setIsEditing] = useState(false)
   const [activeTab, setActiveTab] = useState<'diagram' | 'modules' | 'config'>('diagram')
   const [selectedModuleForConfig, setSelectedModuleForConfig] = useState<string | null>(null)
-  const [history, setHistory] = useState<AIWorkflow[]>([workflow])
+  const [history, setHistory] = useState<HistoryStep[]>([])
   const [historyIndex, setHistoryIndex] = useState(0)
 
+  // Others' edits show up without entering the undo history
+  useEffect(() => {
+    if (liveWorkflow) setWorkflow(liveWorkflow)
+  }, [liveWorkflow])
+
   // Handle workflow changes
   const handleWorkflowChange = useCallback((updatedWorkflow: AIWorkflow) => {
     setWorkflow(updatedWorkflow)
+    onChange?.(updatedWorkflow, workflow)
     
     // Add to history for undo/redo
-    const newHistory = history.slice(0, historyIndex + 1)
-    newHistory.push(updatedWorkflow)
+    const newHistory = history.slice(0, historyIndex)
+    newHistory.push({ before: workflow, after: updatedWorkflow })
     setHistory(newHistory)
-    setHistoryIndex(newHistory.length - 1)
-  }, [history, historyIndex])
+    setHistoryIndex(newHistory.length)
+  }, [workflow, history, historyIndex, onChange])
 
-  // Undo/Redo functionality
+  // Undo/Redo replay the step over the current workflow, keeping others' edits made since
   const handleUndo = useCallback(() => {
     if (historyIndex > 0) {
-      const newIndex = historyIndex - 1
-      setHistoryIndex(newIndex)
-      setWorkflow(history[newIndex])
+      const { before, after } = history[historyIndex - 1]
+      setHistoryIndex(historyIndex - 1)
+      setWorkflow(applyChanges(workflow, diffFields(after, before)))
+      onChange?.(before, after)
     }
-  }, [history, historyIndex])
+  }, [workflow, history, historyIndex, onChange])
 
   const handleRedo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      const newIndex = historyIndex + 1
-      setHistoryIndex(newIndex)
-      setWorkflow(history[newIndex])
+    if (historyIndex < history.length) {
+      const { before, after } = history[historyIndex]
+      setHistoryIndex(historyIndex + 1)
+      setWorkflow(applyChanges(workflow, diffFields(before, after)))
+      onChange?.(after, before)
     }
-  }, [history, historyIndex])
+  }, [workflow, history, historyIndex, onChange])
 
   // Add new node
   const handleAddNode = useCallback((nodeType: NodeType) => {
@@ -241,7 +262,7 @@ export function WorkflowEditor({
             variant="outline"
             size="sm"
             onClick={handleRedo}
-            disabled={historyIndex === history.length - 1}
+            disabled={historyIndex === history.length}
           >
             <Redo size={16} />
           </Button>
@@ -0,0 +1,159 @@
+"use client"
+
+import { useEffect, useReducer } from 'react'
+import { Blueprint } from '@/types'
+import {
+  BlueprintGenerationResponse,
+  BlueprintSection,
+  BlueprintStreamEvent,
+  SectionGenerationStatus
+} from '@/types/ai-services'
+
+const STREAM_EVENT_TYPES: BlueprintStreamEvent['type'][] = [
+  'section-started',
+  'token-delta',
+  'section-completed',
+  'blueprint-completed',
+  'generation-failed'
+]
+
+export interface BlueprintStreamState {
+  status: 'idle' | 'connecting' | 'streaming' | 'completed' | 'failed'
+  sections: Partial<Pick<Blueprint, BlueprintSection>>
+  sectionStatus: Partial<Record<BlueprintSection, SectionGenerationStatus>>
+  activeSections: BlueprintSection[]
+  partialText: Partial<Record<BlueprintSection, string>>
+  response?: BlueprintGenerationResponse
+  error?: string
+}
+
+type StreamAction =
+  | { type: 'connect' }
+  | { type: 'disconnect' }
+  | { type: 'event'; event: BlueprintStreamEvent }
+
+export const initialBlueprintStreamState: BlueprintStreamState = {
+  status: 'idle',
+  sections: {},
+  sectionStatus: {},
+  activeSections: [],
+  partialText: {}
+}
+
+export function blueprintStreamReducer(state: BlueprintStreamState, action: StreamAction): BlueprintStreamState {
+  switch (action.type) {
+    case 'connect':
+      return { ...initialBlueprintStreamState, status: 'connecting' }
+
+    case 'disconnect':
+      // A dropped connection before a terminal event leaves whatever arrived so far
+      return state.status === 'connecting' || state.status === 'streaming'
+        ? { ...state, status: 'idle', activeSections: [] }
+        : state
+
+    case 'event':
+      return applyStreamEvent(state, action.event)
+  }
+}
+
+function applyStreamEvent(state: BlueprintStreamState, event: BlueprintStreamEvent): BlueprintStreamState {
+  switch (event.type) {
+    case 'section-started':
+      return {
+        ...state,
+        status: 'streaming',
+        activeSections: [...state.activeSections.filter(s => s !== event.section), event.section],
+        partialText: { ...state.partialText, [event.section]: '' }
+      }
+
+    case 'token-delta':
+      return {
+        ...state,
+        status: 'streaming',
+        partialText: {
+          ...state.partialText,
+          [event.section]: (state.partialText[event.section] || '') + event.delta
+        }
+      }
+
+    case 'section-completed': {
+      const partialText = { ...state.partialText }
+      delete partialText[event.section]
+
+      return {
+        ...state,
+        status: 'streaming',
+        sections: event.status.status === 'completed'
+          ? { ...state.sections, [event.section]: event.data }
+          : state.sections,
+        sectionStatus: { ...state.sectionStatus, [event.section]: event.status },
+        activeSections: state.activeSections.filter(s => s !== event.section),
+        partialText
+      }
+    }
+
+    case 'blueprint-completed':
+      return {
+        ...state,
+        status: 'completed',
+        sections: event.response.blueprint,
+        sectionStatus: event.response.generationMetadata.sectionStatus,
+        activeSections: [],
+        partialText: {},
+        response: event.response
+      }
+
+    case 'generation-failed':
+      return {
+        ...state,
+        status: 'failed',
+        activeSections: [],
+        error: event.message
+      }
+  }
+}
+
+/**
+ * Subscribes to a project's blueprint generation stream and accumulates
+ * sections as they arrive. Pass enabled=false to stay disconnected.
+ */
+export function useBlueprintStream(projectId: string, enabled: boolean = true) {
+  const [state, dispatch] = useReducer(blueprintStreamReducer, initialBlueprintStreamState)
+
+  useEffect(() => {
+    if (!enabled || !projectId || typeof EventSource === 'undefined') {
+      return
+    }
+
+    dispatch({ type: 'connect' })
+    const source = new EventSource(`/api/projects/${projectId}/stream`)
+
+    const handleEvent = (message: MessageEvent) => {
+      try {
+        const event = JSON.parse(message.data) as BlueprintStreamEvent
+        dispatch({ type: 'event', event })
+
+        if (event.type === 'blueprint-completed' || event.type === 'generation-failed') {
+          source.close()
+        }
+      } catch (error) {
+        console.error('Invalid blueprint stream event:', error)
+      }
+    }
+
+    STREAM_EVENT_TYPES.forEach(type => source.addEventListener(type, handleEvent))
+    source.onerror = () => {
+      // EventSource reconnects on its own unless the server ended the stream
+      if (source.readyState === EventSource.CLOSED) {
+        dispatch({ type: 'disconnect' })
+      }
+    }
+
+    return () => {
+      STREAM_EVENT_TYPES.forEach(type => source.removeEventListener(type, handleEvent))
+      source.close()
+    }
+  }, [projectId, enabled])
+
+  return state
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Blueprint } from '@/types'
+import { CollaborativeDocument, FieldOperation, FieldPath } from '@/lib/collaboration/document'
+import type { Presence, ServerMessage } from '@/lib/collaboration/protocol'
+import type { ProjectRole } from '@/lib/access/roles'
+
+export type CollaborationStatus = 'disabled' | 'connecting' | 'connected' | 'offline'
+
+export interface CollaborationState {
+  status: CollaborationStatus
+  /** The live blueprint, with local edits applied before the server confirms them */
+  blueprint: Partial<Blueprint>
+  /** Everyone else in the session */
+  peers: Presence[]
+  role?: ProjectRole
+  error?: string
+  /**
+   * Replaces the value at `path`; only the fields that differ are sent.
+   * Editors that keep a draft pass the value it started from as `base`, so
+   * fields others changed meanwhile are not reverted.
+   */
+  update: (path: FieldPath, value: unknown, base?: unknown) => void
+  /** Tells the others which section, and which field in it, is being looked at */
+  focus: (section?: string, path?: string) => void
+  /** Picks up blueprint changes saved outside the session, e.g. by regenerating */
+  sync: () => void
+}
+
+/** Longest wait between reconnection attempts, in milliseconds */
+const MAX_RETRY_DELAY = 30000
+
+/**
+ * Joins a project's real-time editing session. Edits apply locally at once
+ * and are sent to the collaboration server, which relays them to everyone
+ * else; edits made while offline are sent on reconnecting. Without a
+ * collaboration server the status stays `disabled` and the blueprint is
+ * `initialBlueprint`.
+ */
+export function useCollaboration(
+  projectId: string,
+  initialBlueprint: Partial<Blueprint> | undefined,
+  enabled: boolean = true
+): CollaborationState {
+  const [clientId] = useState(() => typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `client-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+  const [status, setStatus] = useState<CollaborationStatus>('disabled')
+  const [blueprint, setBlueprint] = useState<Partial<Blueprint>>(initialBlueprint ?? {})
+  const [peers, setPeers] = useState<Presence[]>([])
+  const [role, setRole] = useState<ProjectRole>()
+  const [error, setError] = useState<string>()
+
+  const [initialDocument] = useState(() => new CollaborativeDocument(initialBlueprint ?? {}))
+  const documentRef = useRef(initialDocument)
+  const pendingRef = useRef<FieldOperation[]>([])
+  const socketRef = useRef<WebSocket | null>(null)
+  const presenceRef = useRef<{ section?: string; path?: string }>({})
+
+  const send = useCallback((message: object) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify(message))
+    }
+  }, [])
+
+  // A fresh copy from the server, while not in a session, replaces the local one
+  useEffect(() => {
+    if (socketRef.current?.readyState === WebSocket.OPEN || pendingRef.current.length > 0) return
+    documentRef.current = new CollaborativeDocument(initialBlueprint ?? {})
+    setBlueprint(initialBlueprint ?? {})
+  }, [initialBlueprint])
+
+  useEffect(() => {
+    if (!enabled || !projectId || typeof WebSocket === 'undefined') return
+
+    let stopped = false
+    let retryDelay = 1000
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+    const handleMessage = (message: ServerMessage) => {
+      switch (message.type) {
+        case 'welcome': {
+          const document = new CollaborativeDocument(message.initial, message.operations)
+          pendingRef.current.forEach(operation => document.apply(operation))
+          documentRef.current = document
+          setBlueprint(document.blueprint as Partial<Blueprint>)
+          setPeers(message.peers.filter(peer => peer.clientId !== clientId))
+          setRole(message.role)
+          setStatus('connected')
+          setError(undefined)
+          retryDelay = 1000
+
+          if (pendingRef.current.length > 0) send({ type: 'operations', operations: pendingRef.current })
+          if (presenceRef.current.section) send({ type: 'presence', ...presenceRef.current })
+          break
+        }
+        case 'operations':
+          if (message.operations.filter(operation => documentRef.current.apply(operation)).length > 0) {
+            setBlueprint(documentRef.current.blueprint as Partial<Blueprint>)
+          }
+          break
+        case 'ack':
+          pendingRef.current = pendingRef.current.filter(operation => operation.clock.counter > message.through)
+          break
+        case 'presence':
+          setPeers(message.peers.filter(peer => peer.clientId !== clientId))
+          break
+        case 'role':
+          setRole(message.role)
+          break
+        case 'error':
+          setError(message.error)
+          break
+      }
+    }
+
+    const connect = async () => {
+      setStatus(current => current === 'connected' ? 'offline' : current === 'disabled' ? 'connecting' : current)
+
+      try {
+        const response = await fetch(`/api/projects/${projectId}/collaboration`, { method: 'POST' })
+        const result = await response.json()
+        if (!result.success) {
+          // Not configured, or no access: the page works as before
+          setStatus('disabled')
+          return
+        }
+        if (stopped) return
+
+        const socket = new WebSocket(`${result.data.url}?ticket=${encodeURIComponent(result.data.ticket)}&clientId=${clientId}`)
+        socketRef.current = socket
+
+        socket.onmessage = event => {
+          try {
+            handleMessage(JSON.parse(event.data) as ServerMessage)
+          } catch (error) {
+            console.error('Invalid collaboration message:', error)
+          }
+        }
+        socket.onclose = () => {
+          if (socketRef.current === socket) socketRef.current = null
+          if (!stopped) scheduleRetry()
+        }
+      } catch (error) {
+        console.error('Error joining collaboration session:', error)
+        scheduleRetry()
+      }
+    }
+
+    const scheduleRetry = () => {
+      setStatus(current => current === 'disabled' ? current : 'offline')
+      setPeers([])
+      retryTimer = setTimeout(connect, retryDelay)
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY)
+    }
+
+    connect()
+
+    return () => {
+      stopped = true
+      if (retryTimer) clearTimeout(retryTimer)
+      socketRef.current?.close()
+      socketRef.current = null
+    }
+  }, [projectId, enabled, clientId, send])
+
+  const update = useCallback((path: FieldPath, value: unknown, base?: unknown) => {
+    const operations = documentRef.current.update(path, value, clientId, base)
+    if (operations.length === 0) return
+
+    pendingRef.current = [...pendingRef.current, ...operations]
+    setBlueprint(documentRef.current.blueprint as Partial<Blueprint>)
+    send({ type: 'operations', operations })
+  }, [clientId, send])
+
+  const focus = useCallback((section?: string, path?: string) => {
+    presenceRef.current = { section, path }
+    send({ type: 'presence', section, path })
+  }, [send])
+
+  const sync = useCallback(() => send({ type: 'sync' }), [send])
+
+  return { status, blueprint, peers, role, error, update, focus, sync }
+}
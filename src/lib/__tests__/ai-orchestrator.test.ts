@@ -1,44 +1,77 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { AIOrchestrationService } from '../ai-services/ai-orchestrator'
-import { ProcessedIdea, BlueprintGenerationRequest } from '@/types/ai-services'
+import { getAIServiceManager } from '../ai-services/index'
+import { AIBudgetManager } from '../ai-services/cost-budget'
+import { ProductPlanResponseSchema } from '../ai-services/section-schemas'
+import { withValuation } from '../financial/valuation'
+import { ProcessedIdea, BlueprintGenerationRequest, BlueprintStreamEvent, AIRequest } from '@/types/ai-services'
+import { ComprehensiveFinancialModel } from '@/types'
 
 // Mock the AI service manager
 vi.mock('../ai-services/index', () => ({
-  getAIServiceManager: vi.fn(() => ({
-    makeRequest: vi.fn().mockImplementation(async (request) => {
+  getAIServiceManager: vi.fn(() => {
+    const makeRequest = vi.fn().mockImplementation(async (request) => {
       // Mock different responses based on the prompt content
+      if (request.prompt.includes('detailed roadmap')) {
+        return {
+          success: true,
+          data: JSON.stringify({
+            phases: [
+              {
+                name: "MVP",
+                description: "Core task management",
+                tasks: [{ name: "Task CRUD", estimatedHours: 40, dependencies: [] }]
+              }
+            ],
+            risks: []
+          }),
+          usage: { promptTokens: 120, completionTokens: 150, totalTokens: 270, cost: 0.008 },
+          metadata: {
+            provider: 'openai',
+            model: 'gpt-4',
+            latency: 900,
+            timestamp: new Date(),
+            requestId: 'test-125'
+          }
+        }
+      }
+
       if (request.prompt.includes('product plan')) {
         return {
           success: true,
           data: JSON.stringify({
             targetAudience: {
-              primary: "Tech-savvy professionals",
-              secondary: "Small business owners",
-              demographics: ["25-45 years old", "Urban professionals"],
-              painPoints: ["Time management", "Productivity"],
-              motivations: ["Efficiency", "Growth"]
+              primary: {
+                demographics: "Tech-savvy professionals aged 25-45",
+                psychographics: "Value efficiency and growth",
+                painPoints: ["Time management", "Productivity"],
+                goals: ["Ship more with less stress"]
+              },
+              marketSize: { tam: 50000000000, sam: 5000000000, som: 50000000 }
             },
             coreFeatures: [
               {
                 name: "Task Management",
                 description: "Organize and track tasks",
                 priority: "high",
-                userValue: "Better organization",
-                complexity: "moderate"
+                estimatedHours: 80,
+                category: "core"
               }
             ],
             differentiators: ["AI-powered insights", "Seamless integration"],
             monetization: {
-              primaryModel: "subscription",
-              pricingStrategy: "Tiered pricing",
-              revenueStreams: ["Monthly subscriptions", "Enterprise plans"],
-              competitivePricing: "Competitive with market leaders"
+              primary: {
+                model: "subscription",
+                pricing: [{ name: "Pro", price: "12", interval: "monthly", features: ["AI insights"] }],
+                reasoning: "Tiered pricing competitive with market leaders"
+              }
             },
             gtmStrategy: {
               launchStrategy: "Product Hunt launch",
-              marketingChannels: ["Social media", "Content marketing"],
+              marketingChannels: [{ name: "Content marketing", cost: 1000, expectedROI: 3 }],
               partnerships: ["Integration partners"],
-              timeline: "3-month launch plan"
+              timeline: [{ name: "Public launch", dueDate: "2026-03-01" }],
+              budget: 20000
             }
           }),
           usage: { promptTokens: 100, completionTokens: 200, totalTokens: 300, cost: 0.01 },
@@ -59,18 +92,20 @@ vi.mock('../ai-services/index', () => ({
             frontend: [
               {
                 name: "React",
-                category: "framework",
+                category: "frontend",
                 reasoning: "Popular and well-supported",
                 alternatives: ["Vue", "Angular"],
                 pros: ["Large ecosystem", "Good performance"],
                 cons: ["Learning curve"],
-                cost: 0
+                cost: 0,
+                learningCurve: "medium",
+                communitySupport: 10
               }
             ],
             backend: [
               {
                 name: "Node.js",
-                category: "runtime",
+                category: "backend",
                 reasoning: "JavaScript everywhere",
                 alternatives: ["Python", "Go"],
                 pros: ["Fast development", "Large community"],
@@ -81,7 +116,7 @@ vi.mock('../ai-services/index', () => ({
             database: [
               {
                 name: "PostgreSQL",
-                category: "sql",
+                category: "database",
                 reasoning: "Reliable and feature-rich",
                 alternatives: ["MySQL", "MongoDB"],
                 pros: ["ACID compliance", "JSON support"],
@@ -92,16 +127,17 @@ vi.mock('../ai-services/index', () => ({
             aiServices: [],
             deployment: [
               {
-                name: "Vercel",
-                category: "serverless",
-                reasoning: "Easy deployment for React apps",
-                alternatives: ["Netlify", "AWS"],
-                pros: ["Simple setup", "Good performance"],
-                cons: ["Vendor lock-in"],
-                cost: 100
+                platform: "Vercel",
+                cost: 100,
+                scalability: 8,
+                complexity: 2,
+                reasoning: "Easy deployment for React apps"
               }
             ],
-            security: ["HTTPS everywhere", "Input validation"]
+            security: [
+              { category: "Transport", requirement: "Encrypt traffic", implementation: "HTTPS everywhere", priority: "high" },
+              { category: "Input", requirement: "Reject malformed input", implementation: "Schema validation", priority: "medium" }
+            ]
           }),
           usage: { promptTokens: 150, completionTokens: 250, totalTokens: 400, cost: 0.012 },
           metadata: {
@@ -114,10 +150,19 @@ vi.mock('../ai-services/index', () => ({
         }
       }
 
-      // Default mock response for other prompts
+      // Default mock response for other prompts, just enough to pass the
+      // workflow and financial model schemas
       return {
         success: true,
-        data: JSON.stringify({ mock: 'response' }),
+        data: JSON.stringify({
+          nodes: [{ id: 'input', type: 'input', label: 'User input' }],
+          edges: [],
+          assumptions: {
+            pricing: { price: 20 },
+            customers: { signups: 100, conversion: 0.1, churn: 0.05, cac: 50 }
+          },
+          costs: {}
+        }),
         usage: { promptTokens: 50, completionTokens: 100, totalTokens: 150, cost: 0.005 },
         metadata: {
           provider: 'openai',
@@ -128,9 +173,33 @@ vi.mock('../ai-services/index', () => ({
         }
       }
     })
-  }))
+
+    return {
+      makeRequest,
+      // Streams the same canned responses in small chunks
+      makeStreamingRequest: vi.fn().mockImplementation(async (request) => {
+        const response = await makeRequest(request)
+        const text: string = response.data
+        return (async function* () {
+          for (let i = 0; i < text.length; i += 50) {
+            yield text.slice(i, i + 50)
+          }
+        })()
+      })
+    }
+  })
 }))
 
+/** The mocked AI manager of the most recently created orchestrator */
+function latestAIManager() {
+  const aiManager = vi.mocked(getAIServiceManager).mock.results.at(-1)?.value
+  if (!aiManager) throw new Error('No AI manager was created')
+  return {
+    makeRequest: vi.mocked(aiManager.makeRequest),
+    makeStreamingRequest: vi.mocked(aiManager.makeStreamingRequest)
+  }
+}
+
 describe('AIOrchestrationService', () => {
   let orchestrator: AIOrchestrationService
   let mockIdea: ProcessedIdea
@@ -199,6 +268,98 @@ describe('AIOrchestrationService', () => {
     expect(regeneratedSection.data).toBeDefined()
   })
 
+  it('should keep what the user entered when regenerating the product plan', async () => {
+    const response = await orchestrator.generateBlueprint(mockRequest)
+    const competitorData = [{ name: 'Todoist', features: ['Labels', 'Reminders'] }]
+    const valueProposition = {
+      headline: 'Plan less, ship more',
+      subheadline: 'AI that keeps your tasks in order',
+      benefits: ['Fewer status meetings'],
+      features: ['Task Management'],
+      proof: [],
+      targetSegment: 'Team leads'
+    }
+    const productPlan = { ...response.blueprint.productPlan, competitorData, valueProposition }
+
+    const regenerated = await orchestrator.regenerateSection({ ...response.blueprint, productPlan }, 'productPlan')
+
+    expect(regenerated.success).toBe(true)
+    expect(regenerated.data.coreFeatures[0].name).toBe('Task Management')
+    expect(regenerated.data.competitorData).toEqual(competitorData)
+    expect(regenerated.data.valueProposition).toEqual(valueProposition)
+    expect(regenerated.data).not.toHaveProperty('businessModelCanvas')
+  })
+
+  it('should keep the saved comps table when regenerating the financial model', async () => {
+    const response = await orchestrator.generateBlueprint(mockRequest)
+    const comparables = [{ name: 'Acme Tasks', metrics: { revenueMultiple: 12 }, adjustments: { size: -0.2 }, weight: 1 }]
+    const saved = withValuation(response.blueprint.financialModel as ComprehensiveFinancialModel, { comparables })
+
+    const regenerated = await orchestrator.regenerateSection(
+      { ...response.blueprint, financialModel: saved },
+      'financialModel'
+    )
+
+    expect(regenerated.success).toBe(true)
+    expect(regenerated.data.valuation.comparables.companies).toEqual(comparables)
+  })
+
+  it('should generate personas from the idea and audience', async () => {
+    const aiManager = latestAIManager()
+    aiManager.makeRequest.mockResolvedValueOnce({
+      success: true,
+      data: JSON.stringify({
+        personas: [{
+          name: 'Priya the team lead',
+          demographics: { age: 38, location: 'London' },
+          painPoints: ['Status meetings eat her week'],
+          goals: ['Know what is blocked without asking'],
+          willingnessToPay: '15'
+        }]
+      }),
+      usage: { promptTokens: 100, completionTokens: 200, totalTokens: 300, cost: 0.01 },
+      metadata: { provider: 'openai', model: 'gpt-4', latency: 1000, timestamp: new Date(), requestId: 'test-personas' }
+    })
+
+    const response = await orchestrator.generatePersonas(mockIdea.originalInput, undefined, 1)
+
+    expect(aiManager.makeRequest.mock.calls[0][0].prompt).toContain('create 1 distinct user personas')
+    expect(response.success).toBe(true)
+    expect(response.data).toEqual([expect.objectContaining({
+      name: 'Priya the team lead',
+      demographics: { age: '38', gender: '', location: 'London', income: '', education: '' },
+      behaviors: { online: [], purchasing: [], communication: [] },
+      willingnessToPay: 15
+    })])
+  })
+
+  it('should design a regenerated product plan for the selected personas', async () => {
+    const response = await orchestrator.generateBlueprint(mockRequest)
+    const aiManager = latestAIManager()
+    aiManager.makeRequest.mockClear()
+
+    await orchestrator.regenerateSection(response.blueprint, 'productPlan', undefined, {
+      idea: mockIdea.originalInput,
+      personas: [{
+        name: 'Priya the team lead',
+        demographics: { age: '38', gender: '', location: 'London', income: '', education: '' },
+        psychographics: { interests: [], values: [], lifestyle: '' },
+        painPoints: ['Status meetings'],
+        goals: ['Fewer meetings'],
+        behaviors: { online: [], purchasing: [], communication: [] },
+        preferredChannels: ['LinkedIn'],
+        willingnessToPay: 15
+      }]
+    })
+
+    const prompt = aiManager.makeRequest.mock.calls[0][0].prompt
+    expect(prompt).toContain(`IDEA: ${mockIdea.originalInput}`)
+    expect(prompt).toContain(
+      '- Priya the team lead (38, London): wants Fewer meetings; struggles with Status meetings; ' +
+      'reached through LinkedIn; would pay up to $15 a month'
+    )
+  })
+
   it('should track generation metadata correctly', async () => {
     const response = await orchestrator.generateBlueprint(mockRequest)
 
@@ -208,6 +369,177 @@ describe('AIOrchestrationService', () => {
     expect(response.generationMetadata.totalCost).toBeGreaterThan(0)
   })
 
+  it('should report per-section status', async () => {
+    const response = await orchestrator.generateBlueprint(mockRequest)
+    const { sectionStatus } = response.generationMetadata
+
+    expect(Object.keys(sectionStatus)).toHaveLength(5)
+    expect(Object.values(sectionStatus).every(status => status?.status === 'completed')).toBe(true)
+    expect(sectionStatus.roadmap?.dependsOn).toEqual(['productPlan', 'techStack'])
+  })
+
+  it('should stream section events when a listener is attached', async () => {
+    const events: BlueprintStreamEvent[] = []
+    const response = await orchestrator.generateBlueprint(mockRequest, event => events.push(event))
+
+    const types = events.map(event => event.type)
+    expect(types[0]).toBe('section-started')
+    expect(types[types.length - 1]).toBe('blueprint-completed')
+    expect(types.filter(type => type === 'section-completed')).toHaveLength(5)
+
+    const productPlanText = events
+      .filter(event => event.type === 'token-delta' && event.section === 'productPlan')
+      .map(event => (event as { delta: string }).delta)
+      .join('')
+    expect(ProductPlanResponseSchema.parse(JSON.parse(productPlanText))).toEqual(response.blueprint.productPlan)
+
+    // Roadmap cannot start before the tech stack it depends on has completed
+    const techStackDone = events.findIndex(e => e.type === 'section-completed' && e.section === 'techStack')
+    const roadmapStart = events.findIndex(e => e.type === 'section-started' && e.section === 'roadmap')
+    expect(roadmapStart).toBeGreaterThan(techStackDone)
+    expect(response.generationMetadata.totalCost).toBeGreaterThan(0)
+  })
+
+  it('should only stream tokens while someone is watching', async () => {
+    const aiManager = latestAIManager()
+    const events: BlueprintStreamEvent[] = []
+
+    await orchestrator.generateBlueprint(mockRequest, event => events.push(event), { streamTokens: () => false })
+
+    expect(aiManager.makeStreamingRequest).not.toHaveBeenCalled()
+    expect(events.some(event => event.type === 'token-delta')).toBe(false)
+    expect(events.filter(event => event.type === 'section-completed')).toHaveLength(5)
+  })
+
+  it('should repair section responses that fail schema validation', async () => {
+    const aiManager = latestAIManager()
+    aiManager.makeRequest.mockResolvedValueOnce({
+      success: true,
+      data: 'Here is your plan:\n```json\n{ "targetAudience": { "primary": "Founders" }, "coreFeatures": [] }\n```',
+      usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150, cost: 0.004 },
+      metadata: { provider: 'openai', model: 'gpt-4', latency: 500, timestamp: new Date(), requestId: 'test-bad' }
+    })
+
+    const response = await orchestrator.generateBlueprint(mockRequest)
+
+    const repairRequest = aiManager.makeRequest.mock.calls[1][0]
+    expect(repairRequest.prompt).toContain('coreFeatures: At least one core feature is required')
+    expect(response.generationMetadata.sectionStatus.productPlan?.status).toBe('completed')
+    expect(response.generationMetadata.sectionStatus.productPlan?.cost).toBeCloseTo(0.014)
+    // Five sections plus the one repair request
+    expect(response.generationMetadata.aiCallsUsed).toBe(6)
+    expect(response.blueprint.productPlan?.coreFeatures[0].name).toBe('Task Management')
+  })
+
+  it('should fail a section once repair attempts are exhausted', async () => {
+    const aiManager = latestAIManager()
+    aiManager.makeRequest.mockResolvedValue({
+      success: true,
+      data: 'Sorry, I cannot help with that.',
+      usage: { promptTokens: 10, completionTokens: 10, totalTokens: 20, cost: 0.001 },
+      metadata: { provider: 'openai', model: 'gpt-4', latency: 100, timestamp: new Date(), requestId: 'test-bad' }
+    })
+
+    await expect(orchestrator.generateBlueprint(mockRequest))
+      .rejects.toThrow('Invalid product plan response after 2 repair attempts')
+    // The original request plus two repair attempts
+    expect(aiManager.makeRequest).toHaveBeenCalledTimes(3)
+  })
+
+  it('should run the tools a section calls before it answers', async () => {
+    const aiManager = latestAIManager()
+    const answer = aiManager.makeRequest.getMockImplementation()
+    aiManager.makeRequest.mockImplementation(async (request: AIRequest) => {
+      if (request.tools?.some(tool => tool.name === 'cost_calculator') && request.messages?.length === 1) {
+        return {
+          success: true,
+          data: '',
+          toolCalls: [{
+            id: 'call_1',
+            name: 'cost_calculator',
+            arguments: { monthlyActiveUsers: 100, aiRequestsPerUser: 10, tokensPerRequest: 1000 }
+          }],
+          usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120, cost: 0.002 },
+          metadata: { provider: 'openai', model: 'gpt-4', latency: 100, timestamp: new Date(), requestId: 'test-tool' }
+        }
+      }
+      return answer(request)
+    })
+
+    const response = await orchestrator.generateBlueprint(mockRequest)
+
+    const financialCalls = aiManager.makeRequest.mock.calls
+      .map(([request]: [AIRequest]) => request)
+      .filter((request: AIRequest) => request.tools?.some(tool => tool.name === 'cost_calculator'))
+    expect(financialCalls).toHaveLength(2)
+    expect(financialCalls[1].messages[1]).toMatchObject({ role: 'assistant', toolCalls: [{ id: 'call_1' }] })
+    // 1M tokens on the default gpt-3.5-turbo at $0.002 per 1k
+    expect(JSON.parse(financialCalls[1].messages[2].content)).toMatchObject({ aiCostPerMonth: 2 })
+    expect(response.generationMetadata.sectionStatus.financialModel?.status).toBe('completed')
+    // Five sections plus the tool round
+    expect(response.generationMetadata.aiCallsUsed).toBe(6)
+  })
+
+  it('should stop generating once the budget is spent', async () => {
+    const store = { getSpend: vi.fn().mockResolvedValue(1), record: vi.fn() }
+    const budgeted = new AIOrchestrationService({
+      budget: { userId: 'user-1', projectId: 'project-1', tier: 'FREE' },
+      budgetManager: new AIBudgetManager(store)
+    })
+    const aiManager = latestAIManager()
+
+    await expect(budgeted.generateBlueprint(mockRequest)).rejects.toThrow('AI budget exceeded for the FREE tier')
+    expect(aiManager.makeRequest).not.toHaveBeenCalled()
+    expect(store.record).not.toHaveBeenCalled()
+  })
+
+  it('should record the spend of each budgeted call', async () => {
+    const store = { getSpend: vi.fn().mockResolvedValue(0), record: vi.fn() }
+    const budgeted = new AIOrchestrationService({
+      budget: { userId: 'user-1', projectId: 'project-1', tier: 'PRO' },
+      budgetManager: new AIBudgetManager(store)
+    })
+
+    const response = await budgeted.generateBlueprint(mockRequest)
+
+    const recorded = store.record.mock.calls.map(([entry]) => entry)
+    expect(recorded.map(entry => entry.section)).toEqual(expect.arrayContaining(['productPlan', 'financialModel']))
+    expect(recorded.every(entry => entry.userId === 'user-1' && entry.projectId === 'project-1')).toBe(true)
+    expect(recorded.reduce((total, entry) => total + entry.cost, 0)).toBeCloseTo(response.generationMetadata.totalCost)
+  })
+
+  it('should charge every tool round to the budget', async () => {
+    const store = { getSpend: vi.fn().mockResolvedValue(0), record: vi.fn() }
+    const budgetManager = new AIBudgetManager(store)
+    const authorize = vi.spyOn(budgetManager, 'authorize')
+    const budgeted = new AIOrchestrationService({
+      budget: { userId: 'user-1', projectId: 'project-1', tier: 'PRO' },
+      budgetManager
+    })
+    const aiManager = latestAIManager()
+    const answer = aiManager.makeRequest.getMockImplementation()
+    aiManager.makeRequest.mockImplementation(async (request: AIRequest) => {
+      if (request.tools?.some(tool => tool.name === 'cost_calculator') && request.messages?.length === 1) {
+        return {
+          success: true,
+          data: '',
+          toolCalls: [{ id: 'call_1', name: 'cost_calculator', arguments: { monthlyActiveUsers: 10 } }],
+          usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120, cost: 0.002 },
+          metadata: { provider: 'openai', model: 'gpt-4', latency: 100, timestamp: new Date(), requestId: 'test-tool' }
+        }
+      }
+      return answer(request)
+    })
+
+    await budgeted.generateBlueprint(mockRequest)
+
+    const financialRounds = authorize.mock.calls
+      .filter(([, request]) => request.tools?.some(tool => tool.name === 'cost_calculator'))
+    expect(financialRounds).toHaveLength(2)
+    const recorded = store.record.mock.calls.map(([entry]) => entry).filter(entry => entry.section === 'financialModel')
+    expect(recorded).toHaveLength(2)
+  })
+
   it('should provide meaningful warnings and recommendations', async () => {
     const response = await orchestrator.generateBlueprint(mockRequest)
 
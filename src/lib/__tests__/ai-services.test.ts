@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { AIServiceManager } from '../ai-services/ai-service-manager'
+import { OpenAIClient } from '../ai-services/clients/openai-client'
+import { AnthropicClient } from '../ai-services/clients/anthropic-client'
 import { AdvancedAIServiceConfig } from '@/types/ai-services'
 
 // Mock the AI clients
@@ -43,6 +45,12 @@ vi.mock('../ai-services/clients/anthropic-client', () => ({
   }))
 }))
 
+/** Requests sent to the mocked client of the most recently created manager */
+function requestsTo(Client: typeof OpenAIClient | typeof AnthropicClient): number {
+  const client = vi.mocked(Client).mock.results.at(-1)?.value
+  return client ? vi.mocked(client.makeRequest).mock.calls.length : 0
+}
+
 describe('AIServiceManager', () => {
   let config: AdvancedAIServiceConfig
   let manager: AIServiceManager
@@ -121,6 +129,47 @@ describe('AIServiceManager', () => {
     expect(response.metadata.provider).toBe('openai')
   })
 
+  it('should route requests with the configured strategy', async () => {
+    manager.updateConfig({ loadBalancing: { strategy: 'round_robin', weights: { openai: 2, anthropic: 1 } } })
+
+    const providers: string[] = []
+    for (let i = 0; i < 3; i++) {
+      const response = await manager.makeRequest({ provider: 'openai', model: 'gpt-4', prompt: `Hello ${i}` })
+      providers.push(response.metadata.provider)
+      expect(response.metadata.routing).toEqual({
+        strategy: 'round_robin',
+        requestedProvider: 'openai',
+        requestedModel: 'gpt-4'
+      })
+    }
+
+    expect(providers).toEqual(['openai', 'anthropic', 'openai'])
+  })
+
+  it('should serve repeated requests from the response cache', async () => {
+    const request = { provider: 'openai', model: 'gpt-4', prompt: 'Cache me', temperature: 0.2 }
+
+    const first = await manager.makeRequest(request)
+    const second = await manager.makeRequest(request)
+
+    expect(first.usage.cache).toEqual({ status: 'miss', savedCost: 0 })
+    expect(second.usage.cache).toEqual({ status: 'hit', savedCost: 0.001 })
+    expect(second.usage.cost).toBe(0)
+    expect(second.data).toBe(first.data)
+    expect(requestsTo(OpenAIClient)).toBe(1)
+  })
+
+  it('should bypass the cache for high-temperature requests', async () => {
+    const request = { provider: 'openai', model: 'gpt-4', prompt: 'Be creative', temperature: 1.2 }
+
+    await manager.makeRequest(request)
+    const response = await manager.makeRequest(request)
+
+    expect(response.usage.cache?.status).toBe('bypass')
+    // Round-robin spreads the two uncached calls over both providers
+    expect(requestsTo(OpenAIClient) + requestsTo(AnthropicClient)).toBe(2)
+  })
+
   it('should test connections', async () => {
     const connections = await manager.testConnections()
 
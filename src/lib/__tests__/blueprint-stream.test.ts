@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { BlueprintStreamBroker, formatServerSentEvent } from '../blueprint-stream'
+import { BlueprintStreamEvent } from '@/types/ai-services'
+
+const completedStatus = {
+  section: 'productPlan' as const,
+  status: 'completed' as const,
+  dependsOn: [],
+  duration: 10,
+  cost: 0.01
+}
+
+describe('BlueprintStreamBroker', () => {
+  afterEach(() => {
+    BlueprintStreamBroker.clear('project-1')
+  })
+
+  it('should deliver published events to subscribers', () => {
+    const listener = vi.fn()
+    BlueprintStreamBroker.open('project-1')
+    const unsubscribe = BlueprintStreamBroker.subscribe('project-1', listener)
+    expect(BlueprintStreamBroker.hasSubscribers('project-1')).toBe(true)
+
+    BlueprintStreamBroker.publish('project-1', { type: 'section-started', section: 'productPlan', timestamp: new Date() })
+    unsubscribe!()
+    expect(BlueprintStreamBroker.hasSubscribers('project-1')).toBe(false)
+    BlueprintStreamBroker.publish('project-1', { type: 'token-delta', section: 'productPlan', delta: '{' })
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener.mock.calls[0][0].type).toBe('section-started')
+  })
+
+  it('should replay missed events and drop tokens of completed sections', () => {
+    BlueprintStreamBroker.publish('project-1', { type: 'section-started', section: 'productPlan', timestamp: new Date() })
+    BlueprintStreamBroker.publish('project-1', { type: 'token-delta', section: 'productPlan', delta: '{"a":' })
+    BlueprintStreamBroker.publish('project-1', { type: 'section-started', section: 'techStack', timestamp: new Date() })
+    BlueprintStreamBroker.publish('project-1', { type: 'token-delta', section: 'techStack', delta: '{"b":' })
+    BlueprintStreamBroker.publish('project-1', {
+      type: 'section-completed',
+      section: 'productPlan',
+      status: completedStatus,
+      data: { a: 1 }
+    })
+
+    const replayed: BlueprintStreamEvent[] = []
+    BlueprintStreamBroker.subscribe('project-1', event => replayed.push(event))
+
+    expect(replayed.map(event => event.type)).toEqual([
+      'section-started',
+      'section-started',
+      'token-delta',
+      'section-completed'
+    ])
+    expect(replayed[2]).toMatchObject({ section: 'techStack', delta: '{"b":' })
+  })
+
+  it('should not open a channel for projects that are not generating', () => {
+    expect(BlueprintStreamBroker.subscribe('project-1', vi.fn())).toBeNull()
+    expect(BlueprintStreamBroker.isActive('project-1')).toBe(false)
+  })
+
+  it('should format events for the event-stream wire format', () => {
+    const text = formatServerSentEvent({ type: 'generation-failed', message: 'boom' })
+
+    expect(text).toBe('event: generation-failed\ndata: {"type":"generation-failed","message":"boom"}\n\n')
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { diffBlueprints } from '../versioning/diff'
+import { saveBlueprint } from '../versioning/versions'
+
+interface StoredVersion {
+  projectId: string
+  version: number
+  blueprint: unknown
+  source: string
+}
+
+const store = vi.hoisted(() => ({
+  project: { blueprint: null as unknown },
+  versions: [] as StoredVersion[],
+  steps: [] as string[]
+}))
+
+vi.mock('../prisma', () => {
+  const tx = {
+    $queryRaw: vi.fn(async () => {
+      store.steps.push('lock')
+      return []
+    }),
+    blueprintVersion: {
+      findFirst: vi.fn(async () => {
+        store.steps.push('latest')
+        return store.versions.length ? { version: store.versions[store.versions.length - 1].version } : null
+      }),
+      create: vi.fn(async ({ data }: { data: StoredVersion }) => {
+        store.versions.push(data)
+        return data
+      })
+    },
+    project: {
+      findUnique: vi.fn(async () => store.project),
+      update: vi.fn(async ({ data }: { data: { blueprint: unknown } }) => {
+        store.project.blueprint = data.blueprint
+        return store.project
+      })
+    }
+  }
+  return { prisma: { $transaction: (run: (client: typeof tx) => Promise<unknown>) => run(tx) } }
+})
+
+const blueprint = {
+  id: 'bp-1',
+  generatedAt: '2026-10-01T00:00:00.000Z',
+  productPlan: {
+    differentiators: ['Fast', 'Cheap'],
+    coreFeatures: [
+      { id: 'f1', name: 'Invoicing', priority: 'high' },
+      { id: 'f2', name: 'Reminders', priority: 'low' }
+    ],
+    monetization: { primary: { model: 'freemium' } }
+  },
+  techStack: { frontend: { framework: 'Next.js' } }
+}
+
+describe('blueprint versions', () => {
+  beforeEach(() => {
+    store.project.blueprint = null
+    store.versions = []
+    store.steps = []
+  })
+
+  it('should report field changes per section', () => {
+    const diff = diffBlueprints(blueprint, {
+      ...blueprint,
+      id: 'bp-2',
+      generatedAt: '2026-10-02T00:00:00.000Z',
+      productPlan: {
+        differentiators: ['Fast', 'Friendly', 'Open source'],
+        coreFeatures: [
+          { id: 'f3', name: 'Client portal', priority: 'medium' },
+          { id: 'f1', name: 'Invoicing', priority: 'critical' }
+        ],
+        monetization: { primary: { model: 'subscription' } }
+      },
+      techStack: blueprint.techStack
+    })
+
+    expect(diff.sections).toEqual([{
+      section: 'productPlan',
+      type: 'changed',
+      changes: [
+        { path: 'differentiators[1]', type: 'changed', before: 'Cheap', after: 'Friendly' },
+        { path: 'differentiators[2]', type: 'added', after: 'Open source' },
+        { path: 'coreFeatures[f1].priority', type: 'changed', before: 'high', after: 'critical' },
+        { path: 'coreFeatures[f2]', type: 'removed', before: { id: 'f2', name: 'Reminders', priority: 'low' } },
+        { path: 'coreFeatures[f3]', type: 'added', after: { id: 'f3', name: 'Client portal', priority: 'medium' } },
+        { path: 'monetization.primary.model', type: 'changed', before: 'freemium', after: 'subscription' }
+      ]
+    }])
+    expect(diff.totals).toEqual({ added: 2, removed: 1, changed: 3 })
+  })
+
+  it('should report whole sections that were added or removed', () => {
+    const { techStack, ...withoutTechStack } = blueprint
+    const diff = diffBlueprints(withoutTechStack, { ...blueprint, roadmap: { phases: [] }, techStack: undefined })
+
+    expect(diff.sections).toEqual([
+      { section: 'roadmap', type: 'added', changes: [{ path: '', type: 'added', after: { phases: [] } }] }
+    ])
+    expect(diffBlueprints(blueprint, withoutTechStack).sections).toEqual([
+      { section: 'techStack', type: 'removed', changes: [{ path: '', type: 'removed', before: techStack }] }
+    ])
+    expect(diffBlueprints(blueprint, structuredClone(blueprint)).sections).toEqual([])
+  })
+
+  it('should record a numbered version with every save', async () => {
+    await saveBlueprint('p1', blueprint, { source: 'generation', userId: 'u1' })
+    const second = await saveBlueprint('p1', { ...blueprint, techStack: {} }, { source: 'edit', section: 'techStack' })
+
+    expect(second).toMatchObject({ version: 2, source: 'edit', section: 'techStack' })
+    expect(store.versions.map(version => [version.version, version.source])).toEqual([[1, 'generation'], [2, 'edit']])
+    expect(store.project.blueprint).toEqual({ ...blueprint, techStack: {} })
+    // The project row is locked before the latest version is read, so concurrent saves wait their turn
+    expect(store.steps).toEqual(['lock', 'latest', 'lock', 'latest'])
+  })
+
+  it('should schedule a saved roadmap again so its dates follow edits', async () => {
+    const task = { id: 't1', name: 'Build', description: '', estimatedHours: 12, priority: 'medium', category: 'development', dependencies: [], status: 'not_started' }
+    const roadmap = {
+      phases: [{ id: 'mvp', name: 'MVP', description: '', tasks: [task], estimatedHours: 12, dependencies: [], milestone: { name: 'MVP done' } }],
+      totalEstimate: 12,
+      timeline: '',
+      dependencies: [],
+      risks: [],
+      schedule: { startDate: '2026-01-05T00:00:00.000Z', teamSize: 2, hoursPerDay: 6 }
+    }
+
+    await saveBlueprint('p1', { ...blueprint, roadmap }, { source: 'edit', section: 'roadmap' })
+
+    const saved = store.project.blueprint as { roadmap: { schedule: { teamSize: number; durationDays: number } } }
+    expect(saved.roadmap.schedule).toMatchObject({ teamSize: 2, durationDays: 2 })
+    expect(store.versions[0].blueprint).toBe(saved)
+  })
+
+  it('should keep a blueprint saved before versioning as a baseline', async () => {
+    store.project.blueprint = blueprint
+
+    await saveBlueprint('p1', { ...blueprint, techStack: {} }, { source: 'regeneration', section: 'techStack' })
+
+    expect(store.versions.map(version => [version.version, version.source, version.blueprint])).toEqual([
+      [1, 'baseline', blueprint],
+      [2, 'regeneration', { ...blueprint, techStack: {} }]
+    ])
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { businessModelOf, deriveBusinessModelCanvas, deriveValueProposition } from '../business-model/canvas'
+import { BusinessModelCanvas, FinancialModel, Priority, ProductPlan } from '@/types'
+
+const productPlan = {
+  targetAudience: {
+    primary: { demographics: 'Freelance designers', psychographics: '', painPoints: ['Chasing late payments'], goals: ['Get paid on time'] },
+    secondary: { demographics: 'Small studios', psychographics: '', painPoints: [], goals: [] },
+    marketSize: { tam: 0, sam: 0, som: 0 }
+  },
+  coreFeatures: [
+    { id: 'f1', name: 'Invoicing', description: 'Send and track invoices', priority: Priority.CRITICAL },
+    { id: 'f2', name: 'Reminders', description: 'Automatic payment reminders', priority: Priority.HIGH },
+    { id: 'f3', name: 'Themes', description: 'Branded invoice themes', priority: Priority.LOW }
+  ],
+  differentiators: ['Paid in half the time', 'Built by designers'],
+  monetization: {
+    primary: {
+      model: 'freemium',
+      reasoning: 'Let designers try it on one client',
+      pricing: [
+        { name: 'Free', price: 0, interval: 'monthly', features: [], targetSegment: 'Freelance designers' },
+        { name: 'Pro', price: 19, interval: 'monthly', features: [], targetSegment: 'Busy freelancers' },
+        { name: 'Studio', price: 490, interval: 'yearly', features: [], targetSegment: 'Small studios' }
+      ]
+    },
+    alternatives: []
+  },
+  gtmStrategy: {
+    launchStrategy: 'Product Hunt launch',
+    marketingChannels: [{ name: 'Dribbble ads', cost: 500, expectedROI: 2, timeline: 'Month 1', description: '' }],
+    partnerships: ['Stripe'],
+    timeline: [],
+    budget: 5000
+  }
+} as unknown as ProductPlan
+
+const financialModel = {
+  costs: {
+    infrastructure: [
+      { service: 'Vercel', category: 'hosting', cost: 20, scaling: [], description: '' },
+      { service: 'Neon', category: 'database', cost: 50, scaling: [{ users: 1000, cost: 200, description: '' }], description: '' }
+    ],
+    team: [{ role: 'Engineer', salary: 6000, benefits: 2000, timeline: 'Month 1' }],
+    tools: [{ name: 'Figma', category: 'design', cost: 180, interval: 'yearly', users: 1 }],
+    marketing: [{ channel: 'Newsletter sponsorships', budget: 400, expectedReturn: 2, timeline: 'Month 2' }],
+    total: 0,
+    monthly: 0,
+    yearly: 0
+  },
+  revenue: {
+    model: 'Subscription',
+    projections: [{ month: 1, users: 10, revenue: 190 }, { month: 12, users: 300, revenue: 5700 }],
+    assumptions: [],
+    scenarios: []
+  },
+  metrics: { cac: 0, ltv: 0, ltvCacRatio: 0, burnRate: 0, runway: 0, breakeven: 0, roi: 0 },
+  scenarios: []
+} as unknown as FinancialModel
+
+describe('business model canvas', () => {
+  it('should fill the list blocks from the product plan and costs', () => {
+    const canvas = deriveBusinessModelCanvas(productPlan, financialModel)
+
+    expect(canvas.customerSegments).toEqual(['Freelance designers', 'Small studios', 'Busy freelancers'])
+    expect(canvas.valuePropositions).toEqual(['Paid in half the time', 'Built by designers'])
+    expect(canvas.channels).toEqual(['Dribbble ads', 'Newsletter sponsorships'])
+    expect(canvas.keyPartners).toEqual(['Stripe', 'Vercel', 'Neon'])
+    expect(canvas.keyActivities).toEqual(['Build Invoicing', 'Build Reminders', 'Customer acquisition'])
+    expect(canvas.keyResources).toEqual(['Engineer', 'Hosted platform'])
+    expect(canvas.customerRelationships[1]).toMatch(/upgrade free users/)
+  })
+
+  it('should turn cost items into monthly fixed and variable costs', () => {
+    const { costStructure } = deriveBusinessModelCanvas(productPlan, financialModel)
+
+    expect(costStructure).toEqual([
+      { category: 'Team', description: 'Engineer', amount: 8000, type: 'fixed' },
+      { category: 'Infrastructure', description: 'Vercel', amount: 20, type: 'fixed' },
+      { category: 'Infrastructure', description: 'Neon', amount: 50, type: 'variable' },
+      { category: 'Tools', description: 'Figma', amount: 15, type: 'fixed' },
+      { category: 'Marketing', description: 'Newsletter sponsorships', amount: 400, type: 'variable' }
+    ])
+  })
+
+  it('should make a revenue stream of each paid tier', () => {
+    const { revenueStreams } = deriveBusinessModelCanvas(productPlan, financialModel)
+
+    expect(revenueStreams).toEqual([
+      { name: 'Pro', description: 'Busy freelancers', model: 'freemium', pricing: 19, volume: 150, frequency: 'monthly' },
+      { name: 'Studio', description: 'Small studios', model: 'freemium', pricing: 490, volume: 150, frequency: 'yearly' }
+    ])
+
+    const unpriced = { ...productPlan, monetization: { ...productPlan.monetization, primary: { ...productPlan.monetization.primary, pricing: [] } } }
+    expect(deriveBusinessModelCanvas(unpriced, financialModel).revenueStreams).toEqual([
+      { name: 'Subscription', description: 'Let designers try it on one client', model: 'freemium', pricing: 19, volume: 300, frequency: 'monthly' }
+    ])
+  })
+
+  it('should write a value proposition for the primary audience', () => {
+    expect(deriveValueProposition(productPlan)).toEqual({
+      headline: 'Paid in half the time',
+      subheadline: 'For freelance designers tired of chasing late payments',
+      benefits: ['Get paid on time'],
+      features: ['Invoicing', 'Reminders', 'Themes'],
+      proof: ['Built by designers'],
+      targetSegment: 'Freelance designers'
+    })
+  })
+
+  it('should prefer the canvas saved on the product plan', () => {
+    const saved: BusinessModelCanvas = { ...deriveBusinessModelCanvas(productPlan, financialModel), channels: ['Word of mouth'] }
+    const edited = businessModelOf({ ...productPlan, businessModelCanvas: saved } as ProductPlan, financialModel)
+
+    expect(edited.edited).toBe(true)
+    expect(edited.canvas.channels).toEqual(['Word of mouth'])
+    expect(businessModelOf(productPlan, financialModel).edited).toBe(false)
+    expect(businessModelOf(undefined, undefined).canvas.costStructure).toEqual([])
+  })
+})
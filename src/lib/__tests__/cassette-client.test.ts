@@ -0,0 +1,129 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readdir, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { CassetteClient, RecordableClient } from '../ai-services/clients/cassette-client'
+import { CassetteStore } from '../ai-services/cassette'
+import { AIRequest } from '@/types/ai-services'
+
+function liveClient(): RecordableClient & { makeRequest: ReturnType<typeof vi.fn> } {
+  return {
+    makeRequest: vi.fn().mockImplementation(async (request: AIRequest) => ({
+      success: true,
+      data: `answer to ${request.prompt}`,
+      usage: { promptTokens: 5, completionTokens: 7, totalTokens: 12, cost: 0.0004 },
+      metadata: {
+        provider: request.provider,
+        model: request.model,
+        latency: 321,
+        timestamp: new Date('2024-05-01T10:00:00Z'),
+        requestId: 'live-1'
+      }
+    })),
+    makeStreamingRequest: vi.fn().mockImplementation(async () => (async function* () {
+      yield 'Hel'
+      yield 'lo'
+    })()),
+    testConnection: vi.fn().mockResolvedValue(true)
+  }
+}
+
+const request: AIRequest = {
+  provider: 'openai',
+  model: 'gpt-4-turbo',
+  systemPrompt: 'You are a planner.',
+  prompt: 'Plan a   todo app\r\n'
+}
+
+describe('CassetteClient', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'cassette-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should key requests by normalized prompt only', () => {
+    const key = CassetteStore.keyFor(request)
+
+    expect(CassetteStore.keyFor({ ...request, prompt: 'Plan a todo app' })).toBe(key)
+    expect(CassetteStore.keyFor({ ...request, provider: 'anthropic', model: 'claude-3-opus-20240229' })).toBe(key)
+    expect(CassetteStore.keyFor({ ...request, prompt: 'Plan a todo list' })).not.toBe(key)
+  })
+
+  it('should replay recorded responses exactly without the provider', async () => {
+    const store = new CassetteStore(directory)
+    const live = liveClient()
+    const recorded = await new CassetteClient('openai', store, { mode: 'record', directory, strict: true }, live)
+      .makeRequest(request)
+
+    expect(await readdir(directory)).toEqual([`${CassetteStore.keyFor(request)}.json`])
+
+    const replayer = new CassetteClient('anthropic', store, { mode: 'replay', directory, strict: true })
+    const replayed = await replayer.makeRequest({ ...request, provider: 'anthropic' })
+
+    expect(replayed).toEqual(recorded)
+    expect(replayed.metadata.timestamp).toBeInstanceOf(Date)
+    expect(live.makeRequest).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fail unrecorded requests in strict mode', async () => {
+    const live = liveClient()
+    const client = new CassetteClient('openai', new CassetteStore(directory), { mode: 'replay', directory, strict: true }, live)
+
+    const response = await client.makeRequest(request)
+
+    expect(response.success).toBe(false)
+    expect(response.error?.code).toBe('CASSETTE_MISS')
+    expect(response.error?.message).toContain('Plan a todo app')
+    await expect(client.makeStreamingRequest(request)).rejects.toThrow('No cassette recording')
+    expect(live.makeRequest).not.toHaveBeenCalled()
+  })
+
+  it('should record misses when replay is not strict', async () => {
+    const live = liveClient()
+    const client = new CassetteClient('openai', new CassetteStore(directory), { mode: 'replay', directory, strict: false }, live)
+
+    await client.makeRequest(request)
+    await client.makeRequest(request)
+
+    expect(live.makeRequest).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not record failed responses', async () => {
+    const live = liveClient()
+    live.makeRequest.mockResolvedValueOnce({
+      success: false,
+      error: { code: 'RATE_LIMIT', message: 'Rate limit exceeded', type: 'rate_limit', retryable: true },
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 },
+      metadata: { provider: 'openai', model: 'gpt-4-turbo', latency: 12, timestamp: new Date(), requestId: 'live-0' }
+    })
+    const client = new CassetteClient('openai', new CassetteStore(directory), { mode: 'record', directory, strict: true }, live)
+
+    expect((await client.makeRequest(request)).success).toBe(false)
+    expect(await readdir(directory)).toHaveLength(0)
+
+    expect((await client.makeRequest(request)).success).toBe(true)
+    expect(await readdir(directory)).toHaveLength(1)
+  })
+
+  it('should record and replay streamed chunks', async () => {
+    const store = new CassetteStore(directory)
+    const collect = async (stream: AsyncIterable<string>) => {
+      const chunks: string[] = []
+      for await (const chunk of stream) chunks.push(chunk)
+      return chunks
+    }
+
+    const recorder = new CassetteClient('openai', store, { mode: 'record', directory, strict: true }, liveClient())
+    expect(await collect(await recorder.makeStreamingRequest(request))).toEqual(['Hel', 'lo'])
+
+    const replayer = new CassetteClient('openai', store, { mode: 'replay', directory, strict: true })
+    expect(await collect(await replayer.makeStreamingRequest(request))).toEqual(['Hel', 'lo'])
+    expect((await replayer.makeRequest(request)).data).toBe('Hello')
+  })
+})
@@ -0,0 +1,363 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest'
+import { connect, Socket } from 'net'
+import { AddressInfo } from 'net'
+import { NodeType } from '@/types'
+import type { ProjectRole } from '../access/roles'
+import { applyChanges, CollaborativeDocument, diffFields, FieldOperation } from '../collaboration/document'
+import { ServerMessage } from '../collaboration/protocol'
+import { createCollaborationServer, CollaborationServerOptions, CollaborationStore } from '../collaboration/server'
+import { signCollaborationTicket, verifyCollaborationTicket } from '../collaboration/tickets'
+import { decodeFrames, encodeFrame, MAX_MESSAGE_BYTES, OPCODES } from '../collaboration/websocket'
+
+const workflow = {
+  aiWorkflow: {
+    nodes: [
+      { id: 'input', label: 'Input', position: { x: 0, y: 0 } },
+      { id: 'model', label: 'Model', position: { x: 200, y: 0 } }
+    ],
+    configuration: { parallel: false, timeout: 30 }
+  }
+}
+
+describe('CollaborativeDocument', () => {
+  it('merges edits to different fields of the same item', () => {
+    const alice = new CollaborativeDocument(workflow)
+    const bob = new CollaborativeDocument(workflow)
+
+    const fromAlice = alice.update(['aiWorkflow', 'nodes', { id: 'model' }, 'label'], 'GPT', 'alice')
+    const fromBob = bob.update(['aiWorkflow', 'nodes', { id: 'model' }, 'position'], { x: 250, y: 40 }, 'bob')
+    fromBob.forEach(operation => alice.apply(operation))
+    fromAlice.forEach(operation => bob.apply(operation))
+
+    expect(alice.blueprint).toEqual(bob.blueprint)
+    expect(alice.blueprint.aiWorkflow).toMatchObject({
+      nodes: [{ id: 'input' }, { id: 'model', label: 'GPT', position: { x: 250, y: 40 } }]
+    })
+  })
+
+  it('converges whatever order operations arrive in', () => {
+    const operations: FieldOperation[] = [
+      { path: ['aiWorkflow', 'configuration', 'timeout'], value: 60, clock: { counter: 3, clientId: 'alice' } },
+      { path: ['aiWorkflow', 'configuration'], value: { parallel: true }, clock: { counter: 1, clientId: 'bob' } },
+      { path: ['aiWorkflow', 'nodes', { id: 'input' }], clock: { counter: 2, clientId: 'carol' } },
+      { path: ['aiWorkflow', 'nodes', { id: 'input' }, 'label'], value: 'Source', clock: { counter: 1, clientId: 'dave' } }
+    ]
+
+    const inOrder = new CollaborativeDocument(workflow, operations)
+    const reversed = new CollaborativeDocument(workflow, [...operations].reverse())
+
+    expect(reversed.blueprint).toEqual(inOrder.blueprint)
+    // Bob's older replacement of the configuration does not undo Alice's newer timeout
+    expect(inOrder.blueprint.aiWorkflow).toEqual({
+      nodes: [{ id: 'model', label: 'Model', position: { x: 200, y: 0 } }],
+      configuration: { parallel: true, timeout: 60 }
+    })
+  })
+
+  it('keeps the newest write to a field and ignores repeats', () => {
+    const document = new CollaborativeDocument(workflow)
+    const newer = { path: ['aiWorkflow', 'configuration', 'timeout'], value: 90, clock: { counter: 5, clientId: 'a' } }
+    const older = { ...newer, value: 10, clock: { counter: 4, clientId: 'z' } }
+
+    expect(document.apply(newer)).toBe(true)
+    expect(document.apply(older)).toBe(false)
+    expect(document.apply(newer)).toBe(false)
+    expect(document.blueprint.aiWorkflow).toMatchObject({ configuration: { timeout: 90 } })
+  })
+
+  it('writes only what a draft changed since its base, keeping edits made meanwhile', () => {
+    const document = new CollaborativeDocument(workflow)
+    const base = workflow.aiWorkflow
+    document.update(['aiWorkflow', 'configuration', 'timeout'], 60, 'bob')
+
+    const draft = { ...base, nodes: [base.nodes[0], { ...base.nodes[1], label: 'GPT' }] }
+    const operations = document.update(['aiWorkflow'], draft, 'alice', base)
+
+    expect(operations.map(operation => operation.path)).toEqual([['aiWorkflow', 'nodes', { id: 'model' }, 'label']])
+    expect(document.blueprint.aiWorkflow).toMatchObject({
+      nodes: [{ id: 'input' }, { id: 'model', label: 'GPT' }],
+      configuration: { timeout: 60 }
+    })
+  })
+
+  it('replays an edit in reverse over a value others have changed since, as undo does', () => {
+    const before = workflow.aiWorkflow
+    const after = { ...before, nodes: [before.nodes[0], { ...before.nodes[1], label: 'GPT' }] }
+    const current = { ...after, configuration: { ...after.configuration, timeout: 60 } }
+
+    expect(applyChanges(current, diffFields(after, before))).toEqual({
+      ...before,
+      configuration: { parallel: false, timeout: 60 }
+    })
+  })
+
+  it('describes a whole new value as edits to the fields that changed', () => {
+    const after = {
+      aiWorkflow: {
+        ...workflow.aiWorkflow,
+        nodes: [
+          { id: 'input', label: 'Input', position: { x: 10, y: 0 } },
+          { id: 'output', label: 'Output', position: { x: 400, y: 0 } }
+        ]
+      }
+    }
+
+    expect(diffFields(workflow, after)).toEqual([
+      { path: ['aiWorkflow', 'nodes', { id: 'model' }] },
+      { path: ['aiWorkflow', 'nodes', { id: 'input' }, 'position', 'x'], value: 10 },
+      { path: ['aiWorkflow', 'nodes', { id: 'output' }], value: after.aiWorkflow.nodes[1] }
+    ])
+  })
+})
+
+describe('collaboration tickets', () => {
+  const ticket = { projectId: 'p1', userId: 'u1', name: 'Ada', role: 'editor' as const }
+
+  it('accepts its own signature until the ticket expires', () => {
+    const token = signCollaborationTicket(ticket, 'secret', 1000)
+
+    expect(verifyCollaborationTicket(token, 'secret', 2000)).toMatchObject(ticket)
+    expect(verifyCollaborationTicket(token, 'other-secret', 2000)).toBeNull()
+    expect(verifyCollaborationTicket(token, 'secret', 1000 + 61000)).toBeNull()
+  })
+
+  it('rejects tickets whose contents were changed', () => {
+    const [, signature] = signCollaborationTicket(ticket, 'secret').split('.')
+    const forged = Buffer.from(JSON.stringify({ ...ticket, role: 'owner', expiresAt: Date.now() + 60000 })).toString('base64url')
+
+    expect(verifyCollaborationTicket(`${forged}.${signature}`, 'secret')).toBeNull()
+  })
+})
+
+describe('WebSocket frames', () => {
+  it('round-trips masked frames of every length encoding', () => {
+    const short = Buffer.from('hi')
+    const medium = Buffer.alloc(300, 'a')
+    const { frames, rest } = decodeFrames(Buffer.concat([
+      encodeFrame(OPCODES.text, short, true),
+      encodeFrame(OPCODES.text, medium, true),
+      encodeFrame(OPCODES.ping, Buffer.alloc(0)).subarray(0, 1)
+    ]))
+
+    expect(frames.map(frame => frame.payload.toString())).toEqual(['hi', medium.toString()])
+    expect(frames.every(frame => frame.masked && frame.fin)).toBe(true)
+    expect(rest.length).toBe(1)
+  })
+})
+
+describe('collaboration server', () => {
+  const SECRET = 'test-secret'
+  // Live edits must leave sections in a shape the app reads
+  const session = {
+    aiWorkflow: {
+      nodes: workflow.aiWorkflow.nodes.map(node => ({ ...node, type: NodeType.PROCESSING, configuration: {}, inputs: [], outputs: [] })),
+      edges: [{ id: 'edge-1', source: 'input', target: 'model' }],
+      modules: [],
+      configuration: { parallel: false, timeout: 30, retries: 3, fallbackEnabled: true }
+    }
+  }
+  const sockets: Socket[] = []
+  let server: ReturnType<typeof createCollaborationServer> | null = null
+
+  afterEach(async () => {
+    sockets.forEach(socket => socket.destroy())
+    sockets.length = 0
+    await new Promise(resolve => server ? server.close(resolve) : resolve(undefined))
+    server = null
+  })
+
+  function memoryStore(initial: object) {
+    const store = {
+      blueprint: initial,
+      saves: [] as { blueprint: object; userIds: string[] }[],
+      roles: { alice: 'editor', bob: 'editor', vera: 'viewer' } as Record<string, ProjectRole | null>,
+      async load() {
+        return store.blueprint
+      },
+      async save(_projectId: string, blueprint: object, userIds: string[]) {
+        store.blueprint = blueprint
+        store.saves.push({ blueprint, userIds })
+      },
+      async roleOf(_projectId: string, userId: string) {
+        return store.roles[userId] ?? null
+      }
+    }
+    return store satisfies CollaborationStore
+  }
+
+  async function start(store: CollaborationStore, options: Partial<CollaborationServerOptions> = {}) {
+    server = createCollaborationServer({ secret: SECRET, store, saveDelayMs: 60000, ...options })
+    await new Promise<void>(resolve => server!.listen(0, resolve))
+    return (server.address() as AddressInfo).port
+  }
+
+  /** A bare WebSocket client that collects what the server sends */
+  async function join(port: number, userId: string, role: 'viewer' | 'editor', clientId: string = userId) {
+    const ticket = signCollaborationTicket({ projectId: 'p1', userId, name: userId, role }, SECRET)
+    const socket = connect(port)
+    sockets.push(socket)
+
+    const messages: ServerMessage[] = []
+    const waiting: (() => void)[] = []
+    let buffer: Buffer = Buffer.alloc(0)
+    let upgraded = false
+    let closeCode: number | undefined
+
+    socket.on('data', data => {
+      buffer = Buffer.concat([buffer, data])
+      if (!upgraded) {
+        const end = buffer.indexOf('\r\n\r\n')
+        if (end < 0) return
+        expect(buffer.subarray(0, end).toString()).toContain('101 Switching Protocols')
+        buffer = buffer.subarray(end + 4)
+        upgraded = true
+      }
+      const { frames, rest } = decodeFrames(buffer)
+      buffer = rest
+      frames.filter(frame => frame.opcode === OPCODES.text)
+        .forEach(frame => messages.push(JSON.parse(frame.payload.toString())))
+      frames.filter(frame => frame.opcode === OPCODES.close)
+        .forEach(frame => { closeCode = frame.payload.readUInt16BE(0) })
+      waiting.splice(0).forEach(wake => wake())
+    })
+
+    socket.write([
+      `GET /?ticket=${encodeURIComponent(ticket)}&clientId=${clientId} HTTP/1.1`,
+      'Host: localhost',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+      'Sec-WebSocket-Version: 13',
+      '',
+      ''
+    ].join('\r\n'))
+
+    const next = async <T extends ServerMessage['type']>(type: T) => {
+      for (;;) {
+        const index = messages.findIndex(message => message.type === type)
+        if (index >= 0) return messages.splice(index, 1)[0] as Extract<ServerMessage, { type: T }>
+        await new Promise<void>(resolve => waiting.push(resolve))
+      }
+    }
+    /** The code the server closed the connection with */
+    const closed = async () => {
+      while (closeCode === undefined) await new Promise<void>(resolve => waiting.push(resolve))
+      return closeCode
+    }
+    const send = (message: object) => socket.write(encodeFrame(OPCODES.text, Buffer.from(JSON.stringify(message)), true))
+
+    return { next, closed, send, socket, welcome: await next('welcome') }
+  }
+
+  it('relays edits between editors and saves the merged blueprint', async () => {
+    const store = memoryStore(session)
+    const port = await start(store)
+
+    const alice = await join(port, 'alice', 'editor')
+    const bob = await join(port, 'bob', 'editor')
+    expect(bob.welcome.peers.map(peer => peer.userId).sort()).toEqual(['alice', 'bob'])
+
+    const document = new CollaborativeDocument(alice.welcome.initial, alice.welcome.operations)
+    const operations = document.update(['aiWorkflow', 'configuration', 'timeout'], 45, 'alice')
+    alice.send({ type: 'operations', operations })
+
+    expect(await alice.next('ack')).toEqual({ type: 'ack', through: operations[0].clock.counter })
+    expect((await bob.next('operations')).operations).toEqual(operations)
+
+    await server!.flush()
+    expect(store.saves).toHaveLength(1)
+    expect(store.saves[0].userIds).toEqual(['alice'])
+    expect(store.saves[0].blueprint).toMatchObject({ aiWorkflow: { configuration: { timeout: 45 } } })
+  })
+
+  it('lets viewers follow along but not edit', async () => {
+    const store = memoryStore(session)
+    const port = await start(store)
+    const viewer = await join(port, 'vera', 'viewer')
+
+    viewer.send({
+      type: 'operations',
+      operations: [{ path: ['aiWorkflow', 'configuration', 'timeout'], value: 1, clock: { counter: 1, clientId: 'vera' } }]
+    })
+
+    expect(await viewer.next('error')).toEqual({ type: 'error', error: 'Viewers cannot edit this project' })
+    await server!.flush()
+    expect(store.saves).toHaveLength(0)
+  })
+
+  it('merges changes saved outside the session instead of overwriting them', async () => {
+    const store = memoryStore(session)
+    const port = await start(store)
+    const alice = await join(port, 'alice', 'editor')
+
+    alice.send({
+      type: 'operations',
+      operations: [{ path: ['aiWorkflow', 'configuration', 'timeout'], value: 45, clock: { counter: 1, clientId: 'alice' } }]
+    })
+    await alice.next('ack')
+
+    // e.g. a section regenerated from the project page
+    store.blueprint = { ...session, roadmap: { phases: [] } }
+    alice.send({ type: 'sync' })
+    expect((await alice.next('operations')).operations.map(operation => operation.path)).toEqual([['roadmap']])
+
+    await server!.flush()
+    expect(store.blueprint).toMatchObject({ roadmap: { phases: [] }, aiWorkflow: { configuration: { timeout: 45 } } })
+  })
+  it('refuses live edits that would leave a section the app cannot read', async () => {
+    const store = memoryStore(session)
+    const port = await start(store)
+    const alice = await join(port, 'alice', 'editor')
+
+    alice.send({
+      type: 'operations',
+      operations: [{ path: ['aiWorkflow', 'nodes', { id: 'model' }, 'position'], value: 'left', clock: { counter: 1, clientId: 'alice' } }]
+    })
+    expect(await alice.next('ack')).toEqual({ type: 'ack', through: 1 })
+    // Sent the session again, without the refused edit, so the client drops it
+    expect((await alice.next('welcome')).operations).toEqual([])
+    expect(await alice.next('error')).toEqual({ type: 'error', error: 'Invalid aiWorkflow' })
+
+    alice.send({
+      type: 'operations',
+      operations: [{ path: ['techStack', 'frontend'], value: 'jQuery', clock: { counter: 2, clientId: 'alice' } }]
+    })
+    expect(await alice.next('error')).toEqual({ type: 'error', error: 'techStack.frontend cannot be edited live' })
+
+    await server!.flush()
+    expect(store.saves).toHaveLength(0)
+  })
+
+  it('applies role changes made during the session', async () => {
+    const store = memoryStore(session)
+    const port = await start(store, { roleCheckMs: 20 })
+    const alice = await join(port, 'alice', 'editor')
+
+    store.roles.alice = 'viewer'
+    expect(await alice.next('role')).toEqual({ type: 'role', role: 'viewer' })
+    alice.send({
+      type: 'operations',
+      operations: [{ path: ['aiWorkflow', 'configuration', 'timeout'], value: 1, clock: { counter: 1, clientId: 'alice' } }]
+    })
+    expect(await alice.next('error')).toEqual({ type: 'error', error: 'Viewers cannot edit this project' })
+
+    store.roles.alice = null
+    expect(await alice.closed()).toBe(4003)
+  })
+
+  it('closes connections whose fragmented message grows past the limit', async () => {
+    const port = await start(memoryStore(session))
+    const alice = await join(port, 'alice', 'editor')
+
+    // Each frame is under the limit, but the message they make up is not
+    const half = Buffer.alloc(MAX_MESSAGE_BYTES / 2 + 1, 'a')
+    for (const opcode of [OPCODES.text, OPCODES.continuation]) {
+      const frame = encodeFrame(opcode, half, true)
+      frame[0] &= 0x7f // not the final frame
+      alice.socket.write(frame)
+    }
+
+    expect(await alice.closed()).toBe(1009)
+  })
+})
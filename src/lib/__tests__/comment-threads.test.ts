@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { listCommentAnchors } from '../comments/anchors'
+import { createCommentThread, parseMentions, replyToThread, resolveMentions, shareLinkAuthor } from '../comments/threads'
+import { Blueprint } from '@/types'
+
+interface StoredNotification {
+  userId: string
+  type: string
+  title: string
+}
+
+const store = vi.hoisted(() => ({
+  notifications: [] as StoredNotification[],
+  thread: null as unknown
+}))
+
+vi.mock('../prisma', () => ({
+  prisma: {
+    project: {
+      findUnique: vi.fn(async () => ({
+        userId: 'owner',
+        name: 'Acme',
+        user: { id: 'owner', name: 'Olivia Owner', email: 'olivia@acme.com' }
+      }))
+    },
+    comment: {
+      findMany: vi.fn(async () => [{ author: { id: 'advisor', name: 'Ada Advisor', email: 'ada@fund.vc' } }])
+    },
+    commentThread: {
+      create: vi.fn(async ({ data }: { data: { comments: { create: object } } & Record<string, unknown> }) => ({
+        id: 'thread-1',
+        ...data,
+        status: 'open',
+        resolvedAt: null,
+        createdAt: new Date(),
+        comments: [{ id: 'comment-1', createdAt: new Date(), ...data.comments.create }]
+      })),
+      findFirst: vi.fn(async () => store.thread),
+      update: vi.fn(async () => store.thread)
+    },
+    notification: {
+      createMany: vi.fn(async ({ data }: { data: StoredNotification[] }) => {
+        store.notifications.push(...data)
+        return { count: data.length }
+      })
+    }
+  }
+}))
+
+const blueprint = {
+  productPlan: {
+    coreFeatures: [{ id: 'feature-1', name: 'Invoicing' }],
+    monetization: {}
+  },
+  techStack: {
+    frontend: [{ name: 'Next.js' }],
+    backend: [],
+    database: [{ name: 'PostgreSQL' }]
+  },
+  roadmap: {
+    phases: [{ id: 'phase-1', name: 'MVP', tasks: [{ id: 'task-1', name: 'Auth' }] }]
+  },
+  financialModel: {
+    costs: {
+      infrastructure: [{ service: 'Vercel' }],
+      team: [{ role: 'Engineer' }],
+      tools: [],
+      marketing: []
+    }
+  }
+} as unknown as Blueprint
+
+describe('listCommentAnchors', () => {
+  it('anchors features, tech choices, roadmap tasks and cost lines by id or name', () => {
+    const paths = listCommentAnchors(blueprint).map(anchor => `${anchor.section}:${anchor.path}`)
+
+    expect(paths).toEqual(expect.arrayContaining([
+      'productPlan:coreFeatures[feature-1]',
+      'techStack:frontend[Next.js]',
+      'techStack:database[PostgreSQL]',
+      'roadmap:phases[phase-1].tasks[task-1]',
+      'financialModel:costs.infrastructure[Vercel]',
+      'financialModel:costs.team[0]'
+    ]))
+    expect(listCommentAnchors(null)).toEqual([])
+  })
+})
+
+describe('mentions', () => {
+  const people = [
+    { id: 'owner', name: 'Olivia Owner', email: 'olivia@acme.com' },
+    { id: 'advisor', name: 'Ada Advisor', email: 'ada@fund.vc' }
+  ]
+
+  it('parses handles but not email addresses', () => {
+    expect(parseMentions('@Ada can you check this? cc @olivia. Mail me at bob@example.com')).toEqual(['ada', 'olivia'])
+  })
+
+  it('matches handles on the email name or the full name', () => {
+    expect(resolveMentions(['ada', 'oliviaowner', 'nobody'], people)).toEqual(['advisor', 'owner'])
+  })
+})
+
+describe('shareLinkAuthor', () => {
+  it('uses the signed-in user, else the given name, else nobody', () => {
+    expect(shareLinkAuthor('link-1', { id: 'u1', name: 'Uma' })).toEqual({ userId: 'u1', name: 'Uma', shareLinkId: 'link-1' })
+    expect(shareLinkAuthor('link-1', undefined, 'Investor')).toEqual({ name: 'Investor', shareLinkId: 'link-1' })
+    expect(shareLinkAuthor('link-1', undefined)).toBeNull()
+  })
+})
+
+describe('comment notifications', () => {
+  beforeEach(() => {
+    store.notifications = []
+    store.thread = null
+  })
+
+  it('notifies the owner of a share link comment and the people it mentions', async () => {
+    const thread = await createCommentThread(
+      'project-1',
+      { section: 'productPlan', path: 'coreFeatures[feature-1]', label: 'Invoicing' },
+      'Is this needed for launch, @ada?',
+      { name: 'Investor', shareLinkId: 'link-1' }
+    )
+
+    expect(thread.comments[0]).toMatchObject({ mentions: ['advisor'], viaShareLink: true })
+    expect(store.notifications).toEqual([
+      expect.objectContaining({ userId: 'advisor', type: 'mention' }),
+      expect.objectContaining({ userId: 'owner', type: 'comment' })
+    ])
+  })
+
+  it('does not notify the author of their own comment', async () => {
+    await createCommentThread(
+      'project-1',
+      { section: 'productPlan', path: 'coreFeatures[feature-1]', label: 'Invoicing' },
+      'Note to self',
+      { userId: 'owner', name: 'Olivia Owner' }
+    )
+
+    expect(store.notifications).toEqual([])
+  })
+
+  it('returns null for replies to threads outside the project', async () => {
+    expect(await replyToThread('project-1', 'missing', 'Hello', { name: 'Investor' })).toBeNull()
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompetition, buildFeatureMatrix, comparePricing, mergeCompetitors, parsePricing, suggestedCompetitors } from '../competitive-analysis/matrix'
+import { parseCompetitorCSV } from '../competitive-analysis/csv'
+import { ProductPlan } from '@/types'
+import { CompetitorData } from '@/types/services'
+
+const productPlan = {
+  coreFeatures: [
+    { id: 'f1', name: 'Invoicing', description: '' },
+    { id: 'f2', name: 'Payment reminders', description: '' },
+    { id: 'f3', name: 'Client portal', description: '' }
+  ],
+  monetization: {
+    primary: {
+      model: 'freemium',
+      reasoning: '',
+      pricing: [
+        { name: 'Free', price: 0, interval: 'monthly', features: [], targetSegment: '' },
+        { name: 'Pro', price: 19, interval: 'monthly', features: [], targetSegment: '' },
+        { name: 'Studio', price: 480, interval: 'yearly', features: [], targetSegment: '' }
+      ]
+    },
+    alternatives: []
+  },
+  competitorAnalysis: {
+    direct: [
+      { name: 'FreshBooks', strengths: ['Brand'], weaknesses: ['Slow support'], pricing: '$17/month or $55/month' },
+      { name: 'Wave', strengths: ['Free'], weaknesses: ['Slow support', 'Few integrations'], pricing: 'Free' }
+    ],
+    indirect: [{ name: 'Spreadsheets', strengths: [], weaknesses: [], pricing: '' }],
+    whitespace: []
+  }
+} as unknown as ProductPlan
+
+function competitor(name: string, changes: Partial<CompetitorData> = {}): CompetitorData {
+  return {
+    name,
+    category: 'direct',
+    strengths: [],
+    weaknesses: [],
+    pricing: parsePricing(''),
+    features: [],
+    marketShare: 0,
+    userReviews: { averageRating: 0, totalReviews: 0, positiveAspects: [], negativeAspects: [], commonComplaints: [] },
+    ...changes
+  }
+}
+
+describe('competitive analysis', () => {
+  it('should read tiers out of free-text pricing', () => {
+    expect(parsePricing('Free, $12/user/month or $99/year; contact us for enterprise')).toEqual({
+      model: 'Free, $12/user/month or $99/year; contact us for enterprise',
+      tiers: [
+        { name: 'Free', price: 0, interval: 'monthly', features: [], targetSegment: '' },
+        { name: '$12/user/month', price: 12, interval: 'monthly', features: [], targetSegment: '' },
+        { name: '$99/year', price: 99, interval: 'yearly', features: [], targetSegment: '' }
+      ],
+      freeTrial: false,
+      customPricing: true
+    })
+    expect(parsePricing('14-day free trial, then $1,200 one-time').tiers).toEqual([
+      { name: '$1,200 one-time', price: 1200, interval: 'one-time', features: [], targetSegment: '' }
+    ])
+  })
+
+  it('should let the user\'s data override the suggested competitor of the same name', () => {
+    const merged = mergeCompetitors(suggestedCompetitors(productPlan), [
+      competitor('freshbooks', { features: ['Invoices'] }),
+      competitor('Bonsai')
+    ])
+
+    expect(merged.map(c => [c.name, c.source])).toEqual([
+      ['freshbooks', 'user'], ['Wave', 'ai'], ['Spreadsheets', 'ai'], ['Bonsai', 'user']
+    ])
+    expect(merged[0].features).toEqual(['Invoices'])
+    expect(merged[0].weaknesses).toEqual(['Slow support'])
+    expect(merged[0].pricing.tiers.map(tier => tier.price)).toEqual([17, 55])
+    expect(merged[2].category).toBe('indirect')
+  })
+
+  it('should match similar feature names into one matrix row', () => {
+    const rows = buildFeatureMatrix(['Invoicing', 'Payment reminders'], [
+      competitor('FreshBooks', { features: ['Reminders for payments', 'Time tracking'] }),
+      competitor('Wave')
+    ])
+
+    expect(rows).toEqual([
+      { feature: 'Invoicing', ours: true, competitors: { FreshBooks: false, Wave: null } },
+      { feature: 'Payment reminders', ours: true, competitors: { FreshBooks: true, Wave: null } },
+      { feature: 'Time tracking', ours: false, competitors: { FreshBooks: true, Wave: null } }
+    ])
+  })
+
+  it('should place our tiers among competitor prices per month', () => {
+    const pricing = comparePricing(productPlan.monetization.primary.pricing, suggestedCompetitors(productPlan))
+
+    expect(pricing.pricePoints.map(point => point.monthly)).toEqual([17, 55])
+    expect(pricing.range).toEqual({ min: 17, median: 36, max: 55 })
+    expect(pricing.ours.map(tier => [tier.tier, tier.monthly, tier.percentile, tier.nearest?.monthly])).toEqual([
+      ['Free', 0, 0, 17],
+      ['Pro', 19, 0.5, 17],
+      ['Studio', 40, 0.5, 55]
+    ])
+    expect(comparePricing([], []).range).toBeNull()
+  })
+
+  it('should find feature, price and weakness gaps', () => {
+    const gaps = analyzeCompetition({
+      ...productPlan,
+      competitorData: [
+        competitor('FreshBooks', { features: ['Invoicing', 'Time tracking'], pricing: parsePricing('$17/month or $55/month') }),
+        competitor('Harvest', { features: ['Time tracking'], weaknesses: ['Slow support'] })
+      ]
+    }).gaps
+
+    expect(gaps.map(gap => [gap.type, gap.title])).toEqual([
+      ['unique-feature', 'Only we offer payment reminders'],
+      ['unique-feature', 'Only we offer client portal'],
+      ['missing-feature', 'Missing time tracking'],
+      ['price', 'No competitor charges between $17 and $55 a month'],
+      ['weakness', 'Competitors are weak on slow support']
+    ])
+    expect(gaps[3].detail).toBe('Our Pro and Studio tiers sit in this gap.')
+    expect(gaps[4].competitors).toEqual(['FreshBooks', 'Wave', 'Harvest'])
+  })
+
+  it('should read competitors from a CSV with a row per tier', () => {
+    const { competitors, errors } = parseCompetitorCSV([
+      'Name,Category,Features,Tier,Price,Interval,Free trial',
+      'Bonsai,direct,"Contracts; Invoicing",Starter,$21,monthly,yes',
+      'Bonsai,,Time tracking,Business,"$1,000",yearly,',
+      'HoneyBook,indirect,"Proposals, e-signatures",,,,',
+      ',direct,,,,,',
+      'Dubsado,direct,,Pro,lots,,'
+    ].join('\r\n'))
+
+    expect(errors).toEqual(['Row 5: missing a name', 'Row 6: "lots" is not a price'])
+    expect(competitors.map(c => c.name)).toEqual(['Bonsai', 'HoneyBook'])
+    expect(competitors[0].features).toEqual(['Contracts', 'Invoicing', 'Time tracking'])
+    expect(competitors[0].pricing.freeTrial).toBe(true)
+    expect(competitors[0].pricing.tiers.map(tier => [tier.name, tier.price, tier.interval])).toEqual([
+      ['Starter', 21, 'monthly'],
+      ['Business', 1000, 'yearly']
+    ])
+    expect(competitors[1]).toMatchObject({ category: 'indirect', features: ['Proposals, e-signatures'] })
+    expect(parseCompetitorCSV('Company,Price\n').errors).toEqual([])
+    expect(parseCompetitorCSV('Price\n10').errors).toEqual(['The file needs a "name" column'])
+  })
+})
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { AIBudgetManager, AISpendEntry, AISpendStore, TierBudget } from '../ai-services/cost-budget'
+import { AIRequest, AIResponse } from '@/types/ai-services'
+
+function memoryStore(entries: (AISpendEntry & { createdAt: Date })[] = []): AISpendStore & { entries: typeof entries } {
+  return {
+    entries,
+    async getSpend(userId, since, projectId) {
+      return entries
+        .filter(entry => entry.userId === userId && entry.createdAt >= since)
+        .filter(entry => !projectId || entry.projectId === projectId)
+        .reduce((total, entry) => total + entry.cost, 0)
+    },
+    async record(entry) {
+      entries.push({ ...entry, createdAt: new Date() })
+    }
+  }
+}
+
+function spent(cost: number, projectId?: string): AISpendEntry & { createdAt: Date } {
+  return {
+    userId: 'user-1',
+    projectId,
+    tier: 'FREE',
+    provider: 'openai',
+    model: 'gpt-4-turbo',
+    promptTokens: 0,
+    completionTokens: 0,
+    cost,
+    createdAt: new Date()
+  }
+}
+
+const budgets: Record<'FREE' | 'PRO' | 'ENTERPRISE', TierBudget> = {
+  FREE: { monthlyLimit: 0.05, projectLimit: 0.02 },
+  PRO: { monthlyLimit: 1, projectLimit: 0.5 },
+  ENTERPRISE: { monthlyLimit: -1, projectLimit: -1 }
+}
+
+// About 1000 prompt tokens plus 3000 completion tokens: $0.04 on gpt-4-turbo, $0.008 on gpt-3.5-turbo
+const request: AIRequest = {
+  provider: 'openai',
+  model: 'gpt-4-turbo',
+  prompt: 'word '.repeat(1000).trim(),
+  maxTokens: 3000
+}
+
+const scope = { userId: 'user-1', projectId: 'project-1', tier: 'FREE' as const }
+
+describe('AIBudgetManager', () => {
+  beforeEach(() => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test')
+    vi.stubEnv('LOCAL_AI_ENDPOINT', '')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should allow requests that fit the budget unchanged', async () => {
+    const manager = new AIBudgetManager(memoryStore(), budgets)
+    const decision = await manager.authorize({ ...scope, tier: 'PRO' }, request)
+
+    expect(decision).toMatchObject({ allowed: true, request, downgraded: false })
+    expect(decision.projectedCost).toBeCloseTo(0.04, 3)
+  })
+
+  it('should downgrade to the cheapest model when the project budget is nearly spent', async () => {
+    const manager = new AIBudgetManager(memoryStore([spent(0.01, 'project-1')]), budgets)
+    const decision = await manager.authorize(scope, { ...request, prompt: 'word '.repeat(100).trim() })
+
+    expect(decision.allowed).toBe(true)
+    expect(decision.allowed && decision.downgraded).toBe(true)
+    expect(decision.allowed && decision.request.model).toBe('gpt-3.5-turbo')
+  })
+
+  it('should reject requests once the monthly budget is spent', async () => {
+    const manager = new AIBudgetManager(memoryStore([spent(0.03), spent(0.02, 'project-2')]), budgets)
+    const decision = await manager.authorize(scope, request)
+
+    expect(decision.allowed).toBe(false)
+    expect(!decision.allowed && decision.reason).toContain('AI budget exceeded for the FREE tier')
+  })
+
+  it('should record spend and summarize the current month', async () => {
+    const store = memoryStore([{ ...spent(5), createdAt: new Date('2000-01-01') }])
+    const manager = new AIBudgetManager(store, budgets)
+    const response: AIResponse = {
+      success: true,
+      data: '{}',
+      usage: { promptTokens: 100, completionTokens: 200, totalTokens: 300, cost: 0.012 },
+      metadata: { provider: 'anthropic', model: 'claude-3-haiku-20240307', latency: 10, timestamp: new Date(), requestId: 'r1' }
+    }
+
+    await manager.record(scope, response, 'roadmap')
+    expect(store.entries[1]).toMatchObject({ projectId: 'project-1', section: 'roadmap', provider: 'anthropic', cost: 0.012 })
+
+    const summary = await manager.getSummary('user-1', 'FREE')
+    expect(summary.spentThisMonth).toBeCloseTo(0.012)
+    expect(summary.remainingThisMonth).toBeCloseTo(0.038)
+  })
+
+  it('should never limit unlimited tiers beyond the hourly limit', async () => {
+    const manager = new AIBudgetManager(memoryStore([{ ...spent(1000), createdAt: new Date('2000-01-01') }]), budgets)
+
+    expect((await manager.authorize({ ...scope, tier: 'ENTERPRISE' }, request)).allowed).toBe(true)
+    expect((await manager.getSummary('user-1', 'ENTERPRISE')).remainingThisMonth).toBe(-1)
+  })
+
+  it('should stop any tier spending more than the hourly limit', async () => {
+    const manager = new AIBudgetManager(memoryStore([spent(0.05)]), budgets, 0.05)
+    const decision = await manager.authorize({ ...scope, tier: 'ENTERPRISE' }, request)
+
+    expect(decision.allowed).toBe(false)
+  })
+
+  it('should hold the projected cost of calls in flight until they are recorded', async () => {
+    const manager = new AIBudgetManager(memoryStore(), budgets)
+
+    // Each call is downgraded to ~$0.008, so only two fit the $0.02 project budget at once
+    const decisions = await Promise.all([1, 2, 3].map(() => manager.authorize(scope, request)))
+    expect(decisions.map(decision => decision.allowed)).toEqual([true, true, false])
+
+    const first = decisions[0]
+    if (!first.allowed) throw new Error('expected the first call to be allowed')
+    await manager.record(scope, {
+      success: true,
+      data: '{}',
+      usage: { promptTokens: 10, completionTokens: 10, totalTokens: 20, cost: 0.001 },
+      metadata: { provider: 'openai', model: 'gpt-3.5-turbo', latency: 10, timestamp: new Date(), requestId: 'r1' }
+    }, 'productPlan', first.reservation)
+
+    expect((await manager.authorize(scope, request)).allowed).toBe(true)
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { buildFinancialModel, CostItems, projectFinancials } from '../financial/financial-engine'
+import { FinancialAssumptions } from '@/types'
+
+const assumptions: FinancialAssumptions = {
+  market: { size: 0, growth: 0, penetration: 1 },
+  pricing: { strategy: 'Flat', price: 10, elasticity: 0, increases: [] },
+  customers: { signups: 100, growth: 0, conversion: 0.1, churn: 0.1, cac: 0 },
+  funding: { cash: 0 },
+  costs: { inflation: 0, optimization: 0, scaling: 0 },
+  operations: { efficiency: 0, automation: 0, outsourcing: 0 }
+}
+
+const noCosts: CostItems = { infrastructure: [], team: [], tools: [], marketing: [] }
+
+describe('financial engine', () => {
+  it('should grow customers by converted sign-ups net of churn', () => {
+    const { projections } = projectFinancials(assumptions, noCosts, { months: 3 })
+
+    expect(projections.map(month => month.users)).toEqual([10, 19, 27])
+    expect(projections[1].revenue).toBe(190)
+    expect(projections[1].growth).toBeCloseTo(0.9)
+    expect(projections[0].churn).toBe(0)
+    expect(projections[1].churn).toBe(0.1)
+  })
+
+  it('should charge costs from their start month and interval', () => {
+    const costs: CostItems = {
+      infrastructure: [{
+        service: 'Database',
+        category: 'database',
+        cost: 100,
+        scaling: [{ users: 15, cost: 300, description: 'Bigger instance' }],
+        description: ''
+      }],
+      team: [{ role: 'Developer', salary: 5000, benefits: 1000, timeline: 'Month 3' }],
+      tools: [
+        { name: 'Design', category: 'design', cost: 1200, interval: 'yearly', users: 1 },
+        { name: 'Audit', category: 'security', cost: 500, interval: 'one-time', users: 1 }
+      ],
+      marketing: [{ channel: 'Ads', budget: 400, expectedReturn: 2, timeline: 'Q2' }]
+    }
+
+    const { projections } = projectFinancials(assumptions, costs, { months: 4 })
+
+    expect(projections.map(month => month.costs)).toEqual([
+      100 + 100 + 500,
+      300 + 100,
+      300 + 100 + 6000,
+      300 + 100 + 6000 + 400
+    ])
+  })
+
+  it('should apply yearly price increases, elasticity and the market cap', () => {
+    const { projections } = projectFinancials({
+      ...assumptions,
+      market: { size: 1000, growth: 0, penetration: 0.02 },
+      pricing: { ...assumptions.pricing, elasticity: 1, increases: [0.5] },
+      customers: { ...assumptions.customers, churn: 0 }
+    }, noCosts, { months: 13 })
+
+    expect(projections[2].users).toBe(20)
+    expect(projections[11].revenue).toBe(200)
+    expect(projections[12].revenue).toBe(300)
+  })
+
+  it('should derive metrics that agree with the projection', () => {
+    const costs: CostItems = {
+      ...noCosts,
+      infrastructure: [{ service: 'Hosting', category: 'hosting', cost: 100, scaling: [], description: '' }],
+      team: [{ role: 'Founder', salary: 500, benefits: 0, timeline: 'Month 1' }]
+    }
+
+    const { projections, metrics, totals } = projectFinancials({
+      ...assumptions,
+      customers: { ...assumptions.customers, cac: 20 },
+      funding: { cash: 2000 }
+    }, costs, { months: 24 })
+
+    const breakeven = projections.find(month => month.revenue >= (month.costs ?? 0))
+    expect(metrics.breakeven).toBe(16)
+    expect(breakeven?.month).toBe(16)
+    expect(metrics.cac).toBe(20)
+    expect(metrics.ltv).toBeCloseTo(10 * (1 - totals.infrastructure / totals.revenue) / 0.1, 1)
+    expect(metrics.ltvCacRatio).toBeCloseTo(metrics.ltv / metrics.cac, 2)
+
+    expect(metrics.runway).toBe(3)
+    expect(projections[2].cash).toBeGreaterThan(0)
+    expect(projections[3].cash).toBeLessThan(0)
+    expect(metrics.roi).toBeCloseTo((totals.revenue - totals.costs) / totals.costs * 100, 0)
+  })
+
+  it('should report no breakeven and extrapolate the runway while burning cash', () => {
+    const { metrics } = projectFinancials({
+      ...assumptions,
+      customers: { ...assumptions.customers, signups: 0 },
+      funding: { cash: 10000 }
+    }, { ...noCosts, team: [{ role: 'Founder', salary: 1000, benefits: 0, timeline: 'Month 1' }] }, { months: 6 })
+
+    expect(metrics.breakeven).toBe(-1)
+    expect(metrics.burnRate).toBe(1000)
+    expect(metrics.runway).toBe(10)
+  })
+
+  it('should build a model whose cost totals match its projections', () => {
+    const model = buildFinancialModel(assumptions, {
+      ...noCosts,
+      team: [{ role: 'Founder', salary: 1000, benefits: 0, timeline: 'Month 1' }]
+    }, { model: 'Subscription', notes: ['Launch in the US'] }, { months: 18 })
+
+    const monthlyCosts = model.revenue.projections.map(month => month.costs ?? 0)
+    expect(model.costs.total).toBe(monthlyCosts.reduce((sum, cost) => sum + cost, 0))
+    expect(model.costs.yearly).toBe(12000)
+    expect(model.revenue.assumptions).toContain('Launch in the US')
+    expect(model.assumptions).toBe(assumptions)
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import { buildInvestorReport, narrativeOf } from '../investor-report/builder'
+import { blocksToHTML, blocksToMarkdown, reportToBlocks } from '../investor-report/document'
+import { blocksToPDF } from '../investor-report/pdf'
+import { Blueprint, ComprehensiveFinancialModel, FundingStrategy, ProductPlan, Roadmap } from '@/types'
+
+const productPlan = {
+  targetAudience: {
+    primary: { demographics: 'Freelance designers', psychographics: 'Hate admin', painPoints: [], goals: [] },
+    marketSize: { tam: 5_000_000_000, sam: 800_000_000, som: 40_000_000 }
+  },
+  coreFeatures: [{ id: 'f1', name: 'Invoicing', description: 'Send and track invoices' }],
+  differentiators: ['Paid in half the time'],
+  monetization: {
+    primary: {
+      model: 'subscription',
+      reasoning: 'Recurring value',
+      pricing: [{ name: 'Pro', price: 19, interval: 'monthly', features: [], targetSegment: 'Solo <designers>' }]
+    },
+    alternatives: []
+  },
+  competitorAnalysis: {
+    direct: [{ name: 'FreshBooks', strengths: [], weaknesses: ['Pricing'], pricing: '$17' }],
+    indirect: [],
+    whitespace: ['No tool built for designers']
+  }
+} as unknown as ProductPlan
+
+const roadmap = {
+  phases: [],
+  risks: [
+    { id: 'r1', description: 'Low retention', probability: 3, impact: 4, mitigation: 'Onboarding emails', category: 'Market' },
+    { id: 'r2', description: 'Payment provider outage', probability: 6, impact: 8, mitigation: 'Second provider', category: 'Technical' }
+  ]
+} as unknown as Roadmap
+
+const financialModel: ComprehensiveFinancialModel = {
+  costs: {
+    infrastructure: [{ service: 'Vercel', category: 'hosting', cost: 2000, scaling: [], description: '' }],
+    team: [{ role: 'Engineer', salary: 6000, benefits: 2000, timeline: 'Month 1' }],
+    tools: [],
+    marketing: [],
+    total: 0,
+    monthly: 0,
+    yearly: 0
+  },
+  revenue: {
+    model: 'Subscription',
+    projections: Array.from({ length: 24 }, (_, index) => ({ month: index + 1, users: index * 5, revenue: 500 * index, costs: 10000, cash: 0 })),
+    assumptions: ['5% monthly churn'],
+    scenarios: []
+  },
+  metrics: { cac: 120, ltv: 600, ltvCacRatio: 5, burnRate: 8000, runway: 14, breakeven: -1, roi: 0 },
+  scenarios: [],
+  funding: {
+    stages: [{ name: 'Seed', amount: 500_000, purpose: ['Runway'], milestones: ['$20K MRR'], timeline: 'Month 2' }],
+    sources: [],
+    timeline: {
+      preparation: 'Month 1',
+      fundraising: 'Months 1–2',
+      closing: 'Month 2',
+      milestones: [{ name: 'Seed closed', date: new Date('2026-03-01'), requirements: ['$20K MRR'], deliverables: [] }]
+    },
+    terms: {
+      valuation: { pre: 2_000_000, post: 2_500_000 },
+      equity: 0.2,
+      liquidation: '1x non-participating preference',
+      board: [],
+      voting: [],
+      antiDilution: 'Broad-based weighted average'
+    }
+  } as FundingStrategy
+}
+
+const blueprint: Partial<Blueprint> = { productPlan, roadmap, financialModel }
+
+describe('investor report', () => {
+  it('should assemble every section from the blueprint', () => {
+    const report = buildInvestorReport(blueprint, { projectName: 'Invoicely' })
+
+    expect(report.executiveSummary).toBe(
+      'Invoicely is a subscription business for freelance designers. Paid in half the time. ' +
+      'We project $105K of revenue in year 2. We are raising $500K in a Seed round to get there.'
+    )
+    expect(report.marketOpportunity.competitiveLandscape).toBe('FreshBooks compete directly. FreshBooks is weak on pricing.')
+    expect(report.marketOpportunity.marketTrends).toEqual(['No tool built for designers'])
+    expect(report.businessModel.keyMetrics.ltvCacRatio).toBe(5)
+    expect(report.financialProjections.projections).toHaveLength(24)
+    expect(report.appendices.map(appendix => appendix.title)).toEqual(['Pricing'])
+  })
+
+  it('should rank roadmap risks and add contingencies for the severe ones', () => {
+    const { riskAnalysis } = buildInvestorReport(blueprint, { projectName: 'Invoicely' })
+
+    expect(riskAnalysis.risks.map(risk => risk.description)).toEqual(['Payment provider outage', 'Low retention'])
+    expect(riskAnalysis.mitigation).toEqual(['Second provider', 'Onboarding emails'])
+    expect(riskAnalysis.contingencies).toHaveLength(2)
+    expect(riskAnalysis.contingencies[0]).toMatch(/^If payment provider outage:/)
+    expect(riskAnalysis.contingencies[1]).toMatch(/no later than month 8/)
+  })
+
+  it('should split the round across cost categories', () => {
+    const { fundingRequest } = buildInvestorReport(blueprint, { projectName: 'Invoicely' })
+
+    expect(fundingRequest.amount).toBe(500_000)
+    expect(fundingRequest.use).toEqual([
+      { category: 'Team', amount: 400_000, percentage: 80, description: 'Engineer' },
+      { category: 'Infrastructure', amount: 100_000, percentage: 20, description: 'Vercel' }
+    ])
+    expect(fundingRequest.terms[0]).toBe('$2M pre-money, $2.5M post-money')
+  })
+
+  it('should replace generated narrative with the user\'s text', () => {
+    const report = buildInvestorReport(blueprint, {
+      projectName: 'Invoicely',
+      narrative: { executiveSummary: 'Our own summary.', opportunity: '' }
+    })
+
+    expect(report.executiveSummary).toBe('Our own summary.')
+    expect(narrativeOf(report).opportunity).toBe('Paid in half the time')
+  })
+
+  it('should render the same blocks as HTML and Markdown', () => {
+    const blocks = reportToBlocks(buildInvestorReport(blueprint, { projectName: 'Invoicely' }), 'Invoicely: Investor Report')
+    const html = blocksToHTML(blocks, 'Invoicely: Investor Report')
+    const markdown = blocksToMarkdown(blocks)
+
+    expect(blocks.filter(block => block.type === 'heading' && block.level === 2).map(block => block.type === 'heading' && block.text)).toEqual([
+      'Executive Summary', 'Market Opportunity', 'Business Model', 'Financial Projections', 'Risk Analysis', 'Funding Request', 'Appendices'
+    ])
+    expect(html).toContain('<td>Solo &lt;designers&gt;</td>')
+    expect(html).toContain('<svg')
+    expect(markdown).toContain('## Risk Analysis')
+    expect(markdown).toContain('| Technical | Payment provider outage | 6/10 | 8/10 | Second provider |')
+  })
+
+  it('should write a PDF with a valid cross-reference table', () => {
+    const blocks = reportToBlocks(buildInvestorReport(blueprint, { projectName: 'Invoicely' }), 'Invoicely — Report')
+    const pdf = new TextDecoder().decode(blocksToPDF(blocks, 'Invoicely — Report'))
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+    expect(pdf).toContain('(Invoicely \\227 Report)')
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)?.[1])
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref')
+    const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]))
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`)
+    })
+    const pageCount = Number(pdf.match(/\/Count (\d+)/)?.[1])
+    expect(pageCount).toBeGreaterThan(1)
+    expect(offsets).toHaveLength(5 + pageCount * 2)
+  })
+})
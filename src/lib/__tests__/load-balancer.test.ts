@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { LoadBalancer, equivalentModel } from '../ai-services/load-balancer'
+import { AIProvider, AIRequest } from '@/types/ai-services'
+
+const openai: AIProvider = {
+  name: 'openai',
+  apiKey: 'test',
+  models: ['gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo'],
+  maxTokens: 8192,
+  supportsStreaming: true,
+  costPerToken: 0.00003,
+  rateLimits: { requestsPerMinute: 500, tokensPerMinute: 150000 }
+}
+
+const anthropic: AIProvider = {
+  name: 'anthropic',
+  apiKey: 'test',
+  models: ['claude-3-opus-20240229', 'claude-3-sonnet-20240229', 'claude-3-haiku-20240307'],
+  maxTokens: 4096,
+  supportsStreaming: true,
+  costPerToken: 0.000015,
+  rateLimits: { requestsPerMinute: 1000, tokensPerMinute: 200000 }
+}
+
+const request: AIRequest = { provider: 'openai', model: 'gpt-4-turbo', prompt: 'Hello' }
+
+describe('LoadBalancer', () => {
+  it('should map models to the closest tier on other providers', () => {
+    expect(equivalentModel(anthropic, { provider: 'openai', model: 'gpt-3.5-turbo' })).toBe('claude-3-haiku-20240307')
+    expect(equivalentModel(openai, { provider: 'anthropic', model: 'claude-3-sonnet-20240229' })).toBe('gpt-4-turbo')
+    expect(equivalentModel(openai, { provider: 'openai', model: 'gpt-4' })).toBe('gpt-4')
+  })
+
+  it('should spread requests by weight with round robin', () => {
+    const balancer = new LoadBalancer({ strategy: 'round_robin', weights: { openai: 2, anthropic: 1 } })
+    const providers = Array.from({ length: 6 }, () => balancer.select(request, [openai, anthropic]).provider)
+
+    expect(providers).toEqual(['openai', 'anthropic', 'openai', 'openai', 'anthropic', 'openai'])
+  })
+
+  it('should prefer the fastest observed provider', () => {
+    const balancer = new LoadBalancer({ strategy: 'least_latency' })
+
+    // Unmeasured providers are tried before any are compared
+    balancer.recordLatency('openai', 900)
+    expect(balancer.select(request, [openai, anthropic]).provider).toBe('anthropic')
+
+    balancer.recordLatency('anthropic', 2000)
+    expect(balancer.select(request, [openai, anthropic]).provider).toBe('openai')
+
+    balancer.recordLatency('anthropic', 100)
+    balancer.recordLatency('anthropic', 100)
+    balancer.recordLatency('anthropic', 100)
+    expect(balancer.getLatency('anthropic')).toBeLessThan(900)
+    expect(balancer.select(request, [openai, anthropic]).provider).toBe('anthropic')
+  })
+
+  it('should pick the cheapest model meeting the quality bar', () => {
+    const balancer = new LoadBalancer({ strategy: 'cost_optimized' })
+    expect(balancer.select(request, [openai, anthropic])).toEqual({ provider: 'openai', model: 'gpt-4-turbo' })
+
+    const relaxed = new LoadBalancer({ strategy: 'cost_optimized', minQuality: 6 })
+    expect(relaxed.select(request, [openai, anthropic])).toEqual({ provider: 'anthropic', model: 'claude-3-haiku-20240307' })
+  })
+
+  it('should move requests to a provider with a better model at the same tier', () => {
+    const balancer = new LoadBalancer({ strategy: 'quality_first' })
+
+    expect(balancer.select(request, [openai, anthropic])).toEqual({ provider: 'openai', model: 'gpt-4-turbo' })
+    expect(balancer.select(
+      { provider: 'anthropic', model: 'claude-3-opus-20240229', prompt: 'Hello' },
+      [openai, anthropic]
+    )).toEqual({ provider: 'anthropic', model: 'claude-3-opus-20240229' })
+    // gpt-4-turbo is better but costs more than the sonnet request was authorized for
+    expect(balancer.select(
+      { provider: 'anthropic', model: 'claude-3-sonnet-20240229', prompt: 'Hello' },
+      [openai, anthropic]
+    )).toEqual({ provider: 'anthropic', model: 'claude-3-sonnet-20240229' })
+  })
+
+  it('should only move requests to models that cost no more and fit the prompt', () => {
+    const local: AIProvider = {
+      name: 'local',
+      endpoint: 'http://localhost:11434',
+      model: 'llama3.1',
+      models: ['llama3.1'],
+      maxTokens: 8192,
+      supportsStreaming: true,
+      costPerToken: 0,
+      rateLimits: { requestsPerMinute: 1000, tokensPerMinute: 1000000 }
+    }
+    const balancer = new LoadBalancer({ strategy: 'round_robin' })
+
+    const cheap = { provider: 'anthropic', model: 'claude-3-sonnet-20240229', prompt: 'Hello', maxTokens: 1000 }
+    const choices = Array.from({ length: 3 }, () => balancer.select(cheap, [openai, anthropic, local]))
+    expect(choices).toEqual([
+      { provider: 'anthropic', model: 'claude-3-sonnet-20240229' },
+      { provider: 'openai', model: 'gpt-3.5-turbo' },
+      { provider: 'local', model: 'llama3.1' }
+    ])
+
+    // About 10k prompt tokens fit gpt-3.5-turbo's window but not the local model's 8k
+    const long = { provider: 'openai', model: 'gpt-3.5-turbo', prompt: 'word '.repeat(10000), maxTokens: 2000 }
+    const providers = Array.from({ length: 4 }, () => balancer.select(long, [openai, local]).provider)
+    expect(providers).not.toContain('local')
+  })
+
+  it('should leave requests alone when no provider is available', () => {
+    const balancer = new LoadBalancer({ strategy: 'round_robin' })
+    expect(balancer.select(request, [])).toEqual({ provider: 'openai', model: 'gpt-4-turbo' })
+  })
+})
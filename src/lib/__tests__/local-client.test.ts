@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { LocalClient } from '../ai-services/clients/local-client'
+import { selectOptimalModel } from '../ai-services/config'
+import { LocalProvider } from '@/types/ai-services'
+
+function provider(overrides: Partial<LocalProvider> = {}): LocalProvider {
+  return {
+    name: 'local',
+    endpoint: 'http://localhost:11434/',
+    api: 'ollama',
+    model: 'llama3.1',
+    models: ['llama3.1', 'qwen2.5'],
+    maxTokens: 8192,
+    supportsStreaming: true,
+    costPerToken: 0,
+    rateLimits: { requestsPerMinute: 1000, tokensPerMinute: 1000000 },
+    ...overrides
+  }
+}
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    }
+  })
+}
+
+describe('LocalClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  it('should call the Ollama chat API and report zero cost', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      message: { role: 'assistant', content: '{"ok":true}' },
+      prompt_eval_count: 12,
+      eval_count: 8,
+      done: true
+    })))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const response = await new LocalClient(provider()).makeRequest({
+      provider: 'local',
+      model: 'gpt-4-turbo',
+      prompt: 'Plan this',
+      systemPrompt: 'Be brief',
+      maxTokens: 500
+    })
+
+    const [url, init] = fetchMock.mock.calls[0]
+    const body = JSON.parse(init.body)
+    expect(url).toBe('http://localhost:11434/api/chat')
+    // Models the endpoint does not serve fall back to the default
+    expect(body.model).toBe('llama3.1')
+    expect(body.options.num_predict).toBe(500)
+    expect(body.messages).toHaveLength(2)
+
+    expect(response.success).toBe(true)
+    expect(response.data).toBe('{"ok":true}')
+    expect(response.usage).toEqual({ promptTokens: 12, completionTokens: 8, totalTokens: 20, cost: 0 })
+    expect(response.metadata.provider).toBe('local')
+  })
+
+  it('should stream from an OpenAI-compatible endpoint', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(streamOf(
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choi',
+      'ces":[{"delta":{"content":"lo"}}]}\n\n',
+      'data: [DONE]\n\n'
+    ))))
+
+    const client = new LocalClient(provider({ api: 'openai', endpoint: 'http://localhost:8000/v1' }))
+    const stream = await client.makeStreamingRequest({ provider: 'local', model: 'qwen2.5', prompt: 'Hi' })
+
+    const chunks: string[] = []
+    for await (const chunk of stream) {
+      chunks.push(chunk)
+    }
+    expect(chunks.join('')).toBe('Hello')
+  })
+
+  it('should map unreachable endpoints and HTTP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')))
+    const unreachable = await new LocalClient(provider()).makeRequest({ provider: 'local', model: 'llama3.1', prompt: 'Hi' })
+    expect(unreachable.success).toBe(false)
+    expect(unreachable.error?.code).toBe('CONNECTION_ERROR')
+    expect(unreachable.error?.retryable).toBe(true)
+
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('model "llama3.1" not found', { status: 404 })))
+    const missing = await new LocalClient(provider()).makeRequest({ provider: 'local', model: 'llama3.1', prompt: 'Hi' })
+    expect(missing.error?.code).toBe('MODEL_NOT_FOUND')
+    expect(missing.error?.message).toContain('not found')
+  })
+
+  it('should be selected when it is the only configured provider', () => {
+    vi.stubEnv('OPENAI_API_KEY', '')
+    vi.stubEnv('ANTHROPIC_API_KEY', '')
+    vi.stubEnv('LOCAL_AI_ENDPOINT', 'http://localhost:11434')
+    vi.stubEnv('LOCAL_AI_MODELS', 'qwen2.5, llama3.1')
+
+    expect(selectOptimalModel('analytical', 'quality')).toEqual({ provider: 'local', model: 'qwen2.5' })
+
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test')
+    expect(selectOptimalModel('analytical', 'quality').provider).toBe('openai')
+    expect(selectOptimalModel('simple', 'cost').provider).toBe('local')
+  })
+})
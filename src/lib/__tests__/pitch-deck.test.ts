@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import { buildPitchDeck } from '../pitch-deck/generator'
+import { pitchDeckToHTML } from '../pitch-deck/html-export'
+import { pitchDeckToPPTX } from '../pitch-deck/pptx-export'
+import { crc32, createZip } from '../pitch-deck/zip'
+import { DECK_THEMES, deckTheme } from '../pitch-deck/themes'
+import { ComprehensiveFinancialModel, FundingStrategy, MonthlyProjection, Priority, ProductPlan } from '@/types'
+
+const productPlan = {
+  targetAudience: {
+    primary: {
+      demographics: 'Freelance designers',
+      psychographics: '',
+      painPoints: ['Chasing invoices', 'Scattered <client> feedback'],
+      motivations: []
+    },
+    marketSize: { tam: 5_000_000_000, sam: 800_000_000, som: 40_000_000 }
+  },
+  coreFeatures: [
+    { id: 'f1', name: 'Reports', description: 'Monthly summaries', priority: Priority.LOW },
+    { id: 'f2', name: 'Invoicing', description: 'Send and track invoices', priority: Priority.CRITICAL }
+  ],
+  differentiators: ['Paid in half the time', 'Built for designers'],
+  monetization: {
+    primary: {
+      model: 'subscription',
+      reasoning: 'Recurring value',
+      pricing: [{ name: 'Pro', price: 19, interval: 'monthly', features: [], targetSegment: 'Solo designers' }]
+    }
+  }
+} as unknown as ProductPlan
+
+function financialModel(funding?: FundingStrategy): ComprehensiveFinancialModel {
+  const projections: MonthlyProjection[] = Array.from({ length: 24 }, (_, index) => ({
+    month: index + 1,
+    users: (index + 1) * 10,
+    revenue: 1000 * (index + 1),
+    costs: 5000,
+    cash: 0
+  }))
+
+  return {
+    costs: {
+      infrastructure: [],
+      team: [{ role: 'Engineer', salary: 8000, benefits: 2000, timeline: 'Month 1' }],
+      tools: [],
+      marketing: [],
+      total: 0,
+      monthly: 0,
+      yearly: 0
+    },
+    revenue: { model: 'Subscription', projections, assumptions: [], scenarios: [] },
+    metrics: { cac: 100, ltv: 500, ltvCacRatio: 5, burnRate: 2000, runway: 12, breakeven: 5, roi: 0 },
+    scenarios: [],
+    funding
+  }
+}
+
+const funding = {
+  stages: [
+    { name: 'Seed', amount: 1_000_000, purpose: ['Hire two engineers'], milestones: ['$50K MRR'], timeline: 'Month 1' },
+    { name: 'Series A', amount: 5_000_000, purpose: [], milestones: [], timeline: 'Month 18' }
+  ],
+  terms: { valuation: { pre: 4_000_000, post: 5_000_000 }, equity: 0.2 }
+} as unknown as FundingStrategy
+
+describe('pitch deck', () => {
+  it('should map the product plan and financial model to slides in order', () => {
+    const deck = buildPitchDeck(
+      { productPlan, financialModel: financialModel(funding) },
+      { title: 'Invoicely', createdAt: new Date(0) }
+    )
+
+    expect(deck.id).toBe('invoicely-0')
+    expect(deck.theme).toBe('light')
+    expect(deck.slides.map(slide => slide.type)).toEqual([
+      'title', 'problem', 'solution', 'market', 'business-model', 'financials', 'team', 'ask'
+    ])
+    expect(deck.slides.map(slide => slide.order)).toEqual([1, 2, 3, 4, 5, 6, 7, 8])
+
+    const [title, problem, solution, , , financials, , ask] = deck.slides
+    expect(title.content.text).toBe('Paid in half the time')
+    expect(problem.content.bullets).toEqual(['Chasing invoices', 'Scattered <client> feedback'])
+    expect(solution.content.bullets?.[0]).toBe('Invoicing: Send and track invoices')
+    expect(financials.content.chart?.labels).toHaveLength(8)
+    expect(financials.content.chart?.data[0].values[0]).toBe(6000)
+    expect(ask.content.text).toBe('Raising $1M Seed at $4M pre-money')
+    expect(ask.content.table?.rows).toHaveLength(2)
+  })
+
+  it('should leave out slides whose section is missing', () => {
+    const deck = buildPitchDeck({ financialModel: financialModel() }, { title: 'Numbers only' })
+
+    expect(deck.slides.map(slide => slide.type)).toEqual(['title', 'business-model', 'financials', 'team'])
+  })
+
+  it('should export a self-contained HTML deck with escaped content', () => {
+    const deck = buildPitchDeck({ productPlan, financialModel: financialModel(funding) }, { title: 'A & B' })
+    const html = pitchDeckToHTML(deck)
+
+    expect(html.match(/<section class="slide/g)).toHaveLength(deck.slides.length)
+    expect(html).toContain('<title>A &amp; B</title>')
+    expect(html).toContain('Scattered &lt;client&gt; feedback')
+    expect(html).toContain('<svg')
+    expect(html).not.toMatch(/<(link|script) [^>]*src=/)
+  })
+
+  it('should write stored ZIP entries with their checksums', () => {
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686)
+
+    const zip = createZip([{ name: 'a.txt', data: 'hello' }, { name: 'dir/b.txt', data: 'world' }])
+    const view = new DataView(zip.buffer)
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50)
+    expect(view.getUint32(14, true)).toBe(0x3610a686)
+    expect(view.getUint32(zip.length - 22, true)).toBe(0x06054b50)
+    expect(view.getUint16(zip.length - 12, true)).toBe(2)
+    expect(new TextDecoder().decode(zip)).toContain('dir/b.txt')
+  })
+
+  it('should package every slide into the PPTX', () => {
+    const deck = buildPitchDeck({ productPlan, financialModel: financialModel(funding) }, { title: 'Invoicely', theme: 'dark' })
+    const content = new TextDecoder().decode(pitchDeckToPPTX(deck))
+
+    for (const part of ['[Content_Types].xml', 'ppt/presentation.xml', 'ppt/slideMasters/slideMaster1.xml', 'ppt/theme/theme1.xml']) {
+      expect(content).toContain(part)
+    }
+    expect(content).toContain(`ppt/slides/slide${deck.slides.length}.xml`)
+    expect(content).not.toContain(`ppt/slides/slide${deck.slides.length + 1}.xml`)
+    expect(content).toContain('<a:tbl>')
+    expect(content).toContain('Scattered &lt;client&gt; feedback')
+  })
+
+  it('should fall back to the default theme for unknown names, including inherited keys', () => {
+    expect(deckTheme('dark')).toBe(DECK_THEMES.dark)
+    expect(deckTheme('constructor')).toBe(DECK_THEMES.light)
+    expect(deckTheme('__proto__')).toBe(DECK_THEMES.light)
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { accessibleProjectsWhere, authorizeProject, hasRole, roleOnProject } from '../access/project-access'
+import { acceptInvitation, changeMembership } from '../organizations/organizations'
+
+const store = vi.hoisted(() => ({
+  project: null as unknown,
+  memberships: {} as Record<string, { id: string; role: string }>,
+  invitation: null as unknown,
+  owners: 1
+}))
+
+vi.mock('../prisma', () => ({
+  prisma: {
+    project: {
+      findUnique: vi.fn(async () => store.project)
+    },
+    membership: {
+      findUnique: vi.fn(async ({ where }: { where: { organizationId_userId: { userId: string } } }) =>
+        store.memberships[where.organizationId_userId.userId] ?? null
+      ),
+      count: vi.fn(async () => store.owners),
+      upsert: vi.fn(async (args: unknown) => args),
+      update: vi.fn(async (args: unknown) => args),
+      delete: vi.fn(async (args: unknown) => args)
+    },
+    organizationInvitation: {
+      findUnique: vi.fn(async () => store.invitation),
+      update: vi.fn(async (args: unknown) => args)
+    },
+    $transaction: vi.fn(async (operations: unknown[]) => Promise.all(operations))
+  }
+}))
+
+beforeEach(() => {
+  store.project = null
+  store.memberships = {}
+  store.invitation = null
+  store.owners = 1
+})
+
+describe('roleOnProject', () => {
+  it('makes the creator of a personal project its owner', () => {
+    const project = { userId: 'alice', organizationId: null }
+    expect(roleOnProject(project, 'alice')).toBe('owner')
+    expect(roleOnProject(project, 'bob')).toBeNull()
+  })
+
+  it('goes by membership alone for workspace projects', () => {
+    const project = { userId: 'alice', organizationId: 'org-1' }
+    expect(roleOnProject(project, 'bob', 'editor')).toBe('editor')
+    expect(roleOnProject(project, 'alice', null)).toBeNull()
+    expect(roleOnProject(project, 'bob', 'admin')).toBeNull()
+  })
+
+  it('orders roles from viewer to owner', () => {
+    expect(hasRole('owner', 'editor')).toBe(true)
+    expect(hasRole('editor', 'editor')).toBe(true)
+    expect(hasRole('viewer', 'editor')).toBe(false)
+  })
+})
+
+describe('authorizeProject', () => {
+  it('reports projects the user cannot see as not found', async () => {
+    store.project = { id: 'p1', userId: 'alice', organizationId: 'org-1' }
+
+    const access = await authorizeProject('p1', 'mallory')
+    expect(access).toEqual({ allowed: false, status: 404, error: 'Project not found' })
+  })
+
+  it('refuses members whose role is too low', async () => {
+    store.project = { id: 'p1', userId: 'alice', organizationId: 'org-1' }
+    store.memberships.bob = { id: 'm1', role: 'viewer' }
+
+    expect(await authorizeProject('p1', 'bob')).toMatchObject({ allowed: true, role: 'viewer' })
+    expect(await authorizeProject('p1', 'bob', 'editor')).toMatchObject({ allowed: false, status: 403 })
+  })
+
+  it('lists personal projects and workspace projects', () => {
+    expect(accessibleProjectsWhere('bob').OR).toEqual([
+      { userId: 'bob', organizationId: null },
+      { organization: { memberships: { some: { userId: 'bob' } } } }
+    ])
+  })
+})
+
+describe('invitations and memberships', () => {
+  const invitation = {
+    id: 'inv-1',
+    organizationId: 'org-1',
+    email: 'bob@acme.com',
+    role: 'editor',
+    token: 'token',
+    expiresAt: new Date(Date.now() + 60000),
+    acceptedAt: null,
+    revokedAt: null
+  }
+
+  it('only accepts an invitation for the invited email, before it expires', async () => {
+    store.invitation = invitation
+    expect(await acceptInvitation('token', { id: 'eve', email: 'eve@acme.com' })).toMatchObject({ success: false, status: 403 })
+
+    store.invitation = { ...invitation, expiresAt: new Date(Date.now() - 1000) }
+    expect(await acceptInvitation('token', { id: 'bob', email: 'bob@acme.com' })).toMatchObject({ success: false, status: 410 })
+  })
+
+  it('keeps the higher role of a member who accepts again', async () => {
+    store.invitation = invitation
+    store.memberships.bob = { id: 'm1', role: 'owner' }
+
+    const result = await acceptInvitation('token', { id: 'bob', email: 'Bob@acme.com' })
+    expect(result).toEqual({ success: true, data: { organizationId: 'org-1', role: 'owner' } })
+  })
+
+  it('keeps the last owner', async () => {
+    store.memberships.alice = { id: 'm1', role: 'owner' }
+    expect(await changeMembership('org-1', 'alice', 'viewer')).toMatchObject({ success: false, status: 409 })
+    expect(await changeMembership('org-1', 'alice', null)).toMatchObject({ success: false, status: 409 })
+
+    store.owners = 2
+    expect(await changeMembership('org-1', 'alice', null)).toEqual({ success: true, data: { userId: 'alice', role: null } })
+  })
+})
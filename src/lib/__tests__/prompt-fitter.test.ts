@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { fitPrompt } from '../ai-services/prompt-fitter'
+import { countTokens } from '../ai-services/tokenizer'
+
+const feature = (index: number) => ({
+  name: `Feature ${index}`,
+  description: `A long description of feature ${index} that explains in detail how it helps users. `.repeat(20),
+  priority: 'HIGH',
+  estimatedHours: 40,
+  dependencies: [],
+  category: 'CORE',
+  userStory: 'As a designer, I want to save time every day',
+  acceptanceCriteria: []
+})
+
+const productPlan = {
+  targetAudience: {
+    primary: { demographics: 'Freelance designers', psychographics: 'Independent', painPoints: [], goals: [] },
+    marketSize: { tam: 1000000, sam: 100000, som: 10000 }
+  },
+  coreFeatures: Array.from({ length: 40 }, (_, index) => feature(index)),
+  differentiators: ['Built for designers'],
+  monetization: {
+    primary: {
+      model: 'subscription',
+      pricing: [{ name: 'Pro', price: 12, interval: 'monthly', features: ['Unlimited projects'], targetSegment: 'Freelancers' }],
+      reasoning: 'Tiered plans priced below agency tools'
+    },
+    alternatives: []
+  },
+  gtmStrategy: { launchStrategy: 'Community launch', marketingChannels: [], partnerships: [], timeline: [], budget: 5000 }
+}
+
+const financialVariables = {
+  productPlan,
+  techStack: { frontend: [{ name: 'Next.js' }], backend: [{ name: 'Node.js' }] },
+  marketSize: 'Medium-sized market',
+  businessModel: 'subscription'
+}
+
+describe('countTokens', () => {
+  it('should count common words as single tokens', () => {
+    expect(countTokens('Hello world')).toBe(2)
+    expect(countTokens('')).toBe(0)
+  })
+
+  it('should stay close to four characters per token for prose and JSON', () => {
+    const text = `${feature(1).description} ${JSON.stringify(productPlan.monetization, null, 2)}`
+    const tokens = countTokens(text)
+
+    expect(tokens).toBeGreaterThan(text.length / 6)
+    expect(tokens).toBeLessThan(text.length / 3)
+  })
+
+  it('should count more tokens for providers with finer tokenizers', () => {
+    const text = feature(1).description
+    expect(countTokens(text, 'anthropic')).toBeGreaterThan(countTokens(text, 'openai'))
+    expect(countTokens(text, 'local')).toBeGreaterThan(countTokens(text, 'anthropic'))
+  })
+
+  it('should count OpenAI models with their own encoding and estimate unknown ones', () => {
+    const text = JSON.stringify(productPlan.monetization)
+
+    expect(countTokens('<|endoftext|>', 'openai', 'gpt-4-turbo')).toBeGreaterThan(1)
+    // gpt-4o uses o200k rather than cl100k
+    expect(countTokens(text, 'openai', 'gpt-4o')).not.toBe(countTokens(text, 'openai', 'gpt-4'))
+    expect(countTokens(text, 'openai', 'ft:house-model')).toBeGreaterThan(text.length / 6)
+  })
+})
+
+describe('fitPrompt', () => {
+  beforeEach(() => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test')
+    vi.stubEnv('ANTHROPIC_API_KEY', '')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should leave prompts that fit untouched', () => {
+    const fitted = fitPrompt('PRODUCT_PLAN_GENERATION', { idea: 'A todo app' }, {
+      provider: 'openai',
+      model: 'gpt-4',
+      maxTokens: 3000
+    })
+
+    expect(fitted.condensed).toEqual([])
+    expect(fitted.upgraded).toBe(false)
+    expect(fitted.request).toMatchObject({ provider: 'openai', model: 'gpt-4', maxTokens: 3000 })
+    expect(fitted.request.prompt).toContain('IDEA: A todo app')
+  })
+
+  it('should leave room for the completion the template asks for', () => {
+    const fitted = fitPrompt('PERSONA_GENERATION', { idea: 'A todo app', audience: {}, count: 3 }, {
+      provider: 'openai',
+      model: 'gpt-4'
+    })
+
+    expect(fitted.request.maxTokens).toBe(2500)
+  })
+
+  it('should condense an oversized product plan before moving to another model', () => {
+    const fitted = fitPrompt('FINANCIAL_MODEL_GENERATION', financialVariables, {
+      provider: 'openai',
+      model: 'gpt-4',
+      systemPrompt: 'You are a financial analyst.',
+      maxTokens: 3000
+    })
+
+    expect(fitted.request.model).toBe('gpt-4')
+    expect(fitted.condensed).toContain('productPlan')
+    expect(fitted.request.prompt).toContain('Feature 0')
+    expect(fitted.request.prompt).not.toContain('explains in detail')
+    expect(fitted.promptTokens + 3000).toBeLessThanOrEqual(8192)
+  })
+
+  it('should move to a longer context model when condensing is not enough', () => {
+    const fitted = fitPrompt('FINANCIAL_MODEL_GENERATION', financialVariables, {
+      provider: 'openai',
+      model: 'gpt-4',
+      maxTokens: 8000
+    })
+
+    expect(fitted.upgraded).toBe(true)
+    expect(fitted.request).toMatchObject({ provider: 'openai', model: 'gpt-4-turbo', maxTokens: 4096 })
+    expect(fitted.condensed).toEqual([])
+  })
+
+  it('should explain when no available model can take the prompt', () => {
+    vi.stubEnv('OPENAI_API_KEY', '')
+
+    expect(() => fitPrompt('PRODUCT_PLAN_GENERATION', { idea: 'A todo app' }, {
+      provider: 'local',
+      model: 'llama3.1',
+      maxTokens: 8192
+    })).toThrow('more than the largest available context window (8192)')
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { AIResponseCache, AIResponseStore } from '../ai-services/response-cache'
+import { AIRequest, AIResponse } from '@/types/ai-services'
+
+function memoryStore(): AIResponseStore & { entries: Map<string, string> } {
+  const entries = new Map<string, string>()
+  return {
+    entries,
+    // Round-trip through JSON like Redis does
+    async cacheAIResponse(key, response) {
+      entries.set(key, JSON.stringify(response))
+      return true
+    },
+    async getAIResponse(key) {
+      const value = entries.get(key)
+      return value ? JSON.parse(value) : null
+    }
+  }
+}
+
+const request: AIRequest = {
+  provider: 'openai',
+  model: 'gpt-4-turbo',
+  systemPrompt: 'You are a planner.',
+  prompt: 'Plan a todo app.',
+  temperature: 0.5
+}
+
+const response: AIResponse<string> = {
+  success: true,
+  data: 'A plan',
+  usage: { promptTokens: 100, completionTokens: 200, totalTokens: 300, cost: 0.003 },
+  metadata: { provider: 'openai', model: 'gpt-4-turbo', latency: 900, timestamp: new Date(), requestId: 'r1' }
+}
+
+describe('AIResponseCache', () => {
+  it('should only cache deterministic enough, non-streaming requests', () => {
+    const cache = new AIResponseCache({ enabled: true, ttl: 3600000, keyStrategy: 'prompt_hash' })
+
+    expect(cache.isCacheable(request)).toBe(true)
+    expect(cache.isCacheable({ ...request, stream: true })).toBe(false)
+    expect(cache.isCacheable({ ...request, temperature: 0.9 })).toBe(false)
+    expect(cache.isCacheable({ ...request, temperature: undefined })).toBe(true)
+    expect(new AIResponseCache({ enabled: false, ttl: 0, keyStrategy: 'prompt_hash' }).isCacheable(request)).toBe(false)
+  })
+
+  it('should key on provider, model, temperature and prompts', () => {
+    const cache = new AIResponseCache({ enabled: true, ttl: 3600000, keyStrategy: 'prompt_hash' })
+    const key = cache.buildKey(request)
+
+    expect(cache.buildKey({ ...request })).toBe(key)
+    expect(cache.buildKey({ ...request, model: 'gpt-4' })).not.toBe(key)
+    expect(cache.buildKey({ ...request, temperature: 0.2 })).not.toBe(key)
+    expect(cache.buildKey({ ...request, systemPrompt: 'You are an analyst.' })).not.toBe(key)
+    expect(cache.buildKey({ ...request, prompt: 'plan a TODO app' })).not.toBe(key)
+  })
+
+  it('should share entries between trivially different prompts with semantic keys', () => {
+    const cache = new AIResponseCache({ enabled: true, ttl: 3600000, keyStrategy: 'semantic_similarity' })
+
+    expect(cache.buildKey({ ...request, prompt: '  plan a TODO app!' })).toBe(cache.buildKey(request))
+    expect(cache.buildKey({ ...request, prompt: 'Plan a shopping app.' })).not.toBe(cache.buildKey(request))
+  })
+
+  it('should report hits with the saved cost', async () => {
+    const store = memoryStore()
+    const cache = new AIResponseCache({ enabled: true, ttl: 60000, keyStrategy: 'prompt_hash' }, store)
+
+    expect(await cache.get(request)).toBeNull()
+    await cache.set(request, response)
+    await cache.set({ ...request, prompt: 'Fail' }, { ...response, success: false })
+    expect(store.entries.size).toBe(1)
+
+    const hit = await cache.get<string>(request)
+    expect(hit?.data).toBe('A plan')
+    expect(hit?.usage.cost).toBe(0)
+    expect(hit?.usage.cache).toEqual({ status: 'hit', savedCost: 0.003 })
+    expect(hit?.metadata.timestamp).toBeInstanceOf(Date)
+  })
+})
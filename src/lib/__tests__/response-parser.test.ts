@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { extractJson, parseStructuredResponse } from '../ai-services/response-parser'
+import { AIWorkflowResponseSchema, ProductPlanResponseSchema } from '../ai-services/section-schemas'
+
+describe('extractJson', () => {
+  it('should parse bare JSON', () => {
+    expect(extractJson('{"a": 1}')).toEqual({ success: true, value: { a: 1 } })
+  })
+
+  it('should extract JSON from fenced blocks and surrounding prose', () => {
+    const fenced = 'Sure! Here is the plan:\n```json\n{"a": [1, 2]}\n```\nLet me know if you need changes.'
+    expect(extractJson(fenced)).toEqual({ success: true, value: { a: [1, 2] } })
+
+    const trailing = 'Result: {"name": "curly } in a string", "b": {"c": true}} Hope this helps!'
+    expect(extractJson(trailing)).toEqual({
+      success: true,
+      value: { name: 'curly } in a string', b: { c: true } }
+    })
+  })
+
+  it('should tolerate trailing commas', () => {
+    expect(extractJson('{"items": [1, 2,], }')).toEqual({ success: true, value: { items: [1, 2] } })
+  })
+
+  it('should report output without JSON', () => {
+    expect(extractJson('').success).toBe(false)
+    expect(extractJson('I cannot help with that.').success).toBe(false)
+    expect(extractJson('{"unterminated": [1, 2').success).toBe(false)
+  })
+})
+
+describe('parseStructuredResponse', () => {
+  it('should apply schema defaults to valid output', () => {
+    const result = parseStructuredResponse(JSON.stringify({
+      targetAudience: {
+        primary: { demographics: 'Freelancers', psychographics: 'Independent' },
+        marketSize: { tam: '1000000', sam: 100000, som: 5000 }
+      },
+      coreFeatures: [{ name: 'Invoicing', description: 'Send and track invoices', priority: 'high', estimatedHours: 40 }],
+      monetization: { primary: { model: 'subscription' } },
+      gtmStrategy: { launchStrategy: 'Community launch', budget: 5000 }
+    }), ProductPlanResponseSchema)
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.differentiators).toEqual([])
+      expect(result.data.targetAudience.marketSize.tam).toBe(1000000)
+      expect(result.data.coreFeatures[0]).toMatchObject({ id: 'feature-1', priority: 'HIGH', category: 'CORE' })
+    }
+  })
+
+  it('should list validation errors with their paths', () => {
+    const result = parseStructuredResponse(JSON.stringify({
+      nodes: [{ id: 'input', type: 'input' }],
+      edges: [{ source: 'input', target: 'missing' }]
+    }), AIWorkflowResponseSchema)
+
+    expect(result).toEqual({
+      success: false,
+      errors: ['edges.0.target: References unknown node "missing"']
+    })
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { exportRoadmap } from '../roadmap/exporters'
+import { withSchedule } from '../roadmap/scheduler'
+import { Phase, Priority, Roadmap, Task } from '@/types'
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    name: `Task ${id}`,
+    description: `Build ${id}`,
+    estimatedHours: 12,
+    priority: Priority.MEDIUM,
+    category: 'Backend API',
+    dependencies: [],
+    status: 'not_started',
+    ...overrides
+  }
+}
+
+function phase(id: string, tasks: Task[], dependencies: string[] = []): Phase {
+  return {
+    id,
+    name: `Phase ${id}`,
+    description: `The ${id} phase`,
+    tasks,
+    estimatedHours: tasks.reduce((sum, t) => sum + t.estimatedHours, 0),
+    dependencies,
+    milestone: {
+      name: `${id} shipped`,
+      description: 'Ready for users, with docs',
+      dueDate: new Date(0),
+      deliverables: ['Release notes'],
+      successCriteria: []
+    }
+  }
+}
+
+const roadmap: Roadmap = withSchedule({
+  phases: [
+    phase('mvp', [
+      task('a', { priority: Priority.CRITICAL }),
+      task('b', { dependencies: ['Task a', 'Design review'], description: 'Says "hi", then leaves' })
+    ]),
+    phase('launch', [task('c', { estimatedHours: 30, category: 'Marketing', assignee: 'sam' })], ['mvp'])
+  ],
+  totalEstimate: 54,
+  timeline: '2 weeks',
+  dependencies: [],
+  risks: []
+}, { startDate: new Date(2026, 0, 5), hoursPerDay: 6 })
+
+const options = { projectName: 'Acme, Inc', now: new Date('2026-01-01T12:00:00Z') }
+
+describe('roadmap exporters', () => {
+  it('should write a milestone calendar with one all-day event per phase', () => {
+    const ics = exportRoadmap(roadmap, 'ics', options)
+    // Unfolded, as calendar apps read it
+    const lines = ics.replace(/\r\n /g, '').split('\r\n')
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(2)
+    expect(lines).toContain('UID:acme-inc-mvp@infiniteidea')
+    expect(lines).toContain('DTSTAMP:20260101T120000Z')
+    // mvp ends after 4 days of work on Thursday, launch 5 days later
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260108')
+    expect(lines).toContain('DTEND;VALUE=DATE:20260109')
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260115')
+    expect(lines).toContain('SUMMARY:mvp shipped')
+    expect(lines).toContain('DESCRIPTION:Ready for users\\, with docs\\n\\nDeliverables:\\n- Release notes')
+    expect(lines).toContain('X-WR-CALNAME:Acme\\, Inc roadmap')
+  })
+
+  it('should fold calendar lines longer than 75 bytes', () => {
+    const long = { ...roadmap, phases: [{ ...roadmap.phases[0], milestone: { ...roadmap.phases[0].milestone, name: 'é'.repeat(60) } }] }
+    const lines = exportRoadmap(long, 'ics', options).split('\r\n')
+    const summary = lines.findIndex(line => line.startsWith('SUMMARY:'))
+
+    expect(new TextEncoder().encode(lines[summary]).length).toBeLessThanOrEqual(75)
+    expect(lines[summary + 1].startsWith(' ')).toBe(true)
+    expect((lines[summary] + lines[summary + 1].slice(1)).length).toBe('SUMMARY:'.length + 60)
+  })
+
+  it('should list tasks with dependencies and schedule as CSV', () => {
+    const [header, ...rows] = exportRoadmap(roadmap, 'csv', options).trim().split('\r\n')
+
+    expect(header).toBe('Phase,Task ID,Task,Description,Category,Priority,Status,Estimated Hours,Dependencies,Start,End,Slack (days),Critical Path')
+    expect(rows).toHaveLength(3)
+    expect(rows[1]).toBe(
+      'Phase mvp,b,Task b,"Says ""hi"", then leaves",Backend API,MEDIUM,not_started,12,Task a; Design review,2026-01-07,2026-01-08,0,Yes'
+    )
+  })
+
+  it('should write GitHub milestones and labelled issues', () => {
+    const { milestones, issues } = JSON.parse(exportRoadmap(roadmap, 'github', options))
+
+    expect(milestones.map((m: { title: string }) => m.title)).toEqual(['mvp shipped', 'launch shipped'])
+    expect(issues[1]).toMatchObject({
+      title: 'Task b',
+      labels: ['Backend API', 'critical-path'],
+      milestone: 'mvp shipped'
+    })
+    expect(issues[1].body).toContain('**Estimate:** 12h')
+    expect(issues[1].body).toContain('**Depends on:**\n- Task a\n- Design review')
+    expect(issues[2].assignees).toEqual(['sam'])
+  })
+
+  it('should write Jira epics, tasks and blocking links', () => {
+    const [header, ...rows] = exportRoadmap(roadmap, 'jira', options).trim().split('\r\n')
+
+    expect(header).toBe('Issue Id,Parent Id,Issue Type,Summary,Description,Priority,Labels,Labels,Original Estimate,Due Date,Inward issue link (Blocks)')
+    expect(rows[0]).toBe('1,,Epic,Phase mvp,The mvp phase,,,,86400,2026-01-08,')
+    expect(rows[2]).toBe('3,1,Task,Task a,Build a,Highest,backend-api,critical-path,43200,2026-01-06,')
+    expect(rows[3]).toMatch(/^4,1,Task,Task b,.*,43200,2026-01-08,3$/)
+  })
+
+  it('should write Linear issues with point estimates and projects', () => {
+    const [header, ...rows] = exportRoadmap(roadmap, 'linear', options).trim().split('\r\n')
+
+    expect(header).toBe('ID,Title,Description,Status,Priority,Estimate,Project,Labels,Assignee,Due Date')
+    expect(rows[0]).toBe('a,Task a,Build a,Todo,Urgent,2,Phase mvp,"Backend API, critical-path",,2026-01-06')
+    expect(rows.at(-1)).toBe('c,Task c,Build c,Todo,Medium,8,Phase launch,"Marketing, critical-path",sam,2026-01-15')
+  })
+})
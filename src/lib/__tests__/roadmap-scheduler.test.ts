@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest'
+import { reschedule, scheduleRoadmap, withSchedule } from '../roadmap/scheduler'
+import { RoadmapScheduleSchema } from '@/types/validation'
+import { Dependency, Phase, Priority, Roadmap, Task } from '@/types'
+
+// Monday
+const startDate = new Date(2026, 0, 5)
+
+function task(id: string, estimatedHours: number, dependencies: string[] = []): Task {
+  return {
+    id,
+    name: `Task ${id}`,
+    description: '',
+    estimatedHours,
+    priority: Priority.MEDIUM,
+    category: 'development',
+    dependencies,
+    status: 'not_started'
+  }
+}
+
+function phase(id: string, tasks: Task[], dependencies: string[] = []): Phase {
+  return {
+    id,
+    name: `Phase ${id}`,
+    description: '',
+    tasks,
+    estimatedHours: tasks.reduce((sum, t) => sum + t.estimatedHours, 0),
+    dependencies,
+    milestone: { name: `${id} done`, description: '', dueDate: new Date(0), deliverables: [], successCriteria: [] }
+  }
+}
+
+function roadmapOf(phases: Phase[], dependencies: Dependency[] = []): Roadmap {
+  return { phases, totalEstimate: 0, timeline: '', dependencies, risks: [] }
+}
+
+describe('roadmap scheduler', () => {
+  it('should compute earliest and latest starts, slack and the critical path', () => {
+    const roadmap = roadmapOf([
+      phase('build', [task('a', 12), task('b', 24, ['a']), task('c', 6, ['a']), task('d', 6, ['b', 'Task c'])])
+    ])
+
+    const schedule = scheduleRoadmap(roadmap, { startDate, teamSize: 2, hoursPerDay: 6 })
+    const byId = Object.fromEntries(schedule.tasks.map(t => [t.taskId, t]))
+
+    expect(schedule.durationDays).toBe(7)
+    expect(byId.c).toMatchObject({ earliestStart: 2, latestStart: 5, slack: 3, critical: false })
+    expect(byId.d).toMatchObject({ earliestStart: 6, earliestFinish: 7, slack: 0 })
+    expect(schedule.criticalPath).toEqual(['a', 'b', 'd'])
+    expect(schedule.issues).toEqual([])
+  })
+
+  it('should delay parallel work when the team is too small', () => {
+    const roadmap = roadmapOf([phase('build', [task('a', 12), task('b', 12), task('c', 6)])])
+
+    const unlimited = scheduleRoadmap(roadmap, { startDate, teamSize: 3, hoursPerDay: 6 })
+    const solo = scheduleRoadmap(roadmap, { startDate, teamSize: 1, hoursPerDay: 6 })
+
+    expect(unlimited.durationDays).toBe(2)
+    expect(solo.durationDays).toBe(5)
+    expect(solo.criticalPath).toHaveLength(3)
+  })
+
+  it('should make tasks wait for the phases and blocking edges they depend on', () => {
+    const roadmap = roadmapOf([
+      phase('mvp', [task('a', 12), task('b', 6)]),
+      phase('launch', [task('c', 6)], ['mvp']),
+      phase('growth', [task('d', 6)])
+    ], [
+      { from: 'Task c', to: 'Phase growth', type: 'blocks', description: '' },
+      { from: 'Task d', to: 'Task a', type: 'influences', description: '' }
+    ])
+
+    const schedule = scheduleRoadmap(roadmap, { startDate, teamSize: 3, hoursPerDay: 6 })
+    const byId = Object.fromEntries(schedule.tasks.map(t => [t.taskId, t]))
+
+    expect(byId.a.earliestStart).toBe(0)
+    expect(byId.c.earliestStart).toBe(2)
+    expect(byId.d.earliestStart).toBe(3)
+    expect(schedule.phases.map(p => [p.phaseId, p.start, p.finish])).toEqual([
+      ['mvp', 0, 2],
+      ['launch', 2, 3],
+      ['growth', 3, 4]
+    ])
+  })
+
+  it('should report cycles and dangling references and still schedule', () => {
+    const roadmap = roadmapOf([
+      phase('build', [task('a', 6, ['c']), task('b', 6, ['a', 'missing']), task('c', 6, ['b'])])
+    ], [
+      { from: 'nowhere', to: 'a', type: 'blocks', description: '' }
+    ])
+
+    const schedule = scheduleRoadmap(roadmap, { startDate, teamSize: 3, hoursPerDay: 6 })
+    const cycles = schedule.issues.filter(issue => issue.type === 'cycle')
+    const dangling = schedule.issues.filter(issue => issue.type === 'dangling')
+
+    expect(cycles).toHaveLength(1)
+    expect(cycles[0].taskIds.sort()).toEqual(['a', 'b', 'c'])
+    expect(cycles[0].message).toMatch(/^Dependency cycle: (Task \w → ){3}Task \w$/)
+    expect(dangling.map(issue => issue.message)).toEqual([
+      '"Task b" depends on unknown "missing"',
+      '"nowhere" blocks "a", but "nowhere" is unknown'
+    ])
+    expect(schedule.durationDays).toBe(3)
+  })
+
+  it('should date milestones by working days from the start date', () => {
+    const roadmap = roadmapOf([
+      phase('mvp', [task('a', 30)]),
+      phase('launch', [task('b', 3)], ['mvp'])
+    ])
+
+    const scheduled = withSchedule(roadmap, { startDate, hoursPerDay: 6 })
+
+    // Five days of work end on Friday; the half day after it falls on Monday
+    expect(scheduled.phases[0].milestone.dueDate).toEqual(new Date(2026, 0, 9))
+    expect(scheduled.phases[1].milestone.dueDate).toEqual(new Date(2026, 0, 12))
+    expect(scheduled.phases[1].milestone.name).toBe('launch done')
+    expect(scheduled.schedule?.endDate).toEqual(new Date(2026, 0, 12))
+    expect(roadmap.phases[0].milestone.dueDate).toEqual(new Date(0))
+  })
+
+  it('should start on the next working day when the start date is a weekend', () => {
+    const schedule = scheduleRoadmap(roadmapOf([phase('mvp', [task('a', 6)])]), { startDate: new Date(2026, 0, 10) })
+
+    expect(schedule.startDate).toEqual(new Date(2026, 0, 12))
+    expect(schedule.tasks[0].endDate).toEqual(new Date(2026, 0, 12))
+  })
+
+  it('should schedule an edited roadmap again with the start date and team size it was stored with', () => {
+    const stored: Roadmap = JSON.parse(JSON.stringify(
+      withSchedule(roadmapOf([phase('mvp', [task('a', 6), task('b', 6)])]), { startDate, teamSize: 1 })
+    ))
+    stored.phases[0].tasks[1].estimatedHours = 12
+
+    const rescheduled = reschedule(stored)
+    expect(rescheduled.schedule).toMatchObject({ startDate, teamSize: 1, durationDays: 3 })
+    expect(reschedule(stored, { teamSize: 2 }).schedule).toMatchObject({ startDate, teamSize: 2, durationDays: 2 })
+
+    // Stored dates are strings, which the schema reads back as dates
+    expect(RoadmapScheduleSchema.parse(stored.schedule).startDate).toEqual(startDate)
+  })
+})
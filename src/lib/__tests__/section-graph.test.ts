@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { SectionGraphExecutor, SectionNode } from '../ai-services/section-graph'
+import { AIResponse } from '@/types/ai-services'
+
+function respond(data: unknown, cost = 0.01, delay = 0): Promise<AIResponse<unknown>> {
+  return new Promise(resolve => setTimeout(() => resolve({
+    success: true,
+    data,
+    usage: { promptTokens: 10, completionTokens: 10, totalTokens: 20, cost },
+    metadata: {
+      provider: 'openai',
+      model: 'gpt-4',
+      latency: delay,
+      timestamp: new Date(),
+      requestId: 'test'
+    }
+  }), delay))
+}
+
+function fail(message: string): Promise<AIResponse<unknown>> {
+  return Promise.resolve({
+    success: false,
+    error: { code: 'PARSE_ERROR', message, type: 'invalid_request', retryable: true },
+    usage: { promptTokens: 10, completionTokens: 0, totalTokens: 10, cost: 0.002 },
+    metadata: {
+      provider: 'openai',
+      model: 'gpt-4',
+      latency: 0,
+      timestamp: new Date(),
+      requestId: 'test'
+    }
+  })
+}
+
+describe('SectionGraphExecutor', () => {
+  it('should order sections into parallel levels', () => {
+    const graph = new SectionGraphExecutor<void>([
+      { section: 'roadmap', label: 'roadmap', dependsOn: ['productPlan', 'techStack'], generate: () => respond({}) },
+      { section: 'productPlan', label: 'plan', dependsOn: [], generate: () => respond({}) },
+      { section: 'techStack', label: 'stack', dependsOn: ['productPlan'], generate: () => respond({}) },
+      { section: 'aiWorkflow', label: 'workflow', dependsOn: ['productPlan'], generate: () => respond({}) }
+    ])
+
+    expect(graph.getExecutionLevels()).toEqual([
+      ['productPlan'],
+      ['techStack', 'aiWorkflow'],
+      ['roadmap']
+    ])
+  })
+
+  it('should reject cycles and unknown dependencies', () => {
+    expect(() => new SectionGraphExecutor<void>([
+      { section: 'productPlan', label: 'plan', dependsOn: ['techStack'], generate: () => respond({}) },
+      { section: 'techStack', label: 'stack', dependsOn: ['productPlan'], generate: () => respond({}) }
+    ])).toThrow('cycle')
+
+    expect(() => new SectionGraphExecutor<void>([
+      { section: 'roadmap', label: 'roadmap', dependsOn: ['techStack'], generate: () => respond({}) }
+    ])).toThrow('unknown section')
+  })
+
+  it('should start sections as soon as their own dependencies complete', async () => {
+    const started: string[] = []
+    const nodes: SectionNode<void>[] = [
+      { section: 'productPlan', label: 'plan', dependsOn: [], generate: () => respond({ plan: true }) },
+      {
+        section: 'techStack',
+        label: 'stack',
+        dependsOn: ['productPlan'],
+        generate: () => { started.push('techStack'); return respond({ stack: true }, 0.01, 5) }
+      },
+      {
+        section: 'aiWorkflow',
+        label: 'workflow',
+        dependsOn: ['productPlan'],
+        generate: () => { started.push('aiWorkflow'); return respond({ workflow: true }, 0.01, 30) }
+      },
+      {
+        section: 'roadmap',
+        label: 'roadmap',
+        dependsOn: ['techStack'],
+        generate: (_, sections) => {
+          started.push('roadmap')
+          expect(sections.techStack).toEqual({ stack: true })
+          return respond({ roadmap: true })
+        }
+      }
+    ]
+
+    const result = await new SectionGraphExecutor(nodes).execute()
+
+    // Roadmap does not wait for the slower, unrelated workflow section
+    expect(started).toEqual(['techStack', 'aiWorkflow', 'roadmap'])
+    expect(result.stepsCompleted.indexOf('roadmap')).toBeLessThan(result.stepsCompleted.indexOf('workflow'))
+    expect(result.aiCallsUsed).toBe(4)
+    expect(result.totalCost).toBeCloseTo(0.04)
+  })
+
+  it('should keep partial results and skip dependents of failed sections', async () => {
+    const result = await new SectionGraphExecutor<void>([
+      { section: 'productPlan', label: 'plan', dependsOn: [], generate: () => respond({ plan: true }) },
+      { section: 'techStack', label: 'stack', dependsOn: ['productPlan'], generate: () => fail('bad json') },
+      { section: 'aiWorkflow', label: 'workflow', dependsOn: ['productPlan'], generate: () => respond({ workflow: true }) },
+      { section: 'roadmap', label: 'roadmap', dependsOn: ['techStack'], generate: () => respond({}) },
+      {
+        section: 'financialModel',
+        label: 'financials',
+        dependsOn: ['aiWorkflow'],
+        generate: () => { throw new Error('provider exploded') }
+      }
+    ]).execute()
+
+    expect(result.sections.productPlan).toEqual({ plan: true })
+    expect(result.sections.aiWorkflow).toEqual({ workflow: true })
+    expect(result.sections.techStack).toBeUndefined()
+    expect(result.sectionStatus.techStack?.status).toBe('failed')
+    expect(result.sectionStatus.techStack?.error).toBe('bad json')
+    expect(result.sectionStatus.roadmap?.status).toBe('skipped')
+    expect(result.sectionStatus.financialModel?.status).toBe('failed')
+    expect(result.sectionStatus.financialModel?.error).toBe('provider exploded')
+  })
+})
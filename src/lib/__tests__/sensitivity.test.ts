@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { buildFinancialModel, CostItems, projectFinancials } from '../financial/financial-engine'
+import { analyzeSensitivity, applyDrivers, sensitivityRange, withSensitivity } from '../financial/sensitivity'
+import { FinancialAssumptions } from '@/types'
+
+const assumptions: FinancialAssumptions = {
+  market: { size: 0, growth: 0, penetration: 1 },
+  pricing: { strategy: 'Flat', price: 20, elasticity: 0, increases: [] },
+  customers: { signups: 200, growth: 0.05, conversion: 0.1, churn: 0.05, cac: 40 },
+  funding: { cash: 20000 },
+  costs: { inflation: 0, optimization: 0, scaling: 0 },
+  operations: { efficiency: 0, automation: 0, outsourcing: 0 }
+}
+
+const costs: CostItems = {
+  infrastructure: [{ service: 'Hosting', category: 'hosting', cost: 200, scaling: [], description: '' }],
+  team: [{ role: 'Founder', salary: 3000, benefits: 0, timeline: 'Month 1' }],
+  tools: [],
+  marketing: []
+}
+
+describe('sensitivity analysis', () => {
+  it('should sweep each driver around its base value within its limits', () => {
+    expect(sensitivityRange(assumptions, 'price')).toEqual({ min: 10, max: 30, step: 1 })
+    expect(sensitivityRange({ ...assumptions, customers: { ...assumptions.customers, churn: 0.8 } }, 'churn').max).toBe(1)
+    expect(sensitivityRange({ ...assumptions, customers: { ...assumptions.customers, cac: 0 } }, 'cac')).toEqual({ min: 0, max: 200, step: 10 })
+  })
+
+  it('should apply driver values without changing the original assumptions', () => {
+    const adjusted = applyDrivers(assumptions, { price: 25, churn: 0.02 })
+
+    expect(adjusted.pricing.price).toBe(25)
+    expect(adjusted.customers.churn).toBe(0.02)
+    expect(adjusted.customers.cac).toBe(40)
+    expect(assumptions.pricing.price).toBe(20)
+  })
+
+  it('should rank drivers by how much they move profit', () => {
+    const analysis = analyzeSensitivity(assumptions, costs, { months: 24 })
+    const spreads = analysis.tornado.map(bar => Math.abs(bar.high.profit - bar.low.profit))
+
+    expect(spreads).toEqual([...spreads].sort((a, b) => b - a))
+    expect(analysis.variables.map(variable => variable.name)).toEqual(analysis.tornado.map(bar => bar.variable))
+    expect(analysis.variables[0].impact).toBe('high')
+
+    const price = analysis.tornado.find(bar => bar.variable === 'price')
+    expect(price?.low).toEqual({ value: 10, profit: expect.any(Number) })
+    expect(price!.high.profit).toBeGreaterThan(price!.low.profit)
+  })
+
+  it('should compare best, base and worst cases against the base projection', () => {
+    const analysis = analyzeSensitivity(assumptions, costs, { months: 24 })
+    const [best, base, worst] = analysis.results
+
+    expect(analysis.scenarios.map(scenario => scenario.name)).toEqual(['Best case', 'Base case', 'Worst case'])
+    expect(analysis.scenarios[0].variables).toEqual({
+      price: 30,
+      churn: expect.closeTo(0.025),
+      cac: 20,
+      conversion: expect.closeTo(0.15)
+    })
+    expect(best.metrics.profit).toBeGreaterThan(base.metrics.profit)
+    expect(worst.metrics.profit).toBeLessThan(base.metrics.profit)
+    expect(base.variance.profit).toBe(0)
+    expect(worst.variance.profit).toBeCloseTo(worst.metrics.profit - base.metrics.profit, 2)
+  })
+
+  it('should add scenario projections computed by the engine', () => {
+    const model = withSensitivity(buildFinancialModel(assumptions, costs, { model: 'Subscription' }, { months: 12 }), { months: 12 })
+
+    expect(model.sensitivity?.tornado).toHaveLength(4)
+    expect(model.scenarios.map(scenario => scenario.name)).toEqual(['Best case', 'Base case', 'Worst case'])
+
+    const worst = model.scenarios[2]
+    const expected = projectFinancials(applyDrivers(assumptions, model.sensitivity!.scenarios[2].variables), costs, { months: 12 })
+    expect(worst.revenue.projections).toEqual(expected.projections)
+    expect(worst.costs.total).toBe(expected.totals.costs)
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  authorizeShareLink,
+  filterSharedBlueprint,
+  hashSharePassword,
+  MAX_PASSWORD_ATTEMPTS,
+  shareLinkStatus,
+  toSharedProject,
+  verifySharePassword,
+  ShareLinkRecord
+} from '../sharing/share-links'
+
+const store = vi.hoisted(() => ({ link: null as unknown }))
+
+vi.mock('../prisma', () => ({
+  prisma: {
+    shareLink: {
+      findUnique: vi.fn(async () => store.link)
+    }
+  }
+}))
+
+function makeLink(overrides: Partial<ShareLinkRecord> = {}): ShareLinkRecord {
+  return {
+    id: 'link-1',
+    projectId: 'project-1',
+    token: 'token-1',
+    passwordHash: null,
+    permissions: ['view'],
+    allowedSections: ['all'],
+    expiresAt: null,
+    revokedAt: null,
+    viewCount: 0,
+    lastAccessedAt: null,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    ...overrides
+  }
+}
+
+describe('share link passwords', () => {
+  it('verifies the password it was hashed from and nothing else', async () => {
+    const hash = await hashSharePassword('open sesame')
+
+    expect(hash).toMatch(/^scrypt\$[0-9a-f]+\$[0-9a-f]+$/)
+    expect(hash).not.toContain('open sesame')
+    expect(await verifySharePassword('open sesame', hash)).toBe(true)
+    expect(await verifySharePassword('open sesame!', hash)).toBe(false)
+    expect(await verifySharePassword('open sesame', 'plaintext')).toBe(false)
+  })
+})
+
+describe('shareLinkStatus', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+
+  it('treats revocation as final and past expiries as expired', () => {
+    expect(shareLinkStatus({ expiresAt: null, revokedAt: null }, now)).toBe('active')
+    expect(shareLinkStatus({ expiresAt: new Date('2026-10-20T00:00:00Z'), revokedAt: null }, now)).toBe('active')
+    expect(shareLinkStatus({ expiresAt: new Date('2026-10-18T00:00:00Z'), revokedAt: null }, now)).toBe('expired')
+    expect(shareLinkStatus({ expiresAt: new Date('2026-10-20T00:00:00Z'), revokedAt: now }, now)).toBe('revoked')
+  })
+})
+
+describe('filterSharedBlueprint', () => {
+  const blueprint = { productPlan: { a: 1 }, techStack: { b: 2 }, investorReport: { c: 3 } }
+
+  it('keeps only the allowed sections', () => {
+    expect(filterSharedBlueprint(blueprint, ['all'])).toBe(blueprint)
+    expect(filterSharedBlueprint(blueprint, ['techStack'])).toEqual({ techStack: { b: 2 } })
+    expect(filterSharedBlueprint(null, ['techStack'])).toBeNull()
+  })
+})
+
+describe('toSharedProject', () => {
+  it('leaves out the owner and the original idea', () => {
+    const project = {
+      id: 'project-1',
+      userId: 'owner-1',
+      name: 'Invoicer',
+      description: 'Invoices for freelancers',
+      originalIdea: 'My secret plan',
+      category: null,
+      complexity: null,
+      status: 'COMPLETED',
+      blueprint: { productPlan: { a: 1 }, techStack: { b: 2 } },
+      createdAt: new Date(),
+      lastModified: new Date()
+    }
+
+    const shared = toSharedProject(project, ['techStack'])
+    expect(shared).not.toHaveProperty('originalIdea')
+    expect(shared).not.toHaveProperty('userId')
+    expect(shared.blueprint).toEqual({ techStack: { b: 2 } })
+  })
+})
+
+describe('authorizeShareLink', () => {
+  beforeEach(() => {
+    store.link = null
+  })
+
+  it('rejects unknown, revoked and expired links', async () => {
+    expect(await authorizeShareLink('missing', undefined)).toMatchObject({ allowed: false, status: 404 })
+
+    store.link = makeLink({ revokedAt: new Date() })
+    expect(await authorizeShareLink('token-1', undefined)).toMatchObject({ allowed: false, status: 403 })
+
+    store.link = makeLink({ expiresAt: new Date(Date.now() - 1000) })
+    expect(await authorizeShareLink('token-1', undefined)).toMatchObject({ allowed: false, status: 403 })
+  })
+
+  it('asks for the password and checks it', async () => {
+    store.link = makeLink({ passwordHash: await hashSharePassword('secret') })
+
+    expect(await authorizeShareLink('token-1', undefined)).toMatchObject({ status: 401, error: 'Password required' })
+    expect(await authorizeShareLink('token-1', 'wrong')).toMatchObject({ status: 401, error: 'Incorrect password' })
+    expect(await authorizeShareLink('token-1', 'secret')).toMatchObject({ allowed: true })
+  })
+
+  it('stops checking passwords after too many wrong ones', async () => {
+    store.link = makeLink({ id: 'link-guessed', passwordHash: await hashSharePassword('secret') })
+
+    for (let attempt = 0; attempt < MAX_PASSWORD_ATTEMPTS; attempt++) {
+      expect(await authorizeShareLink('token-1', `guess-${attempt}`)).toMatchObject({ status: 401 })
+    }
+    expect(await authorizeShareLink('token-1', 'secret')).toMatchObject({ allowed: false, status: 429 })
+  })
+
+  it('only grants the permissions the link has', async () => {
+    store.link = makeLink({ permissions: ['view', 'comment'] })
+
+    expect(await authorizeShareLink('token-1', undefined, 'comment')).toMatchObject({ allowed: true })
+    expect(await authorizeShareLink('token-1', undefined, 'duplicate')).toMatchObject({ allowed: false, status: 403 })
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { OpenAIClient } from '../ai-services/clients/openai-client'
+import { AnthropicClient } from '../ai-services/clients/anthropic-client'
+import { AIRequest } from '@/types/ai-services'
+
+const { openaiCreate, anthropicCreate } = vi.hoisted(() => ({
+  openaiCreate: vi.fn(),
+  anthropicCreate: vi.fn()
+}))
+
+vi.mock('openai', () => ({
+  default: vi.fn().mockImplementation(() => ({ chat: { completions: { create: openaiCreate } } }))
+}))
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: vi.fn().mockImplementation(() => ({ messages: { create: anthropicCreate } }))
+}))
+
+const rateLimits = { requestsPerMinute: 500, tokensPerMinute: 150000 }
+
+// A second turn: the model asked for a cost figure and both results are in
+const request: AIRequest = {
+  provider: 'openai',
+  model: 'gpt-4-turbo',
+  prompt: 'Build the financial model',
+  systemPrompt: 'You are a financial analyst.',
+  tools: [{
+    name: 'cost_calculator',
+    description: 'Calculates monthly costs',
+    parameters: { type: 'object', properties: { monthlyActiveUsers: { type: 'integer' } } }
+  }],
+  messages: [
+    { role: 'user', content: 'Build the financial model' },
+    {
+      role: 'assistant',
+      content: 'Let me work out the costs.',
+      toolCalls: [
+        { id: 'call_1', name: 'cost_calculator', arguments: { monthlyActiveUsers: 100 } },
+        { id: 'call_2', name: 'cost_calculator', arguments: { monthlyActiveUsers: 1000 } }
+      ]
+    },
+    { role: 'tool', toolCallId: 'call_1', name: 'cost_calculator', content: '{"totalCostPerMonth":10}' },
+    { role: 'tool', toolCallId: 'call_2', name: 'cost_calculator', content: 'Invalid arguments', isError: true }
+  ]
+}
+
+describe('Tool calling', () => {
+  beforeEach(() => {
+    openaiCreate.mockReset()
+    anthropicCreate.mockReset()
+  })
+
+  it('should translate conversations and tool calls to the OpenAI format', async () => {
+    openaiCreate.mockResolvedValue({
+      choices: [{
+        message: {
+          content: null,
+          tool_calls: [{ id: 'call_3', type: 'function', function: { name: 'cost_calculator', arguments: '{"monthlyActiveUsers":5000}' } }]
+        }
+      }],
+      usage: { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 }
+    })
+    const client = new OpenAIClient({ name: 'openai', apiKey: 'sk-test', models: [], maxTokens: 4096, supportsStreaming: true, costPerToken: 0, rateLimits })
+
+    const response = await client.makeRequest(request)
+
+    const params = openaiCreate.mock.calls[0][0]
+    expect(params.tools).toEqual([{ type: 'function', function: request.tools![0] }])
+    expect(params.tool_choice).toBe('auto')
+    expect(params.messages.map((message: { role: string }) => message.role)).toEqual(['system', 'user', 'assistant', 'tool', 'tool'])
+    expect(params.messages[2].tool_calls[0]).toEqual({
+      id: 'call_1',
+      type: 'function',
+      function: { name: 'cost_calculator', arguments: '{"monthlyActiveUsers":100}' }
+    })
+    expect(params.messages[4]).toEqual({ role: 'tool', tool_call_id: 'call_2', content: 'Invalid arguments' })
+    expect(response.toolCalls).toEqual([{ id: 'call_3', name: 'cost_calculator', arguments: { monthlyActiveUsers: 5000 } }])
+  })
+
+  it('should translate conversations and tool calls to the Anthropic format', async () => {
+    anthropicCreate.mockResolvedValue({
+      content: [
+        { type: 'text', text: 'One more figure.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'cost_calculator', input: { monthlyActiveUsers: 5000 } }
+      ],
+      usage: { input_tokens: 50, output_tokens: 10 }
+    })
+    const client = new AnthropicClient({ name: 'anthropic', apiKey: 'sk-test', models: [], maxTokens: 4096, supportsStreaming: true, costPerToken: 0, rateLimits })
+
+    const response = await client.makeRequest({ ...request, provider: 'anthropic', toolChoice: 'required' })
+
+    const params = anthropicCreate.mock.calls[0][0]
+    expect(params.system).toBe('You are a financial analyst.')
+    expect(params.tools[0]).toMatchObject({ name: 'cost_calculator', input_schema: { type: 'object' } })
+    expect(params.tool_choice).toEqual({ type: 'any' })
+    expect(params.messages).toHaveLength(3)
+    expect(params.messages[1].content).toEqual([
+      { type: 'text', text: 'Let me work out the costs.' },
+      { type: 'tool_use', id: 'call_1', name: 'cost_calculator', input: { monthlyActiveUsers: 100 } },
+      { type: 'tool_use', id: 'call_2', name: 'cost_calculator', input: { monthlyActiveUsers: 1000 } }
+    ])
+    // Both results go back in a single user turn
+    expect(params.messages[2]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'call_1', content: '{"totalCostPerMonth":10}', is_error: undefined },
+        { type: 'tool_result', tool_use_id: 'call_2', content: 'Invalid arguments', is_error: true }
+      ]
+    })
+    expect(response.data).toBe('One more figure.')
+    expect(response.toolCalls).toEqual([{ id: 'toolu_1', name: 'cost_calculator', arguments: { monthlyActiveUsers: 5000 } }])
+  })
+
+  it('should send plain prompts unchanged when there is no conversation', async () => {
+    anthropicCreate.mockResolvedValue({ content: [{ type: 'text', text: 'Hi' }], usage: { input_tokens: 1, output_tokens: 1 } })
+    const client = new AnthropicClient({ name: 'anthropic', apiKey: 'sk-test', models: [], maxTokens: 4096, supportsStreaming: true, costPerToken: 0, rateLimits })
+
+    const response = await client.makeRequest({ provider: 'anthropic', model: 'claude-3-haiku-20240307', prompt: 'Hello' })
+
+    expect(anthropicCreate.mock.calls[0][0].messages).toEqual([{ role: 'user', content: 'Hello' }])
+    expect(anthropicCreate.mock.calls[0][0].tools).toBeUndefined()
+    expect(response.toolCalls).toBeUndefined()
+  })
+})
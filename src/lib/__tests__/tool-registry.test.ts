@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { createDefaultToolRegistry, ToolRegistry } from '../ai-services/tools'
+
+describe('ToolRegistry', () => {
+  const registry = createDefaultToolRegistry()
+
+  it('should list definitions, optionally by name', () => {
+    expect(registry.definitions().map(tool => tool.name)).toEqual(['cost_calculator', 'tech_compatibility'])
+    expect(registry.definitions(['tech_compatibility'])).toHaveLength(1)
+  })
+
+  it('should calculate monthly costs deterministically', async () => {
+    const result = await registry.execute({
+      id: 'call_1',
+      name: 'cost_calculator',
+      arguments: {
+        monthlyActiveUsers: 1000,
+        aiRequestsPerUser: 20,
+        tokensPerRequest: 1000,
+        provider: 'openai',
+        model: 'gpt-3.5-turbo',
+        fixedCosts: [{ name: 'Hosting', monthlyAmount: 60 }],
+        pricePerUser: 1
+      }
+    })
+
+    expect(result).toMatchObject({ role: 'tool', toolCallId: 'call_1', name: 'cost_calculator' })
+    expect(result.isError).toBeUndefined()
+    expect(JSON.parse(result.content)).toEqual({
+      monthlyTokens: 20000000,
+      aiCostPerMonth: 40,
+      fixedCostPerMonth: 60,
+      totalCostPerMonth: 100,
+      costPerUser: 0.1,
+      revenuePerMonth: 1000,
+      grossMarginPercent: 90
+    })
+  })
+
+  it('should flag known and cross-language conflicts in a stack', async () => {
+    const result = await registry.execute({
+      id: 'call_2',
+      name: 'tech_compatibility',
+      arguments: { technologies: ['nextjs', 'Prisma', 'Django', 'SQLite', 'Vercel', 'Quantum DB'] }
+    })
+    const report = JSON.parse(result.content)
+
+    expect(report.compatible).toBe(false)
+    expect(report.unknownTechnologies).toEqual(['Quantum DB'])
+    expect(report.issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ technologies: ['Prisma', 'Django'], status: 'incompatible' }),
+      expect.objectContaining({ technologies: ['SQLite', 'Vercel'], status: 'incompatible' }),
+      expect.objectContaining({ technologies: ['Django', 'Vercel'], status: 'caution' })
+    ]))
+  })
+
+  it('should return failures to the model instead of throwing', async () => {
+    const failing = new ToolRegistry().register({
+      definition: { name: 'broken', description: 'Always fails', parameters: { type: 'object', properties: {} } },
+      schema: z.object({ value: z.number() }),
+      execute: () => { throw new Error('Lookup table unavailable') }
+    })
+
+    expect(await failing.execute({ id: 'a', name: 'missing', arguments: {} }))
+      .toMatchObject({ isError: true, content: 'Unknown tool "missing". Available tools: broken' })
+    expect(await failing.execute({ id: 'b', name: 'broken', arguments: {} }))
+      .toMatchObject({ isError: true, content: expect.stringContaining('Invalid arguments: value') })
+    expect(await failing.execute({ id: 'c', name: 'broken', arguments: { value: 1 } }))
+      .toMatchObject({ isError: true, content: 'Lookup table unavailable' })
+  })
+})
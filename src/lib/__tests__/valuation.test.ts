@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { blendedValuation, planFunding, REVENUE_MULTIPLE, valueBusiness, withValuation } from '../financial/valuation'
+import { ComprehensiveFinancialModel, MonthlyProjection } from '@/types'
+import { BusinessValuationSchema, ComprehensiveFinancialModelSchema } from '@/types/validation'
+
+function modelWith(months: { revenue: number; costs: number }[], startingCash = 0): ComprehensiveFinancialModel {
+  let cash = startingCash
+  const projections: MonthlyProjection[] = months.map((month, index) => {
+    cash += month.revenue - month.costs
+    return { month: index + 1, users: index * 10, revenue: month.revenue, costs: month.costs, cash }
+  })
+
+  return {
+    costs: { infrastructure: [], team: [], tools: [], marketing: [], total: 0, monthly: 0, yearly: 0 },
+    revenue: { model: 'Subscription', projections, assumptions: [], scenarios: [] },
+    metrics: { cac: 0, ltv: 0, ltvCacRatio: 0, burnRate: 0, runway: -1, breakeven: -1, roi: 0 },
+    scenarios: []
+  }
+}
+
+const profitable = modelWith(Array.from({ length: 24 }, () => ({ revenue: 2000, costs: 1000 })))
+
+describe('valuation', () => {
+  it('should discount yearly cash flows with a terminal value', () => {
+    const { dcf } = valueBusiness(profitable, { comparables: [] })
+
+    expect(dcf.cashFlows).toEqual([12000, 12000])
+    expect(dcf.terminalValue).toBeCloseTo(12000 * 1.03 / 0.37, 1)
+    expect(dcf.presentValue).toBeCloseTo(12000 / 1.4 + (12000 + dcf.terminalValue) / 1.96, 1)
+  })
+
+  it('should give no terminal value to a business still losing money', () => {
+    const losing = modelWith(Array.from({ length: 24 }, () => ({ revenue: 500, costs: 1000 })))
+    const { dcf } = valueBusiness(losing, { comparables: [] })
+
+    expect(dcf.terminalValue).toBe(0)
+    expect(dcf.presentValue).toBe(0)
+  })
+
+  it('should apply weighted, adjusted multiples from the comps table to ARR', () => {
+    const valuation = valueBusiness(profitable, {
+      comparables: [
+        { name: 'Small peer', metrics: { [REVENUE_MULTIPLE]: 6 }, adjustments: { size: -0.5 }, weight: 1 },
+        { name: 'Leader', metrics: { [REVENUE_MULTIPLE]: 10 }, adjustments: {}, weight: 3 },
+        { name: 'Ignored', metrics: { [REVENUE_MULTIPLE]: 50 }, adjustments: {}, weight: 0 }
+      ]
+    })
+
+    expect(valuation.comparables.valuation).toBe(8.25 * 24000)
+    expect(valuation.comparables.adjustments).toEqual(['Small peer: -50% for size'])
+    expect(valuation.multiples[0]).toMatchObject({ multiple: 3, value: 72000 })
+  })
+
+  it('should blend the methods by confidence', () => {
+    const valuation = valueBusiness(profitable)
+    const [dcf, comparables] = valuation.methods
+
+    expect(blendedValuation(valuation)).toBeCloseTo(
+      (dcf.value * dcf.confidence + comparables.value * comparables.confidence) / (dcf.confidence + comparables.confidence),
+      1
+    )
+  })
+
+  it('should size rounds to close before cash runs out', () => {
+    const burning = modelWith(Array.from({ length: 36 }, (_, index) => ({
+      revenue: index * 300,
+      costs: 6000
+    })), 40000)
+
+    const funding = planFunding(burning, 1000000, { startDate: new Date('2026-01-01') })
+    const [round] = funding.stages
+
+    // Cash goes negative in month 9, so the round closes in month 3
+    expect(round.timeline).toBe('Month 3')
+    expect(round.amount % 50000).toBe(0)
+    expect(round.name).toBe('Pre-seed')
+
+    let cash = 40000
+    for (const month of burning.revenue.projections) {
+      cash += month.revenue - (month.costs ?? 0) + (month.month === 3 ? round.amount : 0)
+      expect(cash).toBeGreaterThanOrEqual(0)
+    }
+
+    expect(funding.terms.valuation).toEqual({ pre: 1000000, post: 1000000 + round.amount })
+    expect(funding.terms.equity).toBeCloseTo(round.amount / (1000000 + round.amount), 3)
+    expect(funding.timeline.milestones[0].date).toEqual(new Date('2026-03-01'))
+  })
+
+  it('should not plan rounds when cash never runs out', () => {
+    const model = withValuation(modelWith(Array.from({ length: 12 }, () => ({ revenue: 2000, costs: 1000 }))))
+
+    expect(model.funding?.stages).toEqual([])
+    expect(model.funding?.terms.equity).toBe(0)
+    expect(model.valuation?.methods).toHaveLength(2)
+  })
+  it('should store a valuation and funding plan their schemas accept', () => {
+    const burning = modelWith(Array.from({ length: 36 }, (_, index) => ({ revenue: index * 300, costs: 6000 })), 40000)
+    const model = withValuation(burning, {
+      comparables: [
+        { name: 'Heavy', metrics: { [REVENUE_MULTIPLE]: 10 }, adjustments: {}, weight: 2 },
+        { name: 'Unpriced', metrics: {}, adjustments: {}, weight: 1 }
+      ]
+    })
+    // As read back from the database, or received from a live edit
+    const stored = JSON.parse(JSON.stringify(model))
+
+    expect(stored.funding.stages.length).toBeGreaterThan(0)
+    expect(BusinessValuationSchema.safeParse(stored.valuation).success).toBe(true)
+    expect(ComprehensiveFinancialModelSchema.shape.funding.safeParse(stored.funding).success).toBe(true)
+  })
+})
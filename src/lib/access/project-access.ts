@@ -0,0 +1,74 @@
+import { prisma } from '@/lib/prisma'
+import { hasRole, isProjectRole, ProjectRole } from './roles'
+
+export { hasRole, isProjectRole, PROJECT_ROLES, ROLE_DESCRIPTIONS } from './roles'
+export type { ProjectRole } from './roles'
+
+/** A project row as Prisma returns it */
+type ProjectRecord = NonNullable<Awaited<ReturnType<typeof prisma.project.findUnique>>>
+
+export type ProjectAccess =
+  | { allowed: true; project: ProjectRecord; role: ProjectRole }
+  | { allowed: false; status: number; error: string }
+
+/**
+ * The role a user has on a project. The creator of a personal project owns
+ * it; a project in a workspace goes by the user's membership alone, so
+ * leaving the workspace also ends access to the projects one created there.
+ */
+export function roleOnProject(
+  project: { userId: string; organizationId: string | null },
+  userId: string,
+  membershipRole?: string | null
+): ProjectRole | null {
+  if (!project.organizationId) {
+    return project.userId === userId ? 'owner' : null
+  }
+  return isProjectRole(membershipRole) ? membershipRole : null
+}
+
+/**
+ * Looks up a project and checks the user has at least `required` on it.
+ * Projects the user cannot see at all are reported as not found, so their
+ * existence is not revealed. Every route under /api/projects checks access
+ * here.
+ */
+export async function authorizeProject(
+  projectId: string,
+  userId: string,
+  required: ProjectRole = 'viewer'
+): Promise<ProjectAccess> {
+  const project: ProjectRecord | null = await prisma.project.findUnique({ where: { id: projectId } })
+
+  if (!project) {
+    return { allowed: false, status: 404, error: 'Project not found' }
+  }
+
+  const membership = project.organizationId
+    ? await prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId: project.organizationId, userId } },
+      select: { role: true }
+    })
+    : null
+  const role = roleOnProject(project, userId, membership?.role)
+
+  if (!role) {
+    return { allowed: false, status: 404, error: 'Project not found' }
+  }
+
+  if (!hasRole(role, required)) {
+    return { allowed: false, status: 403, error: `This needs ${required} access to the project` }
+  }
+
+  return { allowed: true, project, role }
+}
+
+/** Prisma filter for every project the user can see: their own, and their workspaces' */
+export function accessibleProjectsWhere(userId: string) {
+  return {
+    OR: [
+      { userId, organizationId: null },
+      { organization: { memberships: { some: { userId } } } }
+    ]
+  }
+}
@@ -0,0 +1,19 @@
+/** Roles in a team workspace, from least to most access */
+export const PROJECT_ROLES = ['viewer', 'editor', 'owner'] as const
+export type ProjectRole = typeof PROJECT_ROLES[number]
+
+/** What each role adds, for showing to users */
+export const ROLE_DESCRIPTIONS: Record<ProjectRole, string> = {
+  viewer: 'Can view, export and comment on projects',
+  editor: 'Can also create, edit, regenerate and share projects',
+  owner: 'Can also delete projects and manage members'
+}
+
+export function isProjectRole(value: unknown): value is ProjectRole {
+  return PROJECT_ROLES.includes(value as ProjectRole)
+}
+
+/** Whether `role` gives at least the access of `required` */
+export function hasRole(role: ProjectRole, required: ProjectRole): boolean {
+  return PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(required)
+}
@@ -1,11 +1,27 @@
 import { getAIServiceManager } from './index'
-import { buildPrompt, validatePromptVariables } from './prompt-templates'
-import { selectOptimalModel } from './config'
+import { validatePromptVariables } from './prompt-templates'
+import { selectOptimalModel, estimateModelCost } from './config'
+import { SectionGraphExecutor } from './section-graph'
+import { parseStructuredResponse } from './response-parser'
+import { FinancialModelInputs, PersonasResponseSchema, SECTION_RESPONSE_SCHEMAS } from './section-schemas'
+import { AIBudgetManager, BudgetScope } from './cost-budget'
+import { fitPrompt } from './prompt-fitter'
+import { countTokens } from './tokenizer'
+import { createDefaultToolRegistry, ToolRegistry } from './tools'
+import { buildFinancialModel } from '@/lib/financial/financial-engine'
+import { withSensitivity } from '@/lib/financial/sensitivity'
+import { valuationOptionsOf, withValuation } from '@/lib/financial/valuation'
+import { DEFAULT_TEAM_SIZE, ScheduleOptions, scheduleOptionsOf, scheduleRoadmap, withSchedule } from '@/lib/roadmap/scheduler'
+import { AudienceProfile, ComprehensiveProductPlan, UserPersona } from '@/types'
+import { ProductPlanWithCompetitors } from '@/lib/competitive-analysis/matrix'
 import {
   AIOrchestrator,
   BlueprintGenerationRequest,
   BlueprintGenerationResponse,
+  BlueprintStreamListener,
+  AIRequest,
   AIResponse,
+  AIMessage,
   BlueprintSection,
   OptimizationCriteria,
   ValidationResult,
@@ -17,85 +33,83 @@ import {
   FinancialModel,
   Blueprint
 } from '@/types/ai-services'
+import { z } from 'zod'
+
+/** Follow-up requests allowed when a section reply fails schema validation */
+const MAX_REPAIR_ATTEMPTS = 2
+
+/** Rounds of tool calls before the model is made to answer */
+const MAX_TOOL_ROUNDS = 4
+
+const DEFAULT_PERSONA_COUNT = 3
+
+/** Product plan fields the user enters rather than the model, which a regenerated plan keeps */
+const USER_PLAN_FIELDS = ['userPersonas', 'competitorData', 'businessModelCanvas', 'valueProposition'] as const
+
+export interface AIOrchestrationOptions {
+  /** Charge every AI call to this user's (and project's) budget */
+  budget?: BudgetScope
+  budgetManager?: AIBudgetManager
+  /** Local tools sections can call; defaults to the built-in tools */
+  tools?: ToolRegistry
+}
+
+export interface GenerationStreamOptions {
+  /**
+   * Asked as each section starts whether to stream its tokens. Streamed
+   * requests skip the response cache and retries and have their usage
+   * estimated, so they are only worth it while someone is watching.
+   * Defaults to streaming whenever there is an event listener.
+   */
+  streamTokens?: () => boolean
+}
+
+export interface RegenerationOptions {
+  /** The project's original idea, which the product plan is regenerated from */
+  idea?: string
+  /** Personas the regenerated product plan's features and GTM strategy are designed for */
+  personas?: UserPersona[]
+}
 
 export class AIOrchestrationService implements AIOrchestrator {
   private aiManager = getAIServiceManager()
+  private budget?: BudgetScope
+  private budgetManager: AIBudgetManager
+  private tools: ToolRegistry
+
+  constructor(options: AIOrchestrationOptions = {}) {
+    this.budget = options.budget
+    this.budgetManager = options.budgetManager ?? new AIBudgetManager()
+    this.tools = options.tools ?? createDefaultToolRegistry()
+  }
 
-  async generateBlueprint(request: BlueprintGenerationRequest): Promise<BlueprintGenerationResponse> {
+  async generateBlueprint(
+    request: BlueprintGenerationRequest,
+    onEvent?: BlueprintStreamListener,
+    options: GenerationStreamOptions = {}
+  ): Promise<BlueprintGenerationResponse> {
     const startTime = Date.now()
-    const generationSteps: string[] = []
-    let totalCost = 0
-    let aiCallsUsed = 0
 
     try {
-      // Step 1: Generate Product Plan
-      generationSteps.push('Generating product plan')
-      const productPlanResponse = await this.generateProductPlan(request.idea, request.context)
-      if (!productPlanResponse.success) {
-        throw new Error(`Product plan generation failed: ${productPlanResponse.error?.message}`)
-      }
-      totalCost += productPlanResponse.usage.cost
-      aiCallsUsed++
-
-      // Step 2: Generate Tech Stack (parallel with workflow generation)
-      generationSteps.push('Generating tech stack')
-      const techStackPromise = this.generateTechStack(productPlanResponse.data!, request.context)
-      
-      // Step 3: Generate AI Workflow (parallel with tech stack)
-      generationSteps.push('Generating AI workflow')
-      const workflowPromise = this.generateAIWorkflow(productPlanResponse.data!, request.context)
-
-      const [techStackResponse, workflowResponse] = await Promise.all([
-        techStackPromise,
-        workflowPromise
-      ])
-
-      if (!techStackResponse.success) {
-        throw new Error(`Tech stack generation failed: ${techStackResponse.error?.message}`)
-      }
-      if (!workflowResponse.success) {
-        throw new Error(`AI workflow generation failed: ${workflowResponse.error?.message}`)
-      }
+      const graphResult = await this.buildSectionGraph(onEvent, options.streamTokens).execute(request, {
+        onSectionStart: section => onEvent?.({ type: 'section-started', section, timestamp: new Date() }),
+        onSectionComplete: (status, data) =>
+          onEvent?.({ type: 'section-completed', section: status.section, status, data })
+      })
 
-      totalCost += techStackResponse.usage.cost + workflowResponse.usage.cost
-      aiCallsUsed += 2
-
-      // Step 4: Generate Roadmap (depends on product plan and tech stack)
-      generationSteps.push('Generating development roadmap')
-      const roadmapResponse = await this.generateRoadmap(
-        productPlanResponse.data!,
-        techStackResponse.data!,
-        request.context
-      )
-      if (!roadmapResponse.success) {
-        throw new Error(`Roadmap generation failed: ${roadmapResponse.error?.message}`)
-      }
-      totalCost += roadmapResponse.usage.cost
-      aiCallsUsed++
-
-      // Step 5: Generate Financial Model (parallel with roadmap)
-      generationSteps.push('Generating financial model')
-      const financialModelResponse = await this.generateFinancialModel(
-        productPlanResponse.data!,
-        techStackResponse.data!,
-        request.context
-      )
-      if (!financialModelResponse.success) {
-        throw new Error(`Financial model generation failed: ${financialModelResponse.error?.message}`)
+      if (graphResult.stepsCompleted.length === 0) {
+        const failures = Object.values(graphResult.sectionStatus)
+          .filter(status => status?.status === 'failed')
+          .map(status => `${status!.section}: ${status!.error}`)
+        throw new Error(`No sections could be generated (${failures.join('; ')})`)
       }
-      totalCost += financialModelResponse.usage.cost
-      aiCallsUsed++
 
-      // Assemble the complete blueprint
-      const blueprint: Blueprint = {
+      // Assemble the blueprint from whichever sections completed
+      const blueprint = {
         id: `blueprint_${Date.now()}`,
-        productPlan: productPlanResponse.data!,
-        techStack: techStackResponse.data!,
-        aiWorkflow: workflowResponse.data!,
-        roadmap: roadmapResponse.data!,
-        financialModel: financialModelResponse.data!,
+        ...graphResult.sections,
         generatedAt: new Date()
-      }
+      } as Blueprint
 
       // Validate the complete blueprint
       const validation = await this.validateBlueprint(blueprint)
@@ -103,29 +117,101 @@ export class AIOrchestrationService implements AIOrchestrator {
         .filter(issue => issue.severity === 'warning')
         .map(issue => issue.message)
 
+      for (const status of Object.values(graphResult.sectionStatus)) {
+        if (status && status.status !== 'completed') {
+          warnings.push(`Section ${status.section} ${status.status}: ${status.error}`)
+        }
+      }
+
       const recommendations = validation.suggestions.map(suggestion => suggestion.suggestion)
 
-      return {
+      const response: BlueprintGenerationResponse = {
         blueprint,
         confidence: validation.score,
         warnings,
         recommendations,
         generationMetadata: {
           totalTime: Date.now() - startTime,
-          stepsCompleted: generationSteps,
-          aiCallsUsed,
-          totalCost
+          stepsCompleted: graphResult.stepsCompleted,
+          aiCallsUsed: graphResult.aiCallsUsed,
+          totalCost: graphResult.totalCost,
+          sectionStatus: graphResult.sectionStatus
         }
       }
+
+      onEvent?.({ type: 'blueprint-completed', response })
+      return response
     } catch (error) {
       throw new Error(`Blueprint generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
+  /**
+   * Declares the blueprint sections and what each one needs as input.
+   * New sections only need a node here; the executor works out the ordering.
+   * With a listener attached, section requests are streamed token by token
+   * unless `streamTokens` says otherwise when the section starts.
+   */
+  private buildSectionGraph(
+    onEvent?: BlueprintStreamListener,
+    streamTokens: () => boolean = () => true
+  ): SectionGraphExecutor<BlueprintGenerationRequest> {
+    const tokenListener = (section: BlueprintSection) =>
+      onEvent && streamTokens() ? (delta: string) => onEvent({ type: 'token-delta', section, delta }) : undefined
+
+    return new SectionGraphExecutor<BlueprintGenerationRequest>([
+      {
+        section: 'productPlan',
+        label: 'Generating product plan',
+        dependsOn: [],
+        generate: request => this.generateProductPlan(request.idea, request.context, tokenListener('productPlan'))
+      },
+      {
+        section: 'techStack',
+        label: 'Generating tech stack',
+        dependsOn: ['productPlan'],
+        generate: (request, sections) =>
+          this.generateTechStack(sections.productPlan!, request.context, tokenListener('techStack'))
+      },
+      {
+        section: 'aiWorkflow',
+        label: 'Generating AI workflow',
+        dependsOn: ['productPlan'],
+        generate: (request, sections) =>
+          this.generateAIWorkflow(sections.productPlan!, request.context, tokenListener('aiWorkflow'))
+      },
+      {
+        section: 'roadmap',
+        label: 'Generating development roadmap',
+        dependsOn: ['productPlan', 'techStack'],
+        generate: (request, sections) =>
+          this.generateRoadmap(
+            sections.productPlan!,
+            sections.techStack!,
+            request.context,
+            tokenListener('roadmap')
+          )
+      },
+      {
+        section: 'financialModel',
+        label: 'Generating financial model',
+        dependsOn: ['productPlan', 'techStack'],
+        generate: (request, sections) =>
+          this.generateFinancialModel(
+            sections.productPlan!,
+            sections.techStack!,
+            request.context,
+            tokenListener('financialModel')
+          )
+      }
+    ])
+  }
+
   async regenerateSection(
     blueprint: Blueprint,
     section: BlueprintSection,
-    feedback?: string
+    feedback?: string,
+    options: RegenerationOptions = {}
   ): Promise<AIResponse<any>> {
     const context = {
       userProfile: {
@@ -133,15 +219,16 @@ export class AIOrchestrationService implements AIOrchestrator {
         background: ['product development'],
         preferences: {}
       },
-      feedback
+      feedback,
+      personas: options.personas
     }
 
     switch (section) {
-      case 'productPlan':
-        return this.generateProductPlan(
+      case 'productPlan': {
+        const response = await this.generateProductPlan(
           { 
             id: 'regenerate',
-            originalInput: 'Regenerating based on feedback',
+            originalInput: options.idea || 'Regenerating based on feedback',
             extractedFeatures: blueprint.productPlan.coreFeatures.map(f => f.name),
             category: 'general' as any,
             complexity: 'moderate' as any,
@@ -150,6 +237,12 @@ export class AIOrchestrationService implements AIOrchestrator {
           context
         )
 
+        // The personas, competitors and business model the user entered are kept
+        return response.success && response.data
+          ? { ...response, data: { ...response.data, ...userPlanFields(blueprint.productPlan) } }
+          : response
+      }
+
       case 'techStack':
         return this.generateTechStack(blueprint.productPlan, context)
 
@@ -157,16 +250,47 @@ export class AIOrchestrationService implements AIOrchestrator {
         return this.generateAIWorkflow(blueprint.productPlan, context)
 
       case 'roadmap':
-        return this.generateRoadmap(blueprint.productPlan, blueprint.techStack, context)
+        // A regenerated roadmap keeps the start date and team size it was scheduled with
+        return this.generateRoadmap(blueprint.productPlan, blueprint.techStack, {
+          ...context,
+          schedule: scheduleOptionsOf(blueprint.roadmap)
+        })
 
       case 'financialModel':
-        return this.generateFinancialModel(blueprint.productPlan, blueprint.techStack, context)
+        // A regenerated model keeps the comps table the user saved
+        return this.generateFinancialModel(blueprint.productPlan, blueprint.techStack, {
+          ...context,
+          comparables: valuationOptionsOf(blueprint.financialModel).comparables
+        })
 
       default:
         throw new Error(`Unknown section: ${section}`)
     }
   }
 
+  /**
+   * Creates user personas for an idea, each from a different part of its
+   * target audience.
+   */
+  async generatePersonas(
+    idea: string,
+    audience: AudienceProfile | undefined,
+    count = DEFAULT_PERSONA_COUNT
+  ): Promise<AIResponse<UserPersona[]>> {
+    const fitted = fitPrompt('PERSONA_GENERATION', { idea, audience: audience ?? {}, count }, {
+      ...selectOptimalModel('creative', 'quality'),
+      systemPrompt: 'You are a senior UX researcher who builds personas from market research and customer interviews.'
+    })
+
+    // Personas are part of the product plan, so their spend is recorded against it
+    const response = await this.requestStructuredSection<{ personas: UserPersona[] }>('productPlan', 'personas', {
+      ...fitted.request,
+      temperature: 0.8
+    }, undefined, PersonasResponseSchema)
+
+    return { ...response, data: response.data?.personas }
+  }
+
   async optimizeBlueprint(
     blueprint: Blueprint,
     criteria: OptimizationCriteria
@@ -174,7 +298,7 @@ export class AIOrchestrationService implements AIOrchestrator {
     const optimizationPrompt = this.buildOptimizationPrompt(blueprint, criteria)
     const model = selectOptimalModel('analytical', 'quality')
 
-    const response = await this.aiManager.makeRequest<Blueprint>({
+    return this.requestWithinBudget<Blueprint>({
       provider: model.provider,
       model: model.model,
       prompt: optimizationPrompt,
@@ -182,8 +306,6 @@ export class AIOrchestrationService implements AIOrchestrator {
       temperature: 0.3,
       maxTokens: 4000
     })
-
-    return response
   }
 
   async validateBlueprint(blueprint: Blueprint): Promise<ValidationResult> {
@@ -192,42 +314,52 @@ export class AIOrchestrationService implements AIOrchestrator {
     let totalScore = 0
     let sectionCount = 0
 
-    // Validate Product Plan
-    const productPlanScore = this.validateProductPlan(blueprint.productPlan)
-    totalScore += productPlanScore.score
-    sectionCount++
-    issues.push(...productPlanScore.issues)
-    suggestions.push(...productPlanScore.suggestions)
+    // Validate Product Plan (sections that failed to generate are absent and left out of the score)
+    if (blueprint.productPlan) {
+      const productPlanScore = this.validateProductPlan(blueprint.productPlan)
+      totalScore += productPlanScore.score
+      sectionCount++
+      issues.push(...productPlanScore.issues)
+      suggestions.push(...productPlanScore.suggestions)
+    }
 
     // Validate Tech Stack
-    const techStackScore = this.validateTechStack(blueprint.techStack)
-    totalScore += techStackScore.score
-    sectionCount++
-    issues.push(...techStackScore.issues)
-    suggestions.push(...techStackScore.suggestions)
+    if (blueprint.techStack) {
+      const techStackScore = this.validateTechStack(blueprint.techStack)
+      totalScore += techStackScore.score
+      sectionCount++
+      issues.push(...techStackScore.issues)
+      suggestions.push(...techStackScore.suggestions)
+    }
 
     // Validate AI Workflow
-    const workflowScore = this.validateAIWorkflow(blueprint.aiWorkflow)
-    totalScore += workflowScore.score
-    sectionCount++
-    issues.push(...workflowScore.issues)
-    suggestions.push(...workflowScore.suggestions)
+    if (blueprint.aiWorkflow) {
+      const workflowScore = this.validateAIWorkflow(blueprint.aiWorkflow)
+      totalScore += workflowScore.score
+      sectionCount++
+      issues.push(...workflowScore.issues)
+      suggestions.push(...workflowScore.suggestions)
+    }
 
     // Validate Roadmap
-    const roadmapScore = this.validateRoadmap(blueprint.roadmap)
-    totalScore += roadmapScore.score
-    sectionCount++
-    issues.push(...roadmapScore.issues)
-    suggestions.push(...roadmapScore.suggestions)
+    if (blueprint.roadmap) {
+      const roadmapScore = this.validateRoadmap(blueprint.roadmap)
+      totalScore += roadmapScore.score
+      sectionCount++
+      issues.push(...roadmapScore.issues)
+      suggestions.push(...roadmapScore.suggestions)
+    }
 
     // Validate Financial Model
-    const financialScore = this.validateFinancialModel(blueprint.financialModel)
-    totalScore += financialScore.score
-    sectionCount++
-    issues.push(...financialScore.issues)
-    suggestions.push(...financialScore.suggestions)
+    if (blueprint.financialModel) {
+      const financialScore = this.validateFinancialModel(blueprint.financialModel)
+      totalScore += financialScore.score
+      sectionCount++
+      issues.push(...financialScore.issues)
+      suggestions.push(...financialScore.suggestions)
+    }
 
-    const overallScore = Math.round(totalScore / sectionCount)
+    const overallScore = sectionCount > 0 ? Math.round(totalScore / sectionCount) : 0
 
     return {
       isValid: issues.filter(i => i.severity === 'error').length === 0,
@@ -237,51 +369,34 @@ export class AIOrchestrationService implements AIOrchestrator {
     }
   }
 
-  private async generateProductPlan(idea: ProcessedIdea, context?: any): Promise<AIResponse<ProductPlan>> {
-    const variables = { idea: idea.originalInput }
+  private async generateProductPlan(
+    idea: ProcessedIdea,
+    context?: any,
+    onToken?: (delta: string) => void
+  ): Promise<AIResponse<ProductPlan>> {
+    const variables = { idea: idea.originalInput, personas: describePersonas(context?.personas) }
     const validation = validatePromptVariables('PRODUCT_PLAN_GENERATION', variables)
     
     if (!validation.valid) {
       throw new Error(`Invalid variables: ${validation.errors.join(', ')}`)
     }
 
-    const prompt = buildPrompt('PRODUCT_PLAN_GENERATION', variables)
-    const model = selectOptimalModel('analytical', 'quality')
-
-    const response = await this.aiManager.makeRequest<string>({
-      provider: model.provider,
-      model: model.model,
-      prompt,
-      systemPrompt: 'You are an expert product strategist with 15+ years of experience in startup product development.',
-      temperature: 0.7,
-      maxTokens: 3000
+    const fitted = fitPrompt('PRODUCT_PLAN_GENERATION', variables, {
+      ...selectOptimalModel('analytical', 'quality'),
+      systemPrompt: 'You are an expert product strategist with 15+ years of experience in startup product development.'
     })
 
-    if (response.success) {
-      try {
-        const parsedData = JSON.parse(response.data!)
-        return {
-          ...response,
-          data: parsedData as ProductPlan
-        }
-      } catch (error) {
-        return {
-          ...response,
-          success: false,
-          error: {
-            code: 'PARSE_ERROR',
-            message: 'Failed to parse product plan JSON response',
-            type: 'invalid_request',
-            retryable: true
-          }
-        }
-      }
-    }
-
-    return response as AIResponse<ProductPlan>
+    return this.requestStructuredSection<ProductPlan>('productPlan', 'product plan', {
+      ...fitted.request,
+      temperature: 0.7
+    }, onToken)
   }
 
-  private async generateTechStack(productPlan: ProductPlan, context?: any): Promise<AIResponse<TechStack>> {
+  private async generateTechStack(
+    productPlan: ProductPlan,
+    context?: any,
+    onToken?: (delta: string) => void
+  ): Promise<AIResponse<TechStack>> {
     const variables = {
       features: productPlan.coreFeatures.map(f => f.name),
       scale: 'medium', // Default scale
@@ -289,43 +404,23 @@ export class AIOrchestrationService implements AIOrchestrator {
       teamExperience: 'mixed' // Default team experience
     }
 
-    const prompt = buildPrompt('TECH_STACK_GENERATION', variables)
-    const model = selectOptimalModel('analytical', 'quality')
-
-    const response = await this.aiManager.makeRequest<string>({
-      provider: model.provider,
-      model: model.model,
-      prompt,
-      systemPrompt: 'You are a senior software architect with expertise in modern web technologies and scalable systems.',
-      temperature: 0.5,
-      maxTokens: 3000
+    const fitted = fitPrompt('TECH_STACK_GENERATION', variables, {
+      ...selectOptimalModel('analytical', 'quality'),
+      systemPrompt: 'You are a senior software architect with expertise in modern web technologies and scalable systems.'
     })
 
-    if (response.success) {
-      try {
-        const parsedData = JSON.parse(response.data!)
-        return {
-          ...response,
-          data: parsedData as TechStack
-        }
-      } catch (error) {
-        return {
-          ...response,
-          success: false,
-          error: {
-            code: 'PARSE_ERROR',
-            message: 'Failed to parse tech stack JSON response',
-            type: 'invalid_request',
-            retryable: true
-          }
-        }
-      }
-    }
-
-    return response as AIResponse<TechStack>
+    return this.requestStructuredSection<TechStack>('techStack', 'tech stack', {
+      ...fitted.request,
+      tools: this.tools.definitions(['tech_compatibility']),
+      temperature: 0.5
+    }, onToken)
   }
 
-  private async generateAIWorkflow(productPlan: ProductPlan, context?: any): Promise<AIResponse<AIWorkflow>> {
+  private async generateAIWorkflow(
+    productPlan: ProductPlan,
+    context?: any,
+    onToken?: (delta: string) => void
+  ): Promise<AIResponse<AIWorkflow>> {
     const aiFeatures = productPlan.coreFeatures
       .filter(f => f.name.toLowerCase().includes('ai') || f.description.toLowerCase().includes('ai'))
       .map(f => f.name)
@@ -336,136 +431,313 @@ export class AIOrchestrationService implements AIOrchestrator {
       dataSources: ['user data', 'application data']
     }
 
-    const prompt = buildPrompt('AI_WORKFLOW_GENERATION', variables)
-    const model = selectOptimalModel('analytical', 'quality')
-
-    const response = await this.aiManager.makeRequest<string>({
-      provider: model.provider,
-      model: model.model,
-      prompt,
-      systemPrompt: 'You are an AI systems architect specializing in production AI workflows and MLOps.',
-      temperature: 0.5,
-      maxTokens: 3000
+    const fitted = fitPrompt('AI_WORKFLOW_GENERATION', variables, {
+      ...selectOptimalModel('analytical', 'quality'),
+      systemPrompt: 'You are an AI systems architect specializing in production AI workflows and MLOps.'
     })
 
-    if (response.success) {
-      try {
-        const parsedData = JSON.parse(response.data!)
-        return {
-          ...response,
-          data: parsedData as AIWorkflow
-        }
-      } catch (error) {
-        return {
-          ...response,
-          success: false,
-          error: {
-            code: 'PARSE_ERROR',
-            message: 'Failed to parse AI workflow JSON response',
-            type: 'invalid_request',
-            retryable: true
-          }
-        }
-      }
-    }
-
-    return response as AIResponse<AIWorkflow>
+    return this.requestStructuredSection<AIWorkflow>('aiWorkflow', 'AI workflow', {
+      ...fitted.request,
+      temperature: 0.5
+    }, onToken)
   }
 
   private async generateRoadmap(
     productPlan: ProductPlan,
     techStack: TechStack,
-    context?: any
+    context?: any,
+    onToken?: (delta: string) => void
   ): Promise<AIResponse<Roadmap>> {
+    const schedule: ScheduleOptions = context?.schedule ?? {}
     const variables = {
       features: productPlan.coreFeatures,
       techStack,
-      teamSize: 3, // Default team size
+      teamSize: schedule.teamSize ?? DEFAULT_TEAM_SIZE,
       timeline: '6 months' // Default timeline
     }
 
-    const prompt = buildPrompt('ROADMAP_GENERATION', variables)
-    const model = selectOptimalModel('analytical', 'quality')
-
-    const response = await this.aiManager.makeRequest<string>({
-      provider: model.provider,
-      model: model.model,
-      prompt,
-      systemPrompt: 'You are a technical project manager with expertise in agile development and startup execution.',
-      temperature: 0.6,
-      maxTokens: 3000
+    const fitted = fitPrompt('ROADMAP_GENERATION', variables, {
+      ...selectOptimalModel('analytical', 'quality'),
+      systemPrompt: 'You are a technical project manager with expertise in agile development and startup execution.'
     })
 
-    if (response.success) {
-      try {
-        const parsedData = JSON.parse(response.data!)
-        return {
-          ...response,
-          data: parsedData as Roadmap
-        }
-      } catch (error) {
-        return {
-          ...response,
-          success: false,
-          error: {
-            code: 'PARSE_ERROR',
-            message: 'Failed to parse roadmap JSON response',
-            type: 'invalid_request',
-            retryable: true
-          }
-        }
-      }
+    const response = await this.requestStructuredSection<Roadmap>('roadmap', 'roadmap', {
+      ...fitted.request,
+      temperature: 0.6
+    }, onToken)
+
+    if (!response.success || !response.data) {
+      return response
     }
 
-    return response as AIResponse<Roadmap>
+    // Dates and the critical path come from the task graph rather than the model
+    return { ...response, data: withSchedule(response.data, { ...schedule, teamSize: variables.teamSize }) }
   }
 
   private async generateFinancialModel(
     productPlan: ProductPlan,
     techStack: TechStack,
-    context?: any
+    context?: any,
+    onToken?: (delta: string) => void
   ): Promise<AIResponse<FinancialModel>> {
     const variables = {
       productPlan,
       techStack,
       marketSize: 'Medium-sized market',
-      businessModel: productPlan.monetization.primaryModel
+      businessModel: productPlan.monetization.primary.model
     }
 
-    const prompt = buildPrompt('FINANCIAL_MODEL_GENERATION', variables)
-    const model = selectOptimalModel('analytical', 'quality')
-
-    const response = await this.aiManager.makeRequest<string>({
-      provider: model.provider,
-      model: model.model,
-      prompt,
-      systemPrompt: 'You are a financial analyst specializing in tech startup financial modeling and projections.',
-      temperature: 0.4,
-      maxTokens: 3000
+    const fitted = fitPrompt('FINANCIAL_MODEL_GENERATION', variables, {
+      ...selectOptimalModel('analytical', 'quality'),
+      systemPrompt: 'You are a financial analyst specializing in tech startup financial modeling and projections.'
     })
 
-    if (response.success) {
-      try {
-        const parsedData = JSON.parse(response.data!)
-        return {
-          ...response,
-          data: parsedData as FinancialModel
-        }
-      } catch (error) {
+    const response = await this.requestStructuredSection<FinancialModelInputs>('financialModel', 'financial model', {
+      ...fitted.request,
+      tools: this.tools.definitions(['cost_calculator']),
+      temperature: 0.4
+    }, onToken)
+
+    if (!response.success || !response.data) {
+      return { ...response, data: undefined }
+    }
+
+    // The model only proposes inputs; the figures are computed so they add up
+    const { revenueModel, assumptions, costs, notes } = response.data
+    return {
+      ...response,
+      data: withValuation(withSensitivity(buildFinancialModel(assumptions, costs, {
+        model: revenueModel || productPlan.monetization.primary.model,
+        notes
+      })), { comparables: context?.comparables })
+    }
+  }
+
+  /**
+   * Requests a section and validates the JSON in the reply against its
+   * schema, or the one given. Replies that fail to parse or validate are
+   * sent back to the model together with the errors, up to
+   * MAX_REPAIR_ATTEMPTS times.
+   */
+  private async requestStructuredSection<T>(
+    section: BlueprintSection,
+    label: string,
+    request: AIRequest,
+    onToken?: (delta: string) => void,
+    schema: z.ZodTypeAny = SECTION_RESPONSE_SCHEMAS[section]
+  ): Promise<AIResponse<T>> {
+    let response = await this.requestWithinBudget<string>(request, onToken, section)
+    const usage = { ...response.usage, requests: response.usage.requests ?? 1 }
+
+    for (let attempt = 0; response.success; attempt++) {
+      const parsed = parseStructuredResponse(response.data || '', schema)
+      if (parsed.success) {
+        return { ...response, data: parsed.data as T, usage }
+      }
+
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
         return {
           ...response,
           success: false,
+          data: undefined,
+          usage,
           error: {
-            code: 'PARSE_ERROR',
-            message: 'Failed to parse financial model JSON response',
+            code: 'SCHEMA_VALIDATION_ERROR',
+            message: `Invalid ${label} response after ${attempt} repair attempts: ${parsed.errors.slice(0, 5).join('; ')}`,
             type: 'invalid_request',
             retryable: true
           }
         }
       }
+
+      // Repairs are not streamed; the section's partial text stays as first generated
+      response = await this.requestWithinBudget<string>({
+        ...request,
+        prompt: this.buildRepairPrompt(request.prompt, response.data || '', parsed.errors),
+        temperature: Math.min(request.temperature ?? 0.7, 0.2)
+      }, undefined, section)
+      usage.promptTokens += response.usage.promptTokens
+      usage.completionTokens += response.usage.completionTokens
+      usage.totalTokens += response.usage.totalTokens
+      usage.cost += response.usage.cost
+      usage.requests += response.usage.requests ?? 1
+    }
+
+    return { ...response, data: undefined, usage }
+  }
+
+  /**
+   * Sends a section request within the budget in scope. Requests with tools
+   * run as a conversation whose every round is checked against the budget.
+   */
+  private async requestWithinBudget<T>(
+    request: AIRequest,
+    onToken?: (delta: string) => void,
+    section?: BlueprintSection
+  ): Promise<AIResponse<T>> {
+    if (request.tools?.length) {
+      return this.requestWithTools(request, onToken, section) as Promise<AIResponse<T>>
+    }
+
+    return this.sendWithinBudget(request, section, approved => this.requestSection(approved, onToken)) as Promise<AIResponse<T>>
+  }
+
+  /**
+   * Checks the projected cost of one provider call against the budget in
+   * scope, moving it to a cheaper model or refusing it when the budget would
+   * be exceeded, and records what it actually cost. Without a budget the
+   * request is sent unchanged.
+   */
+  private async sendWithinBudget(
+    request: AIRequest,
+    section: BlueprintSection | undefined,
+    send: (request: AIRequest) => Promise<AIResponse<string>>
+  ): Promise<AIResponse<string>> {
+    if (!this.budget) {
+      return send(request)
+    }
+
+    const decision = await this.budgetManager.authorize(this.budget, request)
+    if (!decision.allowed) {
+      return {
+        success: false,
+        error: {
+          code: 'BUDGET_EXCEEDED',
+          message: decision.reason,
+          type: 'invalid_request',
+          retryable: false
+        },
+        // Refused before it reached a provider
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, requests: 0 },
+        metadata: {
+          provider: request.provider,
+          model: request.model,
+          latency: 0,
+          timestamp: new Date(),
+          requestId: `budget_${Date.now()}`
+        }
+      }
+    }
+
+    let response: AIResponse<string>
+    try {
+      response = await send(decision.request)
+    } catch (error) {
+      this.budgetManager.release(decision.reservation)
+      throw error
+    }
+
+    try {
+      await this.budgetManager.record(this.budget, response, section, decision.reservation)
+    } catch (error) {
+      // The call has been paid for either way; losing the record only under-counts
+      console.error('Failed to record AI spend:', error)
+    }
+
+    return response
+  }
+
+  /**
+   * Sends a section request. When a token listener is given the request is
+   * streamed instead and the chunks are collected into a regular response.
+   */
+  private async requestSection(
+    request: AIRequest,
+    onToken?: (delta: string) => void
+  ): Promise<AIResponse<string>> {
+    if (!onToken) {
+      return this.aiManager.makeRequest<string>(request)
+    }
+
+    const startTime = Date.now()
+    const metadata = {
+      provider: request.provider,
+      model: request.model,
+      timestamp: new Date(),
+      requestId: `stream_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    }
+    let content = ''
+
+    try {
+      const stream = await this.aiManager.makeStreamingRequest({ ...request, stream: true })
+      for await (const delta of stream) {
+        content += delta
+        onToken(delta)
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'STREAM_ERROR',
+          message: error instanceof Error ? error.message : 'Streaming request failed',
+          type: 'server_error',
+          retryable: true
+        },
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 },
+        metadata: { ...metadata, latency: Date.now() - startTime }
+      }
     }
 
-    return response as AIResponse<FinancialModel>
+    // Streams carry no usage data, so token counts are estimated
+    const promptTokens = countTokens(`${request.systemPrompt || ''}\n${request.prompt}`, request.provider, request.model)
+    const completionTokens = countTokens(content, request.provider, request.model)
+    const totalTokens = promptTokens + completionTokens
+
+    return {
+      success: true,
+      data: content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens,
+        cost: estimateModelCost(request.provider, request.model, totalTokens)
+      },
+      metadata: { ...metadata, latency: Date.now() - startTime }
+    }
+  }
+
+  /**
+   * Runs the request as a conversation, executing the local tools the model
+   * calls and sending their results back until it answers. Tool rounds are
+   * not streamed; the answer reaches a token listener as a single delta.
+   * Each round is a separate call against the budget.
+   */
+  private async requestWithTools(
+    request: AIRequest,
+    onToken?: (delta: string) => void,
+    section?: BlueprintSection
+  ): Promise<AIResponse<string>> {
+    let messages: AIMessage[] = request.messages ?? [{ role: 'user', content: request.prompt }]
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, requests: 0 }
+
+    for (let round = 0; ; round++) {
+      const response = await this.sendWithinBudget({
+        ...request,
+        messages,
+        stream: false,
+        // Out of rounds: the model has to answer with what it has
+        toolChoice: round >= MAX_TOOL_ROUNDS ? 'none' : request.toolChoice
+      }, section, approved => this.aiManager.makeRequest<string>(approved))
+      usage.promptTokens += response.usage.promptTokens
+      usage.completionTokens += response.usage.completionTokens
+      usage.totalTokens += response.usage.totalTokens
+      usage.cost += response.usage.cost
+      usage.requests += response.usage.requests ?? 1
+
+      if (!response.success || !response.toolCalls?.length || round >= MAX_TOOL_ROUNDS) {
+        if (response.success && response.data) {
+          onToken?.(response.data)
+        }
+        return { ...response, toolCalls: undefined, usage: { ...response.usage, ...usage } }
+      }
+
+      const results = await Promise.all(response.toolCalls.map(call => this.tools.execute(call)))
+      messages = [
+        ...messages,
+        { role: 'assistant', content: response.data || '', toolCalls: response.toolCalls },
+        ...results
+      ]
+    }
   }
 
   private buildOptimizationPrompt(blueprint: Blueprint, criteria: OptimizationCriteria): string {
@@ -482,6 +754,21 @@ OPTIMIZATION CRITERIA:
 Please provide an optimized version of the blueprint in the same JSON format, with explanations for key changes made.`
   }
 
+  private buildRepairPrompt(originalPrompt: string, output: string, errors: string[]): string {
+    return `Your previous response to the request below could not be used because it did not match the required JSON format.
+
+ORIGINAL REQUEST:
+${originalPrompt}
+
+YOUR PREVIOUS RESPONSE:
+${output}
+
+PROBLEMS FOUND:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with the corrected JSON only. Do not include explanations or markdown code fences.`
+  }
+
   // Validation helper methods
   private validateProductPlan(productPlan: ProductPlan): { score: number; issues: any[]; suggestions: any[] } {
     const issues: any[] = []
@@ -508,12 +795,12 @@ Please provide an optimized version of the blueprint in the same JSON format, wi
       score -= 30
     }
 
-    if (!productPlan.monetization?.primaryModel) {
+    if (!productPlan.monetization?.primary?.model) {
       issues.push({
         severity: 'warning',
         category: 'product-plan',
         message: 'Monetization model not clearly defined',
-        field: 'monetization.primaryModel'
+        field: 'monetization.primary.model'
       })
       score -= 10
     }
@@ -572,7 +859,38 @@ Please provide an optimized version of the blueprint in the same JSON format, wi
     const suggestions: any[] = []
     let score = 100
 
-    // Add roadmap validation logic here
+    if (!roadmap.phases || roadmap.phases.length === 0) {
+      issues.push({
+        severity: 'error',
+        category: 'roadmap',
+        message: 'No development phases defined',
+        field: 'phases'
+      })
+      score -= 40
+      return { score, issues, suggestions }
+    }
+
+    const schedule = scheduleRoadmap(roadmap)
+
+    for (const issue of schedule.issues) {
+      issues.push({
+        severity: issue.type === 'cycle' ? 'error' : 'warning',
+        category: 'roadmap',
+        message: issue.message,
+        field: 'dependencies'
+      })
+      score -= issue.type === 'cycle' ? 25 : 5
+    }
+
+    if (schedule.tasks.length >= 4 && schedule.criticalPath.length / schedule.tasks.length > 0.8) {
+      suggestions.push({
+        section: 'roadmap',
+        suggestion: 'Almost every task is on the critical path; splitting tasks or removing dependencies would let the team work in parallel',
+        impact: 'medium',
+        effort: 'medium'
+      })
+    }
+
     return { score: Math.max(0, score), issues, suggestions }
   }
 
@@ -584,4 +902,33 @@ Please provide an optimized version of the blueprint in the same JSON format, wi
     // Add financial model validation logic here
     return { score: Math.max(0, score), issues, suggestions }
   }
-}
\ No newline at end of file
+}
+
+/** The fields of a saved product plan that the user entered */
+function userPlanFields(productPlan: ProductPlan): Partial<ComprehensiveProductPlan & ProductPlanWithCompetitors> {
+  const saved = productPlan as ComprehensiveProductPlan & ProductPlanWithCompetitors
+  return Object.fromEntries(USER_PLAN_FIELDS
+    .filter(field => saved[field] !== undefined)
+    .map(field => [field, saved[field]]))
+}
+
+/** Prompt lines asking for a product plan built around the given personas */
+function describePersonas(personas?: UserPersona[]): string {
+  if (!personas?.length) return ''
+
+  return [
+    '',
+    'Design the core features and go-to-market strategy for these user personas:',
+    ...personas.map(persona => {
+      const details = [persona.demographics?.age, persona.demographics?.location].filter(Boolean).join(', ')
+      const facts = [
+        persona.goals?.length ? `wants ${persona.goals.join(', ')}` : '',
+        persona.painPoints?.length ? `struggles with ${persona.painPoints.join(', ')}` : '',
+        persona.preferredChannels?.length ? `reached through ${persona.preferredChannels.join(', ')}` : '',
+        persona.willingnessToPay !== undefined ? `would pay up to $${persona.willingnessToPay} a month` : ''
+      ].filter(Boolean)
+      return `- ${persona.name}${details ? ` (${details})` : ''}: ${facts.join('; ')}`
+    }),
+    ''
+  ].join('\n')
+}
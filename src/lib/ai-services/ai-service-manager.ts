@@ -1,11 +1,17 @@
 import { OpenAIClient } from './clients/openai-client'
 import { AnthropicClient } from './clients/anthropic-client'
+import { LocalClient } from './clients/local-client'
+import { CassetteClient } from './clients/cassette-client'
+import { CassetteStore } from './cassette'
+import { LoadBalancer, equivalentModel } from './load-balancer'
+import { AIResponseCache } from './response-cache'
 import {
   AIRequest,
   AIResponse,
   AIProvider,
   OpenAIProvider,
   AnthropicProvider,
+  LocalProvider,
   AdvancedAIServiceConfig
 } from '@/types/ai-services'
 
@@ -15,6 +21,8 @@ interface RateLimitState {
   resetTime: number
 }
 
+type ProviderClient = OpenAIClient | AnthropicClient | LocalClient | CassetteClient
+
 interface CircuitBreakerState {
   failures: number
   lastFailure: number
@@ -24,7 +32,11 @@ interface CircuitBreakerState {
 export class AIServiceManager {
   private openaiClient?: OpenAIClient
   private anthropicClient?: AnthropicClient
+  private localClient?: LocalClient
+  private cassetteClients = new Map<string, CassetteClient>()
   private config: AdvancedAIServiceConfig
+  private loadBalancer: LoadBalancer
+  private responseCache: AIResponseCache
   private rateLimitStates = new Map<string, RateLimitState>()
   private circuitBreakerStates = new Map<string, CircuitBreakerState>()
   private requestQueue: Array<{ request: AIRequest; resolve: Function; reject: Function }> = []
@@ -32,10 +44,15 @@ export class AIServiceManager {
 
   constructor(config: AdvancedAIServiceConfig) {
     this.config = config
+    // Older configs predate load balancing
+    this.loadBalancer = new LoadBalancer(config.loadBalancing ?? { strategy: 'quality_first' })
+    this.responseCache = new AIResponseCache(config.caching)
     this.initializeClients()
   }
 
   private initializeClients() {
+    this.cassetteClients.clear()
+
     for (const provider of this.config.providers) {
       switch (provider.name) {
         case 'openai':
@@ -44,11 +61,62 @@ export class AIServiceManager {
         case 'anthropic':
           this.anthropicClient = new AnthropicClient(provider as AnthropicProvider)
           break
+        case 'local':
+          this.localClient = new LocalClient(provider as LocalProvider)
+          break
       }
     }
   }
 
   async makeRequest<T = any>(request: AIRequest): Promise<AIResponse<T>> {
+    // The cache is keyed on the request as made, before load balancing moves it
+    const cacheable = this.responseCache.isCacheable(request)
+    if (cacheable) {
+      const cached = await this.responseCache.get<T>(request)
+      if (cached) {
+        return cached
+      }
+    }
+
+    const routedRequest = this.routeRequest(request)
+    const response = await this.dispatchRequest<T>(routedRequest)
+
+    if (response.success) {
+      this.loadBalancer.recordLatency(response.metadata.provider, response.metadata.latency)
+    }
+    response.metadata.routing = {
+      strategy: this.loadBalancer.strategyName,
+      requestedProvider: request.provider,
+      requestedModel: request.model
+    }
+
+    if (cacheable) {
+      await this.responseCache.set(request, response)
+    }
+    response.usage = {
+      ...response.usage,
+      cache: { status: cacheable ? 'miss' : 'bypass', savedCost: 0 }
+    }
+
+    return response
+  }
+
+  /**
+   * Lets the load balancer pick the provider and model among the providers
+   * that are currently usable. Requests are left alone when none are.
+   */
+  private routeRequest(request: AIRequest): AIRequest {
+    const candidates = this.config.providers.filter(provider =>
+      this.getClient(provider.name) !== null &&
+      !this.isCircuitBreakerOpen(provider.name) &&
+      !this.isRateLimited(provider.name)
+    )
+
+    const choice = this.loadBalancer.select(request, candidates)
+    return { ...request, provider: choice.provider, model: choice.model }
+  }
+
+  private async dispatchRequest<T>(request: AIRequest): Promise<AIResponse<T>> {
     // Check circuit breaker
     if (this.isCircuitBreakerOpen(request.provider)) {
       return this.handleCircuitBreakerOpen<T>(request)
@@ -92,12 +160,38 @@ export class AIServiceManager {
     return await client.makeRequest<T>(request)
   }
 
-  private getClient(providerName: string): OpenAIClient | AnthropicClient | null {
+  private getClient(providerName: string): ProviderClient | null {
+    const client = this.getProviderClient(providerName)
+    return this.config.cassette ? this.getCassetteClient(providerName, client) : client
+  }
+
+  /**
+   * With a cassette configured every provider name resolves to a client, even
+   * ones without credentials, so that recordings replay without API keys.
+   */
+  private getCassetteClient(providerName: string, client: ProviderClient | null): CassetteClient {
+    let cassetteClient = this.cassetteClients.get(providerName)
+    if (!cassetteClient) {
+      const cassette = this.config.cassette!
+      cassetteClient = new CassetteClient(
+        providerName,
+        new CassetteStore(cassette.directory),
+        cassette,
+        client || undefined
+      )
+      this.cassetteClients.set(providerName, cassetteClient)
+    }
+    return cassetteClient
+  }
+
+  private getProviderClient(providerName: string): OpenAIClient | AnthropicClient | LocalClient | null {
     switch (providerName) {
       case 'openai':
         return this.openaiClient || null
       case 'anthropic':
         return this.anthropicClient || null
+      case 'local':
+        return this.localClient || null
       default:
         return null
     }
@@ -223,8 +317,7 @@ export class AIServiceManager {
       }
 
       try {
-        const fallbackRequest = { ...request, provider: fallbackProvider }
-        const response = await this.executeRequest<T>(fallbackRequest)
+        const response = await this.executeRequest<T>(this.toFallbackRequest(request, fallbackProvider))
         
         if (response.success) {
           this.recordSuccess(fallbackProvider)
@@ -240,6 +333,19 @@ export class AIServiceManager {
     return null
   }
 
+  /**
+   * Moves a request to another provider, swapping the model for that
+   * provider's closest equivalent
+   */
+  private toFallbackRequest(request: AIRequest, fallbackProvider: string): AIRequest {
+    const provider = this.config.providers.find(p => p.name === fallbackProvider)
+    return {
+      ...request,
+      provider: fallbackProvider,
+      model: provider ? equivalentModel(provider, request) : request.model
+    }
+  }
+
   private async queueRequest<T>(request: AIRequest): Promise<AIResponse<T>> {
     return new Promise((resolve, reject) => {
       this.requestQueue.push({ request, resolve, reject })
@@ -259,7 +365,7 @@ export class AIServiceManager {
 
       if (!this.isRateLimited(request.provider)) {
         try {
-          const response = await this.makeRequest(request)
+          const response = await this.dispatchRequest(request)
           resolve(response)
         } catch (error) {
           reject(error)
@@ -279,12 +385,57 @@ export class AIServiceManager {
   }
 
   async makeStreamingRequest(request: AIRequest): Promise<AsyncIterable<string>> {
+    request = this.routeRequest(request)
+
+    if (this.isCircuitBreakerOpen(request.provider)) {
+      const fallbackStream = await this.tryStreamingFallbacks(request)
+      if (fallbackStream) {
+        return fallbackStream
+      }
+      throw new Error(`Circuit breaker is open for provider: ${request.provider}`)
+    }
+
     const client = this.getClient(request.provider)
     if (!client) {
       throw new Error(`No client available for provider: ${request.provider}`)
     }
 
-    return await client.makeStreamingRequest(request)
+    try {
+      const stream = await client.makeStreamingRequest(request)
+      this.recordSuccess(request.provider)
+      return stream
+    } catch (error) {
+      this.recordFailure(request.provider)
+
+      const fallbackStream = await this.tryStreamingFallbacks(request)
+      if (fallbackStream) {
+        return fallbackStream
+      }
+
+      throw error
+    }
+  }
+
+  private async tryStreamingFallbacks(request: AIRequest): Promise<AsyncIterable<string> | null> {
+    const fallbackChain = this.config.fallbackChain.filter(p => p !== request.provider)
+
+    for (const fallbackProvider of fallbackChain) {
+      const client = this.getClient(fallbackProvider)
+      if (!client || this.isCircuitBreakerOpen(fallbackProvider) || this.isRateLimited(fallbackProvider)) {
+        continue
+      }
+
+      try {
+        const stream = await client.makeStreamingRequest(this.toFallbackRequest(request, fallbackProvider))
+        this.recordSuccess(fallbackProvider)
+        return stream
+      } catch {
+        this.recordFailure(fallbackProvider)
+        continue
+      }
+    }
+
+    return null
   }
 
   async testConnections(): Promise<Record<string, boolean>> {
@@ -298,6 +449,10 @@ export class AIServiceManager {
       results.anthropic = await this.anthropicClient.testConnection()
     }
 
+    if (this.localClient) {
+      results.local = await this.localClient.testConnection()
+    }
+
     return results
   }
 
@@ -306,6 +461,7 @@ export class AIServiceManager {
     
     if (this.openaiClient) providers.push('openai')
     if (this.anthropicClient) providers.push('anthropic')
+    if (this.localClient) providers.push('local')
     
     return providers
   }
@@ -323,7 +479,7 @@ export class AIServiceManager {
     const request: AIRequest = {
       provider,
       model,
-      messages: [{ role: 'user', content: prompt }],
+      prompt,
       temperature: 0.7,
       maxTokens: 1000
     }
@@ -351,6 +507,12 @@ export class AIServiceManager {
 
   updateConfig(config: Partial<AdvancedAIServiceConfig>) {
     this.config = { ...this.config, ...config }
+    if (config.loadBalancing) {
+      this.loadBalancer = new LoadBalancer(this.config.loadBalancing)
+    }
+    if (config.caching) {
+      this.responseCache = new AIResponseCache(this.config.caching)
+    }
     this.initializeClients()
   }
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { AIRequest, CassetteInteraction } from '@/types/ai-services'
+
+/**
+ * Collapses formatting-only differences (line endings, indentation, runs of
+ * whitespace) so that cosmetic prompt template edits keep matching the same
+ * recording.
+ */
+export function normalizePrompt(text: string): string {
+  return text.replace(/\r\n?/g, '\n').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Fixture files of recorded AI traffic, one JSON file per interaction named
+ * after its key.
+ */
+export class CassetteStore {
+  constructor(private directory: string) {}
+
+  /**
+   * Requests are keyed by their normalized prompts, plus the conversation
+   * for multi-turn requests, and nothing else. Provider and model
+   * are left out so a recording made against one provider still replays when
+   * model selection picks another (e.g. in CI without API keys).
+   */
+  static keyFor(request: AIRequest): string {
+    return createHash('sha256')
+      .update(JSON.stringify({
+        systemPrompt: normalizePrompt(request.systemPrompt || ''),
+        prompt: normalizePrompt(request.prompt),
+        ...(request.messages?.length ? { messages: request.messages } : {})
+      }))
+      .digest('hex')
+      .slice(0, 32)
+  }
+
+  async read(key: string): Promise<CassetteInteraction | null> {
+    try {
+      const content = await fs.readFile(this.filePath(key), 'utf8')
+      const interaction = JSON.parse(content) as CassetteInteraction
+      interaction.response.metadata.timestamp = new Date(interaction.response.metadata.timestamp)
+      return interaction
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async write(interaction: CassetteInteraction): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+    await fs.writeFile(this.filePath(interaction.key), JSON.stringify(interaction, null, 2) + '\n')
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${key}.json`)
+  }
+}
@@ -1,5 +1,5 @@
 import Anthropic from '@anthropic-ai/sdk'
-import { AIRequest, AIResponse, AIError, AnthropicProvider } from '@/types/ai-services'
+import { AIRequest, AIResponse, AIError, AIToolCall, AnthropicProvider } from '@/types/ai-services'
 
 export class AnthropicClient {
   private client: Anthropic
@@ -23,10 +23,9 @@ export class AnthropicClient {
         max_tokens: request.maxTokens ?? 4000,
         temperature: request.temperature ?? 0.7,
         system: request.systemPrompt,
-        messages: [
-          { role: 'user', content: request.prompt }
-        ],
-        stream: request.stream ?? false,
+        messages: this.buildMessages(request),
+        ...this.buildTools(request),
+        stream: false,
       })
 
       const latency = Date.now() - startTime
@@ -40,10 +39,19 @@ export class AnthropicClient {
         .map(block => block.text)
         .join('')
 
+      const toolCalls = response.content
+        .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+        .map((block): AIToolCall => ({
+          id: block.id,
+          name: block.name,
+          arguments: (block.input ?? {}) as Record<string, unknown>
+        }))
+
       return {
         success: true,
         data: content as T,
         rawResponse: JSON.stringify(response),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         usage: {
           promptTokens: usage.input_tokens,
           completionTokens: usage.output_tokens,
@@ -88,9 +96,7 @@ export class AnthropicClient {
       max_tokens: request.maxTokens ?? 4000,
       temperature: request.temperature ?? 0.7,
       system: request.systemPrompt,
-      messages: [
-        { role: 'user', content: request.prompt }
-      ],
+      messages: this.buildMessages(request),
       stream: true,
     })
 
@@ -105,6 +111,66 @@ export class AnthropicClient {
     }
   }
 
+  /**
+   * Translates the conversation to Anthropic's format, where tool calls are
+   * tool_use blocks on the assistant turn and their results are tool_result
+   * blocks on the following user turn.
+   */
+  private buildMessages(request: AIRequest): Anthropic.MessageParam[] {
+    if (!request.messages?.length) {
+      return [{ role: 'user', content: request.prompt }]
+    }
+
+    const messages: Anthropic.MessageParam[] = []
+
+    for (const message of request.messages) {
+      if (message.role === 'assistant') {
+        const content: Anthropic.ContentBlockParam[] = [
+          ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+          ...(message.toolCalls ?? []).map(call => ({
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.name,
+            input: call.arguments
+          }))
+        ]
+        messages.push({ role: 'assistant', content })
+        continue
+      }
+
+      const block: Anthropic.ContentBlockParam = message.role === 'tool'
+        ? { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content, is_error: message.isError }
+        : { type: 'text', text: message.content }
+
+      // Consecutive tool results and user text share one user turn
+      const previous = messages[messages.length - 1]
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block)
+      } else {
+        messages.push({ role: 'user', content: [block] })
+      }
+    }
+
+    return messages
+  }
+
+  private buildTools(request: AIRequest): Pick<Anthropic.MessageCreateParams, 'tools' | 'tool_choice'> {
+    if (!request.tools?.length) {
+      return {}
+    }
+
+    const toolChoice = { auto: 'auto', required: 'any', none: 'none' } as const
+
+    return {
+      tools: request.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: { type: 'object', ...tool.parameters }
+      })),
+      tool_choice: { type: toolChoice[request.toolChoice ?? 'auto'] }
+    }
+  }
+
   private calculateCost(totalTokens: number): number {
     // Anthropic Claude pricing (approximate)
     const costPerToken = this.provider.costPerToken || 0.000015
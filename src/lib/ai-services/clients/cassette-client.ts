@@ -0,0 +1,147 @@
+import { AIRequest, AIResponse, CassetteConfig, CassetteInteraction } from '@/types/ai-services'
+import { CassetteStore, normalizePrompt } from '../cassette'
+
+/**
+ * The subset of a provider client that the cassette wraps
+ */
+export interface RecordableClient {
+  makeRequest<T = unknown>(request: AIRequest): Promise<AIResponse<T>>
+  makeStreamingRequest(request: AIRequest): Promise<AsyncIterable<string>>
+  testConnection(): Promise<boolean>
+}
+
+/**
+ * Stands in front of a provider client and records its successful responses
+ * to, or replays them from, a CassetteStore. Replayed responses are returned
+ * exactly as recorded, including ids, timestamps and usage.
+ */
+export class CassetteClient implements RecordableClient {
+  constructor(
+    private providerName: string,
+    private store: CassetteStore,
+    private options: CassetteConfig,
+    private inner?: RecordableClient
+  ) {}
+
+  async makeRequest<T = unknown>(request: AIRequest): Promise<AIResponse<T>> {
+    const key = CassetteStore.keyFor(request)
+
+    if (this.options.mode === 'replay') {
+      const interaction = await this.store.read(key)
+      if (interaction) {
+        return interaction.response as AIResponse<T>
+      }
+      if (this.options.strict || !this.inner) {
+        return this.missResponse<T>(request, key)
+      }
+    }
+
+    if (!this.inner) {
+      return this.missResponse<T>(request, key)
+    }
+
+    const response = await this.inner.makeRequest<T>(request)
+    // Failures such as rate limits are passed on but not recorded, so a later run asks again
+    if (response.success) {
+      await this.store.write({ key, request, response, recordedAt: new Date().toISOString() })
+    }
+    return response
+  }
+
+  async makeStreamingRequest(request: AIRequest): Promise<AsyncIterable<string>> {
+    const key = CassetteStore.keyFor(request)
+
+    if (this.options.mode === 'replay') {
+      const interaction = await this.store.read(key)
+      if (interaction) {
+        return this.replayChunks(interaction)
+      }
+      if (this.options.strict || !this.inner) {
+        throw new Error(this.missMessage(request, key))
+      }
+    }
+
+    if (!this.inner) {
+      throw new Error(this.missMessage(request, key))
+    }
+
+    const stream = await this.inner.makeStreamingRequest(request)
+    return this.recordChunks(key, request, stream)
+  }
+
+  async testConnection(): Promise<boolean> {
+    if (this.options.mode === 'replay' && (this.options.strict || !this.inner)) {
+      return true
+    }
+    return this.inner ? this.inner.testConnection() : false
+  }
+
+  private async* replayChunks(interaction: CassetteInteraction): AsyncIterable<string> {
+    // Recordings made without streaming replay as a single chunk
+    const chunks = interaction.chunks ?? [String(interaction.response.data ?? '')]
+    for (const chunk of chunks) {
+      yield chunk
+    }
+  }
+
+  private async* recordChunks(
+    key: string,
+    request: AIRequest,
+    stream: AsyncIterable<string>
+  ): AsyncIterable<string> {
+    const startTime = Date.now()
+    const chunks: string[] = []
+
+    for await (const chunk of stream) {
+      chunks.push(chunk)
+      yield chunk
+    }
+
+    await this.store.write({
+      key,
+      request,
+      chunks,
+      recordedAt: new Date().toISOString(),
+      response: {
+        success: true,
+        data: chunks.join(''),
+        // Streams carry no usage data
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 },
+        metadata: {
+          provider: request.provider,
+          model: request.model,
+          latency: Date.now() - startTime,
+          timestamp: new Date(),
+          requestId: `cassette_${key}`
+        }
+      }
+    })
+  }
+
+  private missResponse<T>(request: AIRequest, key: string): AIResponse<T> {
+    return {
+      success: false,
+      error: {
+        code: 'CASSETTE_MISS',
+        message: this.missMessage(request, key),
+        type: 'invalid_request',
+        retryable: false
+      },
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 },
+      metadata: {
+        provider: this.providerName,
+        model: request.model,
+        latency: 0,
+        timestamp: new Date(),
+        requestId: `cassette_${key}`
+      }
+    }
+  }
+
+  private missMessage(request: AIRequest, key: string): string {
+    const preview = normalizePrompt(request.prompt).slice(0, 80)
+    return this.inner
+      ? `No cassette recording ${key} for ${this.providerName} request "${preview}"`
+      : `No cassette recording ${key} and no ${this.providerName} client to record "${preview}"`
+  }
+}
@@ -0,0 +1,318 @@
+import { AIRequest, AIResponse, AIError, AIToolCall, LocalProvider } from '@/types/ai-services'
+import { fromOpenAIToolCalls, toOpenAIMessages, toOpenAITools } from './openai-format'
+
+type WireToolCalls = Parameters<typeof fromOpenAIToolCalls>[0]
+
+interface OllamaChatResponse {
+  message?: { content?: string; tool_calls?: WireToolCalls }
+  prompt_eval_count?: number
+  eval_count?: number
+}
+
+interface OpenAIChatResponse {
+  choices?: Array<{ message?: { content?: string | null; tool_calls?: WireToolCalls } }>
+  usage?: { prompt_tokens?: number; completion_tokens?: number }
+}
+
+interface CompletionResult {
+  content: string
+  toolCalls?: AIToolCall[]
+  promptTokens: number
+  completionTokens: number
+}
+
+class LocalEndpointError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message)
+    this.name = 'LocalEndpointError'
+  }
+}
+
+/**
+ * Client for self-hosted models behind an Ollama (/api/chat) or
+ * OpenAI-compatible (/chat/completions) HTTP endpoint. Local inference is
+ * treated as free, so every response reports zero cost.
+ */
+export class LocalClient {
+  private provider: LocalProvider
+
+  constructor(provider: LocalProvider) {
+    this.provider = provider
+  }
+
+  async makeRequest<T = unknown>(request: AIRequest): Promise<AIResponse<T>> {
+    const startTime = Date.now()
+    const requestId = this.generateRequestId()
+    const model = this.resolveModel(request.model)
+
+    try {
+      const response = await this.post(this.buildBody(request, model, false))
+      const payload = await response.json()
+      const result = this.isOllama() ? this.readOllamaResponse(payload) : this.readOpenAIResponse(payload)
+
+      return {
+        success: true,
+        data: result.content as T,
+        rawResponse: JSON.stringify(payload),
+        toolCalls: result.toolCalls,
+        usage: {
+          promptTokens: result.promptTokens,
+          completionTokens: result.completionTokens,
+          totalTokens: result.promptTokens + result.completionTokens,
+          cost: 0
+        },
+        metadata: {
+          provider: this.provider.name,
+          model,
+          latency: Date.now() - startTime,
+          timestamp: new Date(),
+          requestId
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: this.mapError(error),
+        usage: {
+          promptTokens: 0,
+          completionTokens: 0,
+          totalTokens: 0,
+          cost: 0
+        },
+        metadata: {
+          provider: this.provider.name,
+          model,
+          latency: Date.now() - startTime,
+          timestamp: new Date(),
+          requestId
+        }
+      }
+    }
+  }
+
+  async makeStreamingRequest(request: AIRequest): Promise<AsyncIterable<string>> {
+    const response = await this.post(this.buildBody(request, this.resolveModel(request.model), true))
+    if (!response.body) {
+      throw new LocalEndpointError('Local model endpoint returned an empty stream')
+    }
+
+    return this.createStreamIterator(response.body)
+  }
+
+  private async* createStreamIterator(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+    for await (const line of this.readLines(body)) {
+      // Ollama streams NDJSON; OpenAI-compatible servers stream SSE "data:" lines
+      const data = this.isOllama() ? line : line.replace(/^data:\s*/, '')
+      if (!data || data === '[DONE]' || line.startsWith(':')) continue
+
+      const chunk = JSON.parse(data)
+      const content = this.isOllama()
+        ? chunk.message?.content
+        : chunk.choices?.[0]?.delta?.content
+
+      if (content) {
+        yield content
+      }
+    }
+  }
+
+  private async* readLines(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+    const reader = body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+
+        for (const line of lines) {
+          if (line.trim()) yield line.trim()
+        }
+      }
+
+      if (buffer.trim()) yield buffer.trim()
+    } finally {
+      reader.releaseLock()
+    }
+  }
+
+  private buildBody(request: AIRequest, model: string, stream: boolean): Record<string, unknown> {
+    const messages = toOpenAIMessages(request)
+    const tools = stream ? undefined : toOpenAITools(request.tools)
+
+    if (this.isOllama()) {
+      return {
+        model,
+        // Ollama takes tool call arguments as objects rather than JSON strings
+        messages: messages.map(message =>
+          message.role === 'assistant' && message.tool_calls
+            ? {
+              ...message,
+              tool_calls: fromOpenAIToolCalls(message.tool_calls)?.map(call => ({
+                function: { name: call.name, arguments: call.arguments }
+              }))
+            }
+            : message
+        ),
+        ...(tools ? { tools } : {}),
+        stream,
+        options: {
+          temperature: request.temperature ?? 0.7,
+          num_predict: request.maxTokens ?? 4000
+        }
+      }
+    }
+
+    return {
+      model,
+      messages,
+      ...(tools ? { tools, tool_choice: request.toolChoice ?? 'auto' } : {}),
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 4000,
+      stream
+    }
+  }
+
+  private readOllamaResponse(payload: OllamaChatResponse): CompletionResult {
+    return {
+      content: payload.message?.content ?? '',
+      toolCalls: fromOpenAIToolCalls(payload.message?.tool_calls),
+      promptTokens: payload.prompt_eval_count ?? 0,
+      completionTokens: payload.eval_count ?? 0
+    }
+  }
+
+  private readOpenAIResponse(payload: OpenAIChatResponse): CompletionResult {
+    return {
+      content: payload.choices?.[0]?.message?.content ?? '',
+      toolCalls: fromOpenAIToolCalls(payload.choices?.[0]?.message?.tool_calls),
+      promptTokens: payload.usage?.prompt_tokens ?? 0,
+      completionTokens: payload.usage?.completion_tokens ?? 0
+    }
+  }
+
+  private async post(body: Record<string, unknown>): Promise<Response> {
+    const path = this.isOllama() ? '/api/chat' : '/chat/completions'
+    const response = await fetch(this.url(path), {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(body)
+    })
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      throw new LocalEndpointError(
+        detail || `Local model endpoint responded with ${response.status}`,
+        response.status
+      )
+    }
+
+    return response
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.provider.apiKey ? { Authorization: `Bearer ${this.provider.apiKey}` } : {})
+    }
+  }
+
+  private url(path: string): string {
+    return `${this.provider.endpoint.replace(/\/+$/, '')}${path}`
+  }
+
+  private isOllama(): boolean {
+    return this.provider.api === 'ollama'
+  }
+
+  /**
+   * Requests routed here by a fallback chain carry another provider's model
+   * name, so anything the endpoint does not serve falls back to the default.
+   */
+  private resolveModel(model: string): string {
+    return this.provider.models.includes(model) ? model : this.provider.model
+  }
+
+  private mapError(error: unknown): AIError {
+    const status = error instanceof LocalEndpointError ? error.status ?? 0 : 0
+    const message = error instanceof Error ? error.message : undefined
+    const cause = error instanceof Error ? error.cause as { code?: string } | undefined : undefined
+
+    if (status === 429) {
+      return {
+        code: 'RATE_LIMIT_EXCEEDED',
+        message: 'Rate limit exceeded',
+        type: 'rate_limit',
+        retryable: true
+      }
+    }
+
+    if (status === 401 || status === 403) {
+      return {
+        code: 'AUTHENTICATION_ERROR',
+        message: 'Local model endpoint rejected the credentials',
+        type: 'authentication',
+        retryable: false
+      }
+    }
+
+    if (status === 404) {
+      return {
+        code: 'MODEL_NOT_FOUND',
+        message: message || 'Model not available on local endpoint',
+        type: 'invalid_request',
+        retryable: false
+      }
+    }
+
+    if (status >= 500) {
+      return {
+        code: 'SERVER_ERROR',
+        message: message || 'Local model server error',
+        type: 'server_error',
+        retryable: true
+      }
+    }
+
+    // fetch rejects with a TypeError when the server cannot be reached
+    if (error instanceof TypeError || cause?.code === 'ECONNREFUSED') {
+      return {
+        code: 'CONNECTION_ERROR',
+        message: `Could not reach local model endpoint at ${this.provider.endpoint}`,
+        type: 'server_error',
+        retryable: true
+      }
+    }
+
+    return {
+      code: 'UNKNOWN_ERROR',
+      message: message || 'Unknown error occurred',
+      type: 'server_error',
+      retryable: false
+    }
+  }
+
+  private generateRequestId(): string {
+    return `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+
+  getProvider(): LocalProvider {
+    return this.provider
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await fetch(this.url(this.isOllama() ? '/api/tags' : '/models'), {
+        headers: this.headers()
+      })
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import OpenAI from 'openai'
 import { AIRequest, AIResponse, AIError, OpenAIProvider } from '@/types/ai-services'
+import { fromOpenAIToolCalls, toOpenAIMessages, toOpenAITools } from './openai-format'
 
 export class OpenAIClient {
   private client: OpenAI
@@ -19,15 +20,14 @@ export class OpenAIClient {
     const requestId = this.generateRequestId()
 
     try {
+      const tools = toOpenAITools(request.tools)
       const response = await this.client.chat.completions.create({
         model: request.model,
-        messages: [
-          ...(request.systemPrompt ? [{ role: 'system' as const, content: request.systemPrompt }] : []),
-          { role: 'user' as const, content: request.prompt }
-        ],
+        messages: toOpenAIMessages(request),
+        ...(tools ? { tools, tool_choice: request.toolChoice ?? 'auto' } : {}),
         temperature: request.temperature ?? 0.7,
         max_tokens: request.maxTokens ?? 4000,
-        stream: request.stream ?? false,
+        stream: false,
       })
 
       const latency = Date.now() - startTime
@@ -38,6 +38,7 @@ export class OpenAIClient {
         success: true,
         data: response.choices[0]?.message?.content as T,
         rawResponse: JSON.stringify(response),
+        toolCalls: fromOpenAIToolCalls(response.choices[0]?.message?.tool_calls),
         usage: {
           promptTokens: usage.prompt_tokens,
           completionTokens: usage.completion_tokens,
@@ -79,10 +80,7 @@ export class OpenAIClient {
   async makeStreamingRequest(request: AIRequest): Promise<AsyncIterable<string>> {
     const stream = await this.client.chat.completions.create({
       model: request.model,
-      messages: [
-        ...(request.systemPrompt ? [{ role: 'system' as const, content: request.systemPrompt }] : []),
-        { role: 'user' as const, content: request.prompt }
-      ],
+      messages: toOpenAIMessages(request),
       temperature: request.temperature ?? 0.7,
       max_tokens: request.maxTokens ?? 4000,
       stream: true,
@@ -0,0 +1,87 @@
+import type OpenAI from 'openai'
+import { AIRequest, AIToolCall, AIToolDefinition } from '@/types/ai-services'
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam
+
+/** Tool calls as OpenAI returns them, or as Ollama does with object arguments and no ids */
+interface WireToolCall {
+  id?: string
+  function?: { name?: string; arguments?: string | Record<string, unknown> }
+}
+
+/**
+ * Chat messages in the OpenAI format, which OpenAI-compatible servers
+ * accept as well. Falls back to a single user message when the request has
+ * no conversation.
+ */
+export function toOpenAIMessages(request: AIRequest): ChatMessage[] {
+  const system: ChatMessage[] = request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []
+
+  if (!request.messages?.length) {
+    return [...system, { role: 'user', content: request.prompt }]
+  }
+
+  return [
+    ...system,
+    ...request.messages.map((message): ChatMessage => {
+      switch (message.role) {
+        case 'assistant':
+          return {
+            role: 'assistant',
+            content: message.content || null,
+            ...(message.toolCalls?.length ? {
+              tool_calls: message.toolCalls.map(call => ({
+                id: call.id,
+                type: 'function' as const,
+                function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+              }))
+            } : {})
+          }
+        case 'tool':
+          return { role: 'tool', tool_call_id: message.toolCallId, content: message.content }
+        default:
+          return { role: 'user', content: message.content }
+      }
+    })
+  ]
+}
+
+export function toOpenAITools(tools?: AIToolDefinition[]): OpenAI.Chat.Completions.ChatCompletionTool[] | undefined {
+  if (!tools?.length) {
+    return undefined
+  }
+
+  return tools.map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+  }))
+}
+
+export function fromOpenAIToolCalls(calls?: WireToolCall[] | null): AIToolCall[] | undefined {
+  if (!calls?.length) {
+    return undefined
+  }
+
+  return calls.map((call, index) => ({
+    id: call.id || `call_${index}`,
+    name: call.function?.name ?? '',
+    arguments: parseArguments(call.function?.arguments)
+  }))
+}
+
+/** Models occasionally emit malformed argument JSON; the tool then reports the missing arguments */
+function parseArguments(raw?: string | Record<string, unknown>): Record<string, unknown> {
+  if (!raw) {
+    return {}
+  }
+  if (typeof raw !== 'string') {
+    return raw
+  }
+
+  try {
+    const parsed = JSON.parse(raw)
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
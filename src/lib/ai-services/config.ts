@@ -1,4 +1,10 @@
-import { AdvancedAIServiceConfig, OpenAIProvider, AnthropicProvider } from '@/types/ai-services'
+import {
+  AdvancedAIServiceConfig,
+  CassetteConfig,
+  OpenAIProvider,
+  AnthropicProvider,
+  LocalProvider
+} from '@/types/ai-services'
 
 export function createAIServiceConfig(): AdvancedAIServiceConfig {
   const providers = []
@@ -38,29 +44,54 @@ export function createAIServiceConfig(): AdvancedAIServiceConfig {
     providers.push(anthropicProvider)
   }
 
-  if (providers.length === 0) {
-    throw new Error('No AI service providers configured. Please set OPENAI_API_KEY or ANTHROPIC_API_KEY environment variables.')
+  // Local / self-hosted configuration (Ollama or any OpenAI-compatible server)
+  if (process.env.LOCAL_AI_ENDPOINT) {
+    const models = getLocalModels()
+    const localProvider: LocalProvider = {
+      name: 'local',
+      endpoint: process.env.LOCAL_AI_ENDPOINT,
+      api: process.env.LOCAL_AI_API === 'ollama' ? 'ollama' : 'openai',
+      apiKey: process.env.LOCAL_AI_API_KEY,
+      model: models[0],
+      models,
+      maxTokens: parseInt(process.env.LOCAL_AI_MAX_TOKENS || '8192'),
+      supportsStreaming: true,
+      costPerToken: 0, // Self-hosted inference is not billed per token
+      rateLimits: {
+        requestsPerMinute: 1000,
+        tokensPerMinute: 1000000
+      }
+    }
+    providers.push(localProvider)
+  }
+
+  const cassette = createCassetteConfig()
+
+  // A replay cassette can serve requests without any provider credentials
+  if (providers.length === 0 && cassette?.mode !== 'replay') {
+    throw new Error('No AI service providers configured. Please set OPENAI_API_KEY, ANTHROPIC_API_KEY or LOCAL_AI_ENDPOINT environment variables.')
   }
 
   return {
     providers,
     loadBalancing: {
-      strategy: 'quality_first', // Prefer higher quality models
+      strategy: getLoadBalancingStrategy(),
       weights: {
         openai: 0.6,
-        anthropic: 0.4
+        anthropic: 0.4,
+        local: 0.2
       }
     },
-    fallbackChain: providers.length > 1 ? providers.map(p => p.name) : [providers[0].name],
+    fallbackChain: providers.map(p => p.name),
     circuitBreaker: {
       enabled: true,
       failureThreshold: 5,
       recoveryTimeout: 60000 // 1 minute
     },
     caching: {
-      enabled: true,
+      enabled: process.env.AI_CACHE_ENABLED !== 'false',
       ttl: 3600000, // 1 hour
-      keyStrategy: 'prompt_hash'
+      keyStrategy: process.env.AI_CACHE_KEY_STRATEGY === 'semantic_similarity' ? 'semantic_similarity' : 'prompt_hash'
     },
     monitoring: {
       metricsEnabled: true,
@@ -69,7 +100,42 @@ export function createAIServiceConfig(): AdvancedAIServiceConfig {
         errorRate: 0.1, // 10%
         costPerHour: 50 // $50/hour
       }
-    }
+    },
+    cassette
+  }
+}
+
+const LOAD_BALANCING_STRATEGIES: AdvancedAIServiceConfig['loadBalancing']['strategy'][] = [
+  'round_robin',
+  'least_latency',
+  'cost_optimized',
+  'quality_first'
+]
+
+/**
+ * Strategy from AI_LOAD_BALANCING_STRATEGY, preferring higher quality models by default
+ */
+function getLoadBalancingStrategy(): AdvancedAIServiceConfig['loadBalancing']['strategy'] {
+  const strategy = process.env.AI_LOAD_BALANCING_STRATEGY as AdvancedAIServiceConfig['loadBalancing']['strategy']
+  return LOAD_BALANCING_STRATEGIES.includes(strategy) ? strategy : 'quality_first'
+}
+
+/**
+ * Record/replay settings from AI_CASSETTE_MODE ('record' or 'replay'),
+ * AI_CASSETTE_DIR and AI_CASSETTE_STRICT. Replay is strict unless
+ * AI_CASSETTE_STRICT=false, in which case unrecorded requests go to the
+ * provider and get recorded.
+ */
+export function createCassetteConfig(): CassetteConfig | undefined {
+  const mode = process.env.AI_CASSETTE_MODE
+  if (mode !== 'record' && mode !== 'replay') {
+    return undefined
+  }
+
+  return {
+    mode,
+    directory: process.env.AI_CASSETTE_DIR || 'tests/fixtures/cassettes',
+    strict: process.env.AI_CASSETTE_STRICT !== 'false'
   }
 }
 
@@ -79,6 +145,8 @@ export function getDefaultModel(provider: string): string {
       return 'gpt-4-turbo'
     case 'anthropic':
       return 'claude-3-sonnet-20240229'
+    case 'local':
+      return getLocalModels()[0]
     default:
       throw new Error(`Unknown provider: ${provider}`)
   }
@@ -89,8 +157,13 @@ export function validateEnvironmentVariables(): { valid: boolean; missing: strin
   const missing = []
 
   // Check for at least one AI provider
-  if (!process.env.OPENAI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
-    missing.push('OPENAI_API_KEY or ANTHROPIC_API_KEY')
+  if (
+    !process.env.OPENAI_API_KEY &&
+    !process.env.ANTHROPIC_API_KEY &&
+    !process.env.LOCAL_AI_ENDPOINT &&
+    process.env.AI_CASSETTE_MODE !== 'replay'
+  ) {
+    missing.push('OPENAI_API_KEY, ANTHROPIC_API_KEY or LOCAL_AI_ENDPOINT')
   }
 
   return {
@@ -99,47 +172,120 @@ export function validateEnvironmentVariables(): { valid: boolean; missing: strin
   }
 }
 
+/** maxTokens is the longest completion a model returns, contextWindow the prompt and completion together */
 export const AI_SERVICE_MODELS = {
   openai: {
     'gpt-4': {
       maxTokens: 8192,
+      contextWindow: 8192,
       costPer1kTokens: 0.03,
+      quality: 9,
       bestFor: ['complex reasoning', 'code generation', 'analysis']
     },
     'gpt-4-turbo': {
-      maxTokens: 128000,
+      maxTokens: 4096,
+      contextWindow: 128000,
       costPer1kTokens: 0.01,
+      quality: 9,
       bestFor: ['long context', 'document analysis', 'comprehensive planning']
     },
     'gpt-3.5-turbo': {
       maxTokens: 4096,
+      contextWindow: 16385,
       costPer1kTokens: 0.002,
+      quality: 6,
       bestFor: ['quick responses', 'simple tasks', 'cost optimization']
     }
   },
   anthropic: {
     'claude-3-opus-20240229': {
       maxTokens: 4096,
+      contextWindow: 200000,
       costPer1kTokens: 0.015,
+      quality: 9,
       bestFor: ['complex analysis', 'creative writing', 'detailed reasoning']
     },
     'claude-3-sonnet-20240229': {
       maxTokens: 4096,
+      contextWindow: 200000,
       costPer1kTokens: 0.003,
+      quality: 8,
       bestFor: ['balanced performance', 'general tasks', 'good cost/quality ratio']
     },
     'claude-3-haiku-20240307': {
       maxTokens: 4096,
+      contextWindow: 200000,
       costPer1kTokens: 0.00025,
+      quality: 6,
       bestFor: ['fast responses', 'simple tasks', 'high volume processing']
     }
   }
 } as const
 
+export interface ModelProfile {
+  quality: number
+  costPer1kTokens: number
+  maxOutputTokens: number
+  contextWindow: number
+}
+
+export function estimateModelCost(provider: string, model: string, totalTokens: number): number {
+  return (totalTokens / 1000) * getModelProfile(provider, model).costPer1kTokens
+}
+
+/**
+ * Quality rating (1-10), price and token limits of a model. Models missing
+ * from AI_SERVICE_MODELS, such as self-hosted ones, are free, rated
+ * LOCAL_AI_QUALITY (default 5) and limited to LOCAL_AI_CONTEXT_WINDOW
+ * (default 8192) tokens.
+ */
+export function getModelProfile(provider: string, model: string): ModelProfile {
+  const models = AI_SERVICE_MODELS[provider as keyof typeof AI_SERVICE_MODELS] as
+    Record<string, { quality: number; costPer1kTokens: number; maxTokens: number; contextWindow: number }> | undefined
+  const profile = models?.[model]
+
+  if (profile) {
+    return {
+      quality: profile.quality,
+      costPer1kTokens: profile.costPer1kTokens,
+      maxOutputTokens: profile.maxTokens,
+      contextWindow: profile.contextWindow
+    }
+  }
+
+  return {
+    quality: parseInt(process.env.LOCAL_AI_QUALITY || '5'),
+    costPer1kTokens: 0,
+    maxOutputTokens: parseInt(process.env.LOCAL_AI_MAX_TOKENS || '8192'),
+    contextWindow: parseInt(process.env.LOCAL_AI_CONTEXT_WINDOW || '8192')
+  }
+}
+
+/**
+ * Models served by the local endpoint, from LOCAL_AI_MODELS (comma separated).
+ * The first entry is the default.
+ */
+export function getLocalModels(): string[] {
+  const models = (process.env.LOCAL_AI_MODELS || '')
+    .split(',')
+    .map(model => model.trim())
+    .filter(Boolean)
+
+  return models.length > 0 ? models : ['llama3.1']
+}
+
 export function selectOptimalModel(
   task: 'simple' | 'complex' | 'creative' | 'analytical',
   priority: 'speed' | 'cost' | 'quality'
 ): { provider: string; model: string } {
+  // Local models are free, so they win on cost and are the only choice offline
+  if (process.env.LOCAL_AI_ENDPOINT) {
+    const cloudConfigured = process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY
+    if (priority === 'cost' || !cloudConfigured) {
+      return { provider: 'local', model: getLocalModels()[0] }
+    }
+  }
+
   if (priority === 'cost') {
     if (process.env.OPENAI_API_KEY) {
       return { provider: 'openai', model: 'gpt-3.5-turbo' }
@@ -0,0 +1,272 @@
+import { SubscriptionTier } from '@/types'
+import { AIRequest, AIResponse, BlueprintSection } from '@/types/ai-services'
+import { createAIServiceConfig, estimateModelCost, getModelProfile, selectOptimalModel } from './config'
+import { countTokens } from './tokenizer'
+
+/** Tier names as Prisma returns them, which the SubscriptionTier enum does not accept */
+export type BudgetTier = `${SubscriptionTier}`
+
+/** Whose budget an AI call is charged to */
+export interface BudgetScope {
+  userId: string
+  projectId?: string
+  tier: BudgetTier
+}
+
+/** Spend limits in USD. -1 means unlimited. */
+export interface TierBudget {
+  monthlyLimit: number
+  projectLimit: number
+}
+
+export const TIER_BUDGETS: Record<BudgetTier, TierBudget> = {
+  [SubscriptionTier.FREE]: { monthlyLimit: 1, projectLimit: 0.5 },
+  [SubscriptionTier.PRO]: { monthlyLimit: 25, projectLimit: 5 },
+  [SubscriptionTier.ENTERPRISE]: { monthlyLimit: 500, projectLimit: -1 }
+}
+
+export interface AISpendEntry {
+  userId: string
+  projectId?: string
+  tier: BudgetTier
+  section?: BlueprintSection
+  provider: string
+  model: string
+  promptTokens: number
+  completionTokens: number
+  cost: number
+}
+
+export interface AISpendStore {
+  /** Total cost recorded for the user since `since`, optionally for one project */
+  getSpend(userId: string, since: Date, projectId?: string): Promise<number>
+  record(entry: AISpendEntry): Promise<void>
+}
+
+/** Projected cost held against a budget while the call it was authorized for runs */
+export interface BudgetReservation {
+  userId: string
+  projectId?: string
+  amount: number
+}
+
+export type BudgetDecision =
+  | { allowed: true; request: AIRequest; projectedCost: number; downgraded: boolean; reservation: BudgetReservation }
+  | { allowed: false; projectedCost: number; reason: string }
+
+export interface AISpendSummary {
+  tier: BudgetTier
+  periodStart: Date
+  monthlyLimit: number
+  spentThisMonth: number
+  /** -1 when the tier has no monthly limit */
+  remainingThisMonth: number
+  projectLimit: number
+}
+
+/** Completion size assumed for requests that do not set maxTokens */
+const DEFAULT_COMPLETION_TOKENS = 4000
+
+const HOUR = 60 * 60 * 1000
+
+/**
+ * Reservations of calls in flight, per store, so every manager writing to
+ * the same store sees the calls the others have authorized
+ */
+const reservations = new WeakMap<AISpendStore, Set<BudgetReservation>>()
+
+/**
+ * Records spend in the ai_spend_records table. Prisma is loaded on first use
+ * so the orchestrator can run without a database when no budget is set.
+ */
+export const prismaSpendStore: AISpendStore = {
+  async getSpend(userId, since, projectId) {
+    const { prisma } = await import('@/lib/prisma')
+    const result = await prisma.aiSpendRecord.aggregate({
+      where: {
+        userId,
+        ...(projectId ? { projectId } : {}),
+        createdAt: { gte: since }
+      },
+      _sum: { cost: true }
+    })
+    return result._sum.cost ?? 0
+  },
+
+  async record(entry) {
+    const { prisma } = await import('@/lib/prisma')
+    await prisma.aiSpendRecord.create({ data: entry })
+  }
+}
+
+/**
+ * Enforces per-user monthly and per-project AI spend limits, and a per-user
+ * hourly limit (`monitoring.alertThresholds.costPerHour`) that applies to
+ * every tier. Before a call its cost is projected from the prompt's token
+ * count and maxTokens; calls that would overrun a limit are moved to the
+ * cheapest model, and rejected if even that does not fit. The projected cost
+ * of an authorized call is reserved until `record` settles it, so calls
+ * running in parallel cannot together overrun a limit.
+ */
+export class AIBudgetManager {
+  constructor(
+    private store: AISpendStore = prismaSpendStore,
+    private budgets: Record<BudgetTier, TierBudget> = TIER_BUDGETS,
+    private hourlyLimit: number = createAIServiceConfig().monitoring.alertThresholds.costPerHour
+  ) {}
+
+  projectCost(request: AIRequest): number {
+    return estimateModelCost(request.provider, request.model, projectTokens(request))
+  }
+
+  async authorize(
+    scope: BudgetScope,
+    request: AIRequest,
+    task: Parameters<typeof selectOptimalModel>[0] = 'analytical'
+  ): Promise<BudgetDecision> {
+    const spend = await this.getSpend(scope)
+    // Nothing is awaited from here on, so the remaining budget and the reservation stay consistent
+    const remaining = this.getRemaining(scope, spend)
+    const projectedCost = this.projectCost(request)
+
+    if (projectedCost <= remaining) {
+      return { allowed: true, request, projectedCost, downgraded: false, reservation: this.reserve(scope, projectedCost) }
+    }
+
+    const cheapest = selectOptimalModel(task, 'cost')
+    const downgraded = { ...request, provider: cheapest.provider, model: cheapest.model }
+    const downgradedCost = this.projectCost(downgraded)
+
+    // A cheaper model with a shorter context window cannot take every prompt
+    const fitsContext = projectTokens(downgraded) <= getModelProfile(downgraded.provider, downgraded.model).contextWindow
+
+    if (fitsContext && downgradedCost <= remaining) {
+      return {
+        allowed: true,
+        request: downgraded,
+        projectedCost: downgradedCost,
+        downgraded: true,
+        reservation: this.reserve(scope, downgradedCost)
+      }
+    }
+
+    return {
+      allowed: false,
+      projectedCost: downgradedCost,
+      reason: `AI budget exceeded for the ${scope.tier} tier: next call needs ~$${downgradedCost.toFixed(4)}, $${Math.max(remaining, 0).toFixed(4)} left`
+    }
+  }
+
+  /**
+   * Records what a call cost and settles its reservation. The reservation is
+   * held until the record is stored, so the spend is never missing from both.
+   */
+  async record(
+    scope: BudgetScope,
+    response: AIResponse,
+    section?: BlueprintSection,
+    reservation?: BudgetReservation
+  ): Promise<void> {
+    try {
+      if (response.usage.totalTokens === 0 && response.usage.cost === 0) {
+        return
+      }
+
+      await this.store.record({
+        userId: scope.userId,
+        projectId: scope.projectId,
+        tier: scope.tier,
+        section,
+        provider: response.metadata.provider,
+        model: response.metadata.model,
+        promptTokens: response.usage.promptTokens,
+        completionTokens: response.usage.completionTokens,
+        cost: response.usage.cost
+      })
+    } finally {
+      if (reservation) this.release(reservation)
+    }
+  }
+
+  /** Gives back a reservation whose call never completed */
+  release(reservation: BudgetReservation): void {
+    reservations.get(this.store)?.delete(reservation)
+  }
+
+  async getSummary(userId: string, tier: BudgetTier): Promise<AISpendSummary> {
+    const budget = this.budgets[tier]
+    const periodStart = startOfMonth()
+    const spentThisMonth = await this.store.getSpend(userId, periodStart)
+
+    return {
+      tier,
+      periodStart,
+      monthlyLimit: budget.monthlyLimit,
+      spentThisMonth,
+      remainingThisMonth: budget.monthlyLimit < 0 ? -1 : Math.max(budget.monthlyLimit - spentThisMonth, 0),
+      projectLimit: budget.projectLimit
+    }
+  }
+
+  /** Recorded spend for the scope this month, this hour and on the project */
+  private async getSpend(scope: BudgetScope): Promise<{ month: number; hour: number; project: number }> {
+    const budget = this.budgets[scope.tier]
+    const [month, hour, project] = await Promise.all([
+      budget.monthlyLimit >= 0 ? this.store.getSpend(scope.userId, startOfMonth()) : 0,
+      this.hourlyLimit >= 0 ? this.store.getSpend(scope.userId, new Date(Date.now() - HOUR)) : 0,
+      scope.projectId && budget.projectLimit >= 0 ? this.store.getSpend(scope.userId, new Date(0), scope.projectId) : 0
+    ])
+    return { month, hour, project }
+  }
+
+  /** The smallest of what is left of the monthly, hourly and project budget, less calls in flight */
+  private getRemaining(scope: BudgetScope, spend: { month: number; hour: number; project: number }): number {
+    const budget = this.budgets[scope.tier]
+    const inFlight = [...reservations.get(this.store) ?? []].filter(reservation => reservation.userId === scope.userId)
+    const reserved = sum(inFlight)
+    let remaining = Infinity
+
+    if (budget.monthlyLimit >= 0) {
+      remaining = budget.monthlyLimit - spend.month - reserved
+    }
+
+    if (this.hourlyLimit >= 0) {
+      remaining = Math.min(remaining, this.hourlyLimit - spend.hour - reserved)
+    }
+
+    if (scope.projectId && budget.projectLimit >= 0) {
+      const projectReserved = sum(inFlight.filter(reservation => reservation.projectId === scope.projectId))
+      remaining = Math.min(remaining, budget.projectLimit - spend.project - projectReserved)
+    }
+
+    return remaining
+  }
+
+  private reserve(scope: BudgetScope, amount: number): BudgetReservation {
+    const reservation = { userId: scope.userId, projectId: scope.projectId, amount }
+    let held = reservations.get(this.store)
+    if (!held) {
+      held = new Set()
+      reservations.set(this.store, held)
+    }
+    held.add(reservation)
+    return reservation
+  }
+}
+
+function sum(held: BudgetReservation[]): number {
+  return held.reduce((total, reservation) => total + reservation.amount, 0)
+}
+
+function projectTokens(request: AIRequest): number {
+  // Tool rounds send the whole conversation so far
+  const prompt = request.messages?.length
+    ? request.messages.map(message => message.content).join('\n')
+    : request.prompt
+  const promptTokens = countTokens(`${request.systemPrompt || ''}\n${prompt}`, request.provider, request.model)
+  return promptTokens + (request.maxTokens ?? DEFAULT_COMPLETION_TOKENS)
+}
+
+function startOfMonth(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
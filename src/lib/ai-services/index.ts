@@ -1,5 +1,5 @@
 import { AIServiceManager } from './ai-service-manager'
-import { createAIServiceConfig, validateEnvironmentVariables } from './config'
+import { createAIServiceConfig, getDefaultModel, validateEnvironmentVariables } from './config'
 
 // Validate environment variables on module load
 const validation = validateEnvironmentVariables()
@@ -23,6 +23,9 @@ export * from './ai-service-manager'
 export * from './config'
 export * from './clients/openai-client'
 export * from './clients/anthropic-client'
+export * from './clients/local-client'
+export * from './clients/cassette-client'
+export * from './cassette'
 export * from './ai-orchestrator'
 export * from './prompt-templates'
 export * from './coding-prompt-generator'
@@ -49,7 +52,7 @@ export async function makeAIRequest<T = any>(
   }
 
   const provider = options.provider || availableProviders[0]
-  const model = options.model || (provider === 'openai' ? 'gpt-4-turbo' : 'claude-3-sonnet-20240229')
+  const model = options.model || getDefaultModel(provider)
 
   return await manager.makeRequest<T>({
     provider,
@@ -79,7 +82,7 @@ export async function makeStreamingAIRequest(
   }
 
   const provider = options.provider || availableProviders[0]
-  const model = options.model || (provider === 'openai' ? 'gpt-4-turbo' : 'claude-3-sonnet-20240229')
+  const model = options.model || getDefaultModel(provider)
 
   return await manager.makeStreamingRequest({
     provider,
@@ -0,0 +1,245 @@
+import { AdvancedAIServiceConfig, AIProvider, AIRequest } from '@/types/ai-services'
+import { getModelProfile } from './config'
+import { countTokens } from './tokenizer'
+
+export type LoadBalancingConfig = AdvancedAIServiceConfig['loadBalancing']
+
+export interface ProviderChoice {
+  provider: string
+  model: string
+}
+
+export interface LoadBalancingContext {
+  request: AIRequest
+  /** Providers able to take the request right now, the requested one first */
+  candidates: AIProvider[]
+  config: LoadBalancingConfig
+  /** Smoothed observed latency per provider, in milliseconds */
+  latencies: ReadonlyMap<string, number>
+}
+
+export interface LoadBalancingStrategy {
+  select(context: LoadBalancingContext): ProviderChoice
+}
+
+/** Weight of the newest sample in the smoothed latency */
+const LATENCY_SMOOTHING = 0.3
+
+/** Completion size assumed for requests that do not set maxTokens */
+const DEFAULT_COMPLETION_TOKENS = 4000
+
+/**
+ * The model on `provider` closest in quality to the requested one, preferring
+ * the cheaper of equally close models. The requested model is kept when the
+ * provider serves it.
+ */
+export function equivalentModel(provider: AIProvider, request: Pick<AIRequest, 'provider' | 'model'>): string {
+  if (provider.models.includes(request.model)) {
+    return request.model
+  }
+
+  const target = getModelProfile(request.provider, request.model).quality
+  let best = provider.models[0] ?? request.model
+  let bestDistance = Infinity
+  let bestCost = Infinity
+
+  for (const model of provider.models) {
+    const profile = getModelProfile(provider.name, model)
+    const distance = Math.abs(profile.quality - target)
+    if (distance < bestDistance || (distance === bestDistance && profile.costPer1kTokens < bestCost)) {
+      best = model
+      bestDistance = distance
+      bestCost = profile.costPer1kTokens
+    }
+  }
+
+  return best
+}
+
+/**
+ * Whether a model can take the request in place of the requested one. The
+ * request's spend was authorized and its prompt fitted for the requested
+ * model, so the model may not cost more per token and has to hold the
+ * prompt plus the completion.
+ */
+function canTake(request: AIRequest, provider: string, model: string): boolean {
+  if (provider === request.provider && model === request.model) {
+    return true
+  }
+
+  const profile = getModelProfile(provider, model)
+  if (profile.costPer1kTokens > getModelProfile(request.provider, request.model).costPer1kTokens) {
+    return false
+  }
+
+  // Tool rounds send the whole conversation so far
+  const prompt = request.messages?.length
+    ? request.messages.map(message => message.content).join('\n')
+    : request.prompt
+  const maxTokens = request.maxTokens ?? DEFAULT_COMPLETION_TOKENS
+  const promptTokens = countTokens(`${request.systemPrompt || ''}\n${prompt}`, provider, model)
+  return maxTokens <= profile.maxOutputTokens && promptTokens + maxTokens <= profile.contextWindow
+}
+
+function choose(provider: AIProvider, request: AIRequest): ProviderChoice {
+  return { provider: provider.name, model: equivalentModel(provider, request) }
+}
+
+/**
+ * Smooth weighted round-robin: over any window of requests each provider's
+ * share matches its weight, without sending bursts to the heaviest one.
+ * Providers without a configured weight count as 1.
+ */
+export class WeightedRoundRobinStrategy implements LoadBalancingStrategy {
+  private currentWeights = new Map<string, number>()
+
+  select({ request, candidates, config }: LoadBalancingContext): ProviderChoice {
+    let total = 0
+    let selected: AIProvider | null = null
+
+    for (const candidate of candidates) {
+      const weight = Math.max(config.weights?.[candidate.name] ?? 1, 0)
+      const current = (this.currentWeights.get(candidate.name) ?? 0) + weight
+      this.currentWeights.set(candidate.name, current)
+      total += weight
+
+      if (!selected || current > this.currentWeights.get(selected.name)!) {
+        selected = candidate
+      }
+    }
+
+    if (!selected || total === 0) {
+      return { provider: request.provider, model: request.model }
+    }
+
+    this.currentWeights.set(selected.name, this.currentWeights.get(selected.name)! - total)
+    return choose(selected, request)
+  }
+}
+
+/**
+ * Sends the request to the provider with the lowest observed latency.
+ * Providers that have not been measured yet are tried first.
+ */
+export class LeastLatencyStrategy implements LoadBalancingStrategy {
+  select({ request, candidates, latencies }: LoadBalancingContext): ProviderChoice {
+    const unmeasured = candidates.find(candidate => !latencies.has(candidate.name))
+    if (unmeasured) {
+      return choose(unmeasured, request)
+    }
+
+    const fastest = candidates.reduce((best, candidate) =>
+      latencies.get(candidate.name)! < latencies.get(best.name)! ? candidate : best
+    )
+    return choose(fastest, request)
+  }
+}
+
+/**
+ * Picks the cheapest model across providers whose quality is at least
+ * `minQuality`, or the requested model's quality when that is not set.
+ */
+export class CostOptimizedStrategy implements LoadBalancingStrategy {
+  select({ request, candidates, config }: LoadBalancingContext): ProviderChoice {
+    const required = config.minQuality ?? getModelProfile(request.provider, request.model).quality
+    let selected: (ProviderChoice & { quality: number; cost: number }) | null = null
+
+    for (const candidate of candidates) {
+      for (const model of candidate.models) {
+        const { quality, costPer1kTokens: cost } = getModelProfile(candidate.name, model)
+        if (quality < required) continue
+
+        if (!selected || cost < selected.cost || (cost === selected.cost && quality > selected.quality)) {
+          selected = { provider: candidate.name, model, quality, cost }
+        }
+      }
+    }
+
+    return selected
+      ? { provider: selected.provider, model: selected.model }
+      : { provider: request.provider, model: request.model }
+  }
+}
+
+/**
+ * Picks the provider offering the best model at the requested tier. Ties go
+ * to the requested provider.
+ */
+export class QualityFirstStrategy implements LoadBalancingStrategy {
+  select({ request, candidates }: LoadBalancingContext): ProviderChoice {
+    let selected: ProviderChoice | null = null
+    let bestQuality = -Infinity
+
+    for (const candidate of candidates) {
+      const choice = choose(candidate, request)
+      const quality = getModelProfile(choice.provider, choice.model).quality
+      if (quality > bestQuality) {
+        selected = choice
+        bestQuality = quality
+      }
+    }
+
+    return selected ?? { provider: request.provider, model: request.model }
+  }
+}
+
+const STRATEGIES: Record<LoadBalancingConfig['strategy'], () => LoadBalancingStrategy> = {
+  round_robin: () => new WeightedRoundRobinStrategy(),
+  least_latency: () => new LeastLatencyStrategy(),
+  cost_optimized: () => new CostOptimizedStrategy(),
+  quality_first: () => new QualityFirstStrategy()
+}
+
+/**
+ * Chooses the provider and model for each request according to the
+ * configured strategy, and tracks provider latency for least_latency.
+ * Requests only move to models that cost no more than the requested one
+ * and whose context window fits them.
+ */
+export class LoadBalancer {
+  private strategy: LoadBalancingStrategy
+  private latencies = new Map<string, number>()
+
+  constructor(private config: LoadBalancingConfig, strategy?: LoadBalancingStrategy) {
+    this.strategy = strategy ?? STRATEGIES[config.strategy]()
+  }
+
+  get strategyName(): string {
+    return this.config.strategy
+  }
+
+  select(request: AIRequest, candidates: AIProvider[]): ProviderChoice {
+    // Strategies only see the models that can take the request
+    const usable = candidates
+      .map(candidate => ({ ...candidate, models: candidate.models.filter(model => canTake(request, candidate.name, model)) }))
+      .filter(candidate => candidate.models.length > 0)
+
+    if (usable.length === 0) {
+      return { provider: request.provider, model: request.model }
+    }
+
+    const ordered = [
+      ...usable.filter(candidate => candidate.name === request.provider),
+      ...usable.filter(candidate => candidate.name !== request.provider)
+    ]
+
+    return this.strategy.select({
+      request,
+      candidates: ordered,
+      config: this.config,
+      latencies: this.latencies
+    })
+  }
+
+  recordLatency(provider: string, latency: number): void {
+    const previous = this.latencies.get(provider)
+    this.latencies.set(
+      provider,
+      previous === undefined ? latency : previous + LATENCY_SMOOTHING * (latency - previous)
+    )
+  }
+
+  getLatency(provider: string): number | undefined {
+    return this.latencies.get(provider)
+  }
+}
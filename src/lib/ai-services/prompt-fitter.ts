@@ -0,0 +1,207 @@
+import { AIRequest } from '@/types/ai-services'
+import { buildPrompt, getPromptTemplate } from './prompt-templates'
+import { AI_SERVICE_MODELS, getModelProfile } from './config'
+import { countTokens } from './tokenizer'
+
+export type PromptTarget = Pick<AIRequest, 'provider' | 'model' | 'systemPrompt' | 'maxTokens'>
+
+export interface FittedPrompt {
+  request: Pick<AIRequest, 'provider' | 'model' | 'prompt' | 'systemPrompt' | 'maxTokens'>
+  promptTokens: number
+  /** Variables that were condensed to make the prompt fit */
+  condensed: string[]
+  /** Whether the request was moved to a model with a longer context window */
+  upgraded: boolean
+}
+
+interface CondenseLevel {
+  maxItems: number
+  maxStringLength: number
+}
+
+/** Each pass shortens the prompt variables further than the last */
+const CONDENSE_LEVELS: CondenseLevel[] = [
+  { maxItems: 12, maxStringLength: 400 },
+  { maxItems: 6, maxStringLength: 160 },
+  { maxItems: 3, maxStringLength: 60 }
+]
+
+/** Free-text variables such as the idea itself are cut this many times less than nested strings */
+const TOP_LEVEL_STRING_FACTOR = 10
+
+/** Completion size for templates that do not set their own, matching the provider clients' default */
+const DEFAULT_COMPLETION_TOKENS = 4000
+
+/** The parts of a generated product plan that the summary keeps */
+interface PlanHighlights {
+  targetAudience?: { primary?: unknown }
+  coreFeatures?: unknown
+  differentiators?: unknown
+  monetization?: { primary?: { model?: unknown; pricing?: unknown } }
+}
+
+interface FeatureHighlights {
+  name?: string
+  priority?: string
+  category?: string
+}
+
+/**
+ * Summaries of the blueprint sections that later prompts embed, keeping only
+ * what those prompts need from them.
+ */
+const SUMMARIES: Record<string, (value: object) => unknown> = {
+  productPlan: value => {
+    const plan = value as PlanHighlights
+    return {
+      targetAudience: plan.targetAudience?.primary,
+      coreFeatures: summarizeFeatures(plan.coreFeatures),
+      differentiators: plan.differentiators,
+      monetization: plan.monetization?.primary && {
+        model: plan.monetization.primary.model,
+        pricing: plan.monetization.primary.pricing
+      }
+    }
+  },
+  features: summarizeFeatures
+}
+
+/**
+ * Builds a prompt that fits the model's context window together with the
+ * requested completion, which defaults to the template's own. Oversized
+ * variables are condensed step by step, and if even the most condensed
+ * prompt does not fit, the request moves to a model with a longer context
+ * window.
+ */
+export function fitPrompt(
+  templateId: string,
+  variables: Record<string, unknown>,
+  target: PromptTarget
+): FittedPrompt {
+  let largest = { tokens: 0, contextWindow: 0 }
+  const completionTokens = target.maxTokens ?? getPromptTemplate(templateId)?.completionTokens ?? DEFAULT_COMPLETION_TOKENS
+
+  for (const candidate of [target, ...longerContextModels(target)]) {
+    const profile = getModelProfile(candidate.provider, candidate.model)
+    const maxTokens = Math.min(completionTokens, profile.maxOutputTokens)
+
+    for (let level = 0; level <= CONDENSE_LEVELS.length; level++) {
+      const { values, condensed } = condenseVariables(variables, level)
+      const prompt = buildPrompt(templateId, values)
+      const promptTokens = countTokens(`${target.systemPrompt || ''}\n${prompt}`, candidate.provider, candidate.model)
+
+      if (promptTokens + maxTokens <= profile.contextWindow) {
+        return {
+          request: {
+            provider: candidate.provider,
+            model: candidate.model,
+            prompt,
+            systemPrompt: target.systemPrompt,
+            maxTokens
+          },
+          promptTokens,
+          condensed,
+          upgraded: candidate !== target
+        }
+      }
+
+      if (level === CONDENSE_LEVELS.length && profile.contextWindow > largest.contextWindow) {
+        largest = { tokens: promptTokens + maxTokens, contextWindow: profile.contextWindow }
+      }
+    }
+  }
+
+  throw new Error(
+    `Prompt ${templateId} needs ~${largest.tokens} tokens even when condensed, more than the largest available context window (${largest.contextWindow})`
+  )
+}
+
+/**
+ * Models with a longer context window than the target's, from the target's
+ * provider and every other configured provider. Models at least as good as
+ * the target come first, each group ordered by smallest window.
+ */
+function longerContextModels(target: PromptTarget): PromptTarget[] {
+  const { contextWindow, quality } = getModelProfile(target.provider, target.model)
+  const configured: Record<string, boolean> = {
+    openai: Boolean(process.env.OPENAI_API_KEY),
+    anthropic: Boolean(process.env.ANTHROPIC_API_KEY)
+  }
+
+  return Object.entries(AI_SERVICE_MODELS)
+    .filter(([provider]) => provider === target.provider || configured[provider])
+    .flatMap(([provider, models]) => Object.keys(models).map(model => ({ ...target, provider, model })))
+    .map(candidate => ({ candidate, profile: getModelProfile(candidate.provider, candidate.model) }))
+    .filter(({ profile }) => profile.contextWindow > contextWindow)
+    .sort((a, b) =>
+      Number(a.profile.quality < quality) - Number(b.profile.quality < quality) ||
+      a.profile.contextWindow - b.profile.contextWindow ||
+      b.profile.quality - a.profile.quality
+    )
+    .map(({ candidate }) => candidate)
+}
+
+/**
+ * Level 0 leaves the variables untouched. Higher levels summarize known
+ * section objects and shorten long strings and lists everywhere.
+ */
+function condenseVariables(
+  variables: Record<string, unknown>,
+  level: number
+): { values: Record<string, unknown>; condensed: string[] } {
+  if (level === 0) {
+    return { values: variables, condensed: [] }
+  }
+
+  const limits = CONDENSE_LEVELS[level - 1]
+  const values: Record<string, unknown> = {}
+  const condensed: string[] = []
+
+  for (const [name, value] of Object.entries(variables)) {
+    const summarized = SUMMARIES[name] && value && typeof value === 'object' ? SUMMARIES[name](value) : value
+    values[name] = typeof summarized === 'string'
+      ? truncate(summarized, limits.maxStringLength * TOP_LEVEL_STRING_FACTOR)
+      : shorten(summarized, limits)
+
+    if (JSON.stringify(values[name]) !== JSON.stringify(value)) {
+      condensed.push(name)
+    }
+  }
+
+  return { values, condensed }
+}
+
+function shorten(value: unknown, limits: CondenseLevel): unknown {
+  if (typeof value === 'string') {
+    return truncate(value, limits.maxStringLength)
+  }
+
+  if (Array.isArray(value)) {
+    const kept = value.slice(0, limits.maxItems).map(item => shorten(item, limits))
+    return value.length > limits.maxItems ? [...kept, `…and ${value.length - limits.maxItems} more`] : kept
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, shorten(item, limits)]))
+  }
+
+  return value
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text
+}
+
+function summarizeFeatures(features: unknown): unknown {
+  if (!Array.isArray(features)) {
+    return features
+  }
+
+  return features.map(feature => {
+    if (!feature || typeof feature !== 'object') {
+      return feature
+    }
+    const { name, priority, category } = feature as FeatureHighlights
+    return { name, priority, category }
+  })
+}
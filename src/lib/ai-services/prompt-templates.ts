@@ -8,24 +8,40 @@ export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
     template: `You are an expert product strategist. Based on the following idea, create a comprehensive product plan.
 
 IDEA: {{idea}}
-
+{{personas}}
 Please provide a detailed product plan in the following JSON format:
 
 {
   "targetAudience": {
-    "primary": "Primary target audience description",
-    "secondary": "Secondary target audience description",
-    "demographics": ["demographic1", "demographic2"],
-    "painPoints": ["pain point 1", "pain point 2"],
-    "motivations": ["motivation 1", "motivation 2"]
+    "primary": {
+      "demographics": "Who the primary audience is",
+      "psychographics": "What they value and how they work",
+      "painPoints": ["pain point 1", "pain point 2"],
+      "goals": ["goal 1", "goal 2"]
+    },
+    "secondary": {
+      "demographics": "Who the secondary audience is",
+      "psychographics": "What they value and how they work",
+      "painPoints": ["pain point 1"],
+      "goals": ["goal 1"]
+    },
+    "marketSize": {
+      "tam": 5000000000,
+      "sam": 500000000,
+      "som": 10000000
+    }
   },
   "coreFeatures": [
     {
+      "id": "feature-1",
       "name": "Feature Name",
-      "description": "Feature description",
-      "priority": "high|medium|low",
-      "userValue": "Value proposition for users",
-      "complexity": "simple|moderate|complex"
+      "description": "What the feature does and why it matters",
+      "priority": "CRITICAL|HIGH|MEDIUM|LOW",
+      "estimatedHours": 40,
+      "dependencies": ["feature-2"],
+      "category": "CORE|UI_UX|INTEGRATION|SECURITY|PERFORMANCE|ANALYTICS",
+      "userStory": "As a ..., I want ... so that ...",
+      "acceptanceCriteria": ["criterion 1", "criterion 2"]
     }
   ],
   "differentiators": [
@@ -33,28 +49,81 @@ Please provide a detailed product plan in the following JSON format:
     "Unique selling point 2"
   ],
   "monetization": {
-    "primaryModel": "subscription|freemium|one-time|marketplace|advertising",
-    "pricingStrategy": "Pricing strategy description",
-    "revenueStreams": ["stream1", "stream2"],
-    "competitivePricing": "Pricing analysis vs competitors"
+    "primary": {
+      "model": "subscription|freemium|one-time|marketplace|advertising",
+      "pricing": [
+        {
+          "name": "Tier name",
+          "price": 29,
+          "interval": "monthly|yearly|one-time",
+          "features": ["included feature"],
+          "targetSegment": "Who the tier is for"
+        }
+      ],
+      "reasoning": "Why this model fits the audience and competitors"
+    },
+    "alternatives": [
+      {
+        "model": "Alternative model",
+        "reasoning": "When it would make sense",
+        "feasibility": 6
+      }
+    ]
   },
   "gtmStrategy": {
     "launchStrategy": "Go-to-market approach",
-    "marketingChannels": ["channel1", "channel2"],
+    "marketingChannels": [
+      {
+        "name": "Channel name",
+        "cost": 2000,
+        "expectedROI": 3,
+        "timeline": "Month 1-3",
+        "description": "How the channel is used"
+      }
+    ],
     "partnerships": ["potential partnership 1"],
-    "timeline": "Launch timeline and milestones"
+    "timeline": [
+      {
+        "name": "Milestone name",
+        "description": "What is achieved",
+        "dueDate": "YYYY-MM-DD",
+        "deliverables": ["deliverable 1"],
+        "successCriteria": ["criterion 1"]
+      }
+    ],
+    "budget": 25000
+  },
+  "competitorAnalysis": {
+    "direct": [
+      {
+        "name": "Competitor",
+        "strengths": ["strength 1"],
+        "weaknesses": ["weakness 1"],
+        "pricing": "Pricing summary",
+        "marketShare": 15
+      }
+    ],
+    "indirect": [],
+    "whitespace": ["Unserved need"]
   }
 }
 
-Focus on creating a realistic, actionable plan that addresses real market needs.`,
+Market sizes and budgets are in USD, feasibility is from 1 to 10 and market share is a percentage. Focus on creating a realistic, actionable plan that addresses real market needs.`,
     variables: [
       {
         name: 'idea',
         type: 'string',
         required: true,
         description: 'The startup or product idea to analyze'
+      },
+      {
+        name: 'personas',
+        type: 'string',
+        required: false,
+        description: 'Personas the features and go-to-market strategy should be designed for'
       }
     ],
+    completionTokens: 4000,
     metadata: {
       category: 'product-planning',
       version: '1.0',
@@ -81,65 +150,83 @@ Please provide a detailed tech stack recommendation in the following JSON format
   "frontend": [
     {
       "name": "Technology Name",
-      "category": "framework|library|tool",
+      "category": "FRONTEND",
       "reasoning": "Why this choice",
       "alternatives": ["alternative1", "alternative2"],
       "pros": ["pro1", "pro2"],
       "cons": ["con1", "con2"],
-      "cost": 0
+      "cost": 0,
+      "learningCurve": "low|medium|high",
+      "communitySupport": 8
     }
   ],
   "backend": [
     {
       "name": "Technology Name",
-      "category": "framework|runtime|database|service",
+      "category": "BACKEND",
       "reasoning": "Why this choice",
-      "alternatives": ["alternative1"],
-      "pros": ["pro1"],
-      "cons": ["con1"],
-      "cost": 100
+      "alternatives": ["alternative1", "alternative2"],
+      "pros": ["pro1", "pro2"],
+      "cons": ["con1", "con2"],
+      "cost": 100,
+      "learningCurve": "low|medium|high",
+      "communitySupport": 8
     }
   ],
   "database": [
     {
       "name": "Database Name",
-      "category": "sql|nosql|cache|search",
+      "category": "DATABASE",
       "reasoning": "Why this choice",
-      "alternatives": ["alternative1"],
-      "pros": ["pro1"],
-      "cons": ["con1"],
-      "cost": 50
+      "alternatives": ["alternative1", "alternative2"],
+      "pros": ["pro1", "pro2"],
+      "cons": ["con1", "con2"],
+      "cost": 50,
+      "learningCurve": "low|medium|high",
+      "communitySupport": 8
     }
   ],
   "aiServices": [
     {
       "name": "AI Service",
-      "category": "llm|vision|speech|embedding",
-      "reasoning": "Why needed",
-      "alternatives": ["alternative1"],
-      "pros": ["pro1"],
-      "cons": ["con1"],
-      "cost": 200
+      "provider": "openai|anthropic|google|local|other",
+      "model": "Model name",
+      "useCase": "What it is used for",
+      "cost": 200,
+      "latency": 1500,
+      "accuracy": 0.9
     }
   ],
   "deployment": [
     {
-      "name": "Platform Name",
-      "category": "cloud|serverless|container",
+      "platform": "Platform Name",
+      "cost": 150,
+      "scalability": 8,
+      "complexity": 4,
       "reasoning": "Why this choice",
-      "alternatives": ["alternative1"],
-      "pros": ["pro1"],
-      "cons": ["con1"],
-      "cost": 150
+      "requirements": ["requirement1"]
     }
   ],
   "security": [
-    "Security guideline 1",
-    "Security guideline 2"
+    {
+      "category": "Authentication",
+      "requirement": "What must be protected",
+      "implementation": "How to implement it",
+      "priority": "CRITICAL|HIGH|MEDIUM|LOW",
+      "compliance": ["GDPR"]
+    }
+  ],
+  "monitoring": [
+    {
+      "name": "Tool Name",
+      "category": "performance|errors|analytics|logs",
+      "cost": 30,
+      "features": ["feature1"]
+    }
   ]
 }
 
-Consider modern best practices, scalability, and cost-effectiveness.`,
+Costs are USD per month, latency is in milliseconds, accuracy is from 0 to 1 and the other ratings are from 1 to 10. Consider modern best practices, scalability, and cost-effectiveness.`,
     variables: [
       {
         name: 'features',
@@ -166,6 +253,7 @@ Consider modern best practices, scalability, and cost-effectiveness.`,
         description: 'Team experience level (junior, mixed, senior)'
       }
     ],
+    completionTokens: 3000,
     metadata: {
       category: 'technical-architecture',
       version: '1.0',
@@ -191,7 +279,7 @@ Please provide a detailed AI workflow in the following JSON format:
   "nodes": [
     {
       "id": "node1",
-      "type": "input|processing|ai-model|output|decision",
+      "type": "INPUT|PROCESSING|AI_SERVICE|OUTPUT|DECISION|INTEGRATION",
       "label": "Node Label",
       "position": {"x": 100, "y": 100},
       "configuration": {
@@ -200,8 +288,12 @@ Please provide a detailed AI workflow in the following JSON format:
         "inputFormat": "text|image|audio|structured",
         "outputFormat": "text|json|binary"
       },
-      "inputs": ["input1"],
-      "outputs": ["output1"]
+      "inputs": [
+        {"id": "input1", "type": "text", "required": true, "description": "What the node receives"}
+      ],
+      "outputs": [
+        {"id": "output1", "type": "json", "description": "What the node produces"}
+      ]
     }
   ],
   "edges": [
@@ -214,22 +306,24 @@ Please provide a detailed AI workflow in the following JSON format:
   ],
   "modules": [
     {
+      "id": "module1",
       "name": "Module Name",
       "description": "What this module does",
+      "category": "Module category",
       "nodes": ["node1", "node2"],
       "configurable": true,
-      "optional": false
+      "required": true
     }
   ],
   "configuration": {
-    "parallelProcessing": true,
-    "errorHandling": "retry|fallback|fail",
-    "monitoring": true,
-    "caching": true
+    "parallel": true,
+    "timeout": 120,
+    "retries": 3,
+    "fallbackEnabled": true
   }
 }
 
-Design for scalability, reliability, and maintainability.`,
+The timeout is in seconds. Design for scalability, reliability, and maintainability.`,
     variables: [
       {
         name: 'aiFeatures',
@@ -250,6 +344,7 @@ Design for scalability, reliability, and maintainability.`,
         description: 'Available data sources'
       }
     ],
+    completionTokens: 3000,
     metadata: {
       category: 'ai-architecture',
       version: '1.0',
@@ -275,46 +370,54 @@ Please provide a detailed roadmap in the following JSON format:
 {
   "phases": [
     {
+      "id": "phase-1",
       "name": "Phase Name",
       "description": "Phase description",
-      "duration": "Duration in weeks",
-      "priority": "critical|high|medium|low",
+      "estimatedHours": 120,
+      "dependencies": [],
+      "milestone": {
+        "name": "Milestone Name",
+        "description": "What will be achieved",
+        "deliverables": ["deliverable1", "deliverable2"],
+        "successCriteria": ["criterion1"]
+      },
       "tasks": [
         {
+          "id": "task-1",
           "name": "Task Name",
           "description": "Task description",
           "estimatedHours": 40,
-          "dependencies": ["task1", "task2"],
-          "skills": ["skill1", "skill2"],
-          "complexity": "simple|moderate|complex"
+          "priority": "CRITICAL|HIGH|MEDIUM|LOW",
+          "category": "frontend|backend|design|infrastructure|testing",
+          "dependencies": ["task-0"],
+          "status": "not_started"
         }
       ]
     }
   ],
-  "milestones": [
+  "totalEstimate": 1000,
+  "timeline": "6 months",
+  "dependencies": [
     {
-      "name": "Milestone Name",
-      "description": "What will be achieved",
-      "targetDate": "Week X",
-      "deliverables": ["deliverable1", "deliverable2"]
+      "from": "task-1",
+      "to": "task-2",
+      "type": "blocks|enables|influences",
+      "description": "Why task-2 waits for task-1"
     }
   ],
   "risks": [
     {
-      "risk": "Risk description",
-      "impact": "high|medium|low",
-      "probability": "high|medium|low",
-      "mitigation": "Mitigation strategy"
+      "id": "risk-1",
+      "description": "Risk description",
+      "probability": 4,
+      "impact": 7,
+      "mitigation": "Mitigation strategy",
+      "category": "technical|market|team|financial"
     }
-  ],
-  "resources": {
-    "totalEstimatedHours": 1000,
-    "teamRequirements": ["role1", "role2"],
-    "externalDependencies": ["dependency1"]
-  }
+  ]
 }
 
-Prioritize MVP features and ensure realistic timelines.`,
+Task and phase dependencies refer to ids, probability and impact are from 1 to 10, and dates are scheduled from the estimates, so leave them out. Prioritize MVP features and ensure realistic timelines.`,
     variables: [
       {
         name: 'features',
@@ -341,6 +444,7 @@ Prioritize MVP features and ensure realistic timelines.`,
         description: 'Target timeline for completion'
       }
     ],
+    completionTokens: 4000,
     metadata: {
       category: 'project-management',
       version: '1.0',
@@ -354,74 +458,89 @@ Prioritize MVP features and ensure realistic timelines.`,
     id: 'financial-model-generation',
     name: 'Financial Model Generation',
     description: 'Generates financial projections and cost analysis',
-    template: `You are a financial analyst specializing in tech startups. Create a comprehensive financial model.
+    template: `You are a financial analyst specializing in tech startups. Propose the assumptions and costs for a financial model.
 
 PRODUCT PLAN: {{productPlan}}
 TECH STACK: {{techStack}}
 MARKET SIZE: {{marketSize}}
 BUSINESS MODEL: {{businessModel}}
 
-Please provide a detailed financial model in the following JSON format:
+Do not calculate projections, revenue totals or metrics such as LTV, CAC, burn rate, runway or breakeven; they are computed from your assumptions. Rates are fractions (0.05 = 5%) and amounts are USD per month unless noted.
+
+Please provide the inputs in the following JSON format:
 
 {
+  "revenueModel": "Subscription",
+  "assumptions": {
+    "market": {
+      "size": 500000,
+      "growth": 0.1,
+      "penetration": 0.05
+    },
+    "pricing": {
+      "strategy": "Tiered pricing",
+      "price": 29,
+      "elasticity": 0.5,
+      "increases": [0.1, 0.05]
+    },
+    "customers": {
+      "signups": 500,
+      "growth": 0.1,
+      "conversion": 0.04,
+      "churn": 0.05,
+      "cac": 120
+    },
+    "funding": {
+      "cash": 250000
+    },
+    "costs": {
+      "inflation": 0.03,
+      "optimization": 0.1,
+      "scaling": 0.6
+    },
+    "operations": {
+      "efficiency": 0.1,
+      "automation": 0.2,
+      "outsourcing": 0
+    }
+  },
   "costs": {
     "infrastructure": [
       {
-        "item": "Cost item",
-        "monthlyAmount": 100,
-        "yearlyAmount": 1200,
-        "category": "hosting|database|ai-services|tools",
-        "scalingFactor": "linear|exponential|stepped"
+        "service": "Service name",
+        "category": "hosting|database|cdn|storage|ai|monitoring",
+        "cost": 100,
+        "scaling": [{"users": 1000, "cost": 400, "description": "Larger instances"}],
+        "description": "What it is used for"
       }
     ],
     "team": [
       {
         "role": "Developer",
-        "monthlyAmount": 8000,
-        "yearlyAmount": 96000,
-        "quantity": 2,
-        "timing": "Month 1"
+        "salary": 8000,
+        "benefits": 1500,
+        "timeline": "Month 1"
       }
     ],
     "tools": [
       {
-        "tool": "Tool name",
-        "monthlyAmount": 50,
-        "yearlyAmount": 600,
-        "category": "development|design|analytics|marketing"
+        "name": "Tool name",
+        "category": "development|design|analytics|marketing",
+        "cost": 50,
+        "interval": "monthly|yearly|one-time",
+        "users": 3
       }
-    ]
-  },
-  "revenue": {
-    "projections": [
+    ],
+    "marketing": [
       {
-        "month": 1,
-        "users": 100,
-        "revenue": 1000,
-        "churn": 0.05,
-        "acquisitionCost": 50
+        "channel": "Content marketing",
+        "budget": 2000,
+        "expectedReturn": 3,
+        "timeline": "Month 3"
       }
-    ],
-    "assumptions": {
-      "conversionRate": 0.02,
-      "averageRevenuePerUser": 10,
-      "growthRate": 0.15,
-      "churnRate": 0.05
-    }
-  },
-  "metrics": {
-    "breakEvenMonth": 18,
-    "totalFundingNeeded": 500000,
-    "ltv": 200,
-    "cac": 50,
-    "ltvCacRatio": 4,
-    "grossMargin": 0.8
+    ]
   },
-  "scenarios": {
-    "conservative": {"revenue": 100000, "costs": 80000},
-    "realistic": {"revenue": 250000, "costs": 150000},
-    "optimistic": {"revenue": 500000, "costs": 200000}
-  }
+  "notes": ["Assumption worth calling out"]
 }
 
 Base projections on realistic market assumptions and industry benchmarks.`,
@@ -451,6 +570,7 @@ Base projections on realistic market assumptions and industry benchmarks.`,
         description: 'Business model type'
       }
     ],
+    completionTokens: 3000,
     metadata: {
       category: 'financial-planning',
       version: '1.0',
@@ -458,6 +578,77 @@ Base projections on realistic market assumptions and industry benchmarks.`,
       createdAt: new Date(),
       updatedAt: new Date()
     }
+  },
+
+  PERSONA_GENERATION: {
+    id: 'persona-generation',
+    name: 'Persona Generation',
+    description: 'Generates detailed user personas from an idea and its target audience',
+    template: `You are a UX researcher. Based on the following idea and target audience, create {{count}} distinct user personas.
+
+IDEA: {{idea}}
+TARGET AUDIENCE: {{audience}}
+
+Each persona should be a believable individual from a different part of the audience. Please provide them in the following JSON format:
+
+{
+  "personas": [
+    {
+      "name": "First name and a short descriptor, e.g. Dana the agency owner",
+      "demographics": {
+        "age": "34",
+        "gender": "Female",
+        "location": "Berlin, Germany",
+        "income": "$60-80K",
+        "education": "Bachelor's degree"
+      },
+      "psychographics": {
+        "interests": ["interest 1", "interest 2"],
+        "values": ["value 1", "value 2"],
+        "lifestyle": "Short description of their day-to-day"
+      },
+      "painPoints": ["pain point 1", "pain point 2"],
+      "goals": ["goal 1", "goal 2"],
+      "behaviors": {
+        "online": ["where they spend time online"],
+        "purchasing": ["how they decide to buy software"],
+        "communication": ["how they prefer to be contacted"]
+      },
+      "preferredChannels": ["channel 1", "channel 2"],
+      "willingnessToPay": 20
+    }
+  ]
+}
+
+willingnessToPay is the most the persona would pay a month for this product, in USD. Ground pain points and goals in the audience described above.`,
+    variables: [
+      {
+        name: 'idea',
+        type: 'string',
+        required: true,
+        description: 'The startup or product idea'
+      },
+      {
+        name: 'audience',
+        type: 'object',
+        required: true,
+        description: 'Target audience profile from the product plan'
+      },
+      {
+        name: 'count',
+        type: 'number',
+        required: true,
+        description: 'Number of personas to create'
+      }
+    ],
+    completionTokens: 2500,
+    metadata: {
+      category: 'product-planning',
+      version: '1.0',
+      author: 'system',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }
   }
 }
 
@@ -496,7 +687,9 @@ function formatVariableValue(value: any, type: string): string {
 
   switch (type) {
     case 'array':
-      return Array.isArray(value) ? value.join(', ') : String(value)
+      return Array.isArray(value)
+        ? value.map(item => (item && typeof item === 'object' ? JSON.stringify(item) : String(item))).join(', ')
+        : String(value)
     case 'object':
       return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value)
     case 'number':
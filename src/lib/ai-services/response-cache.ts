@@ -0,0 +1,102 @@
+import { createHash } from 'crypto'
+import { cacheUtils } from '@/lib/cache/redis-client'
+import { AdvancedAIServiceConfig, AIRequest, AIResponse } from '@/types/ai-services'
+
+export type CachingConfig = AdvancedAIServiceConfig['caching']
+
+export interface AIResponseStore {
+  cacheAIResponse(key: string, response: unknown, ttl?: number): Promise<boolean>
+  getAIResponse(key: string): Promise<unknown>
+}
+
+/** Temperature the provider clients use when a request does not set one */
+const DEFAULT_TEMPERATURE = 0.7
+
+const DEFAULT_MAX_TEMPERATURE = 0.7
+
+/**
+ * Caches successful AI responses so that repeating an identical request
+ * (e.g. regenerating the same example idea) costs nothing.
+ */
+export class AIResponseCache {
+  constructor(
+    private config: CachingConfig | undefined,
+    private store: AIResponseStore = cacheUtils
+  ) {}
+
+  /**
+   * Streaming calls and calls sampled at a high temperature are expected to
+   * differ between runs, so they are never served from the cache.
+   */
+  isCacheable(request: AIRequest): boolean {
+    if (!this.config?.enabled || request.stream) {
+      return false
+    }
+
+    const temperature = request.temperature ?? DEFAULT_TEMPERATURE
+    return temperature <= (this.config.maxTemperature ?? DEFAULT_MAX_TEMPERATURE)
+  }
+
+  /**
+   * 'prompt_hash' keys on the exact prompts. 'semantic_similarity' keys on
+   * case-, punctuation- and whitespace-insensitive prompts, so trivially
+   * reworded requests share an entry.
+   */
+  buildKey(request: AIRequest): string {
+    const normalize = this.config?.keyStrategy === 'semantic_similarity'
+      ? normalizeForSimilarity
+      : (text: string) => text
+
+    return createHash('sha256')
+      .update(JSON.stringify({
+        strategy: this.config?.keyStrategy ?? 'prompt_hash',
+        provider: request.provider,
+        model: request.model,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        systemPrompt: normalize(request.systemPrompt || ''),
+        prompt: normalize(request.prompt),
+        messages: request.messages,
+        tools: request.tools?.map(tool => tool.name)
+      }))
+      .digest('hex')
+      .slice(0, 32)
+  }
+
+  async get<T>(request: AIRequest): Promise<AIResponse<T> | null> {
+    const cached = await this.store.getAIResponse(this.buildKey(request)) as AIResponse<T> | null
+    if (!cached) {
+      return null
+    }
+
+    return {
+      ...cached,
+      usage: {
+        ...cached.usage,
+        cost: 0,
+        cache: { status: 'hit', savedCost: cached.usage.cost }
+      },
+      metadata: {
+        ...cached.metadata,
+        timestamp: new Date(cached.metadata.timestamp)
+      }
+    }
+  }
+
+  async set<T>(request: AIRequest, response: AIResponse<T>): Promise<void> {
+    if (!response.success) {
+      return
+    }
+
+    // The cache manager ttl is in seconds, the service config in milliseconds
+    const ttl = Math.max(1, Math.round((this.config?.ttl ?? 3600000) / 1000))
+    await this.store.cacheAIResponse(this.buildKey(request), response, ttl)
+  }
+}
+
+function normalizeForSimilarity(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
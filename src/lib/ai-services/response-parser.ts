@@ -0,0 +1,117 @@
+import { z } from 'zod'
+
+export type JsonExtractionResult =
+  | { success: true; value: unknown }
+  | { success: false; error: string }
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] }
+
+const FENCED_BLOCK_PATTERN = /```[a-zA-Z]*\s*\n?([\s\S]*?)```/g
+
+/**
+ * Pulls a JSON value out of raw model output. Handles bare JSON, fenced code
+ * blocks, prose before or after the payload and trailing commas.
+ */
+export function extractJson(text: string): JsonExtractionResult {
+  const trimmed = text.trim()
+  if (!trimmed) {
+    return { success: false, error: 'Response was empty' }
+  }
+
+  const candidates = [trimmed]
+  for (const match of trimmed.matchAll(FENCED_BLOCK_PATTERN)) {
+    candidates.push(match[1].trim())
+  }
+
+  const balanced = findBalancedJson(trimmed)
+  if (balanced) {
+    candidates.push(balanced)
+  }
+
+  for (const candidate of candidates) {
+    const value = tryParse(candidate) ?? tryParse(stripTrailingCommas(candidate))
+    if (value !== undefined) {
+      return { success: true, value }
+    }
+  }
+
+  return { success: false, error: 'No valid JSON object found in response' }
+}
+
+/**
+ * Extracts JSON from model output and validates it against a schema.
+ */
+export function parseStructuredResponse<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): StructuredParseResult<T> {
+  const extracted = extractJson(text)
+  if (!extracted.success) {
+    return { success: false, errors: [extracted.error] }
+  }
+
+  const result = schema.safeParse(extracted.value)
+  if (!result.success) {
+    return { success: false, errors: formatZodIssues(result.error) }
+  }
+
+  return { success: true, data: result.data }
+}
+
+export function formatZodIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(root)'
+    return `${path}: ${issue.message}`
+  })
+}
+
+function tryParse(candidate: string): unknown {
+  try {
+    return JSON.parse(candidate)
+  } catch {
+    return undefined
+  }
+}
+
+function stripTrailingCommas(candidate: string): string {
+  return candidate.replace(/,\s*([}\]])/g, '$1')
+}
+
+/**
+ * Returns the first top-level {...} or [...] span, ignoring brackets inside strings.
+ */
+function findBalancedJson(text: string): string | null {
+  const start = text.search(/[{[]/)
+  if (start === -1) return null
+
+  const stack: string[] = []
+  let inString = false
+  let escaped = false
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+
+    if (inString) {
+      if (escaped) {
+        escaped = false
+      } else if (char === '\\') {
+        escaped = true
+      } else if (char === '"') {
+        inString = false
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']')
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return null
+      if (stack.length === 0) {
+        return text.slice(start, i + 1)
+      }
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,188 @@
+import {
+  AIResponse,
+  BlueprintSection,
+  SectionGenerationStatus
+} from '@/types/ai-services'
+import { Blueprint } from '@/types'
+
+export type GeneratedSections = Partial<Pick<Blueprint, BlueprintSection>>
+
+export interface SectionNode<TInput> {
+  section: BlueprintSection
+  label: string
+  dependsOn: BlueprintSection[]
+  generate: (input: TInput, completed: GeneratedSections) => Promise<AIResponse<unknown>>
+}
+
+export interface SectionGraphHooks {
+  onSectionStart?: (section: BlueprintSection) => void
+  onSectionComplete?: (status: SectionGenerationStatus, data?: unknown) => void
+}
+
+export interface SectionGraphResult {
+  sections: GeneratedSections
+  sectionStatus: Partial<Record<BlueprintSection, SectionGenerationStatus>>
+  stepsCompleted: string[]
+  aiCallsUsed: number
+  totalCost: number
+}
+
+/**
+ * Runs blueprint sections as a dependency graph. Every section starts as soon
+ * as all of its dependencies have completed; a failed section only takes down
+ * the sections that depend on it.
+ */
+export class SectionGraphExecutor<TInput> {
+  private nodes = new Map<BlueprintSection, SectionNode<TInput>>()
+
+  constructor(nodes: SectionNode<TInput>[]) {
+    for (const node of nodes) {
+      if (this.nodes.has(node.section)) {
+        throw new Error(`Duplicate section in graph: ${node.section}`)
+      }
+      this.nodes.set(node.section, node)
+    }
+
+    this.validateGraph()
+  }
+
+  /**
+   * Groups sections into levels that can run concurrently, in dependency order.
+   */
+  getExecutionLevels(): BlueprintSection[][] {
+    const levels: BlueprintSection[][] = []
+    const placed = new Set<BlueprintSection>()
+
+    while (placed.size < this.nodes.size) {
+      const level = Array.from(this.nodes.values())
+        .filter(node => !placed.has(node.section))
+        .filter(node => node.dependsOn.every(dep => placed.has(dep)))
+        .map(node => node.section)
+
+      if (level.length === 0) {
+        throw new Error('Section graph contains a dependency cycle')
+      }
+
+      level.forEach(section => placed.add(section))
+      levels.push(level)
+    }
+
+    return levels
+  }
+
+  async execute(input: TInput, hooks: SectionGraphHooks = {}): Promise<SectionGraphResult> {
+    const result: SectionGraphResult = {
+      sections: {},
+      sectionStatus: {},
+      stepsCompleted: [],
+      aiCallsUsed: 0,
+      totalCost: 0
+    }
+    const pending = new Set(this.nodes.keys())
+    const running = new Map<BlueprintSection, Promise<void>>()
+
+    while (pending.size > 0 || running.size > 0) {
+      for (const section of Array.from(pending)) {
+        const node = this.nodes.get(section)!
+        const blockedBy = node.dependsOn.filter(dep => {
+          const status = result.sectionStatus[dep]?.status
+          return status === 'failed' || status === 'skipped'
+        })
+
+        if (blockedBy.length > 0) {
+          pending.delete(section)
+          result.sectionStatus[section] = {
+            section,
+            status: 'skipped',
+            dependsOn: node.dependsOn,
+            duration: 0,
+            cost: 0,
+            error: `Skipped because ${blockedBy.join(', ')} did not complete`
+          }
+          hooks.onSectionComplete?.(result.sectionStatus[section]!)
+          continue
+        }
+
+        if (node.dependsOn.every(dep => result.sectionStatus[dep]?.status === 'completed')) {
+          pending.delete(section)
+          hooks.onSectionStart?.(section)
+          running.set(section, this.runNode(node, input, result).finally(() => {
+            running.delete(section)
+            hooks.onSectionComplete?.(result.sectionStatus[section]!, result.sections[section])
+          }))
+        }
+      }
+
+      if (running.size === 0) {
+        // Nothing in flight and nothing runnable; validateGraph rules this out
+        break
+      }
+
+      await Promise.race(running.values())
+    }
+
+    return result
+  }
+
+  private async runNode(
+    node: SectionNode<TInput>,
+    input: TInput,
+    result: SectionGraphResult
+  ): Promise<void> {
+    const startedAt = new Date()
+
+    try {
+      const response = await node.generate(input, { ...result.sections })
+      result.aiCallsUsed += response.usage?.requests ?? 1
+      result.totalCost += response.usage?.cost ?? 0
+
+      if (!response.success) {
+        result.sectionStatus[node.section] = {
+          section: node.section,
+          status: 'failed',
+          dependsOn: node.dependsOn,
+          startedAt,
+          duration: Date.now() - startedAt.getTime(),
+          cost: response.usage?.cost ?? 0,
+          error: response.error?.message || 'Unknown error'
+        }
+        return
+      }
+
+      const sections = result.sections as Record<string, unknown>
+      sections[node.section] = response.data
+      result.stepsCompleted.push(node.label)
+      result.sectionStatus[node.section] = {
+        section: node.section,
+        status: 'completed',
+        dependsOn: node.dependsOn,
+        startedAt,
+        duration: Date.now() - startedAt.getTime(),
+        cost: response.usage?.cost ?? 0
+      }
+    } catch (error) {
+      result.sectionStatus[node.section] = {
+        section: node.section,
+        status: 'failed',
+        dependsOn: node.dependsOn,
+        startedAt,
+        duration: Date.now() - startedAt.getTime(),
+        cost: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  private validateGraph() {
+    for (const node of this.nodes.values()) {
+      for (const dep of node.dependsOn) {
+        if (!this.nodes.has(dep)) {
+          throw new Error(`Section ${node.section} depends on unknown section: ${dep}`)
+        }
+      }
+    }
+
+    // Throws if the graph cannot be fully ordered
+    this.getExecutionLevels()
+  }
+}
@@ -0,0 +1,463 @@
+import { z } from 'zod'
+import { FeatureCategory, NodeType, Priority, TechCategory } from '@/types'
+import { BlueprintSection } from '@/types/ai-services'
+import {
+  AIServiceSchema,
+  AIWorkflowSchema,
+  AudienceProfileSchema,
+  CompetitorAnalysisSchema,
+  CompetitorSchema,
+  CostBreakdownSchema,
+  DependencySchema,
+  DeploymentOptionSchema,
+  FeatureCategorySchema,
+  FeatureSchema,
+  FinancialModelSchema,
+  GTMPlanSchema,
+  InfraCostSchema,
+  MarketingChannelSchema,
+  MarketingCostSchema,
+  MilestoneSchema,
+  MonetizationStrategySchema,
+  MonitoringToolSchema,
+  NodeInputSchema,
+  NodeOutputSchema,
+  NodeTypeSchema,
+  PhaseSchema,
+  PositionSchema,
+  PricingTierSchema,
+  PrioritySchema,
+  ProductPlanSchema,
+  RiskSchema,
+  RoadmapSchema,
+  SecurityGuidelineSchema,
+  TaskSchema,
+  TeamCostSchema,
+  TechCategorySchema,
+  TechChoiceSchema,
+  TechStackSchema,
+  ToolCostSchema,
+  UserPersonaSchema,
+  WorkflowConfigSchema,
+  WorkflowEdgeSchema,
+  WorkflowModuleSchema,
+  WorkflowNodeSchema
+} from '@/types/validation'
+
+/**
+ * Schemas for model-generated blueprint sections.
+ *
+ * Each is built from its section schema in src/types/validation.ts, so what
+ * passes matches the stored types. They are extended where the model may
+ * leave fields out (lists and descriptions default to empty, ids are taken
+ * from positions), numbers written as strings are coerced and enum values
+ * are read case-insensitively.
+ */
+
+const numeric = z.coerce.number()
+
+const stringList = z.array(z.string()).default([])
+
+const text = z.coerce.string().default('')
+
+/** Reads an enum value case-insensitively ('high', 'ai-service'), falling back when unknown */
+function looseEnum<T extends z.EnumLike>(schema: z.ZodNativeEnum<T>, fallback: T[keyof T]) {
+  return z.preprocess(
+    value => typeof value === 'string' ? value.trim().toUpperCase().replace(/[\s-]+/g, '_') : value,
+    schema
+  ).catch(fallback)
+}
+
+/** Gives the items the model left without an id one from their position */
+function withIds<T extends { id?: string }>(items: T[], prefix: string): (T & { id: string })[] {
+  return items.map((item, index) => ({ ...item, id: item.id || `${prefix}-${index + 1}` }))
+}
+
+const optionalId = z.string().min(1).optional()
+
+// ============================================================================
+// PRODUCT PLAN
+// ============================================================================
+
+const AudienceSegmentResponseSchema = AudienceProfileSchema.shape.primary.extend({
+  painPoints: stringList,
+  goals: stringList
+})
+
+export const AudienceProfileResponseSchema = AudienceProfileSchema.extend({
+  primary: AudienceSegmentResponseSchema,
+  secondary: AudienceSegmentResponseSchema.optional(),
+  marketSize: AudienceProfileSchema.shape.marketSize.extend({
+    tam: numeric.positive(),
+    sam: numeric.positive(),
+    som: numeric.positive()
+  })
+})
+
+export const FeatureResponseSchema = FeatureSchema.extend({
+  id: optionalId,
+  priority: looseEnum(PrioritySchema, Priority.MEDIUM),
+  estimatedHours: numeric.positive(),
+  dependencies: stringList,
+  category: looseEnum(FeatureCategorySchema, FeatureCategory.CORE),
+  userStory: text,
+  acceptanceCriteria: stringList
+})
+
+const PricingTierResponseSchema = PricingTierSchema.extend({
+  price: numeric.nonnegative(),
+  interval: PricingTierSchema.shape.interval.catch('monthly'),
+  features: stringList,
+  targetSegment: text
+})
+
+export const MonetizationResponseSchema = MonetizationStrategySchema.extend({
+  primary: MonetizationStrategySchema.shape.primary.extend({
+    pricing: z.array(PricingTierResponseSchema).default([]),
+    reasoning: text
+  }),
+  alternatives: z.array(MonetizationStrategySchema.shape.alternatives.element.extend({
+    reasoning: text,
+    feasibility: numeric.min(1).max(10)
+  })).default([])
+})
+
+const MilestoneResponseSchema = MilestoneSchema.extend({
+  description: text,
+  deliverables: stringList,
+  successCriteria: stringList
+})
+
+export const GTMPlanResponseSchema = GTMPlanSchema.extend({
+  marketingChannels: z.array(MarketingChannelSchema.extend({
+    cost: numeric.nonnegative(),
+    expectedROI: numeric.default(0),
+    timeline: text,
+    description: text
+  })).default([]),
+  partnerships: stringList,
+  timeline: z.array(MilestoneResponseSchema).default([]),
+  budget: numeric.positive()
+})
+
+const CompetitorResponseSchema = CompetitorSchema.extend({
+  strengths: stringList,
+  weaknesses: stringList,
+  pricing: text,
+  marketShare: numeric.min(0).max(100).optional()
+})
+
+export const ProductPlanResponseSchema = ProductPlanSchema.extend({
+  targetAudience: AudienceProfileResponseSchema,
+  coreFeatures: z.array(FeatureResponseSchema)
+    .min(1, 'At least one core feature is required')
+    .transform(features => withIds(features, 'feature')),
+  differentiators: stringList,
+  monetization: MonetizationResponseSchema,
+  gtmStrategy: GTMPlanResponseSchema,
+  competitorAnalysis: CompetitorAnalysisSchema.extend({
+    direct: z.array(CompetitorResponseSchema).default([]),
+    indirect: z.array(CompetitorResponseSchema).default([]),
+    whitespace: stringList
+  }).default({})
+})
+
+export const PersonaResponseSchema = UserPersonaSchema.extend({
+  name: z.string().min(1, 'Persona name is required'),
+  demographics: UserPersonaSchema.shape.demographics.extend({
+    age: text,
+    gender: text,
+    location: text,
+    income: text,
+    education: text
+  }).default({}),
+  psychographics: UserPersonaSchema.shape.psychographics.extend({
+    interests: stringList,
+    values: stringList,
+    lifestyle: text
+  }).default({}),
+  painPoints: z.array(z.string()).min(1, 'Persona pain points are required'),
+  goals: z.array(z.string()).min(1, 'Persona goals are required'),
+  behaviors: UserPersonaSchema.shape.behaviors.extend({
+    online: stringList,
+    purchasing: stringList,
+    communication: stringList
+  }).default({}),
+  preferredChannels: stringList,
+  willingnessToPay: numeric.nonnegative()
+})
+
+export const PersonasResponseSchema = z.object({
+  personas: z.array(PersonaResponseSchema).min(1, 'At least one persona is required')
+})
+
+// ============================================================================
+// TECHNICAL ARCHITECTURE
+// ============================================================================
+
+/** A technology choice for one layer of the stack, whose category defaults to that layer */
+function techChoice(category: TechCategory) {
+  return TechChoiceSchema.extend({
+    name: z.string().min(1, 'Technology name is required'),
+    category: looseEnum(TechCategorySchema, category),
+    reasoning: text,
+    alternatives: stringList,
+    pros: stringList,
+    cons: stringList,
+    cost: numeric.nonnegative().default(0),
+    learningCurve: TechChoiceSchema.shape.learningCurve.catch('medium'),
+    communitySupport: numeric.min(1).max(10).catch(5)
+  })
+}
+
+export const TechChoiceResponseSchema = techChoice(TechCategory.FRONTEND)
+
+export const TechStackResponseSchema = TechStackSchema.extend({
+  frontend: z.array(techChoice(TechCategory.FRONTEND)).min(1, 'At least one frontend technology is required'),
+  backend: z.array(techChoice(TechCategory.BACKEND)).min(1, 'At least one backend technology is required'),
+  database: z.array(techChoice(TechCategory.DATABASE)).default([]),
+  aiServices: z.array(AIServiceSchema.extend({
+    provider: AIServiceSchema.shape.provider.catch('other'),
+    useCase: text,
+    cost: numeric.nonnegative(),
+    latency: numeric.positive(),
+    accuracy: numeric.min(0).max(1)
+  })).default([]),
+  deployment: z.array(DeploymentOptionSchema.extend({
+    cost: numeric.nonnegative(),
+    scalability: numeric.min(1).max(10),
+    complexity: numeric.min(1).max(10),
+    reasoning: text,
+    requirements: stringList
+  })).default([]),
+  security: z.array(SecurityGuidelineSchema.extend({
+    implementation: text,
+    priority: looseEnum(PrioritySchema, Priority.MEDIUM)
+  })).default([]),
+  monitoring: z.array(MonitoringToolSchema.extend({
+    category: MonitoringToolSchema.shape.category.catch('performance'),
+    cost: numeric.nonnegative(),
+    features: stringList
+  })).default([])
+})
+
+// ============================================================================
+// AI WORKFLOW
+// ============================================================================
+
+export const WorkflowNodeResponseSchema = WorkflowNodeSchema.extend({
+  id: z.string().min(1, 'Node id is required'),
+  type: looseEnum(NodeTypeSchema, NodeType.PROCESSING),
+  label: text,
+  position: PositionSchema.extend({ x: numeric, y: numeric }).default({ x: 0, y: 0 }),
+  configuration: WorkflowNodeSchema.shape.configuration.default({}),
+  inputs: z.array(NodeInputSchema.extend({
+    type: text,
+    required: z.boolean().default(true),
+    description: text
+  })).default([]),
+  outputs: z.array(NodeOutputSchema.extend({
+    type: text,
+    description: text
+  })).default([])
+})
+
+export const WorkflowEdgeResponseSchema = WorkflowEdgeSchema.extend({
+  id: optionalId,
+  source: z.string().min(1),
+  target: z.string().min(1)
+})
+
+export const AIWorkflowResponseSchema = AIWorkflowSchema.extend({
+  nodes: z.array(WorkflowNodeResponseSchema).min(1, 'At least one workflow node is required'),
+  edges: z.array(WorkflowEdgeResponseSchema).default([]).transform(edges => withIds(edges, 'edge')),
+  modules: z.array(WorkflowModuleSchema.extend({
+    id: optionalId,
+    description: text,
+    category: text,
+    nodes: stringList,
+    configurable: z.boolean().default(true),
+    required: z.boolean().default(false)
+  })).default([]).transform(modules => withIds(modules, 'module')),
+  configuration: WorkflowConfigSchema.extend({
+    parallel: z.boolean().default(false),
+    timeout: numeric.positive().default(120),
+    retries: numeric.nonnegative().default(3),
+    fallbackEnabled: z.boolean().default(true)
+  }).default({})
+}).superRefine((workflow, ctx) => {
+  const nodeIds = new Set(workflow.nodes.map(node => node.id))
+  workflow.edges.forEach((edge, index) => {
+    for (const end of ['source', 'target'] as const) {
+      if (!nodeIds.has(edge[end])) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['edges', index, end],
+          message: `References unknown node "${edge[end]}"`
+        })
+      }
+    }
+  })
+})
+
+// ============================================================================
+// ROADMAP
+// ============================================================================
+
+export const TaskResponseSchema = TaskSchema.extend({
+  id: optionalId,
+  name: z.string().min(1, 'Task name is required'),
+  description: text,
+  estimatedHours: numeric.positive(),
+  priority: looseEnum(PrioritySchema, Priority.MEDIUM),
+  category: text,
+  dependencies: stringList,
+  status: TaskSchema.shape.status.catch('not_started')
+})
+
+/**
+ * Milestone due dates are set from the schedule, and a phase's hours are
+ * the sum of its tasks unless the model gives them.
+ */
+export const PhaseResponseSchema = PhaseSchema.extend({
+  id: optionalId,
+  name: z.string().min(1, 'Phase name is required'),
+  description: text,
+  tasks: z.array(TaskResponseSchema).default([]),
+  estimatedHours: numeric.positive().optional(),
+  dependencies: stringList,
+  milestone: MilestoneResponseSchema.extend({
+    name: z.string().optional(),
+    dueDate: z.coerce.date().optional()
+  }).default({})
+})
+
+export const RoadmapResponseSchema = RoadmapSchema.omit({ schedule: true }).extend({
+  phases: z.array(PhaseResponseSchema).min(1, 'At least one phase is required'),
+  totalEstimate: numeric.positive().optional(),
+  timeline: text,
+  dependencies: z.array(DependencySchema.extend({
+    type: DependencySchema.shape.type.catch('blocks'),
+    description: text
+  })).default([]),
+  risks: z.array(RiskSchema.extend({
+    id: optionalId,
+    probability: numeric.min(1).max(10),
+    impact: numeric.min(1).max(10),
+    mitigation: text,
+    category: text
+  })).default([])
+}).transform(roadmap => {
+  const phases = withIds(roadmap.phases, 'phase').map(phase => {
+    const tasks = withIds(phase.tasks, `${phase.id}-task`)
+    return {
+      ...phase,
+      tasks,
+      estimatedHours: phase.estimatedHours ?? tasks.reduce((total, task) => total + task.estimatedHours, 0),
+      milestone: { ...phase.milestone, name: phase.milestone.name || `${phase.name} complete` }
+    }
+  })
+
+  return {
+    ...roadmap,
+    phases,
+    totalEstimate: roadmap.totalEstimate ?? phases.reduce((total, phase) => total + phase.estimatedHours, 0),
+    risks: withIds(roadmap.risks, 'risk')
+  }
+})
+
+// ============================================================================
+// FINANCIAL MODEL
+// ============================================================================
+
+const rate = numeric.min(0).max(1)
+
+const timeline = z.string().default('Month 1')
+
+/**
+ * The model only proposes assumptions and costs; projections and metrics
+ * are computed from them by the financial engine.
+ */
+export const FinancialAssumptionsResponseSchema = z.object({
+  market: z.object({
+    size: numeric.nonnegative().default(0),
+    growth: numeric.default(0),
+    penetration: rate.default(1)
+  }).default({}),
+  pricing: z.object({
+    strategy: z.string().default(''),
+    price: numeric.nonnegative(),
+    elasticity: numeric.default(0),
+    increases: z.array(numeric).default([])
+  }),
+  customers: z.object({
+    signups: numeric.nonnegative(),
+    growth: numeric.default(0),
+    conversion: rate,
+    churn: rate,
+    cac: numeric.nonnegative()
+  }),
+  funding: z.object({ cash: numeric }).default({ cash: 0 }),
+  costs: z.object({
+    inflation: numeric.default(0),
+    optimization: rate.default(0),
+    scaling: numeric.default(0)
+  }).default({}),
+  operations: z.object({
+    efficiency: numeric.default(0),
+    automation: numeric.default(0),
+    outsourcing: numeric.default(0)
+  }).default({})
+})
+
+/** Cost line items without the totals, which the engine adds up */
+export const CostBreakdownResponseSchema = CostBreakdownSchema.omit({ total: true, monthly: true, yearly: true }).extend({
+  infrastructure: z.array(InfraCostSchema.extend({
+    service: z.string().min(1, 'Service name is required'),
+    category: InfraCostSchema.shape.category.catch('hosting'),
+    cost: numeric.nonnegative(),
+    scaling: z.array(InfraCostSchema.shape.scaling.element.extend({
+      users: numeric.nonnegative(),
+      cost: numeric.nonnegative(),
+      description: text
+    })).default([]),
+    description: text
+  })).default([]),
+  team: z.array(TeamCostSchema.extend({
+    role: z.string().min(1, 'Role is required'),
+    salary: numeric.nonnegative(),
+    equity: numeric.optional(),
+    benefits: numeric.nonnegative().default(0),
+    timeline
+  })).default([]),
+  tools: z.array(ToolCostSchema.extend({
+    name: z.string().min(1, 'Tool name is required'),
+    category: text,
+    cost: numeric.nonnegative(),
+    interval: ToolCostSchema.shape.interval.catch('monthly'),
+    users: numeric.nonnegative().default(1)
+  })).default([]),
+  marketing: z.array(MarketingCostSchema.extend({
+    channel: z.string().min(1, 'Channel is required'),
+    budget: numeric.nonnegative(),
+    expectedReturn: numeric.default(0),
+    timeline
+  })).default([])
+})
+
+export const FinancialModelResponseSchema = FinancialModelSchema.pick({ costs: true }).extend({
+  revenueModel: text,
+  assumptions: FinancialAssumptionsResponseSchema,
+  costs: CostBreakdownResponseSchema,
+  notes: stringList
+})
+
+export type FinancialModelInputs = z.infer<typeof FinancialModelResponseSchema>
+
+export const SECTION_RESPONSE_SCHEMAS: Record<BlueprintSection, z.ZodTypeAny> = {
+  productPlan: ProductPlanResponseSchema,
+  techStack: TechStackResponseSchema,
+  aiWorkflow: AIWorkflowResponseSchema,
+  roadmap: RoadmapResponseSchema,
+  financialModel: FinancialModelResponseSchema
+}
@@ -0,0 +1,88 @@
+import { getEncodingNameForModel, Tiktoken, TiktokenBPE, TiktokenModel } from 'js-tiktoken/lite'
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base'
+import o200k_base from 'js-tiktoken/ranks/o200k_base'
+
+/**
+ * Token counts for prompts and responses. OpenAI models are counted with
+ * their own BPE encoding and Anthropic models with cl100k, scaled to their
+ * tokenizer. Models whose encoding is unknown, such as self-hosted ones,
+ * are estimated: text is split with the cl100k pre-tokenizer pattern and
+ * each piece is costed by its shape.
+ */
+const PRE_TOKENIZER = /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu
+
+/** The vocabularies shipped; models using any other encoding are estimated */
+const RANKS: Record<string, TiktokenBPE> = { cl100k_base, o200k_base }
+
+/** Tokens per cl100k token for each provider's tokenizer */
+const TOKENIZER_RATIOS: Record<string, number> = {
+  openai: 1,
+  anthropic: 1.1
+}
+
+/** Self-hosted models mostly use SentencePiece vocabularies, which split text finer */
+const DEFAULT_TOKENIZER_RATIO = 1.15
+
+/** Words up to this length (with their leading space) are almost always one token */
+const SINGLE_TOKEN_WORD_LENGTH = 7
+
+const encoders = new Map<string, Tiktoken>()
+
+export function countTokens(text: string, provider = 'openai', model?: string): number {
+  if (!text) {
+    return 0
+  }
+
+  const encoder = encoderFor(provider, model)
+  if (encoder) {
+    // Special-token markers in user text are counted as plain text rather than rejected
+    const tokens = encoder.encode(text, [], []).length
+    return provider === 'openai' ? tokens : Math.ceil(tokens * (TOKENIZER_RATIOS[provider] ?? DEFAULT_TOKENIZER_RATIO))
+  }
+
+  let tokens = 0
+  for (const [piece] of text.matchAll(PRE_TOKENIZER)) {
+    tokens += pieceTokens(piece)
+  }
+
+  return Math.ceil(tokens * (TOKENIZER_RATIOS[provider] ?? DEFAULT_TOKENIZER_RATIO))
+}
+
+/** The BPE encoder for a model, or undefined when its tokenizer is not known */
+function encoderFor(provider: string, model?: string): Tiktoken | undefined {
+  let encoding: string
+  if (provider === 'anthropic' || (provider === 'openai' && !model)) {
+    encoding = 'cl100k_base'
+  } else if (provider === 'openai' && model) {
+    try {
+      encoding = getEncodingNameForModel(model as TiktokenModel)
+    } catch {
+      return undefined
+    }
+  } else {
+    return undefined
+  }
+
+  if (!RANKS[encoding]) {
+    return undefined
+  }
+  if (!encoders.has(encoding)) {
+    encoders.set(encoding, new Tiktoken(RANKS[encoding]))
+  }
+  return encoders.get(encoding)
+}
+
+function pieceTokens(piece: string): number {
+  if (/^\s+$/.test(piece) || /^\p{N}+$/u.test(piece) || piece.startsWith("'")) {
+    return 1
+  }
+
+  const word = piece.match(/\p{L}+$/u)?.[0]
+  if (word) {
+    // A leading punctuation character usually merges with the word
+    return word.length <= SINGLE_TOKEN_WORD_LENGTH ? 1 : Math.ceil(word.length / 5)
+  }
+
+  // Runs of punctuation such as `": [` merge in pairs
+  return Math.ceil(piece.trim().length / 2)
+}
@@ -0,0 +1,77 @@
+import { z } from 'zod'
+import { estimateModelCost } from '../config'
+import { LocalTool } from './tool-registry'
+
+const CostCalculatorArgsSchema = z.object({
+  monthlyActiveUsers: z.number().int().nonnegative(),
+  aiRequestsPerUser: z.number().nonnegative().default(0),
+  tokensPerRequest: z.number().nonnegative().default(1500),
+  provider: z.string().default('openai'),
+  model: z.string().default('gpt-3.5-turbo'),
+  fixedCosts: z.array(z.object({
+    name: z.string(),
+    monthlyAmount: z.number().nonnegative()
+  })).default([]),
+  pricePerUser: z.number().nonnegative().optional()
+})
+
+type CostCalculatorArgs = z.infer<typeof CostCalculatorArgsSchema>
+
+/** Rounds to cents */
+function money(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Monthly operating cost of a product from its user count, AI usage and
+ * fixed costs, so financial figures come from arithmetic rather than the
+ * model's guesses.
+ */
+export const costCalculatorTool: LocalTool<CostCalculatorArgs> = {
+  definition: {
+    name: 'cost_calculator',
+    description: 'Calculates monthly operating costs (AI usage plus fixed costs), cost per user and, given a price per user, gross margin. Use it for every cost figure in the financial model.',
+    parameters: {
+      type: 'object',
+      properties: {
+        monthlyActiveUsers: { type: 'integer', minimum: 0 },
+        aiRequestsPerUser: { type: 'number', minimum: 0, description: 'AI requests each user makes per month' },
+        tokensPerRequest: { type: 'number', minimum: 0, description: 'Prompt plus completion tokens per AI request' },
+        provider: { type: 'string', enum: ['openai', 'anthropic', 'local'] },
+        model: { type: 'string', description: 'e.g. gpt-3.5-turbo or claude-3-haiku-20240307' },
+        fixedCosts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { name: { type: 'string' }, monthlyAmount: { type: 'number', minimum: 0 } },
+            required: ['name', 'monthlyAmount']
+          }
+        },
+        pricePerUser: { type: 'number', minimum: 0, description: 'Monthly revenue per user' }
+      },
+      required: ['monthlyActiveUsers']
+    }
+  },
+  schema: CostCalculatorArgsSchema,
+  execute(args) {
+    const monthlyTokens = args.monthlyActiveUsers * args.aiRequestsPerUser * args.tokensPerRequest
+    const aiCost = estimateModelCost(args.provider, args.model, monthlyTokens)
+    const fixedCost = args.fixedCosts.reduce((total, cost) => total + cost.monthlyAmount, 0)
+    const totalCost = aiCost + fixedCost
+    const costPerUser = args.monthlyActiveUsers > 0 ? totalCost / args.monthlyActiveUsers : 0
+
+    return {
+      monthlyTokens,
+      aiCostPerMonth: money(aiCost),
+      fixedCostPerMonth: money(fixedCost),
+      totalCostPerMonth: money(totalCost),
+      costPerUser: money(costPerUser),
+      ...(args.pricePerUser !== undefined ? {
+        revenuePerMonth: money(args.pricePerUser * args.monthlyActiveUsers),
+        grossMarginPercent: args.pricePerUser > 0
+          ? Math.round(((args.pricePerUser - costPerUser) / args.pricePerUser) * 1000) / 10
+          : null
+      } : {})
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { ToolRegistry } from './tool-registry'
+import { costCalculatorTool } from './cost-calculator'
+import { techCompatibilityTool } from './tech-compatibility'
+
+export { ToolRegistry } from './tool-registry'
+export type { LocalTool, ToolResultMessage } from './tool-registry'
+export { costCalculatorTool } from './cost-calculator'
+export { techCompatibilityTool } from './tech-compatibility'
+
+/** A registry with the built-in tools */
+export function createDefaultToolRegistry(): ToolRegistry {
+  return new ToolRegistry()
+    .register(costCalculatorTool)
+    .register(techCompatibilityTool)
+}
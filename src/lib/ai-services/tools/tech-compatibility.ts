@@ -0,0 +1,125 @@
+import { z } from 'zod'
+import { LocalTool } from './tool-registry'
+
+type Language = 'javascript' | 'python' | 'ruby' | 'go' | 'java' | 'php'
+
+interface KnownTechnology {
+  name: string
+  aliases: string[]
+  /** Server-side code must share a language to run in one process */
+  language?: Language
+  serverSide: boolean
+}
+
+export type CompatibilityStatus = 'compatible' | 'caution' | 'incompatible'
+
+const TECHNOLOGIES: KnownTechnology[] = [
+  { name: 'React', aliases: ['react.js', 'reactjs'], serverSide: false },
+  { name: 'Vue', aliases: ['vue.js', 'vuejs'], serverSide: false },
+  { name: 'Angular', aliases: [], serverSide: false },
+  { name: 'Svelte', aliases: ['sveltekit'], serverSide: false },
+  { name: 'Next.js', aliases: ['nextjs', 'next'], language: 'javascript', serverSide: true },
+  { name: 'Nuxt', aliases: ['nuxt.js', 'nuxtjs'], language: 'javascript', serverSide: true },
+  { name: 'Node.js', aliases: ['node', 'nodejs'], language: 'javascript', serverSide: true },
+  { name: 'Express', aliases: ['express.js', 'expressjs'], language: 'javascript', serverSide: true },
+  { name: 'NestJS', aliases: ['nest', 'nest.js'], language: 'javascript', serverSide: true },
+  { name: 'Prisma', aliases: [], language: 'javascript', serverSide: true },
+  { name: 'Django', aliases: [], language: 'python', serverSide: true },
+  { name: 'FastAPI', aliases: [], language: 'python', serverSide: true },
+  { name: 'Flask', aliases: [], language: 'python', serverSide: true },
+  { name: 'SQLAlchemy', aliases: [], language: 'python', serverSide: true },
+  { name: 'Ruby on Rails', aliases: ['rails'], language: 'ruby', serverSide: true },
+  { name: 'Spring Boot', aliases: ['spring'], language: 'java', serverSide: true },
+  { name: 'Laravel', aliases: [], language: 'php', serverSide: true },
+  { name: 'Gin', aliases: [], language: 'go', serverSide: true },
+  { name: 'PostgreSQL', aliases: ['postgres', 'postgresql'], serverSide: false },
+  { name: 'MySQL', aliases: [], serverSide: false },
+  { name: 'MongoDB', aliases: ['mongo'], serverSide: false },
+  { name: 'SQLite', aliases: [], serverSide: false },
+  { name: 'Redis', aliases: [], serverSide: false },
+  { name: 'Supabase', aliases: [], serverSide: false },
+  { name: 'Firebase', aliases: ['firestore'], serverSide: false },
+  { name: 'Vercel', aliases: [], serverSide: false },
+  { name: 'Netlify', aliases: [], serverSide: false }
+]
+
+/** Known issues between specific technologies, keyed by both names sorted */
+const PAIR_NOTES: Record<string, { status: CompatibilityStatus; note: string }> = {
+  'MongoDB|Prisma': { status: 'caution', note: 'Prisma supports MongoDB without migrations and with fewer relation features than on SQL databases' },
+  'Firebase|Prisma': { status: 'incompatible', note: 'Prisma has no Firestore connector' },
+  'Express|Next.js': { status: 'caution', note: 'A custom Express server disables Next.js automatic static optimization and cannot be deployed to Vercel' },
+  'Django|Vercel': { status: 'caution', note: 'Vercel runs Python only as short-lived serverless functions' },
+  'Ruby on Rails|Vercel': { status: 'incompatible', note: 'Vercel has no Ruby runtime for full Rails apps' },
+  'Spring Boot|Vercel': { status: 'incompatible', note: 'Vercel has no Java runtime' },
+  'Laravel|Vercel': { status: 'caution', note: 'PHP on Vercel relies on a community runtime' },
+  'Netlify|Next.js': { status: 'caution', note: 'Some Next.js features lag behind on Netlify' },
+  'SQLite|Vercel': { status: 'incompatible', note: 'Serverless functions have no persistent disk for a SQLite file' }
+}
+
+const TechCompatibilityArgsSchema = z.object({
+  technologies: z.array(z.string().min(1)).min(2, 'Give at least two technologies to compare')
+})
+
+type TechCompatibilityArgs = z.infer<typeof TechCompatibilityArgsSchema>
+
+function findTechnology(name: string): KnownTechnology | undefined {
+  const normalized = name.trim().toLowerCase()
+  return TECHNOLOGIES.find(tech =>
+    tech.name.toLowerCase() === normalized || tech.aliases.includes(normalized)
+  )
+}
+
+function comparePair(a: KnownTechnology, b: KnownTechnology): { status: CompatibilityStatus; note: string } {
+  const known = PAIR_NOTES[[a.name, b.name].sort().join('|')]
+  if (known) {
+    return known
+  }
+
+  if (a.serverSide && b.serverSide && a.language && b.language && a.language !== b.language) {
+    return {
+      status: 'incompatible',
+      note: `${a.name} (${a.language}) and ${b.name} (${b.language}) cannot share a server; run them as separate services`
+    }
+  }
+
+  return { status: 'compatible', note: 'No known issues' }
+}
+
+/**
+ * Checks every pair of technologies in a proposed stack against a table of
+ * known conflicts, so stack recommendations do not rely on the model's
+ * memory of what works together.
+ */
+export const techCompatibilityTool: LocalTool<TechCompatibilityArgs> = {
+  definition: {
+    name: 'tech_compatibility',
+    description: 'Checks whether the technologies in a proposed stack work together and lists known conflicts. Call it with the full stack before recommending it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        technologies: {
+          type: 'array',
+          items: { type: 'string' },
+          minItems: 2,
+          description: 'Technology names, e.g. ["Next.js", "Prisma", "PostgreSQL", "Vercel"]'
+        }
+      },
+      required: ['technologies']
+    }
+  },
+  schema: TechCompatibilityArgsSchema,
+  execute({ technologies }) {
+    const known = technologies.map(findTechnology).filter((tech): tech is KnownTechnology => Boolean(tech))
+    const unknown = technologies.filter(name => !findTechnology(name))
+    const pairs = known.flatMap((a, index) =>
+      known.slice(index + 1).map(b => ({ technologies: [a.name, b.name], ...comparePair(a, b) }))
+    )
+
+    return {
+      compatible: pairs.every(pair => pair.status !== 'incompatible'),
+      issues: pairs.filter(pair => pair.status !== 'compatible'),
+      checkedPairs: pairs.length,
+      unknownTechnologies: unknown
+    }
+  }
+}
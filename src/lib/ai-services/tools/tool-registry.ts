@@ -0,0 +1,65 @@
+import { ZodType, ZodTypeDef } from 'zod'
+import { AIMessage, AIToolCall, AIToolDefinition } from '@/types/ai-services'
+import { formatZodIssues } from '../response-parser'
+
+export type ToolResultMessage = Extract<AIMessage, { role: 'tool' }>
+
+/**
+ * A deterministic helper the model can call instead of working a figure out
+ * itself. Arguments are validated against `schema` before `execute` runs.
+ */
+export interface LocalTool<A = unknown> {
+  definition: AIToolDefinition
+  schema: ZodType<A, ZodTypeDef, unknown>
+  execute(args: A): unknown | Promise<unknown>
+}
+
+/**
+ * The local tools available to the orchestrator. Failures are returned to
+ * the model as error results rather than thrown, so it can correct the call.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, LocalTool>()
+
+  register<A>(tool: LocalTool<A>): this {
+    this.tools.set(tool.definition.name, tool)
+    return this
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name)
+  }
+
+  /** Definitions to send with a request, optionally limited to `names` */
+  definitions(names?: string[]): AIToolDefinition[] {
+    return Array.from(this.tools.values())
+      .filter(tool => !names || names.includes(tool.definition.name))
+      .map(tool => tool.definition)
+  }
+
+  async execute(call: AIToolCall): Promise<ToolResultMessage> {
+    const result = (content: unknown, isError = false): ToolResultMessage => ({
+      role: 'tool',
+      toolCallId: call.id,
+      name: call.name,
+      content: typeof content === 'string' ? content : JSON.stringify(content),
+      ...(isError ? { isError } : {})
+    })
+
+    const tool = this.tools.get(call.name)
+    if (!tool) {
+      return result(`Unknown tool "${call.name}". Available tools: ${Array.from(this.tools.keys()).join(', ')}`, true)
+    }
+
+    const parsed = tool.schema.safeParse(call.arguments)
+    if (!parsed.success) {
+      return result(`Invalid arguments: ${formatZodIssues(parsed.error).join('; ')}`, true)
+    }
+
+    try {
+      return result(await tool.execute(parsed.data))
+    } catch (error) {
+      return result(error instanceof Error ? error.message : 'Tool failed', true)
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { BlueprintStreamEvent, BlueprintStreamListener } from "@/types/ai-services"
+
+interface StreamChannel {
+  events: BlueprintStreamEvent[]
+  listeners: Set<BlueprintStreamListener>
+}
+
+/**
+ * In-process fan-out of blueprint generation events, keyed by project.
+ * Events are buffered so that clients connecting mid-generation are
+ * replayed everything they missed. A project has a channel from the time
+ * its generation opens one until it is cleared.
+ */
+export class BlueprintStreamBroker {
+  private static channels = new Map<string, StreamChannel>()
+
+  static publish(projectId: string, event: BlueprintStreamEvent): void {
+    const channel = this.getChannel(projectId)
+
+    if (event.type === 'section-completed') {
+      // The completed section carries the parsed data, so its raw tokens are no longer needed
+      channel.events = channel.events.filter(
+        buffered => buffered.type !== 'token-delta' || buffered.section !== event.section
+      )
+    }
+    channel.events.push(event)
+
+    for (const listener of channel.listeners) {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('Blueprint stream listener failed:', error)
+      }
+    }
+  }
+
+  /** Starts buffering events for a generation about to begin */
+  static open(projectId: string): void {
+    this.getChannel(projectId)
+  }
+
+  /**
+   * Replays the buffered events to `listener` and sends it the ones that
+   * follow. Returns null when nothing is being generated for the project.
+   */
+  static subscribe(projectId: string, listener: BlueprintStreamListener): (() => void) | null {
+    const channel = this.channels.get(projectId)
+    if (!channel) return null
+
+    for (const event of channel.events) {
+      listener(event)
+    }
+    channel.listeners.add(listener)
+
+    return () => {
+      channel.listeners.delete(listener)
+    }
+  }
+
+  static isActive(projectId: string): boolean {
+    return this.channels.has(projectId)
+  }
+
+  /** Whether anyone is following the project's generation right now */
+  static hasSubscribers(projectId: string): boolean {
+    return (this.channels.get(projectId)?.listeners.size ?? 0) > 0
+  }
+
+  static clear(projectId: string): void {
+    this.channels.delete(projectId)
+  }
+
+  private static getChannel(projectId: string): StreamChannel {
+    let channel = this.channels.get(projectId)
+    if (!channel) {
+      channel = { events: [], listeners: new Set() }
+      this.channels.set(projectId, channel)
+    }
+    return channel
+  }
+}
+
+export function isTerminalStreamEvent(event: BlueprintStreamEvent): boolean {
+  return event.type === 'blueprint-completed' || event.type === 'generation-failed'
+}
+
+/**
+ * Serializes an event in the text/event-stream wire format.
+ */
+export function formatServerSentEvent(event: BlueprintStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+}
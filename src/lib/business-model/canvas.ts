@@ -0,0 +1,196 @@
+import {
+  BusinessModelCanvas,
+  ComprehensiveProductPlan,
+  CostStructureItem,
+  FinancialModel,
+  MonetizationStrategy,
+  Priority,
+  ProductPlan,
+  RevenueStreamItem,
+  ValueProposition
+} from '@/types'
+
+/** The seven list blocks of the canvas, with their labels */
+export const CANVAS_LIST_BLOCKS = {
+  keyPartners: 'Key Partners',
+  keyActivities: 'Key Activities',
+  keyResources: 'Key Resources',
+  valuePropositions: 'Value Propositions',
+  customerRelationships: 'Customer Relationships',
+  channels: 'Channels',
+  customerSegments: 'Customer Segments'
+} as const
+
+export type CanvasListBlock = keyof typeof CANVAS_LIST_BLOCKS
+
+export interface BusinessModel {
+  canvas: BusinessModelCanvas
+  valueProposition: ValueProposition
+  /** Whether the canvas was edited and saved rather than derived */
+  edited: boolean
+}
+
+/** How customers are looked after under each monetization model */
+const RELATIONSHIPS: Record<MonetizationStrategy['primary']['model'], string[]> = {
+  subscription: ['Self-service onboarding', 'Ongoing account support to keep subscribers renewing'],
+  'one-time': ['Self-service purchase', 'Support and updates after the sale'],
+  freemium: ['Self-service sign-up', 'In-product prompts to upgrade free users'],
+  marketplace: ['Community of buyers and sellers', 'Trust and dispute resolution'],
+  advertising: ['Community and content that keep users coming back']
+}
+
+const ACTIVITY_PRIORITIES = [Priority.CRITICAL, Priority.HIGH]
+
+const MAX_ACTIVITIES = 5
+
+/**
+ * Builds the nine-block canvas from the product plan and financial model.
+ * Segments, value propositions, channels and revenue streams come from the
+ * audience, differentiators, GTM plan and pricing; cost structure and key
+ * resources from the cost breakdown. Cost amounts are monthly.
+ */
+export function deriveBusinessModelCanvas(productPlan?: ProductPlan, financialModel?: FinancialModel): BusinessModelCanvas {
+  const audience = productPlan?.targetAudience
+  const pricing = productPlan?.monetization?.primary?.pricing ?? []
+  const costs = financialModel?.costs
+  const features = productPlan?.coreFeatures ?? []
+
+  const importantFeatures = features.filter(feature => ACTIVITY_PRIORITIES.includes(feature.priority))
+  const model = productPlan?.monetization?.primary?.model
+
+  return {
+    keyPartners: unique([
+      ...(productPlan?.gtmStrategy?.partnerships ?? []),
+      ...(costs?.infrastructure ?? []).map(item => item.service)
+    ]),
+    keyActivities: unique([
+      ...(importantFeatures.length > 0 ? importantFeatures : features).slice(0, MAX_ACTIVITIES).map(feature => `Build ${feature.name}`),
+      ...((productPlan?.gtmStrategy?.marketingChannels ?? []).length > 0 ? ['Customer acquisition'] : [])
+    ]),
+    keyResources: unique([
+      ...(costs?.team ?? []).map(member => member.role),
+      ...(costs?.infrastructure?.length ? ['Hosted platform'] : [])
+    ]),
+    valuePropositions: unique(
+      productPlan?.differentiators?.length ? productPlan.differentiators : features.slice(0, MAX_ACTIVITIES).map(feature => feature.description)
+    ),
+    customerRelationships: model ? RELATIONSHIPS[model] ?? [] : [],
+    channels: unique([
+      ...(productPlan?.gtmStrategy?.marketingChannels ?? []).map(channel => channel.name),
+      ...(costs?.marketing ?? []).map(item => item.channel)
+    ]),
+    customerSegments: unique([
+      audience?.primary?.demographics,
+      audience?.secondary?.demographics,
+      ...pricing.map(tier => tier.targetSegment)
+    ]),
+    costStructure: costStructure(financialModel),
+    revenueStreams: revenueStreams(productPlan, financialModel)
+  }
+}
+
+/** Writes the value proposition for the primary audience from the product plan */
+export function deriveValueProposition(productPlan?: ProductPlan): ValueProposition {
+  const primary = productPlan?.targetAudience?.primary
+  const differentiators = productPlan?.differentiators ?? []
+  const features = productPlan?.coreFeatures ?? []
+
+  return {
+    headline: differentiators[0] ?? features[0]?.description ?? '',
+    subheadline: primary?.painPoints?.length
+      ? `For ${lowerFirst(primary.demographics)} tired of ${lowerFirst(primary.painPoints[0]).replace(/\.$/, '')}`
+      : primary?.demographics ? `Built for ${lowerFirst(primary.demographics)}` : '',
+    benefits: primary?.goals ?? [],
+    features: features.map(feature => feature.name),
+    proof: differentiators.slice(1),
+    targetSegment: primary?.demographics ?? ''
+  }
+}
+
+/**
+ * The canvas and value proposition saved on the product plan, or derived
+ * ones when the user has not edited them yet.
+ */
+export function businessModelOf(productPlan?: ProductPlan, financialModel?: FinancialModel): BusinessModel {
+  const saved = productPlan as ComprehensiveProductPlan | undefined
+
+  return {
+    canvas: saved?.businessModelCanvas ?? deriveBusinessModelCanvas(productPlan, financialModel),
+    valueProposition: saved?.valueProposition ?? deriveValueProposition(productPlan),
+    edited: !!saved?.businessModelCanvas
+  }
+}
+
+function costStructure(financialModel?: FinancialModel): CostStructureItem[] {
+  const costs = financialModel?.costs
+
+  return [
+    ...(costs?.team ?? []).map((member): CostStructureItem => ({
+      category: 'Team',
+      description: member.role,
+      amount: member.salary + member.benefits,
+      type: 'fixed'
+    })),
+    // Infrastructure with a scaling curve grows with usage
+    ...(costs?.infrastructure ?? []).map((item): CostStructureItem => ({
+      category: 'Infrastructure',
+      description: item.service,
+      amount: item.cost,
+      type: item.scaling?.length ? 'variable' : 'fixed'
+    })),
+    ...(costs?.tools ?? []).map((tool): CostStructureItem => ({
+      category: 'Tools',
+      description: tool.name,
+      amount: tool.interval === 'monthly' ? tool.cost : Math.round(tool.cost / 12),
+      type: 'fixed'
+    })),
+    ...(costs?.marketing ?? []).map((item): CostStructureItem => ({
+      category: 'Marketing',
+      description: item.channel,
+      amount: item.budget,
+      type: 'variable'
+    }))
+  ]
+}
+
+/**
+ * One stream per paid pricing tier, with the customers at the end of the
+ * projection split evenly across them. Without pricing, a single stream
+ * priced at the projected revenue per customer.
+ */
+function revenueStreams(productPlan?: ProductPlan, financialModel?: FinancialModel): RevenueStreamItem[] {
+  const monetization = productPlan?.monetization?.primary
+  const projections = financialModel?.revenue?.projections ?? []
+  const last = projections[projections.length - 1]
+  const customers = last?.users ?? 0
+  const paid = (monetization?.pricing ?? []).filter(tier => tier.price > 0)
+
+  if (paid.length > 0) {
+    return paid.map(tier => ({
+      name: tier.name,
+      description: tier.targetSegment ?? '',
+      model: monetization?.model ?? '',
+      pricing: tier.price,
+      volume: Math.round(customers / paid.length),
+      frequency: tier.interval
+    }))
+  }
+
+  if (!last || customers === 0) return []
+  return [{
+    name: financialModel?.revenue?.model ?? 'Revenue',
+    description: monetization?.reasoning ?? '',
+    model: monetization?.model ?? financialModel?.revenue?.model ?? '',
+    pricing: Math.round(last.revenue / customers * 100) / 100,
+    volume: customers,
+    frequency: 'monthly'
+  }]
+}
+
+function unique(items: (string | undefined)[]): string[] {
+  return [...new Set(items.map(item => item?.trim()).filter((item): item is string => !!item))]
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1)
+}
@@ -341,6 +341,15 @@ export const cacheUtils = {
     }
   },
 
+  async getRateLimitCount(identifier: string) {
+    const key: CacheKey = {
+      prefix: CACHE_PREFIXES.RATE_LIMIT,
+      key: identifier,
+    }
+
+    return await cacheManager.get<number>(key) || 0
+  },
+
   // Cache invalidation utilities
   async invalidateUserCache(userId: string) {
     return cacheManager.invalidatePattern(`*:${userId}:*`)
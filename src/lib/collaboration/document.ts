@@ -0,0 +1,258 @@
+import { IDENTITY_KEYS } from '@/lib/versioning/diff'
+
+/**
+ * Lamport clock of an operation. Ties between clients are broken by client
+ * id, so every replica puts operations in the same order.
+ */
+export interface Clock {
+  counter: number
+  clientId: string
+}
+
+/**
+ * A step into a blueprint: an object key, or a list item named by one of its
+ * identity fields, e.g. `{ id: 'node-1' }` or `{ name: 'React' }`.
+ */
+export type PathSegment = string | Record<string, string>
+export type FieldPath = PathSegment[]
+
+/** Sets one field of a blueprint, or removes it when `value` is undefined */
+export interface FieldOperation {
+  path: FieldPath
+  value?: unknown
+  clock: Clock
+}
+
+/** An edit before it is given a clock */
+export type FieldChange = Omit<FieldOperation, 'clock'>
+
+type Json = Record<string, unknown>
+
+export function compareClocks(a: Clock, b: Clock): number {
+  if (a.counter !== b.counter) return a.counter - b.counter
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0
+}
+
+/** Writes a path like a `diffBlueprints` path, e.g. `aiWorkflow.nodes[node-1].position` */
+export function formatPath(path: FieldPath): string {
+  return path.reduce<string>((text, segment) => typeof segment === 'string'
+    ? (text ? `${text}.${segment}` : segment)
+    : `${text}[${Object.values(segment)[0]}]`, '')
+}
+
+/**
+ * A blueprint edited by several people at once. Every edit is an operation
+ * on one field, and the document is its starting blueprint with every
+ * operation applied in clock order, so replicas that have seen the same
+ * operations hold the same blueprint whatever order they arrived in.
+ *
+ * A field keeps the last value written to it. Writing a field replaces
+ * older writes inside it, but not newer ones, so one person changing a
+ * node's label and another moving it both take effect. An edit inside a
+ * list item that someone else removed is dropped.
+ */
+export class CollaborativeDocument {
+  private readonly base: Json
+  private value: Json
+  private registers = new Map<string, FieldOperation>()
+  private latest: Clock | null = null
+  private counter = 0
+
+  constructor(base: object, operations: FieldOperation[] = []) {
+    this.base = clone(base) as Json
+    this.value = clone(base) as Json
+    operations.forEach(operation => this.apply(operation))
+  }
+
+  get blueprint(): Json {
+    return this.value
+  }
+
+  /** The starting blueprint, which with `operations` brings another replica up to date */
+  get initial(): Json {
+    return this.base
+  }
+
+  /** The operations still in effect, in clock order */
+  get operations(): FieldOperation[] {
+    return [...this.registers.values()].sort((a, b) => compareClocks(a.clock, b.clock))
+  }
+
+  /** Applies an operation from any replica. Returns false if newer writes already cover it. */
+  apply(operation: FieldOperation): boolean {
+    this.counter = Math.max(this.counter, operation.clock.counter)
+
+    for (const register of this.registers.values()) {
+      if (isWithin(operation.path, register.path) && compareClocks(register.clock, operation.clock) >= 0) {
+        return false
+      }
+    }
+
+    // Older writes inside this field are overwritten by it
+    for (const [key, register] of this.registers) {
+      if (isWithin(register.path, operation.path) && compareClocks(register.clock, operation.clock) < 0) {
+        this.registers.delete(key)
+      }
+    }
+    this.registers.set(pathKey(operation.path), operation)
+
+    if (!this.latest || compareClocks(operation.clock, this.latest) > 0) {
+      this.value = setAtPath(this.value, operation.path, operation.value) as Json
+      this.latest = operation.clock
+    } else {
+      // Arrived late: replay everything in order
+      this.value = this.operations.reduce<Json>(
+        (value, register) => setAtPath(value, register.path, register.value) as Json,
+        clone(this.base) as Json
+      )
+    }
+    return true
+  }
+
+  /** A copy to try operations on without changing this one */
+  fork(): CollaborativeDocument {
+    return new CollaborativeDocument(this.base, this.operations)
+  }
+
+  /** Makes edits as `clientId`, and returns the operations to send to other replicas */
+  change(changes: FieldChange[], clientId: string): FieldOperation[] {
+    return changes.map(change => {
+      const operation = { ...change, clock: { counter: this.counter + 1, clientId } }
+      this.apply(operation)
+      return operation
+    })
+  }
+
+  /**
+   * Replaces the value at `path`, as operations on only the fields that
+   * differ. Given the value an edit started from, only the fields changed
+   * since then are written, keeping what others changed in the meantime.
+   */
+  update(path: FieldPath, value: unknown, clientId: string, base?: unknown): FieldOperation[] {
+    return this.change(diffFields(base === undefined ? getAtPath(this.value, path) : base, value, path), clientId)
+  }
+}
+
+/**
+ * The field edits that turn `before` into `after`. Objects are compared key
+ * by key, and lists of named items item by item while their order is
+ * unchanged; anything else is replaced whole.
+ */
+export function diffFields(before: unknown, after: unknown, path: FieldPath = []): FieldChange[] {
+  if (isEqual(before, after)) return []
+
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    return keys.flatMap(key => after[key] === undefined
+      ? (before[key] === undefined ? [] : [{ path: [...path, key] }])
+      : diffFields(before[key], after[key], [...path, key]))
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const key = listIdentity(before, after)
+    if (key) {
+      const nameOf = (item: unknown) => String((item as Json)[key])
+      const beforeNames = before.map(nameOf)
+      const afterNames = after.map(nameOf)
+      const kept = afterNames.filter(name => beforeNames.includes(name))
+
+      if (isEqual(kept, beforeNames.filter(name => afterNames.includes(name)))) {
+        const beforeByName = new Map(before.map(item => [nameOf(item), item]))
+        return [
+          ...beforeNames.filter(name => !afterNames.includes(name)).map(name => ({ path: [...path, { [key]: name }] })),
+          ...after.flatMap(item => beforeByName.has(nameOf(item))
+            ? diffFields(beforeByName.get(nameOf(item)), item, [...path, { [key]: nameOf(item) }])
+            : [{ path: [...path, { [key]: nameOf(item) }], value: item }])
+        ]
+      }
+    }
+  }
+
+  return [{ path, value: after }]
+}
+
+/** Returns `target` with `changes` made to it, e.g. to replay one edit over a value others have changed since */
+export function applyChanges<T>(target: T, changes: FieldChange[]): T {
+  return changes.reduce<unknown>((value, change) => setAtPath(value, change.path, change.value), target) as T
+}
+
+export function getAtPath(target: unknown, path: FieldPath): unknown {
+  return path.reduce<unknown>((value, segment) => {
+    if (typeof segment === 'string') return isObject(value) ? value[segment] : undefined
+    return Array.isArray(value) ? value.find(item => matches(item, segment)) : undefined
+  }, target)
+}
+
+/** Returns `target` with the value at `path` replaced, copying only what changed */
+function setAtPath(target: unknown, path: FieldPath, value: unknown): unknown {
+  if (path.length === 0) return clone(value)
+  const [segment, ...rest] = path
+
+  if (typeof segment === 'string') {
+    const object: Json = isObject(target) ? target : {}
+    if (rest.length === 0) {
+      const copy = { ...object }
+      if (value === undefined) delete copy[segment]
+      else copy[segment] = clone(value)
+      return copy
+    }
+    if (typeof rest[0] !== 'string' && !Array.isArray(object[segment])) return target
+    return { ...object, [segment]: setAtPath(object[segment], rest, value) }
+  }
+
+  if (!Array.isArray(target)) return target
+  const index = target.findIndex(item => matches(item, segment))
+
+  if (rest.length === 0) {
+    if (value === undefined) return index < 0 ? target : target.filter((_, i) => i !== index)
+    return index < 0 ? [...target, clone(value)] : target.map((item, i) => i === index ? clone(value) : item)
+  }
+  if (index < 0) return target
+  return target.map((item, i) => i === index ? setAtPath(item, rest, value) : item)
+}
+
+/** Whether `path` is `ancestor` or lies inside it */
+export function isWithin(path: FieldPath, ancestor: FieldPath): boolean {
+  return ancestor.length <= path.length &&
+    ancestor.every((segment, i) => pathKey([segment]) === pathKey([path[i]]))
+}
+
+function pathKey(path: FieldPath): string {
+  return JSON.stringify(path)
+}
+
+function matches(item: unknown, segment: Record<string, string>): boolean {
+  const [key, name] = Object.entries(segment)[0] ?? []
+  return isObject(item) && key !== undefined && String(item[key]) === name
+}
+
+/** The identity field every item in both lists has, without repeats */
+function listIdentity(before: unknown[], after: unknown[]): string | undefined {
+  return IDENTITY_KEYS.find(key => [before, after].every(items => {
+    const names = items.map(item => isObject(item) ? item[key] : undefined)
+    return names.every(name => typeof name === 'string' || typeof name === 'number') && new Set(names).size === names.length
+  }))
+}
+
+/** Values are copied as JSON, as they travel between replicas */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
+
+/** Deep equality of JSON values, ignoring key order, which the database does not keep */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]))
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a).filter(key => a[key] !== undefined)
+    return keys.length === Object.keys(b).filter(key => b[key] !== undefined).length &&
+      keys.every(key => isEqual(a[key], b[key]))
+  }
+  return false
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
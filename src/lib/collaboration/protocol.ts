@@ -0,0 +1,68 @@
+import { z } from 'zod'
+import { IDENTITY_KEYS } from '@/lib/versioning/diff'
+import type { ProjectRole } from '@/lib/access/roles'
+import type { FieldOperation } from './document'
+
+/** Someone connected to a project, and where in it they are */
+export interface Presence {
+  clientId: string
+  userId: string
+  name: string
+  color: string
+  role: ProjectRole
+  /** Blueprint section on screen */
+  section?: string
+  /** Field being edited, written with `formatPath` */
+  path?: string
+}
+
+export type ServerMessage =
+  | { type: 'welcome'; initial: object; operations: FieldOperation[]; peers: Presence[]; role: ProjectRole }
+  | { type: 'operations'; operations: FieldOperation[] }
+  | { type: 'ack'; through: number }
+  | { type: 'presence'; peers: Presence[] }
+  // The user's role changed during the session
+  | { type: 'role'; role: ProjectRole }
+  | { type: 'error'; error: string }
+
+const PathSegmentSchema = z.union([
+  z.string().min(1).max(200),
+  z.record(z.string().max(200)).refine(
+    segment => Object.keys(segment).length === 1 && IDENTITY_KEYS.includes(Object.keys(segment)[0]),
+    'A list item is named by one of its identity fields'
+  )
+])
+
+export const FieldOperationSchema = z.object({
+  path: z.array(PathSegmentSchema).min(1).max(32),
+  value: z.unknown().optional(),
+  clock: z.object({
+    counter: z.number().int().nonnegative(),
+    clientId: z.string().min(1).max(64)
+  })
+})
+
+export const ClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('operations'), operations: z.array(FieldOperationSchema).min(1).max(500) }),
+  z.object({
+    type: z.literal('presence'),
+    section: z.string().max(50).optional(),
+    path: z.string().max(500).optional()
+  }),
+  // Asks the server to pick up blueprint changes saved outside the session
+  z.object({ type: z.literal('sync') })
+])
+
+export type ClientMessage = z.infer<typeof ClientMessageSchema>
+
+/** Client ids are chosen by the client, and kept across reconnects */
+export const CLIENT_ID_PATTERN = /^[\w-]{1,64}$/
+
+const PRESENCE_COLORS = ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316']
+
+/** A color per user, the same on every screen */
+export function presenceColor(userId: string): string {
+  let hash = 0
+  for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+  return PRESENCE_COLORS[hash % PRESENCE_COLORS.length]
+}
@@ -0,0 +1,56 @@
+import { z } from 'zod'
+import { ReportNarrativeSchema } from '@/lib/investor-report/builder'
+import {
+  AIWorkflowSchema,
+  BusinessModelCanvasSchema,
+  BusinessValuationSchema,
+  CompetitorDataSchema,
+  ComprehensiveFinancialModelSchema,
+  RoadmapSchema,
+  UserPersonaSchema,
+  ValuePropositionSchema
+} from '@/types/validation'
+import { FieldOperation, FieldPath, formatPath, getAtPath, isWithin } from './document'
+
+interface LiveSection {
+  path: FieldPath
+  schema: z.ZodTypeAny
+}
+
+/**
+ * The parts of a blueprint that are edited live, with the schema each is
+ * held to, the same as their REST edit routes where they have one.
+ */
+export const LIVE_SECTIONS: LiveSection[] = [
+  { path: ['productPlan', 'userPersonas'], schema: z.array(UserPersonaSchema).max(10) },
+  { path: ['productPlan', 'competitorData'], schema: z.array(CompetitorDataSchema).max(50) },
+  { path: ['productPlan', 'businessModelCanvas'], schema: BusinessModelCanvasSchema },
+  { path: ['productPlan', 'valueProposition'], schema: ValuePropositionSchema },
+  { path: ['aiWorkflow'], schema: AIWorkflowSchema },
+  { path: ['roadmap'], schema: RoadmapSchema },
+  { path: ['financialModel', 'valuation'], schema: BusinessValuationSchema },
+  { path: ['financialModel', 'funding'], schema: ComprehensiveFinancialModelSchema.shape.funding },
+  { path: ['reportNarrative'], schema: ReportNarrativeSchema }
+]
+
+/**
+ * Why edits are refused, given the blueprint they leave: an edit outside
+ * the live sections, or a section left in a shape the app cannot read.
+ * Null when they are fine. Sections may be removed.
+ */
+export function checkLiveEdits(operations: FieldOperation[], blueprint: object): string | null {
+  const touched = new Set<LiveSection>()
+
+  for (const operation of operations) {
+    const section = LIVE_SECTIONS.find(section => isWithin(operation.path, section.path))
+    if (!section) return `${formatPath(operation.path)} cannot be edited live`
+    touched.add(section)
+  }
+
+  for (const section of touched) {
+    if (!section.schema.optional().safeParse(getAtPath(blueprint, section.path)).success) {
+      return `Invalid ${formatPath(section.path)}`
+    }
+  }
+  return null
+}
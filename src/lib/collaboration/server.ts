@@ -0,0 +1,345 @@
+import { createServer, Server } from 'http'
+import { hasRole, ProjectRole } from '@/lib/access/roles'
+import { CollaborativeDocument, diffFields, FieldOperation, isEqual } from './document'
+import { CLIENT_ID_PATTERN, ClientMessage, ClientMessageSchema, Presence, presenceColor, ServerMessage } from './protocol'
+import { checkLiveEdits } from './sections'
+import { CollaborationTicket, verifyCollaborationTicket } from './tickets'
+import { acceptWebSocket, WebSocketConnection } from './websocket'
+
+/** Where sessions load blueprints from and save them to, and learn who may still edit them */
+export interface CollaborationStore {
+  load(projectId: string): Promise<object | null>
+  /** `userIds` are everyone who edited since the last save */
+  save(projectId: string, blueprint: object, userIds: string[]): Promise<void>
+  /** The user's current role on the project, or null once they have lost access */
+  roleOf(projectId: string, userId: string): Promise<ProjectRole | null>
+}
+
+export interface CollaborationServerOptions {
+  /** Secret tickets are signed with */
+  secret: string
+  store: CollaborationStore
+  /** How long after the last edit the blueprint is saved, in milliseconds */
+  saveDelayMs?: number
+  /** Longest time edits go unsaved while editing continues, in milliseconds */
+  maxSaveDelayMs?: number
+  /** How often participants' roles are checked again, in milliseconds */
+  roleCheckMs?: number
+}
+
+/** Client id used for changes the server picks up from saved blueprints */
+const SERVER_CLIENT_ID = 'server'
+
+interface Participant {
+  connection: WebSocketConnection
+  presence: Presence
+}
+
+/**
+ * Everyone editing one project. The room holds the live blueprint, relays
+ * each edit to the others and saves the result a moment after editing
+ * stops, so a session makes one version rather than one per keystroke.
+ */
+class CollaborationRoom {
+  private participants = new Map<string, Participant>()
+  private editors = new Set<string>()
+  private saveTimer: NodeJS.Timeout | null = null
+  private roleTimer: NodeJS.Timeout | null = null
+  private firstUnsavedEdit: number | null = null
+  private work: Promise<void> = Promise.resolve()
+
+  constructor(
+    readonly projectId: string,
+    private document: CollaborativeDocument,
+    /** The blueprint as last loaded or saved, to tell changes made outside the session */
+    private stored: object,
+    private readonly options: Required<Omit<CollaborationServerOptions, 'secret'>>,
+    private readonly onEmpty: () => void
+  ) {}
+
+  join(connection: WebSocketConnection, clientId: string, ticket: CollaborationTicket) {
+    // A reconnecting client replaces its old connection
+    this.participants.get(clientId)?.connection.close(4000, 'Connected again')
+
+    const presence: Presence = {
+      clientId,
+      userId: ticket.userId,
+      name: ticket.name,
+      color: presenceColor(ticket.userId),
+      role: ticket.role
+    }
+    this.participants.set(clientId, { connection, presence })
+    // Tickets vouch for the role when issued, so it is checked again while the session lasts
+    this.roleTimer ??= setInterval(() => this.checkRoles(), this.options.roleCheckMs)
+
+    this.welcome(connection, ticket.role)
+    this.broadcastPresence()
+
+    connection.on('message', (text: string) => this.receive(clientId, connection, text))
+    connection.on('close', () => this.leave(clientId, connection))
+  }
+
+  private receive(clientId: string, connection: WebSocketConnection, text: string) {
+    const participant = this.participants.get(clientId)
+    if (!participant || participant.connection !== connection) return
+
+    let message: ClientMessage
+    try {
+      message = ClientMessageSchema.parse(JSON.parse(text))
+    } catch {
+      send(connection, { type: 'error', error: 'Invalid message' })
+      return
+    }
+
+    switch (message.type) {
+      case 'operations':
+        this.edit(participant, message.operations)
+        break
+      case 'presence':
+        participant.presence = { ...participant.presence, section: message.section, path: message.path }
+        this.broadcastPresence()
+        break
+      case 'sync':
+        this.queue(() => this.pickUpStoredChanges())
+        break
+    }
+  }
+
+  private edit(participant: Participant, operations: FieldOperation[]) {
+    const { connection, presence } = participant
+
+    if (!hasRole(presence.role, 'editor')) {
+      send(connection, { type: 'error', error: 'Viewers cannot edit this project' })
+      return
+    }
+    if (operations.some(operation => operation.clock.clientId !== presence.clientId)) {
+      send(connection, { type: 'error', error: 'Operations must carry your client id' })
+      return
+    }
+
+    // Edits are tried on a copy, so ones that would leave a section the app cannot read are refused whole
+    const edited = this.document.fork()
+    const applied = operations.filter(operation => edited.apply(operation))
+    send(connection, { type: 'ack', through: Math.max(...operations.map(operation => operation.clock.counter)) })
+
+    const refusal = checkLiveEdits(operations, edited.blueprint)
+    if (refusal) {
+      // Starting the client over from the session drops the refused edits it has applied
+      this.welcome(connection, presence.role)
+      send(connection, { type: 'error', error: refusal })
+      return
+    }
+
+    this.document = edited
+    if (applied.length > 0) {
+      this.broadcast({ type: 'operations', operations: applied }, presence.clientId)
+      this.editors.add(presence.userId)
+      this.scheduleSave()
+    }
+  }
+
+  private leave(clientId: string, connection: WebSocketConnection) {
+    // A replaced connection closing does not remove its successor
+    if (this.participants.get(clientId)?.connection !== connection) return
+
+    this.participants.delete(clientId)
+    this.broadcastPresence()
+
+    if (this.participants.size === 0) {
+      if (this.roleTimer) clearInterval(this.roleTimer)
+      this.roleTimer = null
+      this.flush().finally(() => {
+        if (this.participants.size === 0) this.onEmpty()
+      })
+    }
+  }
+
+  /**
+   * Looks up everyone's role again. Those who lost access are disconnected,
+   * and those whose role changed are told, so a demoted editor stops editing.
+   */
+  private async checkRoles() {
+    const participants = [...this.participants.values()]
+    const userIds = [...new Set(participants.map(participant => participant.presence.userId))]
+
+    let roles: Map<string, ProjectRole | null>
+    try {
+      const found = await Promise.all(userIds.map(userId => this.options.store.roleOf(this.projectId, userId)))
+      roles = new Map(userIds.map((userId, i) => [userId, found[i]]))
+    } catch (error) {
+      console.error(`Collaboration room ${this.projectId} failed to check roles:`, error)
+      return
+    }
+
+    let changed = false
+    for (const participant of participants) {
+      // Left or reconnected while roles were looked up
+      if (this.participants.get(participant.presence.clientId) !== participant) continue
+
+      const role = roles.get(participant.presence.userId)
+      if (!role) {
+        participant.connection.close(4003, 'No longer a member of this project')
+      } else if (role !== participant.presence.role) {
+        participant.presence = { ...participant.presence, role }
+        send(participant.connection, { type: 'role', role })
+        changed = true
+      }
+    }
+    if (changed) this.broadcastPresence()
+  }
+
+  /** Saves now, without waiting for editing to stop */
+  flush(): Promise<void> {
+    if (this.saveTimer) clearTimeout(this.saveTimer)
+    this.saveTimer = null
+    return this.queue(() => this.save())
+  }
+
+  private scheduleSave() {
+    const now = Date.now()
+    this.firstUnsavedEdit ??= now
+    if (this.saveTimer) clearTimeout(this.saveTimer)
+
+    const maxWait = this.firstUnsavedEdit + this.options.maxSaveDelayMs - now
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null
+      this.queue(() => this.save())
+    }, Math.max(0, Math.min(this.options.saveDelayMs, maxWait)))
+  }
+
+  private async save() {
+    this.firstUnsavedEdit = null
+    await this.pickUpStoredChanges()
+
+    const blueprint = this.document.blueprint
+    if (isEqual(blueprint, this.stored)) return
+
+    const editors = [...this.editors]
+    await this.options.store.save(this.projectId, blueprint, editors)
+    this.stored = blueprint
+    editors.forEach(userId => this.editors.delete(userId))
+  }
+
+  /**
+   * Merges changes saved outside the session, e.g. by regenerating a
+   * section, as edits made now, so saving the session does not undo them.
+   */
+  private async pickUpStoredChanges() {
+    const current = await this.options.store.load(this.projectId)
+    if (!current || isEqual(current, this.stored)) return
+
+    const changes = diffFields(this.stored, current)
+    this.stored = current
+    const operations = this.document.change(changes, SERVER_CLIENT_ID)
+    if (operations.length > 0) this.broadcast({ type: 'operations', operations })
+  }
+
+  /** Runs saves and reloads one at a time, logging failures */
+  private queue(task: () => Promise<void>): Promise<void> {
+    this.work = this.work.then(task).catch(error => {
+      console.error(`Collaboration room ${this.projectId} failed to save:`, error)
+    })
+    return this.work
+  }
+
+  private welcome(connection: WebSocketConnection, role: ProjectRole) {
+    send(connection, {
+      type: 'welcome',
+      initial: this.document.initial,
+      operations: this.document.operations,
+      peers: this.peers(),
+      role
+    })
+  }
+
+  private peers(): Presence[] {
+    return [...this.participants.values()].map(participant => participant.presence)
+  }
+
+  private broadcastPresence() {
+    this.broadcast({ type: 'presence', peers: this.peers() })
+  }
+
+  private broadcast(message: ServerMessage, exceptClientId?: string) {
+    const text = JSON.stringify(message)
+    this.participants.forEach((participant, clientId) => {
+      if (clientId !== exceptClientId) participant.connection.send(text)
+    })
+  }
+}
+
+function send(connection: WebSocketConnection, message: ServerMessage) {
+  connection.send(JSON.stringify(message))
+}
+
+/**
+ * Creates the collaboration server. Clients connect with a WebSocket to
+ * `/?ticket=...&clientId=...`, the ticket coming from
+ * `POST /api/projects/[id]/collaboration`.
+ */
+export function createCollaborationServer(options: CollaborationServerOptions): Server & { flush(): Promise<void> } {
+  const settings = {
+    store: options.store,
+    saveDelayMs: options.saveDelayMs ?? 3000,
+    maxSaveDelayMs: options.maxSaveDelayMs ?? 30000,
+    roleCheckMs: options.roleCheckMs ?? 10000
+  }
+  const rooms = new Map<string, Promise<CollaborationRoom | null>>()
+
+  const openRoom = (projectId: string) => {
+    if (!rooms.has(projectId)) {
+      rooms.set(projectId, settings.store.load(projectId).then(blueprint => {
+        if (!blueprint) {
+          rooms.delete(projectId)
+          return null
+        }
+        return new CollaborationRoom(
+          projectId,
+          new CollaborativeDocument(blueprint),
+          blueprint,
+          settings,
+          () => rooms.delete(projectId)
+        )
+      }))
+    }
+    return rooms.get(projectId)!
+  }
+
+  const server = createServer((request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' })
+    response.end('Connect with a WebSocket')
+  })
+
+  server.on('upgrade', async (request, socket, head) => {
+    const url = new URL(request.url || '/', 'http://localhost')
+    const ticket = verifyCollaborationTicket(url.searchParams.get('ticket') || '', options.secret)
+    const clientId = url.searchParams.get('clientId') || ''
+
+    if (!ticket || !CLIENT_ID_PATTERN.test(clientId) || clientId === SERVER_CLIENT_ID) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n')
+      return
+    }
+
+    try {
+      const room = await openRoom(ticket.projectId)
+      if (!room) {
+        socket.end('HTTP/1.1 404 Not Found\r\n\r\n')
+        return
+      }
+
+      const connection = acceptWebSocket(request, socket, head)
+      if (connection) room.join(connection, clientId, ticket)
+    } catch (error) {
+      console.error('Error opening collaboration room:', error)
+      socket.end('HTTP/1.1 500 Internal Server Error\r\n\r\n')
+    }
+  })
+
+  return Object.assign(server, {
+    /** Saves every open room, e.g. before shutting down */
+    async flush() {
+      const open = await Promise.all(rooms.values())
+      await Promise.all(open.map(room => room?.flush()))
+    }
+  })
+}
@@ -0,0 +1,29 @@
+import { authorizeProject } from '@/lib/access/project-access'
+import { prisma } from '@/lib/prisma'
+import { saveBlueprint } from '@/lib/versioning/versions'
+import type { CollaborationStore } from './server'
+
+/** Keeps session blueprints on their projects, each save making a version, and checks roles as the app does */
+export const projectCollaborationStore: CollaborationStore = {
+  async load(projectId) {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { blueprint: true }
+    })
+    return project?.blueprint ?? null
+  },
+
+  async save(projectId, blueprint, userIds) {
+    await saveBlueprint(projectId, blueprint, {
+      source: 'edit',
+      // Credited to the editor when there was one; a shared session names no one
+      userId: userIds.length === 1 ? userIds[0] : undefined,
+      summary: userIds.length > 1 ? `Edited together by ${userIds.length} people` : 'Edited live'
+    })
+  },
+
+  async roleOf(projectId, userId) {
+    const access = await authorizeProject(projectId, userId)
+    return access.allowed ? access.role : null
+  }
+}
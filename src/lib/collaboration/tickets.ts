@@ -0,0 +1,54 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { isProjectRole, ProjectRole } from '@/lib/access/roles'
+
+/** How long a ticket can be used to connect, in seconds */
+export const TICKET_TTL_SECONDS = 60
+
+/** Who may join a project's session, as vouched for by the app */
+export interface CollaborationTicket {
+  projectId: string
+  userId: string
+  name: string
+  role: ProjectRole
+  expiresAt: number
+}
+
+/**
+ * Signs a ticket for the collaboration server. The server runs apart from
+ * the app and has no session of its own, so the app checks access and the
+ * server trusts tickets signed with the shared secret.
+ */
+export function signCollaborationTicket(
+  ticket: Omit<CollaborationTicket, 'expiresAt'>,
+  secret: string,
+  now: number = Date.now()
+): string {
+  const payload = Buffer.from(JSON.stringify({ ...ticket, expiresAt: now + TICKET_TTL_SECONDS * 1000 })).toString('base64url')
+  return `${payload}.${sign(payload, secret)}`
+}
+
+/** The ticket, if it was signed with `secret` and has not expired */
+export function verifyCollaborationTicket(
+  token: string,
+  secret: string,
+  now: number = Date.now()
+): CollaborationTicket | null {
+  const [payload, signature] = token.split('.')
+  if (!payload || !signature) return null
+
+  const expected = Buffer.from(sign(payload, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  try {
+    const ticket = JSON.parse(Buffer.from(payload, 'base64url').toString())
+    if (typeof ticket.expiresAt !== 'number' || ticket.expiresAt <= now || !isProjectRole(ticket.role)) return null
+    return ticket
+  } catch {
+    return null
+  }
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
@@ -0,0 +1,220 @@
+import { createHash } from 'crypto'
+import { EventEmitter } from 'events'
+import { IncomingMessage } from 'http'
+import { Duplex } from 'stream'
+
+/**
+ * Just enough of the WebSocket protocol (RFC 6455) for the collaboration
+ * server: text messages, ping and close. Browsers speak it natively, so the
+ * app needs no WebSocket library.
+ */
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+/** Largest message accepted, in bytes */
+export const MAX_MESSAGE_BYTES = 1024 * 1024
+
+export const OPCODES = {
+  continuation: 0x0,
+  text: 0x1,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa
+} as const
+
+export interface Frame {
+  fin: boolean
+  opcode: number
+  masked: boolean
+  payload: Buffer
+}
+
+/** Encodes one frame. Clients must mask what they send; servers must not. */
+export function encodeFrame(opcode: number, payload: Buffer, mask: boolean = false): Buffer {
+  const length = payload.length
+  const header = length < 126 ? 2 : length < 65536 ? 4 : 10
+  const frame = Buffer.alloc(header + (mask ? 4 : 0) + length)
+
+  frame[0] = 0x80 | opcode
+  frame[1] = (mask ? 0x80 : 0) | (length < 126 ? length : length < 65536 ? 126 : 127)
+  if (header === 4) frame.writeUInt16BE(length, 2)
+  if (header === 10) frame.writeBigUInt64BE(BigInt(length), 2)
+
+  if (!mask) {
+    payload.copy(frame, header)
+    return frame
+  }
+
+  const key = Buffer.from([0, 0, 0, 0].map(() => Math.floor(Math.random() * 256)))
+  key.copy(frame, header)
+  for (let i = 0; i < length; i++) frame[header + 4 + i] = payload[i] ^ key[i % 4]
+  return frame
+}
+
+/**
+ * Reads the complete frames at the start of `buffer`, unmasking them, and
+ * returns what is left over. Throws on frames over MAX_MESSAGE_BYTES.
+ */
+export function decodeFrames(buffer: Buffer): { frames: Frame[]; rest: Buffer } {
+  const frames: Frame[] = []
+  let offset = 0
+
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0
+    const opcode = buffer[offset] & 0x0f
+    const masked = (buffer[offset + 1] & 0x80) !== 0
+    let length = buffer[offset + 1] & 0x7f
+    let header = 2
+
+    if (length === 126) {
+      if (buffer.length - offset < 4) break
+      length = buffer.readUInt16BE(offset + 2)
+      header = 4
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break
+      const longLength = buffer.readBigUInt64BE(offset + 2)
+      if (longLength > BigInt(MAX_MESSAGE_BYTES)) throw new Error('Message too large')
+      length = Number(longLength)
+      header = 10
+    }
+    if (length > MAX_MESSAGE_BYTES) throw new Error('Message too large')
+
+    const start = offset + header + (masked ? 4 : 0)
+    if (buffer.length < start + length) break
+
+    const payload = Buffer.from(buffer.subarray(start, start + length))
+    if (masked) {
+      const key = buffer.subarray(offset + header, offset + header + 4)
+      for (let i = 0; i < length; i++) payload[i] ^= key[i % 4]
+    }
+
+    frames.push({ fin, opcode, masked, payload })
+    offset = start + length
+  }
+
+  return { frames, rest: buffer.subarray(offset) }
+}
+
+/**
+ * One open WebSocket. Emits `message` with each text message and `close`
+ * once, however the connection ends.
+ */
+export class WebSocketConnection extends EventEmitter {
+  private buffered: Buffer = Buffer.alloc(0)
+  private fragments: Buffer[] = []
+  private fragmentBytes = 0
+  private closed = false
+
+  constructor(private readonly socket: Duplex) {
+    super()
+    socket.on('data', (data: Buffer) => this.receive(data))
+    // HTTP server sockets allow half-open connections, so a client going away only ends its side
+    socket.on('end', () => this.finish())
+    socket.on('close', () => this.finish())
+    socket.on('error', () => this.finish())
+  }
+
+  get isOpen(): boolean {
+    return !this.closed
+  }
+
+  send(text: string): void {
+    if (this.closed) return
+    this.socket.write(encodeFrame(OPCODES.text, Buffer.from(text)))
+  }
+
+  close(code: number = 1000, reason: string = ''): void {
+    if (this.closed) return
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason))
+    payload.writeUInt16BE(code, 0)
+    payload.write(reason, 2)
+    // Ending rather than destroying the socket lets the close frame through
+    this.socket.end(encodeFrame(OPCODES.close, payload))
+    this.finish(false)
+  }
+
+  private receive(data: Buffer) {
+    let frames: Frame[]
+    try {
+      const decoded = decodeFrames(Buffer.concat([this.buffered, data]))
+      frames = decoded.frames
+      this.buffered = decoded.rest
+    } catch {
+      this.close(1009, 'Message too large')
+      return
+    }
+
+    for (const frame of frames) {
+      if (this.closed) return
+      if (!frame.masked) {
+        this.close(1002, 'Client frames must be masked')
+        return
+      }
+
+      switch (frame.opcode) {
+        case OPCODES.text:
+        case OPCODES.continuation:
+          // The limit covers the whole message, not just each of its frames
+          this.fragmentBytes += frame.payload.length
+          if (this.fragmentBytes > MAX_MESSAGE_BYTES) {
+            this.close(1009, 'Message too large')
+            return
+          }
+          this.fragments.push(frame.payload)
+          if (frame.fin) {
+            const message = Buffer.concat(this.fragments).toString()
+            this.fragments = []
+            this.fragmentBytes = 0
+            this.emit('message', message)
+          }
+          break
+        case OPCODES.ping:
+          this.socket.write(encodeFrame(OPCODES.pong, frame.payload))
+          break
+        case OPCODES.close:
+          this.close()
+          break
+        default:
+          // Binary messages and pongs are not used
+          break
+      }
+    }
+  }
+
+  private finish(destroy: boolean = true) {
+    if (this.closed) return
+    this.closed = true
+    if (destroy) this.socket.destroy()
+    this.emit('close')
+  }
+}
+
+/**
+ * Completes the opening handshake of an HTTP upgrade request, or answers
+ * 400 and returns null if it is not a WebSocket request.
+ */
+export function acceptWebSocket(
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer = Buffer.alloc(0)
+): WebSocketConnection | null {
+  const key = request.headers['sec-websocket-key']
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+    return null
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64')
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'))
+
+  // Frames that arrived with the request are read first
+  if (head.length > 0) socket.unshift(head)
+  return new WebSocketConnection(socket)
+}
@@ -0,0 +1,74 @@
+import { Blueprint } from '@/types'
+import { BlueprintSection } from '@/types/ai-services'
+
+/** A blueprint field a comment thread can be anchored on */
+export interface CommentAnchor {
+  section: BlueprintSection
+  /** Path within the section, written like a `diffBlueprints` path, e.g. `phases[phase-1].tasks[task-2]` */
+  path: string
+  label: string
+  /** What kind of field it is, for grouping in the picker */
+  group: string
+}
+
+const TECH_LAYERS = ['frontend', 'backend', 'database'] as const
+
+/**
+ * Lists the fields of a blueprint that can be commented on: features, tech
+ * choices, roadmap phases and tasks, and cost lines. Items are named by id
+ * where they have one, so a thread stays on its item when the list is
+ * reordered or regenerated.
+ */
+export function listCommentAnchors(blueprint: Partial<Blueprint> | null | undefined): CommentAnchor[] {
+  if (!blueprint) return []
+  const anchors: CommentAnchor[] = []
+
+  const plan = blueprint.productPlan
+  if (plan) {
+    anchors.push({ section: 'productPlan', path: 'targetAudience', label: 'Target audience', group: 'Product plan' })
+    ;(plan.coreFeatures || []).forEach(feature => {
+      anchors.push({ section: 'productPlan', path: `coreFeatures[${feature.id || feature.name}]`, label: feature.name, group: 'Features' })
+    })
+    if (plan.monetization) {
+      anchors.push({ section: 'productPlan', path: 'monetization', label: 'Monetization', group: 'Product plan' })
+    }
+  }
+
+  const techStack = blueprint.techStack
+  if (techStack) {
+    TECH_LAYERS.forEach(layer => {
+      ;(techStack[layer] || []).forEach(choice => {
+        anchors.push({ section: 'techStack', path: `${layer}[${choice.name}]`, label: choice.name, group: `Tech stack: ${layer}` })
+      })
+    })
+  }
+
+  const roadmap = blueprint.roadmap
+  if (roadmap) {
+    ;(roadmap.phases || []).forEach(phase => {
+      const phasePath = `phases[${phase.id || phase.name}]`
+      anchors.push({ section: 'roadmap', path: phasePath, label: phase.name, group: 'Roadmap phases' })
+      ;(phase.tasks || []).forEach(task => {
+        anchors.push({ section: 'roadmap', path: `${phasePath}.tasks[${task.id || task.name}]`, label: `${phase.name}: ${task.name}`, group: 'Roadmap tasks' })
+      })
+    })
+  }
+
+  const costs = blueprint.financialModel?.costs
+  if (costs) {
+    ;(costs.infrastructure || []).forEach(line => {
+      anchors.push({ section: 'financialModel', path: `costs.infrastructure[${line.service}]`, label: line.service, group: 'Costs' })
+    })
+    ;(costs.team || []).forEach((line, index) => {
+      anchors.push({ section: 'financialModel', path: `costs.team[${index}]`, label: line.role, group: 'Costs' })
+    })
+    ;(costs.tools || []).forEach(line => {
+      anchors.push({ section: 'financialModel', path: `costs.tools[${line.name}]`, label: line.name, group: 'Costs' })
+    })
+    ;(costs.marketing || []).forEach((line, index) => {
+      anchors.push({ section: 'financialModel', path: `costs.marketing[${index}]`, label: line.channel, group: 'Costs' })
+    })
+  }
+
+  return anchors
+}
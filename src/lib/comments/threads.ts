@@ -0,0 +1,320 @@
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { notifyUsers, NotificationType } from '@/lib/notifications/notifications'
+
+export const COMMENT_THREAD_STATUSES = ['open', 'resolved'] as const
+export type CommentThreadStatus = typeof COMMENT_THREAD_STATUSES[number]
+
+const CommentBodySchema = z.string().trim().min(1).max(5000)
+
+/** A new thread: where it is anchored and its first comment */
+export const CommentThreadInputSchema = z.object({
+  section: z.enum(['productPlan', 'techStack', 'aiWorkflow', 'roadmap', 'financialModel']),
+  path: z.string().min(1).max(500),
+  label: z.string().min(1).max(200),
+  body: CommentBodySchema
+})
+
+export const CommentReplySchema = z.object({
+  body: CommentBodySchema
+})
+
+export const CommentThreadStatusSchema = z.object({
+  status: z.enum(COMMENT_THREAD_STATUSES)
+})
+
+/** Who is commenting: a signed-in user, a share link viewer, or both */
+export interface CommentAuthor {
+  userId?: string
+  name: string
+  shareLinkId?: string
+}
+
+export interface CommentView {
+  id: string
+  authorId: string | null
+  authorName: string
+  body: string
+  mentions: string[]
+  viaShareLink: boolean
+  createdAt: Date
+}
+
+export interface CommentThreadView {
+  id: string
+  section: string
+  path: string
+  label: string
+  status: CommentThreadStatus
+  resolvedAt: Date | null
+  createdAt: Date
+  comments: CommentView[]
+}
+
+/** What a share link viewer sends along with a comment */
+export const ShareCommentSchema = z.object({
+  password: z.string().optional(),
+  // Needed when the viewer is not signed in
+  authorName: z.string().trim().min(1).max(80).optional()
+})
+
+/**
+ * The author of a comment made through a share link. Signed-in viewers
+ * comment as themselves; others under the name they give, or not at all.
+ */
+export function shareLinkAuthor(
+  shareLinkId: string,
+  user: { id?: string; name?: string | null; email?: string | null } | undefined,
+  authorName?: string
+): CommentAuthor | null {
+  if (user?.id) {
+    return { userId: user.id, name: user.name || user.email || authorName || 'Reviewer', shareLinkId }
+  }
+  return authorName ? { name: authorName, shareLinkId } : null
+}
+
+/** Someone who can be mentioned in a project's comments */
+export interface MentionCandidate {
+  id: string
+  name: string | null
+  email: string
+}
+
+interface StoredComment {
+  id: string
+  authorId: string | null
+  authorName: string
+  shareLinkId: string | null
+  body: string
+  mentions: string[]
+  createdAt: Date
+}
+
+interface StoredThread {
+  id: string
+  section: string
+  path: string
+  label: string
+  status: string
+  resolvedAt: Date | null
+  createdAt: Date
+  comments: StoredComment[]
+}
+
+const MENTION_PATTERN = /(?:^|[^\w@])@([\w][\w.-]*)/g
+
+/** The handles mentioned in a comment, lowercased, e.g. `@jane.doe` gives `jane.doe` */
+export function parseMentions(body: string): string[] {
+  const handles = [...body.matchAll(MENTION_PATTERN)].map(match => match[1].replace(/[.-]+$/, '').toLowerCase())
+  return [...new Set(handles)]
+}
+
+/**
+ * Matches mentioned handles to people on the project. A handle matches the
+ * part of an email before the @, or a name with its spaces removed, so
+ * "Jane Doe <jane@acme.com>" is `@jane` or `@janedoe`.
+ */
+export function resolveMentions(handles: string[], candidates: MentionCandidate[]): string[] {
+  const ids = handles.flatMap(handle => candidates
+    .filter(candidate => mentionHandles(candidate).includes(handle))
+    .map(candidate => candidate.id))
+  return [...new Set(ids)]
+}
+
+function mentionHandles(candidate: MentionCandidate): string[] {
+  const handles = [candidate.email.split('@')[0].toLowerCase()]
+  if (candidate.name) handles.push(candidate.name.replace(/\s+/g, '').toLowerCase())
+  return handles
+}
+
+/** The project's owner, its workspace's members, and everyone signed in who has commented on it */
+export async function mentionCandidates(projectId: string): Promise<MentionCandidate[]> {
+  const person = { select: { id: true, name: true, email: true } }
+  const [project, commenters] = await Promise.all([
+    prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        user: person,
+        organization: { select: { memberships: { select: { user: person } } } }
+      }
+    }),
+    prisma.comment.findMany({
+      where: { thread: { projectId }, authorId: { not: null } },
+      distinct: ['authorId'],
+      select: { author: { select: { id: true, name: true, email: true } } }
+    })
+  ])
+
+  const people: MentionCandidate[] = [
+    ...(project?.user ? [project.user] : []),
+    ...(project?.organization?.memberships ?? []).map((membership: { user: MentionCandidate }) => membership.user),
+    ...commenters.map((comment: { author: MentionCandidate | null }) => comment.author).filter(Boolean)
+  ]
+  return [...new Map(people.map(person => [person.id, person])).values()]
+}
+
+/**
+ * Lists a project's threads, oldest comment first. `allowedSections` limits
+ * them to the sections a share link shares.
+ */
+export async function listCommentThreads(projectId: string, allowedSections?: string[]): Promise<CommentThreadView[]> {
+  const threads: StoredThread[] = await prisma.commentThread.findMany({
+    where: { projectId, ...sectionFilter(allowedSections) },
+    include: { comments: { orderBy: { createdAt: 'asc' } } },
+    orderBy: { createdAt: 'asc' }
+  })
+  return threads.map(toThreadView)
+}
+
+export async function createCommentThread(
+  projectId: string,
+  anchor: { section: string; path: string; label: string },
+  body: string,
+  author: CommentAuthor
+): Promise<CommentThreadView> {
+  const mentions = resolveMentions(parseMentions(body), await mentionCandidates(projectId))
+
+  const thread: StoredThread = await prisma.commentThread.create({
+    data: {
+      projectId,
+      ...anchor,
+      comments: { create: commentData(body, mentions, author) }
+    },
+    include: { comments: true }
+  })
+
+  await notifyComment(projectId, thread, 'comment', body, mentions, author)
+  return toThreadView(thread)
+}
+
+/** Adds a comment to a thread; null when the thread is not on the project or not shared */
+export async function replyToThread(
+  projectId: string,
+  threadId: string,
+  body: string,
+  author: CommentAuthor,
+  allowedSections?: string[]
+): Promise<CommentThreadView | null> {
+  const thread = await findThread(projectId, threadId, allowedSections)
+  if (!thread) return null
+
+  const mentions = resolveMentions(parseMentions(body), await mentionCandidates(projectId))
+  const updated: StoredThread = await prisma.commentThread.update({
+    where: { id: threadId },
+    data: {
+      // A reply to a resolved thread reopens it
+      status: 'open',
+      resolvedAt: null,
+      resolvedById: null,
+      comments: { create: commentData(body, mentions, author) }
+    },
+    include: { comments: { orderBy: { createdAt: 'asc' } } }
+  })
+
+  await notifyComment(projectId, updated, 'reply', body, mentions, author)
+  return toThreadView(updated)
+}
+
+/** Resolves or reopens a thread; null when the thread is not on the project or not shared */
+export async function setThreadStatus(
+  projectId: string,
+  threadId: string,
+  status: CommentThreadStatus,
+  userId?: string,
+  allowedSections?: string[]
+): Promise<CommentThreadView | null> {
+  const thread = await findThread(projectId, threadId, allowedSections)
+  if (!thread) return null
+
+  const updated: StoredThread = await prisma.commentThread.update({
+    where: { id: threadId },
+    data: status === 'resolved'
+      ? { status, resolvedAt: new Date(), resolvedById: userId ?? null }
+      : { status, resolvedAt: null, resolvedById: null },
+    include: { comments: { orderBy: { createdAt: 'asc' } } }
+  })
+  return toThreadView(updated)
+}
+
+function findThread(projectId: string, threadId: string, allowedSections?: string[]) {
+  return prisma.commentThread.findFirst({
+    where: { id: threadId, projectId, ...sectionFilter(allowedSections) }
+  })
+}
+
+function sectionFilter(allowedSections?: string[]) {
+  return !allowedSections || allowedSections.includes('all') ? {} : { section: { in: allowedSections } }
+}
+
+function commentData(body: string, mentions: string[], author: CommentAuthor) {
+  return {
+    body,
+    mentions,
+    authorId: author.userId ?? null,
+    authorName: author.name,
+    shareLinkId: author.shareLinkId ?? null
+  }
+}
+
+/**
+ * Tells the project's owner about a new comment, and everyone mentioned in
+ * it. On replies, people who took part in the thread are told as well.
+ * The author is never notified of their own comment.
+ */
+async function notifyComment(
+  projectId: string,
+  thread: StoredThread,
+  type: Extract<NotificationType, 'comment' | 'reply'>,
+  body: string,
+  mentions: string[],
+  author: CommentAuthor
+): Promise<void> {
+  const project = await prisma.project.findUnique({ where: { id: projectId }, select: { userId: true, name: true } })
+  if (!project) return
+
+  const notSelf = (userId: string | null): userId is string => !!userId && userId !== author.userId
+  const link = `/project/${projectId}`
+  const excerpt = body.length > 140 ? `${body.slice(0, 137)}...` : body
+
+  const mentioned = mentions.filter(notSelf)
+  const participants = type === 'reply' ? thread.comments.map(comment => comment.authorId) : []
+  const others = [project.userId, ...participants].filter(notSelf).filter(userId => !mentioned.includes(userId))
+
+  await notifyUsers(mentioned, {
+    type: 'mention',
+    title: `${author.name} mentioned you on "${thread.label}" in ${project.name}`,
+    body: excerpt,
+    link,
+    projectId
+  })
+  await notifyUsers(others, {
+    type,
+    title: type === 'comment'
+      ? `${author.name} commented on "${thread.label}" in ${project.name}`
+      : `${author.name} replied on "${thread.label}" in ${project.name}`,
+    body: excerpt,
+    link,
+    projectId
+  })
+}
+
+function toThreadView(thread: StoredThread): CommentThreadView {
+  return {
+    id: thread.id,
+    section: thread.section,
+    path: thread.path,
+    label: thread.label,
+    status: thread.status === 'resolved' ? 'resolved' : 'open',
+    resolvedAt: thread.resolvedAt,
+    createdAt: thread.createdAt,
+    comments: thread.comments.map(comment => ({
+      id: comment.id,
+      authorId: comment.authorId,
+      authorName: comment.authorName,
+      body: comment.body,
+      mentions: comment.mentions,
+      viaShareLink: !!comment.shareLinkId,
+      createdAt: comment.createdAt
+    }))
+  }
+}
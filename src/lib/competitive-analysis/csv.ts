@@ -0,0 +1,181 @@
+import { PricingTier } from '@/types'
+import { CompetitorData } from '@/types/services'
+import { parsePricing } from './matrix'
+
+export interface CompetitorCSVResult {
+  competitors: CompetitorData[]
+  /** Problems with individual rows, which are skipped */
+  errors: string[]
+}
+
+type Column =
+  | 'name' | 'category' | 'features' | 'strengths' | 'weaknesses' | 'pricing'
+  | 'tier' | 'price' | 'interval' | 'freeTrial' | 'customPricing'
+  | 'marketShare' | 'rating' | 'reviews' | 'complaints'
+
+/** Header spellings accepted for each column, lower-cased without punctuation */
+const COLUMN_ALIASES: Record<Column, string[]> = {
+  name: ['name', 'competitor', 'company', 'product'],
+  category: ['category', 'type'],
+  features: ['features', 'feature'],
+  strengths: ['strengths', 'strength'],
+  weaknesses: ['weaknesses', 'weakness'],
+  pricing: ['pricing', 'pricing model', 'model'],
+  tier: ['tier', 'plan', 'tier name'],
+  price: ['price', 'tier price', 'cost'],
+  interval: ['interval', 'billing', 'billing interval'],
+  freeTrial: ['free trial', 'trial'],
+  customPricing: ['custom pricing', 'custom'],
+  marketShare: ['market share', 'share'],
+  rating: ['rating', 'average rating'],
+  reviews: ['reviews', 'review count', 'total reviews'],
+  complaints: ['complaints', 'common complaints']
+}
+
+const CATEGORIES: CompetitorData['category'][] = ['direct', 'indirect', 'substitute']
+
+/**
+ * Reads competitors from a spreadsheet export with a header row. Only the
+ * name column is required; list cells are separated by semicolons. A
+ * competitor can take several rows, one per pricing tier, which are merged.
+ */
+export function parseCompetitorCSV(text: string): CompetitorCSVResult {
+  const [header, ...rows] = parseRows(text).filter(row => row.some(cell => cell.trim()))
+  if (!header) return { competitors: [], errors: ['The file is empty'] }
+
+  const columns = header.map(columnOf)
+  if (!columns.includes('name')) {
+    return { competitors: [], errors: ['The file needs a "name" column'] }
+  }
+
+  const competitors: CompetitorData[] = []
+  const errors: string[] = []
+
+  rows.forEach((cells, index) => {
+    const row: Partial<Record<Column, string>> = {}
+    columns.forEach((column, i) => {
+      if (column && cells[i]?.trim()) row[column] = cells[i].trim()
+    })
+
+    const line = index + 2
+    if (!row.name) {
+      errors.push(`Row ${line}: missing a name`)
+      return
+    }
+
+    const price = row.price === undefined ? undefined : Number(row.price.replace(/[$,\s]/g, ''))
+    if (price !== undefined && (!Number.isFinite(price) || price < 0)) {
+      errors.push(`Row ${line}: "${row.price}" is not a price`)
+      return
+    }
+
+    let competitor = competitors.find(existing => existing.name.toLowerCase() === row.name!.toLowerCase())
+    if (!competitor) {
+      const category = row.category?.toLowerCase() as CompetitorData['category'] | undefined
+      const pricing = parsePricing(row.pricing ?? '')
+      competitor = {
+        name: row.name,
+        category: category && CATEGORIES.includes(category) ? category : 'direct',
+        strengths: [],
+        weaknesses: [],
+        // Explicit tier rows replace the tiers guessed from the pricing text
+        pricing: price === undefined ? pricing : { ...pricing, tiers: [] },
+        features: [],
+        marketShare: Number(row.marketShare?.replace('%', '')) || 0,
+        userReviews: {
+          averageRating: Number(row.rating) || 0,
+          totalReviews: Number(row.reviews?.replace(/,/g, '')) || 0,
+          positiveAspects: [],
+          negativeAspects: [],
+          commonComplaints: []
+        }
+      }
+      competitors.push(competitor)
+    }
+
+    appendUnique(competitor.features, list(row.features))
+    appendUnique(competitor.strengths, list(row.strengths))
+    appendUnique(competitor.weaknesses, list(row.weaknesses))
+    appendUnique(competitor.userReviews.commonComplaints, list(row.complaints))
+    if (row.freeTrial) competitor.pricing.freeTrial = isYes(row.freeTrial)
+    if (row.customPricing) competitor.pricing.customPricing = isYes(row.customPricing)
+
+    if (price !== undefined) {
+      competitor.pricing.tiers.push({
+        name: row.tier ?? `Tier ${competitor.pricing.tiers.length + 1}`,
+        price,
+        interval: intervalOf(row.interval),
+        features: [],
+        targetSegment: ''
+      })
+    }
+  })
+
+  return { competitors, errors }
+}
+
+function parseRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+function columnOf(heading: string): Column | undefined {
+  const normalized = heading.toLowerCase().replace(/[^a-z ]+/g, ' ').replace(/\s+/g, ' ').trim()
+  return (Object.keys(COLUMN_ALIASES) as Column[]).find(column => COLUMN_ALIASES[column].includes(normalized))
+}
+
+function intervalOf(text?: string): PricingTier['interval'] {
+  if (!text) return 'monthly'
+  if (/year|annual/i.test(text)) return 'yearly'
+  if (/one|once|lifetime/i.test(text)) return 'one-time'
+  return 'monthly'
+}
+
+function list(cell?: string): string[] {
+  return (cell ?? '').split(';').map(item => item.trim()).filter(Boolean)
+}
+
+function appendUnique(target: string[], items: string[]) {
+  items.forEach(item => {
+    if (!target.some(existing => existing.toLowerCase() === item.toLowerCase())) target.push(item)
+  })
+}
+
+function isYes(text: string): boolean {
+  return /^(y|yes|true|1)$/i.test(text)
+}
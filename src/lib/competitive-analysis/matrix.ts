@@ -0,0 +1,340 @@
+import { Competitor, PricingTier, ProductPlan } from '@/types'
+import { CompetitorData, PricingInfo } from '@/types/services'
+
+/** A competitor in the comparison, with where its data came from */
+export interface ComparedCompetitor extends CompetitorData {
+  source: 'ai' | 'user'
+}
+
+/** The product plan as stored, with the competitors the user entered */
+export type ProductPlanWithCompetitors = ProductPlan & { competitorData?: CompetitorData[] }
+
+export interface FeatureRow {
+  feature: string
+  ours: boolean
+  /** Whether each competitor has the feature, null when its features are unknown */
+  competitors: Record<string, boolean | null>
+}
+
+export interface PricePoint {
+  competitor: string
+  tier: string
+  monthly: number
+}
+
+export interface TierComparison {
+  tier: string
+  monthly: number
+  /** Share of competitor price points below this tier, from 0 to 1 */
+  percentile: number
+  nearest?: PricePoint
+}
+
+export interface PricingComparison {
+  ours: TierComparison[]
+  /** Paid competitor tiers, cheapest first */
+  pricePoints: PricePoint[]
+  range: { min: number; median: number; max: number } | null
+}
+
+export interface PositioningGap {
+  type: 'unique-feature' | 'missing-feature' | 'price' | 'weakness'
+  title: string
+  detail: string
+  competitors: string[]
+}
+
+export interface CompetitiveAnalysis {
+  competitors: ComparedCompetitor[]
+  features: FeatureRow[]
+  pricing: PricingComparison
+  gaps: PositioningGap[]
+}
+
+/** Share of competitors with known features that must have one for it to count as table stakes */
+const TABLE_STAKES_SHARE = 0.5
+
+/** Consecutive competitor prices this many times apart leave a gap worth pointing out */
+const PRICE_GAP_RATIO = 2
+
+/** Token overlap at which two feature or weakness descriptions are taken to mean the same thing */
+const SIMILARITY_THRESHOLD = 0.5
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'to', 'with', 'in', 'on', 'by', 'your', 'our'])
+
+/**
+ * Compares the product against its competitors: which features each one
+ * has, where our pricing tiers sit among theirs, and the gaps in the market
+ * that follow. The AI's competitors are merged with the ones the user
+ * entered, whose data wins.
+ */
+export function analyzeCompetition(productPlan: ProductPlanWithCompetitors): CompetitiveAnalysis {
+  const competitors = mergeCompetitors(suggestedCompetitors(productPlan), productPlan.competitorData ?? [])
+  const ourFeatures = (productPlan.coreFeatures ?? []).map(feature => feature.name)
+  const ourTiers = productPlan.monetization?.primary?.pricing ?? []
+
+  const features = buildFeatureMatrix(ourFeatures, competitors)
+  const pricing = comparePricing(ourTiers, competitors)
+
+  return {
+    competitors,
+    features,
+    pricing,
+    gaps: positioningGaps(features, pricing, competitors)
+  }
+}
+
+/** The product plan's competitors in the shape the comparison works with */
+export function suggestedCompetitors(productPlan: ProductPlan): CompetitorData[] {
+  const analysis = productPlan.competitorAnalysis
+  const convert = (category: CompetitorData['category']) => (competitor: Competitor): CompetitorData => ({
+    name: competitor.name,
+    category,
+    strengths: competitor.strengths ?? [],
+    weaknesses: competitor.weaknesses ?? [],
+    pricing: parsePricing(competitor.pricing ?? ''),
+    features: [],
+    marketShare: competitor.marketShare ?? 0,
+    userReviews: { averageRating: 0, totalReviews: 0, positiveAspects: [], negativeAspects: [], commonComplaints: [] }
+  })
+
+  return [
+    ...(analysis?.direct ?? []).map(convert('direct')),
+    ...(analysis?.indirect ?? []).map(convert('indirect'))
+  ]
+}
+
+/**
+ * Merges the user's competitors into the suggested ones by name. Every
+ * field the user filled in replaces the suggestion's; competitors only the
+ * user knows about are added at the end.
+ */
+export function mergeCompetitors(suggested: CompetitorData[], entered: CompetitorData[]): ComparedCompetitor[] {
+  const byName = new Map(entered.map(competitor => [normalize(competitor.name), competitor]))
+
+  const merged = suggested.map((competitor): ComparedCompetitor => {
+    const override = byName.get(normalize(competitor.name))
+    if (!override) return { ...competitor, source: 'ai' }
+
+    byName.delete(normalize(competitor.name))
+    return {
+      name: override.name || competitor.name,
+      category: override.category,
+      strengths: override.strengths.length ? override.strengths : competitor.strengths,
+      weaknesses: override.weaknesses.length ? override.weaknesses : competitor.weaknesses,
+      pricing: override.pricing.tiers.length || override.pricing.model ? override.pricing : competitor.pricing,
+      features: override.features.length ? override.features : competitor.features,
+      marketShare: override.marketShare || competitor.marketShare,
+      userReviews: override.userReviews.totalReviews ? override.userReviews : competitor.userReviews,
+      source: 'user'
+    }
+  })
+
+  return [...merged, ...[...byName.values()].map((competitor): ComparedCompetitor => ({ ...competitor, source: 'user' }))]
+}
+
+/**
+ * One row per feature across our product and the competitors, ours first.
+ * Features are matched loosely, so "Invoice reminders" and "Automatic
+ * reminders for invoices" share a row.
+ */
+export function buildFeatureMatrix(ourFeatures: string[], competitors: CompetitorData[]): FeatureRow[] {
+  const rows: FeatureRow[] = []
+  const rowFor = (feature: string) => {
+    let row = rows.find(existing => similar(existing.feature, feature))
+    if (!row) {
+      row = {
+        feature,
+        ours: false,
+        competitors: Object.fromEntries(competitors.map(competitor => [competitor.name, competitor.features.length ? false : null]))
+      }
+      rows.push(row)
+    }
+    return row
+  }
+
+  ourFeatures.forEach(feature => { rowFor(feature).ours = true })
+  competitors.forEach(competitor => {
+    competitor.features.forEach(feature => { rowFor(feature).competitors[competitor.name] = true })
+  })
+
+  return rows
+}
+
+/** Places each of our tiers among the competitors' paid tiers, compared per month */
+export function comparePricing(ourTiers: PricingTier[], competitors: CompetitorData[]): PricingComparison {
+  const pricePoints = competitors
+    .flatMap(competitor => competitor.pricing.tiers.map(tier => ({
+      competitor: competitor.name,
+      tier: tier.name,
+      monthly: monthlyPrice(tier)
+    })))
+    .filter((point): point is PricePoint => point.monthly !== undefined && point.monthly > 0)
+    .sort((a, b) => a.monthly - b.monthly)
+
+  const ours = ourTiers.flatMap((tier): TierComparison[] => {
+    const monthly = monthlyPrice(tier)
+    if (monthly === undefined) return []
+
+    const nearest = pricePoints.reduce<PricePoint | undefined>(
+      (best, point) => !best || Math.abs(point.monthly - monthly) < Math.abs(best.monthly - monthly) ? point : best,
+      undefined
+    )
+    return [{
+      tier: tier.name,
+      monthly,
+      percentile: pricePoints.length ? pricePoints.filter(point => point.monthly < monthly).length / pricePoints.length : 0,
+      nearest
+    }]
+  })
+
+  const prices = pricePoints.map(point => point.monthly)
+  return {
+    ours,
+    pricePoints,
+    range: prices.length ? { min: prices[0], median: median(prices), max: prices[prices.length - 1] } : null
+  }
+}
+
+/**
+ * Reads tiers out of a free-text price such as "Free, $12/user/month or
+ * $99/year". Each dollar amount becomes a tier, billed yearly or once when
+ * the text around it says so and monthly otherwise.
+ */
+export function parsePricing(text: string): PricingInfo {
+  const tiers: PricingTier[] = []
+
+  if (/\bfree\b(?! trial)/i.test(text)) {
+    tiers.push({ name: 'Free', price: 0, interval: 'monthly', features: [], targetSegment: '' })
+  }
+
+  for (const match of text.matchAll(/\$\s?(\d[\d,]*(?:\.\d+)?)\s*(k\b)?([^$,;]*)/gi)) {
+    const price = Number(match[1].replace(/,/g, '')) * (match[2] ? 1000 : 1)
+    const qualifier = match[3]
+    tiers.push({
+      name: match[0].trim().replace(/\s+(or|and|then)$/i, ''),
+      price,
+      interval: /year|annual|\/yr/i.test(qualifier) ? 'yearly' : /one[- ]time|lifetime|once/i.test(qualifier) ? 'one-time' : 'monthly',
+      features: [],
+      targetSegment: ''
+    })
+  }
+
+  return {
+    model: text.trim(),
+    tiers,
+    freeTrial: /free trial|trial/i.test(text),
+    customPricing: /custom|contact|quote|enterprise/i.test(text)
+  }
+}
+
+function positioningGaps(features: FeatureRow[], pricing: PricingComparison, competitors: CompetitorData[]): PositioningGap[] {
+  const gaps: PositioningGap[] = []
+  const known = competitors.filter(competitor => competitor.features.length > 0)
+
+  if (known.length > 0) {
+    features
+      .filter(row => row.ours && known.every(competitor => !row.competitors[competitor.name]))
+      .forEach(row => gaps.push({
+        type: 'unique-feature',
+        title: `Only we offer ${lowerFirst(row.feature)}`,
+        detail: `None of the ${known.length} competitors with known features has it; lead with it in positioning.`,
+        competitors: []
+      }))
+
+    features
+      .filter(row => !row.ours)
+      .map(row => ({ row, having: known.filter(competitor => row.competitors[competitor.name]) }))
+      .filter(({ having }) => having.length / known.length >= TABLE_STAKES_SHARE)
+      .forEach(({ row, having }) => gaps.push({
+        type: 'missing-feature',
+        title: `Missing ${lowerFirst(row.feature)}`,
+        detail: `${having.length} of ${known.length} competitors offer it, so buyers may expect it.`,
+        competitors: having.map(competitor => competitor.name)
+      }))
+  }
+
+  const points = pricing.pricePoints
+  for (let i = 1; i < points.length; i++) {
+    const [lower, upper] = [points[i - 1], points[i]]
+    if (upper.monthly / lower.monthly < PRICE_GAP_RATIO) continue
+
+    const inside = pricing.ours.filter(tier => tier.monthly > lower.monthly && tier.monthly < upper.monthly)
+    gaps.push({
+      type: 'price',
+      title: `No competitor charges between ${formatPrice(lower.monthly)} and ${formatPrice(upper.monthly)} a month`,
+      detail: inside.length
+        ? `Our ${inside.map(tier => tier.tier).join(' and ')} tier${inside.length > 1 ? 's sit' : ' sits'} in this gap.`
+        : 'A tier priced here would face no direct price competition.',
+      competitors: [lower.competitor, upper.competitor]
+    })
+  }
+
+  // Weaknesses several competitors share are openings for us
+  const weaknesses: { text: string; competitors: string[] }[] = []
+  competitors.forEach(competitor => {
+    [...competitor.weaknesses, ...competitor.userReviews.commonComplaints].forEach(text => {
+      const group = weaknesses.find(existing => similar(existing.text, text))
+      if (!group) {
+        weaknesses.push({ text, competitors: [competitor.name] })
+      } else if (!group.competitors.includes(competitor.name)) {
+        group.competitors.push(competitor.name)
+      }
+    })
+  })
+  weaknesses
+    .filter(weakness => weakness.competitors.length >= 2)
+    .forEach(weakness => gaps.push({
+      type: 'weakness',
+      title: `Competitors are weak on ${lowerFirst(weakness.text)}`,
+      detail: `${weakness.competitors.length} competitors share this weakness; doing it well sets us apart.`,
+      competitors: weakness.competitors
+    }))
+
+  return gaps
+}
+
+function monthlyPrice(tier: PricingTier): number | undefined {
+  switch (tier.interval) {
+    case 'yearly':
+      return Math.round(tier.price / 12 * 100) / 100
+    case 'one-time':
+      return undefined
+    default:
+      return tier.price
+  }
+}
+
+function similar(a: string, b: string): boolean {
+  const [left, right] = [normalize(a), normalize(b)]
+  if (!left || !right) return false
+  if (left === right || left.includes(right) || right.includes(left)) return true
+
+  const leftTokens = new Set(tokens(left))
+  const rightTokens = new Set(tokens(right))
+  const shared = [...leftTokens].filter(token => rightTokens.has(token)).length
+  const union = new Set([...leftTokens, ...rightTokens]).size
+  return union > 0 && shared / union >= SIMILARITY_THRESHOLD
+}
+
+function tokens(text: string): string[] {
+  // Plurals are folded so "invoice" and "invoices" match
+  return text.split(' ').filter(token => !STOP_WORDS.has(token)).map(token => token.replace(/s$/, ''))
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+function median(sorted: number[]): number {
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function formatPrice(amount: number): string {
+  return `$${Number.isInteger(amount) ? amount : amount.toFixed(2)}`
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1)
+}
@@ -0,0 +1,33 @@
+import { prisma } from '@/lib/prisma'
+import { SubscriptionTier } from '@/types'
+
+/**
+ * Get or create the development user that routes act as when
+ * NEXT_PUBLIC_ENABLE_DEV_AUTH is on
+ */
+export async function getOrCreateDevUser(): Promise<string> {
+  const devEmail = process.env.NEXT_PUBLIC_DEV_USER_EMAIL || 'dev@example.com'
+  const devName = process.env.NEXT_PUBLIC_DEV_USER_NAME || 'Development User'
+
+  let user = await prisma.user.findUnique({
+    where: { email: devEmail }
+  })
+
+  if (!user) {
+    user = await prisma.user.create({
+      data: {
+        email: devEmail,
+        name: devName,
+        subscription: SubscriptionTier.FREE,
+        preferences: {
+          theme: 'dark',
+          notifications: true,
+          autoSave: true,
+          defaultExportFormat: 'pdf',
+        },
+      }
+    })
+  }
+
+  return user.id
+}
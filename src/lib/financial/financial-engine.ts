@@ -0,0 +1,284 @@
+import {
+  BusinessMetrics,
+  ComprehensiveFinancialModel,
+  CostBreakdown,
+  FinancialAssumptions,
+  InfraCost,
+  MonthlyProjection
+} from '@/types'
+
+/** The cost items of a breakdown; its totals are computed from the projection */
+export type CostItems = Pick<CostBreakdown, 'infrastructure' | 'team' | 'tools' | 'marketing'>
+
+export interface ProjectionOptions {
+  /** Number of months to project, 36 by default */
+  months?: number
+}
+
+export interface FinancialProjection {
+  /** One entry per month, each with its costs and closing cash */
+  projections: MonthlyProjection[]
+  metrics: BusinessMetrics
+  totals: {
+    revenue: number
+    costs: number
+    infrastructure: number
+    marketing: number
+    newCustomers: number
+  }
+}
+
+export interface FinancialModelDetails {
+  /** Revenue model name, e.g. "Subscription" */
+  model: string
+  /** Free-text assumptions to show next to the computed ones */
+  notes?: string[]
+}
+
+const DEFAULT_MONTHS = 36
+
+/** Customer lifetime used for LTV when churn is zero */
+const MAX_CUSTOMER_LIFETIME_MONTHS = 60
+
+/**
+ * Projects customers, revenue, costs and cash month by month from the
+ * assumptions and cost breakdown, and derives the business metrics from
+ * that projection, so every figure in the model follows from the inputs.
+ *
+ * Paying customers grow by converted sign-ups and shrink by churn, capped at
+ * the reachable market. Price increases apply at the start of each year and
+ * lower conversion by the price elasticity. Team, tool and marketing costs
+ * rise with inflation; infrastructure follows its scaling tiers (or the
+ * scaling exponent) and falls with optimization. Acquisition spend is CAC
+ * times the customers actually acquired.
+ */
+export function projectFinancials(
+  assumptions: FinancialAssumptions,
+  costs: CostItems,
+  options: ProjectionOptions = {}
+): FinancialProjection {
+  const months = options.months ?? DEFAULT_MONTHS
+  const { market, pricing, customers } = assumptions
+
+  const projections: MonthlyProjection[] = []
+  const totals = { revenue: 0, costs: 0, infrastructure: 0, marketing: 0, newCustomers: 0 }
+  let paying = 0
+  let cash = assumptions.funding.cash
+  let price = pricing.price
+  let conversion = customers.conversion
+  let baselineCustomers = 1
+
+  for (let month = 1; month <= months; month++) {
+    const year = Math.floor((month - 1) / 12)
+
+    if (month > 1 && (month - 1) % 12 === 0) {
+      const increase = pricing.increases[year - 1] ?? 0
+      price *= 1 + increase
+      conversion *= Math.max(0, 1 - pricing.elasticity * increase)
+    }
+
+    const reachable = market.size > 0
+      ? market.size * market.penetration * Math.pow(1 + market.growth, year)
+      : Infinity
+    const retained = paying * (1 - customers.churn)
+    const signups = customers.signups * Math.pow(1 + customers.growth, month - 1)
+    const current = Math.min(retained + signups * conversion, Math.max(reachable, retained))
+    const acquired = Math.max(0, current - retained)
+
+    if (month === 1) {
+      baselineCustomers = Math.max(1, current)
+    }
+
+    const inflation = Math.pow(1 + assumptions.costs.inflation, year)
+    const infrastructure = costs.infrastructure.reduce(
+      (sum, item) => sum + infrastructureCost(item, current, baselineCustomers, assumptions.costs.scaling),
+      0
+    ) * Math.pow(1 - assumptions.costs.optimization, year)
+    const team = costs.team
+      .filter(member => startMonth(member.timeline) <= month)
+      .reduce((sum, member) => sum + member.salary + member.benefits, 0) * inflation
+    const tools = costs.tools.reduce((sum, tool) => {
+      switch (tool.interval) {
+        case 'one-time':
+          return sum + (month === 1 ? tool.cost : 0)
+        case 'yearly':
+          return sum + tool.cost / 12 * inflation
+        default:
+          return sum + tool.cost * inflation
+      }
+    }, 0)
+    const marketing = costs.marketing
+      .filter(channel => startMonth(channel.timeline) <= month)
+      .reduce((sum, channel) => sum + channel.budget, 0) * inflation + acquired * customers.cac
+
+    const revenue = current * price
+    const monthCosts = infrastructure + team + tools + marketing
+    cash += revenue - monthCosts
+
+    projections.push({
+      month,
+      users: Math.round(current),
+      revenue: roundCurrency(revenue),
+      churn: paying > 0 ? customers.churn : 0,
+      ...(paying > 0 ? { growth: (current - paying) / paying } : {}),
+      costs: roundCurrency(monthCosts),
+      cash: roundCurrency(cash)
+    })
+
+    totals.revenue += revenue
+    totals.costs += monthCosts
+    totals.infrastructure += infrastructure
+    totals.marketing += marketing
+    totals.newCustomers += acquired
+    paying = current
+  }
+
+  return {
+    projections,
+    metrics: deriveMetrics(assumptions, projections, totals),
+    totals: {
+      revenue: roundCurrency(totals.revenue),
+      costs: roundCurrency(totals.costs),
+      infrastructure: roundCurrency(totals.infrastructure),
+      marketing: roundCurrency(totals.marketing),
+      newCustomers: Math.round(totals.newCustomers)
+    }
+  }
+}
+
+/**
+ * A financial model whose projections, cost totals and metrics are computed
+ * from the assumptions. The assumptions are kept on the model so it can be
+ * recomputed when they change.
+ */
+export function buildFinancialModel(
+  assumptions: FinancialAssumptions,
+  costs: CostItems,
+  details: FinancialModelDetails,
+  options: ProjectionOptions = {}
+): ComprehensiveFinancialModel {
+  const projection = projectFinancials(assumptions, costs, options)
+  const monthlyCosts = projection.projections.map(month => month.costs ?? 0)
+
+  return {
+    costs: {
+      ...costs,
+      total: projection.totals.costs,
+      monthly: roundCurrency(projection.totals.costs / Math.max(1, monthlyCosts.length)),
+      yearly: roundCurrency(monthlyCosts.slice(0, 12).reduce((sum, cost) => sum + cost, 0))
+    },
+    revenue: {
+      model: details.model,
+      projections: projection.projections,
+      assumptions: [...describeAssumptions(assumptions), ...(details.notes ?? [])],
+      scenarios: []
+    },
+    metrics: projection.metrics,
+    scenarios: [],
+    assumptions
+  }
+}
+
+function deriveMetrics(
+  assumptions: FinancialAssumptions,
+  projections: MonthlyProjection[],
+  totals: FinancialProjection['totals']
+): BusinessMetrics {
+  const { churn } = assumptions.customers
+  const net = projections.map(month => month.revenue - (month.costs ?? 0))
+
+  const cac = totals.newCustomers > 0 ? totals.marketing / totals.newCustomers : 0
+  const grossMargin = totals.revenue > 0 ? clamp(1 - totals.infrastructure / totals.revenue, 0, 1) : 0
+  const lifetime = churn > 0 ? Math.min(1 / churn, MAX_CUSTOMER_LIFETIME_MONTHS) : MAX_CUSTOMER_LIFETIME_MONTHS
+  const ltv = assumptions.pricing.price * grossMargin * lifetime
+
+  const breakevenIndex = projections.findIndex((month, index) => month.revenue > 0 && net[index] >= 0)
+  const losses = net.filter(value => value < 0)
+
+  return {
+    cac: roundCurrency(cac),
+    ltv: roundCurrency(ltv),
+    ltvCacRatio: cac > 0 ? Math.round(ltv / cac * 100) / 100 : 0,
+    burnRate: roundCurrency(losses.length ? -losses.reduce((sum, value) => sum + value, 0) / losses.length : 0),
+    runway: runwayMonths(projections, net),
+    breakeven: breakevenIndex === -1 ? -1 : projections[breakevenIndex].month,
+    roi: totals.costs > 0 ? Math.round((totals.revenue - totals.costs) / totals.costs * 1000) / 10 : 0
+  }
+}
+
+/**
+ * Months until cash runs out. Past the projection the last month's burn is
+ * extrapolated; -1 means the company is cash-flow positive by then.
+ */
+function runwayMonths(projections: MonthlyProjection[], net: number[]): number {
+  const outOfCash = projections.findIndex(month => (month.cash ?? 0) < 0)
+  if (outOfCash !== -1) {
+    return outOfCash
+  }
+
+  const lastNet = net[net.length - 1] ?? 0
+  if (lastNet >= 0) {
+    return -1
+  }
+
+  const cash = projections[projections.length - 1]?.cash ?? 0
+  return projections.length + Math.floor(cash / -lastNet)
+}
+
+/**
+ * Items with scaling tiers cost what the largest tier reached says; others
+ * grow with the customer base relative to launch by the scaling exponent.
+ */
+function infrastructureCost(item: InfraCost, customers: number, baseline: number, exponent: number): number {
+  if (item.scaling?.length) {
+    const reached = [...item.scaling]
+      .sort((a, b) => a.users - b.users)
+      .filter(tier => tier.users <= customers)
+      .pop()
+    return reached ? reached.cost : item.cost
+  }
+
+  return item.cost * Math.pow(Math.max(1, customers / baseline), exponent)
+}
+
+/** First month a cost applies, read from timelines like "Month 3", "Q2" or "Year 2" */
+function startMonth(timeline?: string): number {
+  if (!timeline) {
+    return 1
+  }
+
+  const quarter = timeline.match(/\bq([1-4])\b/i)
+  if (quarter) {
+    return (Number(quarter[1]) - 1) * 3 + 1
+  }
+
+  const year = timeline.match(/year\s*(\d+)/i)
+  if (year) {
+    return (Number(year[1]) - 1) * 12 + 1
+  }
+
+  const month = timeline.match(/(\d+)/)
+  return month ? Math.max(1, Number(month[1])) : 1
+}
+
+function describeAssumptions(assumptions: FinancialAssumptions): string[] {
+  const { pricing, customers } = assumptions
+  return [
+    `$${pricing.price}/month per customer`,
+    `${formatRate(customers.conversion)} of sign-ups convert`,
+    `${formatRate(customers.churn)} monthly churn`,
+    `$${customers.cac} CAC`
+  ]
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
@@ -0,0 +1,226 @@
+import {
+  ComprehensiveFinancialModel,
+  FinancialAssumptions,
+  Scenario,
+  SensitivityAnalysis,
+  SensitivityResult,
+  SensitivityScenario,
+  SensitivityVariable,
+  TornadoBar
+} from '@/types'
+import { buildFinancialModel, CostItems, FinancialProjection, projectFinancials, ProjectionOptions } from './financial-engine'
+
+export type SensitivityDriver = 'price' | 'churn' | 'cac' | 'conversion'
+
+export type DriverValues = Partial<Record<SensitivityDriver, number>>
+
+interface DriverDefinition {
+  label: string
+  /** Whether a higher value improves the outcome */
+  higherIsBetter: boolean
+  /** Upper bound for rates */
+  limit?: number
+  /** Range used when the base value is zero */
+  fallbackMax: number
+  get(assumptions: FinancialAssumptions): number
+  set(assumptions: FinancialAssumptions, value: number): FinancialAssumptions
+}
+
+export const SENSITIVITY_DRIVERS: Record<SensitivityDriver, DriverDefinition> = {
+  price: {
+    label: 'Price',
+    higherIsBetter: true,
+    fallbackMax: 100,
+    get: assumptions => assumptions.pricing.price,
+    set: (assumptions, price) => ({ ...assumptions, pricing: { ...assumptions.pricing, price } })
+  },
+  churn: {
+    label: 'Monthly churn',
+    higherIsBetter: false,
+    limit: 1,
+    fallbackMax: 0.2,
+    get: assumptions => assumptions.customers.churn,
+    set: (assumptions, churn) => ({ ...assumptions, customers: { ...assumptions.customers, churn } })
+  },
+  cac: {
+    label: 'CAC',
+    higherIsBetter: false,
+    fallbackMax: 200,
+    get: assumptions => assumptions.customers.cac,
+    set: (assumptions, cac) => ({ ...assumptions, customers: { ...assumptions.customers, cac } })
+  },
+  conversion: {
+    label: 'Conversion',
+    higherIsBetter: true,
+    limit: 1,
+    fallbackMax: 0.2,
+    get: assumptions => assumptions.customers.conversion,
+    set: (assumptions, conversion) => ({ ...assumptions, customers: { ...assumptions.customers, conversion } })
+  }
+}
+
+export interface SensitivityOptions extends ProjectionOptions {
+  drivers?: SensitivityDriver[]
+  /** How far each variable is swept either side of its base value, 0.5 by default */
+  swing?: number
+}
+
+const DEFAULT_SWING = 0.5
+
+/** Slider positions per variable range */
+const RANGE_STEPS = 20
+
+/** Likelihood given to the base case; best and worst cases share the rest */
+const BASE_CASE_PROBABILITY = 0.5
+
+export function applyDrivers(assumptions: FinancialAssumptions, values: DriverValues): FinancialAssumptions {
+  return (Object.entries(values) as [SensitivityDriver, number | undefined][])
+    .reduce((result, [driver, value]) => value === undefined ? result : SENSITIVITY_DRIVERS[driver].set(result, value), assumptions)
+}
+
+export function sensitivityRange(
+  assumptions: FinancialAssumptions,
+  driver: SensitivityDriver,
+  swing = DEFAULT_SWING
+): SensitivityVariable['range'] {
+  const definition = SENSITIVITY_DRIVERS[driver]
+  const base = definition.get(assumptions)
+  const min = base > 0 ? base * (1 - swing) : 0
+  const max = Math.min(base > 0 ? base * (1 + swing) : definition.fallbackMax, definition.limit ?? Infinity)
+
+  return { min, max, step: (max - min) / RANGE_STEPS || definition.fallbackMax / RANGE_STEPS }
+}
+
+/**
+ * Sweeps each driver across its range with the others held at their base
+ * values, ranks the drivers by how much they move profit over the
+ * projection (the tornado chart), and compares best, base and worst cases
+ * that put every driver at its favourable or unfavourable end.
+ */
+export function analyzeSensitivity(
+  assumptions: FinancialAssumptions,
+  costs: CostItems,
+  options: SensitivityOptions = {}
+): SensitivityAnalysis {
+  const drivers = options.drivers ?? (Object.keys(SENSITIVITY_DRIVERS) as SensitivityDriver[])
+  const ranges = Object.fromEntries(
+    drivers.map(driver => [driver, sensitivityRange(assumptions, driver, options.swing)])
+  ) as Record<SensitivityDriver, SensitivityVariable['range']>
+
+  const tornado: TornadoBar[] = drivers
+    .map(driver => ({
+      variable: driver,
+      low: sweepPoint(assumptions, costs, driver, ranges[driver].min, options),
+      high: sweepPoint(assumptions, costs, driver, ranges[driver].max, options)
+    }))
+    .sort((a, b) => spread(b) - spread(a))
+
+  const widest = Math.max(...tornado.map(spread), 0)
+  const variables: SensitivityVariable[] = tornado.map(bar => {
+    const driver = bar.variable as SensitivityDriver
+    const share = widest > 0 ? spread(bar) / widest : 0
+    return {
+      name: driver,
+      baseValue: SENSITIVITY_DRIVERS[driver].get(assumptions),
+      range: ranges[driver],
+      impact: share >= 2 / 3 ? 'high' : share >= 1 / 3 ? 'medium' : 'low'
+    }
+  })
+
+  const endOfRange = (favourable: boolean) => Object.fromEntries(drivers.map(driver => {
+    const takeMax = SENSITIVITY_DRIVERS[driver].higherIsBetter === favourable
+    return [driver, takeMax ? ranges[driver].max : ranges[driver].min]
+  }))
+  const scenarios: SensitivityScenario[] = [
+    { name: 'Best case', variables: endOfRange(true), probability: (1 - BASE_CASE_PROBABILITY) / 2 },
+    {
+      name: 'Base case',
+      variables: Object.fromEntries(drivers.map(driver => [driver, SENSITIVITY_DRIVERS[driver].get(assumptions)])),
+      probability: BASE_CASE_PROBABILITY
+    },
+    { name: 'Worst case', variables: endOfRange(false), probability: (1 - BASE_CASE_PROBABILITY) / 2 }
+  ]
+
+  const base = scenarioMetrics(projectFinancials(assumptions, costs, options))
+  const results: SensitivityResult[] = scenarios.map(scenario => {
+    const metrics = scenarioMetrics(projectFinancials(applyDrivers(assumptions, scenario.variables), costs, options))
+    return {
+      scenario: scenario.name,
+      metrics,
+      variance: Object.fromEntries(Object.entries(metrics).map(([name, value]) => [name, value - base[name]]))
+    }
+  })
+
+  return { variables, scenarios, results, tornado }
+}
+
+/** Full projections for the best, base and worst cases of an analysis */
+export function buildScenarios(
+  assumptions: FinancialAssumptions,
+  costs: CostItems,
+  analysis: SensitivityAnalysis,
+  options: ProjectionOptions = {}
+): Scenario[] {
+  return analysis.scenarios.map(scenario => {
+    const model = buildFinancialModel(applyDrivers(assumptions, scenario.variables), costs, { model: scenario.name }, options)
+    return {
+      name: scenario.name,
+      description: describeScenario(scenario, assumptions),
+      assumptions: model.revenue.assumptions,
+      costs: model.costs,
+      revenue: model.revenue,
+      probability: scenario.probability
+    }
+  })
+}
+
+/** Adds the sensitivity analysis and best/base/worst scenarios to a model built from assumptions */
+export function withSensitivity(
+  model: ComprehensiveFinancialModel,
+  options: SensitivityOptions = {}
+): ComprehensiveFinancialModel {
+  if (!model.assumptions) {
+    return model
+  }
+
+  const sensitivity = analyzeSensitivity(model.assumptions, model.costs, options)
+  return {
+    ...model,
+    sensitivity,
+    scenarios: buildScenarios(model.assumptions, model.costs, sensitivity, options)
+  }
+}
+
+/** Headline figures of a projection; profit is summed over all its months */
+export function scenarioMetrics(projection: FinancialProjection): Record<string, number> {
+  return {
+    revenue: projection.totals.revenue,
+    profit: Math.round((projection.totals.revenue - projection.totals.costs) * 100) / 100,
+    runway: projection.metrics.runway,
+    breakeven: projection.metrics.breakeven,
+    ltvCacRatio: projection.metrics.ltvCacRatio
+  }
+}
+
+function sweepPoint(
+  assumptions: FinancialAssumptions,
+  costs: CostItems,
+  driver: SensitivityDriver,
+  value: number,
+  options: ProjectionOptions
+): TornadoBar['low'] {
+  const projection = projectFinancials(SENSITIVITY_DRIVERS[driver].set(assumptions, value), costs, options)
+  return { value, profit: scenarioMetrics(projection).profit }
+}
+
+function spread(bar: TornadoBar): number {
+  return Math.abs(bar.high.profit - bar.low.profit)
+}
+
+function describeScenario(scenario: SensitivityScenario, assumptions: FinancialAssumptions): string {
+  const changed = Object.entries(scenario.variables)
+    .filter(([driver, value]) => value !== SENSITIVITY_DRIVERS[driver as SensitivityDriver].get(assumptions))
+    .map(([driver]) => SENSITIVITY_DRIVERS[driver as SensitivityDriver].label.toLowerCase())
+
+  return changed.length ? `Adjusted ${changed.join(', ')}` : 'Assumptions as proposed'
+}
@@ -0,0 +1,297 @@
+import {
+  BusinessValuation,
+  ComparableAnalysis,
+  ComparableCompany,
+  ComprehensiveFinancialModel,
+  DCFAnalysis,
+  FundingSource,
+  FundingStage,
+  FundingStrategy,
+  MonthlyProjection
+} from '@/types'
+
+export interface ValuationOptions {
+  /** Annual rate cash flows are discounted at, 0.4 by default as usual for early-stage companies */
+  discountRate?: number
+  /** Annual growth after the projection, 0.03 by default */
+  terminalGrowth?: number
+  /** Comps table; defaults to broad SaaS benchmarks */
+  comparables?: ComparableCompany[]
+}
+
+export interface FundingOptions {
+  /** Months before cash would run out that a round should close, 6 by default */
+  leadMonths?: number
+  /** Months of operations each round should fund, 18 by default */
+  coverageMonths?: number
+  /** Date the projection starts, used for milestone dates */
+  startDate?: Date
+}
+
+/** Metric comparables are quoted in: enterprise value over annual recurring revenue */
+export const REVENUE_MULTIPLE = 'revenueMultiple'
+
+/** Starting point for the comps table, meant to be replaced with real comparables */
+export const DEFAULT_COMPARABLES: ComparableCompany[] = [
+  { name: 'Public SaaS median', metrics: { [REVENUE_MULTIPLE]: 6 }, adjustments: { size: -0.3 }, weight: 1 },
+  { name: 'Seed-stage SaaS rounds', metrics: { [REVENUE_MULTIPLE]: 15 }, adjustments: {}, weight: 1 },
+  { name: 'Series A SaaS rounds', metrics: { [REVENUE_MULTIPLE]: 12 }, adjustments: {}, weight: 1 }
+]
+
+const DEFAULT_DISCOUNT_RATE = 0.4
+const DEFAULT_TERMINAL_GROWTH = 0.03
+const DEFAULT_LEAD_MONTHS = 6
+const DEFAULT_COVERAGE_MONTHS = 18
+
+/** Months of burn kept in the bank on top of what a round needs to cover */
+const BUFFER_MONTHS = 3
+
+/** Rounds are sized up to a multiple of this */
+const ROUND_INCREMENT = 50000
+
+const MAX_ROUNDS = 4
+
+/** Dilution assumed for a round when the business has no positive valuation yet */
+const DEFAULT_DILUTION = 0.2
+
+const STAGE_SIZES: { name: string; upTo: number; source: string; probability: number }[] = [
+  { name: 'Pre-seed', upTo: 500000, source: 'Angel investors', probability: 0.6 },
+  { name: 'Seed', upTo: 3000000, source: 'Seed funds', probability: 0.4 },
+  { name: 'Series A', upTo: 15000000, source: 'Venture capital', probability: 0.3 },
+  { name: 'Series B', upTo: Infinity, source: 'Growth equity', probability: 0.25 }
+]
+
+/**
+ * Values the business with a DCF of the projected yearly cash flows and a
+ * revenue multiple from the comps table applied to the ARR at the end of the
+ * first year.
+ */
+export function valueBusiness(model: ComprehensiveFinancialModel, options: ValuationOptions = {}): BusinessValuation {
+  const projections = model.revenue.projections
+  const dcf = discountCashFlows(
+    projections,
+    options.discountRate ?? DEFAULT_DISCOUNT_RATE,
+    options.terminalGrowth ?? DEFAULT_TERMINAL_GROWTH
+  )
+
+  const arr = (projections[Math.min(11, projections.length - 1)]?.revenue ?? 0) * 12
+  const comparables = valueByComparables(options.comparables ?? DEFAULT_COMPARABLES, arr)
+  const weightedMultiple = arr > 0 ? comparables.valuation / arr : 0
+
+  return {
+    methods: [
+      {
+        name: 'Discounted cash flow',
+        value: dcf.presentValue,
+        confidence: dcf.terminalValue > 0 ? 0.5 : 0.3,
+        assumptions: [
+          `${formatRate(dcf.discountRate)} discount rate`,
+          `${formatRate(dcf.terminalGrowth)} growth after year ${dcf.projectionYears}`
+        ]
+      },
+      {
+        name: 'Comparables',
+        value: comparables.valuation,
+        confidence: comparables.companies.length ? Math.min(0.3 + 0.1 * comparables.companies.length, 0.7) : 0,
+        assumptions: [`${weightedMultiple.toFixed(1)}x ARR of $${Math.round(arr).toLocaleString('en-US')} at month 12`]
+      }
+    ],
+    multiples: comparables.companies.map(company => ({
+      metric: REVENUE_MULTIPLE,
+      multiple: adjustedMultiple(company),
+      value: roundCurrency(adjustedMultiple(company) * arr),
+      comparables: [company.name]
+    })),
+    dcf,
+    comparables
+  }
+}
+
+/** Confidence-weighted average of the valuation methods */
+export function blendedValuation(valuation: BusinessValuation): number {
+  const confidence = valuation.methods.reduce((sum, method) => sum + method.confidence, 0)
+  if (confidence === 0) {
+    return 0
+  }
+  return roundCurrency(valuation.methods.reduce((sum, method) => sum + method.value * method.confidence, 0) / confidence)
+}
+
+/**
+ * Sizes funding rounds against the gaps in the projected cash. Each time
+ * cash would go negative a round closes `leadMonths` earlier, large enough
+ * to cover the lowest point over the next `coverageMonths` plus a few
+ * months of burn. The first round is priced at the blended valuation.
+ */
+export function planFunding(
+  model: ComprehensiveFinancialModel,
+  preMoney: number,
+  options: FundingOptions = {}
+): FundingStrategy {
+  const leadMonths = options.leadMonths ?? DEFAULT_LEAD_MONTHS
+  const coverageMonths = options.coverageMonths ?? DEFAULT_COVERAGE_MONTHS
+  const startDate = options.startDate ?? new Date()
+  const projections = model.revenue.projections
+  const net = projections.map(month => month.revenue - (month.costs ?? 0))
+
+  let cash = projections.map(month => month.cash ?? 0)
+  const rounds: { stage: FundingStage; month: number }[] = []
+
+  while (rounds.length < MAX_ROUNDS) {
+    const gap = cash.findIndex(balance => balance < 0)
+    if (gap === -1) {
+      break
+    }
+
+    const raiseAt = Math.max(0, gap - leadMonths)
+    const coveredUntil = Math.min(cash.length, raiseAt + coverageMonths)
+    const trough = Math.min(...cash.slice(raiseAt, coveredUntil))
+    const buffer = BUFFER_MONTHS * Math.max(0, -net[raiseAt])
+    const amount = Math.ceil((buffer - trough) / ROUND_INCREMENT) * ROUND_INCREMENT
+
+    cash = cash.map((balance, index) => index >= raiseAt ? balance + amount : balance)
+    rounds.push({
+      month: raiseAt + 1,
+      stage: {
+        name: stageFor(amount).name,
+        amount,
+        purpose: [
+          `Fund operations through month ${coveredUntil}`,
+          `Cover burn of about $${Math.round(Math.max(0, -net[raiseAt])).toLocaleString('en-US')}/month at the raise`
+        ],
+        milestones: roundMilestones(projections[coveredUntil - 1], model.metrics.breakeven, coveredUntil),
+        timeline: `Month ${raiseAt + 1}`
+      }
+    })
+  }
+
+  const stages = rounds.map(round => round.stage)
+  const sources: FundingSource[] = stages.map(stage => ({
+    type: stageFor(stage.amount).source,
+    amount: stage.amount,
+    probability: stageFor(stage.amount).probability,
+    requirements: stage.milestones,
+    timeline: stage.timeline
+  }))
+
+  const first = rounds[0]
+  const pre = first && preMoney <= 0 ? first.stage.amount / DEFAULT_DILUTION - first.stage.amount : preMoney
+  const post = pre + (first?.stage.amount ?? 0)
+
+  return {
+    stages,
+    sources,
+    timeline: {
+      preparation: first ? `Month ${Math.max(1, first.month - 3)}` : 'Not needed',
+      fundraising: first ? `Months ${Math.max(1, first.month - 2)}–${first.month}` : 'Not needed',
+      closing: first ? `Month ${first.month}` : 'Not needed',
+      milestones: rounds.map(round => ({
+        name: `${round.stage.name} closed`,
+        date: addMonths(startDate, round.month - 1),
+        requirements: round.stage.milestones,
+        deliverables: round.stage.purpose
+      }))
+    },
+    terms: {
+      valuation: { pre: roundCurrency(pre), post: roundCurrency(post) },
+      equity: post > 0 && first ? Math.round(first.stage.amount / post * 1000) / 1000 : 0,
+      liquidation: '1x non-participating preference',
+      board: first ? ['Founders (2 seats)', 'Lead investor (1 seat)'] : [],
+      voting: ['Protective provisions for major decisions'],
+      antiDilution: 'Broad-based weighted average'
+    }
+  }
+}
+
+/** The comps table a model was last valued with, so a rebuilt model is valued the same way */
+export function valuationOptionsOf(model?: Partial<ComprehensiveFinancialModel>): ValuationOptions {
+  const companies = model?.valuation?.comparables?.companies
+  return companies ? { comparables: companies } : {}
+}
+
+/** Adds a valuation and a funding plan to a model built from assumptions */
+export function withValuation(
+  model: ComprehensiveFinancialModel,
+  options: ValuationOptions & FundingOptions = {}
+): ComprehensiveFinancialModel {
+  const valuation = valueBusiness(model, options)
+  return { ...model, valuation, funding: planFunding(model, blendedValuation(valuation), options) }
+}
+
+function discountCashFlows(projections: MonthlyProjection[], discountRate: number, terminalGrowth: number): DCFAnalysis {
+  const cashFlows: number[] = []
+  projections.forEach((month, index) => {
+    const year = Math.floor(index / 12)
+    cashFlows[year] = (cashFlows[year] ?? 0) + month.revenue - (month.costs ?? 0)
+  })
+
+  const years = cashFlows.length
+  const last = cashFlows[years - 1] ?? 0
+  // A business still losing money at the end of the projection gets no terminal value
+  const terminalValue = last > 0 && discountRate > terminalGrowth
+    ? last * (1 + terminalGrowth) / (discountRate - terminalGrowth)
+    : 0
+  const discounted = cashFlows.reduce((sum, flow, year) => sum + flow / Math.pow(1 + discountRate, year + 1), 0)
+    + terminalValue / Math.pow(1 + discountRate, years)
+
+  return {
+    projectionYears: years,
+    terminalGrowth,
+    discountRate,
+    cashFlows: cashFlows.map(roundCurrency),
+    terminalValue: roundCurrency(terminalValue),
+    presentValue: roundCurrency(Math.max(0, discounted))
+  }
+}
+
+function valueByComparables(companies: ComparableCompany[], arr: number): ComparableAnalysis {
+  const usable = companies.filter(company => company.weight > 0 && (company.metrics[REVENUE_MULTIPLE] ?? 0) > 0)
+  const totalWeight = usable.reduce((sum, company) => sum + company.weight, 0)
+  const multiple = totalWeight > 0
+    ? usable.reduce((sum, company) => sum + adjustedMultiple(company) * company.weight, 0) / totalWeight
+    : 0
+
+  return {
+    companies,
+    metrics: [REVENUE_MULTIPLE],
+    adjustments: companies.flatMap(company => Object.entries(company.adjustments)
+      .filter(([, adjustment]) => adjustment !== 0)
+      .map(([reason, adjustment]) => `${company.name}: ${adjustment > 0 ? '+' : ''}${formatRate(adjustment)} for ${reason}`)),
+    valuation: roundCurrency(Math.max(0, multiple * arr))
+  }
+}
+
+/** A company's multiple with its percentage adjustments (e.g. -0.3 for size) applied */
+function adjustedMultiple(company: ComparableCompany): number {
+  const adjustment = Object.values(company.adjustments).reduce((sum, value) => sum + value, 0)
+  return Math.max(0, (company.metrics[REVENUE_MULTIPLE] ?? 0) * (1 + adjustment))
+}
+
+function roundMilestones(month: MonthlyProjection | undefined, breakeven: number, coveredUntil: number): string[] {
+  if (!month) {
+    return []
+  }
+
+  return [
+    `${month.users.toLocaleString('en-US')} paying customers`,
+    `$${Math.round(month.revenue).toLocaleString('en-US')} monthly revenue`,
+    ...(breakeven > 0 && breakeven <= coveredUntil ? [`Breakeven by month ${breakeven}`] : [])
+  ]
+}
+
+function stageFor(amount: number) {
+  return STAGE_SIZES.find(stage => amount <= stage.upTo) ?? STAGE_SIZES[STAGE_SIZES.length - 1]
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date)
+  result.setMonth(result.getMonth() + months)
+  return result
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
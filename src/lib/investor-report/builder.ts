@@ -0,0 +1,384 @@
+import { z } from 'zod'
+import {
+  Blueprint,
+  ComprehensiveFinancialModel,
+  CostBreakdown,
+  ProductPlan,
+  Roadmap,
+  TechStack
+} from '@/types'
+import {
+  BusinessModelSection,
+  FinancialProjectionsSection,
+  FundingRequestSection,
+  FundingUse,
+  InvestorReport,
+  MarketOpportunitySection,
+  ReportAppendix,
+  RiskAnalysisSection
+} from '@/types/services'
+
+/** The narrative paragraphs a user can rewrite, with their editor labels */
+export const NARRATIVE_FIELDS = {
+  executiveSummary: 'Executive summary',
+  marketSize: 'Market size',
+  targetMarket: 'Target market',
+  competitiveLandscape: 'Competitive landscape',
+  opportunity: 'Opportunity',
+  valueProposition: 'Value proposition',
+  revenueModel: 'Revenue model'
+} as const
+
+export type NarrativeField = keyof typeof NARRATIVE_FIELDS
+
+/** User edits, stored on the blueprint as `reportNarrative` */
+export type ReportNarrative = Partial<Record<NarrativeField, string>>
+
+export const ReportNarrativeSchema = z.object(
+  Object.fromEntries(Object.keys(NARRATIVE_FIELDS).map(field => [field, z.string().max(5000).optional()]))
+).strict()
+
+/** A blueprint as stored, with the narrative edits saved on it */
+export type ReportBlueprint = Partial<Blueprint> & { reportNarrative?: ReportNarrative }
+
+/** A report with its narrative text as edited and as generated, which is what the editor works on */
+export interface InvestorReportData {
+  report: InvestorReport
+  narrative: Record<NarrativeField, string>
+  generated: Record<NarrativeField, string>
+}
+
+export interface InvestorReportOptions {
+  projectName: string
+  narrative?: ReportNarrative
+}
+
+/** Risks scoring at least this (probability × impact, out of 100) get a contingency */
+const CONTINGENCY_SCORE = 42
+
+/** Table appendices hold one row per line, header first, cells separated by this */
+export const APPENDIX_CELL_SEPARATOR = ' | '
+
+/**
+ * Assembles an investor report from a blueprint. Market and business model
+ * come from the product plan, projections and funding from the financial
+ * model and risks from the roadmap. Narrative text is generated, then
+ * replaced field by field with whatever the user has written.
+ */
+export function buildInvestorReport(blueprint: Partial<Blueprint>, options: InvestorReportOptions): InvestorReport {
+  const productPlan = blueprint.productPlan
+  const financialModel = blueprint.financialModel as ComprehensiveFinancialModel | undefined
+  const narrative = options.narrative ?? {}
+
+  const marketOpportunity = marketSection(productPlan)
+  const businessModel = businessModelSection(productPlan, financialModel)
+  return {
+    executiveSummary: narrative.executiveSummary || executiveSummary(options.projectName, productPlan, financialModel),
+    marketOpportunity: {
+      ...marketOpportunity,
+      marketSize: narrative.marketSize || marketOpportunity.marketSize,
+      targetMarket: narrative.targetMarket || marketOpportunity.targetMarket,
+      competitiveLandscape: narrative.competitiveLandscape || marketOpportunity.competitiveLandscape,
+      opportunity: narrative.opportunity || marketOpportunity.opportunity
+    },
+    businessModel: {
+      ...businessModel,
+      valueProposition: narrative.valueProposition || businessModel.valueProposition,
+      revenueModel: narrative.revenueModel || businessModel.revenueModel
+    },
+    financialProjections: financialSection(financialModel),
+    riskAnalysis: riskSection(blueprint.roadmap, financialModel),
+    fundingRequest: fundingSection(financialModel),
+    appendices: appendices(productPlan, blueprint.roadmap, blueprint.techStack)
+  }
+}
+
+/** The current text of each narrative field, to seed the editor */
+export function narrativeOf(report: InvestorReport): Record<NarrativeField, string> {
+  return {
+    executiveSummary: report.executiveSummary,
+    marketSize: report.marketOpportunity.marketSize,
+    targetMarket: report.marketOpportunity.targetMarket,
+    competitiveLandscape: report.marketOpportunity.competitiveLandscape,
+    opportunity: report.marketOpportunity.opportunity,
+    valueProposition: report.businessModel.valueProposition,
+    revenueModel: report.businessModel.revenueModel
+  }
+}
+
+/** Builds the report for a stored blueprint, with its saved narrative edits applied */
+export function investorReportData(blueprint: ReportBlueprint, projectName: string): InvestorReportData {
+  const report = buildInvestorReport(blueprint, { projectName, narrative: blueprint.reportNarrative })
+  return {
+    report,
+    narrative: narrativeOf(report),
+    generated: narrativeOf(buildInvestorReport(blueprint, { projectName }))
+  }
+}
+
+function executiveSummary(name: string, productPlan?: ProductPlan, financialModel?: ComprehensiveFinancialModel): string {
+  const sentences: string[] = []
+  const audience = productPlan?.targetAudience?.primary?.demographics
+  const model = productPlan?.monetization?.primary?.model
+
+  sentences.push(`${name} is ${model ? `a ${model} business` : 'a new product'}${audience ? ` for ${lowerFirst(audience)}` : ''}.`)
+
+  const differentiator = productPlan?.differentiators?.[0]
+  if (differentiator) {
+    sentences.push(differentiator.replace(/\.?$/, '.'))
+  }
+
+  const projections = financialModel?.revenue?.projections ?? []
+  if (projections.length > 0) {
+    const years = Math.ceil(projections.length / 12)
+    const lastYearRevenue = projections.slice((years - 1) * 12).reduce((sum, month) => sum + month.revenue, 0)
+    const breakeven = financialModel?.metrics?.breakeven ?? -1
+    sentences.push(
+      `We project ${formatCurrency(lastYearRevenue)} of revenue in year ${years}` +
+      (breakeven > 0 ? ` and reach breakeven in month ${breakeven}.` : '.')
+    )
+  }
+
+  const round = financialModel?.funding?.stages?.[0]
+  if (round) {
+    sentences.push(`We are raising ${formatCurrency(round.amount)} in a ${round.name} round to get there.`)
+  }
+
+  return sentences.join(' ')
+}
+
+function marketSection(productPlan?: ProductPlan): MarketOpportunitySection {
+  const audience = productPlan?.targetAudience
+  const size = audience?.marketSize
+  const competitors = productPlan?.competitorAnalysis
+  const direct = competitors?.direct ?? []
+
+  return {
+    marketSize: size?.tam
+      ? `A ${formatCurrency(size.tam)} total addressable market, of which ${formatCurrency(size.sam)} is serviceable and ${formatCurrency(size.som)} is obtainable in the first years.`
+      : '',
+    targetMarket: [audience?.primary?.demographics, audience?.primary?.psychographics].filter(Boolean).join('. '),
+    competitiveLandscape: direct.length
+      ? `${direct.map(competitor => competitor.name).join(', ')} compete directly. ` +
+        direct
+          .filter(competitor => competitor.weaknesses?.length)
+          .map(competitor => `${competitor.name} is weak on ${competitor.weaknesses.slice(0, 2).join(' and ').toLowerCase()}.`)
+          .join(' ')
+      : '',
+    marketTrends: competitors?.whitespace ?? [],
+    opportunity: (productPlan?.differentiators ?? []).join('. ')
+  }
+}
+
+function businessModelSection(productPlan?: ProductPlan, financialModel?: ComprehensiveFinancialModel): BusinessModelSection {
+  const primary = productPlan?.monetization?.primary
+  const metrics = financialModel?.metrics
+  const audience = productPlan?.targetAudience
+
+  return {
+    valueProposition: (productPlan?.coreFeatures ?? [])
+      .slice(0, 3)
+      .map(feature => `${feature.name}: ${feature.description}`)
+      .join('. '),
+    revenueModel: primary
+      ? [
+        `${capitalize(primary.model)}${primary.pricing?.length ? ` with ${primary.pricing.length} plan${primary.pricing.length === 1 ? '' : 's'} from ${formatPrice(Math.min(...primary.pricing.map(tier => tier.price)))}` : ''}.`,
+        primary.reasoning
+      ].filter(Boolean).join(' ')
+      : '',
+    customerSegments: [
+      audience?.primary?.demographics,
+      audience?.secondary?.demographics
+    ].filter((segment): segment is string => !!segment),
+    channels: (productPlan?.gtmStrategy?.marketingChannels ?? []).map(channel => channel.name),
+    keyMetrics: metrics ? {
+      cac: metrics.cac,
+      ltv: metrics.ltv,
+      ltvCacRatio: metrics.ltvCacRatio,
+      burnRate: metrics.burnRate,
+      runway: metrics.runway,
+      breakeven: metrics.breakeven
+    } : {}
+  }
+}
+
+function financialSection(financialModel?: ComprehensiveFinancialModel): FinancialProjectionsSection {
+  return {
+    assumptions: financialModel?.revenue?.assumptions ?? [],
+    projections: financialModel?.revenue?.projections ?? [],
+    keyMetrics: financialModel?.metrics ?? { cac: 0, ltv: 0, ltvCacRatio: 0, burnRate: 0, runway: -1, breakeven: -1, roi: 0 },
+    scenarios: (financialModel?.scenarios ?? []).map(scenario => {
+      const months = scenario.revenue?.projections ?? []
+      return {
+        name: scenario.name,
+        probability: scenario.probability,
+        description: scenario.description,
+        keyMetrics: {
+          revenue: months.reduce((sum, month) => sum + month.revenue, 0),
+          costs: months.reduce((sum, month) => sum + (month.costs ?? 0), 0),
+          endingCash: months[months.length - 1]?.cash ?? 0
+        }
+      }
+    })
+  }
+}
+
+/** Roadmap risks, most severe first, with contingencies for the worst */
+function riskSection(roadmap?: Roadmap, financialModel?: ComprehensiveFinancialModel): RiskAnalysisSection {
+  const risks = [...(roadmap?.risks ?? [])]
+    .sort((a, b) => b.probability * b.impact - a.probability * a.impact)
+    .map(risk => ({
+      category: risk.category,
+      description: risk.description,
+      probability: risk.probability,
+      impact: risk.impact,
+      mitigation: risk.mitigation
+    }))
+
+  const contingencies = risks
+    .filter(risk => risk.probability * risk.impact >= CONTINGENCY_SCORE)
+    .map(risk => `If ${lowerFirst(risk.description).replace(/\.$/, '')}: move the affected roadmap work later and re-plan the budget around the remaining runway`)
+  const runway = financialModel?.metrics?.runway ?? -1
+  if (runway > 0) {
+    contingencies.push(`Cash lasts ${runway} months without new funding, so fundraising starts no later than month ${Math.max(1, runway - 6)}`)
+  }
+
+  return {
+    risks,
+    mitigation: Array.from(new Set(risks.map(risk => risk.mitigation).filter(Boolean))),
+    contingencies
+  }
+}
+
+function fundingSection(financialModel?: ComprehensiveFinancialModel): FundingRequestSection {
+  const funding = financialModel?.funding
+  const round = funding?.stages?.[0]
+  if (!funding || !round) {
+    return { amount: 0, use: [], timeline: '', milestones: [], terms: [] }
+  }
+
+  const { terms } = funding
+  return {
+    amount: round.amount,
+    use: allocateFunds(round.amount, financialModel.costs, round.purpose),
+    timeline: `Preparation from ${funding.timeline.preparation}, closing in ${funding.timeline.closing}`,
+    milestones: funding.timeline.milestones,
+    terms: [
+      `${formatCurrency(terms.valuation.pre)} pre-money, ${formatCurrency(terms.valuation.post)} post-money`,
+      `${(terms.equity * 100).toFixed(1)}% equity`,
+      terms.liquidation,
+      ...(terms.board.length ? [`Board: ${terms.board.join(', ')}`] : []),
+      `Anti-dilution: ${terms.antiDilution}`
+    ].filter(Boolean)
+  }
+}
+
+/** Splits the round across cost categories in proportion to their monthly spend */
+function allocateFunds(amount: number, costs: CostBreakdown | undefined, purpose: string[]): FundingUse[] {
+  const categories = [
+    {
+      category: 'Team',
+      monthly: (costs?.team ?? []).reduce((sum, member) => sum + member.salary + member.benefits, 0),
+      description: (costs?.team ?? []).map(member => member.role).join(', ')
+    },
+    {
+      category: 'Infrastructure',
+      monthly: (costs?.infrastructure ?? []).reduce((sum, item) => sum + item.cost, 0),
+      description: (costs?.infrastructure ?? []).map(item => item.service).join(', ')
+    },
+    {
+      category: 'Tools',
+      monthly: (costs?.tools ?? []).reduce((sum, tool) => sum + (tool.interval === 'monthly' ? tool.cost : tool.cost / 12), 0),
+      description: (costs?.tools ?? []).map(tool => tool.name).join(', ')
+    },
+    {
+      category: 'Marketing',
+      monthly: (costs?.marketing ?? []).reduce((sum, item) => sum + item.budget, 0),
+      description: (costs?.marketing ?? []).map(item => item.channel).join(', ')
+    }
+  ].filter(item => item.monthly > 0)
+
+  const total = categories.reduce((sum, item) => sum + item.monthly, 0)
+  if (total === 0) {
+    return [{ category: 'Operations', amount, percentage: 100, description: purpose.join('; ') }]
+  }
+
+  return categories.map(item => ({
+    category: item.category,
+    amount: Math.round(amount * item.monthly / total),
+    percentage: Math.round(item.monthly / total * 1000) / 10,
+    description: item.description
+  }))
+}
+
+function appendices(productPlan?: ProductPlan, roadmap?: Roadmap, techStack?: TechStack): ReportAppendix[] {
+  const result: ReportAppendix[] = []
+  const row = (cells: string[]) => cells.map(cell => cell.replace(/\s*\|\s*/g, ' / ')).join(APPENDIX_CELL_SEPARATOR)
+
+  const phases = roadmap?.phases ?? []
+  if (phases.length > 0) {
+    result.push({
+      title: 'Development roadmap',
+      type: 'table',
+      content: [
+        row(['Phase', 'Hours', 'Milestone', 'Due']),
+        ...phases.map(phase => row([
+          phase.name,
+          String(phase.estimatedHours ?? ''),
+          phase.milestone?.name ?? '',
+          phase.milestone?.dueDate ? new Date(phase.milestone.dueDate).toISOString().slice(0, 10) : ''
+        ]))
+      ].join('\n')
+    })
+  }
+
+  const tiers = productPlan?.monetization?.primary?.pricing ?? []
+  if (tiers.length > 0) {
+    result.push({
+      title: 'Pricing',
+      type: 'table',
+      content: [
+        row(['Plan', 'Price', 'For']),
+        ...tiers.map(tier => row([tier.name, `${formatPrice(tier.price)} ${tier.interval}`, tier.targetSegment ?? '']))
+      ].join('\n')
+    })
+  }
+
+  if (techStack) {
+    const layers = [
+      ['Frontend', techStack.frontend],
+      ['Backend', techStack.backend],
+      ['Database', techStack.database]
+    ] as const
+    const lines = layers
+      .filter(([, items]) => items?.length)
+      .map(([layer, items]) => `${layer}: ${items.map(item => item.name).join(', ')}`)
+    if (lines.length > 0) {
+      result.push({ title: 'Technology', type: 'text', content: lines.join('\n') })
+    }
+  }
+
+  return result
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 1
+  }).format(amount)
+}
+
+function formatPrice(price: number): string {
+  return `$${price.toLocaleString('en-US')}`
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1)
+}
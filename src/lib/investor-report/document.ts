@@ -0,0 +1,277 @@
+import { ChartData, MonthlyProjection } from '@/types'
+import { InvestorReport } from '@/types/services'
+import { chartToSVG, escapeXML } from '@/lib/pitch-deck/charts'
+import { deckTheme } from '@/lib/pitch-deck/themes'
+import { APPENDIX_CELL_SEPARATOR } from './builder'
+
+/**
+ * A report flattened to blocks that the HTML, Markdown and PDF renderers
+ * all understand, so the three formats always have the same content.
+ */
+export type ReportBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] }
+  | { type: 'table'; headers: string[]; rows: string[][] }
+  | { type: 'chart'; chart: ChartData }
+
+const METRIC_LABELS: Record<string, string> = {
+  cac: 'Customer acquisition cost',
+  ltv: 'Lifetime value',
+  ltvCacRatio: 'LTV:CAC',
+  burnRate: 'Monthly burn',
+  runway: 'Runway (months)',
+  breakeven: 'Breakeven (month)'
+}
+
+export function reportToBlocks(report: InvestorReport, title: string): ReportBlock[] {
+  const blocks: ReportBlock[] = [{ type: 'heading', level: 1, text: title }]
+  const heading = (level: 2 | 3, text: string) => blocks.push({ type: 'heading', level, text })
+  const paragraph = (label: string, text: string) => {
+    if (text) {
+      heading(3, label)
+      blocks.push({ type: 'paragraph', text })
+    }
+  }
+  const list = (label: string, items: string[]) => {
+    if (items.length) {
+      heading(3, label)
+      blocks.push({ type: 'list', items })
+    }
+  }
+
+  heading(2, 'Executive Summary')
+  blocks.push({ type: 'paragraph', text: report.executiveSummary })
+
+  const market = report.marketOpportunity
+  heading(2, 'Market Opportunity')
+  paragraph('Market size', market.marketSize)
+  paragraph('Target market', market.targetMarket)
+  paragraph('Competitive landscape', market.competitiveLandscape)
+  list('Gaps in the market', market.marketTrends)
+  paragraph('Opportunity', market.opportunity)
+
+  const model = report.businessModel
+  heading(2, 'Business Model')
+  paragraph('Value proposition', model.valueProposition)
+  paragraph('Revenue model', model.revenueModel)
+  list('Customer segments', model.customerSegments)
+  list('Channels', model.channels)
+  const metrics = Object.entries(model.keyMetrics)
+  if (metrics.length) {
+    heading(3, 'Key metrics')
+    blocks.push({
+      type: 'table',
+      headers: ['Metric', 'Value'],
+      rows: metrics.map(([key, value]) => [METRIC_LABELS[key] ?? key, formatMetric(key, value)])
+    })
+  }
+
+  const financials = report.financialProjections
+  if (financials.projections.length) {
+    heading(2, 'Financial Projections')
+    list('Assumptions', financials.assumptions)
+    blocks.push({ type: 'chart', chart: quarterlyChart(financials.projections) })
+    heading(3, 'Yearly summary')
+    blocks.push({
+      type: 'table',
+      headers: ['Year', 'Revenue', 'Costs', 'Net', 'Customers'],
+      rows: yearlySummary(financials.projections)
+    })
+    if (financials.scenarios.length) {
+      heading(3, 'Scenarios')
+      blocks.push({
+        type: 'table',
+        headers: ['Scenario', 'Probability', 'Revenue', 'Description'],
+        rows: financials.scenarios.map(scenario => [
+          scenario.name,
+          `${Math.round(scenario.probability * 100)}%`,
+          formatCurrency(scenario.keyMetrics.revenue ?? 0),
+          scenario.description
+        ])
+      })
+    }
+  }
+
+  const risks = report.riskAnalysis
+  if (risks.risks.length) {
+    heading(2, 'Risk Analysis')
+    blocks.push({
+      type: 'table',
+      headers: ['Category', 'Risk', 'Probability', 'Impact', 'Mitigation'],
+      rows: risks.risks.map(risk => [risk.category, risk.description, `${risk.probability}/10`, `${risk.impact}/10`, risk.mitigation])
+    })
+    list('Contingencies', risks.contingencies)
+  }
+
+  const funding = report.fundingRequest
+  if (funding.amount > 0) {
+    heading(2, 'Funding Request')
+    blocks.push({ type: 'paragraph', text: `We are raising ${formatCurrency(funding.amount)}. ${funding.timeline}.` })
+    if (funding.use.length) {
+      heading(3, 'Use of funds')
+      blocks.push({
+        type: 'table',
+        headers: ['Category', 'Amount', 'Share', 'Covers'],
+        rows: funding.use.map(use => [use.category, formatCurrency(use.amount), `${use.percentage}%`, use.description])
+      })
+    }
+    if (funding.milestones.length) {
+      heading(3, 'Milestones')
+      blocks.push({
+        type: 'table',
+        headers: ['Milestone', 'Date', 'Requires'],
+        rows: funding.milestones.map(milestone => [
+          milestone.name,
+          new Date(milestone.date).toISOString().slice(0, 10),
+          milestone.requirements.join('; ')
+        ])
+      })
+    }
+    list('Terms', funding.terms)
+  }
+
+  if (report.appendices.length) {
+    heading(2, 'Appendices')
+    for (const appendix of report.appendices) {
+      heading(3, appendix.title)
+      if (appendix.type === 'table') {
+        const [headers, ...rows] = appendix.content.split('\n').map(line => line.split(APPENDIX_CELL_SEPARATOR))
+        blocks.push({ type: 'table', headers: headers ?? [], rows })
+      } else {
+        blocks.push({ type: 'list', items: appendix.content.split('\n').filter(Boolean) })
+      }
+    }
+  }
+
+  return blocks
+}
+
+/** A standalone, printable HTML document */
+export function blocksToHTML(blocks: ReportBlock[], title: string): string {
+  const theme = deckTheme()
+  const body = blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level}>${escapeXML(block.text)}</h${block.level}>`
+      case 'paragraph':
+        return `<p>${escapeXML(block.text)}</p>`
+      case 'list':
+        return `<ul>${block.items.map(item => `<li>${escapeXML(item)}</li>`).join('')}</ul>`
+      case 'table':
+        return `<table><thead><tr>${block.headers.map(header => `<th>${escapeXML(header)}</th>`).join('')}</tr></thead><tbody>${block.rows
+          .map(row => `<tr>${row.map(cell => `<td>${escapeXML(cell)}</td>`).join('')}</tr>`)
+          .join('')}</tbody></table>`
+      case 'chart':
+        return `<figure>${chartToSVG(block.chart, theme)}<figcaption>${escapeXML(block.chart.title)}</figcaption></figure>`
+    }
+  }).join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeXML(title)}</title>
+<style>
+body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.6; max-width: 820px; margin: 0 auto; padding: 40px 24px; color: ${theme.text}; }
+h1, h2, h3 { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+h1 { border-bottom: 3px solid ${theme.accent}; padding-bottom: 10px; }
+h2 { margin-top: 40px; border-bottom: 1px solid ${theme.surface}; padding-bottom: 4px; page-break-after: avoid; }
+h3 { margin-bottom: 4px; page-break-after: avoid; }
+table { width: 100%; border-collapse: collapse; font-size: 14px; margin: 8px 0 16px; page-break-inside: avoid; }
+th { text-align: left; background: ${theme.surface}; padding: 6px 8px; }
+td { padding: 6px 8px; border-bottom: 1px solid ${theme.surface}; vertical-align: top; }
+figure { margin: 16px 0; }
+figure svg { width: 100%; height: auto; }
+figcaption { text-align: center; font-size: 13px; color: ${theme.muted}; }
+@media print { body { padding: 0; } }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+}
+
+export function blocksToMarkdown(blocks: ReportBlock[]): string {
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ')
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `${'#'.repeat(block.level)} ${block.text}`
+      case 'paragraph':
+        return block.text
+      case 'list':
+        return block.items.map(item => `- ${item}`).join('\n')
+      case 'table':
+        return [
+          `| ${block.headers.map(cell).join(' | ')} |`,
+          `| ${block.headers.map(() => '---').join(' | ')} |`,
+          ...block.rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+        ].join('\n')
+      case 'chart':
+        return `| ${['Period', ...block.chart.data.map(series => series.name)].join(' | ')} |\n| ${['---', ...block.chart.data.map(() => '---')].join(' | ')} |\n${block.chart.labels
+          .map((label, i) => `| ${[label, ...block.chart.data.map(series => formatCurrency(series.values[i] ?? 0))].join(' | ')} |`)
+          .join('\n')}`
+    }
+  }).join('\n\n') + '\n'
+}
+
+function quarterlyChart(projections: MonthlyProjection[]): ChartData {
+  const quarters = Math.ceil(projections.length / 3)
+  const sumQuarter = (value: (month: MonthlyProjection) => number) =>
+    Array.from({ length: quarters }, (_, quarter) => projections
+      .slice(quarter * 3, quarter * 3 + 3)
+      .reduce((sum, month) => sum + value(month), 0))
+
+  return {
+    type: 'line',
+    title: 'Quarterly revenue and costs (USD)',
+    labels: Array.from({ length: quarters }, (_, quarter) => `Q${quarter + 1}`),
+    data: [
+      { name: 'Revenue', values: sumQuarter(month => month.revenue) },
+      { name: 'Costs', values: sumQuarter(month => month.costs ?? 0) }
+    ]
+  }
+}
+
+function yearlySummary(projections: MonthlyProjection[]): string[][] {
+  const years = Math.ceil(projections.length / 12)
+  return Array.from({ length: years }, (_, year) => {
+    const months = projections.slice(year * 12, year * 12 + 12)
+    const revenue = months.reduce((sum, month) => sum + month.revenue, 0)
+    const costs = months.reduce((sum, month) => sum + (month.costs ?? 0), 0)
+    return [
+      `Year ${year + 1}`,
+      formatCurrency(revenue),
+      formatCurrency(costs),
+      formatCurrency(revenue - costs),
+      months[months.length - 1].users.toLocaleString('en-US')
+    ]
+  })
+}
+
+function formatMetric(key: string, value: number): string {
+  if (key === 'runway') {
+    return value < 0 ? 'Cash never runs out' : String(value)
+  }
+  if (key === 'breakeven') {
+    return value < 0 ? 'Not reached' : String(value)
+  }
+  if (key === 'ltvCacRatio') {
+    return `${value.toFixed(1)}:1`
+  }
+  return formatCurrency(value)
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 1
+  }).format(amount)
+}
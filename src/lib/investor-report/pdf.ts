@@ -0,0 +1,242 @@
+import { layoutChart } from '@/lib/pitch-deck/charts'
+import { deckTheme } from '@/lib/pitch-deck/themes'
+import { ReportBlock } from './document'
+
+/** US Letter, in points */
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 54
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN
+
+const HEADING_SIZES = { 1: 20, 2: 14, 3: 11 } as const
+const BODY_SIZE = 10
+const TABLE_SIZE = 8.5
+const LINE_HEIGHT = 1.4
+const CHART_HEIGHT = 220
+
+/** Helvetica advance widths for ASCII 32-126, in 1/1000 em */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+
+/** Bold glyphs are about this much wider, which is close enough for wrapping */
+const BOLD_FACTOR = 1.08
+
+/** Characters outside Latin-1 that WinAnsiEncoding still has */
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+}
+
+type Font = 'F1' | 'F2'
+
+/**
+ * Writes the blocks as a PDF using only the built-in Helvetica fonts, so no
+ * font files or rendering service are needed. Text outside WinAnsi (Latin-1
+ * plus typographic punctuation) prints as '?'.
+ */
+export function blocksToPDF(blocks: ReportBlock[], title: string): Uint8Array {
+  const pages: string[][] = [[]]
+  let y = PAGE_HEIGHT - MARGIN
+
+  const page = () => pages[pages.length - 1]
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      pages.push([])
+      y = PAGE_HEIGHT - MARGIN
+    }
+  }
+  const text = (x: number, baseline: number, content: string, font: Font, size: number, color = '0 0 0') => {
+    page().push(`BT ${color} rg /${font} ${size} Tf ${x.toFixed(2)} ${baseline.toFixed(2)} Td (${encode(content)}) Tj ET`)
+  }
+  const lines = (content: string, font: Font, size: number, x: number, width: number) => {
+    for (const line of wrap(content, font, size, width)) {
+      ensureSpace(size * LINE_HEIGHT)
+      y -= size * LINE_HEIGHT
+      text(x, y + size * 0.3, line, font, size)
+    }
+  }
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'heading': {
+        const size = HEADING_SIZES[block.level]
+        // Keep a heading with at least a few lines of what follows it
+        ensureSpace(size * 2 + BODY_SIZE * LINE_HEIGHT * 3)
+        y -= block.level === 1 ? 0 : size
+        lines(block.text, 'F2', size, MARGIN, CONTENT_WIDTH)
+        y -= size * 0.4
+        break
+      }
+      case 'paragraph':
+        lines(block.text, 'F1', BODY_SIZE, MARGIN, CONTENT_WIDTH)
+        y -= BODY_SIZE * 0.6
+        break
+      case 'list':
+        for (const item of block.items) {
+          ensureSpace(BODY_SIZE * LINE_HEIGHT)
+          text(MARGIN + 4, y - BODY_SIZE * LINE_HEIGHT + BODY_SIZE * 0.3, '•', 'F1', BODY_SIZE)
+          lines(item, 'F1', BODY_SIZE, MARGIN + 16, CONTENT_WIDTH - 16)
+          y -= BODY_SIZE * 0.2
+        }
+        y -= BODY_SIZE * 0.6
+        break
+      case 'table': {
+        const columns = Math.max(block.headers.length, 1)
+        const columnWidth = CONTENT_WIDTH / columns
+        const row = (cells: string[], font: Font) => {
+          const wrapped = Array.from({ length: columns }, (_, i) => wrap(cells[i] ?? '', font, TABLE_SIZE, columnWidth - 8))
+          const height = Math.max(...wrapped.map(cell => cell.length), 1) * TABLE_SIZE * LINE_HEIGHT + 6
+          ensureSpace(height)
+          wrapped.forEach((cell, i) => cell.forEach((line, n) => {
+            text(MARGIN + i * columnWidth + 4, y - 3 - (n + 1) * TABLE_SIZE * LINE_HEIGHT + TABLE_SIZE * 0.3, line, font, TABLE_SIZE)
+          }))
+          y -= height
+          page().push(`0.85 0.85 0.85 RG 0.5 w ${MARGIN} ${y.toFixed(2)} m ${MARGIN + CONTENT_WIDTH} ${y.toFixed(2)} l S`)
+        }
+        row(block.headers, 'F2')
+        block.rows.forEach(cells => row(cells, 'F1'))
+        y -= BODY_SIZE
+        break
+      }
+      case 'chart': {
+        ensureSpace(CHART_HEIGHT + BODY_SIZE * 3)
+        const top = y
+        const theme = deckTheme()
+        const layout = layoutChart(block.chart, CONTENT_WIDTH, CHART_HEIGHT)
+        const toX = (x: number) => (MARGIN + x).toFixed(2)
+        const toY = (chartY: number) => (top - chartY).toFixed(2)
+
+        page().push(`${rgb(theme.muted)} RG 0.5 w ${toX(layout.plot.x)} ${toY(layout.plot.y + layout.plot.height)} m ${toX(layout.plot.x + layout.plot.width)} ${toY(layout.plot.y + layout.plot.height)} l S`)
+        for (const bar of layout.bars) {
+          page().push(`${rgb(theme.series[bar.series % theme.series.length])} rg ${toX(bar.x)} ${toY(bar.y + bar.height)} ${bar.width.toFixed(2)} ${bar.height.toFixed(2)} re f`)
+        }
+        for (const line of layout.lines) {
+          const path = line.points.map((point, i) => `${toX(point.x)} ${toY(point.y)} ${i === 0 ? 'm' : 'l'}`).join(' ')
+          page().push(`${rgb(theme.series[line.series % theme.series.length])} RG 2 w 1 j ${path} S`)
+        }
+        for (const label of layout.axisLabels) {
+          const width = textWidth(label.text, 'F1', TABLE_SIZE)
+          text(MARGIN + label.x - width / 2, top - label.y, label.text, 'F1', TABLE_SIZE, rgb(theme.muted))
+        }
+        let legendX = 0
+        for (const item of layout.legend) {
+          page().push(`${rgb(theme.series[item.color % theme.series.length])} rg ${toX(legendX)} ${toY(14)} 9 9 re f`)
+          text(MARGIN + legendX + 13, top - 13, item.name, 'F1', TABLE_SIZE)
+          legendX += 24 + textWidth(item.name, 'F1', TABLE_SIZE)
+        }
+
+        y = top - CHART_HEIGHT - TABLE_SIZE * LINE_HEIGHT
+        const caption = block.chart.title
+        text(MARGIN + (CONTENT_WIDTH - textWidth(caption, 'F1', TABLE_SIZE)) / 2, y, caption, 'F1', TABLE_SIZE, rgb(theme.muted))
+        y -= BODY_SIZE * 2
+        break
+      }
+    }
+  }
+
+  pages.forEach((commands, index) => {
+    const footer = `${title} · ${index + 1} of ${pages.length}`
+    commands.push(`BT 0.45 0.45 0.45 rg /F1 8 Tf ${(PAGE_WIDTH - MARGIN - textWidth(footer, 'F1', 8)).toFixed(2)} ${MARGIN / 2} Td (${encode(footer)}) Tj ET`)
+  })
+
+  return writePDF(pages.map(commands => commands.join('\n')), title)
+}
+
+/** Lays out the document objects and the cross-reference table */
+function writePDF(contents: string[], title: string): Uint8Array {
+  const objects: string[] = []
+  const add = (body: string) => objects.push(body)
+
+  add('<< /Type /Catalog /Pages 2 0 R >>')
+  const firstPage = 6
+  add(`<< /Type /Pages /Kids [${contents.map((_, i) => `${firstPage + i * 2} 0 R`).join(' ')}] /Count ${contents.length} >>`)
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+  add(`<< /Title (${encode(title)}) /Producer (InfiniteIdea) >>`)
+  contents.forEach((content, i) => {
+    add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPage + i * 2 + 1} 0 R >>`)
+    add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+  })
+
+  // Every string is ASCII after encode(), so lengths are byte offsets
+  let output = '%PDF-1.4\n'
+  const offsets = objects.map((body, i) => {
+    const offset = output.length
+    output += `${i + 1} 0 obj\n${body}\nendobj\n`
+    return offset
+  })
+  const xref = output.length
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  return new TextEncoder().encode(output)
+}
+
+/** A PDF string literal body: ASCII as is, WinAnsi bytes as octal escapes */
+function encode(text: string): string {
+  return Array.from(text, char => {
+    const code = winAnsiCode(char)
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      return `\\${char}`
+    }
+    return code >= 32 && code < 127 ? char : `\\${code.toString(8).padStart(3, '0')}`
+  }).join('')
+}
+
+function winAnsiCode(char: string): number {
+  const code = char.codePointAt(0) ?? 63
+  if (code < 128 || (code >= 0xa0 && code <= 0xff)) {
+    return code === 9 || code === 10 ? 32 : code
+  }
+  return WIN_ANSI[char] ?? 63
+}
+
+function textWidth(text: string, font: Font, size: number): number {
+  const units = Array.from(text).reduce((sum, char) => {
+    const code = winAnsiCode(char)
+    return sum + (code >= 32 && code < 127 ? HELVETICA_WIDTHS[code - 32] : 556)
+  }, 0)
+  return units * size / 1000 * (font === 'F2' ? BOLD_FACTOR : 1)
+}
+
+/** Greedy word wrap; words longer than a line are broken mid-word */
+function wrap(text: string, font: Font, size: number, width: number): string[] {
+  const result: string[] = []
+  for (const paragraph of text.split('\n')) {
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (textWidth(candidate, font, size) <= width) {
+        line = candidate
+        continue
+      }
+      if (line) {
+        result.push(line)
+      }
+      line = word
+      while (textWidth(line, font, size) > width && line.length > 1) {
+        let cut = line.length - 1
+        while (cut > 1 && textWidth(line.slice(0, cut), font, size) > width) {
+          cut--
+        }
+        result.push(line.slice(0, cut))
+        line = line.slice(cut)
+      }
+    }
+    if (line) {
+      result.push(line)
+    }
+  }
+  return result.length ? result : ['']
+}
+
+function rgb(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(channel => (channel / 255).toFixed(3)).join(' ')
+}
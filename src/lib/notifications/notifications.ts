@@ -0,0 +1,46 @@
+import { prisma } from '@/lib/prisma'
+
+export type NotificationType = 'comment' | 'reply' | 'mention' | 'invitation'
+
+export interface NotificationInput {
+  type: NotificationType
+  title: string
+  body?: string
+  link?: string
+  projectId?: string
+}
+
+/** How many notifications the notification menu shows */
+export const NOTIFICATION_PAGE_SIZE = 20
+
+/** Creates the same notification for each user, once per user */
+export async function notifyUsers(userIds: string[], notification: NotificationInput): Promise<void> {
+  const recipients = [...new Set(userIds)]
+  if (recipients.length === 0) return
+
+  await prisma.notification.createMany({
+    data: recipients.map(userId => ({ userId, ...notification }))
+  })
+}
+
+export async function listNotifications(userId: string) {
+  const [notifications, unread] = await Promise.all([
+    prisma.notification.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: NOTIFICATION_PAGE_SIZE
+    }),
+    prisma.notification.count({ where: { userId, readAt: null } })
+  ])
+
+  return { notifications, unread }
+}
+
+/** Marks the given notifications read, or all of the user's when no ids are given */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  const { count } = await prisma.notification.updateMany({
+    where: { userId, readAt: null, ...(ids ? { id: { in: ids } } : {}) },
+    data: { readAt: new Date() }
+  })
+  return count
+}
@@ -0,0 +1,232 @@
+import { randomBytes } from 'crypto'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { hasRole, isProjectRole, PROJECT_ROLES, ProjectRole } from '@/lib/access/project-access'
+import { notifyUsers } from '@/lib/notifications/notifications'
+
+/** How long an invitation can be accepted for */
+export const INVITATION_TTL_DAYS = 7
+
+export const CreateOrganizationSchema = z.object({
+  name: z.string().trim().min(1).max(100)
+})
+
+export const InvitationInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(PROJECT_ROLES).default('viewer')
+})
+
+export const MemberRoleSchema = z.object({
+  role: z.enum(PROJECT_ROLES)
+})
+
+export type OrganizationResult<T> =
+  | { success: true; data: T }
+  | { success: false; status: number; error: string }
+
+export type OrganizationAccess =
+  | { allowed: true; organization: { id: string; name: string }; role: ProjectRole }
+  | { allowed: false; status: number; error: string }
+
+export interface OrganizationSummary {
+  id: string
+  name: string
+  role: ProjectRole
+  memberCount: number
+  projectCount: number
+}
+
+export interface InvitationRecord {
+  id: string
+  organizationId: string
+  email: string
+  role: string
+  token: string
+  expiresAt: Date
+  acceptedAt: Date | null
+  revokedAt: Date | null
+}
+
+interface MembershipRecord {
+  role: string
+  organization: { id: string; name: string; _count: { memberships: number; projects: number } }
+}
+
+/** The workspaces the user belongs to, with their role in each */
+export async function listOrganizations(userId: string): Promise<OrganizationSummary[]> {
+  const memberships: MembershipRecord[] = await prisma.membership.findMany({
+    where: { userId },
+    include: {
+      organization: {
+        include: { _count: { select: { memberships: true, projects: true } } }
+      }
+    },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  return memberships.map(membership => ({
+    id: membership.organization.id,
+    name: membership.organization.name,
+    role: isProjectRole(membership.role) ? membership.role : 'viewer',
+    memberCount: membership.organization._count.memberships,
+    projectCount: membership.organization._count.projects
+  }))
+}
+
+/** Creates a workspace with its creator as owner */
+export async function createOrganization(name: string, userId: string) {
+  return prisma.organization.create({
+    data: {
+      name,
+      memberships: { create: { userId, role: 'owner' } }
+    }
+  })
+}
+
+/**
+ * Checks the user is a member of the organization with at least `required`.
+ * Non-members are told it does not exist.
+ */
+export async function authorizeOrganization(
+  organizationId: string,
+  userId: string,
+  required: ProjectRole = 'viewer'
+): Promise<OrganizationAccess> {
+  const membership: { role: string; organization: { id: string; name: string } } | null = await prisma.membership.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    include: { organization: { select: { id: true, name: true } } }
+  })
+
+  if (!membership || !isProjectRole(membership.role)) {
+    return { allowed: false, status: 404, error: 'Organization not found' }
+  }
+
+  if (!hasRole(membership.role, required)) {
+    return { allowed: false, status: 403, error: `This needs ${required} access to the organization` }
+  }
+
+  return { allowed: true, organization: membership.organization, role: membership.role }
+}
+
+/**
+ * Invites an email address to the organization. Someone who already has an
+ * account is notified in the app; the invitation link can be sent to anyone
+ * else. Inviting an address again replaces its pending invitation.
+ */
+export async function createInvitation(
+  organization: { id: string; name: string },
+  email: string,
+  role: ProjectRole,
+  invitedBy: { id: string; name?: string | null }
+): Promise<OrganizationResult<InvitationRecord>> {
+  const existingMember = await prisma.membership.findFirst({
+    where: { organizationId: organization.id, user: { email } }
+  })
+
+  if (existingMember) {
+    return { success: false, status: 409, error: 'This person is already a member' }
+  }
+
+  await prisma.organizationInvitation.updateMany({
+    where: { organizationId: organization.id, email, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() }
+  })
+
+  const invitation: InvitationRecord = await prisma.organizationInvitation.create({
+    data: {
+      organizationId: organization.id,
+      invitedById: invitedBy.id,
+      email,
+      role,
+      token: randomBytes(32).toString('hex'),
+      expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+    }
+  })
+
+  const invitee = await prisma.user.findUnique({ where: { email }, select: { id: true } })
+  if (invitee) {
+    await notifyUsers([invitee.id], {
+      type: 'invitation',
+      title: `${invitedBy.name || 'Someone'} invited you to ${organization.name} as ${role}`,
+      link: `/invitations/${invitation.token}`
+    })
+  }
+
+  return { success: true, data: invitation }
+}
+
+/**
+ * Accepts an invitation for the signed-in user, whose email must be the one
+ * invited. Members who accept again keep the higher of their two roles.
+ */
+export async function acceptInvitation(
+  token: string,
+  user: { id: string; email?: string | null }
+): Promise<OrganizationResult<{ organizationId: string; role: ProjectRole }>> {
+  const invitation: InvitationRecord | null = await prisma.organizationInvitation.findUnique({ where: { token } })
+
+  if (!invitation || invitation.revokedAt || !isProjectRole(invitation.role)) {
+    return { success: false, status: 404, error: 'Invitation not found' }
+  }
+  if (invitation.acceptedAt) {
+    return { success: false, status: 410, error: 'This invitation has already been used' }
+  }
+  if (invitation.expiresAt <= new Date()) {
+    return { success: false, status: 410, error: 'This invitation has expired' }
+  }
+  if (!user.email || user.email.toLowerCase() !== invitation.email) {
+    return { success: false, status: 403, error: `This invitation is for ${invitation.email}` }
+  }
+
+  const invitedRole = invitation.role
+  const existing = await prisma.membership.findUnique({
+    where: { organizationId_userId: { organizationId: invitation.organizationId, userId: user.id } }
+  })
+  const role = existing && isProjectRole(existing.role) && hasRole(existing.role, invitedRole)
+    ? existing.role
+    : invitedRole
+
+  await prisma.$transaction([
+    prisma.membership.upsert({
+      where: { organizationId_userId: { organizationId: invitation.organizationId, userId: user.id } },
+      create: { organizationId: invitation.organizationId, userId: user.id, role },
+      update: { role }
+    }),
+    prisma.organizationInvitation.update({
+      where: { id: invitation.id },
+      data: { acceptedAt: new Date() }
+    })
+  ])
+
+  return { success: true, data: { organizationId: invitation.organizationId, role } }
+}
+
+/** Changes a member's role, or removes them with `null`. The last owner can do neither. */
+export async function changeMembership(
+  organizationId: string,
+  userId: string,
+  role: ProjectRole | null
+): Promise<OrganizationResult<{ userId: string; role: ProjectRole | null }>> {
+  const membership = await prisma.membership.findUnique({
+    where: { organizationId_userId: { organizationId, userId } }
+  })
+
+  if (!membership) {
+    return { success: false, status: 404, error: 'Member not found' }
+  }
+
+  if (membership.role === 'owner' && role !== 'owner') {
+    const owners = await prisma.membership.count({ where: { organizationId, role: 'owner' } })
+    if (owners <= 1) {
+      return { success: false, status: 409, error: 'An organization needs at least one owner' }
+    }
+  }
+
+  if (role) {
+    await prisma.membership.update({ where: { id: membership.id }, data: { role } })
+  } else {
+    await prisma.membership.delete({ where: { id: membership.id } })
+  }
+
+  return { success: true, data: { userId, role } }
+}
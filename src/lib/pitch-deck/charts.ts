@@ -0,0 +1,193 @@
+import { ChartData } from '@/types'
+import { DeckTheme } from './themes'
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface Rect extends Point {
+  width: number
+  height: number
+}
+
+/**
+ * A chart reduced to shapes in a width × height box, so the slide viewer,
+ * the HTML export and the PPTX export draw the same thing. Angles are in
+ * degrees, clockwise from three o'clock.
+ */
+export interface ChartLayout {
+  plot: Rect
+  bars: (Rect & { series: number })[]
+  lines: { series: number; points: Point[]; area: boolean; baseline: number }[]
+  slices: { index: number; center: Point; radius: number; startAngle: number; sweep: number }[]
+  axisLabels: (Point & { text: string })[]
+  legend: { name: string; color: number }[]
+  /** Largest value on the axis, for labelling */
+  max: number
+}
+
+const LABEL_SPACE = 28
+const LEGEND_SPACE = 28
+
+/** Labels under the axis are thinned out to at most this many */
+const MAX_AXIS_LABELS = 8
+
+export function layoutChart(chart: ChartData, width: number, height: number): ChartLayout {
+  const series = chart.data.filter(item => item.values.length > 0)
+
+  if (chart.type === 'pie') {
+    return layoutPie(chart, width, height)
+  }
+
+  const showLegend = series.length > 1
+  const plot: Rect = {
+    x: 0,
+    y: showLegend ? LEGEND_SPACE : 8,
+    width,
+    height: height - LABEL_SPACE - (showLegend ? LEGEND_SPACE : 8)
+  }
+
+  const values = series.flatMap(item => item.values)
+  const max = Math.max(0, ...values)
+  const min = Math.min(0, ...values)
+  const range = max - min || 1
+  const toY = (value: number) => plot.y + plot.height * (max - value) / range
+  const count = chart.labels.length || Math.max(0, ...series.map(item => item.values.length))
+
+  const bars: ChartLayout['bars'] = []
+  const lines: ChartLayout['lines'] = []
+  const centers: number[] = []
+
+  if (chart.type === 'bar') {
+    const group = plot.width / Math.max(count, 1)
+    const barWidth = group * 0.7 / Math.max(series.length, 1)
+    for (let i = 0; i < count; i++) {
+      centers.push(plot.x + group * (i + 0.5))
+      series.forEach((item, s) => {
+        const top = toY(Math.max(item.values[i] ?? 0, 0))
+        const bottom = toY(Math.min(item.values[i] ?? 0, 0))
+        bars.push({ x: plot.x + group * (i + 0.15) + barWidth * s, y: top, width: barWidth, height: bottom - top, series: s })
+      })
+    }
+  } else {
+    const step = count > 1 ? plot.width / (count - 1) : 0
+    for (let i = 0; i < count; i++) {
+      centers.push(count > 1 ? plot.x + step * i : plot.x + plot.width / 2)
+    }
+    series.forEach((item, s) => {
+      lines.push({
+        series: s,
+        points: item.values.slice(0, count).map((value, i) => ({ x: centers[i], y: toY(value) })),
+        area: chart.type === 'area',
+        baseline: toY(0)
+      })
+    })
+  }
+
+  const every = Math.ceil(count / MAX_AXIS_LABELS)
+  return {
+    plot,
+    bars,
+    lines,
+    slices: [],
+    axisLabels: chart.labels
+      .map((text, i) => ({ text, x: centers[i], y: height - LABEL_SPACE / 3 }))
+      .filter((_, i) => i % every === 0),
+    legend: showLegend ? series.map((item, s) => ({ name: item.name, color: s })) : [],
+    max
+  }
+}
+
+function layoutPie(chart: ChartData, width: number, height: number): ChartLayout {
+  const values = (chart.data[0]?.values ?? []).map(value => Math.max(0, value))
+  const total = values.reduce((sum, value) => sum + value, 0)
+  const radius = Math.max(0, Math.min(width, height - LEGEND_SPACE) / 2 - 4)
+  const center = { x: width / 2, y: LEGEND_SPACE + (height - LEGEND_SPACE) / 2 }
+
+  let angle = -90
+  const slices = total > 0
+    ? values.map((value, index) => {
+      const slice = { index, center, radius, startAngle: angle, sweep: value / total * 360 }
+      angle += slice.sweep
+      return slice
+    }).filter(slice => slice.sweep > 0)
+    : []
+
+  return {
+    plot: { x: 0, y: LEGEND_SPACE, width, height: height - LEGEND_SPACE },
+    bars: [],
+    lines: [],
+    slices,
+    axisLabels: [],
+    legend: chart.labels.map((name, index) => ({ name, color: index })),
+    max: total
+  }
+}
+
+/** Point on a slice's edge at `angle` degrees */
+export function pointOnCircle(center: Point, radius: number, angle: number): Point {
+  const radians = angle * Math.PI / 180
+  return { x: center.x + radius * Math.cos(radians), y: center.y + radius * Math.sin(radians) }
+}
+
+export function seriesColor(theme: DeckTheme, index: number): string {
+  return theme.series[index % theme.series.length]
+}
+
+/** Draws a chart as a standalone SVG element */
+export function chartToSVG(chart: ChartData, theme: DeckTheme, width = 640, height = 360): string {
+  const layout = layoutChart(chart, width, height)
+  const shapes: string[] = []
+  const round = (value: number) => Math.round(value * 10) / 10
+
+  shapes.push(`<line x1="${layout.plot.x}" y1="${round(layout.plot.y + layout.plot.height)}" x2="${layout.plot.x + layout.plot.width}" y2="${round(layout.plot.y + layout.plot.height)}" stroke="${theme.muted}" stroke-width="1" />`)
+
+  for (const bar of layout.bars) {
+    shapes.push(`<rect x="${round(bar.x)}" y="${round(bar.y)}" width="${round(bar.width)}" height="${round(bar.height)}" rx="2" fill="${seriesColor(theme, bar.series)}" />`)
+  }
+
+  for (const line of layout.lines) {
+    const path = line.points.map((point, i) => `${i === 0 ? 'M' : 'L'}${round(point.x)},${round(point.y)}`).join(' ')
+    const color = seriesColor(theme, line.series)
+    if (line.area && line.points.length > 0) {
+      const first = line.points[0]
+      const last = line.points[line.points.length - 1]
+      shapes.push(`<path d="${path} L${round(last.x)},${round(line.baseline)} L${round(first.x)},${round(line.baseline)} Z" fill="${color}" fill-opacity="0.25" />`)
+    }
+    shapes.push(`<path d="${path}" fill="none" stroke="${color}" stroke-width="3" stroke-linejoin="round" />`)
+  }
+
+  for (const slice of layout.slices) {
+    const color = seriesColor(theme, slice.index)
+    if (slice.sweep >= 359.99) {
+      shapes.push(`<circle cx="${round(slice.center.x)}" cy="${round(slice.center.y)}" r="${round(slice.radius)}" fill="${color}" />`)
+      continue
+    }
+    const start = pointOnCircle(slice.center, slice.radius, slice.startAngle)
+    const end = pointOnCircle(slice.center, slice.radius, slice.startAngle + slice.sweep)
+    shapes.push(`<path d="M${round(slice.center.x)},${round(slice.center.y)} L${round(start.x)},${round(start.y)} A${round(slice.radius)},${round(slice.radius)} 0 ${slice.sweep > 180 ? 1 : 0} 1 ${round(end.x)},${round(end.y)} Z" fill="${color}" />`)
+  }
+
+  for (const label of layout.axisLabels) {
+    shapes.push(`<text x="${round(label.x)}" y="${round(label.y)}" text-anchor="middle" font-size="13" fill="${theme.muted}">${escapeXML(label.text)}</text>`)
+  }
+
+  let legendX = 0
+  for (const item of layout.legend) {
+    shapes.push(`<rect x="${legendX}" y="4" width="12" height="12" rx="2" fill="${seriesColor(theme, item.color)}" />`)
+    shapes.push(`<text x="${legendX + 18}" y="15" font-size="13" fill="${theme.text}">${escapeXML(item.name)}</text>`)
+    legendX += 30 + item.name.length * 7
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" role="img" aria-label="${escapeXML(chart.title)}">${shapes.join('')}</svg>`
+}
+
+export function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
@@ -0,0 +1,303 @@
+import {
+  Blueprint,
+  ComprehensiveFinancialModel,
+  PitchDeck,
+  PitchSlide,
+  Priority,
+  ProductPlan,
+  Roadmap
+} from '@/types'
+import { DEFAULT_DECK_THEME } from './themes'
+
+export interface PitchDeckOptions {
+  /** Shown on the title slide, usually the project name */
+  title: string
+  theme?: string
+  createdAt?: Date
+}
+
+type SlideDraft = Omit<PitchSlide, 'id' | 'order'>
+
+/** Bullets kept per list so each slide stays readable */
+const MAX_BULLETS = 5
+
+const PRIORITY_ORDER: Record<Priority, number> = {
+  [Priority.CRITICAL]: 0,
+  [Priority.HIGH]: 1,
+  [Priority.MEDIUM]: 2,
+  [Priority.LOW]: 3
+}
+
+const INTERVALS: Record<string, string> = {
+  monthly: '/mo',
+  yearly: '/yr',
+  'one-time': ' once'
+}
+
+/**
+ * Maps a blueprint to an investor deck. Problem and solution come from the
+ * product plan, the charts from the revenue projection and the ask from the
+ * funding plan. Slides whose section is missing from the blueprint are left
+ * out rather than filled with placeholders.
+ */
+export function buildPitchDeck(blueprint: Partial<Blueprint>, options: PitchDeckOptions): PitchDeck {
+  const productPlan = blueprint.productPlan
+  const financialModel = blueprint.financialModel as ComprehensiveFinancialModel | undefined
+  const createdAt = options.createdAt ?? new Date()
+
+  const drafts = [
+    titleSlide(options.title, productPlan),
+    productPlan && problemSlide(productPlan),
+    productPlan && solutionSlide(productPlan),
+    productPlan && marketSlide(productPlan),
+    businessModelSlide(productPlan, financialModel),
+    blueprint.roadmap && tractionSlide(blueprint.roadmap),
+    financialModel && financialsSlide(financialModel),
+    financialModel && teamSlide(financialModel),
+    financialModel && askSlide(financialModel)
+  ].filter((slide): slide is SlideDraft => !!slide)
+
+  return {
+    id: `${slugify(options.title) || 'deck'}-${createdAt.getTime()}`,
+    title: options.title,
+    theme: options.theme ?? DEFAULT_DECK_THEME,
+    createdAt,
+    slides: drafts.map((slide, index) => ({ ...slide, id: slide.type, order: index + 1 }))
+  }
+}
+
+function titleSlide(title: string, productPlan?: ProductPlan): SlideDraft {
+  const tagline = productPlan?.differentiators?.[0] ?? productPlan?.coreFeatures?.[0]?.description
+  return { type: 'title', title, content: tagline ? { text: tagline } : {} }
+}
+
+function problemSlide(productPlan: ProductPlan): SlideDraft | undefined {
+  const audience = productPlan.targetAudience?.primary
+  const painPoints = audience?.painPoints ?? []
+  if (painPoints.length === 0) {
+    return undefined
+  }
+
+  return {
+    type: 'problem',
+    title: 'The Problem',
+    content: {
+      text: audience?.demographics,
+      bullets: painPoints.slice(0, MAX_BULLETS)
+    }
+  }
+}
+
+function solutionSlide(productPlan: ProductPlan): SlideDraft | undefined {
+  const features = [...(productPlan.coreFeatures ?? [])]
+    .sort((a, b) => (PRIORITY_ORDER[a.priority] ?? 4) - (PRIORITY_ORDER[b.priority] ?? 4))
+  if (features.length === 0) {
+    return undefined
+  }
+
+  // The first differentiator is the title slide's tagline
+  const differentiators = (productPlan.differentiators ?? []).slice(1)
+  return {
+    type: 'solution',
+    title: 'Our Solution',
+    content: {
+      text: differentiators.length ? differentiators.join(' · ') : undefined,
+      bullets: features.slice(0, MAX_BULLETS).map(feature => `${feature.name}: ${feature.description}`)
+    }
+  }
+}
+
+function marketSlide(productPlan: ProductPlan): SlideDraft | undefined {
+  const size = productPlan.targetAudience?.marketSize
+  const whitespace = productPlan.competitorAnalysis?.whitespace ?? []
+  if (!size?.tam && whitespace.length === 0) {
+    return undefined
+  }
+
+  return {
+    type: 'market',
+    title: 'Market Opportunity',
+    content: {
+      bullets: [
+        ...(size?.tam ? [
+          `${formatCurrency(size.tam)} total addressable market`,
+          `${formatCurrency(size.sam)} serviceable market`,
+          `${formatCurrency(size.som)} obtainable in the first years`
+        ] : []),
+        ...whitespace.slice(0, 2)
+      ],
+      chart: size?.tam ? {
+        type: 'bar',
+        title: 'Market size (USD)',
+        labels: ['TAM', 'SAM', 'SOM'],
+        data: [{ name: 'Market size', values: [size.tam, size.sam, size.som] }]
+      } : undefined
+    }
+  }
+}
+
+function businessModelSlide(productPlan?: ProductPlan, financialModel?: ComprehensiveFinancialModel): SlideDraft | undefined {
+  const primary = productPlan?.monetization?.primary
+  const tiers = primary?.pricing ?? []
+  const metrics = financialModel?.metrics
+  if (!primary && !metrics) {
+    return undefined
+  }
+
+  return {
+    type: 'business-model',
+    title: 'Business Model',
+    content: {
+      text: primary ? [capitalize(primary.model), primary.reasoning].filter(Boolean).join(': ') : undefined,
+      bullets: metrics && metrics.cac > 0 ? [
+        `Lifetime value ${formatCurrency(metrics.ltv)} against ${formatCurrency(metrics.cac)} to acquire a customer`,
+        `LTV:CAC of ${metrics.ltvCacRatio.toFixed(1)}:1`
+      ] : undefined,
+      table: tiers.length ? {
+        headers: ['Plan', 'Price', 'For'],
+        rows: tiers.map(tier => [
+          tier.name,
+          `$${tier.price.toLocaleString('en-US')}${INTERVALS[tier.interval] ?? ''}`,
+          tier.targetSegment
+        ])
+      } : undefined
+    }
+  }
+}
+
+/**
+ * Generated blueprints describe ideas that have not launched yet, so the
+ * traction slide shows the milestones that will earn it instead.
+ */
+function tractionSlide(roadmap: Roadmap): SlideDraft | undefined {
+  const phases = roadmap.phases ?? []
+  if (phases.length === 0) {
+    return undefined
+  }
+
+  return {
+    type: 'traction',
+    title: 'Milestones',
+    content: {
+      text: roadmap.schedule
+        ? `${phases.length} phases, delivered by ${formatDate(roadmap.schedule.endDate)} with a team of ${roadmap.schedule.teamSize}`
+        : `${phases.length} phases over ${roadmap.timeline}`,
+      table: {
+        headers: ['Milestone', 'Due', 'Deliverables'],
+        rows: phases.map(phase => [
+          phase.milestone?.name || phase.name,
+          phase.milestone?.dueDate ? formatDate(phase.milestone.dueDate) : '',
+          (phase.milestone?.deliverables ?? []).slice(0, 2).join(', ')
+        ])
+      }
+    }
+  }
+}
+
+/** Quarterly revenue and costs from the projection, with the headline metrics */
+function financialsSlide(financialModel: ComprehensiveFinancialModel): SlideDraft | undefined {
+  const projections = financialModel.revenue?.projections ?? []
+  if (projections.length === 0) {
+    return undefined
+  }
+
+  const quarters = Math.ceil(projections.length / 3)
+  const sumQuarter = (value: (month: typeof projections[number]) => number) =>
+    Array.from({ length: quarters }, (_, quarter) => projections
+      .slice(quarter * 3, quarter * 3 + 3)
+      .reduce((sum, month) => sum + value(month), 0))
+  const hasCosts = projections.some(month => month.costs !== undefined)
+
+  const years = Math.ceil(projections.length / 12)
+  const lastYear = projections.slice((years - 1) * 12)
+  const lastYearRevenue = lastYear.reduce((sum, month) => sum + month.revenue, 0)
+  const { metrics } = financialModel
+
+  return {
+    type: 'financials',
+    title: 'Financial Projections',
+    content: {
+      bullets: [
+        `${formatCurrency(lastYearRevenue)} revenue in year ${years}`,
+        metrics.breakeven > 0 ? `Breakeven in month ${metrics.breakeven}` : `Not yet at breakeven after ${projections.length} months`,
+        ...(metrics.burnRate > 0 ? [`${formatCurrency(metrics.burnRate)} average monthly burn while losing money`] : []),
+        `${lastYear[lastYear.length - 1].users.toLocaleString('en-US')} customers by month ${projections.length}`
+      ],
+      chart: {
+        type: 'line',
+        title: 'Quarterly revenue and costs (USD)',
+        labels: Array.from({ length: quarters }, (_, quarter) => `Q${quarter + 1}`),
+        data: [
+          { name: 'Revenue', values: sumQuarter(month => month.revenue) },
+          ...(hasCosts ? [{ name: 'Costs', values: sumQuarter(month => month.costs ?? 0) }] : [])
+        ]
+      }
+    }
+  }
+}
+
+function teamSlide(financialModel: ComprehensiveFinancialModel): SlideDraft | undefined {
+  const team = financialModel.costs?.team ?? []
+  if (team.length === 0) {
+    return undefined
+  }
+
+  return {
+    type: 'team',
+    title: 'Team & Hiring Plan',
+    content: {
+      table: {
+        headers: ['Role', 'Starts', 'Monthly cost'],
+        rows: team.map(member => [member.role, member.timeline, formatCurrency(member.salary + member.benefits)])
+      }
+    }
+  }
+}
+
+function askSlide(financialModel: ComprehensiveFinancialModel): SlideDraft | undefined {
+  const funding = financialModel.funding
+  const [round, ...later] = funding?.stages ?? []
+  if (!funding || !round) {
+    return undefined
+  }
+
+  const { pre } = funding.terms.valuation
+  return {
+    type: 'ask',
+    title: 'The Ask',
+    content: {
+      text: `Raising ${formatCurrency(round.amount)} ${round.name} at ${formatCurrency(pre)} pre-money`,
+      bullets: [
+        ...round.purpose,
+        ...round.milestones.slice(0, 2).map(milestone => `Reach ${milestone}`),
+        `${(funding.terms.equity * 100).toFixed(1)}% equity`
+      ],
+      table: later.length ? {
+        headers: ['Round', 'Amount', 'Timing'],
+        rows: [round, ...later].map(stage => [stage.name, formatCurrency(stage.amount), stage.timeline])
+      } : undefined
+    }
+  }
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 1
+  }).format(amount)
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
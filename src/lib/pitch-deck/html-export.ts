@@ -0,0 +1,122 @@
+import { PitchDeck, PitchSlide, TableData } from '@/types'
+import { chartToSVG, escapeXML } from './charts'
+import { deckTheme, DeckTheme } from './themes'
+
+/**
+ * Renders the deck as a single HTML file with no external assets. One slide
+ * shows at a time and the arrow keys, space or a click move between them;
+ * printing puts each slide on its own landscape page.
+ */
+export function pitchDeckToHTML(deck: PitchDeck): string {
+  const theme = deckTheme(deck.theme)
+  const slides = [...deck.slides].sort((a, b) => a.order - b.order)
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeXML(deck.title)}</title>
+<style>${styles(theme)}</style>
+</head>
+<body>
+${slides.map((slide, index) => renderSlide(slide, index, slides.length, theme)).join('\n')}
+<script>
+(function () {
+  var slides = document.querySelectorAll('.slide');
+  var current = Math.min(Math.max(parseInt(location.hash.slice(1), 10) - 1 || 0, 0), slides.length - 1);
+  function show(index) {
+    current = Math.min(Math.max(index, 0), slides.length - 1);
+    slides.forEach(function (slide, i) { slide.classList.toggle('active', i === current); });
+    history.replaceState(null, '', '#' + (current + 1));
+  }
+  document.addEventListener('keydown', function (event) {
+    if (['ArrowRight', 'ArrowDown', 'PageDown', ' '].indexOf(event.key) !== -1) { show(current + 1); event.preventDefault(); }
+    if (['ArrowLeft', 'ArrowUp', 'PageUp'].indexOf(event.key) !== -1) { show(current - 1); event.preventDefault(); }
+    if (event.key === 'Home') show(0);
+    if (event.key === 'End') show(slides.length - 1);
+  });
+  document.addEventListener('click', function (event) {
+    show(event.clientX < window.innerWidth / 3 ? current - 1 : current + 1);
+  });
+  show(current);
+})();
+</script>
+</body>
+</html>
+`
+}
+
+function renderSlide(slide: PitchSlide, index: number, total: number, theme: DeckTheme): string {
+  const { text, bullets, chart, table, image } = slide.content
+  const footer = `<footer>${index + 1} / ${total}</footer>`
+
+  if (slide.type === 'title') {
+    return `<section class="slide title-slide" id="slide-${index + 1}">
+  <h1>${escapeXML(slide.title)}</h1>
+  ${text ? `<p class="tagline">${escapeXML(text)}</p>` : ''}
+  ${footer}
+</section>`
+  }
+
+  const copy = [
+    text ? `<p class="lead">${escapeXML(text)}</p>` : '',
+    bullets?.length ? `<ul>${bullets.map(bullet => `<li>${escapeXML(bullet)}</li>`).join('')}</ul>` : ''
+  ].join('')
+  const visual = [
+    chart ? `<figure>${chartToSVG(chart, theme)}<figcaption>${escapeXML(chart.title)}</figcaption></figure>` : '',
+    table ? renderTable(table) : '',
+    image ? `<img src="${escapeXML(image)}" alt="">` : ''
+  ].join('')
+
+  return `<section class="slide" id="slide-${index + 1}">
+  <h2>${escapeXML(slide.title)}</h2>
+  <div class="body${copy && visual ? ' split' : ''}">
+    ${copy ? `<div class="copy">${copy}</div>` : ''}
+    ${visual ? `<div class="visual">${visual}</div>` : ''}
+  </div>
+  ${footer}
+</section>`
+}
+
+function renderTable(table: TableData): string {
+  return `<table>
+<thead><tr>${table.headers.map(header => `<th>${escapeXML(header)}</th>`).join('')}</tr></thead>
+<tbody>${table.rows.map(row => `<tr>${row.map(cell => `<td>${escapeXML(cell)}</td>`).join('')}</tr>`).join('')}</tbody>
+</table>`
+}
+
+function styles(theme: DeckTheme): string {
+  return `
+* { box-sizing: border-box; }
+html, body { margin: 0; height: 100%; background: #000; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+.slide { display: none; position: absolute; inset: 0; margin: auto; width: min(100vw, 177.78vh); height: min(56.25vw, 100vh);
+  padding: 5% 6%; background: ${theme.background}; color: ${theme.text}; font-size: min(1.6vw, 2.85vh); overflow: hidden; }
+.slide.active { display: flex; flex-direction: column; }
+.title-slide { justify-content: center; }
+h1 { font-size: 3.6em; margin: 0 0 0.3em; color: ${theme.accent}; }
+h2 { font-size: 2.2em; margin: 0 0 0.8em; padding-bottom: 0.3em; border-bottom: 3px solid ${theme.accent}; }
+.tagline { font-size: 1.5em; color: ${theme.muted}; max-width: 80%; margin: 0; }
+.body { flex: 1; display: flex; flex-direction: column; gap: 1.5em; min-height: 0; }
+.body.split { flex-direction: row; }
+.body.split > * { flex: 1; min-width: 0; }
+.lead { font-size: 1.2em; color: ${theme.muted}; margin: 0 0 1em; }
+ul { margin: 0; padding-left: 1.2em; }
+li { margin-bottom: 0.6em; line-height: 1.4; }
+li::marker { color: ${theme.accent}; }
+figure { margin: 0 0 1em; }
+figure svg { width: 100%; height: auto; }
+figcaption { font-size: 0.8em; color: ${theme.muted}; text-align: center; margin-top: 0.4em; }
+table { width: 100%; border-collapse: collapse; font-size: 0.9em; }
+th { text-align: left; background: ${theme.accent}; color: ${theme.background}; padding: 0.5em 0.7em; }
+td { padding: 0.5em 0.7em; border-bottom: 1px solid ${theme.surface}; }
+tbody tr:nth-child(even) td { background: ${theme.surface}; }
+img { max-width: 100%; max-height: 100%; }
+footer { position: absolute; right: 3%; bottom: 3%; font-size: 0.7em; color: ${theme.muted}; }
+@media print {
+  @page { size: 13.333in 7.5in; margin: 0; }
+  html, body { background: none; }
+  .slide { display: flex !important; flex-direction: column; position: relative; width: 13.333in; height: 7.5in; font-size: 16px; page-break-after: always; }
+}
+`
+}
@@ -0,0 +1,337 @@
+import { ChartData, PitchDeck, PitchSlide, TableData } from '@/types'
+import { escapeXML, layoutChart, pointOnCircle, seriesColor } from './charts'
+import { deckTheme, DeckTheme } from './themes'
+import { createZip, ZipEntry } from './zip'
+
+/** 16:9 slides, in EMU (914400 per inch) */
+const SLIDE_WIDTH = 12192000
+const SLIDE_HEIGHT = 6858000
+const MARGIN = 548640
+const GAP = 365760
+const BODY_TOP = 1737360
+const TABLE_ROW_HEIGHT = 370840
+
+/** Width charts are laid out at before scaling to the slide */
+const CHART_UNITS = 640
+
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main'
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const NS_P = 'http://schemas.openxmlformats.org/presentationml/2006/main'
+const NS_RELS = 'http://schemas.openxmlformats.org/package/2006/relationships'
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument'
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface TextStyle {
+  size: number
+  color: string
+  bold?: boolean
+  align?: 'l' | 'ctr' | 'r'
+}
+
+/**
+ * Builds a PowerPoint file from the deck. Slides are drawn with plain text
+ * boxes, tables and shapes, including the charts, so the file opens in
+ * PowerPoint, Keynote and Google Slides without embedded spreadsheets.
+ */
+export function pitchDeckToPPTX(deck: PitchDeck): Uint8Array {
+  const theme = deckTheme(deck.theme)
+  const slides = [...deck.slides].sort((a, b) => a.order - b.order)
+
+  const entries: ZipEntry[] = [
+    { name: '[Content_Types].xml', data: contentTypes(slides.length) },
+    {
+      name: '_rels/.rels',
+      data: relationships([
+        { type: `${REL}/officeDocument`, target: 'ppt/presentation.xml' },
+        { type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+        { type: `${REL}/extended-properties`, target: 'docProps/app.xml' }
+      ])
+    },
+    { name: 'docProps/core.xml', data: coreProperties(deck) },
+    {
+      name: 'docProps/app.xml',
+      data: `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>InfiniteIdea</Application><Slides>${slides.length}</Slides></Properties>`
+    },
+    { name: 'ppt/presentation.xml', data: presentation(slides.length) },
+    {
+      name: 'ppt/_rels/presentation.xml.rels',
+      data: relationships([
+        { type: `${REL}/slideMaster`, target: 'slideMasters/slideMaster1.xml' },
+        { type: `${REL}/theme`, target: 'theme/theme1.xml' },
+        ...slides.map((_, index) => ({ type: `${REL}/slide`, target: `slides/slide${index + 1}.xml` }))
+      ])
+    },
+    { name: 'ppt/slideMasters/slideMaster1.xml', data: slideMaster() },
+    {
+      name: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      data: relationships([
+        { type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+        { type: `${REL}/theme`, target: '../theme/theme1.xml' }
+      ])
+    },
+    {
+      name: 'ppt/slideLayouts/slideLayout1.xml',
+      data: `${XML_HEADER}<p:sldLayout xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}" type="blank" preserve="1"><p:cSld name="Blank"><p:spTree>${groupProperties()}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`
+    },
+    {
+      name: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+      data: relationships([{ type: `${REL}/slideMaster`, target: '../slideMasters/slideMaster1.xml' }])
+    },
+    { name: 'ppt/theme/theme1.xml', data: officeTheme(theme) },
+    ...slides.flatMap((slide, index) => [
+      { name: `ppt/slides/slide${index + 1}.xml`, data: renderSlide(slide, index, slides.length, theme) },
+      {
+        name: `ppt/slides/_rels/slide${index + 1}.xml.rels`,
+        data: relationships([{ type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' }])
+      }
+    ])
+  ]
+
+  return createZip(entries)
+}
+
+/** Collects the shapes of one slide, numbering them as PowerPoint requires */
+class SlideBuilder {
+  private shapes: string[] = []
+  private nextId = 2
+
+  constructor(private theme: DeckTheme) {}
+
+  text(box: Box, paragraphs: string[], style: TextStyle, bullets = false) {
+    const body = paragraphs.map(paragraph => {
+      const properties = bullets
+        ? `<a:pPr marL="342900" indent="-342900" algn="${style.align ?? 'l'}"><a:spcAft><a:spcPts val="900"/></a:spcAft><a:buClr>${color(this.theme.accent)}</a:buClr><a:buFont typeface="Arial"/><a:buChar char="•"/></a:pPr>`
+        : `<a:pPr algn="${style.align ?? 'l'}"><a:buNone/></a:pPr>`
+      return `<a:p>${properties}${run(paragraph, style)}</a:p>`
+    }).join('')
+
+    this.shapes.push(`<p:sp><p:nvSpPr><p:cNvPr id="${this.nextId}" name="Text ${this.nextId++}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr><p:spPr>${transform(box)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr><p:txBody><a:bodyPr wrap="square" lIns="0" tIns="0" rIns="0" bIns="0"><a:normAutofit/></a:bodyPr><a:lstStyle/>${body || '<a:p><a:endParaRPr lang="en-US"/></a:p>'}</p:txBody></p:sp>`)
+  }
+
+  rect(box: Box, fill: string) {
+    this.shapes.push(`<p:sp><p:nvSpPr><p:cNvPr id="${this.nextId}" name="Shape ${this.nextId++}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr><p:spPr>${transform(box)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:solidFill>${color(fill)}</a:solidFill><a:ln><a:noFill/></a:ln></p:spPr></p:sp>`)
+  }
+
+  /** A freeform path in EMU relative to `box` */
+  path(box: Box, commands: string, fill: string | null, line: string | null, fillAlpha = 100) {
+    const fillXML = fill ? `<a:solidFill>${color(fill, fillAlpha)}</a:solidFill>` : '<a:noFill/>'
+    const lineXML = line ? `<a:ln w="38100" cap="rnd"><a:solidFill>${color(line)}</a:solidFill><a:round/></a:ln>` : '<a:ln><a:noFill/></a:ln>'
+    this.shapes.push(`<p:sp><p:nvSpPr><p:cNvPr id="${this.nextId}" name="Chart ${this.nextId++}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr><p:spPr>${transform(box)}<a:custGeom><a:avLst/><a:gdLst/><a:ahLst/><a:cxnLst/><a:rect l="0" t="0" r="r" b="b"/><a:pathLst><a:path w="${Math.round(box.width)}" h="${Math.round(box.height)}"${fill ? '' : ' fill="none"'}>${commands}</a:path></a:pathLst></a:custGeom>${fillXML}${lineXML}</p:spPr></p:sp>`)
+  }
+
+  table(box: Box, table: TableData) {
+    const columns = Math.max(table.headers.length, 1)
+    const columnWidth = Math.floor(box.width / columns)
+    const cell = (text: string, header: boolean, shaded: boolean) => {
+      const fill = header ? this.theme.accent : shaded ? this.theme.surface : this.theme.background
+      const textColor = header ? this.theme.background : this.theme.text
+      return `<a:tc><a:txBody><a:bodyPr/><a:lstStyle/><a:p>${run(text, { size: 1200, color: textColor, bold: header })}</a:p></a:txBody><a:tcPr marL="91440" marR="91440" marT="45720" marB="45720"><a:solidFill>${color(fill)}</a:solidFill></a:tcPr></a:tc>`
+    }
+    const rows = [
+      `<a:tr h="${TABLE_ROW_HEIGHT}">${table.headers.map(header => cell(header, true, false)).join('')}</a:tr>`,
+      ...table.rows.map((row, index) => `<a:tr h="${TABLE_ROW_HEIGHT}">${Array.from({ length: columns }, (_, i) => cell(row[i] ?? '', false, index % 2 === 1)).join('')}</a:tr>`)
+    ]
+
+    this.shapes.push(`<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${this.nextId}" name="Table ${this.nextId++}"/><p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr><p:xfrm><a:off x="${Math.round(box.x)}" y="${Math.round(box.y)}"/><a:ext cx="${columnWidth * columns}" cy="${TABLE_ROW_HEIGHT * rows.length}"/></p:xfrm><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl><a:tblPr firstRow="1" bandRow="1"/><a:tblGrid>${Array(columns).fill(`<a:gridCol w="${columnWidth}"/>`).join('')}</a:tblGrid>${rows.join('')}</a:tbl></a:graphicData></a:graphic></p:graphicFrame>`)
+  }
+
+  chart(box: Box, chart: ChartData) {
+    const captionHeight = 320040
+    const area = { ...box, height: box.height - captionHeight }
+    const layout = layoutChart(chart, CHART_UNITS, CHART_UNITS * area.height / area.width)
+    const scale = area.width / CHART_UNITS
+    const at = (x: number, y: number) => `<a:pt x="${Math.round(x * scale)}" y="${Math.round(y * scale)}"/>`
+
+    this.rect({ x: area.x, y: area.y + (layout.plot.y + layout.plot.height) * scale, width: area.width, height: 9525 }, this.theme.muted)
+
+    for (const bar of layout.bars) {
+      if (bar.height > 0) {
+        this.rect({ x: area.x + bar.x * scale, y: area.y + bar.y * scale, width: bar.width * scale, height: bar.height * scale }, seriesColor(this.theme, bar.series))
+      }
+    }
+
+    for (const line of layout.lines) {
+      const points = line.points.map((point, i) => i === 0 ? `<a:moveTo>${at(point.x, point.y)}</a:moveTo>` : `<a:lnTo>${at(point.x, point.y)}</a:lnTo>`).join('')
+      const seriesFill = seriesColor(this.theme, line.series)
+      if (line.area && line.points.length > 0) {
+        const first = line.points[0]
+        const last = line.points[line.points.length - 1]
+        this.path(area, `${points}<a:lnTo>${at(last.x, line.baseline)}</a:lnTo><a:lnTo>${at(first.x, line.baseline)}</a:lnTo><a:close/>`, seriesFill, null, 25)
+      }
+      this.path(area, points, null, seriesFill)
+    }
+
+    for (const slice of layout.slices) {
+      const start = pointOnCircle(slice.center, slice.radius, slice.startAngle)
+      const radius = Math.round(slice.radius * scale)
+      this.path(
+        area,
+        `<a:moveTo>${at(slice.center.x, slice.center.y)}</a:moveTo><a:lnTo>${at(start.x, start.y)}</a:lnTo><a:arcTo wR="${radius}" hR="${radius}" stAng="${Math.round(slice.startAngle * 60000)}" swAng="${Math.round(slice.sweep * 60000)}"/><a:close/>`,
+        seriesColor(this.theme, slice.index),
+        null
+      )
+    }
+
+    const labelWidth = 80
+    for (const label of layout.axisLabels) {
+      this.text(
+        { x: area.x + (label.x - labelWidth / 2) * scale, y: area.y + (label.y - 14) * scale, width: labelWidth * scale, height: 20 * scale },
+        [label.text],
+        { size: 1000, color: this.theme.muted, align: 'ctr' }
+      )
+    }
+
+    let legendX = 0
+    for (const item of layout.legend) {
+      this.rect({ x: area.x + legendX * scale, y: area.y + 4 * scale, width: 12 * scale, height: 12 * scale }, seriesColor(this.theme, item.color))
+      this.text(
+        { x: area.x + (legendX + 18) * scale, y: area.y + 2 * scale, width: (item.name.length * 7 + 10) * scale, height: 18 * scale },
+        [item.name],
+        { size: 1000, color: this.theme.text }
+      )
+      legendX += 30 + item.name.length * 7
+    }
+
+    this.text(
+      { x: box.x, y: box.y + box.height - captionHeight + 45720, width: box.width, height: captionHeight - 45720 },
+      [chart.title],
+      { size: 1000, color: this.theme.muted, align: 'ctr' }
+    )
+  }
+
+  toXML(): string {
+    return `${XML_HEADER}<p:sld xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"><p:cSld><p:bg><p:bgPr><a:solidFill>${color(this.theme.background)}</a:solidFill><a:effectLst/></p:bgPr></p:bg><p:spTree>${groupProperties()}${this.shapes.join('')}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`
+  }
+}
+
+function renderSlide(slide: PitchSlide, index: number, total: number, theme: DeckTheme): string {
+  const builder = new SlideBuilder(theme)
+  const { text, bullets, chart, table } = slide.content
+  const contentWidth = SLIDE_WIDTH - 2 * MARGIN
+
+  builder.text(
+    { x: SLIDE_WIDTH - MARGIN - 914400, y: SLIDE_HEIGHT - 457200, width: 914400, height: 274320 },
+    [`${index + 1} / ${total}`],
+    { size: 1000, color: theme.muted, align: 'r' }
+  )
+
+  if (slide.type === 'title') {
+    builder.text({ x: MARGIN, y: 2286000, width: contentWidth, height: 1371600 }, [slide.title], { size: 5400, color: theme.accent, bold: true })
+    if (text) {
+      builder.text({ x: MARGIN, y: 3749040, width: contentWidth * 0.8, height: 1097280 }, [text], { size: 2400, color: theme.muted })
+    }
+    return builder.toXML()
+  }
+
+  builder.text({ x: MARGIN, y: MARGIN * 0.8, width: contentWidth, height: 868680 }, [slide.title], { size: 3200, color: theme.text, bold: true })
+  builder.rect({ x: MARGIN, y: MARGIN * 0.8 + 868680, width: contentWidth, height: 38100 }, theme.accent)
+
+  const hasCopy = !!text || !!bullets?.length
+  const hasVisual = !!chart || !!table
+  const bodyHeight = SLIDE_HEIGHT - BODY_TOP - MARGIN
+  const columnWidth = hasCopy && hasVisual ? (contentWidth - GAP) / 2 : contentWidth
+
+  if (hasCopy) {
+    let top = BODY_TOP
+    if (text) {
+      const lines = Math.ceil(text.length / (columnWidth / 120000))
+      const height = Math.min(bodyHeight, 320040 * Math.max(lines, 1) + 91440)
+      builder.text({ x: MARGIN, y: top, width: columnWidth, height }, [text], { size: 1800, color: theme.muted })
+      top += height + 91440
+    }
+    if (bullets?.length) {
+      builder.text({ x: MARGIN, y: top, width: columnWidth, height: BODY_TOP + bodyHeight - top }, bullets, { size: 1800, color: theme.text }, true)
+    }
+  }
+
+  if (hasVisual) {
+    const x = hasCopy ? MARGIN + columnWidth + GAP : MARGIN
+    const chartHeight = table ? bodyHeight * 0.55 : bodyHeight
+    if (chart) {
+      builder.chart({ x, y: BODY_TOP, width: columnWidth, height: chartHeight }, chart)
+    }
+    if (table) {
+      builder.table({ x, y: chart ? BODY_TOP + chartHeight + 91440 : BODY_TOP, width: columnWidth, height: 0 }, table)
+    }
+  }
+
+  return builder.toXML()
+}
+
+function run(text: string, style: TextStyle): string {
+  return `<a:r><a:rPr lang="en-US" sz="${style.size}"${style.bold ? ' b="1"' : ''} dirty="0"><a:solidFill>${color(style.color)}</a:solidFill></a:rPr><a:t>${escapeXML(text)}</a:t></a:r>`
+}
+
+function color(hex: string, alpha = 100): string {
+  const value = hex.replace('#', '').toUpperCase()
+  return alpha < 100 ? `<a:srgbClr val="${value}"><a:alpha val="${alpha * 1000}"/></a:srgbClr>` : `<a:srgbClr val="${value}"/>`
+}
+
+function transform(box: Box): string {
+  return `<a:xfrm><a:off x="${Math.round(box.x)}" y="${Math.round(box.y)}"/><a:ext cx="${Math.max(0, Math.round(box.width))}" cy="${Math.max(0, Math.round(box.height))}"/></a:xfrm>`
+}
+
+function groupProperties(): string {
+  return '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>'
+}
+
+function relationships(targets: { type: string; target: string }[]): string {
+  return `${XML_HEADER}<Relationships xmlns="${NS_RELS}">${targets
+    .map((target, index) => `<Relationship Id="rId${index + 1}" Type="${target.type}" Target="${target.target}"/>`)
+    .join('')}</Relationships>`
+}
+
+function contentTypes(slideCount: number): string {
+  const overrides = [
+    ['/ppt/presentation.xml', `${CONTENT_TYPE}.presentationml.presentation.main+xml`],
+    ['/ppt/slideMasters/slideMaster1.xml', `${CONTENT_TYPE}.presentationml.slideMaster+xml`],
+    ['/ppt/slideLayouts/slideLayout1.xml', `${CONTENT_TYPE}.presentationml.slideLayout+xml`],
+    ['/ppt/theme/theme1.xml', `${CONTENT_TYPE}.theme+xml`],
+    ['/docProps/core.xml', 'application/vnd.openxmlformats-package.core-properties+xml'],
+    ['/docProps/app.xml', `${CONTENT_TYPE}.extended-properties+xml`],
+    ...Array.from({ length: slideCount }, (_, index) => [`/ppt/slides/slide${index + 1}.xml`, `${CONTENT_TYPE}.presentationml.slide+xml`])
+  ]
+
+  return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>${overrides
+    .map(([part, type]) => `<Override PartName="${part}" ContentType="${type}"/>`)
+    .join('')}</Types>`
+}
+
+function coreProperties(deck: PitchDeck): string {
+  return `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXML(deck.title)}</dc:title><dcterms:created xsi:type="dcterms:W3CDTF">${new Date(deck.createdAt).toISOString()}</dcterms:created></cp:coreProperties>`
+}
+
+function presentation(slideCount: number): string {
+  // Relationship ids follow the order in presentation.xml.rels: master, theme, then slides
+  const slideIds = Array.from({ length: slideCount }, (_, index) => `<p:sldId id="${256 + index}" r:id="rId${index + 3}"/>`).join('')
+  return `${XML_HEADER}<p:presentation xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"><p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst><p:sldIdLst>${slideIds}</p:sldIdLst><p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`
+}
+
+function slideMaster(): string {
+  return `${XML_HEADER}<p:sldMaster xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${groupProperties()}</p:spTree></p:cSld><p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/><p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst></p:sldMaster>`
+}
+
+/** The Office theme every presentation needs, with the deck's colours */
+function officeTheme(theme: DeckTheme): string {
+  const [accent1, accent2, accent3, accent4, accent5] = theme.series
+  const colors = [
+    ['dk1', theme.text], ['lt1', theme.background], ['dk2', theme.muted], ['lt2', theme.surface],
+    ['accent1', accent1], ['accent2', accent2], ['accent3', accent3], ['accent4', accent4], ['accent5', accent5],
+    ['accent6', theme.accent], ['hlink', theme.accent], ['folHlink', theme.muted]
+  ].map(([name, value]) => `<a:${name}>${color(value)}</a:${name}>`).join('')
+  const font = '<a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/>'
+  const fill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'
+  const line = `<a:ln w="9525">${fill}</a:ln>`
+  const effect = '<a:effectStyle><a:effectLst/></a:effectStyle>'
+
+  return `${XML_HEADER}<a:theme xmlns:a="${NS_A}" name="InfiniteIdea"><a:themeElements><a:clrScheme name="InfiniteIdea">${colors}</a:clrScheme><a:fontScheme name="InfiniteIdea"><a:majorFont>${font}</a:majorFont><a:minorFont>${font}</a:minorFont></a:fontScheme><a:fmtScheme name="InfiniteIdea"><a:fillStyleLst>${fill.repeat(3)}</a:fillStyleLst><a:lnStyleLst>${line.repeat(3)}</a:lnStyleLst><a:effectStyleLst>${effect.repeat(3)}</a:effectStyleLst><a:bgFillStyleLst>${fill.repeat(3)}</a:bgFillStyleLst></a:fmtScheme></a:themeElements></a:theme>`
+}
@@ -0,0 +1,41 @@
+export interface DeckTheme {
+  name: string
+  label: string
+  background: string
+  surface: string
+  text: string
+  muted: string
+  accent: string
+  /** Colours for chart series, in order */
+  series: string[]
+}
+
+export const DECK_THEMES: Record<string, DeckTheme> = {
+  light: {
+    name: 'light',
+    label: 'Light',
+    background: '#ffffff',
+    surface: '#f3f4f6',
+    text: '#111827',
+    muted: '#6b7280',
+    accent: '#2563eb',
+    series: ['#2563eb', '#f97316', '#10b981', '#8b5cf6', '#ef4444']
+  },
+  dark: {
+    name: 'dark',
+    label: 'Dark',
+    background: '#0f172a',
+    surface: '#1e293b',
+    text: '#f8fafc',
+    muted: '#94a3b8',
+    accent: '#38bdf8',
+    series: ['#38bdf8', '#fb923c', '#34d399', '#a78bfa', '#f87171']
+  }
+}
+
+export const DEFAULT_DECK_THEME = 'light'
+
+/** The named theme, or the default one for unknown names */
+export function deckTheme(name?: string): DeckTheme {
+  return name && Object.hasOwn(DECK_THEMES, name) ? DECK_THEMES[name] : DECK_THEMES[DEFAULT_DECK_THEME]
+}
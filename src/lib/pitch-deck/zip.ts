@@ -0,0 +1,92 @@
+export interface ZipEntry {
+  name: string
+  data: string | Uint8Array
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+/** 1980-01-01, the earliest DOS date (month in bits 5-8, day in 0-4), so archives are reproducible */
+const DOS_DATE = (1 << 5) | 1
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Writes a ZIP archive with every entry stored uncompressed. That is all
+ * Office documents need, and it keeps the exporters free of a compression
+ * dependency.
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const local: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data
+    const crc = crc32(data)
+
+    const header = new DataView(new ArrayBuffer(30))
+    header.setUint32(0, 0x04034b50, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, 0x0800, true) // names are UTF-8
+    header.setUint16(8, 0, true) // stored
+    header.setUint16(10, 0, true)
+    header.setUint16(12, DOS_DATE, true)
+    header.setUint32(14, crc, true)
+    header.setUint32(18, data.length, true)
+    header.setUint32(22, data.length, true)
+    header.setUint16(26, name.length, true)
+    header.setUint16(28, 0, true)
+    local.push(new Uint8Array(header.buffer), name, data)
+
+    const record = new DataView(new ArrayBuffer(46))
+    record.setUint32(0, 0x02014b50, true)
+    record.setUint16(4, 20, true)
+    record.setUint16(6, 20, true)
+    record.setUint16(8, 0x0800, true)
+    record.setUint16(10, 0, true)
+    record.setUint16(12, 0, true)
+    record.setUint16(14, DOS_DATE, true)
+    record.setUint32(16, crc, true)
+    record.setUint32(20, data.length, true)
+    record.setUint32(24, data.length, true)
+    record.setUint16(28, name.length, true)
+    record.setUint32(42, offset, true)
+    central.push(new Uint8Array(record.buffer), name)
+
+    offset += 30 + name.length + data.length
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return concat([...local, ...central, new Uint8Array(end.buffer)])
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    result.set(part, position)
+    position += part.length
+  }
+  return result
+}
@@ -0,0 +1,361 @@
+import { Phase, Priority, Roadmap, ScheduledTask, Task } from '@/types'
+import { withSchedule } from './scheduler'
+
+export type RoadmapExportFormat = 'ics' | 'csv' | 'github' | 'jira' | 'linear'
+
+export interface RoadmapExportOptions {
+  projectName: string
+  /** Timestamp written to calendar events, now by default */
+  now?: Date
+}
+
+export const ROADMAP_EXPORT_FORMATS: Record<RoadmapExportFormat, { label: string; mimeType: string; extension: string }> = {
+  ics: { label: 'Milestone calendar (.ics)', mimeType: 'text/calendar', extension: 'ics' },
+  csv: { label: 'Task list (.csv)', mimeType: 'text/csv', extension: 'csv' },
+  github: { label: 'GitHub Issues (.json)', mimeType: 'application/json', extension: 'json' },
+  jira: { label: 'Jira import (.csv)', mimeType: 'text/csv', extension: 'csv' },
+  linear: { label: 'Linear import (.csv)', mimeType: 'text/csv', extension: 'csv' }
+}
+
+const JIRA_PRIORITIES: Record<Priority, string> = {
+  [Priority.CRITICAL]: 'Highest',
+  [Priority.HIGH]: 'High',
+  [Priority.MEDIUM]: 'Medium',
+  [Priority.LOW]: 'Low'
+}
+
+const LINEAR_PRIORITIES: Record<Priority, string> = {
+  [Priority.CRITICAL]: 'Urgent',
+  [Priority.HIGH]: 'High',
+  [Priority.MEDIUM]: 'Medium',
+  [Priority.LOW]: 'Low'
+}
+
+const LINEAR_STATUSES: Record<Task['status'], string> = {
+  not_started: 'Todo',
+  in_progress: 'In Progress',
+  completed: 'Done',
+  blocked: 'Todo'
+}
+
+/** Linear's exponential estimate scale; days of work are rounded up to it */
+const LINEAR_ESTIMATES = [1, 2, 4, 8, 16]
+
+const CRITICAL_LABEL = 'critical-path'
+
+interface ExportTask {
+  key: string
+  phase: Phase
+  task: Task
+  schedule?: ScheduledTask
+  /** Keys of the tasks this one depends on */
+  blockedBy: string[]
+  /** Dependencies that are not tasks, kept as written */
+  otherDependencies: string[]
+}
+
+/**
+ * Exports a roadmap as a milestone calendar, a flat task list or an
+ * issue-tracker import file. Roadmaps without a schedule are scheduled first
+ * so every format carries the same dates.
+ */
+export function exportRoadmap(roadmap: Roadmap, format: RoadmapExportFormat, options: RoadmapExportOptions): string {
+  const scheduled = roadmap.schedule ? roadmap : withSchedule(roadmap)
+
+  switch (format) {
+    case 'ics':
+      return toICS(scheduled, options)
+    case 'csv':
+      return toTaskCSV(scheduled)
+    case 'github':
+      return toGitHubIssues(scheduled)
+    case 'jira':
+      return toJiraCSV(scheduled)
+    case 'linear':
+      return toLinearCSV(scheduled)
+  }
+}
+
+/** One all-day event per phase milestone, on its due date */
+function toICS(roadmap: Roadmap, options: RoadmapExportOptions): string {
+  const stamp = formatTimestamp(options.now ?? new Date())
+  const uidPrefix = slugify(options.projectName) || 'roadmap'
+
+  const events = roadmap.phases.flatMap((phase, index) => {
+    const due = new Date(phase.milestone.dueDate)
+    const nextDay = new Date(due.getFullYear(), due.getMonth(), due.getDate() + 1)
+    const description = [
+      phase.milestone.description,
+      listSection('Deliverables:', phase.milestone.deliverables),
+      listSection('Success criteria:', phase.milestone.successCriteria)
+    ].filter(Boolean).join('\n\n')
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${uidPrefix}-${slugify(phase.id || phase.name) || index + 1}@infiniteidea`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(due, '')}`,
+      `DTEND;VALUE=DATE:${formatDate(nextDay, '')}`,
+      `SUMMARY:${escapeText(phase.milestone.name || `${phase.name} complete`)}`,
+      ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+      `CATEGORIES:${escapeText(phase.name)}`,
+      'END:VEVENT'
+    ]
+  })
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Desenyon//InfiniteIdea Roadmap//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${options.projectName} roadmap`)}`,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n'
+}
+
+function toTaskCSV(roadmap: Roadmap): string {
+  const tasks = exportTasks(roadmap)
+  const names = new Map(tasks.map(entry => [entry.key, entry.task.name]))
+
+  return toCSV([
+    ['Phase', 'Task ID', 'Task', 'Description', 'Category', 'Priority', 'Status', 'Estimated Hours',
+      'Dependencies', 'Start', 'End', 'Slack (days)', 'Critical Path'],
+    ...tasks.map(({ key, phase, task, schedule, blockedBy, otherDependencies }) => [
+      phase.name,
+      key,
+      task.name,
+      task.description,
+      task.category,
+      task.priority,
+      task.status,
+      task.estimatedHours,
+      [...blockedBy.map(dep => names.get(dep) ?? dep), ...otherDependencies].join('; '),
+      schedule ? formatDate(new Date(schedule.startDate)) : '',
+      schedule ? formatDate(new Date(schedule.endDate)) : '',
+      schedule?.slack ?? '',
+      schedule?.critical ? 'Yes' : 'No'
+    ])
+  ])
+}
+
+/**
+ * Milestones and issues as payloads for GitHub's REST API. Each issue names
+ * its milestone by title, since GitHub only assigns milestone numbers once
+ * they are created.
+ */
+function toGitHubIssues(roadmap: Roadmap): string {
+  const tasks = exportTasks(roadmap)
+  const names = new Map(tasks.map(entry => [entry.key, entry.task.name]))
+
+  const milestones = roadmap.phases.map(phase => ({
+    title: milestoneTitle(phase),
+    description: phase.milestone.description || phase.description,
+    due_on: new Date(phase.milestone.dueDate).toISOString()
+  }))
+
+  const issues = tasks.map(({ phase, task, schedule, blockedBy, otherDependencies }) => ({
+    title: task.name,
+    body: [
+      task.description,
+      `**Estimate:** ${task.estimatedHours}h`,
+      ...(schedule ? [`**Scheduled:** ${formatDate(new Date(schedule.startDate))} – ${formatDate(new Date(schedule.endDate))}`] : []),
+      listSection('**Depends on:**', [...blockedBy.map(dep => names.get(dep) ?? dep), ...otherDependencies])
+    ].filter(Boolean).join('\n\n'),
+    labels: labelsFor(task, schedule, label => label),
+    milestone: milestoneTitle(phase),
+    ...(task.assignee ? { assignees: [task.assignee] } : {})
+  }))
+
+  return JSON.stringify({ milestones, issues }, null, 2)
+}
+
+/**
+ * Jira's CSV importer format: an epic per phase with its tasks as children,
+ * and "Blocks" links between tasks by issue id. Original estimates are in
+ * seconds and due dates in yyyy-MM-dd.
+ */
+function toJiraCSV(roadmap: Roadmap): string {
+  const tasks = exportTasks(roadmap)
+  const ids = new Map<string, number>()
+  tasks.forEach((entry, index) => ids.set(entry.key, roadmap.phases.length + index + 1))
+
+  const rows = [
+    ...roadmap.phases.map((phase, index) => ({
+      id: index + 1,
+      parent: '',
+      type: 'Epic',
+      summary: phase.name,
+      description: phase.description,
+      priority: '',
+      labels: [] as string[],
+      estimate: Math.round((phase.estimatedHours || 0) * 3600),
+      due: formatDate(new Date(phase.milestone.dueDate)),
+      blockedBy: [] as number[]
+    })),
+    ...tasks.map(({ key, phase, task, schedule, blockedBy }) => ({
+      id: ids.get(key)!,
+      parent: roadmap.phases.indexOf(phase) + 1,
+      type: 'Task',
+      summary: task.name,
+      description: task.description,
+      priority: JIRA_PRIORITIES[task.priority] ?? '',
+      labels: labelsFor(task, schedule, slugify),
+      estimate: Math.round(task.estimatedHours * 3600),
+      due: schedule ? formatDate(new Date(schedule.endDate)) : '',
+      blockedBy: blockedBy.map(dep => ids.get(dep)!)
+    }))
+  ]
+
+  // Jira takes several values for a field as repeated columns with the same header
+  const labelColumns = Math.max(1, ...rows.map(row => row.labels.length))
+  const linkColumns = Math.max(1, ...rows.map(row => row.blockedBy.length))
+
+  return toCSV([
+    ['Issue Id', 'Parent Id', 'Issue Type', 'Summary', 'Description', 'Priority',
+      ...Array(labelColumns).fill('Labels'), 'Original Estimate', 'Due Date',
+      ...Array(linkColumns).fill('Inward issue link (Blocks)')],
+    ...rows.map(row => [
+      row.id,
+      row.parent,
+      row.type,
+      row.summary,
+      row.description,
+      row.priority,
+      ...padded(row.labels, labelColumns),
+      row.estimate,
+      row.due,
+      ...padded(row.blockedBy, linkColumns)
+    ])
+  ])
+}
+
+/**
+ * Linear's CSV importer format. Phases become projects, and estimates are
+ * days of work rounded up to Linear's exponential point scale. Linear does
+ * not import relations, so dependencies are listed in the description.
+ */
+function toLinearCSV(roadmap: Roadmap): string {
+  const tasks = exportTasks(roadmap)
+  const names = new Map(tasks.map(entry => [entry.key, entry.task.name]))
+  const hoursPerDay = roadmap.schedule?.hoursPerDay ?? 6
+
+  return toCSV([
+    ['ID', 'Title', 'Description', 'Status', 'Priority', 'Estimate', 'Project', 'Labels', 'Assignee', 'Due Date'],
+    ...tasks.map(({ key, phase, task, schedule, blockedBy, otherDependencies }) => [
+      key,
+      task.name,
+      [
+        task.description,
+        listSection('Blocked by:', [...blockedBy.map(dep => names.get(dep) ?? dep), ...otherDependencies])
+      ].filter(Boolean).join('\n\n'),
+      LINEAR_STATUSES[task.status] ?? 'Todo',
+      LINEAR_PRIORITIES[task.priority] ?? 'No priority',
+      linearEstimate(task.estimatedHours / hoursPerDay),
+      phase.name,
+      [...labelsFor(task, schedule, label => label), ...(task.status === 'blocked' ? ['blocked'] : [])].join(', '),
+      task.assignee ?? '',
+      schedule ? formatDate(new Date(schedule.endDate)) : ''
+    ])
+  ])
+}
+
+/** Flattens the phases' tasks and splits their dependencies into tasks and anything else */
+function exportTasks(roadmap: Roadmap): ExportTask[] {
+  const scheduled = new Map((roadmap.schedule?.tasks ?? []).map(task => [task.taskId, task]))
+  const keys = new Map<string, string>()
+  const entries = roadmap.phases.flatMap(phase => phase.tasks.map(task => {
+    const key = task.id || task.name
+    for (const ref of [task.id, task.name]) {
+      if (ref && !keys.has(ref.trim().toLowerCase())) {
+        keys.set(ref.trim().toLowerCase(), key)
+      }
+    }
+    return { key, phase, task, schedule: scheduled.get(key) }
+  }))
+
+  return entries.map(entry => {
+    const dependencies = entry.task.dependencies ?? []
+    return {
+      ...entry,
+      blockedBy: dependencies.flatMap(ref => keys.get(ref.trim().toLowerCase()) ?? []),
+      otherDependencies: dependencies.filter(ref => !keys.has(ref.trim().toLowerCase()))
+    }
+  })
+}
+
+function labelsFor(task: Task, schedule: ScheduledTask | undefined, format: (label: string) => string): string[] {
+  return [
+    ...(task.category ? [format(task.category)] : []),
+    ...(schedule?.critical ? [CRITICAL_LABEL] : [])
+  ]
+}
+
+function milestoneTitle(phase: Phase): string {
+  return phase.milestone.name || phase.name
+}
+
+function linearEstimate(days: number): number {
+  return LINEAR_ESTIMATES.find(points => points >= days) ?? LINEAR_ESTIMATES[LINEAR_ESTIMATES.length - 1]
+}
+
+function listSection(title: string, items: string[]): string {
+  return items.length ? `${title}\n${items.map(item => `- ${item}`).join('\n')}` : ''
+}
+
+function padded<T>(values: T[], length: number): (T | '')[] {
+  return [...values, ...Array<''>(length - values.length).fill('')]
+}
+
+function toCSV(rows: (string | number)[][]): string {
+  return rows.map(row => row.map(escapeCSV).join(',')).join('\r\n') + '\r\n'
+}
+
+function escapeCSV(value: string | number): string {
+  const text = String(value ?? '')
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Escapes commas, semicolons, backslashes and newlines in iCalendar text values */
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+/** Splits content lines longer than 75 bytes, as RFC 5545 requires */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let bytes = 0
+
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    // Continuation lines start with a space, which counts towards their 75 bytes
+    if (bytes + size > (parts.length ? 74 : 75)) {
+      parts.push(current)
+      current = ''
+      bytes = 0
+    }
+    current += char
+    bytes += size
+  }
+
+  return [...parts, current].join('\r\n ')
+}
+
+function formatDate(date: Date, separator = '-'): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0')
+  ].join(separator)
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
@@ -0,0 +1,360 @@
+import {
+  Roadmap,
+  RoadmapSchedule,
+  ScheduledPhase,
+  ScheduledTask,
+  ScheduleIssue,
+  Task
+} from '@/types'
+
+export interface ScheduleOptions {
+  /** First working day of the project, today by default */
+  startDate?: Date
+  /** People working on tasks in parallel, 3 by default */
+  teamSize?: number
+  /** Productive hours per person per working day, 6 by default */
+  hoursPerDay?: number
+}
+
+export const DEFAULT_TEAM_SIZE = 3
+const DEFAULT_HOURS_PER_DAY = 6
+
+/** Slack below this many days counts as none, absorbing floating-point error */
+const EPSILON = 1e-6
+
+interface TaskNode {
+  id: string
+  phaseId: string
+  task: Task
+  /** Working days for one person */
+  duration: number
+  predecessors: Set<number>
+}
+
+/**
+ * Schedules a roadmap's tasks with the critical path method.
+ *
+ * Tasks depend on the tasks or phases named in their dependencies (by id or
+ * name), on every task of the phases their own phase depends on, and on
+ * anything that 'blocks' them in the roadmap's dependency edges. Each task is
+ * worked on by one person, so with fewer people than parallel tasks some
+ * start later than their dependencies allow; slack and the critical path are
+ * measured against that capacity-limited plan. Edges that close a cycle and
+ * references to unknown tasks are dropped and reported as issues.
+ */
+export function scheduleRoadmap(roadmap: Roadmap, options: ScheduleOptions = {}): RoadmapSchedule {
+  const teamSize = Math.max(1, Math.floor(options.teamSize ?? DEFAULT_TEAM_SIZE))
+  const hoursPerDay = options.hoursPerDay ?? DEFAULT_HOURS_PER_DAY
+  const startDate = firstWorkingDay(options.startDate ?? new Date())
+
+  const { nodes, issues } = buildGraph(roadmap, hoursPerDay)
+  const order = topologicalOrder(nodes, issues)
+  const successors = nodes.map(() => [] as number[])
+  nodes.forEach((node, index) => node.predecessors.forEach(pred => successors[pred].push(index)))
+
+  // Latest starts ignoring capacity decide which ready task gets the next free person
+  const priority = latestStarts(nodes, order, successors)
+  const { start, sequence, resourceSuccessors } = levelResources(nodes, priority, teamSize)
+
+  const finish = nodes.map((node, index) => start[index] + node.duration)
+  const durationDays = finish.reduce((max, value) => Math.max(max, value), 0)
+
+  const latestFinish: number[] = []
+  for (const index of [...sequence].reverse()) {
+    latestFinish[index] = [...successors[index], ...resourceSuccessors[index]]
+      .reduce((min, next) => Math.min(min, latestFinish[next] - nodes[next].duration), durationDays)
+  }
+
+  const tasks: ScheduledTask[] = nodes.map((node, index) => {
+    const latestStart = latestFinish[index] - node.duration
+    const slack = Math.max(0, latestStart - start[index])
+    return {
+      taskId: node.id,
+      phaseId: node.phaseId,
+      earliestStart: roundDays(start[index]),
+      earliestFinish: roundDays(finish[index]),
+      latestStart: roundDays(latestStart),
+      latestFinish: roundDays(latestFinish[index]),
+      slack: roundDays(slack),
+      critical: slack < EPSILON,
+      startDate: workingDate(startDate, start[index]),
+      endDate: lastWorkingDate(startDate, start[index], finish[index])
+    }
+  })
+
+  const phases: ScheduledPhase[] = roadmap.phases.map(phase => {
+    const phaseId = phase.id || phase.name
+    const indices = nodes.flatMap((node, index) => node.phaseId === phaseId ? [index] : [])
+    const phaseStart = indices.length ? Math.min(...indices.map(index => start[index])) : 0
+    const phaseFinish = indices.length ? Math.max(...indices.map(index => finish[index])) : 0
+    return {
+      phaseId,
+      start: roundDays(phaseStart),
+      finish: roundDays(phaseFinish),
+      startDate: workingDate(startDate, phaseStart),
+      endDate: lastWorkingDate(startDate, phaseStart, phaseFinish)
+    }
+  })
+
+  return {
+    startDate,
+    endDate: lastWorkingDate(startDate, 0, durationDays),
+    durationDays: roundDays(durationDays),
+    teamSize,
+    hoursPerDay,
+    tasks,
+    phases,
+    criticalPath: tasks
+      .filter(task => task.critical)
+      .sort((a, b) => a.earliestStart - b.earliestStart || a.earliestFinish - b.earliestFinish)
+      .map(task => task.taskId),
+    issues
+  }
+}
+
+/** Adds a schedule to the roadmap and sets each phase milestone's due date to the day its last task ends */
+export function withSchedule(roadmap: Roadmap, options: ScheduleOptions = {}): Roadmap {
+  const schedule = scheduleRoadmap(roadmap, options)
+  return {
+    ...roadmap,
+    phases: roadmap.phases.map((phase, index) => ({
+      ...phase,
+      milestone: { ...phase.milestone, dueDate: schedule.phases[index].endDate }
+    })),
+    schedule
+  }
+}
+
+/** The options a roadmap was last scheduled with, so it can be scheduled again the same way */
+export function scheduleOptionsOf(roadmap?: Pick<Roadmap, 'schedule'>): ScheduleOptions {
+  const schedule = roadmap?.schedule
+  if (!schedule) return {}
+
+  // Stored schedules come back from JSON with their dates as strings
+  return { startDate: new Date(schedule.startDate), teamSize: schedule.teamSize, hoursPerDay: schedule.hoursPerDay }
+}
+
+/** Schedules a changed roadmap again, with the options it was last scheduled with unless others are given */
+export function reschedule(roadmap: Roadmap, options: ScheduleOptions = {}): Roadmap {
+  return withSchedule(roadmap, { ...scheduleOptionsOf(roadmap), ...options })
+}
+
+function buildGraph(roadmap: Roadmap, hoursPerDay: number): { nodes: TaskNode[]; issues: ScheduleIssue[] } {
+  const nodes: TaskNode[] = []
+  const issues: ScheduleIssue[] = []
+  const taskRefs = new Map<string, number>()
+  const phaseRefs = new Map<string, number[]>()
+
+  roadmap.phases.forEach(phase => {
+    const phaseId = phase.id || phase.name
+    const indices = phase.tasks.map(task => {
+      const index = nodes.length
+      nodes.push({
+        id: task.id || task.name,
+        phaseId,
+        task,
+        duration: Math.max(0, task.estimatedHours || 0) / hoursPerDay,
+        predecessors: new Set()
+      })
+      for (const ref of [task.id, task.name]) {
+        if (ref && !taskRefs.has(normalize(ref))) {
+          taskRefs.set(normalize(ref), index)
+        }
+      }
+      return index
+    })
+    for (const ref of [phase.id, phase.name]) {
+      if (ref && !phaseRefs.has(normalize(ref))) {
+        phaseRefs.set(normalize(ref), indices)
+      }
+    }
+  })
+
+  // Tasks are looked up before phases, so a task sharing its phase's name still resolves to the task
+  const resolve = (ref: string): number[] | undefined => {
+    const task = taskRefs.get(normalize(ref))
+    return task !== undefined ? [task] : phaseRefs.get(normalize(ref))
+  }
+
+  const link = (from: number[], to: number[]) => {
+    to.forEach(target => from.forEach(source => nodes[target].predecessors.add(source)))
+  }
+
+  const dangling = (message: string, taskIds: string[]) => issues.push({ type: 'dangling', message, taskIds })
+
+  nodes.forEach((node, index) => {
+    for (const ref of node.task.dependencies ?? []) {
+      const from = resolve(ref)
+      if (from) {
+        link(from, [index])
+      } else {
+        dangling(`"${node.task.name}" depends on unknown "${ref}"`, [node.id])
+      }
+    }
+  })
+
+  roadmap.phases.forEach(phase => {
+    const tasks = phaseRefs.get(normalize(phase.id || phase.name)) ?? []
+    // Generated roadmaps can leave out phase dependencies
+    for (const ref of phase.dependencies ?? []) {
+      const from = resolve(ref)
+      if (from) {
+        link(from, tasks)
+      } else {
+        dangling(`Phase "${phase.name}" depends on unknown "${ref}"`, tasks.map(index => nodes[index].id))
+      }
+    }
+  })
+
+  for (const dependency of roadmap.dependencies ?? []) {
+    if (dependency.type !== 'blocks') {
+      continue
+    }
+    const from = resolve(dependency.from)
+    const to = resolve(dependency.to)
+    if (from && to) {
+      link(from, to)
+    } else {
+      dangling(
+        `"${dependency.from}" blocks "${dependency.to}", but "${from ? dependency.to : dependency.from}" is unknown`,
+        [...(from ?? []), ...(to ?? [])].map(index => nodes[index].id)
+      )
+    }
+  }
+
+  return { nodes, issues }
+}
+
+/**
+ * Orders tasks so each comes after its predecessors. Depth-first search
+ * finds the edges that close a cycle; each is reported and removed.
+ */
+function topologicalOrder(nodes: TaskNode[], issues: ScheduleIssue[]): number[] {
+  const state: ('visiting' | 'done' | undefined)[] = []
+  const path: number[] = []
+  const order: number[] = []
+
+  const visit = (index: number) => {
+    state[index] = 'visiting'
+    path.push(index)
+    for (const pred of [...nodes[index].predecessors]) {
+      if (state[pred] === 'visiting') {
+        // Predecessors are followed backwards, so the cycle reads in reverse along the path
+        const cycle = path.slice(path.indexOf(pred)).reverse()
+        issues.push({
+          type: 'cycle',
+          message: `Dependency cycle: ${[pred, ...cycle].map(i => nodes[i].task.name).join(' → ')}`,
+          taskIds: cycle.map(i => nodes[i].id)
+        })
+        nodes[index].predecessors.delete(pred)
+      } else if (!state[pred]) {
+        visit(pred)
+      }
+    }
+    path.pop()
+    state[index] = 'done'
+    order.push(index)
+  }
+
+  nodes.forEach((_, index) => {
+    if (!state[index]) {
+      visit(index)
+    }
+  })
+  return order
+}
+
+/** Latest start of each task that keeps the project at its shortest length with unlimited people */
+function latestStarts(nodes: TaskNode[], order: number[], successors: number[][]): number[] {
+  const earliestFinish: number[] = []
+  for (const index of order) {
+    const earliestStart = [...nodes[index].predecessors].reduce((max, pred) => Math.max(max, earliestFinish[pred]), 0)
+    earliestFinish[index] = earliestStart + nodes[index].duration
+  }
+
+  const end = earliestFinish.reduce((max, value) => Math.max(max, value), 0)
+  const latestStart: number[] = []
+  for (const index of [...order].reverse()) {
+    const latestFinish = successors[index].reduce((min, next) => Math.min(min, latestStart[next]), end)
+    latestStart[index] = latestFinish - nodes[index].duration
+  }
+  return latestStart
+}
+
+/**
+ * Assigns tasks to `teamSize` people. Of the tasks whose predecessors are
+ * scheduled, the one with the earliest latest start goes next to whoever is
+ * free first. Consecutive tasks of one person are returned as extra edges so
+ * the backward pass accounts for them.
+ */
+function levelResources(nodes: TaskNode[], priority: number[], teamSize: number) {
+  const start: number[] = []
+  const finish: number[] = []
+  const sequence: number[] = []
+  const resourceSuccessors = nodes.map(() => [] as number[])
+  const freeAt = Array<number>(teamSize).fill(0)
+  const lastTask: (number | undefined)[] = Array(teamSize).fill(undefined)
+
+  while (sequence.length < nodes.length) {
+    let next = -1
+    nodes.forEach((node, index) => {
+      const ready = finish[index] === undefined && [...node.predecessors].every(pred => finish[pred] !== undefined)
+      if (ready && (next === -1 || priority[index] < priority[next] - EPSILON)) {
+        next = index
+      }
+    })
+
+    const person = freeAt.indexOf(Math.min(...freeAt))
+    const ready = [...nodes[next].predecessors].reduce((max, pred) => Math.max(max, finish[pred]), 0)
+    start[next] = Math.max(ready, freeAt[person])
+    finish[next] = start[next] + nodes[next].duration
+
+    const previous = lastTask[person]
+    if (previous !== undefined) {
+      resourceSuccessors[previous].push(next)
+    }
+    freeAt[person] = finish[next]
+    lastTask[person] = next
+    sequence.push(next)
+  }
+
+  return { start, sequence, resourceSuccessors }
+}
+
+function normalize(ref: string): string {
+  return ref.trim().toLowerCase()
+}
+
+function isWeekend(date: Date): boolean {
+  return date.getDay() === 0 || date.getDay() === 6
+}
+
+function firstWorkingDay(date: Date): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  while (isWeekend(result)) {
+    result.setDate(result.getDate() + 1)
+  }
+  return result
+}
+
+/** Calendar date of the working day `offset` falls in */
+function workingDate(startDate: Date, offset: number): Date {
+  const result = new Date(startDate)
+  let remaining = Math.floor(offset + EPSILON)
+  while (remaining > 0) {
+    result.setDate(result.getDate() + 1)
+    if (!isWeekend(result)) {
+      remaining--
+    }
+  }
+  return result
+}
+
+/** Last working day touched by work running from `start` to `finish` */
+function lastWorkingDate(startDate: Date, start: number, finish: number): Date {
+  return workingDate(startDate, Math.max(Math.floor(start + EPSILON), Math.ceil(finish - EPSILON) - 1))
+}
+
+function roundDays(days: number): number {
+  return Math.round(days * 100) / 100
+}
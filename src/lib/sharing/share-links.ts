@@ -0,0 +1,199 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import { prisma } from '@/lib/prisma'
+import { cacheUtils } from '@/lib/cache/redis-client'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>
+
+/** What a share link lets its holder do besides viewing */
+export const SHARE_PERMISSIONS = ['view', 'comment', 'duplicate'] as const
+export type SharePermission = typeof SHARE_PERMISSIONS[number]
+
+/** Blueprint sections a link can be limited to; 'all' shares the whole blueprint */
+export const SHARE_SECTIONS = ['all', 'productPlan', 'techStack', 'aiWorkflow', 'roadmap', 'financialModel'] as const
+export type ShareSection = typeof SHARE_SECTIONS[number]
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked'
+
+/** A share link as stored */
+export interface ShareLinkRecord {
+  id: string
+  projectId: string
+  token: string
+  passwordHash: string | null
+  permissions: string[]
+  allowedSections: string[]
+  expiresAt: Date | null
+  revokedAt: Date | null
+  viewCount: number
+  lastAccessedAt: Date | null
+  createdAt: Date
+}
+
+/** A share link as shown to the project's owner, without its password hash */
+export interface ShareLinkView {
+  id: string
+  shareUrl: string
+  shareToken: string
+  permissions: string[]
+  allowedSections: string[]
+  expiresAt: Date | null
+  hasPassword: boolean
+  status: ShareLinkStatus
+  viewCount: number
+  lastAccessedAt: Date | null
+  createdAt: Date
+}
+
+/** A project as a share link shows it, without the owner's details or the idea it was generated from */
+export interface SharedProject {
+  id: string
+  name: string
+  description: string | null
+  category: string | null
+  complexity: string | null
+  status: string
+  blueprint: unknown
+  createdAt: Date
+  lastModified: Date
+}
+
+export type ShareAccess =
+  | { allowed: true; link: ShareLinkRecord }
+  | { allowed: false; status: number; error: string }
+
+const SALT_BYTES = 16
+const KEY_BYTES = 64
+
+/** Wrong passwords a link takes per window; after that it stops checking them until the window passes */
+export const MAX_PASSWORD_ATTEMPTS = 10
+const PASSWORD_ATTEMPT_WINDOW_MS = 15 * 60 * 1000
+
+/** Hashes a share link password with scrypt and a random salt, as `scrypt$<salt>$<hash>` */
+export async function hashSharePassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES)
+  const hash = await scryptAsync(password, salt, KEY_BYTES)
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`
+}
+
+export async function verifySharePassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+export function generateShareToken(): string {
+  return randomBytes(32).toString('hex')
+}
+
+export function shareLinkStatus(link: Pick<ShareLinkRecord, 'expiresAt' | 'revokedAt'>, now = new Date()): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked'
+  if (link.expiresAt && link.expiresAt <= now) return 'expired'
+  return 'active'
+}
+
+export function toShareLinkView(link: ShareLinkRecord, baseUrl: string): ShareLinkView {
+  return {
+    id: link.id,
+    shareUrl: `${baseUrl}/share/${link.token}`,
+    shareToken: link.token,
+    permissions: link.permissions,
+    allowedSections: link.allowedSections,
+    expiresAt: link.expiresAt,
+    hasPassword: !!link.passwordHash,
+    status: shareLinkStatus(link),
+    viewCount: link.viewCount,
+    lastAccessedAt: link.lastAccessedAt,
+    createdAt: link.createdAt
+  }
+}
+
+/**
+ * Keeps only the blueprint sections the link shares. Anything else stored
+ * on the blueprint, such as the investor report narrative, is only shared
+ * with links to the whole blueprint.
+ */
+export function filterSharedBlueprint<T extends object>(blueprint: T | null, allowedSections: string[]): Partial<T> | null {
+  if (!blueprint || allowedSections.includes('all')) return blueprint
+
+  return Object.fromEntries(
+    Object.entries(blueprint).filter(([section]) => allowedSections.includes(section))
+  ) as Partial<T>
+}
+
+/** Only what the shared view shows; duplicating a project copies no more than this */
+export function toSharedProject(project: SharedProject, allowedSections: string[]): SharedProject {
+  return {
+    id: project.id,
+    name: project.name,
+    description: project.description,
+    category: project.category,
+    complexity: project.complexity,
+    status: project.status,
+    blueprint: filterSharedBlueprint(project.blueprint as object | null, allowedSections),
+    createdAt: project.createdAt,
+    lastModified: project.lastModified
+  }
+}
+
+/**
+ * Looks up a share link and checks that it can be used: it must not be
+ * revoked or expired, must grant `permission`, and the password must match
+ * when the link has one. Every check happens here so no route can skip one.
+ * After MAX_PASSWORD_ATTEMPTS wrong passwords a link refuses every password
+ * for 15 minutes.
+ */
+export async function authorizeShareLink(
+  token: string,
+  password: string | undefined,
+  permission: SharePermission = 'view'
+): Promise<ShareAccess> {
+  const link: ShareLinkRecord | null = await prisma.shareLink.findUnique({ where: { token } })
+
+  if (!link) {
+    return { allowed: false, status: 404, error: 'Invalid or expired share link' }
+  }
+
+  switch (shareLinkStatus(link)) {
+    case 'revoked':
+      return { allowed: false, status: 403, error: 'This share link has been revoked' }
+    case 'expired':
+      return { allowed: false, status: 403, error: 'This share link has expired' }
+  }
+
+  if (link.passwordHash) {
+    if (!password) {
+      return { allowed: false, status: 401, error: 'Password required' }
+    }
+
+    // Counted per link, so guessing from many addresses is limited too; refused guesses cost no hashing
+    const attempts = `share-password:${link.id}`
+    if (await cacheUtils.getRateLimitCount(attempts) >= MAX_PASSWORD_ATTEMPTS) {
+      return { allowed: false, status: 429, error: 'Too many incorrect passwords. Please try again later.' }
+    }
+    if (!await verifySharePassword(password, link.passwordHash)) {
+      await cacheUtils.incrementRateLimit(attempts, PASSWORD_ATTEMPT_WINDOW_MS, MAX_PASSWORD_ATTEMPTS)
+      return { allowed: false, status: 401, error: 'Incorrect password' }
+    }
+  }
+
+  if (permission !== 'view' && !link.permissions.includes(permission)) {
+    return { allowed: false, status: 403, error: `This share link does not allow you to ${permission}` }
+  }
+
+  return { allowed: true, link }
+}
+
+/** Counts a view of the link */
+export async function recordShareView(linkId: string): Promise<void> {
+  await prisma.shareLink.update({
+    where: { id: linkId },
+    data: {
+      viewCount: { increment: 1 },
+      lastAccessedAt: new Date()
+    }
+  })
+}
@@ -0,0 +1,138 @@
+/** How one field differs between two versions */
+export interface FieldChange {
+  /** Dotted path within the section, with list items named by id or name, e.g. `coreFeatures[Invoicing].priority` */
+  path: string
+  type: 'added' | 'removed' | 'changed'
+  before?: unknown
+  after?: unknown
+}
+
+export interface SectionDiff {
+  section: string
+  type: 'added' | 'removed' | 'changed'
+  changes: FieldChange[]
+}
+
+export interface BlueprintDiff {
+  sections: SectionDiff[]
+  totals: Record<FieldChange['type'], number>
+}
+
+/** Blueprint fields that change on every save and say nothing about its content */
+const IGNORED_SECTIONS = new Set(['id', 'generatedAt', 'generationMetadata'])
+
+/** Fields that identify an item in a list, so items are compared even when they move */
+export const IDENTITY_KEYS = ['id', 'name', 'title']
+
+type Json = Record<string, unknown>
+
+/**
+ * Compares two blueprints section by section. Objects are compared field by
+ * field; lists of items with an id or name are matched on it, and other
+ * lists by position. A field that was added or removed is reported once,
+ * not once for each field inside it.
+ */
+export function diffBlueprints(before: unknown, after: unknown): BlueprintDiff {
+  const left = asObject(before)
+  const right = asObject(after)
+  const sections: SectionDiff[] = []
+
+  const keys = [...new Set([...Object.keys(left), ...Object.keys(right)])]
+  keys.filter(key => !IGNORED_SECTIONS.has(key)).forEach(section => {
+    if (left[section] === undefined && right[section] !== undefined) {
+      sections.push({ section, type: 'added', changes: [{ path: '', type: 'added', after: right[section] }] })
+    } else if (left[section] !== undefined && right[section] === undefined) {
+      sections.push({ section, type: 'removed', changes: [{ path: '', type: 'removed', before: left[section] }] })
+    } else {
+      const changes = diffValues(left[section], right[section], '')
+      if (changes.length > 0) sections.push({ section, type: 'changed', changes })
+    }
+  })
+
+  const totals = { added: 0, removed: 0, changed: 0 }
+  sections.forEach(section => section.changes.forEach(change => { totals[change.type]++ }))
+
+  return { sections, totals }
+}
+
+function diffValues(before: unknown, after: unknown, path: string): FieldChange[] {
+  if (before === after) return []
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return diffLists(before, after, path)
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    return keys.flatMap(key => {
+      const childPath = path ? `${path}.${key}` : key
+      if (before[key] === undefined && after[key] !== undefined) {
+        return [{ path: childPath, type: 'added' as const, after: after[key] }]
+      }
+      if (before[key] !== undefined && after[key] === undefined) {
+        return [{ path: childPath, type: 'removed' as const, before: before[key] }]
+      }
+      return diffValues(before[key], after[key], childPath)
+    })
+  }
+
+  // Dates come back from the database as strings
+  if (before instanceof Date || after instanceof Date) {
+    return String(before instanceof Date ? before.toISOString() : before) === String(after instanceof Date ? after.toISOString() : after)
+      ? []
+      : [{ path, type: 'changed', before, after }]
+  }
+
+  return [{ path, type: 'changed', before, after }]
+}
+
+function diffLists(before: unknown[], after: unknown[], path: string): FieldChange[] {
+  const key = identityKey(before, after)
+
+  if (!key) {
+    const changes: FieldChange[] = []
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const itemPath = `${path}[${i}]`
+      if (i >= before.length) {
+        changes.push({ path: itemPath, type: 'added', after: after[i] })
+      } else if (i >= after.length) {
+        changes.push({ path: itemPath, type: 'removed', before: before[i] })
+      } else {
+        changes.push(...diffValues(before[i], after[i], itemPath))
+      }
+    }
+    return changes
+  }
+
+  const idOf = (item: unknown) => String((item as Json)[key])
+  const afterById = new Map(after.map(item => [idOf(item), item]))
+  const beforeIds = new Set(before.map(idOf))
+
+  return [
+    ...before.flatMap(item => {
+      const itemPath = `${path}[${idOf(item)}]`
+      return afterById.has(idOf(item))
+        ? diffValues(item, afterById.get(idOf(item)), itemPath)
+        : [{ path: itemPath, type: 'removed' as const, before: item }]
+    }),
+    ...after
+      .filter(item => !beforeIds.has(idOf(item)))
+      .map(item => ({ path: `${path}[${idOf(item)}]`, type: 'added' as const, after: item }))
+  ]
+}
+
+/** The field every item in both lists has a distinct value for, if any */
+function identityKey(before: unknown[], after: unknown[]): string | undefined {
+  return IDENTITY_KEYS.find(key => [before, after].every(items => {
+    const ids = items.map(item => isObject(item) ? item[key] : undefined)
+    return ids.every(id => typeof id === 'string' || typeof id === 'number') && new Set(ids).size === ids.length
+  }))
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+function asObject(value: unknown): Json {
+  return isObject(value) ? value : {}
+}
@@ -0,0 +1,94 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { Roadmap } from '@/types'
+import { BlueprintSection } from '@/types/ai-services'
+import { reschedule } from '@/lib/roadmap/scheduler'
+
+/** What produced a blueprint version */
+export type VersionSource = 'generation' | 'regeneration' | 'edit' | 'restore' | 'baseline'
+
+export interface BlueprintChange {
+  source: VersionSource
+  userId?: string
+  section?: BlueprintSection
+  summary?: string
+}
+
+/** A version as listed, without its snapshot */
+export interface BlueprintVersionSummary {
+  id: string
+  version: number
+  source: VersionSource
+  section: string | null
+  summary: string | null
+  userId: string | null
+  createdAt: Date
+}
+
+export const VERSION_SUMMARY_FIELDS = {
+  id: true,
+  version: true,
+  source: true,
+  section: true,
+  summary: true,
+  userId: true,
+  createdAt: true
+}
+
+/**
+ * Saves a project's blueprint and records it as the project's next
+ * version, in one transaction. `data` sets other project fields in the same
+ * update. Projects saved before versions were kept have their blueprint
+ * recorded first, as a baseline, so the first change can be undone too.
+ * The project row is locked first, so saves made at the same time are
+ * numbered one after the other rather than both taking the same version.
+ * A roadmap is scheduled again with its start date and team size, so its
+ * dates follow edits to its tasks.
+ */
+export async function saveBlueprint(
+  projectId: string,
+  blueprint: object,
+  change: BlueprintChange,
+  data: Record<string, unknown> = {}
+): Promise<BlueprintVersionSummary> {
+  const roadmap = (blueprint as { roadmap?: Roadmap }).roadmap
+  const saved = roadmap && Array.isArray(roadmap.phases) ? { ...blueprint, roadmap: reschedule(roadmap) } : blueprint
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.$queryRaw`SELECT id FROM "projects" WHERE id = ${projectId} FOR UPDATE`
+
+    const latest = await tx.blueprintVersion.findFirst({
+      where: { projectId },
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    })
+    let version = latest?.version ?? 0
+
+    if (!latest) {
+      const project = await tx.project.findUnique({ where: { id: projectId }, select: { blueprint: true } })
+      if (project?.blueprint) {
+        await tx.blueprintVersion.create({
+          data: { projectId, version: ++version, blueprint: project.blueprint, source: 'baseline', summary: 'Before version history' }
+        })
+      }
+    }
+
+    await tx.project.update({
+      where: { id: projectId },
+      data: { ...data, blueprint: saved, lastModified: new Date() }
+    })
+
+    return tx.blueprintVersion.create({
+      data: {
+        projectId,
+        version: version + 1,
+        blueprint: saved,
+        source: change.source,
+        section: change.section,
+        summary: change.summary,
+        userId: change.userId
+      },
+      select: VERSION_SUMMARY_FIELDS
+    })
+  })
+}
@@ -10,7 +10,8 @@ import {
   Roadmap,
   FinancialModel,
   CodingPrompt,
-  Blueprint
+  Blueprint,
+  ComparableCompany
 } from './index'
 
 // ============================================================================
@@ -46,6 +47,9 @@ export interface LocalProvider extends AIServiceProvider {
   name: 'local'
   endpoint: string
   model: string
+  /** Wire format of the endpoint; defaults to 'openai' (/v1/chat/completions) */
+  api?: 'openai' | 'ollama'
+  apiKey?: string
 }
 
 export type AIProvider = OpenAIProvider | AnthropicProvider | LocalProvider
@@ -59,6 +63,14 @@ export interface AIRequest {
   model: string
   prompt: string
   systemPrompt?: string
+  /**
+   * Conversation to send instead of `prompt`, for multi-turn and tool use.
+   * `prompt` should still hold the opening user message.
+   */
+  messages?: AIMessage[]
+  /** Tools the model may call; calls come back in `AIResponse.toolCalls` */
+  tools?: AIToolDefinition[]
+  toolChoice?: 'auto' | 'required' | 'none'
   temperature?: number
   maxTokens?: number
   stream?: boolean
@@ -66,16 +78,43 @@ export interface AIRequest {
   metadata?: Record<string, any>
 }
 
+export type AIMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: AIToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string; isError?: boolean }
+
+export interface AIToolDefinition {
+  name: string
+  description: string
+  /** JSON Schema of the arguments object */
+  parameters: Record<string, unknown>
+}
+
+export interface AIToolCall {
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+}
+
 export interface AIResponse<T = any> {
   success: boolean
   data?: T
   rawResponse?: string
   error?: AIError
+  /** Tools the model asked to call before it can answer */
+  toolCalls?: AIToolCall[]
   usage: {
     promptTokens: number
     completionTokens: number
     totalTokens: number
     cost: number
+    /** Provider calls behind a response that combines several, such as repairs or tool rounds; one when absent */
+    requests?: number
+    /** Response cache outcome; on a hit `cost` is 0 and `savedCost` is what the call originally cost */
+    cache?: {
+      status: 'hit' | 'miss' | 'bypass'
+      savedCost: number
+    }
   }
   metadata: {
     provider: string
@@ -83,6 +122,12 @@ export interface AIResponse<T = any> {
     latency: number
     timestamp: Date
     requestId: string
+    /** How the load balancer routed the request, when it did */
+    routing?: {
+      strategy: string
+      requestedProvider: string
+      requestedModel: string
+    }
   }
 }
 
@@ -136,6 +181,13 @@ export interface GenerationContext {
     competitors: string[]
     opportunities: string[]
   }
+  /** When work on the roadmap starts and how many people do it; today and a team of 3 otherwise */
+  schedule?: {
+    startDate?: Date
+    teamSize?: number
+  }
+  /** Comps table the financial model is valued with; broad SaaS benchmarks otherwise */
+  comparables?: ComparableCompany[]
 }
 
 export interface BlueprintGenerationResponse {
@@ -149,9 +201,31 @@ export interface BlueprintGenerationResponse {
     stepsCompleted: string[]
     aiCallsUsed: number
     totalCost: number
+    sectionStatus: Partial<Record<BlueprintSection, SectionGenerationStatus>>
   }
 }
 
+export type SectionGenerationState = 'completed' | 'failed' | 'skipped'
+
+export interface SectionGenerationStatus {
+  section: BlueprintSection
+  status: SectionGenerationState
+  dependsOn: BlueprintSection[]
+  startedAt?: Date
+  duration: number
+  cost: number
+  error?: string
+}
+
+export type BlueprintStreamEvent =
+  | { type: 'section-started'; section: BlueprintSection; timestamp: Date }
+  | { type: 'token-delta'; section: BlueprintSection; delta: string }
+  | { type: 'section-completed'; section: BlueprintSection; status: SectionGenerationStatus; data?: unknown }
+  | { type: 'blueprint-completed'; response: BlueprintGenerationResponse }
+  | { type: 'generation-failed'; message: string }
+
+export type BlueprintStreamListener = (event: BlueprintStreamEvent) => void
+
 // ============================================================================
 // SPECIALIZED GENERATION INTERFACES
 // ============================================================================
@@ -271,7 +345,11 @@ export interface ValidationIssue {
 // ============================================================================
 
 export interface AIOrchestrator {
-  generateBlueprint(request: BlueprintGenerationRequest): Promise<BlueprintGenerationResponse>
+  generateBlueprint(
+    request: BlueprintGenerationRequest,
+    onEvent?: BlueprintStreamListener,
+    options?: { streamTokens?: () => boolean }
+  ): Promise<BlueprintGenerationResponse>
   regenerateSection(blueprint: Blueprint, section: BlueprintSection, feedback?: string): Promise<AIResponse<any>>
   optimizeBlueprint(blueprint: Blueprint, criteria: OptimizationCriteria): Promise<AIResponse<Blueprint>>
   validateBlueprint(blueprint: Blueprint): Promise<ValidationResult>
@@ -296,6 +374,8 @@ export interface PromptTemplate {
   template: string
   variables: PromptVariable[]
   examples?: PromptExample[]
+  /** Tokens to leave for the response, sized to the JSON the template asks for */
+  completionTokens?: number
   metadata: {
     category: string
     version: string
@@ -534,6 +614,8 @@ export interface AdvancedAIServiceConfig {
   loadBalancing: {
     strategy: 'round_robin' | 'least_latency' | 'cost_optimized' | 'quality_first'
     weights?: Record<string, number>
+    /** Lowest model quality (1-10) cost_optimized may pick; defaults to the requested model's */
+    minQuality?: number
   }
   fallbackChain: string[]
   circuitBreaker: {
@@ -545,6 +627,8 @@ export interface AdvancedAIServiceConfig {
     enabled: boolean
     ttl: number
     keyStrategy: 'prompt_hash' | 'semantic_similarity'
+    /** Requests sampled above this temperature are not cached (default 0.7) */
+    maxTemperature?: number
   }
   monitoring: {
     metricsEnabled: boolean
@@ -554,6 +638,31 @@ export interface AdvancedAIServiceConfig {
       costPerHour: number
     }
   }
+  cassette?: CassetteConfig
+}
+
+/**
+ * Record/replay of provider traffic. In 'record' mode requests go to the
+ * real provider and are written to the cassette directory; in 'replay' mode
+ * they are answered from it. Strict replay fails unrecorded requests instead
+ * of passing them through to the provider.
+ */
+export interface CassetteConfig {
+  mode: 'record' | 'replay'
+  directory: string
+  strict: boolean
+}
+
+/**
+ * A recorded request/response pair, stored as one fixture file per key
+ */
+export interface CassetteInteraction {
+  key: string
+  request: AIRequest
+  response: AIResponse<unknown>
+  /** Chunks in the order they were streamed, for streamed recordings */
+  chunks?: string[]
+  recordedAt: string
 }
 
 /**
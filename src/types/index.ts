@@ -138,6 +138,8 @@ export interface Project {
   category?: string
   complexity?: ComplexityLevel
   blueprint?: Blueprint
+  organizationId?: string | null
+  organization?: { id: string; name: string } | null
   generatedAt?: Date
   lastModified: Date
   createdAt: Date
@@ -420,6 +422,7 @@ export interface Roadmap {
   timeline: string
   dependencies: Dependency[]
   risks: Risk[]
+  schedule?: RoadmapSchedule
 }
 
 export interface Phase {
@@ -459,6 +462,50 @@ export interface Dependency {
   description: string
 }
 
+/**
+ * Critical-path schedule of a roadmap's tasks. Offsets are in working days
+ * from the start date, so 2.5 means halfway through the third working day.
+ */
+export interface RoadmapSchedule {
+  startDate: Date
+  endDate: Date
+  durationDays: number
+  teamSize: number
+  hoursPerDay: number
+  tasks: ScheduledTask[]
+  phases: ScheduledPhase[]
+  /** Ids of the tasks with no slack, in start order */
+  criticalPath: string[]
+  issues: ScheduleIssue[]
+}
+
+export interface ScheduledTask {
+  taskId: string
+  phaseId: string
+  earliestStart: number
+  earliestFinish: number
+  latestStart: number
+  latestFinish: number
+  slack: number
+  critical: boolean
+  startDate: Date
+  endDate: Date
+}
+
+export interface ScheduledPhase {
+  phaseId: string
+  start: number
+  finish: number
+  startDate: Date
+  endDate: Date
+}
+
+export interface ScheduleIssue {
+  type: 'cycle' | 'dangling'
+  message: string
+  taskIds: string[]
+}
+
 export interface Risk {
   id: string
   description: string
@@ -537,8 +584,10 @@ export interface MonthlyProjection {
   month: number
   users: number
   revenue: number
-  churn?: number
-  growth?: number
+  churn?: number // share of customers lost this month
+  growth?: number // change in customers since the previous month
+  costs?: number
+  cash?: number // cash at the end of the month
 }
 
 export interface RevenueScenario {
@@ -553,9 +602,9 @@ export interface BusinessMetrics {
   ltv: number // Lifetime Value
   ltvCacRatio: number
   burnRate: number
-  runway: number // months
-  breakeven: number // months
-  roi: number
+  runway: number // months, -1 when cash never runs out
+  breakeven: number // months, -1 when not reached
+  roi: number // percent
 }
 
 export interface Scenario {
@@ -847,11 +896,17 @@ export interface SlideContent {
 
 export interface ChartData {
   type: 'line' | 'bar' | 'pie' | 'area'
-  data: any[]
+  /** One series per line or bar group, each with a value per label; pie charts use the first series */
+  data: ChartSeries[]
   labels: string[]
   title: string
 }
 
+export interface ChartSeries {
+  name: string
+  values: number[]
+}
+
 export interface TableData {
   headers: string[]
   rows: string[][]
@@ -968,6 +1023,7 @@ export interface UserPersona {
     communication: string[]
   }
   preferredChannels: string[]
+  willingnessToPay?: number // most they would pay a month, in USD
 }
 
 export interface ValueProposition {
@@ -1302,21 +1358,36 @@ export interface ComprehensiveFinancialModel extends FinancialModel {
   funding?: FundingStrategy
 }
 
+/**
+ * Inputs to the financial engine. Rates are fractions (0.05 = 5%) and money
+ * is in USD per month unless noted.
+ */
 export interface FinancialAssumptions {
   market: {
-    size: number
-    growth: number
-    penetration: number
+    size: number // potential customers
+    growth: number // per year
+    penetration: number // largest reachable share of the market
   }
   pricing: {
     strategy: string
-    elasticity: number
-    increases: number[]
+    price: number // monthly revenue per paying customer
+    elasticity: number // drop in conversion per unit of relative price increase
+    increases: number[] // price increase at the start of year 2, 3, ...
+  }
+  customers: {
+    signups: number // new users in the first month
+    growth: number // monthly growth in new users
+    conversion: number // share of new users who pay
+    churn: number // share of paying customers lost each month
+    cac: number // acquisition spend per paying customer
+  }
+  funding: {
+    cash: number // cash available at launch
   }
   costs: {
-    inflation: number
-    optimization: number
-    scaling: number
+    inflation: number // yearly increase in team, tool and marketing costs
+    optimization: number // yearly reduction in infrastructure costs
+    scaling: number // growth exponent of infrastructure without scaling tiers
   }
   operations: {
     efficiency: number
@@ -1329,6 +1400,7 @@ export interface SensitivityAnalysis {
   variables: SensitivityVariable[]
   scenarios: SensitivityScenario[]
   results: SensitivityResult[]
+  tornado: TornadoBar[]
 }
 
 export interface SensitivityVariable {
@@ -1354,6 +1426,13 @@ export interface SensitivityResult {
   variance: Record<string, number>
 }
 
+/** Profit over the projection with one variable at each end of its range */
+export interface TornadoBar {
+  variable: string
+  low: { value: number; profit: number }
+  high: { value: number; profit: number }
+}
+
 export interface BusinessValuation {
   methods: ValuationMethod[]
   multiples: ValuationMultiple[]
@@ -166,7 +166,7 @@ export const MarketingChannelSchema = z.object({
 export const MilestoneSchema = z.object({
   name: z.string(),
   description: z.string(),
-  dueDate: z.date(),
+  dueDate: z.coerce.date(),
   deliverables: z.array(z.string()),
   successCriteria: z.array(z.string())
 })
@@ -193,6 +193,28 @@ export const CompetitorAnalysisSchema = z.object({
   whitespace: z.array(z.string())
 })
 
+export const CompetitorDataSchema = z.object({
+  name: z.string().min(1),
+  category: z.enum(['direct', 'indirect', 'substitute']),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  pricing: z.object({
+    model: z.string(),
+    tiers: z.array(PricingTierSchema),
+    freeTrial: z.boolean(),
+    customPricing: z.boolean()
+  }),
+  features: z.array(z.string()),
+  marketShare: z.number().min(0).max(100),
+  userReviews: z.object({
+    averageRating: z.number().min(0).max(5),
+    totalReviews: z.number().int().nonnegative(),
+    positiveAspects: z.array(z.string()),
+    negativeAspects: z.array(z.string()),
+    commonComplaints: z.array(z.string())
+  })
+})
+
 export const ProductPlanSchema = z.object({
   targetAudience: AudienceProfileSchema,
   coreFeatures: z.array(FeatureSchema),
@@ -381,7 +403,9 @@ export const MonthlyProjectionSchema = z.object({
   users: z.number().nonnegative(),
   revenue: z.number().nonnegative(),
   churn: z.number().min(0).max(1).optional(),
-  growth: z.number().optional()
+  growth: z.number().optional(),
+  costs: z.number().nonnegative().optional(),
+  cash: z.number().optional()
 })
 
 export const RevenueScenarioSchema = z.object({
@@ -401,10 +425,10 @@ export const RevenueProjectionSchema = z.object({
 export const BusinessMetricsSchema = z.object({
   cac: z.number().nonnegative(),
   ltv: z.number().nonnegative(),
-  ltvCacRatio: z.number().positive(),
+  ltvCacRatio: z.number().nonnegative(),
   burnRate: z.number().nonnegative(),
-  runway: z.number().nonnegative(),
-  breakeven: z.number().nonnegative(),
+  runway: z.number().min(-1),
+  breakeven: z.number().min(-1),
   roi: z.number()
 })
 
@@ -464,12 +488,51 @@ export const RiskSchema = z.object({
   category: z.string()
 })
 
+export const ScheduledTaskSchema = z.object({
+  taskId: z.string(),
+  phaseId: z.string(),
+  earliestStart: z.number().nonnegative(),
+  earliestFinish: z.number().nonnegative(),
+  latestStart: z.number().nonnegative(),
+  latestFinish: z.number().nonnegative(),
+  slack: z.number().nonnegative(),
+  critical: z.boolean(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date()
+})
+
+export const ScheduledPhaseSchema = z.object({
+  phaseId: z.string(),
+  start: z.number().nonnegative(),
+  finish: z.number().nonnegative(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date()
+})
+
+// Schedules are stored as JSON, so their dates are read back from strings
+export const RoadmapScheduleSchema = z.object({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  durationDays: z.number().nonnegative(),
+  teamSize: z.number().int().positive(),
+  hoursPerDay: z.number().positive(),
+  tasks: z.array(ScheduledTaskSchema),
+  phases: z.array(ScheduledPhaseSchema),
+  criticalPath: z.array(z.string()),
+  issues: z.array(z.object({
+    type: z.enum(['cycle', 'dangling']),
+    message: z.string(),
+    taskIds: z.array(z.string())
+  }))
+})
+
 export const RoadmapSchema = z.object({
   phases: z.array(PhaseSchema),
   totalEstimate: z.number().positive(),
   timeline: z.string(),
   dependencies: z.array(DependencySchema),
-  risks: z.array(RiskSchema)
+  risks: z.array(RiskSchema),
+  schedule: RoadmapScheduleSchema.optional()
 })
 
 export const BlueprintSchema = z.object({
@@ -840,7 +903,8 @@ export const UserPersonaSchema = z.object({
     purchasing: z.array(z.string()),
     communication: z.array(z.string())
   }),
-  preferredChannels: z.array(z.string())
+  preferredChannels: z.array(z.string()),
+  willingnessToPay: z.number().nonnegative().optional()
 })
 
 export const ValuePropositionSchema = z.object({
@@ -1276,9 +1340,20 @@ export const FinancialAssumptionsSchema = z.object({
   }),
   pricing: z.object({
     strategy: z.string(),
+    price: z.number().nonnegative(),
     elasticity: z.number(),
     increases: z.array(z.number())
   }),
+  customers: z.object({
+    signups: z.number().nonnegative(),
+    growth: z.number(),
+    conversion: z.number().min(0).max(1),
+    churn: z.number().min(0).max(1),
+    cac: z.number().nonnegative()
+  }),
+  funding: z.object({
+    cash: z.number()
+  }),
   costs: z.object({
     inflation: z.number(),
     optimization: z.number(),
@@ -1300,7 +1375,7 @@ export const BusinessValuationSchema = z.object({
   })),
   multiples: z.array(z.object({
     metric: z.string(),
-    multiple: z.number().positive(),
+    multiple: z.number().nonnegative(),
     value: z.number().nonnegative(),
     comparables: z.array(z.string())
   })),
@@ -1317,7 +1392,7 @@ export const BusinessValuationSchema = z.object({
       name: z.string(),
       metrics: z.record(z.string(), z.number()),
       adjustments: z.record(z.string(), z.number()),
-      weight: z.number().min(0).max(1)
+      weight: z.number().min(0)
     })),
     metrics: z.array(z.string()),
     adjustments: z.array(z.string()),
@@ -1347,6 +1422,11 @@ export const ComprehensiveFinancialModelSchema = FinancialModelSchema.extend({
       scenario: z.string(),
       metrics: z.record(z.string(), z.number()),
       variance: z.record(z.string(), z.number())
+    })),
+    tornado: z.array(z.object({
+      variable: z.string(),
+      low: z.object({ value: z.number(), profit: z.number() }),
+      high: z.object({ value: z.number(), profit: z.number() })
     }))
   }).optional(),
   valuation: BusinessValuationSchema.optional(),
@@ -1371,7 +1451,8 @@ export const ComprehensiveFinancialModelSchema = FinancialModelSchema.extend({
       closing: z.string(),
       milestones: z.array(z.object({
         name: z.string(),
-        date: z.date(),
+        // Stored as JSON, so read back from a string
+        date: z.coerce.date(),
         requirements: z.array(z.string()),
         deliverables: z.array(z.string())
       }))
@@ -1394,28 +1475,8 @@ export const ComprehensiveFinancialModelSchema = FinancialModelSchema.extend({
 // EXPORT VALIDATION FUNCTIONS
 // ============================================================================
 
-export const validateIdeaInput = (data: unknown) => IdeaInputSchema.safeParse(data)
-export const validateEnhancedIdeaInput = (data: unknown) => EnhancedIdeaInputSchema.safeParse(data)
-export const validateDetailedProcessedIdea = (data: unknown) => DetailedProcessedIdeaSchema.safeParse(data)
-export const validateProject = (data: unknown) => ProjectSchema.safeParse(data)
-export const validateBlueprint = (data: unknown) => BlueprintSchema.safeParse(data)
-export const validateComprehensiveProductPlan = (data: unknown) => ComprehensiveProductPlanSchema.safeParse(data)
-export const validateComprehensiveTechStack = (data: unknown) => ComprehensiveTechStackSchema.safeParse(data)
-export const validateComprehensiveAIWorkflow = (data: unknown) => ComprehensiveAIWorkflowSchema.safeParse(data)
 export const validateComprehensiveRoadmap = (data: unknown) => ComprehensiveRoadmapSchema.safeParse(data)
 export const validateComprehensiveFinancialModel = (data: unknown) => ComprehensiveFinancialModelSchema.safeParse(data)
-export const validateUser = (data: unknown) => UserSchema.safeParse(data)
-export const validateGenerationJob = (data: unknown) => GenerationJobSchema.safeParse(data)
-export const validateTemplate = (data: unknown) => TemplateSchema.safeParse(data)
-export const validateScaleEstimate = (data: unknown) => ScaleEstimateSchema.safeParse(data)
-export const validateCostConstraints = (data: unknown) => CostConstraintsSchema.safeParse(data)
-export const validateProjectStructure = (data: unknown) => ProjectStructureSchema.safeParse(data)
-export const validateSetupInstructions = (data: unknown) => SetupInstructionsSchema.safeParse(data)
-export const validateServiceResult = (data: unknown) => ServiceResultSchema.safeParse(data)
-export const validateNotification = (data: unknown) => NotificationSchema.safeParse(data)
-export const validateAnalyticsEvent = (data: unknown) => AnalyticsEventSchema.safeParse(data)
-export const validateFileMetadata = (data: unknown) => FileMetadataSchema.safeParse(data)
-export const validateEmailOptions = (data: unknown) => EmailOptionsSchema.safeParse(data)
 export const validateUserPersona = (data: unknown) => UserPersonaSchema.safeParse(data)
 export const validateValueProposition = (data: unknown) => ValuePropositionSchema.safeParse(data)
 export const validateBusinessModelCanvas = (data: unknown) => BusinessModelCanvasSchema.safeParse(data)
@@ -1429,142 +1490,25 @@ export const validateFinancialAssumptions = (data: unknown) => FinancialAssumpti
 export const validateBusinessValuation = (data: unknown) => BusinessValuationSchema.safeParse(data)
 
 // Helper function to create validation middleware
-export const createValidationMiddleware = <T>(schema: z.ZodSchema<T>) => {
-  return (data: unknown): T => {
-    const result = schema.safeParse(data)
-    if (!result.success) {
-      throw new Error(`Validation failed: ${result.error.message}`)
-    }
-    return result.data
-  }
-}
 
 // Helper function to validate and transform data
-export const validateAndTransform = <T>(
-  data: unknown,
-  schema: z.ZodSchema<T>,
-  errorMessage?: string
-): T => {
-  const result = schema.safeParse(data)
-  if (!result.success) {
-    const message = errorMessage || `Validation failed: ${result.error.message}`
-    throw new Error(message)
-  }
-  return result.data
-}
 
 // ============================================================================
 // ENHANCED VALIDATION FUNCTIONS
 // ============================================================================
 
-/**
- * Validation functions for all major types
- */
-export const validateUser = (data: unknown) => UserSchema.safeParse(data)
-export const validateProject = (data: unknown) => ProjectSchema.safeParse(data)
-export const validateBlueprint = (data: unknown) => BlueprintSchema.safeParse(data)
-export const validateIdeaInput = (data: unknown) => IdeaInputSchema.safeParse(data)
-export const validateProcessedIdea = (data: unknown) => ProcessedIdeaSchema.safeParse(data)
-export const validateProductPlan = (data: unknown) => ProductPlanSchema.safeParse(data)
-export const validateTechStack = (data: unknown) => TechStackSchema.safeParse(data)
-export const validateAIWorkflow = (data: unknown) => AIWorkflowSchema.safeParse(data)
-export const validateRoadmap = (data: unknown) => RoadmapSchema.safeParse(data)
-export const validateFinancialModel = (data: unknown) => FinancialModelSchema.safeParse(data)
-export const validateGenerationJob = (data: unknown) => GenerationJobSchema.safeParse(data)
-export const validateTemplate = (data: unknown) => TemplateSchema.safeParse(data)
 
-/**
- * Enhanced validation functions for comprehensive types
- */
-export const validateEnhancedIdeaInput = (data: unknown) => EnhancedIdeaInputSchema.safeParse(data)
-export const validateDetailedProcessedIdea = (data: unknown) => DetailedProcessedIdeaSchema.safeParse(data)
-export const validateComprehensiveProductPlan = (data: unknown) => ComprehensiveProductPlanSchema.safeParse(data)
-export const validateComprehensiveTechStack = (data: unknown) => ComprehensiveTechStackSchema.safeParse(data)
-export const validateComprehensiveAIWorkflow = (data: unknown) => ComprehensiveAIWorkflowSchema.safeParse(data)
 
-/**
- * Service validation functions
- */
-export const validateScaleEstimate = (data: unknown) => ScaleEstimateSchema.safeParse(data)
-export const validateCostConstraints = (data: unknown) => CostConstraintsSchema.safeParse(data)
-export const validateProjectStructure = (data: unknown) => ProjectStructureSchema.safeParse(data)
-export const validateSetupInstructions = (data: unknown) => SetupInstructionsSchema.safeParse(data)
-export const validateServiceResult = (data: unknown) => ServiceResultSchema.safeParse(data)
 
-/**
- * API validation functions
- */
-export const validateApiResponse = (data: unknown) => ApiResponseSchema.safeParse(data)
-export const validatePaginatedResponse = (data: unknown) => PaginatedResponseSchema.safeParse(data)
 
-/**
- * Utility validation functions
- */
-export const validateNotification = (data: unknown) => NotificationSchema.safeParse(data)
-export const validateAnalyticsEvent = (data: unknown) => AnalyticsEventSchema.safeParse(data)
-export const validateFileMetadata = (data: unknown) => FileMetadataSchema.safeParse(data)
-export const validateEmailOptions = (data: unknown) => EmailOptionsSchema.safeParse(data)
 
 // ============================================================================
 // VALIDATION HELPERS
 // ============================================================================
 
-/**
- * Helper function to validate and transform data
- */
-export const validateAndTransform = <T>(
-  schema: z.ZodSchema<T>,
-  data: unknown,
-  errorMessage?: string
-): T => {
-  const result = schema.safeParse(data)
-  if (!result.success) {
-    throw new Error(errorMessage || `Validation failed: ${result.error.message}`)
-  }
-  return result.data
-}
 
-/**
- * Helper function to validate arrays
- */
-export const validateArray = <T>(
-  itemSchema: z.ZodSchema<T>,
-  data: unknown,
-  errorMessage?: string
-): T[] => {
-  const arraySchema = z.array(itemSchema)
-  return validateAndTransform(arraySchema, data, errorMessage)
-}
 
-/**
- * Helper function to validate optional data
- */
-export const validateOptional = <T>(
-  schema: z.ZodSchema<T>,
-  data: unknown
-): T | undefined => {
-  if (data === undefined || data === null) {
-    return undefined
-  }
-  return validateAndTransform(schema, data)
-}
 
-/**
- * Helper function to create validation middleware
- */
-export const createValidationMiddleware = <T>(schema: z.ZodSchema<T>) => {
-  return (data: unknown): { isValid: boolean; data?: T; errors?: string[] } => {
-    const result = schema.safeParse(data)
-    if (result.success) {
-      return { isValid: true, data: result.data }
-    } else {
-      return {
-        isValid: false,
-        errors: result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
-      }
-    }
-  }
-}
 
 /**
  * Helper function to validate partial data (useful for updates)
@@ -1760,65 +1704,19 @@ export const validateWithContext = <T, C>(
 // COMPREHENSIVE VALIDATION FUNCTIONS
 // ============================================================================
 
-/**
- * Comprehensive validation functions for all major types
- */
-export const validateUser = (data: unknown) => UserSchema.safeParse(data)
-export const validateProject = (data: unknown) => ProjectSchema.safeParse(data)
-export const validateBlueprint = (data: unknown) => BlueprintSchema.safeParse(data)
-export const validateIdeaInput = (data: unknown) => IdeaInputSchema.safeParse(data)
-export const validateProcessedIdea = (data: unknown) => ProcessedIdeaSchema.safeParse(data)
-export const validateProductPlan = (data: unknown) => ProductPlanSchema.safeParse(data)
-export const validateTechStack = (data: unknown) => TechStackSchema.safeParse(data)
-export const validateAIWorkflow = (data: unknown) => AIWorkflowSchema.safeParse(data)
-export const validateRoadmap = (data: unknown) => RoadmapSchema.safeParse(data)
-export const validateFinancialModel = (data: unknown) => FinancialModelSchema.safeParse(data)
-export const validateGenerationJob = (data: unknown) => GenerationJobSchema.safeParse(data)
-export const validateTemplate = (data: unknown) => TemplateSchema.safeParse(data)
-export const validateAnalyticsEvent = (data: unknown) => AnalyticsEventDbSchema.safeParse(data)
 export const validateCodingPrompt = (data: unknown) => CodingPromptSchema.safeParse(data)
 
 // Enhanced validation functions
-export const validateEnhancedIdeaInput = (data: unknown) => EnhancedIdeaInputSchema.safeParse(data)
-export const validateDetailedProcessedIdea = (data: unknown) => DetailedProcessedIdeaSchema.safeParse(data)
-export const validateComprehensiveProductPlan = (data: unknown) => ComprehensiveProductPlanSchema.safeParse(data)
-export const validateComprehensiveTechStack = (data: unknown) => ComprehensiveTechStackSchema.safeParse(data)
-export const validateComprehensiveAIWorkflow = (data: unknown) => ComprehensiveAIWorkflowSchema.safeParse(data)
 
 // Service validation functions
-export const validateScaleEstimate = (data: unknown) => ScaleEstimateSchema.safeParse(data)
-export const validateCostConstraints = (data: unknown) => CostConstraintsSchema.safeParse(data)
 export const validateFinancialScenario = (data: unknown) => FinancialScenarioSchema.safeParse(data)
-export const validateProjectStructure = (data: unknown) => ProjectStructureSchema.safeParse(data)
-export const validateSetupInstructions = (data: unknown) => SetupInstructionsSchema.safeParse(data)
-export const validateServiceResult = (data: unknown) => ServiceResultSchema.safeParse(data)
-export const validateNotification = (data: unknown) => NotificationSchema.safeParse(data)
-export const validateFileMetadata = (data: unknown) => FileMetadataSchema.safeParse(data)
-export const validateEmailOptions = (data: unknown) => EmailOptionsSchema.safeParse(data)
 
 // API validation functions
-export const validateApiResponse = (data: unknown) => ApiResponseSchema.safeParse(data)
-export const validatePaginatedResponse = (data: unknown) => PaginatedResponseSchema.safeParse(data)
 
 // ============================================================================
 // VALIDATION HELPER FUNCTIONS
 // ============================================================================
 
-/**
- * Validate and transform data with custom error handling
- */
-export const validateAndTransform = <T>(
-  data: unknown,
-  schema: z.ZodSchema<T>,
-  errorMessage?: string
-): T => {
-  const result = schema.safeParse(data)
-  if (!result.success) {
-    const errors = result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ')
-    throw new Error(errorMessage || `Validation failed: ${errors}`)
-  }
-  return result.data
-}
 
 /**
  * Validate data and return validation result with detailed errors
@@ -1850,14 +1748,6 @@ export const validateWithDetails = <T>(
   }
 }
 
-/**
- * Create a validation middleware for API routes
- */
-export const createValidationMiddleware = <T>(schema: z.ZodSchema<T>) => {
-  return (data: unknown): T => {
-    return validateAndTransform(data, schema, 'Invalid request data')
-  }
-}
 
 /**
  * Batch validate multiple items
@@ -1887,16 +1777,6 @@ export const batchValidate = <T>(
   return { valid, invalid }
 }
 
-/**
- * Validate partial data (useful for updates)
- */
-export const validatePartial = <T>(
-  data: unknown,
-  schema: z.ZodSchema<T>
-): Partial<T> => {
-  const partialSchema = schema.partial()
-  return validateAndTransform(data, partialSchema, 'Invalid partial data')
-}
 
 /**
  * Validate and sanitize user input
@@ -1917,7 +1797,7 @@ export const sanitizeAndValidate = <T>(
     })
   }
   
-  return validateAndTransform(sanitizedData, schema, 'Invalid or unsafe data')
+  return validateAndTransform(schema, sanitizedData, 'Invalid or unsafe data')
 }
 
 // ============================================================================
@@ -2005,7 +1885,7 @@ export const validationPresets = {
       path: ["confirmPassword"]
     })
     
-    return validateAndTransform(data, schema, 'Invalid registration data')
+    return validateAndTransform(schema, data, 'Invalid registration data')
   },
   
   /**
@@ -2019,7 +1899,7 @@ export const validationPresets = {
       category: z.string().optional()
     })
     
-    return validateAndTransform(data, schema, 'Invalid project data')
+    return validateAndTransform(schema, data, 'Invalid project data')
   },
   
   /**
@@ -2046,7 +1926,7 @@ export const validationPresets = {
    * Validate user preferences update
    */
   userPreferencesUpdate: (data: unknown) => {
-    return validatePartial(data, UserPreferencesSchema)
+    return validatePartial(UserPreferencesSchema, data)
   },
   
   /**
@@ -2060,6 +1940,6 @@ export const validationPresets = {
       includeMetadata: z.boolean().default(true)
     })
     
-    return validateAndTransform(data, schema, 'Invalid export request')
+    return validateAndTransform(schema, data, 'Invalid export request')
   }
 }
\ No newline at end of file